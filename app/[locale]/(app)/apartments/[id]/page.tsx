@@ -11,6 +11,7 @@ import { trackEvent } from '@/components/AnalyticsProvider';
 import { ArrowLeft, BookmarkPlus, GitCompare } from 'lucide-react';
 import { analyzeApartmentArchetype } from '@/utils/archetype-mapper';
 import ArchetypeAnalysis from '@/components/ArchetypeAnalysis';
+import PriceHistoryChart from '@/components/PriceHistoryChart';
 import type { Session } from '@supabase/supabase-js';
 
 // Dynamic imports for heavy components
@@ -330,6 +331,9 @@ export default function ApartmentDetailsPage({ params }: { params: { id: string
               </div>
             </div>
 
+            {/* Price History */}
+            <PriceHistoryChart apartmentId={apartment.id} />
+
             {/* Location Map */}
             {(apartment.latitude && apartment.longitude) && (
               <div className="bg-white rounded-xl shadow-lg overflow-hidden">
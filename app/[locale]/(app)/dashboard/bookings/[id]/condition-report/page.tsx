@@ -0,0 +1,50 @@
+import { createClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import ConditionReportEditor from '@/components/ConditionReportEditor';
+
+interface ConditionReportPageProps {
+  params: {
+    id: string;
+  };
+}
+
+export default async function TenantConditionReportPage({ params }: ConditionReportPageProps) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  const { data: booking } = await supabase
+    .from('bookings')
+    .select('id, apartments(title, address)')
+    .eq('id', params.id)
+    .eq('tenant_id', user.id)
+    .single();
+
+  if (!booking) {
+    redirect('/dashboard/bookings');
+  }
+
+  const apt: any = booking.apartments;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center gap-4 mb-8">
+          <Link href="/dashboard/bookings" className="text-blue-600 hover:text-blue-700">
+            ← Back
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Condition Report</h1>
+            <p className="text-gray-600 mt-1">{apt?.title}{apt?.address ? ` · ${apt.address}` : ''}</p>
+          </div>
+        </div>
+
+        <ConditionReportEditor bookingId={booking.id} role="tenant" />
+      </div>
+    </div>
+  );
+}
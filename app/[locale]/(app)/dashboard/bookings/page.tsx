@@ -2,6 +2,13 @@ import { createClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
+import DepositSettlement from '@/components/DepositSettlement';
+import LeaseActions, {
+  LeaseProgress,
+  LEASE_STATUS_STYLES,
+  type HeldRentPayment,
+  type LeaseStatusName,
+} from '@/components/LeaseActions';
 
 export default async function BookingsPage() {
   const supabase = createClient();
@@ -13,8 +20,8 @@ export default async function BookingsPage() {
 
   const { data: bookings } = await supabase
     .from('bookings')
-    .select('*, apartments(title, district, image_urls, address)')
-    .eq('user_id', user.id)
+    .select('*, apartments(title, district, image_urls, address), lease_payments(id, kind, status, amount_huf, period_start)')
+    .eq('tenant_id', user.id)
     .order('created_at', { ascending: false });
 
   return (
@@ -36,18 +43,20 @@ export default async function BookingsPage() {
           <div className="space-y-4">
             {bookings.map((booking: any) => {
               const apt = booking.apartments;
-              const statusColors = {
-                pending: 'bg-yellow-100 text-yellow-800 border-yellow-200',
-                approved: 'bg-green-100 text-green-800 border-green-200',
-                rejected: 'bg-red-100 text-red-800 border-red-200',
-                cancelled: 'bg-gray-100 text-gray-800 border-gray-200',
-              };
+              const status = booking.status as LeaseStatusName;
+              // Rent charges the tenant's bank held back for confirmation
+              const heldRentPayments: HeldRentPayment[] = (booking.lease_payments ?? [])
+                .filter((payment: any) => payment.kind === 'rent' && payment.status === 'requires_action')
+                .map((payment: any) => ({
+                  id: payment.id,
+                  amountHuf: payment.amount_huf,
+                  periodStart: payment.period_start,
+                }));
 
               const paymentColors = {
                 unpaid: 'bg-gray-100 text-gray-700',
-                pending: 'bg-yellow-100 text-yellow-700',
                 paid: 'bg-green-100 text-green-700',
-                failed: 'bg-red-100 text-red-700',
+                refunded: 'bg-blue-100 text-blue-700',
               };
 
               return (
@@ -89,6 +98,12 @@ export default async function BookingsPage() {
                                 {new Date(booking.move_in_date).toLocaleDateString()}
                               </span>
                             </div>
+                            <div>
+                              <span className="text-gray-500">Move-out:</span>
+                              <span className="ml-2 font-medium text-gray-900">
+                                {booking.move_out_date ? new Date(booking.move_out_date).toLocaleDateString() : 'N/A'}
+                              </span>
+                            </div>
                             <div>
                               <span className="text-gray-500">Lease:</span>
                               <span className="ml-2 font-medium text-gray-900">
@@ -102,6 +117,10 @@ export default async function BookingsPage() {
                               </span>
                             </div>
                           </div>
+
+                          <div className="mt-4">
+                            <LeaseProgress status={status} />
+                          </div>
                         </div>
                       </div>
 
@@ -111,7 +130,7 @@ export default async function BookingsPage() {
                         <div className="space-y-2">
                           <div className="flex items-center justify-between">
                             <span className="text-sm text-gray-500">Status:</span>
-                            <span className={`px-3 py-1 rounded-full text-xs font-medium border ${statusColors[booking.status as keyof typeof statusColors] || statusColors.pending}`}>
+                            <span className={`px-3 py-1 rounded-full text-xs font-medium border ${LEASE_STATUS_STYLES[status] || LEASE_STATUS_STYLES.requested}`}>
                               {booking.status.toUpperCase()}
                             </span>
                           </div>
@@ -126,34 +145,26 @@ export default async function BookingsPage() {
 
                         {/* Amount */}
                         <div className="border-t border-gray-200 pt-4">
-                          <div className="text-sm text-gray-500 mb-1">Total Amount:</div>
+                          <div className="text-sm text-gray-500 mb-1">Monthly Rent:</div>
                           <div className="text-2xl font-bold text-yellow-600">
-                            {booking.total_amount?.toLocaleString() || 'N/A'} HUF
+                            {booking.monthly_rent_huf?.toLocaleString() || 'N/A'} HUF
                           </div>
-                          {booking.deposit_amount && (
+                          {booking.first_payment_huf && (
                             <div className="text-xs text-gray-500 mt-1">
-                              Including {booking.deposit_amount.toLocaleString()} HUF deposit
+                              Due at signing: {booking.first_payment_huf.toLocaleString()} HUF
+                              (first month + {booking.security_deposit_huf?.toLocaleString()} HUF deposit)
                             </div>
                           )}
                         </div>
 
                         {/* Actions */}
                         <div className="space-y-2">
-                          {booking.status === 'pending' && booking.payment_status === 'unpaid' && (
-                            <Link
-                              href={`/dashboard/bookings/${booking.id}/pay`}
-                              className="block w-full text-center px-4 py-2 bg-yellow-400 hover:bg-yellow-500 text-gray-900 font-semibold rounded-lg transition"
-                            >
-                              Complete Payment
-                            </Link>
-                          )}
-
-                          {booking.status === 'approved' && booking.payment_status === 'paid' && (
+                          {status === 'active' && (
                             <div className="flex items-center gap-2 text-sm text-green-700 bg-green-50 p-3 rounded-lg border border-green-200">
                               <svg className="w-5 h-5 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
                                 <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
                               </svg>
-                              <span className="font-medium">Booking Confirmed!</span>
+                              <span className="font-medium">Lease Active</span>
                             </div>
                           )}
 
@@ -164,19 +175,31 @@ export default async function BookingsPage() {
                             💬 Message Owner
                           </Link>
 
-                          {booking.status === 'pending' && (
-                            <button
-                              className="w-full text-center px-4 py-2 text-red-600 hover:bg-red-50 font-medium rounded-lg transition text-sm"
+                          {['accepted', 'signed', 'active', 'ended'].includes(status) && (
+                            <Link
+                              href={`/dashboard/bookings/${booking.id}/condition-report`}
+                              className="block w-full text-center px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium rounded-lg transition"
                             >
-                              Cancel Application
-                            </button>
+                              📋 Condition Report
+                            </Link>
                           )}
+
+                          <LeaseActions
+                            bookingId={booking.id}
+                            role="tenant"
+                            status={status}
+                            paymentStatus={booking.payment_status}
+                            firstPaymentHuf={booking.first_payment_huf}
+                            terminationDate={booking.termination_date}
+                            terminationAccepted={Boolean(booking.termination_accepted_at)}
+                            heldRentPayments={heldRentPayments}
+                          />
                         </div>
                       </div>
                     </div>
 
                     {/* Payment Receipt Link */}
-                    {booking.payment_intent_id && booking.payment_status === 'paid' && (
+                    {booking.payment_id && booking.payment_status === 'paid' && (
                       <div className="mt-4 pt-4 border-t border-gray-200">
                         <Link
                           href={`/dashboard/bookings/${booking.id}/receipt`}
@@ -189,6 +212,10 @@ export default async function BookingsPage() {
                         </Link>
                       </div>
                     )}
+
+                    {booking.payment_status === 'paid' && booking.security_deposit_huf > 0 && (
+                      <DepositSettlement bookingId={booking.id} role="tenant" />
+                    )}
                   </div>
                 </div>
               );
@@ -0,0 +1,31 @@
+import { createClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import InvoiceList from '@/components/InvoiceList';
+
+export default async function TenantInvoicesPage() {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center gap-4 mb-8">
+          <Link href="/dashboard" className="text-blue-600 hover:text-blue-700">
+            ← Back
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Invoices</h1>
+            <p className="text-gray-600 mt-1">Invoices from your landlord for every rent payment.</p>
+          </div>
+        </div>
+
+        <InvoiceList role="tenant" />
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,8 @@ import ProfileSidebar from '@/components/ProfileSidebar';
 import ChatImageUploader from '@/components/ChatImageUploader';
 import { sanitizeUserInput } from '@/lib/sanitize';
 import { createClient } from '@/utils/supabaseClient';
+import { ConversationKeyring } from '@/lib/e2ee/keyring';
+import { maskContactInfo, postMessage } from '@/lib/messaging';
 
 interface ConversationSummary {
   conversationId: string;
@@ -87,6 +89,23 @@ export default function MessagesPage() {
     position: { x: 0, y: 0 },
   });
 
+  // Messages are end-to-end encrypted; the private key stays in this browser
+  const keyringRef = useRef<{ userId: string; keyring: ConversationKeyring } | null>(null);
+  const keyringFor = useCallback((userId: string) => {
+    if (keyringRef.current?.userId !== userId) {
+      keyringRef.current = { userId, keyring: new ConversationKeyring(userId) };
+    }
+    return keyringRef.current.keyring;
+  }, []);
+
+  const decryptRow = useCallback(
+    async (row: MessageRow, conversationId: string, userId: string): Promise<MessageItem> => {
+      const message = mapRowToMessage(row);
+      return { ...message, content: await keyringFor(userId).decrypt(conversationId, row.content) };
+    },
+    [keyringFor]
+  );
+
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, []);
@@ -102,23 +121,15 @@ export default function MessagesPage() {
 
     setSending(true);
     try {
-      // Use the API endpoint for sending images
-      const response = await fetch('/api/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+      // Use the API endpoint for sending images; the marker is encrypted like any message
+      await postMessage(
+        {
           conversationId: selectedConversationId,
           receiverId: conversation.otherUserId,
           content: `[Image: ${imageUrl}]`,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to send image');
-      }
+        },
+        keyringFor(user.id)
+      );
 
       await loadMessages(selectedConversationId);
     } catch (error) {
@@ -297,8 +308,9 @@ export default function MessagesPage() {
         }
       }
 
-      const conversationList: ConversationSummary[] = Array.from(grouped.entries()).map(
-        ([conversationId, rows]) => {
+      const keyring = keyringFor(authUser.id);
+      const conversationList: ConversationSummary[] = await Promise.all(Array.from(grouped.entries()).map(
+        async ([conversationId, rows]) => {
           const sortedRows = rows
             .slice()
             .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
@@ -321,12 +333,12 @@ export default function MessagesPage() {
               (otherUserId ? `User ${otherUserId.slice(0, 8)}` : 'User'),
             otherUserEmail: otherProfile?.email,
             otherUserAvatar: otherProfile?.avatar_url || undefined,
-            lastMessage: latest.content,
+            lastMessage: await keyring.decrypt(conversationId, latest.content),
             lastMessageTime: latest.created_at,
             unreadCount,
           };
         }
-      );
+      ));
 
       conversationList.sort(
         (a, b) => new Date(b.lastMessageTime).getTime() - new Date(a.lastMessageTime).getTime()
@@ -342,7 +354,7 @@ export default function MessagesPage() {
     } finally {
       setLoading(false);
     }
-  }, [router, supabase]);
+  }, [keyringFor, router, supabase]);
 
   const loadMessages = useCallback(
     async (conversationId: string) => {
@@ -361,7 +373,7 @@ export default function MessagesPage() {
         return;
       }
 
-      setMessages((data || []).map(mapRowToMessage));
+      setMessages(await Promise.all((data || []).map((row) => decryptRow(row, conversationId, userId))));
       await markConversationAsRead(conversationId, userId);
       setConversations(prev =>
         prev.map(conversation =>
@@ -372,7 +384,7 @@ export default function MessagesPage() {
       );
       scrollToBottom();
     },
-    [markConversationAsRead, scrollToBottom, supabase, user?.id]
+    [decryptRow, markConversationAsRead, scrollToBottom, supabase, user?.id]
   );
 
   const handleConversationSelect = useCallback(
@@ -408,25 +420,17 @@ export default function MessagesPage() {
       setNewMessage('');  // Clear input immediately for better UX
 
       try {
-        // Use the API endpoint instead of direct database insert
-        const response = await fetch('/api/messages', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
+        // Use the API endpoint instead of direct database insert. Contact
+        // details are masked before encryption; the server only sees ciphertext.
+        const plaintext = maskContactInfo(sanitized);
+        const insertedMessage = await postMessage(
+          {
             conversationId: selectedConversationId,
             receiverId: conversation.otherUserId,
-            content: sanitized,
-          }),
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || 'Failed to send message');
-        }
-
-        const { message: insertedMessage } = await response.json();
+            content: plaintext,
+          },
+          keyringFor(user.id)
+        );
 
         // Optimistic update: immediately add the message to the UI
         if (insertedMessage) {
@@ -442,7 +446,7 @@ export default function MessagesPage() {
           // Update the conversation preview in the list
           setConversations(prev => prev.map(conv =>
             conv.conversationId === selectedConversationId
-              ? { ...conv, lastMessage: sanitized, lastMessageTime: insertedMessage.created_at }
+              ? { ...conv, lastMessage: plaintext, lastMessageTime: insertedMessage.created_at }
               : conv
           ));
 
@@ -457,7 +461,7 @@ export default function MessagesPage() {
         setSending(false);
       }
     },
-    [conversations, newMessage, selectedConversationId, scrollToBottom, supabase, user?.id]
+    [conversations, keyringFor, newMessage, selectedConversationId, scrollToBottom, user?.id]
   );
 
   const handleProfileClick = useCallback(
@@ -520,7 +524,8 @@ export default function MessagesPage() {
           }
 
           if (selectedConversationId && newRow.conversation_id === selectedConversationId) {
-            setMessages(prev => [...prev, mapRowToMessage(newRow)]);
+            const message = await decryptRow(newRow, selectedConversationId, user.id);
+            setMessages(prev => [...prev, message]);
             if (newRow.receiver_id === user.id) {
               await markConversationAsRead(selectedConversationId, user.id);
             }
@@ -536,6 +541,7 @@ export default function MessagesPage() {
       supabase.removeChannel(channel);
     };
   }, [
+    decryptRow,
     loadUserAndConversations,
     markConversationAsRead,
     scrollToBottom,
@@ -24,6 +24,16 @@ interface AnalyticsData {
     revenue: number;
     occupancyRate: number;
   }>;
+  // From the ledger; absent while the owner has no listings
+  earnings?: {
+    grossRent: number;
+    depositDeductions: number;
+    refunds: number;
+    commission: number;
+    adjustments: number;
+    netEarnings: number;
+    paidOut: number;
+  };
 }
 
 interface PeriodComparison {
@@ -58,6 +68,7 @@ export default function OwnerAnalytics() {
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [statementMonth, setStatementMonth] = useState<string>(new Date().toISOString().slice(0, 7));
 
   // Date range state
   const [dateRange, setDateRange] = useState<'all' | 'month' | 'quarter' | 'year' | 'custom'>('month');
@@ -329,6 +340,69 @@ export default function OwnerAnalytics() {
           </div>
         </div>
 
+        {/* Earnings breakdown */}
+        {!loading && analytics.earnings && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+            <div className="bg-white rounded-lg shadow p-6 lg:col-span-2">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Earnings This Period</h2>
+              <dl className="divide-y divide-gray-100 text-sm">
+                {[
+                  ['Rent received', analytics.earnings.grossRent],
+                  ['Deposit deductions', analytics.earnings.depositDeductions],
+                  ['Refunds', -analytics.earnings.refunds],
+                  ['Platform commission', -analytics.earnings.commission],
+                  ...(analytics.earnings.adjustments !== 0
+                    ? [['Adjustments', analytics.earnings.adjustments] as [string, number]]
+                    : []),
+                ].map(([label, amount]) => (
+                  <div key={label} className="flex justify-between py-2">
+                    <dt className="text-gray-600">{label}</dt>
+                    <dd className={Number(amount) < 0 ? 'text-red-600' : 'text-gray-900'}>
+                      {Number(amount).toLocaleString()} HUF
+                    </dd>
+                  </div>
+                ))}
+                <div className="flex justify-between py-2 font-semibold">
+                  <dt className="text-gray-900">Net earnings</dt>
+                  <dd className="text-gray-900">{analytics.earnings.netEarnings.toLocaleString()} HUF</dd>
+                </div>
+                <div className="flex justify-between py-2">
+                  <dt className="text-gray-600">Paid out to your bank</dt>
+                  <dd className="text-gray-900">{analytics.earnings.paidOut.toLocaleString()} HUF</dd>
+                </div>
+              </dl>
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-2">Monthly Statements</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Every payment, refund, commission and payout in a month, for your accountant.
+              </p>
+              <input
+                type="month"
+                value={statementMonth}
+                max={new Date().toISOString().slice(0, 7)}
+                onChange={(e) => setStatementMonth(e.target.value)}
+                className="text-sm border border-gray-300 rounded-lg px-3 py-2 mb-4 w-full focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <div className="flex gap-3">
+                <a
+                  href={`/api/owner/statements?month=${statementMonth}&format=pdf`}
+                  className="flex-1 text-center text-sm font-medium bg-blue-600 text-white rounded-lg px-3 py-2 hover:bg-blue-700"
+                >
+                  Download PDF
+                </a>
+                <a
+                  href={`/api/owner/statements?month=${statementMonth}&format=csv`}
+                  className="flex-1 text-center text-sm font-medium border border-gray-300 text-gray-700 rounded-lg px-3 py-2 hover:bg-gray-50"
+                >
+                  Download CSV
+                </a>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Performance by Apartment */}
         <div className="bg-white rounded-lg shadow mb-8">
           <div className="px-6 py-4 border-b border-gray-200">
@@ -1,6 +1,8 @@
 import { createClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
 import Link from 'next/link';
+import DepositSettlement from '@/components/DepositSettlement';
+import LeaseActions, { LEASE_STATUS_STYLES, type LeaseStatusName } from '@/components/LeaseActions';
 
 export default async function OwnerBookings() {
   const supabase = createClient();
@@ -89,40 +91,50 @@ export default async function OwnerBookings() {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {booking.lease_months} months
+                      {booking.move_out_date && (
+                        <div className="text-xs text-gray-500">
+                          until {new Date(booking.move_out_date).toLocaleDateString()}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-medium text-gray-900">
-                        {booking.total_amount?.toLocaleString()} HUF
+                        {booking.monthly_rent_huf?.toLocaleString()} HUF / month
                       </div>
+                      {booking.security_deposit_huf > 0 && (
+                        <div className="text-xs text-gray-500">
+                          {booking.security_deposit_huf.toLocaleString()} HUF deposit
+                        </div>
+                      )}
                       <div className="text-xs text-gray-500">
                         {booking.payment_status}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${booking.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
-                          booking.status === 'approved' ? 'bg-green-100 text-green-800' :
-                            booking.status === 'rejected' ? 'bg-red-100 text-red-800' :
-                              booking.status === 'cancelled' ? 'bg-gray-100 text-gray-800' :
-                                'bg-blue-100 text-blue-800'
-                        }`}>
+                      <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${LEASE_STATUS_STYLES[booking.status as LeaseStatusName] || LEASE_STATUS_STYLES.requested}`}>
                         {booking.status}
                       </span>
                     </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                      {booking.status === 'pending' && (
-                        <div className="flex gap-2">
-                          <button className="text-green-600 hover:text-green-900">
-                            Approve
-                          </button>
-                          <button className="text-red-600 hover:text-red-900">
-                            Reject
-                          </button>
-                        </div>
+                    <td className="px-6 py-4 text-sm font-medium max-w-sm">
+                      <LeaseActions
+                        bookingId={booking.id}
+                        role="owner"
+                        status={booking.status}
+                        paymentStatus={booking.payment_status}
+                        firstPaymentHuf={booking.first_payment_huf}
+                        terminationDate={booking.termination_date}
+                        terminationAccepted={Boolean(booking.termination_accepted_at)}
+                      />
+                      {['accepted', 'signed', 'active', 'ended'].includes(booking.status) && (
+                        <Link
+                          href={`/owner/bookings/${booking.id}/condition-report`}
+                          className="mt-2 inline-block text-yellow-600 hover:text-yellow-700"
+                        >
+                          Condition report
+                        </Link>
                       )}
-                      {booking.status !== 'pending' && (
-                        <button className="text-blue-600 hover:text-blue-900">
-                          View Details
-                        </button>
+                      {booking.payment_status === 'paid' && booking.security_deposit_huf > 0 && (
+                        <DepositSettlement bookingId={booking.id} role="owner" />
                       )}
                     </td>
                   </tr>
@@ -3,15 +3,17 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { createClient } from '@/utils/supabaseClient';
 import { sanitizeUserInput } from '@/lib/sanitize';
+import { ConversationKeyring } from '@/lib/e2ee/keyring';
+import { maskContactInfo, postMessage } from '@/lib/messaging';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 
 interface Conversation {
-  conversation_key: string;
+  id: string;
   apartment_id: string;
   apartment_title: string;
   apartment_image: string;
-  tenant_email: string;
+  tenant_id: string;
   tenant_name: string;
   last_message: string;
   last_message_time: string;
@@ -21,9 +23,9 @@ interface Conversation {
 interface Message {
   id: string;
   content: string;
-  sender_email: string;
+  sender_id: string;
   created_at: string;
-  read: boolean;
+  read_at: string | null;
 }
 
 export default function OwnerMessagesPage() {
@@ -39,6 +41,15 @@ export default function OwnerMessagesPage() {
   const [newMessage, setNewMessage] = useState('');
   const [sending, setSending] = useState(false);
 
+  // Messages are end-to-end encrypted; the private key stays in this browser
+  const keyringRef = useRef<{ userId: string; keyring: ConversationKeyring } | null>(null);
+  const keyringFor = useCallback((userId: string) => {
+    if (keyringRef.current?.userId !== userId) {
+      keyringRef.current = { userId, keyring: new ConversationKeyring(userId) };
+    }
+    return keyringRef.current.keyring;
+  }, []);
+
   const loadUserAndConversations = useCallback(async () => {
     try {
       const { data: { user: authUser } } = await supabase.auth.getUser();
@@ -49,96 +60,88 @@ export default function OwnerMessagesPage() {
 
       setUser(authUser);
 
-      // Get user's apartments
-      const { data: apartments } = await supabase
-        .from('apartments')
-        .select('id')
-        .eq('owner_id', authUser.id);
-
-      if (!apartments || apartments.length === 0) {
-        setLoading(false);
-        return;
-      }
-
-      const apartmentIds = apartments.map((apt) => apt.id);
-
-      // Get all messages for owner's apartments
-      const { data: messageData } = await supabase
-        .from('messages')
-        .select('*, apartments(title, image_urls)')
-        .in('apartment_id', apartmentIds)
-        .order('created_at', { ascending: false });
-
-      if (messageData) {
-        // Group messages by apartment_id + tenant_email
-        const groupedConversations: { [key: string]: any } = {};
-
-        messageData.forEach((msg: any) => {
-          const tenantEmail = msg.sender_email === authUser.email ? msg.owner_email : msg.sender_email;
-          const conversationKey = `${msg.apartment_id}::${tenantEmail}`;
-
-          if (!groupedConversations[conversationKey]) {
-            const unreadCount = messageData.filter(
-              (m: any) =>
-                m.apartment_id === msg.apartment_id &&
-                (m.sender_email === tenantEmail) &&
-                !m.read &&
-                m.sender_email !== authUser.email
-            ).length;
-
-            groupedConversations[conversationKey] = {
-              conversation_key: conversationKey,
-              apartment_id: msg.apartment_id,
-              apartment_title: msg.apartments?.title || 'Untitled',
-              apartment_image: msg.apartments?.image_urls?.[0] || '',
-              tenant_email: tenantEmail,
-              tenant_name: tenantEmail.split('@')[0], // Simple name extraction
-              last_message: msg.content,
-              last_message_time: msg.created_at,
-              unread_count: unreadCount,
+      // Get the conversations tenants started about the owner's apartments
+      const { data: conversationData } = await supabase
+        .from('conversations')
+        .select('id, apartment_id, student_id, last_message_at, unread_count_owner, apartments(title, image_urls), messages(content, created_at)')
+        .eq('owner_id', authUser.id)
+        .eq('status', 'active')
+        .order('last_message_at', { ascending: false })
+        .order('created_at', { foreignTable: 'messages', ascending: false })
+        .limit(1, { foreignTable: 'messages' });
+
+      if (conversationData) {
+        const tenantIds = Array.from(new Set(conversationData.map((conv: any) => conv.student_id)));
+        const { data: profiles } = tenantIds.length
+          ? await supabase.from('profiles').select('id, email, full_name').in('id', tenantIds)
+          : { data: [] };
+        const profileMap = new Map((profiles || []).map((profile: any) => [profile.id, profile]));
+        const keyring = keyringFor(authUser.id);
+
+        const list: Conversation[] = await Promise.all(
+          conversationData.map(async (conv: any) => {
+            const tenant = profileMap.get(conv.student_id);
+            const latest = conv.messages?.[0];
+            return {
+              id: conv.id,
+              apartment_id: conv.apartment_id,
+              apartment_title: conv.apartments?.title || 'Untitled',
+              apartment_image: conv.apartments?.image_urls?.[0] || '',
+              tenant_id: conv.student_id,
+              tenant_name: tenant?.full_name || tenant?.email?.split('@')[0] || 'Tenant',
+              last_message: latest ? await keyring.decrypt(conv.id, latest.content) : '',
+              last_message_time: latest?.created_at || conv.last_message_at,
+              unread_count: conv.unread_count_owner || 0,
             };
-          }
-        });
+          })
+        );
 
-        setConversations(Object.values(groupedConversations));
+        setConversations(list);
       }
     } catch (error) {
       console.error('Error loading conversations:', error);
     } finally {
       setLoading(false);
     }
-  }, [router, supabase]);
+  }, [keyringFor, router, supabase]);
+
+  const decryptMessage = useCallback(
+    async (message: Message, conversationId: string): Promise<Message> => ({
+      ...message,
+      content: await keyringFor(user.id).decrypt(conversationId, message.content),
+    }),
+    [keyringFor, user]
+  );
 
-  const loadMessages = useCallback(async (apartmentId: string, tenantEmail: string) => {
+  const loadMessages = useCallback(async (conversationId: string) => {
     try {
       const { data } = await supabase
         .from('messages')
-        .select('*')
-        .eq('apartment_id', apartmentId)
-        .or(`sender_email.eq.${tenantEmail},owner_email.eq.${tenantEmail}`)
+        .select('id, content, sender_id, created_at, read_at')
+        .eq('conversation_id', conversationId)
         .order('created_at', { ascending: true });
 
       if (data) {
-        setMessages(data);
+        setMessages(await Promise.all(data.map((message: Message) => decryptMessage(message, conversationId))));
       }
     } catch (error) {
       console.error('Error loading messages:', error);
     }
-  }, [supabase]);
+  }, [decryptMessage, supabase]);
 
-  const markConversationAsRead = useCallback(async (apartmentId: string, tenantEmail: string) => {
+  const markConversationAsRead = useCallback(async (conversationId: string) => {
     try {
       await supabase
         .from('messages')
-        .update({ read: true })
-        .eq('apartment_id', apartmentId)
-        .eq('sender_email', tenantEmail);
+        .update({ read_at: new Date().toISOString() })
+        .eq('conversation_id', conversationId)
+        .neq('sender_id', user.id)
+        .is('read_at', null);
 
       // Update conversation unread count
-      const conversationKey = `${apartmentId}::${tenantEmail}`;
       setConversations((prev) =>
         prev.map((conv) =>
-          conv.conversation_key === conversationKey
+          conv.id === conversationId
             ? { ...conv, unread_count: 0 }
             : conv
         )
@@ -146,7 +149,7 @@ export default function OwnerMessagesPage() {
     } catch (error) {
       console.error('Error marking as read:', error);
     }
-  }, [supabase]);
+  }, [supabase, user]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -157,28 +160,25 @@ export default function OwnerMessagesPage() {
   }, [loadUserAndConversations]);
 
   useEffect(() => {
-    if (selectedConversation) {
-      const [apartmentId, tenantEmail] = selectedConversation.split('::');
-      loadMessages(apartmentId, tenantEmail);
-      markConversationAsRead(apartmentId, tenantEmail);
+    if (selectedConversation && user) {
+      loadMessages(selectedConversation);
+      markConversationAsRead(selectedConversation);
 
       // Subscribe to new messages
       const channel = supabase
-        .channel(`owner-messages:${apartmentId}`)
+        .channel(`owner-messages:${selectedConversation}`)
         .on(
           'postgres_changes',
           {
             event: 'INSERT',
             schema: 'public',
             table: 'messages',
-            filter: `apartment_id=eq.${apartmentId}`,
+            filter: `conversation_id=eq.${selectedConversation}`,
           },
-          (payload) => {
-            const newMsg = payload.new as Message;
-            if (newMsg.sender_email === tenantEmail || newMsg.sender_email === user?.email) {
-              setMessages((prev) => [...prev, newMsg]);
-              scrollToBottom();
-            }
+          async (payload) => {
+            const newMsg = await decryptMessage(payload.new as Message, selectedConversation);
+            setMessages((prev) => (prev.some((msg) => msg.id === newMsg.id) ? prev : [...prev, newMsg]));
+            scrollToBottom();
           }
         )
         .subscribe();
@@ -187,7 +187,7 @@ export default function OwnerMessagesPage() {
         supabase.removeChannel(channel);
       };
     }
-  }, [selectedConversation, user, loadMessages, markConversationAsRead, supabase]);
+  }, [selectedConversation, user, decryptMessage, loadMessages, markConversationAsRead, supabase]);
 
   useEffect(() => {
     scrollToBottom();
@@ -196,20 +196,19 @@ export default function OwnerMessagesPage() {
     e.preventDefault();
     if (!newMessage.trim() || !selectedConversation || !user) return;
 
+    const conversation = conversations.find((c) => c.id === selectedConversation);
+    if (!conversation) return;
+
     setSending(true);
     try {
-      const [apartmentId, tenantEmail] = selectedConversation.split('::');
-
-      const { error } = await supabase.from('messages').insert({
-        apartment_id: apartmentId,
-        sender_email: user.email,
-        owner_email: tenantEmail,
-        content: sanitizeUserInput(newMessage.trim(), false),
-        read: false,
-      });
-
-      if (error) throw error;
+      // Contact details are masked before encryption; the server only sees ciphertext
+      const content = maskContactInfo(sanitizeUserInput(newMessage.trim(), false));
+      const sent = await postMessage(
+        { conversationId: conversation.id, receiverId: conversation.tenant_id, content },
+        keyringFor(user.id)
+      );
 
+      setMessages((prev) => (prev.some((msg) => msg.id === sent.id) ? prev : [...prev, { ...sent, read_at: null }]));
       setNewMessage('');
     } catch (error: any) {
       console.error('Error sending message:', error);
@@ -269,9 +268,9 @@ export default function OwnerMessagesPage() {
                 <div className="divide-y divide-gray-200">
                   {conversations.map((conv) => (
                     <button
-                      key={conv.conversation_key}
-                      onClick={() => setSelectedConversation(conv.conversation_key)}
-                      className={`w-full p-4 text-left hover:bg-white transition ${selectedConversation === conv.conversation_key ? 'bg-white border-l-4 border-yellow-400' : ''
+                      key={conv.id}
+                      onClick={() => setSelectedConversation(conv.id)}
+                      className={`w-full p-4 text-left hover:bg-white transition ${selectedConversation === conv.id ? 'bg-white border-l-4 border-yellow-400' : ''
                         }`}
                     >
                       <div className="flex items-start gap-3">
@@ -336,14 +335,14 @@ export default function OwnerMessagesPage() {
                     <div className="flex items-center justify-between">
                       <div>
                         <h3 className="font-semibold text-gray-900">
-                          {conversations.find((c) => c.conversation_key === selectedConversation)?.tenant_name}
+                          {conversations.find((c) => c.id === selectedConversation)?.tenant_name}
                         </h3>
                         <p className="text-sm text-gray-500">
-                          Re: {conversations.find((c) => c.conversation_key === selectedConversation)?.apartment_title}
+                          Re: {conversations.find((c) => c.id === selectedConversation)?.apartment_title}
                         </p>
                       </div>
                       <Link
-                        href={`/apartments/${selectedConversation.split('::')[0]}`}
+                        href={`/apartments/${conversations.find((c) => c.id === selectedConversation)?.apartment_id}`}
                         className="px-3 py-1.5 text-sm bg-yellow-100 hover:bg-yellow-200 text-yellow-800 font-medium rounded-lg transition"
                       >
                         View Listing →
@@ -354,7 +353,7 @@ export default function OwnerMessagesPage() {
                   {/* Messages */}
                   <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-50">
                     {messages.map((msg) => {
-                      const isOwn = msg.sender_email === user?.email;
+                      const isOwn = msg.sender_id === user?.id;
                       return (
                         <div
                           key={msg.id}
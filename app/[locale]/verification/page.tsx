@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { supabase } from '@/utils/supabaseClient';
+import UniversityEmailVerification from '@/components/UniversityEmailVerification';
 
 interface VerificationRequirement {
   type: string;
@@ -25,6 +26,8 @@ export default function VerificationPage() {
   const [loading, setLoading] = useState(true);
   const [uploading, setUploading] = useState(false);
   const [userType, setUserType] = useState<string>('');
+  const [userId, setUserId] = useState<string>('');
+  const [universityLinkResult, setUniversityLinkResult] = useState<string | null>(null);
   const [requirements, setRequirements] = useState<VerificationRequirement[]>([]);
   const [verifications, setVerifications] = useState<VerificationRecord[]>([]);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -34,6 +37,9 @@ export default function VerificationPage() {
 
   useEffect(() => {
     loadVerificationData();
+    supabase.auth.getUser().then(({ data }) => setUserId(data.user?.id ?? ''));
+    // Set by the magic link in the university verification email
+    setUniversityLinkResult(new URLSearchParams(window.location.search).get('university'));
   }, []);
 
   const loadVerificationData = async () => {
@@ -129,6 +135,15 @@ export default function VerificationPage() {
           </p>
         </div>
 
+        {userId && (userType === 'student' || userType === 'owner') && (
+          <UniversityEmailVerification
+            key={universityLinkResult ?? 'none'}
+            userId={userId}
+            userType={userType}
+            linkResult={universityLinkResult}
+          />
+        )}
+
         {/* Verification Requirements */}
         <div className="bg-white shadow rounded-lg p-6 mb-6">
           <h2 className="text-xl font-semibold text-gray-900 mb-4">Required Documents</h2>
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { EscrowError, depositEscrowService, type DepositEscrow } from '@/services/payments-svc/escrow';
+import { conditionReportService } from '@/services/payments-svc/condition-report';
+
+const requestSchema = z.object({
+  escrowId: z.string().uuid(),
+  // What the owner keeps; at most the amount claimed
+  deductionHuf: z.number().int().min(0),
+  // Shown to both parties
+  notes: z.string().min(1).max(2000),
+});
+
+function errorResponse(error: unknown, context: Record<string, unknown>) {
+  if (error instanceof EscrowError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  logger.error({ error, ...context }, 'Deposit dispute error');
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+async function requireAdmin(supabase: ReturnType<typeof createClient>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile || profile.role !== 'admin') {
+    return { response: NextResponse.json({ error: 'Admin access required' }, { status: 403 }) };
+  }
+  return { user };
+}
+
+function toQueueItem({ paymentIntentId, stripeAccountId, disputeEvidenceKeys, ...escrow }: DepositEscrow) {
+  return escrow;
+}
+
+/**
+ * @swagger
+ * /api/admin/deposits:
+ *   get:
+ *     summary: Disputed deposit queue (admin)
+ *     description: Without escrowId lists disputed deposits, oldest first. With escrowId returns the deductions and both sides' photo evidence through short-lived signed URLs, plus the move-in and move-out condition reports and their comparison.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: escrowId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Dispute queue or a single escrow with its evidence
+ *       403:
+ *         description: Admin access required
+ */
+export async function GET(request: NextRequest) {
+  const supabase = createClient();
+  const auth = await requireAdmin(supabase);
+  if (!auth.user) return auth.response;
+
+  const escrowId = request.nextUrl.searchParams.get('escrowId');
+  try {
+    if (escrowId) {
+      if (!z.string().uuid().safeParse(escrowId).success) {
+        return NextResponse.json({ error: 'Valid escrowId required' }, { status: 400 });
+      }
+      const { escrow, ...view } = await depositEscrowService.getForAdmin(escrowId);
+      const { reports, comparison } = await conditionReportService.overview(auth.user.id, escrow.bookingId, {
+        isAdmin: true,
+      });
+      return NextResponse.json({ deposit: toQueueItem(escrow), ...view, conditionReports: reports, comparison });
+    }
+
+    const disputes = await depositEscrowService.disputeQueue();
+    return NextResponse.json({ disputes: disputes.map(toQueueItem) });
+  } catch (error) {
+    return errorResponse(error, { escrowId, adminId: auth.user.id });
+  }
+}
+
+/**
+ * @swagger
+ * /api/admin/deposits:
+ *   put:
+ *     summary: Resolve a disputed deposit (admin)
+ *     description: Sets how much of the claim the owner keeps and pays out the deposit; the tenant is refunded the rest
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [escrowId, deductionHuf, notes]
+ *             properties:
+ *               escrowId:
+ *                 type: string
+ *                 format: uuid
+ *               deductionHuf:
+ *                 type: integer
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Settled escrow; the payout runs as a background job
+ *       409:
+ *         description: The deposit is not disputed
+ */
+export async function PUT(request: NextRequest) {
+  const supabase = createClient();
+  const auth = await requireAdmin(supabase);
+  if (!auth.user) return auth.response;
+
+  const validation = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const { escrowId, deductionHuf, notes } = validation.data;
+  try {
+    const escrow = await depositEscrowService.resolveDispute(auth.user.id, escrowId, { deductionHuf, notes });
+    return NextResponse.json({ success: true, deposit: toQueueItem(escrow) });
+  } catch (error) {
+    return errorResponse(error, { escrowId, adminId: auth.user.id });
+  }
+}
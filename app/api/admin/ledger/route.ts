@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { LedgerError, ledgerService, type LedgerAccount } from '@/services/payments-svc/ledger';
+
+const ACCOUNTS = [
+  'platform_cash',
+  'processing_fees',
+  'platform_commission',
+  'deposits_held',
+  'adjustments',
+  'owner_revenue',
+  'owner_fees',
+  'owner_balance',
+  'owner_payouts',
+] as const satisfies readonly LedgerAccount[];
+
+const requestSchema = z.object({
+  description: z.string().min(1).max(500),
+  bookingId: z.string().uuid().nullable().optional(),
+  occurredAt: z.string().datetime().optional(),
+  // Debits must equal credits; owner accounts need the owner
+  lines: z
+    .array(
+      z.object({
+        account: z.enum(ACCOUNTS),
+        ownerId: z.string().uuid().nullable().default(null),
+        debitHuf: z.number().int().min(0).default(0),
+        creditHuf: z.number().int().min(0).default(0),
+      })
+    )
+    .min(2)
+    .max(20),
+});
+
+function errorResponse(error: unknown, context: Record<string, unknown>) {
+  if (error instanceof LedgerError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  logger.error({ error, ...context }, 'Ledger admin error');
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+async function requireAdmin(supabase: ReturnType<typeof createClient>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile || profile.role !== 'admin') {
+    return { response: NextResponse.json({ error: 'Admin access required' }, { status: 403 }) };
+  }
+  return { user };
+}
+
+/**
+ * @swagger
+ * /api/admin/ledger:
+ *   get:
+ *     summary: Reconcile the ledger against Stripe (admin)
+ *     description: Matches the platform's Stripe balance transactions in [from, to) to ledger entries by source object and reports mismatched amounts, Stripe movements missing from the ledger and ledger entries Stripe does not know. Defaults to the last 30 days.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Reconciliation report
+ *       403:
+ *         description: Admin access required
+ *   post:
+ *     summary: Post a manual ledger adjustment (admin)
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Adjustment posted
+ *       400:
+ *         description: Lines do not balance
+ */
+export async function GET(request: NextRequest) {
+  const supabase = createClient();
+  const auth = await requireAdmin(supabase);
+  if (!auth.user) return auth.response;
+
+  const params = request.nextUrl.searchParams;
+  const to = params.get('to') ? new Date(params.get('to')!) : new Date();
+  const from = params.get('from') ? new Date(params.get('from')!) : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+    return NextResponse.json({ error: 'from and to must be dates' }, { status: 400 });
+  }
+
+  try {
+    const report = await ledgerService.reconcile(from, to);
+    return NextResponse.json({ report });
+  } catch (error) {
+    return errorResponse(error, { from, to });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const auth = await requireAdmin(supabase);
+  if (!auth.user) return auth.response;
+
+  const validation = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const { occurredAt, ...input } = validation.data;
+  try {
+    const transaction = await ledgerService.postAdjustment(auth.user.id, {
+      ...input,
+      occurredAt: occurredAt ? new Date(occurredAt) : undefined,
+    });
+    return NextResponse.json({ transaction }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, { adminId: auth.user.id });
+  }
+}
@@ -150,6 +150,7 @@ export async function POST(request: NextRequest) {
     const result = await batchScoringService.scoreApartmentBatch(
       apartments,
       userProfile || {},
+      { userId: user.id },
     );
 
     const totalTime = Date.now() - startTime;
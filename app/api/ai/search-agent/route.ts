@@ -1,8 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateTextResponse } from '@/utils/gemini';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
 import { SearchGoal } from '@/components/SearchGoalCard';
+import { searchService } from '@/services/search-svc';
+import {
+    AgentMessage,
+    AgentResultCard,
+    AgentStreamEvent,
+    GOAL_RESPONSE_SCHEMA,
+    applyMessageToGoal,
+    buildFallbackReply,
+    buildGoalPrompt,
+    buildReplyPrompt,
+    encodeSseEvent,
+    goalToSearchFilters,
+    normalizeGoal,
+    rankResultsForGoal,
+} from '@/lib/ai/search-agent';
+import { getLLM } from '@/lib/llm/provider';
 import { logger } from '@/lib/logger';
 
 // Helper to create Supabase client
@@ -19,84 +34,137 @@ const createClient = () => {
     );
 };
 
-// Generate JSON response from Gemini
-async function generateSearchAgentResponse(systemPrompt: string): Promise<{ updated_goal: SearchGoal; response_text: string }> {
+// Update the goal with the LLM, falling back to rule-based extraction
+async function updateGoal(message: string, previousMessages: AgentMessage[], currentGoal: SearchGoal): Promise<SearchGoal> {
     try {
-        const response = await generateTextResponse(systemPrompt);
-
-        // Extract JSON from response
-        const jsonMatch = response.match(/\{[\s\S]*\}/);
-        if (!jsonMatch) {
-            throw new Error('No JSON found in response');
-        }
+        const result = await getLLM().generateJSON<{ updated_goal: SearchGoal }>(
+            buildGoalPrompt(message, previousMessages, currentGoal),
+            GOAL_RESPONSE_SCHEMA,
+            { feature: 'search-agent.goal', temperature: 0.3 }
+        );
+        return normalizeGoal(result.updated_goal);
+    } catch (err) {
+        logger.warn({ err }, 'AI goal update failed, using rule-based extraction');
+        return applyMessageToGoal(message, currentGoal);
+    }
+}
 
-        return JSON.parse(jsonMatch[0]);
-    } catch (error) {
-        logger.warn({ err: error }, 'JSON generation failed');
-        throw error;
+// Run the hybrid search for the goal and keep the top explained matches
+async function searchForGoal(goal: SearchGoal): Promise<{ total: number; results: AgentResultCard[] }> {
+    try {
+        const { query, filters } = goalToSearchFilters(goal);
+        const results = await searchService.hybridSearch(query, filters);
+        const cards = rankResultsForGoal(results, goal);
+        return { total: results.length, results: cards };
+    } catch (err) {
+        logger.error({ err }, 'Search agent search failed');
+        return { total: 0, results: [] };
     }
 }
 
 export async function POST(req: NextRequest) {
     try {
         const { message, previousMessages, currentGoal, sessionToken } = await req.json();
-        const supabase = createClient();
 
-        // 1. Construct Prompt for Intent Extraction
-        const systemPrompt = `
-You are an expert real estate agent for Student Apartments Budapest.
-Your goal is to help the user find their perfect apartment by building a "Search Profile".
-
-Current Profile State:
-${JSON.stringify(currentGoal, null, 2)}
-
-User's Last Message: "${message}"
-
-INSTRUCTIONS:
-1. Analyze the user's message.
-2. Update the "Search Profile" JSON based on new information.
-   - If user says "budget 150k", update budget.max to 150000.
-   - If user says "near ELTE", add to location.poi_proximity.
-   - If user says "balcony", add to features.must_have.
-   - If user contradicts previous info, update it.
-3. Generate a helpful, short, conversational response asking for missing details or confirming updates.
-
-OUTPUT FORMAT (JSON ONLY):
-{
-  "updated_goal": { ...entire goal object... },
-  "response_text": "Your natural language response here."
-}
-`;
-
-        // 2. Call Gemini API (serverless compatible)
-        let result;
-        try {
-            result = await generateSearchAgentResponse(systemPrompt);
-        } catch (err) {
-            logger.warn({ err }, 'AI generation failed, returning fallback response');
-            // Fallback if AI fails
-            result = {
-                updated_goal: currentGoal,
-                response_text: "I understand. Could you tell me more about what you're looking for? For example: your budget, preferred location, or must-have features?"
-            };
+        if (!message || typeof message !== 'string') {
+            return NextResponse.json({ error: 'Message is required' }, { status: 400 });
         }
 
-        const { updated_goal, response_text } = result;
+        const supabase = createClient();
+        const history: AgentMessage[] = Array.isArray(previousMessages) ? previousMessages : [];
+        const goal = normalizeGoal(currentGoal);
+        const wantsStream = req.headers.get('accept')?.includes('text/event-stream') ?? false;
+
+        // 1. Update the search profile from the conversation
+        const updatedGoal = await updateGoal(message, history, goal);
 
-        // 3. Persist to Supabase (if we have a session)
+        // 2. Persist to Supabase (if we have a session)
         if (sessionToken) {
             const { error } = await supabase
                 .from('ai_search_sessions')
-                .update({ current_goal: updated_goal, last_active_at: new Date().toISOString() })
+                .update({ current_goal: updatedGoal, last_active_at: new Date().toISOString() })
                 .eq('session_token', sessionToken);
 
             if (error) logger.error({ error }, 'Failed to update session goal');
         }
 
-        return NextResponse.json({
-            role: 'assistant',
-            content: response_text,
-            goal: updated_goal
+        if (!wantsStream) {
+            const { total, results } = await searchForGoal(updatedGoal);
+            let content: string;
+            try {
+                content = (await getLLM().generateText(
+                    buildReplyPrompt(message, history, updatedGoal, results, total),
+                    { feature: 'search-agent.reply', maxOutputTokens: 1024 }
+                )).trim();
+            } catch (err) {
+                logger.warn({ err }, 'AI reply failed, returning fallback response');
+                content = buildFallbackReply(updatedGoal, results, total);
+            }
+
+            return NextResponse.json({
+                role: 'assistant',
+                content,
+                goal: updatedGoal,
+                results,
+                total,
+            });
+        }
+
+        // 3. Stream goal, result cards and the reply tokens (SSE)
+        const encoder = new TextEncoder();
+        const stream = new ReadableStream<Uint8Array>({
+            async start(controller) {
+                let closed = false;
+                const send = (event: AgentStreamEvent) => {
+                    if (closed) return;
+                    try {
+                        controller.enqueue(encoder.encode(encodeSseEvent(event)));
+                    } catch {
+                        closed = true; // Client disconnected
+                    }
+                };
+
+                try {
+                    send({ event: 'goal', data: updatedGoal });
+
+                    const { total, results } = await searchForGoal(updatedGoal);
+                    send({ event: 'results', data: { total, results } });
+
+                    let content = '';
+                    try {
+                        for await (const text of getLLM().streamText(
+                            buildReplyPrompt(message, history, updatedGoal, results, total),
+                            { feature: 'search-agent.reply', maxOutputTokens: 1024, signal: req.signal }
+                        )) {
+                            content += text;
+                            send({ event: 'token', data: { text } });
+                        }
+                    } catch (err) {
+                        logger.warn({ err }, 'AI reply stream failed, sending fallback response');
+                    }
+
+                    if (!content.trim()) {
+                        content = buildFallbackReply(updatedGoal, results, total);
+                        send({ event: 'token', data: { text: content } });
+                    }
+
+                    send({ event: 'done', data: { content: content.trim() } });
+                } catch (err) {
+                    logger.error({ err }, 'Search Agent stream error');
+                    send({ event: 'error', data: { message: err instanceof Error ? err.message : 'Unknown' } });
+                } finally {
+                    if (!closed) controller.close();
+                }
+            },
+        });
+
+        return new Response(stream, {
+            headers: {
+                'Content-Type': 'text/event-stream; charset=utf-8',
+                'Cache-Control': 'no-cache, no-transform',
+                Connection: 'keep-alive',
+                'X-Accel-Buffering': 'no',
+            },
         });
 
     } catch (error) {
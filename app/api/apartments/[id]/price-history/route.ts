@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { PriceHistoryError, priceHistoryService } from '@/services/pricing-svc/price-history';
+
+/**
+ * @swagger
+ * /api/apartments/{id}/price-history:
+ *   get:
+ *     summary: Price history of a listing
+ *     description: Every recorded change of the monthly rent as a step series, with the lowest and highest price and the most recent drop. Unpublished listings are visible to their owner only.
+ *     tags: [Apartments]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Price history
+ *       404:
+ *         description: No such listing, or not published and not the viewer's own
+ */
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  try {
+    const history = await priceHistoryService.history(params.id, user?.id ?? null);
+    return NextResponse.json({ history });
+  } catch (error) {
+    if (error instanceof PriceHistoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error({ error, apartmentId: params.id }, 'Price history lookup failed');
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
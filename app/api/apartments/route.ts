@@ -2,6 +2,7 @@ import { createClient } from '@/lib/supabase/server';
 import { NextResponse } from 'next/server';
 import { logger } from '@/lib/logger';
 import { cacheGet, cacheSet } from '@/lib/redis';
+import { trustSafetyService } from '@/services/trust-safety-svc';
 
 export async function GET(request: Request) {
     const { searchParams } = new URL(request.url);
@@ -127,6 +128,16 @@ export async function POST(request: Request) {
 
         if (error) throw error;
 
+        // Likely scams are held back from search until a moderator looks at them
+        const moderation = await trustSafetyService.classifyContent(
+            { text: [title, description].filter(Boolean).join('\n\n'), contentType: 'listing' },
+            { authorId: session.user.id, apartmentId: data.id }
+        );
+        if (moderation.decision === 'block') {
+            await supabase.from('apartments').update({ status: 'review', published_at: null }).eq('id', data.id);
+            return NextResponse.json({ ...data, status: 'review', published_at: null, moderation: { decision: moderation.decision } });
+        }
+
         return NextResponse.json(data);
     } catch (error: any) {
         logger.error({ error }, 'Error creating apartment');
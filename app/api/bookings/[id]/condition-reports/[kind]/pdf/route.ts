@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { ConditionReportError, conditionReportService } from '@/services/payments-svc/condition-report';
+
+/**
+ * @swagger
+ * /api/bookings/{id}/condition-reports/{kind}/pdf:
+ *   get:
+ *     summary: Download a condition report as PDF
+ *     description: Printable report with signatures and content hash; the move-out PDF includes the changes since move-in. Admins can download any report for deposit disputes.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: PDF document
+ *         content:
+ *           application/pdf: {}
+ *       404:
+ *         description: No such report, or not a party to the lease
+ */
+export async function GET(_request: NextRequest, { params }: { params: { id: string; kind: string } }) {
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (params.kind !== 'move_in' && params.kind !== 'move_out') {
+    return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  try {
+    const pdf = await conditionReportService.pdf(user.id, params.id, params.kind, {
+      isAdmin: profile?.role === 'admin',
+    });
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${params.kind.replace('_', '-')}-report-${params.id}.pdf"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof ConditionReportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error({ error, bookingId: params.id, kind: params.kind }, 'Condition report PDF failed');
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,213 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import {
+  ConditionReportError,
+  MAX_ITEMS_PER_ROOM,
+  MAX_PHOTOS_PER_ENTRY,
+  MAX_ROOMS,
+  METER_TYPES,
+  conditionReportService,
+  type ReportKind,
+} from '@/services/payments-svc/condition-report';
+
+const kindSchema = z.enum(['move_in', 'move_out']);
+const photoKeys = z.array(z.string().max(512)).max(MAX_PHOTOS_PER_ENTRY).default([]);
+
+const contentSchema = z.object({
+  rooms: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1).max(100),
+        items: z
+          .array(
+            z.object({
+              name: z.string().trim().min(1).max(100),
+              condition: z.enum(['new', 'good', 'fair', 'poor', 'damaged', 'missing']),
+              notes: z.string().max(1000).default(''),
+              photoKeys,
+            })
+          )
+          .max(MAX_ITEMS_PER_ROOM),
+      })
+    )
+    .max(MAX_ROOMS),
+  meterReadings: z
+    .array(
+      z.object({
+        meter: z.enum(['electricity', 'gas', 'water_cold', 'water_hot', 'heating']),
+        serial: z.string().trim().max(100).nullable().default(null),
+        reading: z.number().nonnegative().nullable(),
+        photoKeys,
+      })
+    )
+    .max(METER_TYPES.length),
+  generalNotes: z.string().max(5000).default(''),
+});
+
+const actionSchema = z.discriminatedUnion('action', [
+  // Owner: sign and send to the tenant
+  z.object({ action: z.literal('submit'), signature: z.string().trim().min(2).max(200) }),
+  // Tenant: co-sign the version identified by its hash
+  z.object({
+    action: z.literal('sign'),
+    contentHash: z.string().regex(/^[a-f0-9]{64}$/),
+    signature: z.string().trim().min(2).max(200),
+    comments: z.string().max(2000).optional(),
+  }),
+  z.object({ action: z.literal('request_changes'), comments: z.string().trim().min(1).max(2000) }),
+]);
+
+function errorResponse(error: unknown, context: Record<string, unknown>) {
+  if (error instanceof ConditionReportError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  logger.error({ error, ...context }, 'Condition report error');
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+function parseKind(kind: string): ReportKind | null {
+  const parsed = kindSchema.safeParse(kind);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * @swagger
+ * /api/bookings/{id}/condition-reports/{kind}:
+ *   put:
+ *     summary: Save a draft condition report (owner)
+ *     description: Replaces the rooms, items, meter readings and notes of a draft report
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: kind
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [move_in, move_out]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [rooms, meterReadings]
+ *             properties:
+ *               rooms:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *               meterReadings:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *               generalNotes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Saved draft
+ *       409:
+ *         description: The report has already been sent or signed
+ */
+export async function PUT(request: NextRequest, { params }: { params: { id: string; kind: string } }) {
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const kind = parseKind(params.kind);
+  if (!kind) {
+    return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+  }
+
+  const validation = contentSchema.safeParse(await request.json().catch(() => null));
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = await conditionReportService.saveDraft(user.id, params.id, kind, validation.data);
+    return NextResponse.json({ report });
+  } catch (error) {
+    return errorResponse(error, { bookingId: params.id, kind });
+  }
+}
+
+/**
+ * @swagger
+ * /api/bookings/{id}/condition-reports/{kind}:
+ *   post:
+ *     summary: Sign a condition report
+ *     description: The owner signs and sends the report (submit); the tenant co-signs the version with the given content hash (sign) or sends it back with comments (request_changes)
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [action]
+ *             properties:
+ *               action:
+ *                 type: string
+ *                 enum: [submit, sign, request_changes]
+ *               signature:
+ *                 type: string
+ *                 description: Full name typed by the signer
+ *               contentHash:
+ *                 type: string
+ *               comments:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Updated report
+ *       409:
+ *         description: Wrong state, or the report changed since it was loaded
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string; kind: string } }) {
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const kind = parseKind(params.kind);
+  if (!kind) {
+    return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+  }
+
+  const validation = actionSchema.safeParse(await request.json().catch(() => null));
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const body = validation.data;
+  try {
+    switch (body.action) {
+      case 'submit':
+        await conditionReportService.submit(user.id, params.id, kind, body.signature);
+        break;
+      case 'sign':
+        await conditionReportService.sign(user.id, params.id, kind, body);
+        break;
+      case 'request_changes':
+        await conditionReportService.requestChanges(user.id, params.id, kind, body.comments);
+        break;
+    }
+    return NextResponse.json(await conditionReportService.overview(user.id, params.id));
+  } catch (error) {
+    return errorResponse(error, { bookingId: params.id, kind, action: body.action });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { MAX_DOCUMENT_BYTES } from '@/services/verification-svc/documents';
+import { ConditionReportError, conditionReportService } from '@/services/payments-svc/condition-report';
+
+/**
+ * @swagger
+ * /api/bookings/{id}/condition-reports/photos:
+ *   post:
+ *     summary: Upload a condition report photo (owner)
+ *     description: Stores a photo of an item or a meter in private storage and returns its key, to be saved with the draft report
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       201:
+ *         description: Photo stored
+ *       400:
+ *         description: Missing, oversized or non-image file
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const formData = await request.formData().catch(() => null);
+  const file = formData?.get('file');
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: 'Missing file' }, { status: 400 });
+  }
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    return NextResponse.json({ error: 'File too large. Maximum size is 10MB.' }, { status: 400 });
+  }
+
+  try {
+    const key = await conditionReportService.uploadPhoto(user.id, params.id, new Uint8Array(await file.arrayBuffer()));
+    return NextResponse.json({ key }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ConditionReportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error({ error, bookingId: params.id }, 'Condition report photo upload failed');
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { ConditionReportError, conditionReportService } from '@/services/payments-svc/condition-report';
+
+const requestSchema = z.object({
+  kind: z.enum(['move_in', 'move_out']),
+});
+
+function errorResponse(error: unknown, context: Record<string, unknown>) {
+  if (error instanceof ConditionReportError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  logger.error({ error, ...context }, 'Condition report error');
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+/**
+ * @swagger
+ * /api/bookings/{id}/condition-reports:
+ *   get:
+ *     summary: Get the condition reports of a lease
+ *     description: Move-in and move-out reports with short-lived photo URLs, the caller's role on the lease, and the item by item comparison once the move-out report exists
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Condition reports
+ *       404:
+ *         description: Not a party to the lease
+ */
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await conditionReportService.overview(user.id, params.id));
+  } catch (error) {
+    return errorResponse(error, { bookingId: params.id });
+  }
+}
+
+/**
+ * @swagger
+ * /api/bookings/{id}/condition-reports:
+ *   post:
+ *     summary: Start a condition report (owner)
+ *     description: Creates an empty move-in report, or a move-out report prefilled with the rooms, items and meters of the signed move-in report
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [kind]
+ *             properties:
+ *               kind:
+ *                 type: string
+ *                 enum: [move_in, move_out]
+ *     responses:
+ *       201:
+ *         description: Draft report
+ *       409:
+ *         description: The report already exists or the lease is not at that stage
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const validation = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = await conditionReportService.create(user.id, params.id, validation.data.kind);
+    return NextResponse.json({ report }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, { bookingId: params.id, kind: validation.data.kind });
+  }
+}
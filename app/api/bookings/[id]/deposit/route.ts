@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { EscrowError, depositEscrowService, type EscrowView } from '@/services/payments-svc/escrow';
+
+const evidenceKeys = z.array(z.string().max(512)).max(10).default([]);
+
+const requestSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('propose'),
+    // An empty list releases the whole deposit to the tenant
+    deductions: z
+      .array(
+        z.object({
+          description: z.string().min(1).max(500),
+          amountHuf: z.number().int().positive(),
+          evidenceKeys,
+        })
+      )
+      .max(20),
+  }),
+  z.object({ action: z.literal('accept') }),
+  z.object({
+    action: z.literal('dispute'),
+    reason: z.string().min(1).max(2000),
+    evidenceKeys,
+  }),
+]);
+
+function errorResponse(error: unknown, context: Record<string, unknown>) {
+  if (error instanceof EscrowError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  logger.error({ error, ...context }, 'Deposit escrow error');
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+// Payment references stay server-side
+function toDepositResponse({ escrow, ...view }: EscrowView) {
+  const { paymentIntentId, stripeAccountId, disputeEvidenceKeys, resolvedBy, ...deposit } = escrow;
+  return {
+    deposit,
+    ...view,
+    entries: view.entries.map(({ stripeReference, ...entry }) => entry),
+  };
+}
+
+/**
+ * @swagger
+ * /api/bookings/{id}/deposit:
+ *   get:
+ *     summary: Get the deposit held for a lease
+ *     description: Escrow status, the owner's itemised deductions with short-lived photo URLs, the dispute and the ledger of money movements
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Deposit escrow
+ *       404:
+ *         description: No deposit held, or not a party to the lease
+ */
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(toDepositResponse(await depositEscrowService.getForParty(user.id, params.id)));
+  } catch (error) {
+    return errorResponse(error, { bookingId: params.id });
+  }
+}
+
+/**
+ * @swagger
+ * /api/bookings/{id}/deposit:
+ *   post:
+ *     summary: Settle the deposit after move-out
+ *     description: The owner claims itemised deductions with photo evidence (an empty list releases the full deposit); the tenant accepts the claim or disputes it within the dispute window
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [action]
+ *             properties:
+ *               action:
+ *                 type: string
+ *                 enum: [propose, accept, dispute]
+ *               deductions:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     description:
+ *                       type: string
+ *                     amountHuf:
+ *                       type: integer
+ *                     evidenceKeys:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *               reason:
+ *                 type: string
+ *               evidenceKeys:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Updated deposit escrow
+ *       400:
+ *         description: Invalid claim, e.g. deductions above the deposit
+ *       409:
+ *         description: The deposit is not in a state that allows the action
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const validation = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const body = validation.data;
+  try {
+    switch (body.action) {
+      case 'propose':
+        await depositEscrowService.proposeDeductions(user.id, params.id, body.deductions);
+        break;
+      case 'accept':
+        await depositEscrowService.acceptClaim(user.id, params.id);
+        break;
+      case 'dispute':
+        await depositEscrowService.disputeClaim(user.id, params.id, {
+          reason: body.reason,
+          evidenceKeys: body.evidenceKeys,
+        });
+        break;
+    }
+    return NextResponse.json(toDepositResponse(await depositEscrowService.getForParty(user.id, params.id)));
+  } catch (error) {
+    return errorResponse(error, { bookingId: params.id, action: body.action });
+  }
+}
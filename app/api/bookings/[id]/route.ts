@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { LeaseError, leaseService } from '@/services/payments-svc/lease';
+
+const requestSchema = z.object({
+  action: z.enum([
+    'accept',
+    'decline',
+    'sign',
+    'cancel',
+    'end',
+    'request_termination',
+    'accept_termination',
+    'decline_termination',
+  ]),
+  reason: z.string().max(1000).optional(),
+  terminationDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+function errorResponse(error: unknown, context: Record<string, unknown>) {
+  if (error instanceof LeaseError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  logger.error({ error, ...context }, 'Lease error');
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+/**
+ * @swagger
+ * /api/bookings/{id}:
+ *   get:
+ *     summary: Get a lease
+ *     description: Returns the lease and its payment schedule to the tenant or the owner
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Lease with payments
+ *       404:
+ *         description: Not found or not a party to the lease
+ */
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await leaseService.getLease(user.id, params.id));
+  } catch (error) {
+    return errorResponse(error, { bookingId: params.id });
+  }
+}
+
+/**
+ * @swagger
+ * /api/bookings/{id}:
+ *   post:
+ *     summary: Move a lease to its next state
+ *     description: The owner accepts or declines a request; the tenant signs an accepted lease (the response carries the client secret for the first month's rent plus deposit); either party cancels before move-in. Only the owner ends an active lease at once; the tenant requests early termination with a last day at least 30 days ahead, which the owner accepts or declines (the tenant withdraws with decline_termination).
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [action]
+ *             properties:
+ *               action:
+ *                 type: string
+ *                 enum: [accept, decline, sign, cancel, end, request_termination, accept_termination, decline_termination]
+ *               reason:
+ *                 type: string
+ *               terminationDate:
+ *                 type: string
+ *                 format: date
+ *                 description: Last day of the lease, required for request_termination
+ *     responses:
+ *       200:
+ *         description: Updated lease
+ *       400:
+ *         description: Invalid request data or termination date
+ *       403:
+ *         description: Action not allowed for this party
+ *       409:
+ *         description: Lease is not in a state that allows the action
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const validation = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const { action, reason, terminationDate } = validation.data;
+  try {
+    return NextResponse.json(await leaseService.act(user.id, params.id, action, { reason, terminationDate }));
+  } catch (error) {
+    return errorResponse(error, { bookingId: params.id, action });
+  }
+}
@@ -0,0 +1,76 @@
+import { logger } from '@/lib/dev-logger';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseDepartAt } from '@/lib/gtfs/timetable';
+import { commuteService } from '@/services/commute-svc';
+
+type TravelMode = 'walking' | 'bicycling' | 'transit' | 'driving';
+
+const TRAVEL_MODES: TravelMode[] = ['walking', 'bicycling', 'transit', 'driving'];
+const MAX_MINUTES = 90;
+
+/**
+ * GET /api/commute/isochrone
+ * Area reachable from a university (universityId) or any point (lat, lng)
+ * within `minutes` for a travel mode. Returns the reach discs used by search
+ * filtering and a GeoJSON MultiPolygon for drawing.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const universityId = searchParams.get('universityId') ?? undefined;
+    const lat = searchParams.get('lat');
+    const lng = searchParams.get('lng');
+    const mode = (searchParams.get('mode') ?? 'transit') as TravelMode;
+    const minutes = Number(searchParams.get('minutes') ?? 25);
+    const departAtParam = searchParams.get('departAt');
+
+    if (!universityId && (!lat || !lng)) {
+      return NextResponse.json({
+        error: 'Missing required parameters: universityId or lat, lng'
+      }, { status: 400 });
+    }
+
+    if (!TRAVEL_MODES.includes(mode)) {
+      return NextResponse.json({
+        error: `Invalid mode: use one of ${TRAVEL_MODES.join(', ')}`
+      }, { status: 400 });
+    }
+
+    if (!Number.isFinite(minutes) || minutes <= 0 || minutes > MAX_MINUTES) {
+      return NextResponse.json({
+        error: `Invalid minutes: must be between 1 and ${MAX_MINUTES}`
+      }, { status: 400 });
+    }
+
+    const departAt = departAtParam ? parseDepartAt(departAtParam) : undefined;
+    if (departAt === null) {
+      return NextResponse.json({
+        error: 'Invalid departAt: use an ISO timestamp, "HH:MM" or "<weekday> HH:MM"'
+      }, { status: 400 });
+    }
+
+    const isochrone = await commuteService.computeIsochrone(
+      {
+        universityId,
+        location: universityId ? undefined : { lat: parseFloat(lat!), lng: parseFloat(lng!) },
+      },
+      mode,
+      minutes,
+      departAt
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: isochrone,
+    });
+
+  } catch (error) {
+    logger.error({ err: error }, 'Isochrone calculation error:');
+    return NextResponse.json(
+      { error: 'Isochrone calculation failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Job Queue Worker Cron Job
+ *
+ * Drains the durable Postgres job queue: alert and campaign emails, digests,
+ * bulk notifications and webhook deliveries. Failed jobs are retried with
+ * exponential backoff; jobs out of attempts are dead-lettered.
+ *
+ * Triggered by:
+ * - External cron service (e.g., Vercel crons, GitHub Actions), every minute
+ *
+ * Actions (POST body):
+ * - { action: 'drain', queues?, maxJobs?, timeBudgetMs? } (default)
+ * - { action: 'retry_dead', queue, ids? } re-queues dead-lettered jobs
+ *
+ * Security:
+ * - Requires CRON_SECRET authorization header
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { JOB_QUEUES, jobQueue } from '@/services/job-queue-svc';
+import { drainJobs } from '@/services/job-queue-svc/worker';
+import { logger } from '@/lib/logger';
+
+const queueName = z.enum(Object.values(JOB_QUEUES) as [string, ...string[]]);
+
+const requestSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('drain'),
+    queues: z.array(queueName).min(1).optional(),
+    maxJobs: z.number().int().min(1).max(1000).optional(),
+    // Leave headroom under the 30s function limit in vercel.json
+    timeBudgetMs: z.number().int().min(1000).max(25_000).optional(),
+  }),
+  z.object({
+    action: z.literal('retry_dead'),
+    queue: queueName,
+    ids: z.array(z.string().uuid()).optional(),
+  }),
+]);
+
+// Fails closed: jobs charge rent and release deposits, so no secret means no access
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const authHeader = request.headers.get('Authorization') || '';
+  return authHeader.replace('Bearer ', '') === secret;
+}
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  if (!isAuthorized(request)) {
+    logger.warn({ source: request.headers.get('x-cron-source') || 'unknown' }, '[JobQueue] Unauthorized access attempt');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const validation = requestSchema.safeParse({ action: 'drain', ...body });
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const input = validation.data;
+
+    if (input.action === 'retry_dead') {
+      const requeued = await jobQueue.retryDead(input.queue, input.ids);
+      return NextResponse.json({
+        success: true,
+        message: `Re-queued ${requeued} dead job${requeued === 1 ? '' : 's'}`,
+        requeued,
+        duration: Date.now() - startTime,
+      });
+    }
+
+    const report = await drainJobs({
+      queues: input.queues,
+      maxJobs: input.maxJobs,
+      timeBudgetMs: input.timeBudgetMs,
+    });
+    const pruned = await jobQueue.pruneCompleted();
+
+    return NextResponse.json({
+      success: true,
+      report,
+      pruned,
+      duration: Date.now() - startTime,
+    });
+  } catch (error: any) {
+    logger.error({ err: error?.message, duration: Date.now() - startTime }, '[JobQueue] Drain failed');
+
+    return NextResponse.json(
+      {
+        error: 'Job queue drain failed',
+        message: error?.message,
+        duration: Date.now() - startTime,
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    // Health check for cron endpoint
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Job Queue Worker (Cron)',
+      schedule: 'Runs every minute by default',
+      queues: Object.values(JOB_QUEUES),
+      usage: 'POST with Authorization: Bearer <CRON_SECRET>',
+    });
+  }
+
+  const queue = request.nextUrl.searchParams.get('queue') || undefined;
+  const [stats, dead] = await Promise.all([jobQueue.getStats(), jobQueue.listDead(queue, 20)]);
+  return NextResponse.json({ stats, dead });
+}
@@ -0,0 +1,118 @@
+/**
+ * Ranking Weight Training Cron Job
+ *
+ * Learns RankingService weights offline from ranking_events impressions and
+ * ranking_feedback, validates them on a holdout and publishes a new weight
+ * version that rankApartments picks up.
+ *
+ * Triggered by:
+ * - External cron service (e.g., Vercel crons, GitHub Actions), daily
+ *
+ * Actions (POST body):
+ * - { action: 'train', dryRun?, windowDays?, minImprovement? } (default)
+ * - { action: 'rollback', version? } re-activates an earlier version
+ *
+ * Security:
+ * - Requires CRON_SECRET authorization header
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { rankingService } from '@/services/ranking-svc';
+import { rankingWeightTrainer } from '@/services/ranking-svc/training';
+import { logger } from '@/lib/logger';
+
+const requestSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('train'),
+    dryRun: z.boolean().optional(),
+    windowDays: z.number().int().min(1).max(180).optional(),
+    minImprovement: z.number().min(0).max(1).optional(),
+  }),
+  z.object({
+    action: z.literal('rollback'),
+    version: z.number().int().positive().optional(),
+  }),
+]);
+
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const authHeader = request.headers.get('Authorization') || '';
+  return authHeader.replace('Bearer ', '') === secret;
+}
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  if (!isAuthorized(request)) {
+    logger.warn({ source: request.headers.get('x-cron-source') || 'unknown' }, '[RankingTraining] Unauthorized access attempt');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const validation = requestSchema.safeParse({ action: 'train', ...body });
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const input = validation.data;
+
+    if (input.action === 'rollback') {
+      const result = await rankingWeightTrainer.rollback(input.version);
+      return NextResponse.json({
+        success: true,
+        message: result.activeVersion === null
+          ? 'Rolled back to default weights'
+          : `Weight version ${result.activeVersion} is active`,
+        ...result,
+        duration: Date.now() - startTime,
+      });
+    }
+
+    const report = await rankingWeightTrainer.train({
+      dryRun: input.dryRun,
+      windowDays: input.windowDays,
+      minImprovement: input.minImprovement,
+    });
+
+    return NextResponse.json({
+      success: true,
+      report,
+      duration: Date.now() - startTime,
+    });
+  } catch (error: any) {
+    logger.error({ err: error?.message, duration: Date.now() - startTime }, '[RankingTraining] Job failed');
+
+    return NextResponse.json(
+      {
+        error: 'Ranking weight training failed',
+        message: error?.message,
+        duration: Date.now() - startTime,
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const active = await rankingService.getActiveWeights();
+
+  if (!isAuthorized(request)) {
+    // Health check for cron endpoint
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Ranking Weight Training Job (Cron)',
+      schedule: 'Runs daily by default',
+      activeVersion: active.version,
+      usage: 'POST with Authorization: Bearer <CRON_SECRET>',
+    });
+  }
+
+  const versions = await rankingWeightTrainer.listVersions();
+  return NextResponse.json({ active, versions });
+}
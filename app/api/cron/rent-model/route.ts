@@ -0,0 +1,90 @@
+/**
+ * Rent Model Training Cron Job
+ *
+ * Refits the hedonic rent model on our own listings and pricing_history,
+ * validates it on a holdout, publishes a new model version that the pricing
+ * endpoints pick up and recomputes the district rent quantiles.
+ *
+ * Triggered by:
+ * - External cron service (e.g., Vercel crons, GitHub Actions), nightly
+ *
+ * Body (POST): { dryRun?, windowDays?, maxMapeIncrease? }
+ *
+ * Security:
+ * - Requires CRON_SECRET authorization header
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { rentModelService } from '@/services/pricing-svc/model';
+import { logger } from '@/lib/logger';
+
+const requestSchema = z.object({
+  dryRun: z.boolean().optional(),
+  windowDays: z.number().int().min(30).max(1825).optional(),
+  maxMapeIncrease: z.number().min(0).max(1).optional(),
+});
+
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const authHeader = request.headers.get('Authorization') || '';
+  return authHeader.replace('Bearer ', '') === secret;
+}
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  if (!isAuthorized(request)) {
+    logger.warn({ source: request.headers.get('x-cron-source') || 'unknown' }, '[RentModel] Unauthorized access attempt');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const validation = requestSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const report = await rentModelService.train(validation.data);
+
+    return NextResponse.json({
+      success: true,
+      report,
+      duration: Date.now() - startTime,
+    });
+  } catch (error: any) {
+    logger.error({ err: error?.message, duration: Date.now() - startTime }, '[RentModel] Job failed');
+
+    return NextResponse.json(
+      {
+        error: 'Rent model training failed',
+        message: error?.message,
+        duration: Date.now() - startTime,
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const active = await rentModelService.getActiveModel();
+
+  if (!isAuthorized(request)) {
+    // Health check for cron endpoint
+    return NextResponse.json({
+      status: 'ok',
+      message: 'Rent Model Training Job (Cron)',
+      schedule: 'Runs nightly by default',
+      activeVersion: active?.version ?? null,
+      usage: 'POST with Authorization: Bearer <CRON_SECRET>',
+    });
+  }
+
+  const versions = await rentModelService.listVersions();
+  return NextResponse.json({ active, versions });
+}
@@ -0,0 +1,66 @@
+/**
+ * Saved-Search Alert Batches Cron Job
+ *
+ * Listings are matched against saved searches as they are published or
+ * changed (the saved_search.match job); users on instant alerts hear about
+ * them straight away. This job sends everyone else's pending matches once
+ * their daily or weekly batch is due, drops matches whose listing has been
+ * taken down since, and retries instant matches whose job was lost.
+ *
+ * Triggered by:
+ * - External cron service (e.g., Vercel crons, GitHub Actions), hourly
+ *
+ * Security:
+ * - Requires CRON_SECRET authorization header
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { savedSearchAlertService } from '@/services/search-svc/saved-search-alerts';
+import { logger } from '@/lib/logger';
+
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const authHeader = request.headers.get('Authorization') || '';
+  return authHeader.replace('Bearer ', '') === secret;
+}
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  if (!isAuthorized(request)) {
+    logger.warn({ source: request.headers.get('x-cron-source') || 'unknown' }, '[SavedSearchAlerts] Unauthorized access attempt');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const report = await savedSearchAlertService.flushBatches();
+
+    return NextResponse.json({
+      success: true,
+      report,
+      duration: Date.now() - startTime,
+    });
+  } catch (error: any) {
+    logger.error({ err: error?.message, duration: Date.now() - startTime }, '[SavedSearchAlerts] Job failed');
+
+    return NextResponse.json(
+      {
+        error: 'Saved-search alert batches failed',
+        message: error?.message,
+        duration: Date.now() - startTime,
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function GET() {
+  // Health check for cron endpoint
+  return NextResponse.json({
+    status: 'ok',
+    message: 'Saved-Search Alert Batches Job (Cron)',
+    schedule: 'Runs hourly by default',
+    usage: 'POST with Authorization: Bearer <CRON_SECRET>',
+  });
+}
@@ -159,6 +159,7 @@ export async function POST(request: NextRequest) {
         const result = await batchScoringService.scoreApartmentBatch(
           apartments,
           userProfile,
+          { userId },
         );
 
         totalScored += result.successful;
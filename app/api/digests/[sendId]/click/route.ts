@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { digestService } from '@/services/notify-svc/digest';
+
+/**
+ * @swagger
+ * /api/digests/{sendId}/click:
+ *   get:
+ *     summary: Digest link redirect
+ *     description: Counts a click on a digest link and redirects to it. Only links signed for this send are followed; anything else goes to the home page.
+ *     tags: [Digests]
+ *     parameters:
+ *       - in: path
+ *         name: sendId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: url
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sig
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       302:
+ *         description: Redirect to the linked page
+ */
+export async function GET(request: NextRequest, { params }: { params: { sendId: string } }) {
+  const searchParams = request.nextUrl.searchParams;
+  const fallback = new URL('/', request.nextUrl.origin);
+
+  try {
+    const target = await digestService.recordClick(
+      params.sendId,
+      searchParams.get('url') ?? '',
+      searchParams.get('sig') ?? ''
+    );
+    return NextResponse.redirect(target ? new URL(target, request.nextUrl.origin) : fallback, 302);
+  } catch (error) {
+    // Better the home page than an error page for someone clicking an email
+    logger.error({ error, sendId: params.sendId }, 'Digest click tracking failed');
+    return NextResponse.redirect(fallback, 302);
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { digestService } from '@/services/notify-svc/digest';
+
+// 1x1 transparent GIF
+const PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+/**
+ * @swagger
+ * /api/digests/{sendId}/open:
+ *   get:
+ *     summary: Digest open pixel
+ *     description: Counts an open of a digest email. Always answers with a transparent pixel so a bad or stale link never shows as a broken image.
+ *     tags: [Digests]
+ *     parameters:
+ *       - in: path
+ *         name: sendId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sig
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 1x1 GIF
+ */
+export async function GET(request: NextRequest, { params }: { params: { sendId: string } }) {
+  try {
+    await digestService.recordOpen(params.sendId, request.nextUrl.searchParams.get('sig') ?? '');
+  } catch (error) {
+    logger.error({ error, sendId: params.sendId }, 'Digest open tracking failed');
+  }
+
+  return new NextResponse(new Uint8Array(PIXEL), {
+    headers: {
+      'Content-Type': 'image/gif',
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
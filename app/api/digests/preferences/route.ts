@@ -2,6 +2,15 @@ import { logger } from '@/lib/dev-logger';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { DEFAULT_PRICE_DROP_THRESHOLDS } from '@/services/pricing-svc/price-history';
+import {
+  ALERT_CHANNELS,
+  ALERT_FREQUENCIES,
+  DEFAULT_ALERT_CHANNELS,
+  type AlertChannel,
+  type AlertFrequency,
+} from '@/services/search-svc/saved-search-alerts';
+import { DIGEST_LOCALES, type DigestLocale } from '@/services/notify-svc/digest';
 
 function getSupabase() {
   return createClient(
@@ -15,6 +24,11 @@ interface DigestPreferencesRequest {
   frequency: 'daily' | 'weekly' | 'never';
   categories?: string[];
   preferredTime?: string; // HH:mm format
+  priceDropMinPercent?: number; // 0-100
+  priceDropMinHuf?: number;
+  alertFrequency?: AlertFrequency; // saved-search alerts
+  alertChannels?: AlertChannel[];
+  locale?: DigestLocale; // digest email language
 }
 
 /**
@@ -49,6 +63,11 @@ export async function GET(request: NextRequest) {
           categories: ['new_listings', 'price_drops', 'saved_searches'],
           preferred_time: '09:00',
           enabled: true,
+          price_drop_min_percent: DEFAULT_PRICE_DROP_THRESHOLDS.minPercent,
+          price_drop_min_huf: DEFAULT_PRICE_DROP_THRESHOLDS.minHuf,
+          alert_frequency: 'instant',
+          alert_channels: DEFAULT_ALERT_CHANNELS,
+          locale: 'en',
         },
       });
     }
@@ -78,6 +97,11 @@ export async function POST(request: NextRequest) {
       frequency,
       categories,
       preferredTime = '09:00',
+      priceDropMinPercent = DEFAULT_PRICE_DROP_THRESHOLDS.minPercent,
+      priceDropMinHuf = DEFAULT_PRICE_DROP_THRESHOLDS.minHuf,
+      alertFrequency = 'instant',
+      alertChannels = DEFAULT_ALERT_CHANNELS,
+      locale = 'en',
     } = body;
 
     if (!userId || !frequency) {
@@ -87,6 +111,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (
+      typeof priceDropMinPercent !== 'number' || priceDropMinPercent < 0 || priceDropMinPercent > 100 ||
+      !Number.isInteger(priceDropMinHuf) || priceDropMinHuf < 0
+    ) {
+      return NextResponse.json(
+        { error: 'Price drop thresholds must be a percentage between 0 and 100 and a whole forint amount' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !ALERT_FREQUENCIES.includes(alertFrequency) ||
+      !Array.isArray(alertChannels) ||
+      !alertChannels.every((channel) => ALERT_CHANNELS.includes(channel))
+    ) {
+      return NextResponse.json(
+        { error: `alertFrequency must be one of ${ALERT_FREQUENCIES.join(', ')} and alertChannels a subset of ${ALERT_CHANNELS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!DIGEST_LOCALES.includes(locale)) {
+      return NextResponse.json(
+        { error: `locale must be one of ${DIGEST_LOCALES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
     // Check if preferences exist
     const { data: existing } = await getSupabase()
       .from('digest_preferences')
@@ -103,6 +155,11 @@ export async function POST(request: NextRequest) {
           frequency,
           categories: categories || ['new_listings', 'price_drops'],
           preferred_time: preferredTime,
+          price_drop_min_percent: priceDropMinPercent,
+          price_drop_min_huf: priceDropMinHuf,
+          alert_frequency: alertFrequency,
+          alert_channels: Array.from(new Set(alertChannels)),
+          locale,
           updated_at: new Date().toISOString(),
         })
         .eq('user_id', userId)
@@ -119,6 +176,11 @@ export async function POST(request: NextRequest) {
           frequency,
           categories: categories || ['new_listings', 'price_drops'],
           preferred_time: preferredTime,
+          price_drop_min_percent: priceDropMinPercent,
+          price_drop_min_huf: priceDropMinHuf,
+          alert_frequency: alertFrequency,
+          alert_channels: Array.from(new Set(alertChannels)),
+          locale,
           enabled: frequency !== 'never',
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
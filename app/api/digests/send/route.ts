@@ -2,6 +2,7 @@ import { logger } from '@/lib/dev-logger';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { JOB_QUEUES, jobQueue, type DigestJobPayload } from '@/services/job-queue-svc';
 
 function getSupabase() {
   return createClient(
@@ -12,7 +13,7 @@ function getSupabase() {
 
 interface DigestSendRequest {
   userId: string;
-  type: 'saved_searches' | 'price_drops' | 'new_listings' | 'weekly_summary';
+  type: DigestJobPayload['type'];
 }
 
 /**
@@ -101,49 +102,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // TODO: Build digest content based on type
-    // For now, create the send record
-    const { data: send, error: sendError } = await getSupabase()
-      .from('digest_sends')
-      .insert({
-        user_id: userId,
-        digest_type: type,
-        status: 'pending',
-        recipient_email: user.email,
-        content: {
-          template: type,
-          generated_at: new Date().toISOString(),
-        },
-        sent_at: null,
-        opened_at: null,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .select()
-      .single();
-
-    if (sendError) {
-      return NextResponse.json(
-        { error: sendError.message },
-        { status: 400 }
-      );
-    }
-
-    // TODO: Queue for sending via Resend or similar email service
-    // await emailQueue.add('send-digest', {
-    //   sendId: send.id,
-    //   userId,
-    //   email: user.email,
-    //   type,
-    // });
+    // One digest of each type per user per day; the worker records it in digest_sends once sent
+    const day = new Date().toISOString().slice(0, 10);
+    const { job, created } = await jobQueue.enqueue<DigestJobPayload>(
+      JOB_QUEUES.digests,
+      'digest.send',
+      { userId, email: user.email, type },
+      { idempotencyKey: `digest:${userId}:${type}:${day}` },
+    );
 
     return NextResponse.json(
       {
         success: true,
-        message: 'Digest queued for sending',
-        send,
+        message: created ? 'Digest queued for sending' : 'Digest already queued today',
+        jobId: job.id,
+        status: job.status,
       },
-      { status: 201 }
+      { status: created ? 201 : 200 }
     );
   } catch (error) {
     logger.error({ err: error }, 'Error sending digest:');
@@ -7,6 +7,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabaseClient';
+import { getLLM } from '@/lib/llm/provider';
 
 interface HealthStatus {
   status: 'healthy' | 'degraded' | 'unhealthy';
@@ -223,13 +224,15 @@ async function checkSearch(): Promise<CheckResult> {
 }
 
 /**
- * Check AI service availability
+ * Check AI service availability (configured LLM provider)
  */
 async function checkAI(): Promise<CheckResult> {
   const start = Date.now();
 
   try {
-    if (!process.env.GOOGLE_AI_API_KEY) {
+    const llm = getLLM();
+
+    if (llm.providerName === 'gemini' && !process.env.GOOGLE_AI_API_KEY && !process.env.GOOGLE_GEMINI_API_KEY) {
       return {
         status: 'warn',
         responseTime: 0,
@@ -237,26 +240,29 @@ async function checkAI(): Promise<CheckResult> {
       };
     }
 
-    // Simple API key validation
-    const response = await fetch(
-      'https://generativelanguage.googleapis.com/v1beta/models?key=' +
-      process.env.GOOGLE_AI_API_KEY,
-      { signal: AbortSignal.timeout(5000) }
-    );
-
+    const healthy = await llm.healthCheck();
     const responseTime = Date.now() - start;
 
-    if (!response.ok) {
+    if (!healthy) {
       return {
         status: 'fail',
         responseTime,
-        message: 'AI API key invalid or quota exceeded',
+        message: `AI provider ${llm.providerName} unreachable, key invalid or quota exceeded`,
+      };
+    }
+
+    if (llm.getCircuitBreaker()?.getState() === 'OPEN') {
+      return {
+        status: 'warn',
+        responseTime,
+        message: `AI provider ${llm.providerName} circuit breaker open`,
       };
     }
 
     return {
       status: 'pass',
       responseTime,
+      message: `provider: ${llm.providerName}`,
     };
   } catch (error) {
     return {
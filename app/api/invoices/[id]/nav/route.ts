@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { InvoiceError, invoiceService } from '@/services/payments-svc/invoice';
+
+/**
+ * @swagger
+ * /api/invoices/{id}/nav:
+ *   post:
+ *     summary: Report a rent invoice to NAV (owner)
+ *     description: Submits the invoice data to the NAV Online Számla endpoint and stores the transaction id, the result and any validation messages. A rejected invoice can be submitted again.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Invoice with its NAV status
+ *       409:
+ *         description: Already reported
+ */
+export async function POST(_request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const invoice = await invoiceService.submitToNav(user.id, params.id);
+    return NextResponse.json({ invoice });
+  } catch (error) {
+    if (error instanceof InvoiceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error({ error, invoiceId: params.id }, 'NAV submission failed');
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { InvoiceError, invoiceService } from '@/services/payments-svc/invoice';
+
+/**
+ * @swagger
+ * /api/invoices/{id}:
+ *   get:
+ *     summary: Download a rent invoice
+ *     description: The invoice as JSON, as the bilingual PDF (seller or buyer) or as NAV Online Számla InvoiceData XML (seller only).
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, pdf, xml]
+ *     responses:
+ *       200:
+ *         description: Invoice
+ *       404:
+ *         description: No such invoice, or not its seller or buyer
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const format = request.nextUrl.searchParams.get('format') || 'json';
+  try {
+    if (format === 'pdf') {
+      const { invoice, pdf } = await invoiceService.pdf(user.id, params.id);
+      return new NextResponse(new Uint8Array(pdf), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="szamla-${invoice.invoiceNumber}.pdf"`,
+          'Cache-Control': 'private, no-store',
+        },
+      });
+    }
+
+    if (format === 'xml') {
+      const { invoice, xml } = await invoiceService.navXml(user.id, params.id);
+      return new NextResponse(xml, {
+        headers: {
+          'Content-Type': 'application/xml; charset=utf-8',
+          'Content-Disposition': `attachment; filename="nav-${invoice.invoiceNumber}.xml"`,
+          'Cache-Control': 'private, no-store',
+        },
+      });
+    }
+
+    if (format !== 'json') {
+      return NextResponse.json({ error: 'Format must be json, pdf or xml' }, { status: 400 });
+    }
+    const invoice = await invoiceService.get(user.id, params.id);
+    return NextResponse.json({ invoice });
+  } catch (error) {
+    if (error instanceof InvoiceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error({ error, invoiceId: params.id, format }, 'Invoice download failed');
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
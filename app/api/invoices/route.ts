@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { invoiceService } from '@/services/payments-svc/invoice';
+
+/**
+ * @swagger
+ * /api/invoices:
+ *   get:
+ *     summary: Rent invoices of the current user
+ *     description: Invoices the user issued as an owner and received as a tenant, newest first.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Issued and received invoices
+ */
+export async function GET() {
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const invoices = await invoiceService.list(user.id);
+    return NextResponse.json(invoices);
+  } catch (error) {
+    logger.error({ error, userId: user.id }, 'Invoice list failed');
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
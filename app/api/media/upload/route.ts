@@ -2,12 +2,20 @@ import { NextRequest, NextResponse } from 'next/server';
 
 // Media Service - Image uploads without native module processing
 // Handles apartment photos, user avatars, and document uploads
-// NOTE: Image processing (sharp) disabled for Vercel serverless deployment
+// NOTE: Image processing (sharp) disabled for Vercel serverless deployment;
+// apartment photos are decoded in pure TypeScript for perceptual hashing and
+// quality analysis (exposure, contrast, blur, resolution)
 
 import { createHash } from 'crypto';
 import { createClient } from '@supabase/supabase-js';
 import { createClient as createServerClient } from '@/lib/supabase/server';
 import { logger } from '@/lib/logger';
+import { decodeImage } from '@/lib/images/decode';
+import { computeImageHashesFromPixels } from '@/lib/images/phash';
+import { analyzeImageQuality, type ImageOrientation } from '@/lib/images/quality';
+import type { DecodedImage } from '@/lib/images/types';
+import { enhancedDuplicateDetectionService } from '@/services/duplicate-detection-svc';
+import { mediaPipelineService, type ListingMediaRefresh } from '@/services/media-pipeline-svc';
 
 interface MediaConfig {
   maxWidth: number;
@@ -28,6 +36,7 @@ interface ProcessedMedia {
     format: string;
     quality: number;
   };
+  listing?: ListingMediaRefresh | null;
 }
 
 interface MediaAnalysis {
@@ -36,6 +45,9 @@ interface MediaAnalysis {
   brightness: number;
   contrast: number;
   sharpness: number;
+  width: number;
+  height: number;
+  orientation: ImageOrientation | null;
   tags: string[];
   warnings: string[];
 }
@@ -48,13 +60,27 @@ class MediaService {
     formats: ['webp', 'jpeg', 'png'],
   };
 
-  async processApartmentImage(buffer: Buffer, filename: string): Promise<ProcessedMedia> {
+  async processApartmentImage(
+    buffer: Buffer,
+    filename: string,
+    apartmentId?: string | null,
+    image: DecodedImage | null = null,
+    analysis: MediaAnalysis | null = null,
+  ): Promise<ProcessedMedia> {
     const hash = this.generateHash(buffer);
     const basePath = `apartments/${hash}`;
     const ext = this.getExtension(filename);
+    const imageKey = `${basePath}/original.${ext}`;
 
     // Save original without processing (sharp disabled for Vercel)
-    const original = await this.saveBuffer(buffer, `${basePath}/original.${ext}`);
+    const original = await this.saveBuffer(buffer, imageKey);
+
+    let listing: ListingMediaRefresh | null = null;
+    if (image && apartmentId) {
+      // Perceptual hashes feed photo reuse checks in duplicate detection
+      await enhancedDuplicateDetectionService.storePhotoHashes(apartmentId, imageKey, computeImageHashesFromPixels(image));
+      listing = await this.recordApartmentMedia(apartmentId, original, imageKey, image, analysis);
+    }
 
     // Use same URL for all variants (no processing)
     return {
@@ -63,12 +89,13 @@ class MediaService {
       optimized: original,
       blurhash: 'LEHV6nWB2yk8pyo0adR*.7kCMdnj', // Default blurhash
       metadata: {
-        width: 0,
-        height: 0,
+        width: image?.width ?? 0,
+        height: image?.height ?? 0,
         size: buffer.length,
         format: ext,
         quality: this.config.quality,
       },
+      listing,
     };
   }
 
@@ -100,20 +127,86 @@ class MediaService {
     return this.saveBuffer(buffer, path);
   }
 
-  async analyzeImage(_buffer: Buffer): Promise<MediaAnalysis> {
-    // Image analysis disabled (requires sharp)
-    // Return default valid analysis
+  decodeImage(buffer: Buffer): DecodedImage | null {
+    try {
+      return decodeImage(buffer);
+    } catch (error) {
+      // Unsupported formats (e.g. GIF, HEIC) are still uploaded, just not hashed or scored
+      logger.warn({ err: error }, 'Could not decode uploaded image');
+      return null;
+    }
+  }
+
+  analyzeImage(image: DecodedImage | null): MediaAnalysis {
+    if (!image) {
+      return {
+        isValid: false,
+        quality: 0,
+        brightness: 0,
+        contrast: 0,
+        sharpness: 0,
+        width: 0,
+        height: 0,
+        orientation: null,
+        tags: ['uploaded'],
+        warnings: ['Photo quality could not be checked; use JPEG, PNG or WebP'],
+      };
+    }
+
+    const report = analyzeImageQuality(image);
     return {
       isValid: true,
-      quality: 0.8,
-      brightness: 0.5,
-      contrast: 0.5,
-      sharpness: 0.5,
-      tags: ['uploaded'],
-      warnings: [],
+      quality: report.score,
+      brightness: report.brightness,
+      contrast: report.contrast,
+      sharpness: report.sharpness,
+      width: report.width,
+      height: report.height,
+      orientation: report.orientation,
+      tags: ['uploaded', report.orientation, ...report.issues],
+      warnings: report.warnings,
     };
   }
 
+  /**
+   * Store the photo with its quality score, then let the pipeline pick the
+   * cover and update the listing's media_quality_score
+   */
+  private async recordApartmentMedia(
+    apartmentId: string,
+    fileUrl: string,
+    storagePath: string,
+    image: DecodedImage,
+    analysis: MediaAnalysis | null,
+  ): Promise<ListingMediaRefresh | null> {
+    try {
+      const supabase = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY!
+      );
+
+      const { error } = await supabase.from('apartment_media').insert({
+        apartment_id: apartmentId,
+        file_url: fileUrl,
+        storage_path: storagePath,
+        width: image.width,
+        height: image.height,
+        quality_score: analysis?.isValid ? analysis.quality : null,
+      });
+
+      if (error) {
+        logger.error({ err: error, apartmentId }, 'Failed to record apartment media');
+        return null;
+      }
+
+      return await mediaPipelineService.refreshListingMedia(apartmentId);
+    } catch (error) {
+      // The upload itself succeeded; cover selection catches up on the next photo
+      logger.warn({ err: error, apartmentId }, 'Could not refresh listing media');
+      return null;
+    }
+  }
+
   private getExtension(filename: string): string {
     const ext = filename.split('.').pop()?.toLowerCase();
     if (ext && ['jpg', 'jpeg', 'png', 'webp', 'gif'].includes(ext)) {
@@ -220,7 +313,8 @@ export async function POST(request: NextRequest) {
     }
 
     const buffer = Buffer.from(await file.arrayBuffer());
-    const analysis = await mediaService.analyzeImage(buffer);
+    const image = type === 'document' ? null : mediaService.decodeImage(buffer);
+    const analysis = type === 'document' ? null : mediaService.analyzeImage(image);
 
     let result: any;
 
@@ -235,7 +329,7 @@ export async function POST(request: NextRequest) {
             }, { status: 400 });
           }
         }
-        result = await mediaService.processApartmentImage(buffer, file.name);
+        result = await mediaService.processApartmentImage(buffer, file.name, apartmentId, image, analysis);
         break;
 
       case 'avatar':
@@ -299,7 +393,7 @@ export async function PUT(request: NextRequest) {
     }
 
     const buffer = Buffer.from(await file.arrayBuffer());
-    const analysis = await mediaService.analyzeImage(buffer);
+    const analysis = mediaService.analyzeImage(mediaService.decodeImage(buffer));
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { ConversationKeyError, conversationKeyService } from '@/services/messaging-system-svc/keys';
+
+const publicJwk = z.object({
+  kty: z.literal('EC'),
+  crv: z.literal('P-256'),
+  x: z.string().min(1),
+  y: z.string().min(1),
+});
+
+const requestSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('publish_public_key'),
+    publicKey: publicJwk,
+  }),
+  z.object({
+    action: z.literal('store_conversation_key'),
+    conversationId: z.string().uuid(),
+    keyVersion: z.number().int().min(1),
+    wrappedKeys: z
+      .array(z.object({ userId: z.string().uuid(), wrappedKey: z.string().min(1).max(4096) }))
+      .min(1)
+      .max(50),
+  }),
+  z.object({
+    action: z.literal('add_participant'),
+    conversationId: z.string().uuid(),
+    userId: z.string().uuid(),
+  }),
+  z.object({
+    action: z.literal('remove_participant'),
+    conversationId: z.string().uuid(),
+    userId: z.string().uuid(),
+  }),
+]);
+
+function errorResponse(error: unknown, context: Record<string, unknown>) {
+  if (error instanceof ConversationKeyError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  logger.error({ error, ...context }, 'Conversation key error');
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+/**
+ * @swagger
+ * /api/messages/keys:
+ *   get:
+ *     summary: Get conversation encryption keys
+ *     description: Returns the current key version, active participants with their public keys, and the conversation keys wrapped for the caller
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: conversationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Key bundle for the conversation
+ *       403:
+ *         description: Not a participant
+ */
+export async function GET(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const conversationId = request.nextUrl.searchParams.get('conversationId');
+  if (!conversationId || !z.string().uuid().safeParse(conversationId).success) {
+    return NextResponse.json({ error: 'Valid conversationId required' }, { status: 400 });
+  }
+
+  try {
+    const data = await conversationKeyService.getConversationKeys(user.id, conversationId);
+    return NextResponse.json({ data });
+  } catch (error) {
+    return errorResponse(error, { userId: user.id, conversationId });
+  }
+}
+
+/**
+ * @swagger
+ * /api/messages/keys:
+ *   post:
+ *     summary: Manage end-to-end encryption keys
+ *     description: |
+ *       Publish the caller's public key, store a new conversation key version
+ *       wrapped for every active participant, or add/remove a participant
+ *       (which requires a new key version before the next message)
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Done
+ *       409:
+ *         description: Key version already taken by a concurrent rotation
+ */
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const validation = requestSchema.safeParse(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const input = validation.data;
+
+  try {
+    switch (input.action) {
+      case 'publish_public_key': {
+        const result = await conversationKeyService.publishPublicKey(user.id, input.publicKey);
+        return NextResponse.json({ success: true, ...result });
+      }
+      case 'store_conversation_key': {
+        const state = await conversationKeyService.storeConversationKey(
+          user.id,
+          input.conversationId,
+          input.keyVersion,
+          input.wrappedKeys
+        );
+        return NextResponse.json({ success: true, ...state });
+      }
+      case 'add_participant':
+        await conversationKeyService.addParticipant(user.id, input.conversationId, input.userId);
+        return NextResponse.json({ success: true });
+      case 'remove_participant':
+        await conversationKeyService.removeParticipant(user.id, input.conversationId, input.userId);
+        return NextResponse.json({ success: true });
+    }
+  } catch (error) {
+    return errorResponse(error, { userId: user.id, action: input.action });
+  }
+}
@@ -4,6 +4,9 @@ import { cache, cacheHelpers } from '@/lib/cache';
 import { rateLimiter } from '@/lib/rate-limit';
 import { maskContactInfo } from '@/lib/messaging';
 import { logger } from '@/lib/logger';
+import { isEncryptedEnvelope } from '@/lib/e2ee/crypto';
+import { ConversationKeyError, checkMessageContent, conversationKeyService } from '@/services/messaging-system-svc/keys';
+import { trustSafetyService } from '@/services/trust-safety-svc';
 
 interface Conversation {
   id: string;
@@ -107,7 +110,8 @@ export async function GET(request: NextRequest) {
           read_at,
           sender_id,
           message_type,
-          metadata
+          metadata,
+          key_version
         `)
         .eq('conversation_id', conversationId)
         .order('created_at', { ascending: true });
@@ -134,6 +138,15 @@ export async function GET(request: NextRequest) {
         { headers: { 'Content-Type': 'application/json' } }
       );
     } else {
+      // Roommate group members take part in conversations they did not found
+      const { data: memberships } = await supabase
+        .from('conversation_participants')
+        .select('conversation_id')
+        .eq('user_id', user.id)
+        .eq('role', 'member')
+        .is('removed_at', null);
+      const memberOf = (memberships || []).map((membership) => membership.conversation_id);
+
       // Get all conversations for the user
       const { data: conversations, error } = await supabase
         .from('conversations')
@@ -155,7 +168,7 @@ export async function GET(request: NextRequest) {
             monthly_rent_huf
           )
         `)
-        .or(`student_id.eq.${user.id},owner_id.eq.${user.id}`)
+        .or(`student_id.eq.${user.id},owner_id.eq.${user.id}${memberOf.length ? `,id.in.(${memberOf.join(',')})` : ''}`)
         .eq('status', 'active')
         .order('last_message_at', { ascending: false });
 
@@ -170,9 +183,9 @@ export async function GET(request: NextRequest) {
       // Get other participant info for each conversation
       const conversationsWithParticipants = await Promise.all(
         (conversations || []).map(async (conv) => {
-          const isStudent = conv.student_id === user.id;
-          const otherUserId = isStudent ? conv.owner_id : conv.student_id;
-          const otherUserRole = isStudent ? 'owner' : 'student';
+          const isOwner = conv.owner_id === user.id;
+          const otherUserId = isOwner ? conv.student_id : conv.owner_id;
+          const otherUserRole = isOwner ? 'student' : 'owner';
 
           // Get other user's profile with first_name, last_name, avatar_url
           const tableName = otherUserRole === 'owner' ? 'profiles_owner' : 'profiles_student';
@@ -205,7 +218,7 @@ export async function GET(request: NextRequest) {
               sender_id: null, // We don't track this in the preview
             } : null,
             lastMessageAt: conv.last_message_at,
-            unreadCount: isStudent ? conv.unread_count_student : conv.unread_count_owner,
+            unreadCount: isOwner ? conv.unread_count_owner : conv.unread_count_student,
             status: conv.status,
             createdAt: conv.created_at,
           };
@@ -252,11 +265,15 @@ export async function GET(request: NextRequest) {
  *                 format: uuid
  *               content:
  *                 type: string
+ *                 description: E2EE envelope (e2ee1.<version>.<iv>.<ciphertext>); plaintext only in never-encrypted conversations
  *                 example: "I'm interested in viewing this apartment"
  *               apartmentId:
  *                 type: string
  *                 format: uuid
  *                 description: Required if starting new conversation
+ *               createOnly:
+ *                 type: boolean
+ *                 description: Only get or create the conversation and return its id
  *     responses:
  *       200:
  *         description: Message sent successfully
@@ -271,6 +288,8 @@ export async function GET(request: NextRequest) {
  *         description: Missing required fields
  *       401:
  *         description: Unauthorized
+ *       409:
+ *         description: Conversation key out of date; refetch keys and re-encrypt
  *       429:
  *         description: Rate limit exceeded
  */
@@ -299,9 +318,9 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    const { conversationId, receiverId, content, apartmentId } = await request.json();
+    const { conversationId, receiverId, content, apartmentId, createOnly } = await request.json();
 
-    if (!receiverId || !content) {
+    if (!receiverId || (!content && !createOnly)) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
 
@@ -356,13 +375,38 @@ export async function POST(request: NextRequest) {
       .eq('id', finalConversationId)
       .single();
 
-    if (!conversation ||
-      (conversation.student_id !== user.id && conversation.owner_id !== user.id)) {
+    const isFounder = conversation && (conversation.student_id === user.id || conversation.owner_id === user.id);
+    const isMember = conversation && !isFounder && (await supabase
+      .from('conversation_participants')
+      .select('user_id')
+      .eq('conversation_id', finalConversationId)
+      .eq('user_id', user.id)
+      .is('removed_at', null)
+      .maybeSingle()).data;
+
+    if (!conversation || (!isFounder && !isMember)) {
       return NextResponse.json({ error: 'Unauthorized to send message in this conversation' }, { status: 403 });
     }
 
-    // Determine receiver_id for the message
-    const messageReceiverId = conversation.student_id === user.id ? conversation.owner_id : conversation.student_id;
+    // Encrypting clients need the conversation id (and its keys) before the first message
+    if (createOnly) {
+      return NextResponse.json({ conversationId: finalConversationId });
+    }
+
+    // Determine receiver_id for the message; group members write to the owner
+    const messageReceiverId = conversation.owner_id === user.id ? conversation.student_id : conversation.owner_id;
+
+    // Ciphertext is stored as sent (the client masks contact info before
+    // encrypting); plaintext is only accepted before the first key exists
+    let keyVersion: number | null;
+    try {
+      keyVersion = checkMessageContent(await conversationKeyService.getKeyState(finalConversationId), content);
+    } catch (error) {
+      if (error instanceof ConversationKeyError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+      }
+      throw error;
+    }
 
     // Insert message
     const { data: message, error: insertError } = await supabase
@@ -371,14 +415,16 @@ export async function POST(request: NextRequest) {
         conversation_id: finalConversationId,
         sender_id: user.id,
         receiver_id: messageReceiverId,
-        content: maskContactInfo(content.trim()),
+        content: isEncryptedEnvelope(content) ? content : maskContactInfo(content.trim()),
+        key_version: keyVersion,
       })
       .select(`
         id,
         content,
         created_at,
         sender_id,
-        receiver_id
+        receiver_id,
+        key_version
       `)
       .single();
 
@@ -387,12 +433,22 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to send message', details: insertError.message }, { status: 500 });
     }
 
+    // Only legacy plaintext can be classified here; encrypted conversations
+    // are checked in the recipient's browser after decryption
+    if (keyVersion === null) {
+      await trustSafetyService.classifyContent(
+        { text: content, contentType: 'message' },
+        { authorId: user.id, contentId: message.id },
+        { fallback: false }
+      );
+    }
+
     // Invalidate conversation caches for both users
     await cache.invalidateByTag(`user:${user.id}`);
     await cache.invalidateByTag(`user:${messageReceiverId}`);
     await cache.invalidateByTag('conversations');
 
-    return NextResponse.json({ message });
+    return NextResponse.json({ message, conversationId: finalConversationId });
 
   } catch (error) {
     logger.error({ error }, 'Send message error');
@@ -3,6 +3,8 @@ import { logger } from '@/lib/dev-logger';
 // FILE: app/api/neighborhood/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
+import { countNearbyPois, hasOsmData } from '@/lib/osm/repository';
+import { locationScoreService } from '@/services/location-score-svc';
 
 const NeighborhoodRequestSchema = z.object({
   latitude: z.number(),
@@ -44,8 +46,14 @@ type NeighborhoodData = {
     trend: 'up' | 'down' | 'stable';
     changePercent: number;
   };
+  sources: Array<'openstreetmap' | 'google_places' | 'walkscore'>;
 };
 
+type AmenityCounts = NeighborhoodData['nearbyAmenities'];
+
+const AMENITY_RADIUS_METERS = 1500;
+const SCORE_RADIUS_METERS = 1000;
+
 async function getWalkScoreData(latitude: number, longitude: number): Promise<Partial<NeighborhoodData>> {
   try {
     const WALKSCORE_API_KEY = process.env.WALKSCORE_API_KEY;
@@ -87,6 +95,58 @@ async function getWalkScoreData(latitude: number, longitude: number): Promise<Pa
   }
 }
 
+async function getOsmAmenityData(latitude: number, longitude: number): Promise<AmenityCounts | null> {
+  try {
+    const counts = await countNearbyPois(latitude, longitude, AMENITY_RADIUS_METERS);
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    if (total === 0 && !(await hasOsmData())) {
+      logger.warn({}, 'No OSM extract imported; run npm run osm:import');
+      return null;
+    }
+
+    return {
+      restaurants: counts.restaurants,
+      grocery: counts.grocery,
+      shopping: counts.shopping,
+      cafes: counts.cafes,
+      gyms: counts.gyms,
+      parks: counts.parks,
+      schools: counts.schools,
+      hospitals: counts.hospitals,
+    };
+  } catch (error) {
+    logger.error({ err: error }, 'Error counting OSM amenities');
+    return null;
+  }
+}
+
+// Walk and transit scores from local POIs when Walk Score is not configured
+async function getLocalScoreData(latitude: number, longitude: number): Promise<Partial<NeighborhoodData>> {
+  const scores = await locationScoreService.getLocationScores(latitude, longitude, SCORE_RADIUS_METERS);
+  if (scores.sources.length === 0) return {};
+
+  const nearestStop = scores.transitStops[0];
+  let transitDescription = 'Minimal Transit';
+  if (scores.transit >= 70) transitDescription = 'Excellent Transit';
+  else if (scores.transit >= 50) transitDescription = 'Good Transit';
+  else if (scores.transit >= 25) transitDescription = 'Some Transit';
+
+  return {
+    walkScore: {
+      score: scores.walkability,
+      description: scores.description,
+      updated: new Date().toISOString(),
+    },
+    transitScore: {
+      score: scores.transit,
+      description: transitDescription,
+      summary: nearestStop
+        ? `Nearest stop: ${nearestStop.name} (${nearestStop.type}, ${nearestStop.distance} m)`
+        : 'No stops within 1 km',
+    },
+  };
+}
+
 async function getGooglePlacesData(latitude: number, longitude: number): Promise<Partial<NeighborhoodData>> {
   try {
     const GOOGLE_PLACES_API_KEY = process.env.GOOGLE_PLACES_API_KEY;
@@ -174,28 +234,41 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { latitude, longitude, address } = NeighborhoodRequestSchema.parse(body);
 
-    // Fetch data from multiple APIs in parallel
-    const [walkScoreData, placesData, safetyData] = await Promise.all([
+    // Fetch data from the local OSM table and optional APIs in parallel
+    const [walkScoreData, osmAmenities, placesData, safetyData] = await Promise.all([
       getWalkScoreData(latitude, longitude),
+      getOsmAmenityData(latitude, longitude),
       getGooglePlacesData(latitude, longitude),
       getSafetyData(latitude, longitude),
     ]);
 
+    const sources: NeighborhoodData['sources'] = [];
+    if (walkScoreData.walkScore) sources.push('walkscore');
+    if (osmAmenities) sources.push('openstreetmap');
+    if (placesData.nearbyAmenities) sources.push('google_places');
+
+    const scoreData = walkScoreData.walkScore ? walkScoreData : await getLocalScoreData(latitude, longitude);
+
+    // Places nearby search caps out at 20 results per type, so it only adds
+    // to the OSM counts where the extract is sparse
+    const amenityCount = (key: keyof AmenityCounts) =>
+      Math.max(osmAmenities?.[key] ?? 0, placesData.nearbyAmenities?.[key] ?? 0);
+
     // Combine all neighborhood data
     const neighborhoodData: NeighborhoodData = {
-      ...walkScoreData,
-      ...placesData,
+      ...scoreData,
       ...safetyData,
       nearbyAmenities: {
-        restaurants: placesData.nearbyAmenities?.restaurants || 0,
-        grocery: placesData.nearbyAmenities?.grocery || 0,
-        shopping: placesData.nearbyAmenities?.shopping || 0,
-        cafes: placesData.nearbyAmenities?.cafes || 0,
-        gyms: placesData.nearbyAmenities?.gyms || 0,
-        parks: placesData.nearbyAmenities?.parks || 0,
-        schools: placesData.nearbyAmenities?.schools || 0,
-        hospitals: placesData.nearbyAmenities?.hospitals || 0,
+        restaurants: amenityCount('restaurants'),
+        grocery: amenityCount('grocery'),
+        shopping: amenityCount('shopping'),
+        cafes: amenityCount('cafes'),
+        gyms: amenityCount('gyms'),
+        parks: amenityCount('parks'),
+        schools: amenityCount('schools'),
+        hospitals: amenityCount('hospitals'),
       },
+      sources,
     };
 
     return NextResponse.json({
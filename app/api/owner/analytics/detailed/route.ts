@@ -2,6 +2,11 @@ import { logger } from '@/lib/dev-logger';
 
 import { createClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
+import { ledgerService } from '@/services/payments-svc/ledger';
+
+// Leases the tenant has signed count as won; requests awaiting an answer as pending
+const ACTIVE_STATUSES = ['signed', 'active', 'ended'];
+const PENDING_STATUSES = ['requested', 'accepted'];
 
 export async function GET(request: NextRequest) {
   try {
@@ -75,13 +80,17 @@ export async function GET(request: NextRequest) {
     const totalListings = apartments.length;
     const totalCurrentBookings = currentBookings?.length || 0;
     const activeCurrentBookings =
-      currentBookings?.filter((b: any) => b.status === 'approved').length || 0;
+      currentBookings?.filter((b: any) => ACTIVE_STATUSES.includes(b.status)).length || 0;
     const pendingCurrentBookings =
-      currentBookings?.filter((b: any) => b.status === 'pending').length || 0;
+      currentBookings?.filter((b: any) => PENDING_STATUSES.includes(b.status)).length || 0;
 
-    const currentRevenue = (currentBookings || [])
-      .filter((b: any) => b.status === 'approved')
-      .reduce((sum: number, b: any) => sum + (b.total_amount || 0), 0);
+    // Revenue is what the ledger recorded as earned in the period: rent and
+    // deposit deductions less refunds and commission
+    const [currentLedger, previousLedger] = await Promise.all([
+      ledgerService.ownerRevenue(user.id, startDate, endDate),
+      ledgerService.ownerRevenue(user.id, previousStartDate, previousEndDate),
+    ]);
+    const currentRevenue = currentLedger.netEarningsHuf;
 
     const currentConversionRate =
       totalCurrentBookings > 0
@@ -91,11 +100,9 @@ export async function GET(request: NextRequest) {
     // Calculate previous period analytics for comparison
     const totalPreviousBookings = previousBookings?.length || 0;
     const activePreviousBookings =
-      previousBookings?.filter((b: any) => b.status === 'approved').length || 0;
+      previousBookings?.filter((b: any) => ACTIVE_STATUSES.includes(b.status)).length || 0;
 
-    const previousRevenue = (previousBookings || [])
-      .filter((b: any) => b.status === 'approved')
-      .reduce((sum: number, b: any) => sum + (b.total_amount || 0), 0);
+    const previousRevenue = previousLedger.netEarningsHuf;
 
     const previousConversionRate =
       totalPreviousBookings > 0
@@ -108,12 +115,9 @@ export async function GET(request: NextRequest) {
         (b: any) => b.apartment_id === apartment.id
       ) || [];
       const activeApartmentBookings = apartmentBookings.filter(
-        (b: any) => b.status === 'approved'
-      );
-      const apartmentRevenue = activeApartmentBookings.reduce(
-        (sum: number, b: any) => sum + (b.total_amount || 0),
-        0
+        (b: any) => ACTIVE_STATUSES.includes(b.status)
       );
+      const apartmentRevenue = currentLedger.byApartment.get(apartment.id) ?? 0;
 
       return {
         id: apartment.id,
@@ -149,6 +153,15 @@ export async function GET(request: NextRequest) {
         activeBookings: activeCurrentBookings,
         pendingBookings: pendingCurrentBookings,
         apartmentStats: apartmentStats.sort((a, b) => b.revenue - a.revenue),
+        earnings: {
+          grossRent: currentLedger.rentHuf,
+          depositDeductions: currentLedger.depositDeductionsHuf,
+          refunds: currentLedger.refundsHuf,
+          commission: currentLedger.commissionHuf,
+          adjustments: currentLedger.adjustmentsHuf,
+          netEarnings: currentLedger.netEarningsHuf,
+          paidOut: currentLedger.paidOutHuf,
+        },
       },
       comparison: {
         currentRevenue,
@@ -2,6 +2,7 @@ import { logger } from '@/lib/dev-logger';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { ledgerService } from '@/services/payments-svc/ledger';
 
 const getPeriodStart = (period: string) => {
   const now = new Date();
@@ -26,21 +27,17 @@ export async function GET(request: NextRequest) {
   const startDate = getPeriodStart(period);
 
   try {
-    const { data, error } = await supabase
-      .from('bookings')
-      .select('total_amount, status, created_at')
-      .eq('owner_id', user.id)
-      .eq('status', 'approved')
-      .gte('created_at', startDate.toISOString());
-
-    if (error) throw error;
-
-    const revenue = (data || []).reduce((sum, row: any) => sum + (row.total_amount || 0), 0);
-    const paymentCount = data?.length ?? 0;
+    // Net of commission, refunds and deposit deductions, as the ledger recorded them
+    const revenue = await ledgerService.ownerRevenue(user.id, startDate, new Date());
 
     return NextResponse.json({
-      revenue,
-      paymentCount,
+      revenue: revenue.netEarningsHuf,
+      grossRent: revenue.rentHuf,
+      depositDeductions: revenue.depositDeductionsHuf,
+      refunds: revenue.refundsHuf,
+      commission: revenue.commissionHuf,
+      paidOut: revenue.paidOutHuf,
+      paymentCount: revenue.chargeCount,
       period,
       startDate: startDate.toISOString(),
     });
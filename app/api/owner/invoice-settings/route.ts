@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { InvoiceError, invoiceService } from '@/services/payments-svc/invoice';
+
+const requestSchema = z.object({
+  sellerName: z.string().trim().min(1).max(200),
+  taxNumber: z.string().trim().regex(/^\d{8}-[1-5]-\d{2}$/),
+  postalCode: z.string().trim().regex(/^\d{4}$/),
+  city: z.string().trim().min(1).max(100),
+  streetAddress: z.string().trim().min(1).max(200),
+  vatStatus: z.enum(['exempt_tam', 'exempt_aam', 'vat_27']),
+  numberPrefix: z.string().trim().toUpperCase().regex(/^[A-Z0-9]{1,10}$/).default('SA'),
+});
+
+function errorResponse(error: unknown, context: Record<string, unknown>) {
+  if (error instanceof InvoiceError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  logger.error({ error, ...context }, 'Invoice settings error');
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+/**
+ * @swagger
+ * /api/owner/invoice-settings:
+ *   get:
+ *     summary: Invoicing details (owner)
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Seller name, tax number, address, VAT status and number prefix, or null
+ *   put:
+ *     summary: Save invoicing details (owner)
+ *     description: Rent paid while no details were saved is invoiced right away; the response says how many invoices were issued.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Saved settings
+ *       400:
+ *         description: Invalid tax number or address
+ */
+export async function GET() {
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const settings = await invoiceService.getSettings(user.id);
+    return NextResponse.json({ settings });
+  } catch (error) {
+    return errorResponse(error, { userId: user.id });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const validation = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await invoiceService.saveSettings(user.id, validation.data);
+    return NextResponse.json(result);
+  } catch (error) {
+    return errorResponse(error, { userId: user.id });
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { LedgerError, ledgerService, statementCsv, statementPdf } from '@/services/payments-svc/ledger';
+
+const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+/**
+ * @swagger
+ * /api/owner/statements:
+ *   get:
+ *     summary: Monthly payout statement (owner)
+ *     description: Rent received, deposit deductions, refunds, platform commission and payouts for one calendar month (UTC) from the ledger, with the Connect balance at the start and end of the month.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: month
+ *         schema:
+ *           type: string
+ *           example: 2027-03
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv, pdf]
+ *     responses:
+ *       200:
+ *         description: Statement as JSON, CSV or PDF
+ *       400:
+ *         description: Invalid month or format
+ */
+export async function GET(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const month = request.nextUrl.searchParams.get('month') || currentMonth();
+  const format = request.nextUrl.searchParams.get('format') || 'json';
+  if (!['json', 'csv', 'pdf'].includes(format)) {
+    return NextResponse.json({ error: 'Format must be json, csv or pdf' }, { status: 400 });
+  }
+
+  try {
+    const statement = await ledgerService.ownerStatement(user.id, month);
+    const filename = `statement-${month}`;
+
+    if (format === 'csv') {
+      return new NextResponse(statementCsv(statement), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}.csv"`,
+          'Cache-Control': 'private, no-store',
+        },
+      });
+    }
+
+    if (format === 'pdf') {
+      const { data: owner } = await supabase
+        .from('profiles_owner')
+        .select('full_name, business_name')
+        .eq('id', user.id)
+        .maybeSingle();
+      const pdf = statementPdf(statement, owner?.business_name || owner?.full_name || null);
+      return new NextResponse(new Uint8Array(pdf), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${filename}.pdf"`,
+          'Cache-Control': 'private, no-store',
+        },
+      });
+    }
+
+    return NextResponse.json({ statement });
+  } catch (error) {
+    if (error instanceof LedgerError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error({ error, userId: user.id, month }, 'Owner statement failed');
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
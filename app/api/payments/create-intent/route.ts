@@ -1,17 +1,22 @@
-// Payment Intent API - Creates Stripe payment intent for booking
+// Payment Intent API - First payment (first month's rent + deposit) of a signed lease
 import { NextRequest, NextResponse } from 'next/server';
-import { getStripe, STRIPE_CONFIG, isStripeConfigured } from '@/lib/stripe/server';
+import { z } from 'zod';
+import { isStripeConfigured } from '@/lib/stripe/server';
 import { createClient } from '@/utils/supabaseClient';
-import { bookingSchema, validateInput } from '@/lib/validation/schemas';
-// import * as Sentry from '@sentry/nextjs'; // Temporarily disabled due to parsing error
+import { LeaseError, leaseService } from '@/services/payments-svc/lease';
 import { logRequest, logResponse, logError, logEvent } from '@/lib/logger';
 
+const requestSchema = z.object({
+  bookingId: z.string().uuid(),
+  paymentId: z.string().uuid().optional(),
+});
+
 /**
  * @swagger
  * /api/payments/create-intent:
  *   post:
  *     summary: Create payment intent
- *     description: Creates a Stripe payment intent for booking
+ *     description: Returns the client secret for the first payment of a signed lease (first month's rent plus deposit). The card is saved for the monthly rent. Calling it again returns the same intent. With paymentId, returns the client secret of a monthly rent charge the tenant's bank asked them to confirm, and the saved card to confirm it with.
  *     tags: [Payments]
  *     requestBody:
  *       required: true
@@ -19,20 +24,15 @@ import { logRequest, logResponse, logError, logEvent } from '@/lib/logger';
  *         application/json:
  *           schema:
  *             type: object
- *             required: [apartmentId, userId, move InDate]
+ *             required: [bookingId]
  *             properties:
- *               apartmentId:
+ *               bookingId:
  *                 type: string
  *                 format: uuid
- *               userId:
+ *               paymentId:
  *                 type: string
  *                 format: uuid
- *               moveInDate:
- *                 type: string
- *                 format: date
- *               leaseMonths:
- *                 type: number
- *                 default: 12
+ *                 description: Rent payment waiting for confirmation
  *     responses:
  *       200:
  *         description: Payment intent created
@@ -47,6 +47,8 @@ import { logRequest, logResponse, logError, logEvent } from '@/lib/logger';
  *                   type: string
  *                 amount:
  *                   type: number
+ *       409:
+ *         description: Lease is not signed or already paid, or the rent payment does not need confirming
  */
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
@@ -61,162 +63,67 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  let body: any;
-  try {
-    body = await request.json();
-
-    // Validate input
-    const validation = validateInput(bookingSchema, body);
-    if (!validation.success) {
-      logResponse('POST', '/api/payments/create-intent', 400, Date.now() - startTime);
-      return NextResponse.json(
-        { error: 'error' in validation ? validation.error : 'Validation failed' },
-        { status: 400 }
-      );
-    }
-
-    const { apartmentId, userId, moveInDate, leaseMonths } = validation.data;
-
-    const supabase = createClient();
-
-    // 1. Fetch apartment details
-    const { data: apartment, error: aptError } = await supabase
-      .from('apartments')
-      .select('*')
-      .eq('id', apartmentId)
-      .single();
-
-    if (aptError || !apartment) {
-      return NextResponse.json(
-        { error: 'Apartment not found' },
-        { status: 404 }
-      );
-    }
-
-    // 2. Calculate amounts
-    const depositMonths = apartment.deposit_months || 2;
-    const depositAmount = apartment.price_huf * depositMonths;
-    const firstMonthRent = apartment.price_huf;
-    const totalAmount = depositAmount + firstMonthRent;
-
-    // 3. Create booking record
-    const { data: booking, error: bookingError } = await supabase
-      .from('bookings')
-      .insert({
-        apartment_id: apartmentId,
-        user_id: userId,
-        owner_id: apartment.owner_id,
-        move_in_date: moveInDate || new Date().toISOString(),
-        lease_months: leaseMonths || 12,
-        total_amount: totalAmount,
-        deposit_amount: depositAmount,
-        payment_status: 'unpaid',
-        status: 'pending',
-      })
-      .select()
-      .single();
-
-    if (bookingError || !booking) {
-      return NextResponse.json(
-        { error: 'Failed to create booking', details: bookingError?.message },
-        { status: 500 }
-      );
-    }
-
-    // 4. Create Stripe Payment Intent
-    const stripeClient = getStripe();
-    if (!stripeClient) {
-      logResponse('POST', '/api/payments/create-intent', 500, Date.now() - startTime);
-      return NextResponse.json(
-        { error: 'Stripe client not initialized' },
-        { status: 500 }
-      );
-    }
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    logResponse('POST', '/api/payments/create-intent', 401, Date.now() - startTime);
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
 
-    const paymentIntent = await stripeClient.paymentIntents.create({
-      amount: Math.round(totalAmount), // Stripe requires integers (1 HUF = 1 unit)
-      currency: STRIPE_CONFIG.currency,
-      automatic_payment_methods: {
-        enabled: true,
-      },
-      metadata: {
-        booking_id: booking.id,
-        apartment_id: apartmentId,
-        user_id: userId,
-        apartment_title: apartment.title,
-      },
-      description: `Booking for ${apartment.title} - ${depositMonths} months deposit + 1 month rent`,
-    });
+  const validation = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!validation.success) {
+    logResponse('POST', '/api/payments/create-intent', 400, Date.now() - startTime);
+    return NextResponse.json(
+      { error: 'Invalid request data', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
 
-    if (!paymentIntent.client_secret) {
-      logError(new Error('No client secret from Stripe'), {
-        api_route: 'payment_intent',
-        bookingId: booking.id,
-      });
-      return NextResponse.json(
-        { error: 'Failed to initialize payment with Stripe' },
-        { status: 500 }
+  const { bookingId, paymentId } = validation.data;
+  try {
+    if (paymentId) {
+      const { payment, clientSecret, paymentMethodId } = await leaseService.confirmRentPayment(
+        user.id,
+        bookingId,
+        paymentId
       );
+      logResponse('POST', '/api/payments/create-intent', 200, Date.now() - startTime);
+      return NextResponse.json({ clientSecret, bookingId, paymentId, paymentMethodId, amount: payment.amountHuf });
     }
 
-    // 5. Store payment intent ID in booking
-    await supabase
-      .from('bookings')
-      .update({ payment_intent_id: paymentIntent.id })
-      .eq('id', booking.id);
+    const { lease, clientSecret } = await leaseService.firstPayment(user.id, bookingId);
 
-    // 6. Create payment transaction record
-    await supabase.from('payment_transactions').insert({
-      booking_id: booking.id,
-      owner_id: apartment.owner_id,
-      tenant_id: userId,
-      provider: 'stripe',
-      provider_session_id: paymentIntent.id,
-      amount_huf: totalAmount,
-      currency: 'HUF',
-      status: 'pending',
-      metadata: {
-        apartment_id: apartmentId,
-        deposit_months: depositMonths,
-        first_month_rent: firstMonthRent,
-      },
-    });
-
-    // 7. Log success and return client secret to frontend
     logEvent('payment_intent_created', {
-      bookingId: booking.id,
-      apartmentId,
-      amount: totalAmount,
+      bookingId,
+      apartmentId: lease.apartmentId,
+      amount: lease.firstPaymentHuf,
     });
-
     logResponse('POST', '/api/payments/create-intent', 200, Date.now() - startTime);
 
     return NextResponse.json({
-      clientSecret: paymentIntent.client_secret,
-      bookingId: booking.id,
-      amount: totalAmount,
+      clientSecret,
+      bookingId,
+      amount: lease.firstPaymentHuf,
       breakdown: {
-        deposit: depositAmount,
-        firstMonth: firstMonthRent,
-        depositMonths,
+        deposit: lease.depositHuf,
+        firstMonth: lease.monthlyRentHuf,
+        depositMonths: lease.depositMonths,
       },
     });
   } catch (error: any) {
+    if (error instanceof LeaseError) {
+      logResponse('POST', '/api/payments/create-intent', error.status, Date.now() - startTime);
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     logError(error, {
       api_route: 'payment_intent',
-      apartmentId: body?.apartmentId,
-      userId: body?.userId,
+      bookingId,
     });
-
-    // Sentry.captureException(error, {
-    //   tags: { api_route: 'payment_intent' },
-    //   extra: { apartmentId: body?.apartmentId, userId: body?.userId },
-    // }); // Temporarily disabled due to parsing error
-
     logResponse('POST', '/api/payments/create-intent', 500, Date.now() - startTime);
 
     return NextResponse.json(
-      { error: 'Payment initialization failed', details: error.message },
+      { error: 'Payment initialization failed' },
       { status: 500 }
     );
   }
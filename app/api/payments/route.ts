@@ -1,22 +1,13 @@
 // Payments API for Student Apartments
-// Handles booking creation, payment processing, and Stripe webhooks
+// Handles booking creation and lookup; Stripe events arrive at /api/webhooks/stripe
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabaseClient';
 import { paymentsService } from '@/services/payments-svc';
-import { z } from 'zod';
-import Stripe from 'stripe';
+import { LeaseError } from '@/services/payments-svc/lease';
+import { bookingSchema } from '@/lib/validation/schemas';
 import { logger } from '@/lib/logger';
 
-// Booking creation schema
-const bookingRequestSchema = z.object({
-  apartmentId: z.string().uuid(),
-  checkInDate: z.string().datetime(),
-  checkOutDate: z.string().datetime(),
-  guestCount: z.number().min(1).max(10),
-  specialRequests: z.string().optional(),
-});
-
-// Create booking endpoint
+// Request a lease; the owner accepts and the tenant signs and pays later
 export async function POST(request: NextRequest) {
   try {
     const supabase = createClient();
@@ -30,41 +21,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const body = await request.json();
-
-    // Validate request
-    const validatedData = bookingRequestSchema.parse(body);
-    const { apartmentId, checkInDate, checkOutDate, guestCount, specialRequests } = validatedData;
+    const validation = bookingSchema.safeParse(await request.json().catch(() => null));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid booking parameters', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
 
-    // Create booking
     const booking = await paymentsService.createBooking({
-      apartmentId,
+      ...validation.data,
       tenantId: user.id,
-      checkInDate: new Date(checkInDate),
-      checkOutDate: new Date(checkOutDate),
-      guestCount,
-      specialRequests,
     });
 
-    return NextResponse.json({
-      booking,
-      paymentIntent: {
-        clientSecret: booking.paymentIntentId, // This should be the client secret from the payment intent
-      },
-    });
+    return NextResponse.json({ booking }, { status: 201 });
 
   } catch (error) {
-    logger.error({ error }, 'Booking creation error');
-
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: 'Invalid booking parameters', details: error.issues },
-        { status: 400 }
-      );
+    if (error instanceof LeaseError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
     }
-
+    logger.error({ error }, 'Booking creation error');
     return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to create booking' },
+      { error: 'Failed to create booking' },
       { status: 500 }
     );
   }
@@ -122,51 +100,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
-// Stripe webhook handler
-export async function PUT(request: NextRequest) {
-  try {
-    const body = await request.text();
-    const sig = request.headers.get('stripe-signature');
-
-    if (!sig) {
-      return NextResponse.json(
-        { error: 'Missing Stripe signature' },
-        { status: 400 }
-      );
-    }
-
-    // Verify webhook signature
-    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-      apiVersion: '2024-11-20.acacia' as Stripe.LatestApiVersion,
-    });
-
-    let event: Stripe.Event;
-
-    try {
-      event = stripe.webhooks.constructEvent(
-        body,
-        sig,
-        process.env.STRIPE_WEBHOOK_SECRET!
-      );
-    } catch (err) {
-      logger.error({ err }, 'Webhook signature verification failed');
-      return NextResponse.json(
-        { error: 'Invalid signature' },
-        { status: 400 }
-      );
-    }
-
-    // Handle the event
-    await paymentsService.handleWebhook(event);
-
-    return NextResponse.json({ received: true });
-
-  } catch (error) {
-    logger.error({ error }, 'Webhook processing error');
-    return NextResponse.json(
-      { error: 'Webhook processing failed' },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
@@ -1,18 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/utils/supabaseClient';
-import { pricingService } from '@/services/pricing-svc';
+import { HEATING_TYPES, districtNumber, rentModelService, type HeatingType, type RentQuery } from '@/services/pricing-svc/model';
 import { logger } from '@/lib/logger';
 
 /**
  * GET /api/pricing/estimate
- * Get price estimation for an apartment based on hedonic pricing
+ * Get price estimation for an apartment from the hedonic rent model
  * 
  * Query params:
  * - apartmentId?: string (existing apartment for comparison)
  * - bedrooms?: number
  * - bathrooms?: number
- * - district?: string
+ * - district?: string (1-23 or Roman numeral)
  * - size_sqm?: number
+ * - floor?: number
+ * - elevator?: boolean
+ * - furnished?: boolean
+ * - heating?: district | gas_central | gas_convector | electric | heat_pump
  * - amenities?: string[] (comma-separated)
  */
 export async function GET(request: NextRequest) {
@@ -25,81 +29,85 @@ export async function GET(request: NextRequest) {
     const bathrooms = searchParams.get('bathrooms') ? parseInt(searchParams.get('bathrooms')!) : undefined;
     const district = searchParams.get('district') || undefined;
     const size_sqm = searchParams.get('size_sqm') ? parseFloat(searchParams.get('size_sqm')!) : undefined;
+    const floor = searchParams.get('floor') ? parseInt(searchParams.get('floor')!) : undefined;
+    const elevator = searchParams.get('elevator') ? searchParams.get('elevator') === 'true' : undefined;
+    const furnished = searchParams.get('furnished') ? searchParams.get('furnished') === 'true' : undefined;
+    const heatingParam = searchParams.get('heating');
+    const heating = HEATING_TYPES.find((type) => type === heatingParam) as HeatingType | undefined;
     const amenitiesParam = searchParams.get('amenities');
     const amenities = amenitiesParam ? amenitiesParam.split(',') : undefined;
 
-    // If apartmentId provided, fetch apartment details
-    let apartment = null;
-    if (apartmentId) {
-      const { data, error } = await supabase
-        .from('apartments')
-        .select('*')
-        .eq('id', apartmentId)
-        .single();
-
-      if (error) {
-        return NextResponse.json({ error: 'Apartment not found' }, { status: 404 });
-      }
-      apartment = data;
+    // If apartmentId provided, start from the apartment's own features
+    const listed = apartmentId ? await rentModelService.estimateForApartment(apartmentId) : null;
+    if (apartmentId && !listed) {
+      return NextResponse.json({ error: 'Apartment not found' }, { status: 404 });
     }
 
-    // Prepare pricing input
-    const pricingInput = {
-      bedrooms: bedrooms || apartment?.bedrooms || 1,
-      bathrooms: bathrooms || apartment?.bathrooms || 1,
-      district: district || apartment?.district || 'budapest',
-      size_sqm: size_sqm || apartment?.size_sqm || 50,
-      amenities: amenities || apartment?.amenities || [],
+    const districtNo = district ? districtNumber(district) : listed?.features.district;
+    if (!districtNo) {
+      return NextResponse.json({ error: 'District must be a number between 1 and 23' }, { status: 400 });
+    }
+
+    const query: RentQuery = {
+      ...listed?.features,
+      district: districtNo,
+      ...(bedrooms !== undefined && { bedrooms }),
+      ...(size_sqm !== undefined && { sizeSqm: size_sqm }),
+      ...(floor !== undefined && { floor }),
+      ...(elevator !== undefined && { hasElevator: elevator }),
+      ...(furnished !== undefined && { furnished }),
+      ...(heating !== undefined && { heating }),
+      ...(amenities !== undefined && { amenityCount: amenities.length }),
     };
 
-    // Calculate estimated price
-    const estimatedPrice = await pricingService.calculateOptimalPrice({
-      basePrice: pricingInput.size_sqm * 200, // HUF per sqm base
-      location: pricingInput.district,
-      rooms: pricingInput.bedrooms,
-      amenities: pricingInput.amenities,
-      condition: 'good',
-      commuteTime: 15,
-      marketDemand: 0.7,
-      seasonality: 0.8,
-      competition: 5,
-    });
+    const [estimate, quantiles] = await Promise.all([
+      rentModelService.estimate(query),
+      rentModelService.districtQuantiles(districtNo),
+    ]);
+
+    if (!estimate) {
+      return NextResponse.json(
+        { error: 'The rent model has not been trained yet' },
+        { status: 503 }
+      );
+    }
 
     // Get comparable apartments for market context
     const { data: comparables } = await supabase
       .from('apartments')
       .select('id, title, monthly_rent_huf, bedrooms, bathrooms, district, size_sqm')
-      .eq('district', pricingInput.district)
-      .eq('bedrooms', pricingInput.bedrooms)
+      .eq('district', String(district ?? districtNo))
+      .eq('bedrooms', query.bedrooms ?? 1)
       .order('monthly_rent_huf', { ascending: false })
       .limit(5);
 
-    // Calculate market stats
+    // Market stats from the nightly district quantiles
     const marketStats = {
-      district: pricingInput.district,
-      bedrooms: pricingInput.bedrooms,
-      avgPrice: comparables?.length
-        ? Math.round(comparables.reduce((sum: number, apt: any) => sum + (apt.monthly_rent_huf || 0), 0) / comparables.length)
-        : null,
-      minPrice: comparables?.length
-        ? Math.min(...comparables.map((apt: any) => apt.monthly_rent_huf || 0))
-        : null,
-      maxPrice: comparables?.length
-        ? Math.max(...comparables.map((apt: any) => apt.monthly_rent_huf || 0))
-        : null,
-      listingCount: comparables?.length || 0,
+      district: districtNo,
+      bedrooms: query.bedrooms ?? 1,
+      bathrooms: bathrooms ?? null,
+      medianPrice: quantiles?.p50Huf ?? null,
+      minPrice: quantiles?.p10Huf ?? null,
+      maxPrice: quantiles?.p90Huf ?? null,
+      pricePerSqm: quantiles?.medianPricePerSqmHuf ?? null,
+      trend: quantiles?.trend ?? 'stable',
+      listingCount: quantiles?.listings ?? 0,
     };
 
     // Calculate if estimated price is above/below market
     const pricingAnalysis = {
-      estimatedPrice: Math.round(estimatedPrice.suggestedPrice),
-      marketAverage: marketStats.avgPrice,
-      pricePerSqm: Math.round(estimatedPrice.suggestedPrice / pricingInput.size_sqm),
-      marketPercentile: marketStats.avgPrice
-        ? Math.round(((estimatedPrice.suggestedPrice - (marketStats.minPrice || 0)) / ((marketStats.maxPrice || estimatedPrice.suggestedPrice) - (marketStats.minPrice || 0))) * 100)
+      estimatedPrice: estimate.estimateHuf,
+      range: { min: estimate.lowHuf, max: estimate.highHuf },
+      currentPrice: listed?.rentHuf ?? null,
+      marketAverage: marketStats.medianPrice,
+      pricePerSqm: estimate.pricePerSqmHuf,
+      marketPercentile: marketStats.medianPrice
+        ? Math.round(((estimate.estimateHuf - (marketStats.minPrice || 0)) / ((marketStats.maxPrice || estimate.estimateHuf) - (marketStats.minPrice || 0))) * 100)
         : null,
-      recommendation: calculateRecommendation(estimatedPrice.suggestedPrice, marketStats.avgPrice),
-      competitiveness: calculateCompetitiveness(estimatedPrice.suggestedPrice, marketStats.avgPrice, marketStats.minPrice, marketStats.maxPrice),
+      recommendation: calculateRecommendation(estimate.estimateHuf, marketStats.medianPrice),
+      competitiveness: calculateCompetitiveness(estimate.estimateHuf, marketStats.medianPrice, marketStats.minPrice, marketStats.maxPrice),
+      modelVersion: estimate.modelVersion,
+      confidence: estimate.confidence,
     };
 
     return NextResponse.json({
@@ -7,6 +7,7 @@ import { logger } from '@/lib/logger';
 // Types for ranking
 interface ApartmentOwner {
   verified: boolean;
+  universityVerified?: boolean;
 }
 
 interface ApartmentMetrics {
@@ -37,20 +38,27 @@ interface DbMetrics {
   floor: number | null;
   has_elevator: boolean | null;
   furnished: boolean | null;
-  media_quality_score: number | null;
-  completeness_score: number | null;
+  media_quality_score: number | string | null;
+  completeness_score: number | string | null;
   suggested_price: number | null;
   market_average: number | null;
   favorite_count: number | null;
   message_count: number | null;
 }
 
+// numeric columns come back from pg as strings
+function toScore(value: number | string | null | undefined, fallback = 0.6): number {
+  const score = value === null || value === undefined ? NaN : Number(value);
+  return Number.isFinite(score) ? score : fallback;
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const { searchResults, userPreferences, userId } = await request.json() as {
+    const { searchResults, userPreferences, userId, searchSessionId } = await request.json() as {
       searchResults: SearchResult[];
       userPreferences: Record<string, unknown>;
       userId?: string;
+      searchSessionId?: string;
     };
 
     if (!searchResults || !userPreferences) {
@@ -138,9 +146,10 @@ export async function POST(request: NextRequest) {
         district: String(result.apartment.district),
         amenities: result.apartment.amenities,
         verified: result.apartment.owner.verified,
-        mediaScore: typeof searchMetrics.mediaQuality === 'number' ? searchMetrics.mediaQuality : metrics.media_quality_score ?? 0.6,
+        universityVerified: result.apartment.owner.universityVerified ?? false,
+        mediaScore: typeof searchMetrics.mediaQuality === 'number' ? searchMetrics.mediaQuality : toScore(metrics.media_quality_score),
         completenessScore:
-          typeof searchMetrics.completeness === 'number' ? searchMetrics.completeness : metrics.completeness_score ?? 0.6,
+          typeof searchMetrics.completeness === 'number' ? searchMetrics.completeness : toScore(metrics.completeness_score),
         commuteTime: searchMetrics.commuteMinutes ?? null,
         marketValue,
         engagement: {
@@ -155,7 +164,13 @@ export async function POST(request: NextRequest) {
     });
 
     // Rank apartments
-    const rankingResults = await rankingService.rankApartments(apartments, userPreferences);
+    // Impressions are logged with positions for weight training
+    const rankingResults = await rankingService.rankApartments(apartments, userPreferences, {
+      userId,
+      experimentId: rankingVariant ? 'ranking_algorithm_v1' : undefined,
+      variantId: rankingVariant || undefined,
+      searchSessionId,
+    });
 
     // Calculate statistics
     const scores = rankingResults.map((r) => r.score);
@@ -204,7 +219,7 @@ export async function POST(request: NextRequest) {
 export async function GET() {
   return NextResponse.json({
     message: 'Apartment Ranking API',
-    usage: 'POST with { searchResults, userPreferences, userId? }',
+    usage: 'POST with { searchResults, userPreferences, userId?, searchSessionId? }',
     experiments: ['ranking_algorithm_v1', 'search_display_v1'],
   });
 }
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { z } from 'zod';
 import { logger } from '@/lib/logger';
+import { trustSafetyService } from '@/services/trust-safety-svc';
 
 // Create a simple supabase client for API routes (no cookie-based auth needed for GET requests)
 function getSupabaseClient() {
@@ -314,6 +315,15 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Reviews are pending anyway; flagged ones land in the moderation queue first
+    await trustSafetyService.classifyContent(
+      {
+        text: [reviewData.title, reviewData.content, ...reviewData.pros, ...reviewData.cons].join('\n'),
+        contentType: 'review',
+      },
+      { authorId: user.id, contentId: review.id, apartmentId: reviewData.apartmentId }
+    );
+
     // Trigger analytics recalculation
     await supabase.rpc('recalculate_review_analytics', {
       target_apartment_id: reviewData.apartmentId
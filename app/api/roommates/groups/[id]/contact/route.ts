@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { RoommateError, roommateService } from '@/services/roommate-svc';
+
+const contactSchema = z.object({ apartmentId: z.string().uuid() });
+
+/**
+ * @swagger
+ * /api/roommates/groups/{id}/contact:
+ *   post:
+ *     summary: Contact an owner as a group
+ *     description: Opens the group's conversation about a shortlisted listing more than half of the members voted for, with every active member as a participant. Send the first message through /api/messages with the returned conversationId.
+ *     tags: [Roommates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The conversation id and its participants
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: No such group, or the listing is not on the shortlist
+ *       409:
+ *         description: The group has not agreed on the listing
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const validation = contactSchema.safeParse(await request.json().catch(() => null));
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await roommateService.contactOwner(params.id, user.id, validation.data.apartmentId));
+  } catch (error) {
+    if (error instanceof RoommateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error({ error, groupId: params.id }, 'Roommate group contact failed');
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { RoommateError, roommateService } from '@/services/roommate-svc';
+
+const inviteSchema = z.object({ userId: z.string().uuid() });
+const respondSchema = z.object({ accept: z.boolean() });
+
+function errorResponse(error: unknown, context: Record<string, unknown>) {
+  if (error instanceof RoommateError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  logger.error({ error, ...context }, 'Roommate group membership error');
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+/**
+ * @swagger
+ * /api/roommates/groups/{id}/members:
+ *   post:
+ *     summary: Invite a student to the group
+ *     description: Active members invite, e.g. someone from their roommate matches, while the group has seats left.
+ *     tags: [Roommates]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Invitation sent
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: Group full or closed, or the student is already in it
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const validation = inviteSchema.safeParse(await request.json().catch(() => null));
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await roommateService.invite(params.id, user.id, validation.data.userId);
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, { groupId: params.id, userId: user.id });
+  }
+}
+
+/**
+ * @swagger
+ * /api/roommates/groups/{id}/members:
+ *   put:
+ *     summary: Accept or decline an invitation
+ *     tags: [Roommates]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The group when accepted
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: No pending invitation
+ */
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const validation = respondSchema.safeParse(await request.json().catch(() => null));
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const view = await roommateService.respond(params.id, user.id, validation.data.accept);
+    return NextResponse.json(view ?? { success: true });
+  } catch (error) {
+    return errorResponse(error, { groupId: params.id, userId: user.id });
+  }
+}
+
+/**
+ * @swagger
+ * /api/roommates/groups/{id}/members:
+ *   delete:
+ *     summary: Leave the group
+ *     description: The last active member to leave closes the group.
+ *     tags: [Roommates]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Left the group
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Not in this group
+ */
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    await roommateService.leave(params.id, user.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, { groupId: params.id, userId: user.id });
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import type { SearchGoal } from '@/components/SearchGoalCard';
+import { RoommateError, roommateService } from '@/services/roommate-svc';
+
+const updateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  searchGoal: z.record(z.string(), z.unknown()).optional(),
+  status: z.enum(['forming', 'searching', 'closed']).optional(),
+});
+
+/**
+ * @swagger
+ * /api/roommates/groups/{id}:
+ *   get:
+ *     summary: A roommate group
+ *     description: Members, the shared search goal (occupancy, budget and districts filled in from the members' profiles) and the shortlist with votes.
+ *     tags: [Roommates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The group
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: No such group, or the user is not in it
+ */
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await roommateService.getGroup(params.id, user.id));
+  } catch (error) {
+    if (error instanceof RoommateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error({ error, groupId: params.id }, 'Roommate group lookup failed');
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * @swagger
+ * /api/roommates/groups/{id}:
+ *   patch:
+ *     summary: Update a roommate group
+ *     description: Rename the group, change its shared search goal or its status. Active members only.
+ *     tags: [Roommates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The updated group
+ *       400:
+ *         description: Invalid request data
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: No such group, or the user is not in it
+ */
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const validation = updateSchema.safeParse(await request.json().catch(() => null));
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const view = await roommateService.updateGroup(params.id, user.id, {
+      ...validation.data,
+      searchGoal: validation.data.searchGoal as Partial<SearchGoal> | undefined,
+    });
+    return NextResponse.json(view);
+  } catch (error) {
+    if (error instanceof RoommateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error({ error, groupId: params.id }, 'Roommate group update failed');
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { RoommateError, roommateService } from '@/services/roommate-svc';
+
+const voteSchema = z.object({ vote: z.union([z.literal(1), z.literal(-1)]) });
+
+type RouteParams = { params: { id: string; apartmentId: string } };
+
+function errorResponse(error: unknown, context: Record<string, unknown>) {
+  if (error instanceof RoommateError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  logger.error({ error, ...context }, 'Roommate shortlist error');
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+/**
+ * @swagger
+ * /api/roommates/groups/{id}/shortlist/{apartmentId}:
+ *   put:
+ *     summary: Vote on a shortlisted listing
+ *     description: One vote per member, +1 or -1; voting again replaces the vote. A listing more than half of the members voted for can be contacted as a group.
+ *     tags: [Roommates]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The shortlist with votes
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Not on the shortlist
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const validation = voteSchema.safeParse(await request.json().catch(() => null));
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const shortlist = await roommateService.vote(params.id, user.id, params.apartmentId, validation.data.vote);
+    return NextResponse.json({ shortlist });
+  } catch (error) {
+    return errorResponse(error, { groupId: params.id, apartmentId: params.apartmentId });
+  }
+}
+
+/**
+ * @swagger
+ * /api/roommates/groups/{id}/shortlist/{apartmentId}:
+ *   delete:
+ *     summary: Remove a listing from the shortlist
+ *     description: Whoever added the listing or the group's creator.
+ *     tags: [Roommates]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Removed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Neither the member who added it nor the creator
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    await roommateService.removeFromShortlist(params.id, user.id, params.apartmentId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, { groupId: params.id, apartmentId: params.apartmentId });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { RoommateError, roommateService } from '@/services/roommate-svc';
+
+const addSchema = z.object({
+  apartmentId: z.string().uuid(),
+  note: z.string().trim().max(500).nullable().default(null),
+});
+
+/**
+ * @swagger
+ * /api/roommates/groups/{id}/shortlist:
+ *   post:
+ *     summary: Add a listing to the group shortlist
+ *     description: Published listings only; adding a listing counts as the member's vote for it.
+ *     tags: [Roommates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       201:
+ *         description: The shortlist with votes
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: No such group or listing
+ *       409:
+ *         description: Already on the shortlist
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const validation = addSchema.safeParse(await request.json().catch(() => null));
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const shortlist = await roommateService.addToShortlist(
+      params.id,
+      user.id,
+      validation.data.apartmentId,
+      validation.data.note || null
+    );
+    return NextResponse.json({ shortlist }, { status: 201 });
+  } catch (error) {
+    if (error instanceof RoommateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error({ error, groupId: params.id }, 'Roommate shortlist update failed');
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
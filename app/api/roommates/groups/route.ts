@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import type { SearchGoal } from '@/components/SearchGoalCard';
+import { MAX_GROUP_SIZE, MIN_GROUP_SIZE, RoommateError, roommateService } from '@/services/roommate-svc';
+
+const createSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  maxMembers: z.number().int().min(MIN_GROUP_SIZE).max(MAX_GROUP_SIZE).default(3),
+  // Normalised by the service like any SearchGoal from a client
+  searchGoal: z.record(z.string(), z.unknown()).optional(),
+});
+
+/**
+ * @swagger
+ * /api/roommates/groups:
+ *   get:
+ *     summary: The user's roommate groups
+ *     description: Groups the user belongs to or is invited to.
+ *     tags: [Roommates]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Groups with their members
+ *       401:
+ *         description: Unauthorized
+ */
+export async function GET() {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json({ groups: await roommateService.listGroups(user.id) });
+  } catch (error) {
+    logger.error({ error, userId: user.id }, 'Roommate group listing failed');
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * @swagger
+ * /api/roommates/groups:
+ *   post:
+ *     summary: Start a roommate group
+ *     description: Creates a group of 2-6 with the user as its first member and an optional shared search goal.
+ *     tags: [Roommates]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Created group
+ *       400:
+ *         description: Invalid request data
+ *       401:
+ *         description: Unauthorized
+ */
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const validation = createSchema.safeParse(await request.json().catch(() => null));
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const group = await roommateService.createGroup(user.id, {
+      name: validation.data.name,
+      maxMembers: validation.data.maxMembers,
+      searchGoal: validation.data.searchGoal as Partial<SearchGoal> | undefined,
+    });
+    return NextResponse.json({ group }, { status: 201 });
+  } catch (error) {
+    if (error instanceof RoommateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error({ error, userId: user.id }, 'Roommate group creation failed');
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { MAX_MATCHES, RoommateError, roommateService } from '@/services/roommate-svc';
+
+/**
+ * @swagger
+ * /api/roommates/matches:
+ *   get:
+ *     summary: Compatible roommates
+ *     description: Students looking for roommates, ranked by a 0-100 compatibility score with its factors and any dealbreakers (smoking, pets).
+ *     tags: [Roommates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           maximum: 20
+ *     responses:
+ *       200:
+ *         description: Ranked matches
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: The user has no roommate profile yet
+ */
+export async function GET(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const limit = Math.min(MAX_MATCHES, Math.max(1, Number(request.nextUrl.searchParams.get('limit')) || MAX_MATCHES));
+
+  try {
+    return NextResponse.json({ matches: await roommateService.matches(user.id, limit) });
+  } catch (error) {
+    if (error instanceof RoommateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error({ error, userId: user.id }, 'Roommate matching failed');
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
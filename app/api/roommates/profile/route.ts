@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { RoommateError, roommateService } from '@/services/roommate-svc';
+
+const trait = z.number().min(0).max(1);
+
+const profileSchema = z.object({
+  budgetMinHuf: z.number().int().nonnegative().nullable().default(null),
+  budgetMaxHuf: z.number().int().positive(),
+  schedule: z.enum(['early_bird', 'night_owl', 'flexible']).default('flexible'),
+  cleanliness: z.number().int().min(1).max(5).default(3),
+  smoking: z.enum(['non_smoker', 'outside_only', 'smoker']).default('non_smoker'),
+  acceptsSmokers: z.boolean().default(false),
+  hasPets: z.boolean().default(false),
+  acceptsPets: z.boolean().default(true),
+  languages: z.array(z.string().min(2).max(30)).max(10).default([]),
+  districts: z.array(z.number().int().min(1).max(23)).max(23).default([]),
+  personality: z
+    .object({ openness: trait, conscientiousness: trait, extraversion: trait, agreeableness: trait, neuroticism: trait })
+    .nullable()
+    .optional(),
+  bio: z.string().max(1000).nullable().default(null),
+  looking: z.boolean().default(true),
+});
+
+/**
+ * @swagger
+ * /api/roommates/profile:
+ *   get:
+ *     summary: Own roommate profile
+ *     tags: [Roommates]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The profile, or null when there is none yet
+ *       401:
+ *         description: Unauthorized
+ */
+export async function GET() {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json({ profile: await roommateService.getProfile(user.id) });
+  } catch (error) {
+    logger.error({ error, userId: user.id }, 'Roommate profile lookup failed');
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * @swagger
+ * /api/roommates/profile:
+ *   put:
+ *     summary: Create or update the roommate profile
+ *     description: Budget share, schedule, cleanliness, smoking, pets, languages and districts. Without personality traits the user's personality assessment is used.
+ *     tags: [Roommates]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Saved profile
+ *       400:
+ *         description: Invalid profile
+ *       401:
+ *         description: Unauthorized
+ */
+export async function PUT(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const validation = profileSchema.safeParse(await request.json().catch(() => null));
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const profile = await roommateService.saveProfile(user.id, validation.data);
+    return NextResponse.json({ profile });
+  } catch (error) {
+    if (error instanceof RoommateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error({ error, userId: user.id }, 'Roommate profile save failed');
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
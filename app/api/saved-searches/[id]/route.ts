@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabaseClient';
 import { logger } from '@/lib/logger';
+import { normalizeDistricts } from '@/services/search-svc/saved-search-alerts';
 
 // GET /api/saved-searches/[id] - Get a specific saved search
 export async function GET(
@@ -87,6 +88,7 @@ export async function PUT(
       maxPrice,
       bedrooms,
       bathrooms,
+      districts,
       minArea,
       maxArea,
       propertyTypes,
@@ -111,6 +113,7 @@ export async function PUT(
         max_price: maxPrice,
         bedrooms,
         bathrooms,
+        districts: normalizeDistricts(districts),
         min_area_sqft: minArea,
         max_area_sqft: maxArea,
         property_types: propertyTypes || [],
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabaseClient';
 import { logger } from '@/lib/logger';
+import { normalizeDistricts } from '@/services/search-svc/saved-search-alerts';
 
 // GET /api/saved-searches - Get user's saved searches
 export async function GET(request: NextRequest) {
@@ -77,6 +78,7 @@ export async function POST(request: NextRequest) {
       maxPrice,
       bedrooms,
       bathrooms,
+      districts,
       minArea,
       maxArea,
       propertyTypes,
@@ -101,6 +103,7 @@ export async function POST(request: NextRequest) {
         max_price: maxPrice,
         bedrooms,
         bathrooms,
+        districts: normalizeDistricts(districts),
         min_area_sqft: minArea,
         max_area_sqft: maxArea,
         property_types: propertyTypes || [],
@@ -2,6 +2,7 @@
 // Handles structured search, Meilisearch integration, and semantic search
 import { NextRequest, NextResponse } from 'next/server';
 import { searchService } from '@/services/search-svc';
+import { parseDepartAt } from '@/lib/gtfs/timetable';
 import { z } from 'zod';
 import { rankingService } from '@/services/ranking-svc';
 import { personalizationService } from '@/services/personalization-svc';
@@ -142,6 +143,13 @@ const searchRequestSchema = z.object({
     district: z.string().optional(),
     amenities: z.array(z.string()).optional(),
     maxCommuteMinutes: z.number().optional(),
+    commuteOrigin: z.object({
+      universityId: z.string().optional(),
+      lat: z.number().optional(),
+      lng: z.number().optional(),
+    }).optional(),
+    commuteMode: z.enum(['walking', 'bicycling', 'transit', 'driving']).optional(),
+    departAt: z.string().optional(),
     university: z.string().optional(),
     furnished: z.boolean().optional(),
     petsAllowed: z.boolean().optional(),
@@ -175,6 +183,13 @@ export async function POST(request: NextRequest) {
       userId,
     } = validatedData;
 
+    const departAt = filters.departAt ? parseDepartAt(filters.departAt) : undefined;
+    if (departAt === null) {
+      return NextResponse.json({
+        error: 'Invalid departAt: use an ISO timestamp, "HH:MM" or "<weekday> HH:MM"'
+      }, { status: 400 });
+    }
+
     // Check cache first
     const queryHash = createSearchQueryHash(validatedData);
     const cachedResults = await getCachedSearchResults(queryHash);
@@ -198,7 +213,13 @@ export async function POST(request: NextRequest) {
         radius: location.radiusKm ? location.radiusKm * 1000 : 5000, // Convert km to meters
       } : undefined,
       university: filters.university,
-      maxCommute: filters.maxCommuteMinutes,
+      // With an explicit origin the commute limit is applied as an isochrone in
+      // SQL instead of against cached per-apartment commutes
+      maxCommute: filters.commuteOrigin ? undefined : filters.maxCommuteMinutes,
+      maxCommuteMinutes: filters.commuteOrigin ? filters.maxCommuteMinutes : undefined,
+      commuteOrigin: filters.commuteOrigin,
+      commuteMode: filters.commuteMode,
+      departAt,
       sortBy: sortBy as 'relevance' | 'price_asc' | 'price_desc' | 'distance' | 'newest',
       limit,
       offset,
@@ -94,6 +94,7 @@ export async function POST(request: NextRequest) {
         const scoringResult = await batchScoringService.scoreApartmentBatch(
           results,
           userProfile,
+          { userId },
         );
 
         aiScoringMs = Date.now() - aiScoringStart;
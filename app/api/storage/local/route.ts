@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentStorage, StorageError } from '@/lib/storage';
+import { LocalStorageAdapter, verifyLocalSignature } from '@/lib/storage/adapters/local';
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+};
+
+/**
+ * GET /api/storage/local
+ * Serves a file from the local storage driver for a signed URL. Only exists
+ * in development (STORAGE_DRIVER=local); Supabase signs its own URLs.
+ */
+export async function GET(request: NextRequest) {
+  const storage = getDocumentStorage();
+  if (!(storage instanceof LocalStorageAdapter)) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const key = params.get('key') ?? '';
+  const expires = Number(params.get('expires'));
+  const signature = params.get('signature') ?? '';
+
+  if (!verifyLocalSignature(key, expires, signature, storage.signingSecret)) {
+    return NextResponse.json({ error: 'Link expired or invalid' }, { status: 403 });
+  }
+
+  try {
+    const body = await storage.get(key);
+    const extension = key.split('.').pop()?.toLowerCase() ?? '';
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[extension] ?? 'application/octet-stream',
+        'Cache-Control': 'private, no-store',
+        'Content-Disposition': 'inline',
+      },
+    });
+  } catch (error) {
+    if (error instanceof StorageError) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    throw error;
+  }
+}
@@ -1,112 +1,174 @@
-/**
- * PUT /api/verification/review
- * Review and update verification status (Admin only)
- */
-
 import { NextRequest, NextResponse } from 'next/server';
-import { getSupabaseClient } from '@/lib/supabase-build-safe';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
 import { logger } from '@/lib/logger';
+import {
+  DocumentReviewError,
+  verificationDocumentService,
+  type VerificationDocument,
+} from '@/services/verification-svc/documents';
 
-function getSupabase() {
-  return getSupabaseClient();
-}
+const queueSchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected', 'more_info_requested']).default('pending'),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
 
-export async function PUT(request: NextRequest) {
-  try {
-    const supabase = getSupabase();
-    const body = await request.json();
-    const { verificationId, status, reviewerNotes, rejectionReason } = body;
+const requestSchema = z.object({
+  documentId: z.string().uuid(),
+  action: z.enum(['approve', 'reject', 'request_more_info']),
+  notes: z.string().max(2000).optional(),
+  // Shown to the user; required for reject and request_more_info
+  reason: z.string().max(1000).optional(),
+});
 
-    // Validate required fields
-    if (!verificationId || !status) {
-      return NextResponse.json(
-        { success: false, error: 'Missing required fields' },
-        { status: 400 }
-      );
-    }
+function errorResponse(error: unknown, context: Record<string, unknown>) {
+  if (error instanceof DocumentReviewError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  logger.error({ error, ...context }, 'Verification review error');
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
 
-    // Validate status
-    const validStatuses = ['approved', 'rejected', 'pending'];
-    if (!validStatuses.includes(status)) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid status' },
-        { status: 400 }
-      );
-    }
+async function requireAdmin(supabase: ReturnType<typeof createClient>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
 
-    // Check authentication and admin role
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-    if (authError || !user) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
 
-    // Check if user is admin
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('role')
-      .eq('id', user.id)
-      .single();
+  if (!profile || profile.role !== 'admin') {
+    return { response: NextResponse.json({ error: 'Admin access required' }, { status: 403 }) };
+  }
+  return { user };
+}
 
-    if (!profile || profile.role !== 'admin') {
-      return NextResponse.json(
-        { success: false, error: 'Admin access required' },
-        { status: 403 }
-      );
-    }
+// Storage keys and hashes stay server-side; reviewers open files through signed URLs
+function toReviewItem(document: VerificationDocument) {
+  const { storageKey, storageDriver, sha256, ...item } = document;
+  return { ...item, hasFile: storageKey !== null };
+}
 
-    // Update verification
-    const updateData: any = {
-      status,
-      reviewed_at: new Date().toISOString(),
-      reviewed_by: user.id,
-    };
+/**
+ * @swagger
+ * /api/verification/review:
+ *   get:
+ *     summary: Verification review queue (admin)
+ *     description: Without documentId lists documents by status, oldest pending first, with counts per status. With documentId returns the document and a signed URL to the file valid for five minutes; every issued URL is audited.
+ *     tags: [Verification]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: documentId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected, more_info_requested]
+ *     responses:
+ *       200:
+ *         description: Queue page or a single document with its signed URL
+ *       403:
+ *         description: Admin access required
+ */
+export async function GET(request: NextRequest) {
+  const supabase = createClient();
+  const auth = await requireAdmin(supabase);
+  if (!auth.user) return auth.response;
 
-    if (reviewerNotes) {
-      updateData.reviewer_notes = reviewerNotes;
-    }
+  const params = request.nextUrl.searchParams;
+  const documentId = params.get('documentId');
 
-    if (status === 'rejected' && rejectionReason) {
-      updateData.rejection_reason = rejectionReason;
+  try {
+    if (documentId) {
+      if (!z.string().uuid().safeParse(documentId).success) {
+        return NextResponse.json({ error: 'Valid documentId required' }, { status: 400 });
+      }
+      const { document, url, expiresAt } = await verificationDocumentService.signedUrl(documentId, {
+        id: auth.user.id,
+        role: 'admin',
+      });
+      return NextResponse.json({ document: toReviewItem(document), url, expiresAt });
     }
 
-    const { data: verification, error } = await supabase
-      .from('verification')
-      .update(updateData)
-      .eq('id', verificationId)
-      .select()
-      .single();
-
-    if (error) {
-      logger.error({ error, verificationId }, 'Verification review update failed');
+    const validation = queueSchema.safeParse(Object.fromEntries(params));
+    if (!validation.success) {
       return NextResponse.json(
-        { success: false, error: 'Failed to update verification' },
-        { status: 500 }
+        { error: 'Invalid request data', details: validation.error.issues },
+        { status: 400 }
       );
     }
 
-    // If approved, update user verification status
-    if (status === 'approved') {
-      await supabase
-        .from('profiles')
-        .update({
-          verification_status: 'verified',
-          verified_at: new Date().toISOString(),
-        })
-        .eq('id', verification.user_id);
-    }
-
-    return NextResponse.json({
-      success: true,
-      verification,
-    });
+    const { status, limit, offset } = validation.data;
+    const { documents, counts } = await verificationDocumentService.reviewQueue(status, limit, offset);
+    return NextResponse.json({ documents: documents.map(toReviewItem), counts });
   } catch (error) {
-    logger.error({ error }, 'Verification review error');
+    return errorResponse(error, { documentId, reviewerId: auth.user.id });
+  }
+}
+
+/**
+ * @swagger
+ * /api/verification/review:
+ *   put:
+ *     summary: Decide on a verification document (admin)
+ *     description: Approves, rejects or asks the user for more information about a pending document. The user is notified; ID documents are deleted from storage and their extracted data redacted after the retention period.
+ *     tags: [Verification]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [documentId, action]
+ *             properties:
+ *               documentId:
+ *                 type: string
+ *                 format: uuid
+ *               action:
+ *                 type: string
+ *                 enum: [approve, reject, request_more_info]
+ *               notes:
+ *                 type: string
+ *                 description: Internal reviewer notes
+ *               reason:
+ *                 type: string
+ *                 description: Shown to the user; required unless approving
+ *     responses:
+ *       200:
+ *         description: Updated document
+ *       409:
+ *         description: Document was already decided
+ */
+export async function PUT(request: NextRequest) {
+  const supabase = createClient();
+  const auth = await requireAdmin(supabase);
+  if (!auth.user) return auth.response;
+
+  const validation = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!validation.success) {
     return NextResponse.json(
-      { success: false, error: 'Internal server error' },
-      { status: 500 }
+      { error: 'Invalid request data', details: validation.error.issues },
+      { status: 400 }
     );
   }
-}
\ No newline at end of file
+
+  const { documentId, action, notes, reason } = validation.data;
+  try {
+    const document = await verificationDocumentService.review(auth.user.id, documentId, action, { notes, reason });
+    return NextResponse.json({ success: true, document: toReviewItem(document) });
+  } catch (error) {
+    return errorResponse(error, { documentId, action, reviewerId: auth.user.id });
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import {
+  UniversityVerificationError,
+  universityEmailVerificationService,
+} from '@/services/verification-svc/university-email';
+
+const requestSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('start'),
+    email: z.string().email().max(254),
+  }),
+  z.object({
+    action: z.literal('confirm'),
+    code: z.string().regex(/^\s*\d{3}\s?\d{3}\s*$/, 'Enter the 6-digit code'),
+  }),
+]);
+
+function errorResponse(error: unknown, context: Record<string, unknown>) {
+  if (error instanceof UniversityVerificationError) {
+    const headers: Record<string, string> = {};
+    if (error.details.retryAfterSeconds) {
+      headers['Retry-After'] = String(error.details.retryAfterSeconds);
+    }
+    return NextResponse.json(
+      { error: error.message, code: error.code, ...error.details },
+      { status: error.status, headers }
+    );
+  }
+  logger.error({ error, ...context }, 'University email verification error');
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+/**
+ * @swagger
+ * /api/verification/university:
+ *   get:
+ *     summary: University email verification status, or confirm a magic link
+ *     description: With `token` (from the verification email) confirms the challenge and redirects to the verification page; no session needed. Without it returns the caller's university verification status.
+ *     tags: [Verification]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Verification status
+ *       302:
+ *         description: Magic link handled, redirect to /verification
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token');
+
+  if (token) {
+    const target = new URL('/verification', request.nextUrl.origin);
+    try {
+      await universityEmailVerificationService.confirmToken(token);
+      target.searchParams.set('university', 'verified');
+    } catch (error) {
+      target.searchParams.set(
+        'university',
+        error instanceof UniversityVerificationError ? error.code : 'error'
+      );
+      if (!(error instanceof UniversityVerificationError)) {
+        logger.error({ error }, 'University magic link failed');
+      }
+    }
+    return NextResponse.redirect(target);
+  }
+
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const status = await universityEmailVerificationService.getStatus(user.id);
+    return NextResponse.json({ success: true, data: status });
+  } catch (error) {
+    return errorResponse(error, { userId: user.id });
+  }
+}
+
+/**
+ * @swagger
+ * /api/verification/university:
+ *   post:
+ *     summary: Start or confirm university email verification
+ *     description: "`start` emails a one-time code and magic link to a university address from the domain registry; `confirm` checks the code. Codes expire after 15 minutes and lock after 5 wrong attempts."
+ *     tags: [Verification]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Code sent or email verified
+ *       400:
+ *         description: Unsupported domain or wrong code
+ *       409:
+ *         description: Address already verified on another account
+ *       410:
+ *         description: Code expired or already used
+ *       429:
+ *         description: Too many codes requested or too many wrong attempts
+ */
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const validation = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const body = validation.data;
+  try {
+    if (body.action === 'start') {
+      const started = await universityEmailVerificationService.startChallenge(user.id, body.email);
+      return NextResponse.json({ success: true, data: started });
+    }
+
+    const verified = await universityEmailVerificationService.confirmCode(user.id, body.code);
+    return NextResponse.json({ success: true, data: verified });
+  } catch (error) {
+    return errorResponse(error, { userId: user.id, action: body.action });
+  }
+}
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabaseClient';
 import { logger } from '@/lib/logger';
+import {
+  DOCUMENT_TYPES,
+  DocumentReviewError,
+  MAX_DOCUMENT_BYTES,
+  verificationDocumentService,
+  type DocumentType,
+} from '@/services/verification-svc/documents';
 
 export async function POST(request: NextRequest) {
   try {
@@ -20,108 +27,46 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Missing file or document type' }, { status: 400 });
     }
 
-    // Validate file type and size
-    const allowedTypes = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
-    const maxSize = 10 * 1024 * 1024; // 10MB
-
-    if (!allowedTypes.includes(file.type)) {
-      return NextResponse.json({ error: 'Invalid file type. Only JPEG, PNG, WebP, and PDF are allowed.' }, { status: 400 });
+    if (!DOCUMENT_TYPES.includes(documentType as DocumentType)) {
+      return NextResponse.json({ error: 'Invalid document type' }, { status: 400 });
     }
 
-    if (file.size > maxSize) {
+    if (file.size > MAX_DOCUMENT_BYTES) {
       return NextResponse.json({ error: 'File too large. Maximum size is 10MB.' }, { status: 400 });
     }
 
-    // Upload file to Supabase Storage
-    const fileName = `verification/${user.id}/${documentType}_${Date.now()}.${file.name.split('.').pop()}`;
-    const { data: uploadData, error: uploadError } = await supabase.storage
-      .from('documents')
-      .upload(fileName, file, {
-        contentType: file.type,
-        upsert: false
-      });
-
-    if (uploadError) {
-      logger.error({ uploadError, userId: user.id }, 'Verification upload failed');
-      return NextResponse.json({ error: 'Failed to upload document' }, { status: 500 });
-    }
-
-    // Get public URL
-    const { data: { publicUrl } } = supabase.storage
-      .from('documents')
-      .getPublicUrl(fileName);
-
-    // Save verification record
-    const { error: insertError } = await supabase
-      .from('user_verifications')
-      .insert({
-        user_id: user.id,
-        document_type: documentType,
-        document_url: publicUrl,
-        status: 'pending',
-        submitted_at: new Date().toISOString(),
-      });
-
-    if (insertError) {
-      logger.error({ insertError, userId: user.id }, 'Verification DB insert failed');
-      // Clean up uploaded file if database insert fails
-      await supabase.storage.from('documents').remove([fileName]);
-      return NextResponse.json({ error: 'Failed to save verification record' }, { status: 500 });
-    }
-
-    // Perform AI-powered document analysis
-    const aiAnalysis = await performAIDocumentAnalysis(publicUrl, documentType, user.id);
-
-    // Update verification record with AI analysis results
-    const { error: analysisUpdateError } = await supabase
-      .from('user_verifications')
-      .update({
-        ai_analysis: aiAnalysis,
-        status: aiAnalysis.isValid ? 'approved' : 'pending',
-        reviewed_at: aiAnalysis.isValid ? new Date().toISOString() : undefined,
-        review_notes: aiAnalysis.isValid ? 'Auto-approved by AI analysis' : aiAnalysis.issues.join('; '),
-        updated_at: new Date().toISOString(),
-      })
-      .eq('user_id', user.id)
-      .eq('document_url', publicUrl);
-
-    if (analysisUpdateError) {
-      logger.error({ analysisUpdateError, userId: user.id }, 'AI analysis update failed');
-    }
+    // Stored in the private bucket; the file type is checked from its content
+    const document = await verificationDocumentService.upload(user.id, {
+      documentType: documentType as DocumentType,
+      fileName: file.name,
+      body: new Uint8Array(await file.arrayBuffer()),
+    });
 
-    // Update user profile based on AI analysis
-    if (aiAnalysis.isValid) {
-      const { error: profileUpdateError } = await supabase
-        .from('user_profiles')
-        .update({
-          identity_verified: documentType === 'id_card' || documentType === 'passport',
-          background_check_completed: documentType === 'background_check',
-          updated_at: new Date().toISOString()
-        })
-        .eq('user_id', user.id);
-
-      if (profileUpdateError) {
-        logger.error({ profileUpdateError, userId: user.id }, 'Profile update failed');
-      }
+    // AI analysis is advisory: it is shown to the reviewer, who makes the decision
+    const aiAnalysis = await performAIDocumentAnalysis(document.id, documentType, user.id);
+    if (aiAnalysis) {
+      await verificationDocumentService
+        .saveAnalysis(document.id, aiAnalysis, aiAnalysis.issues.length > 0 ? aiAnalysis.issues.join('; ') : null)
+        .catch((error) => logger.error({ error, userId: user.id }, 'AI analysis update failed'));
     }
 
-    const response = {
+    return NextResponse.json({
       success: true,
-      message: aiAnalysis.isValid
-        ? 'Document verified successfully using AI analysis.'
-        : 'Document uploaded. Manual review may be required.',
-      documentUrl: publicUrl,
-      aiAnalysis: {
+      message: 'Document uploaded. It will be reviewed within 1-2 business days.',
+      documentId: document.id,
+      status: document.status,
+      aiAnalysis: aiAnalysis && {
         isValid: aiAnalysis.isValid,
         confidence: aiAnalysis.confidence,
         issues: aiAnalysis.issues,
         recommendations: aiAnalysis.recommendations,
-      }
-    };
-
-    return NextResponse.json(response);
+      },
+    });
 
   } catch (error) {
+    if (error instanceof DocumentReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     logger.error({ error }, 'Verification upload error');
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
@@ -140,7 +85,7 @@ export async function GET(request: NextRequest) {
     // Get user's verification status
     const { data: verifications, error } = await supabase
       .from('user_verifications')
-      .select('*')
+      .select('id, document_type, status, file_name, decision_reason, submitted_at, reviewed_at, redacted_at')
       .eq('user_id', user.id)
       .order('submitted_at', { ascending: false });
 
@@ -205,7 +150,7 @@ function getVerificationRequirements(userType?: string) {
 
 // AI-powered document analysis function
 async function performAIDocumentAnalysis(
-  documentUrl: string,
+  documentId: string,
   documentType: string,
   userId: string
 ) {
@@ -251,5 +196,12 @@ async function performAIDocumentAnalysis(
     userId,
   } : { userId };
 
-  return await aiService.analyzeDocument(documentUrl, documentType, userContext);
+  try {
+    // The analyzer downloads the file itself; give it a link that outlives only the request
+    const { url } = await verificationDocumentService.signedUrl(documentId, { id: userId, role: 'system' }, 60);
+    return await aiService.analyzeDocument(url, documentType, userContext);
+  } catch (error) {
+    logger.error({ error, documentId }, 'AI document analysis failed');
+    return null;
+  }
 }
\ No newline at end of file
@@ -1,11 +1,14 @@
 // Stripe Webhook Handler - Handles payment events
+// Platform and Connect events both land here. PaymentsService moves the
+// lease payments along and feeds the ledger and invoices; this route sends
+// the notifications.
 import { NextRequest, NextResponse } from 'next/server';
-import { headers } from 'next/headers';
-import { getStripe } from '@/lib/stripe/server';
+import { constructWebhookEvent, getStripe } from '@/lib/stripe/server';
 import { createServiceClient } from '@/utils/supabaseClient';
 // import * as Sentry from '@sentry/nextjs'; // Temporarily disabled due to parsing error
 import type Stripe from 'stripe';
 import { logger } from '@/lib/logger';
+import { paymentsService } from '@/services/payments-svc';
 
 export async function POST(request: NextRequest) {
   // Create a Stripe instance at request-time for webhook signature verification
@@ -22,7 +25,7 @@ export async function POST(request: NextRequest) {
   }
 
   const body = await request.text();
-  const signature = headers().get('stripe-signature');
+  const signature = request.headers.get('stripe-signature');
 
   if (!signature) {
     return NextResponse.json(
@@ -34,11 +37,7 @@ export async function POST(request: NextRequest) {
   let event: Stripe.Event;
 
   try {
-    event = stripeInstance.webhooks.constructEvent(
-      body,
-      signature,
-      process.env.STRIPE_WEBHOOK_SECRET!
-    );
+    event = constructWebhookEvent(stripeInstance, body, signature);
   } catch (err: any) {
     logger.error({ err: err.message }, 'Webhook signature verification failed');
     // Sentry.captureException(err, {
@@ -52,6 +51,17 @@ export async function POST(request: NextRequest) {
 
   // Handle the event
   try {
+    await paymentsService.handleWebhook(event);
+
+    // Connect events are the owners' own (automatic) payouts, already posted
+    // to the ledger; the booking-payout checks below don't apply to them
+    if (event.account) {
+      if (event.type === 'payout.paid' || event.type === 'payout.failed') {
+        await handleConnectPayout(event.data.object as Stripe.Payout, event.account, event.type);
+      }
+      return NextResponse.json({ received: true });
+    }
+
     switch (event.type) {
       case 'payment_intent.succeeded':
         await handlePaymentSuccess(event.data.object as Stripe.PaymentIntent);
@@ -103,17 +113,7 @@ async function handlePaymentSuccess(paymentIntent: Stripe.PaymentIntent) {
 
   logger.info(`✅ Payment succeeded for booking: ${bookingId}`);
 
-  // 1. Update booking status
-  await supabase
-    .from('bookings')
-    .update({
-      payment_status: 'paid',
-      status: 'approved',
-      payment_method: 'stripe',
-      payment_id: paymentIntent.id,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', bookingId);
+  // 1. The lease payment, ledger entries and invoice are recorded by PaymentsService.handleWebhook
 
   // 2. Update payment transaction
   await supabase
@@ -124,6 +124,18 @@ async function handlePaymentSuccess(paymentIntent: Stripe.PaymentIntent) {
     })
     .eq('provider_session_id', paymentIntent.id);
 
+  // Monthly rent: a receipt for the tenant, no booking confirmations
+  if (metadata.kind === 'rent') {
+    await supabase.from('notifications').insert({
+      user_id: userId,
+      type: 'payment',
+      title: 'Rent paid',
+      body: `Your rent payment of ${(paymentIntent.amount / 100).toLocaleString()} HUF has been processed.`,
+      data: { link: `/dashboard/bookings`, bookingId },
+    });
+    return;
+  }
+
   // 3. Create notification for user (using correct field names)
   await supabase.from('notifications').insert({
     user_id: userId,
@@ -241,15 +253,12 @@ async function handlePaymentFailure(paymentIntent: Stripe.PaymentIntent) {
 
   logger.info(`❌ Payment failed for booking: ${bookingId}`);
 
-  // 1. Update booking status
-  await supabase
-    .from('bookings')
-    .update({
-      payment_status: 'unpaid',
-      status: 'cancelled',
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', bookingId);
+  // 1. PaymentsService.handleWebhook marked the lease payment failed; the tenant can retry.
+  // An off-session rent charge the bank wants authenticated waits for the tenant instead.
+  if (metadata.kind === 'rent' && paymentIntent.last_payment_error?.code === 'authentication_required') {
+    await notifyRentNeedsConfirming(paymentIntent);
+    return;
+  }
 
   // 2. Update payment transaction
   await supabase
@@ -277,15 +286,6 @@ async function handlePaymentCanceled(paymentIntent: Stripe.PaymentIntent) {
 
   logger.info(`🚫 Payment canceled for booking: ${bookingId}`);
 
-  await supabase
-    .from('bookings')
-    .update({
-      payment_status: 'unpaid',
-      status: 'cancelled',
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', bookingId);
-
   await supabase
     .from('payment_transactions')
     .update({
@@ -295,6 +295,71 @@ async function handlePaymentCanceled(paymentIntent: Stripe.PaymentIntent) {
     .eq('provider_session_id', paymentIntent.id);
 }
 
+async function notifyRentNeedsConfirming(paymentIntent: Stripe.PaymentIntent) {
+  const metadata = paymentIntent.metadata || {};
+
+  logger.info(`🔐 Rent payment needs confirming for booking: ${metadata.booking_id}`);
+
+  const supabase = createServiceClient();
+  await supabase.from('notifications').insert({
+    user_id: metadata.user_id,
+    type: 'payment',
+    title: 'Confirm your rent payment',
+    body: `Your bank asked you to confirm your rent payment of ${(paymentIntent.amount / 100).toLocaleString()} HUF.`,
+    data: {
+      link: `/dashboard/bookings`,
+      bookingId: metadata.booking_id,
+      leasePaymentId: metadata.lease_payment_id,
+    },
+  });
+}
+
+async function handleConnectPayout(
+  payout: Stripe.Payout,
+  account: string,
+  type: 'payout.paid' | 'payout.failed'
+) {
+  const supabase = createServiceClient();
+
+  logger.info(`💰 Connect payout ${type}: ${payout.id} on ${account}`);
+
+  // Automatic payouts carry no metadata; the owner is found by their account
+  const { data: owner } = await supabase
+    .from('stripe_connect_accounts')
+    .select('user_id')
+    .eq('stripe_account_id', account)
+    .maybeSingle();
+
+  if (!owner?.user_id) {
+    logger.warn({ payoutId: payout.id, account }, 'Connect payout for an unknown account');
+    return;
+  }
+
+  const amount = `${(payout.amount / 100).toLocaleString()} ${payout.currency.toUpperCase()}`;
+  await supabase.from('notifications').insert(
+    type === 'payout.paid'
+      ? {
+          user_id: owner.user_id,
+          type: 'payout',
+          title: 'Payout Successful',
+          body: `Your payout of ${amount} has been sent to your bank account.`,
+          data: { link: `/dashboard/payouts` },
+        }
+      : {
+          user_id: owner.user_id,
+          type: 'payout',
+          title: 'Payout Failed',
+          body: `Your payout of ${amount} could not be processed. Please check your bank account details.`,
+          data: { link: `/dashboard/payouts` },
+        }
+  );
+}
+
+async function cancelPayout(payoutId: string) {
+  const stripeClient = getStripe();
+  if (stripeClient) await stripeClient.payouts.cancel(payoutId);
+}
+
 async function handlePayoutCreated(payout: Stripe.Payout) {
   const supabase = createServiceClient();
   const { id, amount, currency, metadata } = payout;
@@ -307,8 +372,7 @@ async function handlePayoutCreated(payout: Stripe.Payout) {
   if (!userId) {
     logger.error({ payoutId: id }, 'Payout blocked: No user ID in metadata');
     // Cancel the payout if no user ID
-    const stripeClient = getStripe();
-    if (stripeClient) await stripeClient.payouts.cancel(id);
+    await cancelPayout(id);
     return;
   }
 
@@ -321,15 +385,13 @@ async function handlePayoutCreated(payout: Stripe.Payout) {
 
   if (accountError || !stripeAccount) {
     logger.error({ userId }, 'Payout blocked: No Stripe Connect account');
-    const stripeClient = getStripe();
-    if (stripeClient) await stripeClient.payouts.cancel(id);
+    await cancelPayout(id);
     return;
   }
 
   if (stripeAccount.status !== 'active') {
     logger.error({ userId, status: stripeAccount.status }, 'Payout blocked: Stripe account not verified');
-    const stripeClient = getStripe();
-    if (stripeClient) await stripeClient.payouts.cancel(id);
+    await cancelPayout(id);
     return;
   }
 
@@ -337,16 +399,15 @@ async function handlePayoutCreated(payout: Stripe.Payout) {
   try {
     const stripeClient = getStripe();
     if (!stripeClient) throw new Error('Stripe not configured');
-    const account = await stripeClient.accounts.retrieve(stripeAccount.stripe_account_id);
-    if (!account.payouts_enabled) {
+    const connectAccount = await stripeClient.accounts.retrieve(stripeAccount.stripe_account_id);
+    if (!connectAccount.payouts_enabled) {
       logger.error({ stripeAccountId: stripeAccount.stripe_account_id }, 'Payout blocked: Payouts not enabled');
-      await stripeClient.payouts.cancel(id);
+      await cancelPayout(id);
       return;
     }
   } catch (error) {
     logger.error({ error, stripeAccountId: stripeAccount.stripe_account_id }, 'Payout blocked: Error verifying Stripe account');
-    const stripeClient = getStripe();
-    if (stripeClient) await stripeClient.payouts.cancel(id);
+    await cancelPayout(id);
     return;
   }
 
@@ -358,7 +419,6 @@ async function handlePayoutCreated(payout: Stripe.Payout) {
       .from('bookings')
       .update({
         payment_status: 'paid',
-        status: 'approved',
         updated_at: new Date().toISOString(),
       })
       .eq('id', bookingId);
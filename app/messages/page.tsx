@@ -1,11 +1,14 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import Image from 'next/image';
 import { supabase } from '@/utils/supabaseClient';
+import { ConversationKeyring } from '@/lib/e2ee/keyring';
+import { maskContactInfo, postMessage } from '@/lib/messaging';
 
 interface Message {
   id: string;
+  conversation_id?: string;
   content: string;
   created_at: string;
   read: boolean;
@@ -47,6 +50,18 @@ export default function MessagingPage() {
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  // Messages are end-to-end encrypted; the private key stays in this browser
+  const keyring = useMemo(
+    () => (currentUserId ? new ConversationKeyring(currentUserId) : null),
+    [currentUserId]
+  );
+
+  const decryptMessage = useCallback(
+    async (message: Message, conversationId: string): Promise<Message> =>
+      keyring ? { ...message, content: await keyring.decrypt(conversationId, message.content) } : message,
+    [keyring]
+  );
+
   const loadConversations = useCallback(async () => {
     try {
       const response = await fetch('/api/messages');
@@ -66,27 +81,26 @@ export default function MessagingPage() {
       const response = await fetch(`/api/messages?conversationId=${conversationId}`);
       if (response.ok) {
         const data = await response.json();
-        setMessages(data.messages || []);
+        const loaded: Message[] = data.messages || [];
+        setMessages(await Promise.all(loaded.map((message) => decryptMessage(message, conversationId))));
       }
     } catch (error) {
       console.error('Failed to load messages:', error);
     }
-  }, []);
+  }, [decryptMessage]);
 
-  const handleNewMessage = useCallback((newMessage: Message) => {
+  const handleNewMessage = useCallback(async (newMessage: Message) => {
     // Update messages if it's for the current conversation
-    if (selectedConversation && currentUserId && (
-      newMessage.sender_id === currentUserId ||
-      newMessage.receiver_id === currentUserId
-    )) {
-      setMessages(prev => [...prev, newMessage]);
+    if (selectedConversation && currentUserId && newMessage.conversation_id === selectedConversation) {
+      const message = await decryptMessage(newMessage, selectedConversation);
+      setMessages(prev => (prev.some(existing => existing.id === message.id) ? prev : [...prev, message]));
     }
 
     // Update conversations list
     if (currentUserId) {
       loadConversations();
     }
-  }, [selectedConversation, currentUserId, loadConversations]);
+  }, [selectedConversation, currentUserId, decryptMessage, loadConversations]);
 
   useEffect(() => {
     initializeUser();
@@ -144,31 +158,25 @@ export default function MessagingPage() {
   };
 
   const sendMessage = async () => {
-    if (!selectedConversation || !newMessage.trim() || !currentUserId) return;
+    if (!selectedConversation || !newMessage.trim() || !currentUserId || !keyring) return;
 
     setSending(true);
     try {
       const conversation = conversations.find(c => c.id === selectedConversation);
       if (!conversation) return;
 
-      const response = await fetch('/api/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+      // Contact details are masked before encryption; the server only sees ciphertext
+      await postMessage(
+        {
           conversationId: selectedConversation,
           receiverId: conversation.otherUserId,
-          content: newMessage.trim(),
-        }),
-      });
+          content: maskContactInfo(newMessage.trim()),
+        },
+        keyring
+      );
 
-      if (response.ok) {
-        setNewMessage('');
-        // Message will be added via real-time subscription
-      } else {
-        console.error('Failed to send message');
-      }
+      setNewMessage('');
+      // Message will be added via real-time subscription
     } catch (error) {
       console.error('Send message error:', error);
     } finally {
@@ -1,7 +1,10 @@
 'use client';
 
-import { FormEvent, useCallback, useEffect, useRef, useState } from 'react';
+import { FormEvent, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { sanitizeUserInput } from '@/lib/sanitize';
+import { maskContactInfo } from '@/lib/messaging';
+import { ConversationKeyring } from '@/lib/e2ee/keyring';
+import { ModerationPipeline } from '@/lib/trust-safety/pipeline';
 import { createClient } from '@/utils/supabaseClient';
 
 interface Message {
@@ -11,14 +14,21 @@ interface Message {
     read: boolean;
     sender_id: string;
     receiver_id: string;
+    conversation_id?: string;
     is_delivered?: boolean;
     is_read?: boolean;
     sender?: {
         first_name: string;
         last_name: string;
     };
+    safetyWarning?: boolean;
 }
 
+// Rules only: the server cannot read encrypted messages, so incoming ones are
+// checked here after decryption and never leave the browser
+const safetyPipeline = new ModerationPipeline();
+const SCAM_LABELS = ['payment_outside_platform', 'deposit_scam', 'suspicious_url'];
+
 interface ChatBoxProps {
     apartmentId: string;
     apartmentTitle: string;
@@ -35,18 +45,39 @@ export default function ChatBox({
     currentUserEmail,
 }: ChatBoxProps) {
     const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+    const [conversationId, setConversationId] = useState<string | null>(null);
     const [messages, setMessages] = useState<Message[]>([]);
     const [newMessage, setNewMessage] = useState('');
     const [loading, setLoading] = useState(false);
     const messagesEndRef = useRef<HTMLDivElement>(null);
 
+    // Messages are end-to-end encrypted; the private key stays in this browser
+    const keyring = useMemo(
+        () => (currentUserId ? new ConversationKeyring(currentUserId) : null),
+        [currentUserId]
+    );
+
+    const decryptMessage = useCallback(
+        async (message: Message, fallbackConversationId: string): Promise<Message> => {
+            if (!keyring) return message;
+            const content = await keyring.decrypt(message.conversation_id ?? fallbackConversationId, message.content);
+            if (message.sender_id === currentUserId) return { ...message, content };
+
+            const safety = await safetyPipeline.classify({ text: content, contentType: 'message' });
+            const safetyWarning =
+                safety.decision !== 'allow' && safety.labels.some(({ label }) => SCAM_LABELS.includes(label));
+            return { ...message, content, safetyWarning };
+        },
+        [keyring, currentUserId]
+    );
+
     const scrollToBottom = useCallback(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, []);
 
     // Fetch messages using the API
     const fetchMessages = useCallback(async () => {
-        if (!ownerId) return;
+        if (!ownerId || !keyring) return;
 
         try {
             // Fetch all conversations to find the one for this apartment
@@ -62,13 +93,21 @@ export default function ChatBox({
                 (conv: any) => conv.apartment && conv.apartment.id === apartmentId
             );
 
-            if (conversation?.messages) {
-                setMessages(conversation.messages);
+            if (!conversation) return;
+            setConversationId(conversation.id);
+
+            const messagesResponse = await fetch(`/api/messages?conversationId=${conversation.id}`);
+            if (!messagesResponse.ok) {
+                console.error('Failed to fetch conversation messages');
+                return;
             }
+
+            const { messages: stored = [] } = await messagesResponse.json();
+            setMessages(await Promise.all(stored.map((message: Message) => decryptMessage(message, conversation.id))));
         } catch (error) {
             console.error('Failed to load messages:', error);
         }
-    }, [apartmentId, ownerId]);
+    }, [apartmentId, ownerId, keyring, decryptMessage]);
 
     // Initialize current user
     useEffect(() => {
@@ -104,6 +143,12 @@ export default function ChatBox({
     useEffect(() => {
         if (!currentUserId || !ownerId) return;
 
+        const appendMessage = async (incoming: Message) => {
+            if (conversationId && incoming.conversation_id && incoming.conversation_id !== conversationId) return;
+            const message = await decryptMessage(incoming, conversationId ?? '');
+            setMessages((prev) => (prev.some((existing) => existing.id === message.id) ? prev : [...prev, message]));
+        };
+
         const supabase = createClient();
         const channel = supabase
             .channel('chatbox-messages')
@@ -116,7 +161,7 @@ export default function ChatBox({
                     filter: `sender_id=eq.${currentUserId}`
                 },
                 (payload) => {
-                    setMessages((prev) => [...prev, payload.new as Message]);
+                    appendMessage(payload.new as Message);
                 }
             )
             .on(
@@ -128,7 +173,7 @@ export default function ChatBox({
                     filter: `receiver_id=eq.${currentUserId}`
                 },
                 (payload) => {
-                    setMessages((prev) => [...prev, payload.new as Message]);
+                    appendMessage(payload.new as Message);
                 }
             )
             .subscribe();
@@ -136,12 +181,12 @@ export default function ChatBox({
         return () => {
             supabase.removeChannel(channel);
         };
-    }, [currentUserId, ownerId]);
+    }, [currentUserId, ownerId, conversationId, decryptMessage]);
 
     const handleSendMessage = async (event: FormEvent<HTMLFormElement>) => {
         event.preventDefault();
         console.log('Sending message via API...', { newMessage, currentUserId, ownerId });
-        if (!newMessage.trim() || !currentUserId || !ownerId) {
+        if (!newMessage.trim() || !currentUserId || !ownerId || !keyring) {
             return;
         }
 
@@ -150,7 +195,6 @@ export default function ChatBox({
             return;
         }
 
-        setLoading(true);
         setLoading(true);
         try {
             // Get CSRF token from cookie with robust parsing
@@ -168,19 +212,43 @@ export default function ChatBox({
                 console.warn('ChatBox: CSRF token is missing from cookies', document.cookie);
             }
 
-            const response = await fetch('/api/messages', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'X-CSRF-Token': csrfToken || '',
-                },
-                body: JSON.stringify({
-                    apartmentId,
-                    receiverId: ownerId,
-                    content: sanitized,
-                }),
+            const postMessage = (body: Record<string, unknown>) =>
+                fetch('/api/messages', {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'X-CSRF-Token': csrfToken || '',
+                    },
+                    body: JSON.stringify({ apartmentId, receiverId: ownerId, ...body }),
+                });
+
+            // The conversation (and its keys) must exist before the first message is encrypted
+            let activeConversationId = conversationId;
+            if (!activeConversationId) {
+                const created = await postMessage({ createOnly: true });
+                if (!created.ok) {
+                    const error = await created.json();
+                    throw new Error(error.error || 'Failed to start conversation');
+                }
+                activeConversationId = (await created.json()).conversationId as string;
+                setConversationId(activeConversationId);
+            }
+
+            // Contact details are masked before encryption; the server only sees ciphertext
+            const plaintext = maskContactInfo(sanitized);
+            let response = await postMessage({
+                conversationId: activeConversationId,
+                content: await keyring.encrypt(activeConversationId, plaintext),
             });
 
+            // 409: the conversation key was rotated meanwhile; re-encrypt with the new one
+            if (response.status === 409) {
+                response = await postMessage({
+                    conversationId: activeConversationId,
+                    content: await keyring.encrypt(activeConversationId, plaintext),
+                });
+            }
+
             if (!response.ok) {
                 const error = await response.json();
                 throw new Error(error.error || 'Failed to send message');
@@ -276,6 +344,11 @@ export default function ChatBox({
                                             </p>
                                         )}
                                         <p className="whitespace-pre-wrap break-words">{message.content}</p>
+                                        {message.safetyWarning && (
+                                            <p className="text-xs mt-2 p-2 rounded bg-yellow-100 text-yellow-900">
+                                                ⚠️ This looks like a common rental scam. Never pay a deposit before a viewing or outside the platform.
+                                            </p>
+                                        )}
                                         <div className={`flex items-center gap-1 text-xs mt-1 ${isOwnMessage ? 'text-orange-100' : 'text-gray-500'}`}>
                                             <span>{new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
                                             {isOwnMessage && (
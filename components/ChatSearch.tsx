@@ -62,7 +62,16 @@ export default function ChatSearch() {
   const [mounted, setMounted] = useState(false);
   const [query, setQuery] = useState('');
   const [loading, setLoading] = useState(false);
-  const { messages, goal, sendMessage, setMessages } = useSearchAgent();
+  const {
+    messages,
+    goal,
+    results: agentResults,
+    totalResults: agentResultTotal,
+    isLoading: agentLoading,
+    sendMessage,
+    setMessages,
+    setResults: setAgentResults,
+  } = useSearchAgent();
   const [askedQuestions, setAskedQuestions] = useState<string[]>([]);
   const [followUps, setFollowUps] = useState<string[]>([]);
   const [userWishedFeatures, setUserWishedFeatures] = useState<FeatureIcon[]>([]);
@@ -854,10 +863,20 @@ export default function ChatSearch() {
     if (e) e.preventDefault();
     const rawInput = typeof promptOverride === 'string' ? promptOverride : query;
     const trimmedInput = rawInput.trim();
-    if (!trimmedInput || loading) return;
+    if (!trimmedInput || loading || agentLoading) return;
     const sanitizedQuery = sanitizeUserInput(trimmedInput);
     setLastQuery(sanitizedQuery);
     setWhyModalState(null);
+
+    // Follow-ups in the results view narrow the search with the agent,
+    // whose matches stream into the chat panel
+    if (currentResults.length > 0) {
+      setQuery('');
+      setChatExpanded(true);
+      await sendMessage(sanitizedQuery);
+      return;
+    }
+
     await runSearchFlow(sanitizedQuery);
     setQuery('');
   };
@@ -866,6 +885,7 @@ export default function ChatSearch() {
     setCurrentResults([]);
     setDisplayedResults([]);
     setMessages([]);
+    setAgentResults([]);
     setFollowUps([]);
     setAskedQuestions([]);
     setUserWishedFeatures([]);
@@ -1080,8 +1100,10 @@ export default function ChatSearch() {
           <FloatingChatPanel
             messages={messages}
             goal={goal} // Pass Search Agent Goal
+            agentResults={agentResults}
+            agentResultTotal={agentResultTotal}
             query={query}
-            loading={loading}
+            loading={loading || agentLoading}
             followUps={followUps}
             chatExpanded={chatExpanded}
             chatHovered={chatHovered}
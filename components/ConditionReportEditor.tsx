@@ -0,0 +1,592 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+type ReportKind = 'move_in' | 'move_out';
+type ReportStatus = 'draft' | 'awaiting_tenant' | 'signed';
+type ItemCondition = 'new' | 'good' | 'fair' | 'poor' | 'damaged' | 'missing';
+type MeterType = 'electricity' | 'gas' | 'water_cold' | 'water_hot' | 'heating';
+
+interface InventoryItem {
+  name: string;
+  condition: ItemCondition;
+  notes: string;
+  photoKeys: string[];
+}
+
+interface InventoryRoom {
+  name: string;
+  items: InventoryItem[];
+}
+
+interface MeterReading {
+  meter: MeterType;
+  serial: string | null;
+  reading: number | null;
+  photoKeys: string[];
+}
+
+interface ReportContent {
+  rooms: InventoryRoom[];
+  meterReadings: MeterReading[];
+  generalNotes: string;
+}
+
+interface Report extends ReportContent {
+  kind: ReportKind;
+  status: ReportStatus;
+  tenantComments: string | null;
+  contentHash: string | null;
+  ownerSignature: string | null;
+  ownerSignedAt: string | null;
+  tenantSignature: string | null;
+  tenantSignedAt: string | null;
+}
+
+interface Comparison {
+  items: Array<{
+    room: string;
+    item: string;
+    moveIn: ItemCondition | null;
+    moveOut: ItemCondition | null;
+    change: 'unchanged' | 'better' | 'worse' | 'missing' | 'added';
+    moveOutNotes: string;
+  }>;
+  meters: Array<{ meter: MeterType; unit: string; moveIn: number | null; moveOut: number | null; consumption: number | null }>;
+  worsened: number;
+}
+
+interface Overview {
+  lease: { status: string; apartmentTitle: string; moveInDate: string; moveOutDate: string };
+  reports: Array<{ report: Report; photoUrls: Record<string, string> }>;
+  comparison: Comparison | null;
+}
+
+const KIND_LABELS: Record<ReportKind, string> = { move_in: 'Move-in', move_out: 'Move-out' };
+
+const STATUS_LABELS: Record<ReportStatus, string> = {
+  draft: 'Draft',
+  awaiting_tenant: 'Waiting for tenant signature',
+  signed: 'Signed by both',
+};
+
+const CONDITIONS: ItemCondition[] = ['new', 'good', 'fair', 'poor', 'damaged', 'missing'];
+
+const METERS: Record<MeterType, string> = {
+  electricity: 'Electricity (kWh)',
+  gas: 'Gas (m³)',
+  water_cold: 'Cold water (m³)',
+  water_hot: 'Hot water (m³)',
+  heating: 'Heating (GJ)',
+};
+
+const CHANGE_STYLES: Record<Comparison['items'][number]['change'], string> = {
+  unchanged: 'text-gray-500',
+  better: 'text-green-700',
+  worse: 'text-red-700',
+  missing: 'text-red-700',
+  added: 'text-blue-700',
+};
+
+// Same lease stages the API allows each report to be started in
+const KIND_LEASE_STATUSES: Record<ReportKind, string[]> = {
+  move_in: ['accepted', 'signed', 'active'],
+  move_out: ['active', 'ended'],
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg';
+const primaryButton =
+  'px-4 py-2 bg-yellow-400 hover:bg-yellow-500 text-gray-900 font-semibold rounded-lg transition disabled:opacity-50';
+const secondaryButton =
+  'px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium rounded-lg transition disabled:opacity-50';
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '');
+
+function PhotoLinks({ keys, urls }: { keys: string[]; urls: Record<string, string> }) {
+  if (keys.length === 0) return null;
+  return (
+    <span className="flex gap-2 text-xs">
+      {keys.map((key, index) =>
+        urls[key] ? (
+          <a key={key} href={urls[key]} target="_blank" rel="noreferrer" className="text-yellow-600 hover:text-yellow-700">
+            Photo {index + 1}
+          </a>
+        ) : (
+          <span key={key} className="text-gray-500">Photo {index + 1} (saved)</span>
+        )
+      )}
+    </span>
+  );
+}
+
+export default function ConditionReportEditor({ bookingId, role }: { bookingId: string; role: 'tenant' | 'owner' }) {
+  const [data, setData] = useState<Overview | null>(null);
+  const [kind, setKind] = useState<ReportKind>('move_in');
+  const [draft, setDraft] = useState<ReportContent | null>(null);
+  const [signature, setSignature] = useState('');
+  const [comments, setComments] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseUrl = `/api/bookings/${bookingId}/condition-reports`;
+
+  const apply = useCallback((overview: Overview, selected?: ReportKind) => {
+    setData(overview);
+    const current = selected ?? (overview.reports.some((r) => r.report.kind === 'move_out') ? 'move_out' : 'move_in');
+    setKind(current);
+    const report = overview.reports.find((r) => r.report.kind === current)?.report;
+    setDraft(report?.status === 'draft' ? { rooms: report.rooms, meterReadings: report.meterReadings, generalNotes: report.generalNotes } : null);
+  }, []);
+
+  const load = useCallback(
+    async (selected?: ReportKind) => {
+      const response = await fetch(baseUrl);
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Could not load the condition reports');
+        return;
+      }
+      apply(result, selected);
+    },
+    [apply, baseUrl]
+  );
+
+  useEffect(() => {
+    load().catch(() => setError('Network error. Please try again.'));
+  }, [load]);
+
+  const request = async (url: string, method: string, body: unknown): Promise<any | null> => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Something went wrong');
+        return null;
+      }
+      return result;
+    } catch {
+      setError('Network error. Please try again.');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const uploadPhoto = async (file: File): Promise<string | null> => {
+    const body = new FormData();
+    body.append('file', file);
+    const response = await fetch(`${baseUrl}/photos`, { method: 'POST', body });
+    const result = await response.json();
+    if (!response.ok) {
+      setError(result.error || 'Upload failed');
+      return null;
+    }
+    return result.key;
+  };
+
+  if (!data) {
+    return error ? <p className="text-red-700">{error}</p> : <p className="text-gray-500">Loading…</p>;
+  }
+
+  const entry = data.reports.find((r) => r.report.kind === kind);
+  const report = entry?.report;
+  const photoUrls = entry?.photoUrls ?? {};
+  const editing = role === 'owner' && report?.status === 'draft' && draft !== null;
+  const content: ReportContent | null = editing ? draft : report ?? null;
+
+  const start = async () => {
+    if (await request(baseUrl, 'POST', { kind })) await load(kind);
+  };
+
+  const saveDraft = async (): Promise<boolean> => {
+    if (!draft) return false;
+    const result = await request(`${baseUrl}/${kind}`, 'PUT', draft);
+    return result !== null;
+  };
+
+  const runAction = async (body: Record<string, unknown>, confirmMessage?: string) => {
+    if (confirmMessage && !window.confirm(confirmMessage)) return;
+    const result = await request(`${baseUrl}/${kind}`, 'POST', body);
+    if (result) {
+      apply(result, kind);
+      setSignature('');
+      setComments('');
+    }
+  };
+
+  const submit = async () => {
+    if (await saveDraft()) {
+      await runAction({ action: 'submit', signature }, 'Sign the report and send it to the tenant? You cannot edit it unless they send it back.');
+    }
+  };
+
+  const updateRoom = (roomIndex: number, update: Partial<InventoryRoom>) =>
+    setDraft((current) => current && { ...current, rooms: current.rooms.map((room, i) => (i === roomIndex ? { ...room, ...update } : room)) });
+
+  const updateItem = (roomIndex: number, itemIndex: number, update: Partial<InventoryItem>) =>
+    setDraft(
+      (current) =>
+        current && {
+          ...current,
+          rooms: current.rooms.map((room, i) =>
+            i === roomIndex ? { ...room, items: room.items.map((item, j) => (j === itemIndex ? { ...item, ...update } : item)) } : room
+          ),
+        }
+    );
+
+  const updateMeter = (meterIndex: number, update: Partial<MeterReading>) =>
+    setDraft(
+      (current) =>
+        current && {
+          ...current,
+          meterReadings: current.meterReadings.map((reading, i) => (i === meterIndex ? { ...reading, ...update } : reading)),
+        }
+    );
+
+  const unusedMeters = (Object.keys(METERS) as MeterType[]).filter(
+    (meter) => !draft?.meterReadings.some((reading) => reading.meter === meter)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-2">
+        {(['move_in', 'move_out'] as ReportKind[]).map((option) => {
+          const status = data.reports.find((r) => r.report.kind === option)?.report.status;
+          return (
+            <button
+              key={option}
+              onClick={() => apply(data, option)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium ${kind === option ? 'bg-gray-900 text-white' : 'bg-white text-gray-700 border border-gray-200'}`}
+            >
+              {KIND_LABELS[option]} {status ? `· ${STATUS_LABELS[status]}` : ''}
+            </button>
+          );
+        })}
+      </div>
+
+      {!report && (
+        <div className="bg-white rounded-lg shadow p-6 text-sm text-gray-600 space-y-3">
+          <p>No {KIND_LABELS[kind].toLowerCase()} report yet.</p>
+          {role === 'owner' && KIND_LEASE_STATUSES[kind].includes(data.lease.status) && (
+            <button onClick={start} disabled={busy} className={primaryButton}>
+              Start {KIND_LABELS[kind]} Report
+            </button>
+          )}
+          {role === 'owner' && kind === 'move_out' && (
+            <p className="text-xs text-gray-500">The move-out report starts from the rooms and items of the signed move-in report.</p>
+          )}
+        </div>
+      )}
+
+      {report && content && (
+        <div className="bg-white rounded-lg shadow p-6 space-y-6 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="px-3 py-1 rounded-full text-xs font-medium bg-blue-50 text-blue-800 border border-blue-200">
+              {STATUS_LABELS[report.status]}
+            </span>
+            <a href={`${baseUrl}/${kind}/pdf`} className="text-yellow-600 hover:text-yellow-700 font-medium">
+              Download PDF
+            </a>
+          </div>
+
+          {report.tenantComments && (
+            <p className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-gray-700">
+              Tenant comments: {report.tenantComments}
+            </p>
+          )}
+
+          {content.rooms.map((room, roomIndex) => (
+            <section key={roomIndex} className="border border-gray-200 rounded-lg p-4 space-y-3">
+              {editing ? (
+                <div className="flex gap-2">
+                  <input
+                    value={room.name}
+                    onChange={(e) => updateRoom(roomIndex, { name: e.target.value })}
+                    placeholder="Room, e.g. Kitchen"
+                    className={`${inputClass} font-semibold`}
+                  />
+                  <button
+                    onClick={() => setDraft((current) => current && { ...current, rooms: current.rooms.filter((_, i) => i !== roomIndex) })}
+                    className="text-red-600 hover:text-red-700 px-2"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ) : (
+                <h3 className="font-semibold text-gray-900">{room.name}</h3>
+              )}
+
+              {room.items.map((item, itemIndex) =>
+                editing ? (
+                  <div key={itemIndex} className="grid grid-cols-1 md:grid-cols-4 gap-2 items-start">
+                    <input
+                      value={item.name}
+                      onChange={(e) => updateItem(roomIndex, itemIndex, { name: e.target.value })}
+                      placeholder="Item, e.g. Fridge"
+                      className={inputClass}
+                    />
+                    <select
+                      value={item.condition}
+                      onChange={(e) => updateItem(roomIndex, itemIndex, { condition: e.target.value as ItemCondition })}
+                      className={inputClass}
+                    >
+                      {CONDITIONS.map((condition) => (
+                        <option key={condition} value={condition}>
+                          {condition}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      value={item.notes}
+                      onChange={(e) => updateItem(roomIndex, itemIndex, { notes: e.target.value })}
+                      placeholder="Notes, e.g. scratch on the door"
+                      className={inputClass}
+                    />
+                    <div className="space-y-1">
+                      <input
+                        type="file"
+                        accept="image/jpeg,image/png,image/webp"
+                        disabled={busy}
+                        onChange={async (e) => {
+                          const file = e.target.files?.[0];
+                          const key = file && (await uploadPhoto(file));
+                          if (key) updateItem(roomIndex, itemIndex, { photoKeys: [...item.photoKeys, key] });
+                        }}
+                        className="text-xs"
+                      />
+                      <PhotoLinks keys={item.photoKeys} urls={photoUrls} />
+                      <button
+                        onClick={() => updateRoom(roomIndex, { items: room.items.filter((_, j) => j !== itemIndex) })}
+                        className="text-xs text-red-600 hover:text-red-700"
+                      >
+                        Remove item
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div key={itemIndex} className="flex justify-between gap-4 border-t border-gray-100 pt-2">
+                    <div>
+                      <p className="text-gray-900">{item.name}</p>
+                      {item.notes && <p className="text-gray-500">{item.notes}</p>}
+                      <PhotoLinks keys={item.photoKeys} urls={photoUrls} />
+                    </div>
+                    <span className="font-medium text-gray-900 capitalize">{item.condition}</span>
+                  </div>
+                )
+              )}
+
+              {editing && (
+                <button
+                  onClick={() => updateRoom(roomIndex, { items: [...room.items, { name: '', condition: 'good', notes: '', photoKeys: [] }] })}
+                  className="text-yellow-600 hover:text-yellow-700 font-medium"
+                >
+                  + Add item
+                </button>
+              )}
+            </section>
+          ))}
+
+          {editing && (
+            <button
+              onClick={() => setDraft((current) => current && { ...current, rooms: [...current.rooms, { name: '', items: [] }] })}
+              className="text-yellow-600 hover:text-yellow-700 font-medium"
+            >
+              + Add room
+            </button>
+          )}
+
+          <section className="space-y-2">
+            <h3 className="font-semibold text-gray-900">Meter readings</h3>
+            {content.meterReadings.length === 0 && !editing && <p className="text-gray-500">No meters recorded.</p>}
+            {content.meterReadings.map((reading, meterIndex) =>
+              editing ? (
+                <div key={reading.meter} className="grid grid-cols-1 md:grid-cols-4 gap-2 items-start">
+                  <span className="py-2 text-gray-700">{METERS[reading.meter]}</span>
+                  <input
+                    value={reading.serial ?? ''}
+                    onChange={(e) => updateMeter(meterIndex, { serial: e.target.value || null })}
+                    placeholder="Meter serial number"
+                    className={inputClass}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={reading.reading ?? ''}
+                    onChange={(e) => updateMeter(meterIndex, { reading: e.target.value === '' ? null : Number(e.target.value) })}
+                    placeholder="Reading"
+                    className={inputClass}
+                  />
+                  <div className="space-y-1">
+                    <input
+                      type="file"
+                      accept="image/jpeg,image/png,image/webp"
+                      disabled={busy}
+                      onChange={async (e) => {
+                        const file = e.target.files?.[0];
+                        const key = file && (await uploadPhoto(file));
+                        if (key) updateMeter(meterIndex, { photoKeys: [...reading.photoKeys, key] });
+                      }}
+                      className="text-xs"
+                    />
+                    <PhotoLinks keys={reading.photoKeys} urls={photoUrls} />
+                  </div>
+                </div>
+              ) : (
+                <div key={reading.meter} className="flex justify-between gap-4 border-t border-gray-100 pt-2">
+                  <div>
+                    <p className="text-gray-900">{METERS[reading.meter]}</p>
+                    {reading.serial && <p className="text-gray-500">No. {reading.serial}</p>}
+                    <PhotoLinks keys={reading.photoKeys} urls={photoUrls} />
+                  </div>
+                  <span className="font-medium text-gray-900">{reading.reading ?? '-'}</span>
+                </div>
+              )
+            )}
+            {editing && unusedMeters.length > 0 && (
+              <select
+                value=""
+                onChange={(e) =>
+                  setDraft(
+                    (current) =>
+                      current && {
+                        ...current,
+                        meterReadings: [
+                          ...current.meterReadings,
+                          { meter: e.target.value as MeterType, serial: null, reading: null, photoKeys: [] },
+                        ],
+                      }
+                  )
+                }
+                className="px-3 py-2 border border-gray-300 rounded-lg text-gray-700"
+              >
+                <option value="">+ Add meter</option>
+                {unusedMeters.map((meter) => (
+                  <option key={meter} value={meter}>
+                    {METERS[meter]}
+                  </option>
+                ))}
+              </select>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="font-semibold text-gray-900">Notes</h3>
+            {editing ? (
+              <textarea
+                value={draft.generalNotes}
+                onChange={(e) => setDraft((current) => current && { ...current, generalNotes: e.target.value })}
+                placeholder="Anything else both of you should remember, e.g. number of keys handed over"
+                className={inputClass}
+                rows={3}
+              />
+            ) : (
+              <p className="text-gray-600">{content.generalNotes || '-'}</p>
+            )}
+          </section>
+
+          {(report.ownerSignedAt || report.tenantSignedAt) && (
+            <section className="text-gray-600 space-y-1">
+              {report.ownerSignedAt && (
+                <p>Signed by the owner ({report.ownerSignature}) on {formatDateTime(report.ownerSignedAt)}</p>
+              )}
+              {report.tenantSignedAt && (
+                <p>Signed by the tenant ({report.tenantSignature}) on {formatDateTime(report.tenantSignedAt)}</p>
+              )}
+            </section>
+          )}
+
+          {editing && (
+            <div className="space-y-2 border-t border-gray-200 pt-4">
+              <button onClick={async () => (await saveDraft()) && (await load(kind))} disabled={busy} className={secondaryButton}>
+                Save Draft
+              </button>
+              <input
+                value={signature}
+                onChange={(e) => setSignature(e.target.value)}
+                placeholder="Type your full name to sign"
+                className={inputClass}
+              />
+              <button onClick={submit} disabled={busy || signature.trim().length < 2} className={`w-full ${primaryButton}`}>
+                Sign and Send to Tenant
+              </button>
+            </div>
+          )}
+
+          {role === 'tenant' && report.status === 'awaiting_tenant' && (
+            <div className="space-y-2 border-t border-gray-200 pt-4">
+              <p className="text-gray-600">
+                Check every room and meter reading. Once you sign, this report is the agreed record of the apartment&apos;s condition.
+              </p>
+              <textarea
+                value={comments}
+                onChange={(e) => setComments(e.target.value)}
+                placeholder="Comments (required if you ask for changes)"
+                className={inputClass}
+                rows={3}
+              />
+              <input
+                value={signature}
+                onChange={(e) => setSignature(e.target.value)}
+                placeholder="Type your full name to sign"
+                className={inputClass}
+              />
+              <button
+                onClick={() =>
+                  runAction({ action: 'sign', contentHash: report.contentHash, signature, comments: comments || undefined })
+                }
+                disabled={busy || signature.trim().length < 2}
+                className={`w-full ${primaryButton}`}
+              >
+                Sign Report
+              </button>
+              <button
+                onClick={() => runAction({ action: 'request_changes', comments })}
+                disabled={busy || !comments.trim()}
+                className={`w-full ${secondaryButton}`}
+              >
+                Ask for Changes
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {kind === 'move_out' && data.comparison && (
+        <div className="bg-white rounded-lg shadow p-6 space-y-3 text-sm">
+          <h3 className="font-semibold text-gray-900">
+            Compared with move-in: {data.comparison.worsened} item(s) worse or missing
+          </h3>
+          <ul className="divide-y divide-gray-100">
+            {data.comparison.items
+              .filter((item) => item.change !== 'unchanged')
+              .map((item) => (
+                <li key={`${item.room}:${item.item}`} className="py-2 flex justify-between gap-4">
+                  <span className="text-gray-900">
+                    {item.room}: {item.item}
+                    {item.moveOutNotes && <span className="text-gray-500"> — {item.moveOutNotes}</span>}
+                  </span>
+                  <span className={`whitespace-nowrap ${CHANGE_STYLES[item.change]}`}>
+                    {item.moveIn ?? '-'} → {item.moveOut ?? 'not found'}
+                  </span>
+                </li>
+              ))}
+          </ul>
+          {data.comparison.meters.map((meter) => (
+            <p key={meter.meter} className="text-gray-600">
+              {METERS[meter.meter]}: {meter.consumption === null ? 'incomplete readings' : `${meter.consumption} ${meter.unit} used`}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-red-700">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+type EscrowStatus = 'held' | 'proposed' | 'disputed' | 'settled' | 'released' | 'refunded';
+
+interface Deposit {
+  status: EscrowStatus;
+  amountHuf: number;
+  deductionHuf: number;
+  claimDeadline: string | null;
+  disputeWindowEndsAt: string | null;
+  disputeReason: string | null;
+  resolutionNotes: string | null;
+}
+
+interface DepositResponse {
+  deposit: Deposit;
+  deductions: Array<{ id: string; description: string; amountHuf: number; evidenceUrls: string[] }>;
+  disputeEvidenceUrls: string[];
+  balanceHuf: number;
+}
+
+interface ClaimItem {
+  description: string;
+  amountHuf: string;
+  evidenceKeys: string[];
+}
+
+const STATUS_LABELS: Record<EscrowStatus, string> = {
+  held: 'Held in escrow',
+  proposed: 'Deductions claimed',
+  disputed: 'Under review',
+  settled: 'Being paid out',
+  released: 'Settled',
+  refunded: 'Refunded',
+};
+
+const formatHuf = (huf: number) => `${huf.toLocaleString()} HUF`;
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+export default function DepositSettlement({ bookingId, role }: { bookingId: string; role: 'tenant' | 'owner' }) {
+  const [data, setData] = useState<DepositResponse | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [items, setItems] = useState<ClaimItem[]>([]);
+  const [disputeReason, setDisputeReason] = useState('');
+  const [disputeEvidence, setDisputeEvidence] = useState<string[]>([]);
+
+  const load = useCallback(async () => {
+    const response = await fetch(`/api/bookings/${bookingId}/deposit`);
+    // 404: no deposit was paid for this lease
+    setData(response.ok ? await response.json() : null);
+  }, [bookingId]);
+
+  useEffect(() => {
+    load().catch(() => setData(null));
+  }, [load]);
+
+  const uploadPhoto = async (file: File): Promise<string | null> => {
+    const body = new FormData();
+    body.append('file', file);
+    const response = await fetch(`/api/bookings/${bookingId}/deposit/evidence`, { method: 'POST', body });
+    const result = await response.json();
+    if (!response.ok) {
+      setError(result.error || 'Upload failed');
+      return null;
+    }
+    return result.key;
+  };
+
+  const submit = async (body: Record<string, unknown>, confirmMessage?: string) => {
+    if (confirmMessage && !window.confirm(confirmMessage)) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/deposit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Something went wrong');
+        return;
+      }
+      setData(result);
+      setItems([]);
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!data) return null;
+
+  const { deposit, deductions } = data;
+  const claimOpen =
+    role === 'owner' &&
+    ((deposit.status === 'held' && deposit.claimDeadline !== null) || deposit.status === 'proposed');
+  const canRespond = role === 'tenant' && deposit.status === 'proposed';
+  const claimTotal = items.reduce((sum, item) => sum + (Number(item.amountHuf) || 0), 0);
+
+  const updateItem = (index: number, update: Partial<ClaimItem>) =>
+    setItems((current) => current.map((item, i) => (i === index ? { ...item, ...update } : item)));
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-900">Security deposit: {formatHuf(deposit.amountHuf)}</span>
+        <span className="px-3 py-1 rounded-full text-xs font-medium bg-blue-50 text-blue-800 border border-blue-200">
+          {STATUS_LABELS[deposit.status]}
+        </span>
+      </div>
+
+      <a
+        href={`${role === 'owner' ? '/owner/bookings' : '/dashboard/bookings'}/${bookingId}/condition-report`}
+        className="inline-block text-yellow-600 hover:text-yellow-700"
+      >
+        Move-in and move-out condition reports
+      </a>
+
+      {deposit.status === 'held' && deposit.claimDeadline && (
+        <p className="text-gray-600">
+          {role === 'owner'
+            ? `Claim any deductions by ${formatDate(deposit.claimDeadline)}; otherwise the full deposit is refunded.`
+            : `Your landlord can claim deductions until ${formatDate(deposit.claimDeadline)}.`}
+        </p>
+      )}
+
+      {deductions.length > 0 && (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {deductions.map((deduction) => (
+            <li key={deduction.id} className="p-3 flex justify-between gap-4">
+              <div>
+                <p className="text-gray-900">{deduction.description}</p>
+                <div className="flex gap-2 mt-1">
+                  {deduction.evidenceUrls.map((url, index) => (
+                    <a key={url} href={url} target="_blank" rel="noreferrer" className="text-yellow-600 hover:text-yellow-700">
+                      Photo {index + 1}
+                    </a>
+                  ))}
+                </div>
+              </div>
+              <span className="font-medium text-gray-900 whitespace-nowrap">{formatHuf(deduction.amountHuf)}</span>
+            </li>
+          ))}
+          <li className="p-3 flex justify-between font-semibold">
+            <span>Refund to tenant</span>
+            <span>{formatHuf(deposit.amountHuf - deposit.deductionHuf)}</span>
+          </li>
+        </ul>
+      )}
+
+      {deposit.status === 'proposed' && deposit.disputeWindowEndsAt && (
+        <p className="text-gray-600">
+          The tenant can dispute this claim until {formatDate(deposit.disputeWindowEndsAt)}; after that it counts as accepted.
+        </p>
+      )}
+      {deposit.status === 'disputed' && (
+        <p className="text-gray-600">Disputed: {deposit.disputeReason}. Our team is reviewing the evidence from both sides.</p>
+      )}
+      {deposit.resolutionNotes && <p className="text-gray-600">Decision: {deposit.resolutionNotes}</p>}
+
+      {canRespond && (
+        <div className="space-y-2">
+          <button
+            onClick={() => submit({ action: 'accept' }, 'Accept these deductions? The rest of the deposit will be refunded.')}
+            disabled={busy}
+            className="w-full px-4 py-2 bg-yellow-400 hover:bg-yellow-500 text-gray-900 font-semibold rounded-lg transition disabled:opacity-50"
+          >
+            Accept Deductions
+          </button>
+          <textarea
+            value={disputeReason}
+            onChange={(e) => setDisputeReason(e.target.value)}
+            placeholder="What do you disagree with?"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            rows={3}
+          />
+          <input
+            type="file"
+            accept="image/jpeg,image/png,image/webp"
+            disabled={busy}
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              const key = file && (await uploadPhoto(file));
+              if (key) setDisputeEvidence((current) => [...current, key]);
+            }}
+          />
+          {disputeEvidence.length > 0 && <p className="text-xs text-gray-500">{disputeEvidence.length} photo(s) attached</p>}
+          <button
+            onClick={() => submit({ action: 'dispute', reason: disputeReason, evidenceKeys: disputeEvidence })}
+            disabled={busy || !disputeReason.trim()}
+            className="w-full px-4 py-2 text-red-600 hover:bg-red-50 font-medium rounded-lg transition disabled:opacity-50"
+          >
+            Dispute Claim
+          </button>
+        </div>
+      )}
+
+      {claimOpen && (
+        <div className="space-y-2">
+          {items.map((item, index) => (
+            <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-2">
+              <input
+                value={item.description}
+                onChange={(e) => updateItem(index, { description: e.target.value })}
+                placeholder="What was damaged or missing"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+              <input
+                type="number"
+                min={1}
+                value={item.amountHuf}
+                onChange={(e) => updateItem(index, { amountHuf: e.target.value })}
+                placeholder="Amount (HUF)"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+              <input
+                type="file"
+                accept="image/jpeg,image/png,image/webp"
+                disabled={busy}
+                onChange={async (e) => {
+                  const file = e.target.files?.[0];
+                  const key = file && (await uploadPhoto(file));
+                  if (key) updateItem(index, { evidenceKeys: [...item.evidenceKeys, key] });
+                }}
+              />
+              {item.evidenceKeys.length > 0 && (
+                <p className="text-xs text-gray-500">{item.evidenceKeys.length} photo(s) attached</p>
+              )}
+            </div>
+          ))}
+          <button
+            onClick={() => setItems((current) => [...current, { description: '', amountHuf: '', evidenceKeys: [] }])}
+            disabled={busy}
+            className="text-yellow-600 hover:text-yellow-700 font-medium"
+          >
+            + Add deduction
+          </button>
+          {items.length > 0 && (
+            <button
+              onClick={() =>
+                submit({
+                  action: 'propose',
+                  deductions: items.map((item) => ({ ...item, amountHuf: Number(item.amountHuf) })),
+                })
+              }
+              disabled={busy || claimTotal <= 0 || claimTotal > deposit.amountHuf}
+              className="w-full px-4 py-2 bg-yellow-400 hover:bg-yellow-500 text-gray-900 font-semibold rounded-lg transition disabled:opacity-50"
+            >
+              {deposit.status === 'proposed' ? 'Revise Claim' : 'Claim'} {formatHuf(claimTotal)}
+            </button>
+          )}
+          {deposit.status === 'held' && (
+            <button
+              onClick={() => submit({ action: 'propose', deductions: [] }, 'Refund the full deposit to the tenant?')}
+              disabled={busy}
+              className="w-full px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium rounded-lg transition disabled:opacity-50"
+            >
+              Release Full Deposit
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-red-700">{error}</p>}
+    </div>
+  );
+}
@@ -8,6 +8,11 @@ interface DigestPreferences {
   categories: string[];
   preferred_time: string;
   enabled: boolean;
+  price_drop_min_percent: number;
+  price_drop_min_huf: number;
+  alert_frequency: 'instant' | 'daily' | 'weekly';
+  alert_channels: string[];
+  locale: 'en' | 'hu';
 }
 
 const CATEGORIES = [
@@ -17,6 +22,13 @@ const CATEGORIES = [
   { id: 'nearby_updates', label: 'Nearby Updates' },
 ];
 
+const ALERT_CHANNELS = [
+  { id: 'email', label: 'Email' },
+  { id: 'push', label: 'Push' },
+  { id: 'sms', label: 'SMS' },
+  { id: 'in_app', label: 'In-app' },
+];
+
 export function DigestPreferences({ userId }: { userId: string }) {
   const [preferences, setPreferences] = useState<DigestPreferences>({
     user_id: userId,
@@ -24,6 +36,11 @@ export function DigestPreferences({ userId }: { userId: string }) {
     categories: ['new_listings', 'price_drops'],
     preferred_time: '09:00',
     enabled: true,
+    price_drop_min_percent: 3,
+    price_drop_min_huf: 5000,
+    alert_frequency: 'instant',
+    alert_channels: ['email', 'in_app'],
+    locale: 'en',
   });
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
@@ -62,6 +79,11 @@ export function DigestPreferences({ userId }: { userId: string }) {
           frequency: preferences.frequency,
           categories: preferences.categories,
           preferredTime: preferences.preferred_time,
+          priceDropMinPercent: Number(preferences.price_drop_min_percent),
+          priceDropMinHuf: Number(preferences.price_drop_min_huf),
+          alertFrequency: preferences.alert_frequency,
+          alertChannels: preferences.alert_channels,
+          locale: preferences.locale,
         }),
       });
 
@@ -87,6 +109,15 @@ export function DigestPreferences({ userId }: { userId: string }) {
     }));
   };
 
+  const toggleChannel = (channelId: string) => {
+    setPreferences((prev) => ({
+      ...prev,
+      alert_channels: prev.alert_channels.includes(channelId)
+        ? prev.alert_channels.filter((c) => c !== channelId)
+        : [...prev.alert_channels, channelId],
+    }));
+  };
+
   return (
     <div className="max-w-2xl space-y-6">
       <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-6">
@@ -180,6 +211,113 @@ export function DigestPreferences({ userId }: { userId: string }) {
               </p>
             </div>
           )}
+
+          {/* Email Language */}
+          {preferences.frequency !== 'never' && (
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Email Language
+              </label>
+              <select
+                value={preferences.locale}
+                onChange={(e) =>
+                  setPreferences({
+                    ...preferences,
+                    locale: e.target.value as DigestPreferences['locale'],
+                  })
+                }
+                className="border border-gray-300 rounded-lg px-3 py-2"
+              >
+                <option value="en">English</option>
+                <option value="hu">Magyar</option>
+              </select>
+            </div>
+          )}
+
+          {/* Saved Search Alerts */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Saved Search Alerts
+            </label>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {(['instant', 'daily', 'weekly'] as const).map((freq) => (
+                <label
+                  key={freq}
+                  className="flex items-center gap-2 px-3 py-2 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50"
+                >
+                  <input
+                    type="radio"
+                    name="alert_frequency"
+                    value={freq}
+                    checked={preferences.alert_frequency === freq}
+                    onChange={() => setPreferences({ ...preferences, alert_frequency: freq })}
+                    className="rounded-full"
+                  />
+                  <span className="capitalize">{freq}</span>
+                </label>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {ALERT_CHANNELS.map((channel) => (
+                <label key={channel.id} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={preferences.alert_channels.includes(channel.id)}
+                    onChange={() => toggleChannel(channel.id)}
+                    className="rounded"
+                  />
+                  {channel.label}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-600 mt-1">
+              Instant alerts arrive as soon as a matching flat is listed; daily and weekly ones are bundled
+            </p>
+          </div>
+
+          {/* Price Drop Alerts */}
+          {preferences.categories.includes('price_drops') && (
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Price Drop Alerts
+              </label>
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <span>Alert me when a favourite or saved-search match drops by at least</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={0.5}
+                  value={preferences.price_drop_min_percent}
+                  onChange={(e) =>
+                    setPreferences({
+                      ...preferences,
+                      price_drop_min_percent: Number(e.target.value),
+                    })
+                  }
+                  className="w-20 border border-gray-300 rounded-lg px-3 py-2"
+                />
+                <span>% and</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={1000}
+                  value={preferences.price_drop_min_huf}
+                  onChange={(e) =>
+                    setPreferences({
+                      ...preferences,
+                      price_drop_min_huf: Math.round(Number(e.target.value)),
+                    })
+                  }
+                  className="w-28 border border-gray-300 rounded-lg px-3 py-2"
+                />
+                <span>HUF</span>
+              </div>
+              <p className="text-xs text-gray-600 mt-1">
+                Price drop alerts are sent straight away, independent of the digest frequency
+              </p>
+            </div>
+          )}
         </div>
 
         {error && (
@@ -1,7 +1,9 @@
 import { Message } from './chat-search/types';
 import ChatHistory from './chat-search/ChatHistory';
 import ChatControls from './chat-search/ChatControls';
+import AgentResults from './chat-search/AgentResults';
 import SearchGoalCard, { SearchGoal } from './SearchGoalCard';
+import type { AgentResultCard } from '@/lib/ai/search-agent';
 
 interface FloatingChatPanelProps {
     messages: Message[];
@@ -11,6 +13,8 @@ interface FloatingChatPanelProps {
     chatExpanded: boolean;
     chatHovered: boolean;
     goal?: SearchGoal;
+    agentResults?: AgentResultCard[];
+    agentResultTotal?: number;
     onQueryChange: (query: string) => void;
     onFocusInput: () => void;
     onSubmit: (event?: React.FormEvent) => void;
@@ -28,6 +32,8 @@ export default function FloatingChatPanel({
     chatExpanded,
     chatHovered,
     goal,
+    agentResults = [],
+    agentResultTotal = 0,
     onQueryChange,
     onFocusInput,
     onSubmit,
@@ -89,6 +95,11 @@ export default function FloatingChatPanel({
                         <SearchGoalCard goal={goal} />
                     )}
 
+                    {/* Agent matches update as the conversation narrows the goal */}
+                    {chatExpanded && (
+                        <AgentResults results={agentResults} total={agentResultTotal} />
+                    )}
+
                     <ChatHistory
                         messages={messages}
                         chatExpanded={chatExpanded}
@@ -19,7 +19,7 @@ import {
     useSortable,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { GripVertical, X, Star, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import { GripVertical, X, Star, Loader2, CheckCircle, AlertCircle, AlertTriangle } from 'lucide-react';
 
 export interface GalleryImage {
     id: string;
@@ -29,6 +29,10 @@ export interface GalleryImage {
     status?: 'uploading' | 'processing' | 'complete' | 'error';
     progress?: number;
     error?: string;
+    qualityScore?: number;
+    width?: number;
+    height?: number;
+    warnings?: string[];
 }
 
 interface SortableImageProps {
@@ -85,6 +89,17 @@ function SortableImage({ image, onRemove, onSetCover }: SortableImageProps) {
                 </div>
             )}
 
+            {/* Quality warnings from upload analysis */}
+            {image.warnings && image.warnings.length > 0 && !hasError && (
+                <div
+                    className="absolute bottom-2 left-2 right-2 bg-amber-500/90 text-white px-2 py-1 rounded text-xs flex items-center gap-1 shadow"
+                    title={image.warnings.join('\n')}
+                >
+                    <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                    <span className="truncate">{image.warnings[0]}</span>
+                </div>
+            )}
+
             {/* Upload progress overlay */}
             {isUploading && (
                 <div className="absolute inset-0 bg-black/50 flex flex-col items-center justify-center">
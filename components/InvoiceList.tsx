@@ -0,0 +1,264 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+type VatStatus = 'exempt_tam' | 'exempt_aam' | 'vat_27';
+type NavStatus = 'not_submitted' | 'submitted' | 'accepted' | 'rejected';
+
+interface Invoice {
+  id: string;
+  invoiceNumber: string;
+  issueDate: string;
+  periodStart: string;
+  periodEnd: string;
+  seller: { name: string };
+  buyer: { name: string };
+  vatStatus: VatStatus;
+  netHuf: number;
+  vatHuf: number;
+  grossHuf: number;
+  navStatus: NavStatus;
+  navMessages: string[];
+}
+
+interface InvoiceSettings {
+  sellerName: string;
+  taxNumber: string;
+  postalCode: string;
+  city: string;
+  streetAddress: string;
+  vatStatus: VatStatus;
+  numberPrefix: string;
+}
+
+const EMPTY_SETTINGS: InvoiceSettings = {
+  sellerName: '',
+  taxNumber: '',
+  postalCode: '',
+  city: '',
+  streetAddress: '',
+  vatStatus: 'exempt_tam',
+  numberPrefix: 'SA',
+};
+
+const VAT_LABELS: Record<VatStatus, string> = {
+  exempt_tam: 'VAT exempt residential letting (TAM)',
+  exempt_aam: 'VAT exempt small business (AAM)',
+  vat_27: '27% VAT (opted in)',
+};
+
+const NAV_LABELS: Record<NavStatus, { label: string; className: string }> = {
+  not_submitted: { label: 'Not reported', className: 'bg-gray-100 text-gray-700' },
+  submitted: { label: 'Submitted', className: 'bg-blue-100 text-blue-800' },
+  accepted: { label: 'Accepted by NAV', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Rejected by NAV', className: 'bg-red-100 text-red-800' },
+};
+
+interface InvoiceListProps {
+  /** Owners see the invoices they issued, with invoicing details and NAV reporting */
+  role: 'owner' | 'tenant';
+}
+
+export default function InvoiceList({ role }: InvoiceListProps) {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [settings, setSettings] = useState<InvoiceSettings>(EMPTY_SETTINGS);
+  const [hasSettings, setHasSettings] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch('/api/invoices');
+      if (!response.ok) throw new Error('Failed to load invoices');
+      const data = await response.json();
+      setInvoices(role === 'owner' ? data.issued : data.received);
+
+      if (role === 'owner') {
+        const settingsResponse = await fetch('/api/owner/invoice-settings');
+        if (!settingsResponse.ok) throw new Error('Failed to load invoicing details');
+        const { settings: saved } = await settingsResponse.json();
+        setHasSettings(Boolean(saved));
+        if (saved) setSettings(saved);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [role]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const saveSettings = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setBusy('settings');
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch('/api/owner/invoice-settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save invoicing details');
+      setNotice(data.issued > 0 ? `Saved. ${data.issued} invoice(s) issued for rent already paid.` : 'Saved.');
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const submitToNav = async (invoice: Invoice) => {
+    setBusy(invoice.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/invoices/${invoice.id}/nav`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to report the invoice');
+      setInvoices((current) => current.map((item) => (item.id === invoice.id ? data.invoice : item)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const field = (name: keyof InvoiceSettings, label: string, placeholder = '') => (
+    <label className="block">
+      <span className="text-sm font-medium text-gray-700">{label}</span>
+      <input
+        value={settings[name]}
+        placeholder={placeholder}
+        onChange={(e) => setSettings({ ...settings, [name]: e.target.value })}
+        className="mt-1 w-full text-sm border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        required
+      />
+    </label>
+  );
+
+  return (
+    <div className="space-y-6">
+      {error && <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">{error}</div>}
+      {notice && <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-700">{notice}</div>}
+
+      {role === 'owner' && !loading && (
+        <form onSubmit={saveSettings} className="bg-white rounded-lg shadow p-6 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Invoicing details</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {hasSettings
+                ? 'Printed on every new invoice. Issued invoices keep the details they were issued with.'
+                : 'Add your tax details to issue an invoice for every rent payment automatically.'}
+            </p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {field('sellerName', 'Name on invoices')}
+            {field('taxNumber', 'Tax number (adószám)', '12345678-1-42')}
+            {field('postalCode', 'Postal code', '1092')}
+            {field('city', 'City', 'Budapest')}
+            {field('streetAddress', 'Street address', 'Ráday utca 12.')}
+            {field('numberPrefix', 'Invoice number prefix', 'SA')}
+          </div>
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">VAT</span>
+            <select
+              value={settings.vatStatus}
+              onChange={(e) => setSettings({ ...settings, vatStatus: e.target.value as VatStatus })}
+              className="mt-1 w-full text-sm border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(VAT_LABELS) as VatStatus[]).map((status) => (
+                <option key={status} value={status}>
+                  {VAT_LABELS[status]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="submit"
+            disabled={busy === 'settings'}
+            className="bg-blue-600 text-white text-sm font-medium rounded-lg px-4 py-2 hover:bg-blue-700 disabled:opacity-60"
+          >
+            {busy === 'settings' ? 'Saving…' : 'Save invoicing details'}
+          </button>
+        </form>
+      )}
+
+      <div className="bg-white rounded-lg shadow">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">{role === 'owner' ? 'Issued invoices' : 'Rent invoices'}</h2>
+        </div>
+        {loading ? (
+          <div className="px-6 py-8 space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-12 bg-gray-200 rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : invoices.length === 0 ? (
+          <p className="px-6 py-8 text-sm text-gray-600">
+            {role === 'owner'
+              ? 'No invoices yet. One is issued for every rent payment once your invoicing details are saved.'
+              : 'No invoices yet. Your landlord issues one for every rent payment.'}
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {invoices.map((invoice) => (
+              <li key={invoice.id} className="px-6 py-4 flex flex-wrap items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {invoice.invoiceNumber} · {invoice.grossHuf.toLocaleString()} HUF
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {role === 'owner' ? invoice.buyer.name : invoice.seller.name} · rent {invoice.periodStart} –{' '}
+                    {invoice.periodEnd} · issued {invoice.issueDate}
+                  </p>
+                  {role === 'owner' && invoice.navMessages.length > 0 && (
+                    <ul className="mt-1 text-xs text-red-600">
+                      {invoice.navMessages.map((message) => (
+                        <li key={message}>{message}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  {role === 'owner' && (
+                    <span className={`px-2 text-xs leading-5 font-semibold rounded-full ${NAV_LABELS[invoice.navStatus].className}`}>
+                      {NAV_LABELS[invoice.navStatus].label}
+                    </span>
+                  )}
+                  <a href={`/api/invoices/${invoice.id}?format=pdf`} className="text-sm text-blue-600 hover:underline">
+                    PDF
+                  </a>
+                  {role === 'owner' && (
+                    <>
+                      <a href={`/api/invoices/${invoice.id}?format=xml`} className="text-sm text-blue-600 hover:underline">
+                        NAV XML
+                      </a>
+                      {(invoice.navStatus === 'not_submitted' || invoice.navStatus === 'rejected') && (
+                        <button
+                          onClick={() => submitToNav(invoice)}
+                          disabled={busy === invoice.id}
+                          className="text-sm font-medium text-white bg-gray-800 rounded-lg px-3 py-1 hover:bg-gray-900 disabled:opacity-60"
+                        >
+                          {busy === invoice.id ? 'Reporting…' : 'Report to NAV'}
+                        </button>
+                      )}
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { loadStripe } from '@stripe/stripe-js';
+import { Elements, PaymentElement, useElements, useStripe } from '@stripe/react-stripe-js';
+
+const stripePromise = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY
+  ? loadStripe(process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY)
+  : null;
+
+export type LeaseStatusName = 'requested' | 'accepted' | 'signed' | 'active' | 'ended' | 'declined' | 'cancelled';
+
+const LEASE_STEPS: Array<{ status: LeaseStatusName; label: string }> = [
+  { status: 'requested', label: 'Requested' },
+  { status: 'accepted', label: 'Accepted' },
+  { status: 'signed', label: 'Signed' },
+  { status: 'active', label: 'Active' },
+  { status: 'ended', label: 'Ended' },
+];
+
+export const LEASE_STATUS_STYLES: Record<LeaseStatusName, string> = {
+  requested: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  accepted: 'bg-blue-100 text-blue-800 border-blue-200',
+  signed: 'bg-indigo-100 text-indigo-800 border-indigo-200',
+  active: 'bg-green-100 text-green-800 border-green-200',
+  ended: 'bg-gray-100 text-gray-800 border-gray-200',
+  declined: 'bg-red-100 text-red-800 border-red-200',
+  cancelled: 'bg-gray-100 text-gray-800 border-gray-200',
+};
+
+/**
+ * Requested -> accepted -> signed -> active -> ended, with the current step highlighted
+ */
+export function LeaseProgress({ status }: { status: LeaseStatusName }) {
+  if (status === 'declined' || status === 'cancelled') {
+    return (
+      <p className="text-sm text-gray-500">
+        This lease was {status}.
+      </p>
+    );
+  }
+
+  const current = LEASE_STEPS.findIndex((step) => step.status === status);
+  return (
+    <ol className="flex items-center gap-2 text-xs">
+      {LEASE_STEPS.map((step, index) => (
+        <li key={step.status} className="flex items-center gap-2">
+          <span
+            className={`px-2 py-1 rounded-full border ${
+              index < current
+                ? 'bg-green-50 text-green-700 border-green-200'
+                : index === current
+                  ? LEASE_STATUS_STYLES[step.status]
+                  : 'bg-white text-gray-400 border-gray-200'
+            }`}
+          >
+            {step.label}
+          </span>
+          {index < LEASE_STEPS.length - 1 && <span className="text-gray-300">→</span>}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function FirstPaymentForm({ bookingId, onCancel }: { bookingId: string; onCancel: () => void }) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) return;
+
+    setLoading(true);
+    setError(null);
+    const { error: submitError } = await stripe.confirmPayment({
+      elements,
+      confirmParams: {
+        return_url: `${window.location.origin}/dashboard/bookings?booking=${bookingId}&payment=success`,
+      },
+    });
+    // Only reached when the payment could not be confirmed; success redirects
+    setError(submitError?.message || 'An error occurred during payment');
+    setLoading(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <PaymentElement options={{ layout: 'tabs' }} />
+      <p className="text-xs text-gray-500">
+        Your card is saved with Stripe and charged for each month&apos;s rent on its due date.
+      </p>
+      {error && <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={loading}
+          className="flex-1 px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium rounded-lg transition"
+        >
+          Later
+        </button>
+        <button
+          type="submit"
+          disabled={loading || !stripe}
+          className="flex-1 px-4 py-2 bg-yellow-400 hover:bg-yellow-500 text-gray-900 font-semibold rounded-lg transition disabled:opacity-50"
+        >
+          {loading ? 'Processing...' : 'Pay now'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/** A monthly rent charge the tenant's bank asked them to confirm */
+export interface HeldRentPayment {
+  id: string;
+  amountHuf: number;
+  periodStart: string;
+}
+
+interface LeaseActionsProps {
+  bookingId: string;
+  role: 'tenant' | 'owner';
+  status: LeaseStatusName;
+  paymentStatus: string | null;
+  firstPaymentHuf: number | null;
+  terminationDate?: string | null; // Last day the tenant asked for
+  terminationAccepted?: boolean;
+  heldRentPayments?: HeldRentPayment[];
+}
+
+export default function LeaseActions({
+  bookingId,
+  role,
+  status,
+  paymentStatus,
+  firstPaymentHuf,
+  terminationDate,
+  terminationAccepted,
+  heldRentPayments = [],
+}: LeaseActionsProps) {
+  const router = useRouter();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [clientSecret, setClientSecret] = useState<string | null>(null);
+  const [lastDay, setLastDay] = useState('');
+
+  const request = async (url: string, body: Record<string, string>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Something went wrong');
+        return null;
+      }
+      return result;
+    } catch {
+      setError('Network error. Please try again.');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const act = async (action: string, confirmMessage?: string, extra: Record<string, string> = {}) => {
+    if (confirmMessage && !window.confirm(confirmMessage)) return;
+    const result = await request(`/api/bookings/${bookingId}`, { action, ...extra });
+    if (!result) return;
+    if (result.clientSecret) {
+      setClientSecret(result.clientSecret);
+    }
+    router.refresh();
+  };
+
+  const pay = async () => {
+    const result = await request('/api/payments/create-intent', { bookingId });
+    if (result?.clientSecret) setClientSecret(result.clientSecret);
+  };
+
+  // The saved card is confirmed again on-session so the bank can run 3-D Secure;
+  // the webhook then marks the payment paid
+  const confirmRent = async (paymentId: string) => {
+    const result = await request('/api/payments/create-intent', { bookingId, paymentId });
+    if (!result?.clientSecret) return;
+
+    const stripe = stripePromise ? await stripePromise : null;
+    if (!stripe) {
+      setError('Payments are not available right now');
+      return;
+    }
+    setBusy(true);
+    const { error: confirmError } = await stripe.confirmCardPayment(
+      result.clientSecret,
+      result.paymentMethodId ? { payment_method: result.paymentMethodId } : undefined
+    );
+    setBusy(false);
+    if (confirmError) {
+      setError(confirmError.message || 'The payment could not be confirmed');
+      return;
+    }
+    router.refresh();
+  };
+
+  if (clientSecret && stripePromise) {
+    return (
+      <Elements stripe={stripePromise} options={{ clientSecret, appearance: { theme: 'stripe' } }}>
+        <FirstPaymentForm bookingId={bookingId} onCancel={() => setClientSecret(null)} />
+      </Elements>
+    );
+  }
+
+  const amount = firstPaymentHuf ? `${firstPaymentHuf.toLocaleString()} HUF` : '';
+  const primary =
+    'block w-full text-center px-4 py-2 bg-yellow-400 hover:bg-yellow-500 text-gray-900 font-semibold rounded-lg transition disabled:opacity-50';
+  const secondary =
+    'w-full text-center px-4 py-2 text-red-600 hover:bg-red-50 font-medium rounded-lg transition text-sm disabled:opacity-50';
+
+  return (
+    <div className="space-y-2">
+      {role === 'owner' && status === 'requested' && (
+        <div className="flex gap-2">
+          <button onClick={() => act('accept')} disabled={busy} className="text-green-600 hover:text-green-900">
+            Accept
+          </button>
+          <button onClick={() => act('decline')} disabled={busy} className="text-red-600 hover:text-red-900">
+            Decline
+          </button>
+        </div>
+      )}
+
+      {role === 'tenant' && status === 'accepted' && (
+        <button onClick={() => act('sign')} disabled={busy} className={primary}>
+          Sign lease &amp; pay {amount}
+        </button>
+      )}
+
+      {role === 'tenant' && status === 'signed' && paymentStatus !== 'paid' && (
+        <button onClick={pay} disabled={busy} className={primary}>
+          Pay first month + deposit {amount}
+        </button>
+      )}
+
+      {(status === 'requested' || status === 'accepted' || (status === 'signed' && paymentStatus !== 'paid')) &&
+        !(role === 'owner' && status === 'requested') && (
+          <button
+            onClick={() => act('cancel', 'Cancel this lease?')}
+            disabled={busy}
+            className={secondary}
+          >
+            {role === 'tenant' && status === 'requested' ? 'Cancel Application' : 'Cancel Lease'}
+          </button>
+        )}
+
+      {role === 'tenant' &&
+        status === 'active' &&
+        heldRentPayments.map((payment) => (
+          <div key={payment.id} className="space-y-2">
+            <p className="text-sm text-gray-600">
+              Your bank asked you to confirm the rent from {payment.periodStart}.
+            </p>
+            <button onClick={() => confirmRent(payment.id)} disabled={busy} className={primary}>
+              Confirm rent payment {payment.amountHuf.toLocaleString()} HUF
+            </button>
+          </div>
+        ))}
+
+      {status === 'active' && terminationDate && terminationAccepted && (
+        <p className="text-sm text-gray-600">Lease ends early; the last day is {terminationDate}.</p>
+      )}
+
+      {status === 'active' && terminationDate && !terminationAccepted && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            {role === 'tenant'
+              ? `You asked to end the lease on ${terminationDate}. Waiting for the owner.`
+              : `The tenant asked to end the lease on ${terminationDate}.`}
+          </p>
+          {role === 'owner' && (
+            <div className="flex gap-2">
+              <button onClick={() => act('accept_termination')} disabled={busy} className="text-green-600 hover:text-green-900">
+                Accept
+              </button>
+              <button onClick={() => act('decline_termination')} disabled={busy} className="text-red-600 hover:text-red-900">
+                Decline
+              </button>
+            </div>
+          )}
+          {role === 'tenant' && (
+            <button onClick={() => act('decline_termination')} disabled={busy} className={secondary}>
+              Withdraw Request
+            </button>
+          )}
+        </div>
+      )}
+
+      {role === 'tenant' && status === 'active' && !terminationDate && (
+        <div className="flex gap-2">
+          <input
+            type="date"
+            value={lastDay}
+            onChange={(e) => setLastDay(e.target.value)}
+            aria-label="Last day"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <button
+            onClick={() => act('request_termination', undefined, { terminationDate: lastDay })}
+            disabled={busy || !lastDay}
+            className={secondary}
+          >
+            Request Early End
+          </button>
+        </div>
+      )}
+
+      {role === 'owner' && status === 'active' && (
+        <button
+          onClick={() => act('end', 'End this lease now? Remaining rent will no longer be charged.')}
+          disabled={busy}
+          className={secondary}
+        >
+          End Lease Early
+        </button>
+      )}
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+    </div>
+  );
+}
@@ -2,12 +2,26 @@
 'use client';
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { GoogleMap, Marker, useJsApiLoader } from '@react-google-maps/api';
+import { GoogleMap, Marker, Polygon, useJsApiLoader } from '@react-google-maps/api';
 import Image from 'next/image';
 import { supabase } from '@/utils/supabaseClient';
 
 import { getMapsConfig } from '@/lib/maps/config';
 import { MapsApiKeyNotice } from '@/components/maps/MapsApiKeyNotice';
+import { minutesWithinDiscs, type IsochronePolygon, type ReachDisc } from '@/lib/gtfs/isochrone';
+
+export interface MapIsochrone {
+  discs: ReachDisc[];
+  polygon: IsochronePolygon;
+  metersPerMinute: number;
+}
+
+interface MapWithFiltersProps {
+  // Pre-computed reachable area to draw; takes precedence over commuteOrigin
+  isochrone?: MapIsochrone | null;
+  // When set, a "within N minutes" control fetches the isochrone from this origin
+  commuteOrigin?: { universityId?: string; lat?: number; lng?: number };
+}
 
 const containerStyle = {
   width: '100%',
@@ -19,7 +33,7 @@ const center = {
   lng: 19.0402,
 };
 
-export default function MapWithFilters() {
+export default function MapWithFilters({ isochrone: isochroneProp, commuteOrigin }: MapWithFiltersProps = {}) {
   const mapsConfig = useMemo(() => getMapsConfig({ requireApiKey: false, silent: true }), []);
   const shouldShowFallback = !mapsConfig.apiKey;
 
@@ -36,6 +50,12 @@ export default function MapWithFilters() {
   const [bathrooms, setBathrooms] = useState<number>(0);
   const [balconies, setBalconies] = useState<number>(0);
   const [nearbyFilters, setNearbyFilters] = useState<string[]>([]);
+  const [maxCommuteMinutes, setMaxCommuteMinutes] = useState<number>(0);
+  const [fetchedIsochrone, setFetchedIsochrone] = useState<MapIsochrone | null>(null);
+  const isochrone = isochroneProp ?? fetchedIsochrone;
+  const originUniversityId = commuteOrigin?.universityId;
+  const originLat = commuteOrigin?.lat;
+  const originLng = commuteOrigin?.lng;
 
   useEffect(() => {
     async function fetchApartments() {
@@ -45,6 +65,44 @@ export default function MapWithFilters() {
     fetchApartments();
   }, []);
 
+  useEffect(() => {
+    const hasOrigin = Boolean(originUniversityId) || (originLat !== undefined && originLng !== undefined);
+    if (isochroneProp !== undefined || !hasOrigin || maxCommuteMinutes <= 0) {
+      setFetchedIsochrone(null);
+      return;
+    }
+
+    const params = new URLSearchParams({ minutes: String(maxCommuteMinutes), mode: 'transit' });
+    if (originUniversityId) params.set('universityId', originUniversityId);
+    if (originLat !== undefined) params.set('lat', String(originLat));
+    if (originLng !== undefined) params.set('lng', String(originLng));
+
+    let cancelled = false;
+    async function fetchIsochrone() {
+      try {
+        const response = await fetch(`/api/commute/isochrone?${params.toString()}`);
+        if (!response.ok) return;
+        const { data } = await response.json();
+        if (!cancelled) setFetchedIsochrone(data);
+      } catch (error) {
+        console.error('Failed to fetch isochrone:', error);
+      }
+    }
+    fetchIsochrone();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isochroneProp, originUniversityId, originLat, originLng, maxCommuteMinutes]);
+
+  const isochronePaths = useMemo(
+    () =>
+      isochrone?.polygon.coordinates.map((polygon) =>
+        polygon[0].map(([lng, lat]) => ({ lat, lng }))
+      ) ?? [],
+    [isochrone]
+  );
+
   const filtered = useMemo(() => {
     return apartments.filter((apt) => {
       const price = apt.price_huf || apt.price || 0;
@@ -54,10 +112,16 @@ export default function MapWithFilters() {
         (apt.bedrooms || 0) >= bedrooms &&
         (apt.bathrooms || 0) >= bathrooms &&
         (apt.balcony || 0) >= balconies &&
-        (!nearbyFilters.length || (apt.neighborhood_tags && nearbyFilters.every((tag) => apt.neighborhood_tags?.includes(tag))))
+        (!nearbyFilters.length || (apt.neighborhood_tags && nearbyFilters.every((tag) => apt.neighborhood_tags?.includes(tag)))) &&
+        (!isochrone ||
+          minutesWithinDiscs(
+            { lat: apt.latitude ?? apt.lat, lng: apt.longitude ?? apt.lng },
+            isochrone.discs,
+            isochrone.metersPerMinute
+          ) !== null)
       );
     });
-  }, [apartments, minPrice, maxPrice, bedrooms, bathrooms, balconies, nearbyFilters]);
+  }, [apartments, minPrice, maxPrice, bedrooms, bathrooms, balconies, nearbyFilters, isochrone]);
 
   if (shouldShowFallback || loadError) {
     return <MapsApiKeyNotice message={mapsConfig.fallbackMessage} />;
@@ -130,6 +194,23 @@ export default function MapWithFilters() {
             </button>
           ))}
         </div>
+
+        {/* Commute time budget */}
+        {commuteOrigin && isochroneProp === undefined && (
+          <div className="flex items-center gap-2 rounded-full border px-4 py-1 text-sm bg-orange-100 text-orange-700">
+            <span>Within</span>
+            <input
+              type="number"
+              min={0}
+              max={90}
+              value={maxCommuteMinutes || ''}
+              onChange={(e) => setMaxCommuteMinutes(Number(e.target.value))}
+              placeholder="min"
+              className="bg-transparent w-12 outline-none"
+            />
+            <span>min of campus</span>
+          </div>
+        )}
       </div>
 
       {/* Google Map */}
@@ -141,6 +222,20 @@ export default function MapWithFilters() {
           mapId: mapsConfig.mapId,
         }}
       >
+        {isochronePaths.map((path, index) => (
+          <Polygon
+            key={index}
+            paths={path}
+            options={{
+              fillColor: '#f97316',
+              fillOpacity: 0.12,
+              strokeColor: '#f97316',
+              strokeOpacity: 0.4,
+              strokeWeight: 1,
+              clickable: false,
+            }}
+          />
+        ))}
         {filtered.map((apt) => (
           <Marker key={apt.id} position={{ lat: apt.latitude ?? apt.lat, lng: apt.longitude ?? apt.lng }} />
         ))}
@@ -10,6 +10,8 @@ interface MediaFile {
   mime_type: string;
   uploaded_at: string;
   status: 'uploading' | 'optimizing' | 'complete';
+  quality_score?: number;
+  warnings?: string[];
 }
 
 export function MediaUploader({
@@ -32,33 +34,46 @@ export function MediaUploader({
     setError(null);
 
     try {
-      const formData = new FormData();
-      Array.from(fileList).forEach((file) => {
-        formData.append('files', file);
-      });
-      formData.append('apartmentId', apartmentId);
-
       // Get CSRF token from cookies
       const csrfToken = document.cookie
         .split('; ')
         .find(row => row.startsWith('csrf_token='))
         ?.split('=')[1];
 
-      const response = await fetch('/api/media/upload', {
-        method: 'POST',
-        headers: {
-          'X-CSRF-Token': csrfToken || '',
-        },
-        body: formData,
-      });
-
-      if (!response.ok) {
-        throw new Error('Upload failed');
-      }
-
-      const data = (await response.json()) as { files: MediaFile[] };
-      setFiles([...files, ...data.files]);
-      onUploadComplete?.(data.files);
+      // The upload API takes one file per request and analyzes its quality
+      const uploaded = await Promise.all(Array.from(fileList).map(async (file): Promise<MediaFile> => {
+        const formData = new FormData();
+        formData.append('file', file);
+        formData.append('type', 'apartment');
+        formData.append('apartmentId', apartmentId);
+
+        const response = await fetch('/api/media/upload', {
+          method: 'POST',
+          headers: {
+            'X-CSRF-Token': csrfToken || '',
+          },
+          body: formData,
+        });
+
+        if (!response.ok) {
+          throw new Error('Upload failed');
+        }
+
+        const { url, data } = await response.json();
+        return {
+          id: data?.original || url,
+          url,
+          size_bytes: file.size,
+          mime_type: file.type,
+          uploaded_at: new Date().toISOString(),
+          status: 'complete',
+          quality_score: data?.analysis?.isValid ? data.analysis.quality : undefined,
+          warnings: data?.analysis?.warnings ?? [],
+        };
+      }));
+
+      setFiles([...files, ...uploaded]);
+      onUploadComplete?.(uploaded);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Upload failed');
     } finally {
@@ -146,6 +161,14 @@ export function MediaUploader({
                   Delete
                 </button>
               </div>
+              {file.warnings && file.warnings.length > 0 && (
+                <div
+                  className="absolute top-2 left-2 right-2 bg-amber-500/90 text-white px-2 py-1 rounded text-xs truncate"
+                  title={file.warnings.join('\n')}
+                >
+                  {file.warnings[0]}
+                </div>
+              )}
               {file.status === 'optimizing' && (
                 <div className="absolute bottom-2 left-2 bg-blue-600 text-white px-2 py-1 rounded text-xs">
                   Optimizing...
@@ -3,6 +3,7 @@
 import { useState, useRef, useCallback } from 'react';
 import { Upload, X, AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
 import { ImageGallery, GalleryImage } from './ImageGallery';
+import { coverScore } from '@/lib/images/quality';
 
 interface UploadProgress {
     id: string;
@@ -13,6 +14,10 @@ interface UploadProgress {
     result?: {
         url: string;
         thumbnailUrl?: string;
+        qualityScore?: number;
+        width?: number;
+        height?: number;
+        warnings: string[];
     };
 }
 
@@ -63,7 +68,8 @@ export function MultiFileUploader({
                 ?.split('=')[1];
 
             const formData = new FormData();
-            formData.append('files', upload.file);
+            formData.append('file', upload.file);
+            formData.append('type', 'apartment');
             if (apartmentId) {
                 formData.append('apartmentId', apartmentId);
             }
@@ -87,7 +93,8 @@ export function MultiFileUploader({
                     if (xhr.status >= 200 && xhr.status < 300) {
                         try {
                             const data = JSON.parse(xhr.responseText);
-                            const file = data.files?.[0];
+                            const file = data.data;
+                            const analysis = file?.analysis;
 
                             // Update to processing status
                             setUploads(prev =>
@@ -103,6 +110,10 @@ export function MultiFileUploader({
                                 const result = {
                                     url: file?.optimized || file?.original || '',
                                     thumbnailUrl: file?.thumbnail,
+                                    qualityScore: analysis?.isValid ? analysis.quality : undefined,
+                                    width: analysis?.width || undefined,
+                                    height: analysis?.height || undefined,
+                                    warnings: analysis?.warnings ?? [],
                                 };
 
                                 setUploads(prev =>
@@ -194,14 +205,27 @@ export function MultiFileUploader({
         const successfulUploads = results.filter(r => r.status === 'complete' && r.result);
 
         if (successfulUploads.length > 0) {
-            const newImages: GalleryImage[] = successfulUploads.map((upload, idx) => ({
+            const newImages: GalleryImage[] = successfulUploads.map((upload) => ({
                 id: upload.id,
                 url: upload.result!.url,
                 thumbnailUrl: upload.result!.thumbnailUrl,
                 status: 'complete',
-                isCover: images.length === 0 && idx === 0, // First image is cover if no existing
+                qualityScore: upload.result!.qualityScore,
+                width: upload.result!.width,
+                height: upload.result!.height,
+                warnings: upload.result!.warnings,
+                isCover: false,
             }));
 
+            // With no existing photos, the best-scoring upload goes first as the cover
+            if (images.length === 0) {
+                newImages.sort((a, b) =>
+                    coverScore({ qualityScore: b.qualityScore ?? null, width: b.width ?? null, height: b.height ?? null }) -
+                    coverScore({ qualityScore: a.qualityScore ?? null, width: a.width ?? null, height: a.height ?? null })
+                );
+                newImages[0].isCover = true;
+            }
+
             const updatedImages = [...images, ...newImages];
 
             // Ensure first image is cover
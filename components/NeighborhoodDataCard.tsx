@@ -38,6 +38,7 @@ type NeighborhoodData = {
     trend: 'up' | 'down' | 'stable';
     changePercent: number;
   };
+  sources?: Array<'openstreetmap' | 'google_places' | 'walkscore'>;
 };
 
 type NeighborhoodDataCardProps = {
@@ -270,6 +271,15 @@ export default function NeighborhoodDataCard({ latitude, longitude, address }: N
             </span>
           </div>
         </div>
+        {data.sources?.includes('openstreetmap') && (
+          <p className="text-xs text-gray-400 mt-3">
+            Map data ©{' '}
+            <a href="https://www.openstreetmap.org/copyright" target="_blank" rel="noopener noreferrer" className="underline">
+              OpenStreetMap
+            </a>{' '}
+            contributors
+          </p>
+        )}
       </div>
 
       {/* Price Trends */}
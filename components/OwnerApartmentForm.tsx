@@ -266,7 +266,7 @@ export default function OwnerApartmentForm({ initialData }: { initialData?: Init
               />
               {price && district && (
                 <div className="mt-2">
-                  <PriceValidationHint price={price} district={district} />
+                  <PriceValidationHint price={price} district={district} bedrooms={roomCounts.Bedroom} />
                 </div>
               )}
             </div>
@@ -0,0 +1,131 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface PricePoint {
+  at: string;
+  priceHuf: number;
+}
+
+interface PriceHistory {
+  currentPriceHuf: number;
+  points: PricePoint[];
+  changes: Array<{ oldPriceHuf: number | null; newPriceHuf: number; createdAt: string }>;
+  lowestHuf: number;
+  highestHuf: number;
+  lastDrop: { fromHuf: number; toHuf: number; percent: number; at: string } | null;
+}
+
+interface PriceHistoryChartProps {
+  apartmentId: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 64 };
+
+const formatHuf = (huf: number) => `${huf.toLocaleString('hu-HU')} Ft`;
+const formatDate = (value: string | number) =>
+  new Date(value).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+/**
+ * Step chart of a listing's rent over time; hidden until the price has changed
+ */
+export default function PriceHistoryChart({ apartmentId }: PriceHistoryChartProps) {
+  const [history, setHistory] = useState<PriceHistory | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/apartments/${apartmentId}/price-history`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled) setHistory(data?.history ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setHistory(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [apartmentId]);
+
+  if (!history || history.changes.length === 0) return null;
+
+  const start = new Date(history.points[0].at).getTime();
+  const end = Math.max(Date.now(), new Date(history.points[history.points.length - 1].at).getTime() + 1);
+  // Pad the price axis so a flat segment does not sit on the frame
+  const spread = Math.max(history.highestHuf - history.lowestHuf, history.highestHuf * 0.05);
+  const low = history.lowestHuf - spread * 0.2;
+  const high = history.highestHuf + spread * 0.2;
+
+  const x = (time: number) => PADDING.left + ((time - start) / (end - start)) * (WIDTH - PADDING.left - PADDING.right);
+  const y = (huf: number) => PADDING.top + ((high - huf) / (high - low)) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+  const path = history.points
+    .map((point, index) => {
+      const px = x(new Date(point.at).getTime());
+      const py = y(point.priceHuf);
+      if (index === 0) return `M ${px} ${py}`;
+      const previous = history.points[index - 1];
+      return `L ${px} ${y(previous.priceHuf)} L ${px} ${py}`;
+    })
+    .concat(`L ${x(end)} ${y(history.points[history.points.length - 1].priceHuf)}`)
+    .join(' ');
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 sm:p-8">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+        <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+          <span>📉</span> Price history
+        </h2>
+        {history.lastDrop && (
+          <span className="text-sm font-medium text-green-700 bg-green-50 rounded-full px-3 py-1">
+            Dropped {history.lastDrop.percent}% on {formatDate(history.lastDrop.at)}
+          </span>
+        )}
+      </div>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label={`Rent between ${formatHuf(history.lowestHuf)} and ${formatHuf(history.highestHuf)} since ${formatDate(history.points[0].at)}`}
+      >
+        {[history.highestHuf, history.lowestHuf].map((huf) => (
+          <g key={huf}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(huf)} y2={y(huf)} stroke="#e5e7eb" strokeDasharray="4 4" />
+            <text x={PADDING.left - 8} y={y(huf) + 4} textAnchor="end" fontSize="11" fill="#6b7280">
+              {formatHuf(huf)}
+            </text>
+          </g>
+        ))}
+        <path d={path} fill="none" stroke="#7e22ce" strokeWidth="2.5" strokeLinejoin="round" />
+        {history.points.map((point) => (
+          <circle key={point.at} cx={x(new Date(point.at).getTime())} cy={y(point.priceHuf)} r="3.5" fill="#7e22ce">
+            <title>{`${formatDate(point.at)}: ${formatHuf(point.priceHuf)}`}</title>
+          </circle>
+        ))}
+        <text x={PADDING.left} y={HEIGHT - 8} fontSize="11" fill="#6b7280">
+          {formatDate(start)}
+        </text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" fontSize="11" fill="#6b7280">
+          Today
+        </text>
+      </svg>
+
+      <ul className="mt-4 divide-y divide-gray-100 text-sm">
+        {[...history.changes].reverse().map((change) => (
+          <li key={change.createdAt} className="flex justify-between py-2">
+            <span className="text-gray-500">{formatDate(change.createdAt)}</span>
+            <span className="text-gray-800">
+              {change.oldPriceHuf !== null && <span className="line-through text-gray-400 mr-2">{formatHuf(change.oldPriceHuf)}</span>}
+              <span className={change.oldPriceHuf !== null && change.newPriceHuf < change.oldPriceHuf ? 'text-green-700 font-medium' : ''}>
+                {formatHuf(change.newPriceHuf)}
+              </span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { AlertCircle, TrendingUp, TrendingDown } from 'lucide-react';
 interface PriceValidationHintProps {
   price: number | '';
   district: number | '';
+  bedrooms?: number;
 }
 
 interface PriceRange {
@@ -13,14 +14,16 @@ interface PriceRange {
   max: number;
   median: number;
   trend: 'up' | 'down' | 'stable';
+  modelVersion: number | null;
+  confidence: number | null;
 }
 
 /**
  * Inline price validation component
- * Shows hints like "rent looks high for District 6" using pricing intelligence
- * Integrates with existing pricing-svc
+ * Shows hints like "rent looks high for District 6" against the rent model's
+ * expected range, or the district quantiles until a model is published
  */
-export function PriceValidationHint({ price, district }: PriceValidationHintProps) {
+export function PriceValidationHint({ price, district, bedrooms = 2 }: PriceValidationHintProps) {
   const [priceRange, setPriceRange] = useState<PriceRange | null>(null);
   const [loading, setLoading] = useState(false);
   const [hint, setHint] = useState<{ type: 'warning' | 'info' | 'success'; message: string } | null>(null);
@@ -37,9 +40,9 @@ export function PriceValidationHint({ price, district }: PriceValidationHintProp
       try {
         setLoading(true);
 
-        // Fetch market pricing data for this district
+        // Fetch the expected rent range for this district
         const response = await fetch(
-          `/api/pricing/district?district=${district}&bedrooms=2`
+          `/api/pricing/district?district=${district}&bedrooms=${bedrooms}`
         );
 
         if (!response.ok) {
@@ -49,30 +52,30 @@ export function PriceValidationHint({ price, district }: PriceValidationHintProp
         }
 
         const data = await response.json();
-        const { min, max, median, trend } = data;
+        const { min, max, median, trend, modelVersion, confidence } = data;
 
-        setPriceRange({ min, max, median, trend: trend || 'stable' });
+        setPriceRange({ min, max, median, trend: trend || 'stable', modelVersion, confidence });
 
         // Generate hint based on comparison
         if (price > max * 1.2) {
           setHint({
             type: 'warning',
-            message: `This rent is ${Math.round(((price - max) / max) * 100)}% above the market average for District ${district}. Consider lowering the price to attract more inquiries.`,
+            message: `This rent is ${Math.round(((price - max) / max) * 100)}% above the expected range for District ${district}. Consider lowering the price to attract more inquiries.`,
           });
         } else if (price > max) {
           setHint({
             type: 'warning',
-            message: `This rent is above the typical range (${Math.round(max / 1000)}k-${Math.round(max / 1000)}k HUF) for District ${district}.`,
+            message: `This rent is above the typical range (${Math.round(min / 1000)}k-${Math.round(max / 1000)}k HUF) for District ${district}.`,
           });
         } else if (price < min * 0.8) {
           setHint({
             type: 'success',
-            message: `Great price! This is ${Math.round(((min - price) / min) * 100)}% below market average for District ${district}.`,
+            message: `Great price! This is ${Math.round(((min - price) / min) * 100)}% below the expected range for District ${district}.`,
           });
         } else if (price >= median * 0.95 && price <= median * 1.05) {
           setHint({
             type: 'info',
-            message: `This price is right at the market median for District ${district} (${Math.round(median / 1000)}k HUF).`,
+            message: `This price is right at the expected rent for District ${district} (${Math.round(median / 1000)}k HUF).`,
           });
         } else {
           setHint(null);
@@ -86,7 +89,7 @@ export function PriceValidationHint({ price, district }: PriceValidationHintProp
     };
 
     fetchPriceRange();
-  }, [price, district]);
+  }, [price, district, bedrooms]);
 
   if (!hint) {
     return null;
@@ -119,7 +122,9 @@ export function PriceValidationHint({ price, district }: PriceValidationHintProp
         <p className={`text-sm ${textColor}`}>{hint.message}</p>
         {priceRange && (
           <p className={`text-xs mt-1 ${textColor.replace('700', '600')}`}>
-            Market range: {Math.round(priceRange.min / 1000)}k - {Math.round(priceRange.max / 1000)}k HUF
+            {priceRange.modelVersion !== null
+              ? `Expected range: ${Math.round(priceRange.min / 1000)}k - ${Math.round(priceRange.max / 1000)}k HUF · rent model v${priceRange.modelVersion}, ${Math.round((priceRange.confidence ?? 0) * 100)}% confidence`
+              : `Market range: ${Math.round(priceRange.min / 1000)}k - ${Math.round(priceRange.max / 1000)}k HUF`}
           </p>
         )}
       </div>
@@ -0,0 +1,170 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import VerificationStatus, { type UniversityVerificationBadge } from '@/components/VerificationStatus';
+
+interface UniversityEmailStatus {
+  verified: boolean;
+  email: string | null;
+  universityName: string | null;
+  faculty: string | null;
+  pendingEmail: string | null;
+}
+
+interface UniversityEmailVerificationProps {
+  userId: string;
+  userType: 'student' | 'owner';
+  linkResult?: string | null; // `university` query param set by the magic link redirect
+}
+
+const LINK_MESSAGES: Record<string, string> = {
+  expired: 'That link has expired or was already used. Request a new code below.',
+  locked: 'Too many wrong codes. Request a new code below.',
+  not_found: 'That verification link is not valid. Request a new code below.',
+  error: 'We could not verify that link. Please try again.',
+};
+
+export default function UniversityEmailVerification({ userId, userType, linkResult }: UniversityEmailVerificationProps) {
+  const [status, setStatus] = useState<UniversityEmailStatus | null>(null);
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState(linkResult && LINK_MESSAGES[linkResult] ? LINK_MESSAGES[linkResult] : '');
+
+  const loadStatus = useCallback(async () => {
+    const response = await fetch('/api/verification/university');
+    if (response.ok) {
+      const { data } = await response.json();
+      setStatus(data);
+      setSentTo(data.pendingEmail);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const post = async (body: Record<string, string>) => {
+    setBusy(true);
+    setError('');
+    try {
+      const response = await fetch('/api/verification/university', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        const remaining = typeof result.attemptsRemaining === 'number'
+          ? ` (${result.attemptsRemaining} attempts left)`
+          : '';
+        setError(`${result.error || 'Verification failed'}${remaining}`);
+        return null;
+      }
+      return result.data;
+    } catch {
+      setError('Verification failed. Please try again.');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sendCode = async () => {
+    const started = await post({ action: 'start', email });
+    if (started) {
+      setSentTo(started.email);
+      setCode('');
+    }
+  };
+
+  const confirmCode = async () => {
+    if (await post({ action: 'confirm', code })) {
+      await loadStatus();
+    }
+  };
+
+  const badge: UniversityVerificationBadge | null = status?.verified && status.universityName
+    ? { universityName: status.universityName, faculty: status.faculty }
+    : null;
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">University Email</h2>
+        <div className="relative">
+          <VerificationStatus
+            userId={userId}
+            userType={userType}
+            universityVerification={badge}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {badge ? (
+        <p className="text-sm text-gray-600">
+          {status?.email} is confirmed as your {badge.universityName} address.
+        </p>
+      ) : sentTo ? (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            We sent a 6-digit code and a link to <strong>{sentTo}</strong>. They expire in 15 minutes.
+          </p>
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={7}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="123456"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md tracking-widest focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <div className="flex space-x-3">
+            <button
+              onClick={confirmCode}
+              disabled={busy || code.replace(/\s/g, '').length !== 6}
+              className="flex-1 bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy ? 'Checking...' : 'Verify'}
+            </button>
+            <button
+              onClick={() => setSentTo(null)}
+              disabled={busy}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              Use another address
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Confirm your student status with your university address, e.g. name@student.elte.hu or name@edu.bme.hu.
+          </p>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="you@student.elte.hu"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button
+            onClick={sendCode}
+            disabled={busy || !email.includes('@')}
+            className="w-full bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {busy ? 'Sending...' : 'Send Code'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
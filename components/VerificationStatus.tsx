@@ -2,10 +2,16 @@
 
 import { useState } from 'react';
 
+export interface UniversityVerificationBadge {
+  universityName: string;
+  faculty?: string | null;
+}
+
 interface VerificationStatusProps {
   userId: string;
   userType: 'student' | 'owner';
   verificationLevel?: 'none' | 'basic' | 'verified' | 'premium';
+  universityVerification?: UniversityVerificationBadge | null; // confirmed university email
   className?: string;
 }
 
@@ -13,6 +19,7 @@ export default function VerificationStatus({
   userId,
   userType,
   verificationLevel = 'none',
+  universityVerification = null,
   className = ''
 }: VerificationStatusProps) {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -61,7 +68,7 @@ export default function VerificationStatus({
       return [
         { step: 'Email Verification', completed: verificationLevel !== 'none', required: true },
         { step: 'Phone Verification', completed: verificationLevel === 'basic' || verificationLevel === 'verified' || verificationLevel === 'premium', required: true },
-        { step: 'University ID', completed: verificationLevel === 'verified' || verificationLevel === 'premium', required: false },
+        { step: 'University Email', completed: Boolean(universityVerification), required: false },
         { step: 'Background Check', completed: verificationLevel === 'premium', required: false }
       ];
     } else {
@@ -96,6 +103,16 @@ export default function VerificationStatus({
         </svg>
       </div>
 
+      {universityVerification && (
+        <span
+          className="inline-flex items-center space-x-1 px-3 py-1 rounded-full text-sm font-medium bg-indigo-100 text-indigo-700"
+          title={universityVerification.faculty ?? 'University email verified'}
+        >
+          <span>🎓</span>
+          <span>{universityVerification.universityName}</span>
+        </span>
+      )}
+
       {isExpanded && (
         <div className="absolute top-full left-0 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-10">
           <div className="p-4">
@@ -0,0 +1,59 @@
+import { memo } from 'react';
+import type { AgentResultCard } from '@/lib/ai/search-agent';
+
+interface AgentResultsProps {
+  results: AgentResultCard[];
+  total: number;
+}
+
+function AgentResultsComponent({ results, total }: AgentResultsProps) {
+  if (results.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="px-3 py-2 border-b border-gray-100 bg-white">
+      <div className="text-xs font-semibold text-gray-700 mb-2 flex items-center justify-between">
+        <span>Top matches</span>
+        <span className="text-[10px] font-medium text-gray-500">{total} found</span>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {results.map(result => (
+          <a
+            key={result.id}
+            href={`/apartments/${result.id}`}
+            className="flex-shrink-0 w-56 rounded-lg border border-gray-200 hover:border-orange-300 hover:shadow-md transition-all bg-white overflow-hidden"
+          >
+            {result.photo && (
+              <img src={result.photo} alt={result.title} className="w-full h-20 object-cover" loading="lazy" />
+            )}
+            <div className="p-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="text-xs font-semibold text-gray-900 line-clamp-1">{result.title}</div>
+                <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-orange-100 text-orange-700 font-semibold flex-shrink-0">
+                  {result.score}%
+                </span>
+              </div>
+              <div className="text-[11px] text-gray-600 mt-0.5">
+                {result.price.toLocaleString('hu-HU')} HUF · District {result.district}
+                {result.commuteMinutes !== null && ` · ${Math.round(result.commuteMinutes)} min`}
+              </div>
+              <ul className="mt-1.5 space-y-0.5">
+                {result.reasons.slice(0, 2).map(reason => (
+                  <li key={reason.factor} className="text-[10px] text-gray-500 line-clamp-1">
+                    <span className="font-medium text-gray-700">{reason.factor}:</span> {reason.description}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const AgentResults = memo(AgentResultsComponent);
+
+export default AgentResults;
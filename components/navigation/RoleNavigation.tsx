@@ -68,6 +68,7 @@ export function StudentNavigation() {
         { href: '/dashboard', label: 'Overview' },
         { href: '/dashboard/favorites', label: 'Favorites' },
         { href: '/dashboard/bookings', label: 'Bookings' },
+        { href: '/dashboard/invoices', label: 'Invoices' },
         { href: '/dashboard/messages', label: 'Messages' },
         { href: '/dashboard/profile', label: 'Profile' },
         { href: '/apartments/create', label: 'List Your Place', badge: 'New' },
@@ -87,6 +88,7 @@ export function OwnerNavigation() {
         { href: '/owner/listings', label: 'My Listings' },
         { href: '/owner/listings/create', label: 'Create Listing' },
         { href: '/owner/bookings', label: 'Bookings' },
+        { href: '/owner/invoices', label: 'Invoices' },
         { href: '/owner/messages', label: 'Messages' },
         { href: '/owner/profile', label: 'Profile & Payouts' },
         { href: '/owner/analytics', label: 'Performance Insights' },
@@ -0,0 +1,106 @@
+-- GTFS timetable storage for BKK feed ingestion.
+-- Populated by CommuteAndPricingService.integrateGTFSData (npm run gtfs:import)
+-- and read by the commute services for real stops and scheduled connections.
+
+-- FEED IMPORTS -----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.gtfs_feeds (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  source text NOT NULL,
+  stop_count integer NOT NULL DEFAULT 0,
+  route_count integer NOT NULL DEFAULT 0,
+  trip_count integer NOT NULL DEFAULT 0,
+  stop_time_count integer NOT NULL DEFAULT 0,
+  service_count integer NOT NULL DEFAULT 0,
+  valid_from date,
+  valid_to date,
+  imported_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_gtfs_feeds_imported_at ON public.gtfs_feeds(imported_at DESC);
+
+-- STOPS ------------------------------------------------------------------------
+ALTER TABLE public.transit_stops
+  ADD COLUMN IF NOT EXISTS parent_station text;
+
+-- ROUTES & TRIPS ---------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.gtfs_routes (
+  route_id text PRIMARY KEY,
+  short_name text NOT NULL,
+  long_name text,
+  route_type integer NOT NULL DEFAULT 3
+);
+
+CREATE TABLE IF NOT EXISTS public.gtfs_trips (
+  trip_id text PRIMARY KEY,
+  route_id text NOT NULL,
+  service_id text NOT NULL,
+  headsign text,
+  direction_id smallint
+);
+
+CREATE INDEX IF NOT EXISTS idx_gtfs_trips_route ON public.gtfs_trips(route_id);
+CREATE INDEX IF NOT EXISTS idx_gtfs_trips_service ON public.gtfs_trips(service_id);
+
+-- STOP TIMES -------------------------------------------------------------------
+-- Times are stored as seconds after service-day midnight; values past 86400
+-- represent trips running after midnight on the same service day.
+CREATE TABLE IF NOT EXISTS public.gtfs_stop_times (
+  trip_id text NOT NULL,
+  stop_sequence integer NOT NULL,
+  stop_id text NOT NULL,
+  arrival_seconds integer NOT NULL,
+  departure_seconds integer NOT NULL,
+  PRIMARY KEY (trip_id, stop_sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_gtfs_stop_times_stop_departure
+  ON public.gtfs_stop_times(stop_id, departure_seconds);
+
+-- SERVICE CALENDAR -------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.gtfs_calendar (
+  service_id text PRIMARY KEY,
+  days boolean[] NOT NULL, -- Monday..Sunday
+  start_date date NOT NULL,
+  end_date date NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.gtfs_calendar_dates (
+  service_id text NOT NULL,
+  service_date date NOT NULL,
+  exception_type smallint NOT NULL CHECK (exception_type IN (1, 2)),
+  PRIMARY KEY (service_id, service_date)
+);
+
+CREATE OR REPLACE FUNCTION public.gtfs_service_active(p_service_id text, p_date date)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    (SELECT exception_type = 1
+       FROM public.gtfs_calendar_dates
+      WHERE service_id = p_service_id AND service_date = p_date),
+    (SELECT days[extract(isodow FROM p_date)::int]
+       FROM public.gtfs_calendar
+      WHERE service_id = p_service_id AND p_date BETWEEN start_date AND end_date),
+    false
+  );
+$$;
+
+-- Timetable data is public transport information; read-only for clients.
+ALTER TABLE public.gtfs_feeds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gtfs_routes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gtfs_trips ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gtfs_stop_times ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gtfs_calendar ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gtfs_calendar_dates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read GTFS feeds" ON public.gtfs_feeds FOR SELECT USING (true);
+CREATE POLICY "Public read GTFS routes" ON public.gtfs_routes FOR SELECT USING (true);
+CREATE POLICY "Public read GTFS trips" ON public.gtfs_trips FOR SELECT USING (true);
+CREATE POLICY "Public read GTFS stop times" ON public.gtfs_stop_times FOR SELECT USING (true);
+CREATE POLICY "Public read GTFS calendar" ON public.gtfs_calendar FOR SELECT USING (true);
+CREATE POLICY "Public read GTFS calendar dates" ON public.gtfs_calendar_dates FOR SELECT USING (true);
+
+COMMENT ON TABLE public.gtfs_feeds IS 'History of imported BKK GTFS feeds';
+COMMENT ON TABLE public.gtfs_stop_times IS 'Scheduled arrivals/departures per trip from the active GTFS feed';
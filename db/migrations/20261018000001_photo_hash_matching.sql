@@ -0,0 +1,60 @@
+-- Photo hash matching for duplicate detection.
+-- apartment_photo_hashes is populated on upload (/api/media/upload) and read by
+-- EnhancedDuplicateDetectionService to catch listings that reuse the same photos.
+
+-- HAMMING DISTANCE -------------------------------------------------------------
+-- Hashes are 64-bit values stored as signed bigint; the distance is the number
+-- of differing bits.
+CREATE OR REPLACE FUNCTION public.phash_distance(a bigint, b bigint)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT bit_count(int8send(a # b))::integer;
+$$;
+
+-- MATCHES ----------------------------------------------------------------------
+-- Photos of other apartments within p_max_distance of any photo of the given
+-- apartment, with photo counts on both sides for overlap scoring.
+CREATE OR REPLACE FUNCTION public.find_photo_hash_matches(
+  p_apartment_id uuid,
+  p_max_distance integer DEFAULT 10
+)
+RETURNS TABLE (
+  candidate_id uuid,
+  image_key text,
+  candidate_image_key text,
+  distance integer,
+  own_photo_count integer,
+  candidate_photo_count integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH own AS (
+    SELECT h.image_key, h.phash
+      FROM public.apartment_photo_hashes h
+     WHERE h.apartment_id = p_apartment_id
+  ),
+  matches AS (
+    SELECT other.apartment_id AS candidate_id,
+           own.image_key,
+           other.image_key AS candidate_image_key,
+           public.phash_distance(own.phash, other.phash) AS distance
+      FROM own
+      JOIN public.apartment_photo_hashes other
+        ON other.apartment_id <> p_apartment_id
+     WHERE public.phash_distance(own.phash, other.phash) <= p_max_distance
+  )
+  SELECT m.candidate_id,
+         m.image_key,
+         m.candidate_image_key,
+         m.distance,
+         (SELECT count(*) FROM own)::integer AS own_photo_count,
+         (SELECT count(*)
+            FROM public.apartment_photo_hashes c
+           WHERE c.apartment_id = m.candidate_id)::integer AS candidate_photo_count
+    FROM matches m
+   ORDER BY m.candidate_id, m.distance;
+$$;
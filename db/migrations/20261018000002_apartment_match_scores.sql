@@ -0,0 +1,23 @@
+-- Per-user apartment match scores.
+-- Written by BatchScoringService.scoreApartmentBatch and reused while the
+-- user's scoring profile (profile_hash) is unchanged and the score is fresh.
+
+CREATE TABLE IF NOT EXISTS public.apartment_match_scores (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  apartment_id uuid NOT NULL REFERENCES public.apartments(id) ON DELETE CASCADE,
+  profile_hash text NOT NULL,
+  score integer NOT NULL CHECK (score BETWEEN 0 AND 100),
+  reasons text[] NOT NULL DEFAULT '{}',
+  compromises text[] NOT NULL DEFAULT '{}',
+  breakdown jsonb NOT NULL DEFAULT '{}'::jsonb,
+  source text NOT NULL DEFAULT 'features' CHECK (source IN ('features', 'features+llm')),
+  scored_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, apartment_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_apartment_match_scores_scored_at ON public.apartment_match_scores(scored_at);
+
+ALTER TABLE public.apartment_match_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY apartment_match_scores_select ON public.apartment_match_scores
+  FOR SELECT USING (auth.uid() = user_id);
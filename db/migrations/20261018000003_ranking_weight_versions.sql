@@ -0,0 +1,44 @@
+-- Versioned ranking weights for learning-to-rank.
+-- RankingWeightTrainer fits weights from ranking_events impressions and
+-- ranking_feedback, publishes them as the single 'active' version and can roll
+-- back to an earlier one. RankingService serves the active version.
+
+-- Impressions ----------------------------------------------------------------
+
+ALTER TABLE public.ranking_events
+  ADD COLUMN IF NOT EXISTS position integer CHECK (position >= 1),
+  ADD COLUMN IF NOT EXISTS search_session_id text,
+  ADD COLUMN IF NOT EXISTS weight_version integer;
+
+CREATE INDEX IF NOT EXISTS idx_ranking_events_user_apartment
+  ON public.ranking_events(user_id, apartment_id, created_at DESC);
+
+-- Weight versions ------------------------------------------------------------
+
+ALTER TABLE public.ranking_weight_history
+  ADD COLUMN IF NOT EXISTS version integer GENERATED BY DEFAULT AS IDENTITY,
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'superseded', 'rejected', 'rolled_back')),
+  ADD COLUMN IF NOT EXISTS metrics jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS activated_at timestamptz;
+
+-- Rows written before versioning: keep only the newest one active
+UPDATE public.ranking_weight_history h
+SET status = 'superseded'
+WHERE h.status = 'active'
+  AND h.id <> (
+    SELECT id FROM public.ranking_weight_history
+    ORDER BY created_at DESC
+    LIMIT 1
+  );
+
+UPDATE public.ranking_weight_history
+SET activated_at = created_at
+WHERE status = 'active' AND activated_at IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ranking_weight_history_version
+  ON public.ranking_weight_history(version);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ranking_weight_history_single_active
+  ON public.ranking_weight_history(status)
+  WHERE status = 'active';
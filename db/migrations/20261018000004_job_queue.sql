@@ -0,0 +1,47 @@
+-- Durable background job queue.
+-- JobQueueService enqueues jobs (optionally deduplicated by an idempotency
+-- key), workers lease them with FOR UPDATE SKIP LOCKED, failures are retried
+-- with exponential backoff and jobs that exhaust their attempts are kept as
+-- 'dead' for inspection and manual retry. Drained by /api/cron/jobs.
+
+CREATE TABLE IF NOT EXISTS public.jobs (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  queue text NOT NULL,
+  type text NOT NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'dead')),
+  priority integer NOT NULL DEFAULT 0,
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5 CHECK (max_attempts >= 1),
+  run_at timestamptz NOT NULL DEFAULT now(),
+  locked_by text,
+  locked_until timestamptz,
+  idempotency_key text,
+  last_error text,
+  result jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
+-- Leasing scans ready jobs per queue in priority order
+CREATE INDEX IF NOT EXISTS idx_jobs_ready
+  ON public.jobs(queue, priority DESC, run_at)
+  WHERE status = 'pending';
+
+-- Expired leases are reclaimed from crashed or timed-out workers
+CREATE INDEX IF NOT EXISTS idx_jobs_running_lease
+  ON public.jobs(locked_until)
+  WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_jobs_dead
+  ON public.jobs(queue, updated_at DESC)
+  WHERE status = 'dead';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_idempotency
+  ON public.jobs(queue, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+-- Only the service role touches the queue
+ALTER TABLE public.jobs ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,45 @@
+-- OpenStreetMap points of interest for location scoring.
+-- Populated by scripts/import-osm.ts (npm run osm:import) from an Overpass or
+-- osmium GeoJSON extract; read by LocationScoreService and /api/neighborhood
+-- so scores and nearby counts work without a Google Places key.
+
+-- IMPORTS ----------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.osm_imports (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  source text NOT NULL,
+  poi_count integer NOT NULL DEFAULT 0,
+  category_counts jsonb NOT NULL DEFAULT '{}'::jsonb,
+  skipped_count integer NOT NULL DEFAULT 0,
+  imported_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_osm_imports_imported_at ON public.osm_imports(imported_at DESC);
+
+-- POIS -------------------------------------------------------------------------
+-- osm_id is "<element type>/<id>" (e.g. node/123, way/456); ways and relations
+-- are stored at their centre point.
+CREATE TABLE IF NOT EXISTS public.osm_pois (
+  osm_id text PRIMARY KEY,
+  name text,
+  category text NOT NULL CHECK (category IN (
+    'restaurants', 'cafes', 'grocery', 'shopping', 'gyms', 'parks',
+    'schools', 'hospitals', 'pharmacies', 'banks', 'transit'
+  )),
+  subcategory text NOT NULL,
+  tags jsonb NOT NULL DEFAULT '{}'::jsonb,
+  geom geometry(Point, 4326) NOT NULL,
+  import_id uuid REFERENCES public.osm_imports(id) ON DELETE SET NULL
+);
+
+-- Radius queries use ST_DWithin on geography, so index the cast expression
+CREATE INDEX IF NOT EXISTS idx_osm_pois_geog ON public.osm_pois USING GIST ((geom::geography));
+CREATE INDEX IF NOT EXISTS idx_osm_pois_category ON public.osm_pois(category);
+
+-- Map data is public (ODbL); read-only for clients.
+ALTER TABLE public.osm_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.osm_pois ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read OSM imports" ON public.osm_imports FOR SELECT USING (true);
+CREATE POLICY "Public read OSM POIs" ON public.osm_pois FOR SELECT USING (true);
+
+COMMENT ON TABLE public.osm_pois IS 'Amenities, shops, parks and transit stops from the latest OpenStreetMap extract';
@@ -0,0 +1,164 @@
+-- End-to-end encrypted messaging.
+-- Clients generate key pairs and conversation keys; the server stores public
+-- keys, per-participant wrapped conversation keys and message ciphertext only.
+-- See lib/e2ee and ConversationKeyService for the key lifecycle.
+
+-- USER PUBLIC KEYS -------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.user_public_keys (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  public_key jsonb NOT NULL, -- P-256 JWK: kty, crv, x, y
+  fingerprint text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- PARTICIPANTS -----------------------------------------------------------------
+-- Student and owner are added automatically; members can join and leave, and
+-- every membership change requires a new conversation key version.
+CREATE TABLE IF NOT EXISTS public.conversation_participants (
+  conversation_id uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('student', 'owner', 'member')),
+  added_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  added_at timestamptz NOT NULL DEFAULT now(),
+  removed_at timestamptz,
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_participants_user
+  ON public.conversation_participants(user_id) WHERE removed_at IS NULL;
+
+INSERT INTO public.conversation_participants (conversation_id, user_id, role)
+SELECT id, student_id, 'student' FROM public.conversations
+UNION ALL
+SELECT id, owner_id, 'owner' FROM public.conversations
+ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.add_conversation_founders()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.conversation_participants (conversation_id, user_id, role)
+  VALUES (NEW.id, NEW.student_id, 'student'), (NEW.id, NEW.owner_id, 'owner')
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_add_conversation_founders ON public.conversations;
+CREATE TRIGGER trigger_add_conversation_founders
+  AFTER INSERT ON public.conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.add_conversation_founders();
+
+-- CONVERSATION KEYS ------------------------------------------------------------
+-- key_version 0 means the conversation has never been encrypted; legacy
+-- plaintext is only accepted in that state.
+ALTER TABLE public.conversations
+  ADD COLUMN IF NOT EXISTS key_version integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS key_rotation_required boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.conversation_keys (
+  conversation_id uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  key_version integer NOT NULL CHECK (key_version > 0),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  wrapped_key text NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (conversation_id, key_version, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_keys_user ON public.conversation_keys(user_id, conversation_id);
+
+-- MESSAGES ---------------------------------------------------------------------
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS key_version integer;
+
+-- Enforced in the database as well as /api/messages, since some clients
+-- insert messages directly through Supabase
+CREATE OR REPLACE FUNCTION public.enforce_message_encryption()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_key_version integer;
+  v_rotation_required boolean;
+BEGIN
+  SELECT key_version, key_rotation_required INTO v_key_version, v_rotation_required
+  FROM public.conversations
+  WHERE id = NEW.conversation_id;
+
+  IF NEW.content LIKE 'e2ee1.%' THEN
+    NEW.key_version := NULLIF(split_part(NEW.content, '.', 2), '')::integer;
+    IF NEW.key_version IS DISTINCT FROM v_key_version OR v_rotation_required THEN
+      RAISE EXCEPTION 'Conversation key is out of date' USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF COALESCE(v_key_version, 0) > 0 THEN
+    RAISE EXCEPTION 'Conversation is end-to-end encrypted; plaintext is not accepted' USING ERRCODE = 'check_violation';
+  ELSE
+    NEW.key_version := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_enforce_message_encryption ON public.messages;
+CREATE TRIGGER trigger_enforce_message_encryption
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_message_encryption();
+
+-- Ciphertext makes a useless preview; show a neutral label instead
+CREATE OR REPLACE FUNCTION update_conversation_on_message()
+RETURNS TRIGGER AS $$
+DECLARE
+  is_owner boolean;
+BEGIN
+  SELECT (sender_id = c.owner_id) INTO is_owner
+  FROM public.conversations c
+  WHERE c.id = NEW.conversation_id;
+
+  UPDATE public.conversations
+  SET
+    last_message_at = NEW.created_at,
+    last_message_preview = CASE
+      WHEN NEW.key_version IS NOT NULL THEN 'Encrypted message'
+      ELSE substring(NEW.content, 1, 100)
+    END,
+    unread_count_student = CASE WHEN is_owner THEN unread_count_student + 1 ELSE unread_count_student END,
+    unread_count_owner = CASE WHEN is_owner THEN unread_count_owner ELSE unread_count_owner + 1 END,
+    updated_at = now()
+  WHERE id = NEW.conversation_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS --------------------------------------------------------------------------
+-- Writes go through /api/messages/keys, which checks membership and versions.
+ALTER TABLE public.user_public_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY user_public_keys_select ON public.user_public_keys
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+-- SECURITY DEFINER so the participants policy can look itself up without recursing
+CREATE OR REPLACE FUNCTION public.is_conversation_participant(p_conversation_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id = p_conversation_id AND user_id = p_user_id AND removed_at IS NULL
+  );
+$$;
+
+CREATE POLICY conversation_participants_select ON public.conversation_participants
+  FOR SELECT USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE POLICY conversation_keys_select ON public.conversation_keys
+  FOR SELECT USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.conversation_keys IS 'Conversation keys wrapped per participant; the server cannot unwrap them';
+COMMENT ON COLUMN public.messages.key_version IS 'Conversation key version of an encrypted message; NULL for legacy plaintext';
@@ -0,0 +1,68 @@
+-- Trust & safety classifier pipeline.
+-- content_moderation records every message, listing or review the pipeline
+-- labels (decision, labels, confidence); moderation_queue gets the ones that
+-- need a human, not only apartments. Adds the review columns the admin
+-- console already reads.
+
+-- CONTENT MODERATION -----------------------------------------------------------
+ALTER TABLE public.content_moderation
+  DROP CONSTRAINT IF EXISTS content_moderation_content_type_check;
+
+ALTER TABLE public.content_moderation
+  ADD CONSTRAINT content_moderation_content_type_check
+    CHECK (content_type IN ('text', 'image', 'video', 'document', 'message', 'listing', 'review'));
+
+ALTER TABLE public.content_moderation
+  ADD COLUMN IF NOT EXISTS content_id uuid,
+  ADD COLUMN IF NOT EXISTS decision text CHECK (decision IN ('allow', 'review', 'block')),
+  ADD COLUMN IF NOT EXISTS labels text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS confidence numeric(4,3),
+  ADD COLUMN IF NOT EXISTS classifiers text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS reason text,
+  ADD COLUMN IF NOT EXISTS severity text CHECK (severity IN ('low', 'medium', 'high')),
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  ADD COLUMN IF NOT EXISTS flagged_by uuid REFERENCES public.user_profiles(user_id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS flagged_at timestamptz NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reviewed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS admin_notes text,
+  -- update_content_moderation_updated_at has been firing without this column
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS content_moderation_content_idx
+  ON public.content_moderation(content_type, content_id);
+CREATE INDEX IF NOT EXISTS content_moderation_status_idx
+  ON public.content_moderation(status, flagged_at DESC);
+CREATE INDEX IF NOT EXISTS content_moderation_labels_idx
+  ON public.content_moderation USING GIN (labels);
+
+CREATE POLICY content_moderation_update ON public.content_moderation
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid() AND user_type = 'admin'
+    )
+  );
+
+-- MODERATION QUEUE -------------------------------------------------------------
+ALTER TABLE public.moderation_queue
+  ALTER COLUMN apartment_id DROP NOT NULL;
+
+ALTER TABLE public.moderation_queue
+  ADD COLUMN IF NOT EXISTS content_type text CHECK (content_type IN ('message', 'listing', 'review')),
+  ADD COLUMN IF NOT EXISTS content_id uuid,
+  ADD COLUMN IF NOT EXISTS content_moderation_id uuid REFERENCES public.content_moderation(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS labels text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS confidence numeric(4,3);
+
+ALTER TABLE public.moderation_queue
+  ADD CONSTRAINT moderation_queue_subject_check
+    CHECK (apartment_id IS NOT NULL OR content_id IS NOT NULL);
+
+-- One open item per piece of content; re-classifying an edit updates it
+CREATE UNIQUE INDEX IF NOT EXISTS moderation_queue_pending_content_idx
+  ON public.moderation_queue(content_type, content_id)
+  WHERE status = 'pending' AND content_id IS NOT NULL;
+
+COMMENT ON COLUMN public.content_moderation.labels IS 'Classifier labels at or above their review threshold, e.g. deposit_scam';
+COMMENT ON COLUMN public.moderation_queue.content_moderation_id IS 'Classifier result that queued this item; NULL for manual flags';
@@ -0,0 +1,48 @@
+-- University email verification.
+-- A student proves they own a university address by entering a one-time code
+-- or opening a magic link sent to it. Only hashes of the code and link token
+-- are stored; challenges expire and lock after too many wrong codes.
+-- user_profiles records the confirmed address, which drives the verified
+-- badge and the ranking trust bonus.
+
+-- CHALLENGES -------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.university_email_challenges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  university_id text NOT NULL, -- entry in lib/university-domains.ts
+  faculty text,
+  code_hash text NOT NULL,
+  token_hash text NOT NULL,
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  expires_at timestamptz NOT NULL,
+  consumed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (attempts >= 0 AND attempts <= max_attempts)
+);
+
+CREATE INDEX IF NOT EXISTS university_email_challenges_user_idx
+  ON public.university_email_challenges(user_id, created_at DESC);
+
+-- Expired challenges are only kept for the send rate limit
+CREATE INDEX IF NOT EXISTS university_email_challenges_expires_idx
+  ON public.university_email_challenges(expires_at)
+  WHERE consumed_at IS NULL;
+
+-- Only the service role reads hashes
+ALTER TABLE public.university_email_challenges ENABLE ROW LEVEL SECURITY;
+
+-- USER PROFILES ----------------------------------------------------------------
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS university_email text,
+  ADD COLUMN IF NOT EXISTS university_id text,
+  ADD COLUMN IF NOT EXISTS university_faculty text,
+  ADD COLUMN IF NOT EXISTS university_verified_at timestamptz;
+
+-- One account per confirmed university address
+CREATE UNIQUE INDEX IF NOT EXISTS user_profiles_university_email_idx
+  ON public.user_profiles(lower(university_email))
+  WHERE university_verified_at IS NOT NULL;
+
+COMMENT ON COLUMN public.user_profiles.university_verified_at IS 'When the university_email address was confirmed by code or magic link';
@@ -0,0 +1,44 @@
+-- Verification document storage and review.
+-- Uploads go to a private bucket through the storage adapter
+-- (lib/storage); rows keep the storage key instead of a public URL.
+-- Reviewers approve, reject or ask for more information from the queue on
+-- /api/verification/review, and ID documents are deleted from storage and
+-- their extracted data redacted once the retention after a decision ends.
+
+-- STORAGE ----------------------------------------------------------------------
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('verification-documents', 'verification-documents', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+-- USER VERIFICATIONS -----------------------------------------------------------
+ALTER TABLE public.user_verifications
+  ALTER COLUMN document_url DROP NOT NULL;
+
+ALTER TABLE public.user_verifications
+  DROP CONSTRAINT IF EXISTS user_verifications_status_check;
+
+ALTER TABLE public.user_verifications
+  ADD CONSTRAINT user_verifications_status_check
+    CHECK (status IN ('pending', 'approved', 'rejected', 'more_info_requested'));
+
+ALTER TABLE public.user_verifications
+  ADD COLUMN IF NOT EXISTS storage_driver text CHECK (storage_driver IN ('supabase', 'local')),
+  ADD COLUMN IF NOT EXISTS storage_key text,
+  ADD COLUMN IF NOT EXISTS file_name text,
+  ADD COLUMN IF NOT EXISTS content_type text,
+  ADD COLUMN IF NOT EXISTS size_bytes integer,
+  ADD COLUMN IF NOT EXISTS sha256 text,
+  -- The upload route has been writing this without the column existing
+  ADD COLUMN IF NOT EXISTS ai_analysis jsonb,
+  ADD COLUMN IF NOT EXISTS decision_reason text,
+  ADD COLUMN IF NOT EXISTS replaces_id uuid REFERENCES public.user_verifications(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS redact_after timestamptz,
+  ADD COLUMN IF NOT EXISTS redacted_at timestamptz;
+
+-- Review queue: oldest pending first
+CREATE INDEX IF NOT EXISTS user_verifications_queue_idx
+  ON public.user_verifications(submitted_at)
+  WHERE status = 'pending';
+
+COMMENT ON COLUMN public.user_verifications.storage_key IS 'Object key in the verification-documents bucket; NULL once redacted';
+COMMENT ON COLUMN public.user_verifications.redact_after IS 'When the file is deleted and extracted data redacted, set on decision for ID documents';
@@ -0,0 +1,89 @@
+-- Long-term lease bookings.
+-- A booking is a lease: a move-in date and a term of whole months, the
+-- deposit from apartments.deposit_months, a first payment of one month's
+-- rent plus the deposit when the tenant signs, then monthly rent charged to
+-- the tenant's saved card on the owner's Stripe Connect account.
+-- requested -> accepted (owner) -> signed (tenant) -> active (move-in) -> ended
+
+-- BOOKINGS ---------------------------------------------------------------------
+ALTER TABLE public.bookings
+  DROP CONSTRAINT IF EXISTS bookings_status_check;
+
+UPDATE public.bookings
+SET status = CASE status
+  WHEN 'pending' THEN 'requested'
+  WHEN 'approved' THEN 'accepted'
+  WHEN 'completed' THEN 'ended'
+  ELSE status
+END;
+
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_status_check
+    CHECK (status IN ('requested', 'accepted', 'signed', 'active', 'ended', 'declined', 'cancelled'));
+
+ALTER TABLE public.bookings
+  ALTER COLUMN status SET DEFAULT 'requested';
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS monthly_rent_huf integer CHECK (monthly_rent_huf > 0),
+  ADD COLUMN IF NOT EXISTS deposit_months numeric(3,1) CHECK (deposit_months >= 0),
+  ADD COLUMN IF NOT EXISTS first_payment_huf integer CHECK (first_payment_huf >= 0),
+  ADD COLUMN IF NOT EXISTS stripe_account_id text,
+  ADD COLUMN IF NOT EXISTS stripe_customer_id text,
+  ADD COLUMN IF NOT EXISTS stripe_payment_method_id text,
+  ADD COLUMN IF NOT EXISTS accepted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS signed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS activated_at timestamptz,
+  ADD COLUMN IF NOT EXISTS ended_at timestamptz,
+  ADD COLUMN IF NOT EXISTS end_reason text;
+
+-- Availability checks: leases holding an apartment
+CREATE INDEX IF NOT EXISTS idx_bookings_apartment_term
+  ON public.bookings(apartment_id, move_in_date, move_out_date)
+  WHERE status IN ('accepted', 'signed', 'active');
+
+COMMENT ON COLUMN public.bookings.move_out_date IS 'Last day of the lease: move_in_date plus lease_months, minus one day';
+COMMENT ON COLUMN public.bookings.first_payment_huf IS 'First month''s rent plus security_deposit_huf, charged when the tenant signs';
+COMMENT ON COLUMN public.bookings.stripe_account_id IS 'Owner''s Stripe Connect account rent is paid to, fixed when the owner accepts';
+
+-- LEASE PAYMENTS ---------------------------------------------------------------
+-- One row per month of the lease; the first carries the deposit
+CREATE TABLE IF NOT EXISTS public.lease_payments (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  booking_id uuid NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('first_payment', 'rent')),
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  due_date date NOT NULL,
+  rent_huf integer NOT NULL CHECK (rent_huf >= 0),
+  deposit_huf integer NOT NULL DEFAULT 0 CHECK (deposit_huf >= 0),
+  amount_huf integer NOT NULL CHECK (amount_huf >= 0),
+  platform_fee_huf integer NOT NULL DEFAULT 0 CHECK (platform_fee_huf >= 0),
+  status text NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'processing', 'paid', 'failed', 'cancelled', 'refunded')),
+  payment_intent_id text UNIQUE,
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  paid_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (booking_id, kind, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS lease_payments_booking_idx
+  ON public.lease_payments(booking_id, period_start);
+
+ALTER TABLE public.lease_payments ENABLE ROW LEVEL SECURITY;
+
+-- Written by the lease service with the service role only
+DROP POLICY IF EXISTS lease_payments_select ON public.lease_payments;
+CREATE POLICY lease_payments_select ON public.lease_payments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.bookings b
+      WHERE b.id = lease_payments.booking_id
+        AND (b.tenant_id = auth.uid() OR b.owner_id = auth.uid())
+    )
+  );
+
+COMMENT ON TABLE public.lease_payments IS 'Payment schedule of a lease: first month plus deposit, then monthly rent charged off-session';
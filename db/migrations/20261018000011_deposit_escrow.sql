@@ -0,0 +1,95 @@
+-- Security deposit escrow and move-out settlement.
+-- The deposit in a lease's first payment stays on the platform's Stripe
+-- balance instead of going to the owner. After the lease ends the owner may
+-- claim itemised deductions with photo evidence; the tenant accepts or
+-- disputes them within a window, and the settlement is paid out as a partial
+-- refund to the tenant plus a transfer of the deductions to the owner.
+
+-- ESCROWS ----------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.deposit_escrows (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  booking_id uuid NOT NULL UNIQUE REFERENCES public.bookings(id) ON DELETE CASCADE,
+  tenant_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  owner_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount_huf integer NOT NULL CHECK (amount_huf > 0),
+  payment_intent_id text NOT NULL,
+  stripe_account_id text NOT NULL,
+  status text NOT NULL DEFAULT 'held'
+    CHECK (status IN ('held', 'proposed', 'disputed', 'settled', 'released', 'refunded')),
+  -- Set when the lease ends; no claim by then releases the full deposit
+  claim_deadline timestamptz,
+  -- Tenant's deadline to dispute the owner's claim; silence accepts it
+  dispute_window_ends_at timestamptz,
+  revision integer NOT NULL DEFAULT 0,
+  deduction_huf integer NOT NULL DEFAULT 0 CHECK (deduction_huf >= 0 AND deduction_huf <= amount_huf),
+  dispute_reason text,
+  dispute_evidence_keys text[] NOT NULL DEFAULT '{}',
+  resolved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolution_notes text,
+  settled_at timestamptz,
+  released_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS deposit_escrows_status_idx
+  ON public.deposit_escrows(status, updated_at);
+
+COMMENT ON TABLE public.deposit_escrows IS 'Security deposits held on the platform from the first payment until move-out settlement';
+COMMENT ON COLUMN public.deposit_escrows.deduction_huf IS 'Amount claimed by the owner, or the agreed or resolved amount once settled';
+
+-- DEDUCTIONS -------------------------------------------------------------------
+-- The owner's itemised claim; replaced as a whole when the owner revises it
+CREATE TABLE IF NOT EXISTS public.deposit_deductions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  escrow_id uuid NOT NULL REFERENCES public.deposit_escrows(id) ON DELETE CASCADE,
+  description text NOT NULL,
+  amount_huf integer NOT NULL CHECK (amount_huf > 0),
+  evidence_keys text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS deposit_deductions_escrow_idx
+  ON public.deposit_deductions(escrow_id);
+
+-- LEDGER -----------------------------------------------------------------------
+-- Append-only money movements; the balance held is captured minus the rest
+CREATE TABLE IF NOT EXISTS public.deposit_escrow_entries (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  escrow_id uuid NOT NULL REFERENCES public.deposit_escrows(id) ON DELETE CASCADE,
+  entry_type text NOT NULL CHECK (entry_type IN ('captured', 'refunded_to_tenant', 'released_to_owner')),
+  amount_huf integer NOT NULL CHECK (amount_huf > 0),
+  stripe_reference text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (escrow_id, entry_type)
+);
+
+-- RLS --------------------------------------------------------------------------
+-- Written by the escrow service with the service role only
+ALTER TABLE public.deposit_escrows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.deposit_deductions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.deposit_escrow_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS deposit_escrows_select ON public.deposit_escrows;
+CREATE POLICY deposit_escrows_select ON public.deposit_escrows
+  FOR SELECT USING (tenant_id = auth.uid() OR owner_id = auth.uid());
+
+DROP POLICY IF EXISTS deposit_deductions_select ON public.deposit_deductions;
+CREATE POLICY deposit_deductions_select ON public.deposit_deductions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.deposit_escrows e
+      WHERE e.id = deposit_deductions.escrow_id
+        AND (e.tenant_id = auth.uid() OR e.owner_id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS deposit_escrow_entries_select ON public.deposit_escrow_entries;
+CREATE POLICY deposit_escrow_entries_select ON public.deposit_escrow_entries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.deposit_escrows e
+      WHERE e.id = deposit_escrow_entries.escrow_id
+        AND (e.tenant_id = auth.uid() OR e.owner_id = auth.uid())
+    )
+  );
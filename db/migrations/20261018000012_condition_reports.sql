@@ -0,0 +1,43 @@
+-- Move-in and move-out condition reports.
+-- The owner records a room-by-room inventory (items, their condition and
+-- photos) plus meter readings, signs it and sends it to the tenant, who
+-- co-signs it in-app or asks for changes. The move-out report is prefilled
+-- from the move-in one and compared against it; both are evidence in deposit
+-- disputes.
+
+-- REPORTS ----------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.condition_reports (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  booking_id uuid NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  tenant_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  owner_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('move_in', 'move_out')),
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'awaiting_tenant', 'signed')),
+  -- [{ name, items: [{ name, condition, notes, photoKeys }] }]
+  rooms jsonb NOT NULL DEFAULT '[]',
+  -- [{ meter, serial, reading, photoKeys }]
+  meter_readings jsonb NOT NULL DEFAULT '[]',
+  general_notes text NOT NULL DEFAULT '',
+  -- Why the tenant sent the report back, or remarks made when signing
+  tenant_comments text,
+  -- sha256 of the content both parties signed
+  content_hash text,
+  owner_signature text,
+  owner_signed_at timestamptz,
+  tenant_signature text,
+  tenant_signed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (booking_id, kind)
+);
+
+COMMENT ON TABLE public.condition_reports IS 'Room-by-room inventory and condition of a leased apartment at move-in and move-out';
+COMMENT ON COLUMN public.condition_reports.content_hash IS 'Hash of rooms, meter readings and notes at the time the owner signed; the tenant signs the same hash';
+
+-- RLS --------------------------------------------------------------------------
+-- Written by the condition report service with the service role only
+ALTER TABLE public.condition_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS condition_reports_select ON public.condition_reports;
+CREATE POLICY condition_reports_select ON public.condition_reports
+  FOR SELECT USING (tenant_id = auth.uid() OR owner_id = auth.uid());
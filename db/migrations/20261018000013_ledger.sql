@@ -0,0 +1,89 @@
+-- Double-entry ledger of every money movement.
+-- Each Stripe balance movement (charge, transfer, application fee, refund,
+-- transfer reversal, deposit payout) and each owner payout becomes one
+-- ledger transaction whose lines debit and credit accounts by the same
+-- total. Owner statements, revenue analytics and the reconciliation against
+-- Stripe balance transactions are all read from here.
+
+-- TRANSACTIONS -----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.ledger_transactions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  transaction_type text NOT NULL CHECK (transaction_type IN (
+    'charge', 'transfer', 'application_fee', 'refund', 'transfer_reversal',
+    'deposit_release', 'payout', 'payout_failed', 'adjustment'
+  )),
+  -- Stripe object id (ch_, tr_, fee_, re_, trr_, po_) or adjustment:<uuid>
+  source text NOT NULL,
+  booking_id uuid REFERENCES public.bookings(id) ON DELETE SET NULL,
+  owner_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  description text NOT NULL,
+  -- When the money moved at Stripe, not when the webhook arrived
+  occurred_at timestamptz NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (transaction_type, source)
+);
+
+CREATE INDEX IF NOT EXISTS ledger_transactions_owner_idx
+  ON public.ledger_transactions(owner_id, occurred_at);
+CREATE INDEX IF NOT EXISTS ledger_transactions_occurred_idx
+  ON public.ledger_transactions(occurred_at);
+
+COMMENT ON TABLE public.ledger_transactions IS 'One balanced journal entry per money movement; append-only';
+
+-- LINES ------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.ledger_lines (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  transaction_id uuid NOT NULL REFERENCES public.ledger_transactions(id) ON DELETE CASCADE,
+  account text NOT NULL CHECK (account IN (
+    'platform_cash', 'processing_fees', 'platform_commission', 'deposits_held', 'adjustments',
+    'owner_revenue', 'owner_fees', 'owner_balance', 'owner_payouts'
+  )),
+  -- Set exactly for the per-owner accounts
+  owner_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  debit_huf integer NOT NULL DEFAULT 0 CHECK (debit_huf >= 0),
+  credit_huf integer NOT NULL DEFAULT 0 CHECK (credit_huf >= 0),
+  CHECK ((debit_huf = 0) <> (credit_huf = 0))
+);
+
+CREATE INDEX IF NOT EXISTS ledger_lines_transaction_idx
+  ON public.ledger_lines(transaction_id);
+CREATE INDEX IF NOT EXISTS ledger_lines_owner_account_idx
+  ON public.ledger_lines(owner_id, account);
+
+-- Debits must equal credits once the transaction that wrote the lines commits
+CREATE OR REPLACE FUNCTION public.check_ledger_transaction_balanced()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_difference bigint;
+BEGIN
+  SELECT COALESCE(SUM(debit_huf), 0) - COALESCE(SUM(credit_huf), 0) INTO v_difference
+  FROM public.ledger_lines
+  WHERE transaction_id = NEW.transaction_id;
+
+  IF v_difference <> 0 THEN
+    RAISE EXCEPTION 'Ledger transaction % is out of balance by % HUF', NEW.transaction_id, v_difference
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS ledger_lines_balanced ON public.ledger_lines;
+CREATE CONSTRAINT TRIGGER ledger_lines_balanced
+  AFTER INSERT OR UPDATE ON public.ledger_lines
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.check_ledger_transaction_balanced();
+
+-- RLS --------------------------------------------------------------------------
+-- Written by the ledger service with the service role only; owners read their own
+ALTER TABLE public.ledger_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS ledger_transactions_select ON public.ledger_transactions;
+CREATE POLICY ledger_transactions_select ON public.ledger_transactions
+  FOR SELECT USING (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS ledger_lines_select ON public.ledger_lines;
+CREATE POLICY ledger_lines_select ON public.ledger_lines
+  FOR SELECT USING (owner_id = auth.uid());
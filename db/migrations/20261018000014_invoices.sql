@@ -0,0 +1,74 @@
+-- Invoices for rent payments.
+-- Each paid lease payment gets one invoice from the owner to the tenant for
+-- the rent it covered (the deposit is not a supply and is not invoiced).
+-- Numbers are sequential per owner and year without gaps, and the seller and
+-- buyer are copied onto the invoice so later profile edits do not change
+-- issued invoices. Owners export the invoice as NAV Online Számla XML.
+
+-- SETTINGS ---------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.owner_invoice_settings (
+  owner_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  seller_name text NOT NULL,
+  -- Hungarian tax number: 8-digit taxpayer id, VAT code, county code
+  tax_number text NOT NULL CHECK (tax_number ~ '^\d{8}-[1-5]-\d{2}$'),
+  postal_code text NOT NULL,
+  city text NOT NULL,
+  street_address text NOT NULL,
+  -- Residential letting is VAT exempt (TAM) unless the owner opted in to 27% VAT;
+  -- small businesses may be exempt by their status (AAM)
+  vat_status text NOT NULL DEFAULT 'exempt_tam' CHECK (vat_status IN ('exempt_tam', 'exempt_aam', 'vat_27')),
+  number_prefix text NOT NULL DEFAULT 'SA' CHECK (number_prefix ~ '^[A-Z0-9]{1,10}$'),
+  sequence_year integer,
+  last_sequence integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- INVOICES ---------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.invoices (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  owner_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tenant_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  booking_id uuid NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  lease_payment_id uuid NOT NULL UNIQUE REFERENCES public.lease_payments(id) ON DELETE CASCADE,
+  invoice_number text NOT NULL,
+  issue_date date NOT NULL,
+  -- Teljesítés dátuma: the payment date for rent paid in advance
+  delivery_date date NOT NULL,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  seller jsonb NOT NULL,
+  buyer jsonb NOT NULL,
+  lines jsonb NOT NULL,
+  vat_status text NOT NULL CHECK (vat_status IN ('exempt_tam', 'exempt_aam', 'vat_27')),
+  net_huf integer NOT NULL CHECK (net_huf >= 0),
+  vat_huf integer NOT NULL CHECK (vat_huf >= 0),
+  gross_huf integer NOT NULL CHECK (gross_huf = net_huf + vat_huf),
+  pdf_key text,
+  nav_status text NOT NULL DEFAULT 'not_submitted'
+    CHECK (nav_status IN ('not_submitted', 'submitted', 'accepted', 'rejected')),
+  nav_transaction_id text,
+  nav_submitted_at timestamptz,
+  nav_messages jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (owner_id, invoice_number)
+);
+
+CREATE INDEX IF NOT EXISTS invoices_owner_idx ON public.invoices(owner_id, issue_date DESC);
+CREATE INDEX IF NOT EXISTS invoices_tenant_idx ON public.invoices(tenant_id, issue_date DESC);
+CREATE INDEX IF NOT EXISTS invoices_booking_idx ON public.invoices(booking_id);
+
+COMMENT ON TABLE public.invoices IS 'Rent invoices from owner to tenant; immutable once issued except for NAV status';
+
+-- RLS --------------------------------------------------------------------------
+-- Issued by the invoice service with the service role only
+ALTER TABLE public.owner_invoice_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS owner_invoice_settings_select ON public.owner_invoice_settings;
+CREATE POLICY owner_invoice_settings_select ON public.owner_invoice_settings
+  FOR SELECT USING (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS invoices_select ON public.invoices;
+CREATE POLICY invoices_select ON public.invoices
+  FOR SELECT USING (owner_id = auth.uid() OR tenant_id = auth.uid());
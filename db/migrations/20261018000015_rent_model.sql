@@ -0,0 +1,61 @@
+-- Data-driven rent model.
+-- A hedonic regression of log monthly rent on listing features is trained
+-- nightly from our own apartments and pricing_history and stored as a
+-- versioned set of coefficients; at most one version is active. District rent
+-- quantiles are recomputed on the same run whether or not the model is
+-- published. Replaces the hard-coded district baselines.
+
+-- LISTING FEATURES -------------------------------------------------------------
+ALTER TABLE public.apartments
+  ADD COLUMN IF NOT EXISTS heating_type text
+    CHECK (heating_type IN ('district', 'gas_central', 'gas_convector', 'electric', 'heat_pump'));
+
+COMMENT ON COLUMN public.apartments.heating_type IS 'Heating system; NULL when the owner did not say';
+
+-- MODEL VERSIONS ---------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.rent_model_versions (
+  version integer GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  status text NOT NULL CHECK (status IN ('active', 'superseded', 'rejected')),
+  -- Feature name -> coefficient on log(rent)
+  coefficients jsonb NOT NULL,
+  -- Values used for missing inputs and typical sizes by bedroom count
+  defaults jsonb NOT NULL DEFAULT '{}'::jsonb,
+  -- Holdout residual standard deviation (log scale), overall and per district
+  residual_sigma numeric(8,5) NOT NULL,
+  district_residuals jsonb NOT NULL DEFAULT '{}'::jsonb,
+  observations integer NOT NULL,
+  metrics jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  activated_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rent_model_versions_single_active
+  ON public.rent_model_versions(status)
+  WHERE status = 'active';
+
+-- DISTRICT QUANTILES -----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.district_rent_quantiles (
+  district smallint PRIMARY KEY CHECK (district BETWEEN 1 AND 23),
+  listings integer NOT NULL,
+  p10_huf integer NOT NULL,
+  p25_huf integer NOT NULL,
+  p50_huf integer NOT NULL,
+  p75_huf integer NOT NULL,
+  p90_huf integer NOT NULL,
+  median_price_per_sqm_huf integer,
+  -- Median change of the asking-price changes in the last 90 days
+  trend text NOT NULL DEFAULT 'stable' CHECK (trend IN ('up', 'down', 'stable')),
+  trend_pct numeric(6,2) NOT NULL DEFAULT 0,
+  computed_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.district_rent_quantiles IS 'Asking-rent quantiles per Budapest district, recomputed nightly by the rent model job';
+
+-- RLS --------------------------------------------------------------------------
+-- Written by the training job with the service role only
+ALTER TABLE public.rent_model_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.district_rent_quantiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS district_rent_quantiles_select ON public.district_rent_quantiles;
+CREATE POLICY district_rent_quantiles_select ON public.district_rent_quantiles
+  FOR SELECT USING (true);
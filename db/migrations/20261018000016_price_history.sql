@@ -0,0 +1,78 @@
+-- Listing price history and price-drop alerts.
+-- Every change of an apartment's monthly rent is written to pricing_history
+-- by a trigger, so no update path (owner form, admin tools, imports) can skip
+-- it. A drop on a published listing also queues a price_drop.notify job; the
+-- job worker alerts users who favourited the flat or whose saved search
+-- matches it at the new price, subject to each user's thresholds.
+
+-- HISTORY ----------------------------------------------------------------------
+ALTER TABLE public.pricing_history
+  ADD COLUMN IF NOT EXISTS notified_at timestamptz,
+  ADD COLUMN IF NOT EXISTS notified_recipients integer;
+
+CREATE INDEX IF NOT EXISTS idx_pricing_history_apartment
+  ON public.pricing_history(apartment_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.record_apartment_price_change()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_history_id uuid;
+BEGIN
+  INSERT INTO public.pricing_history (apartment_id, old_price, new_price, change_reason, changed_by)
+  VALUES (
+    NEW.id,
+    OLD.monthly_rent_huf,
+    NEW.monthly_rent_huf,
+    COALESCE(NULLIF(current_setting('app.price_change_reason', true), ''), 'listing_update'),
+    COALESCE(auth.uid()::text, 'system')
+  )
+  RETURNING id INTO v_history_id;
+
+  IF NEW.monthly_rent_huf < OLD.monthly_rent_huf AND NEW.status = 'published' THEN
+    INSERT INTO public.jobs (queue, type, payload, idempotency_key)
+    VALUES ('notifications', 'price_drop.notify', jsonb_build_object('changeId', v_history_id), 'price-drop:' || v_history_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS apartments_price_history ON public.apartments;
+CREATE TRIGGER apartments_price_history
+  AFTER UPDATE OF monthly_rent_huf ON public.apartments
+  FOR EACH ROW
+  WHEN (OLD.monthly_rent_huf IS DISTINCT FROM NEW.monthly_rent_huf)
+  EXECUTE FUNCTION public.record_apartment_price_change();
+
+-- AUDIENCE ---------------------------------------------------------------------
+-- Written by /api/saved-searches but never declared in the migrations
+ALTER TABLE public.saved_searches
+  ADD COLUMN IF NOT EXISTS min_price integer,
+  ADD COLUMN IF NOT EXISTS max_price integer,
+  ADD COLUMN IF NOT EXISTS bedrooms integer,
+  ADD COLUMN IF NOT EXISTS furnished boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS is_active boolean DEFAULT true,
+  ADD COLUMN IF NOT EXISTS email_alerts_enabled boolean DEFAULT true;
+
+-- A drop is only worth an alert when it clears both thresholds; users who
+-- untick the price_drops category get none
+ALTER TABLE public.digest_preferences
+  ADD COLUMN IF NOT EXISTS price_drop_min_percent numeric(5,2) NOT NULL DEFAULT 3
+    CHECK (price_drop_min_percent BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS price_drop_min_huf integer NOT NULL DEFAULT 5000
+    CHECK (price_drop_min_huf >= 0),
+  ALTER COLUMN categories SET DEFAULT ARRAY['new_listings', 'saved_searches', 'price_drops'];
+
+-- RLS --------------------------------------------------------------------------
+-- Price history of a published listing is public, like its current price
+DROP POLICY IF EXISTS pricing_history_public_select ON public.pricing_history;
+CREATE POLICY pricing_history_public_select ON public.pricing_history
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.apartments a
+      WHERE a.id = pricing_history.apartment_id AND a.status = 'published'
+    )
+  );
@@ -0,0 +1,91 @@
+-- Event-driven saved-search alerts.
+-- Publishing a listing, or changing its price, bedrooms, district or
+-- furnishing, queues a saved_search.match job. The job looks up the saved
+-- searches whose district list, price range and bedroom minimum admit the
+-- listing (served by the indexes below instead of re-running every search),
+-- records one match per user and listing, and delivers it straight away or
+-- in the user's daily or weekly batch, on the channels from
+-- digest_preferences.
+
+-- SEARCH INDEX -----------------------------------------------------------------
+ALTER TABLE public.saved_searches
+  ADD COLUMN IF NOT EXISTS districts smallint[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS price_range int4range GENERATED ALWAYS AS (
+    CASE WHEN min_price > max_price THEN 'empty'::int4range ELSE int4range(min_price, max_price, '[]') END
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_price_range
+  ON public.saved_searches USING gist(price_range);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_districts
+  ON public.saved_searches USING gin(districts);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_bedrooms
+  ON public.saved_searches(bedrooms);
+
+-- DELIVERY PREFERENCES ---------------------------------------------------------
+ALTER TABLE public.digest_preferences
+  ADD COLUMN IF NOT EXISTS alert_frequency text NOT NULL DEFAULT 'instant'
+    CHECK (alert_frequency IN ('instant', 'daily', 'weekly')),
+  ADD COLUMN IF NOT EXISTS alert_channels text[] NOT NULL DEFAULT ARRAY['email', 'in_app']
+    CHECK (alert_channels <@ ARRAY['email', 'push', 'sms', 'in_app']),
+  ADD COLUMN IF NOT EXISTS last_alert_batch_at timestamptz;
+
+-- MATCHES ----------------------------------------------------------------------
+-- One row per user and listing, however many of their searches match and
+-- however often the listing is edited: that is the dedupe
+CREATE TABLE IF NOT EXISTS public.saved_search_matches (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  saved_search_id uuid NOT NULL REFERENCES public.saved_searches(id) ON DELETE CASCADE,
+  apartment_id uuid NOT NULL REFERENCES public.apartments(id) ON DELETE CASCADE,
+  price_huf integer NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'withdrawn')),
+  matched_at timestamptz NOT NULL DEFAULT now(),
+  sent_at timestamptz,
+  UNIQUE (user_id, apartment_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_pending
+  ON public.saved_search_matches(user_id, matched_at)
+  WHERE status = 'pending';
+
+ALTER TABLE public.saved_search_matches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS saved_search_matches_select ON public.saved_search_matches;
+CREATE POLICY saved_search_matches_select ON public.saved_search_matches
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- TRIGGER ----------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.queue_listing_match()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'published' AND (
+    TG_OP = 'INSERT'
+    OR OLD.status IS DISTINCT FROM NEW.status
+    OR OLD.monthly_rent_huf IS DISTINCT FROM NEW.monthly_rent_huf
+    OR OLD.bedrooms IS DISTINCT FROM NEW.bedrooms
+    OR OLD.district IS DISTINCT FROM NEW.district
+    OR OLD.furnished IS DISTINCT FROM NEW.furnished
+  ) THEN
+    INSERT INTO public.jobs (queue, type, payload, priority, idempotency_key)
+    VALUES (
+      'notifications',
+      'saved_search.match',
+      jsonb_build_object('apartmentId', NEW.id),
+      10,
+      'listing-match:' || NEW.id || ':' || txid_current()
+    )
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS apartments_queue_listing_match ON public.apartments;
+CREATE TRIGGER apartments_queue_listing_match
+  AFTER INSERT OR UPDATE OF status, monthly_rent_huf, bedrooms, district, furnished ON public.apartments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_listing_match();
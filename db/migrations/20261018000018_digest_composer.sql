@@ -0,0 +1,32 @@
+-- Personalised digest composer.
+-- digest.send jobs now compose a real digest (new matches, price drops on
+-- favourites, unread messages, upcoming viewings and district market stats)
+-- in the user's language. Every send gets a digest_sends row up front so the
+-- email's open pixel and click redirects can count against it.
+
+-- PREFERENCES ------------------------------------------------------------------
+ALTER TABLE public.digest_preferences
+  ADD COLUMN IF NOT EXISTS locale text NOT NULL DEFAULT 'en' CHECK (locale IN ('en', 'hu'));
+
+-- SENDS ------------------------------------------------------------------------
+ALTER TABLE public.digest_sends
+  ADD COLUMN IF NOT EXISTS job_id uuid,
+  ADD COLUMN IF NOT EXISTS digest_type text
+    CHECK (digest_type IN ('saved_searches', 'price_drops', 'new_listings', 'weekly_summary')),
+  ADD COLUMN IF NOT EXISTS locale text,
+  ADD COLUMN IF NOT EXISTS subject text,
+  ADD COLUMN IF NOT EXISTS blocks text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS open_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS click_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS opened_at timestamptz,
+  ADD COLUMN IF NOT EXISTS clicked_at timestamptz;
+
+-- A retried job reuses its row, so links in an already-queued email stay valid
+CREATE UNIQUE INDEX IF NOT EXISTS idx_digest_sends_job
+  ON public.digest_sends(job_id)
+  WHERE job_id IS NOT NULL;
+
+-- composing: row created, email not queued yet; skipped: nothing worth sending
+ALTER TABLE public.digest_sends DROP CONSTRAINT IF EXISTS digest_sends_status_check;
+ALTER TABLE public.digest_sends
+  ADD CONSTRAINT digest_sends_status_check CHECK (status IN ('composing', 'sent', 'skipped', 'failed'));
@@ -0,0 +1,152 @@
+-- Roommate matching and group search.
+-- Students describe themselves as flatmates (budget share, schedule,
+-- cleanliness, smoking, pets, languages, personality traits) and are
+-- matched by RoommateService. Groups share one search goal, keep a
+-- shortlist the members vote on and contact owners together: the group's
+-- conversation with an owner has every member as a participant.
+
+-- PROFILES ---------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.roommate_profiles (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  budget_min_huf integer CHECK (budget_min_huf >= 0),
+  budget_max_huf integer NOT NULL CHECK (budget_max_huf > 0),
+  schedule text NOT NULL DEFAULT 'flexible' CHECK (schedule IN ('early_bird', 'night_owl', 'flexible')),
+  cleanliness smallint NOT NULL DEFAULT 3 CHECK (cleanliness BETWEEN 1 AND 5),
+  smoking text NOT NULL DEFAULT 'non_smoker' CHECK (smoking IN ('non_smoker', 'outside_only', 'smoker')),
+  accepts_smokers boolean NOT NULL DEFAULT false,
+  has_pets boolean NOT NULL DEFAULT false,
+  accepts_pets boolean NOT NULL DEFAULT true,
+  languages text[] NOT NULL DEFAULT '{}',
+  districts smallint[] NOT NULL DEFAULT '{}',
+  personality jsonb, -- PersonalityTraits, 0-1 each
+  bio text,
+  looking boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (budget_min_huf IS NULL OR budget_min_huf <= budget_max_huf)
+);
+
+CREATE INDEX IF NOT EXISTS idx_roommate_profiles_looking
+  ON public.roommate_profiles(budget_max_huf)
+  WHERE looking;
+
+-- GROUPS -----------------------------------------------------------------------
+-- search_goal is a SearchGoal (components/SearchGoalCard) shared by the members
+CREATE TABLE IF NOT EXISTS public.roommate_groups (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name text NOT NULL,
+  created_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  max_members smallint NOT NULL DEFAULT 3 CHECK (max_members BETWEEN 2 AND 6),
+  search_goal jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'forming' CHECK (status IN ('forming', 'searching', 'closed')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.roommate_group_members (
+  group_id uuid NOT NULL REFERENCES public.roommate_groups(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'invited' CHECK (status IN ('invited', 'active', 'declined', 'left')),
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  invited_at timestamptz NOT NULL DEFAULT now(),
+  joined_at timestamptz,
+  left_at timestamptz,
+  PRIMARY KEY (group_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_roommate_group_members_user
+  ON public.roommate_group_members(user_id)
+  WHERE status IN ('invited', 'active');
+
+-- SHORTLIST --------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.roommate_group_shortlist (
+  group_id uuid NOT NULL REFERENCES public.roommate_groups(id) ON DELETE CASCADE,
+  apartment_id uuid NOT NULL REFERENCES public.apartments(id) ON DELETE CASCADE,
+  added_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  note text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (group_id, apartment_id)
+);
+
+-- One vote per member and listing; +1 for, -1 against
+CREATE TABLE IF NOT EXISTS public.roommate_group_votes (
+  group_id uuid NOT NULL,
+  apartment_id uuid NOT NULL,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  vote smallint NOT NULL CHECK (vote IN (-1, 1)),
+  voted_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (group_id, apartment_id, user_id),
+  FOREIGN KEY (group_id, apartment_id)
+    REFERENCES public.roommate_group_shortlist(group_id, apartment_id) ON DELETE CASCADE
+);
+
+-- GROUP CONVERSATIONS ----------------------------------------------------------
+-- The student founder is the member who made contact; the others join as
+-- conversation_participants members (see ConversationKeyService.addParticipant)
+ALTER TABLE public.conversations
+  ADD COLUMN IF NOT EXISTS roommate_group_id uuid REFERENCES public.roommate_groups(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversations_roommate_group
+  ON public.conversations(roommate_group_id, apartment_id)
+  WHERE roommate_group_id IS NOT NULL;
+
+-- RLS --------------------------------------------------------------------------
+-- Group writes go through /api/roommates, which checks membership.
+ALTER TABLE public.roommate_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.roommate_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.roommate_group_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.roommate_group_shortlist ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.roommate_group_votes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS roommate_profiles_select ON public.roommate_profiles;
+CREATE POLICY roommate_profiles_select ON public.roommate_profiles
+  FOR SELECT USING (auth.uid() = user_id OR (looking AND auth.role() = 'authenticated'));
+
+DROP POLICY IF EXISTS roommate_profiles_write ON public.roommate_profiles;
+CREATE POLICY roommate_profiles_write ON public.roommate_profiles
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- SECURITY DEFINER so the members policy can look itself up without recursing
+CREATE OR REPLACE FUNCTION public.is_roommate_group_member(p_group_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.roommate_group_members
+    WHERE group_id = p_group_id AND user_id = p_user_id AND status IN ('invited', 'active')
+  );
+$$;
+
+DROP POLICY IF EXISTS roommate_groups_select ON public.roommate_groups;
+CREATE POLICY roommate_groups_select ON public.roommate_groups
+  FOR SELECT USING (public.is_roommate_group_member(id, auth.uid()));
+
+DROP POLICY IF EXISTS roommate_group_members_select ON public.roommate_group_members;
+CREATE POLICY roommate_group_members_select ON public.roommate_group_members
+  FOR SELECT USING (public.is_roommate_group_member(group_id, auth.uid()));
+
+DROP POLICY IF EXISTS roommate_group_shortlist_select ON public.roommate_group_shortlist;
+CREATE POLICY roommate_group_shortlist_select ON public.roommate_group_shortlist
+  FOR SELECT USING (public.is_roommate_group_member(group_id, auth.uid()));
+
+DROP POLICY IF EXISTS roommate_group_votes_select ON public.roommate_group_votes;
+CREATE POLICY roommate_group_votes_select ON public.roommate_group_votes
+  FOR SELECT USING (public.is_roommate_group_member(group_id, auth.uid()));
+
+-- Members added to a conversation read and write it like its founders
+DROP POLICY IF EXISTS conversations_select_participants ON public.conversations;
+CREATE POLICY conversations_select_participants ON public.conversations
+  FOR SELECT USING (public.is_conversation_participant(id, auth.uid()));
+
+DROP POLICY IF EXISTS messages_select_participants ON public.messages;
+CREATE POLICY messages_select_participants ON public.messages
+  FOR SELECT USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+DROP POLICY IF EXISTS messages_insert_participants ON public.messages;
+CREATE POLICY messages_insert_participants ON public.messages
+  FOR INSERT WITH CHECK (
+    auth.uid() = sender_id AND public.is_conversation_participant(conversation_id, auth.uid())
+  );
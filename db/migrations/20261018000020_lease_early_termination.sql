@@ -0,0 +1,23 @@
+-- Early termination of active leases.
+-- Only the owner (or the lease.end job) ends an active lease immediately.
+-- A tenant requests termination with the last day they will stay, at least
+-- 30 days ahead; once the owner accepts, the months starting after that day
+-- are cancelled and the lease ends the day after it.
+
+-- BOOKINGS ---------------------------------------------------------------------
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS termination_requested_at timestamptz,
+  ADD COLUMN IF NOT EXISTS termination_date date,
+  ADD COLUMN IF NOT EXISTS termination_accepted_at timestamptz;
+
+ALTER TABLE public.bookings
+  DROP CONSTRAINT IF EXISTS bookings_termination_check;
+
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_termination_check
+    CHECK (
+      (termination_requested_at IS NULL) = (termination_date IS NULL)
+      AND (termination_accepted_at IS NULL OR termination_requested_at IS NOT NULL)
+    );
+
+COMMENT ON COLUMN public.bookings.termination_date IS 'Last day of an early termination the tenant requested; binding once termination_accepted_at is set';
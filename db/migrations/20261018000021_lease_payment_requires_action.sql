@@ -0,0 +1,15 @@
+-- Rent charges the tenant's bank wants confirmed.
+-- Stripe declines an off-session rent charge with authentication_required
+-- when the bank wants 3-D Secure. Retrying off-session won't get past that,
+-- so the payment waits in requires_action until the tenant confirms the
+-- intent with their saved card; the webhook then marks it paid or failed.
+
+-- LEASE PAYMENTS ---------------------------------------------------------------
+ALTER TABLE public.lease_payments
+  DROP CONSTRAINT IF EXISTS lease_payments_status_check;
+
+ALTER TABLE public.lease_payments
+  ADD CONSTRAINT lease_payments_status_check
+    CHECK (status IN ('scheduled', 'processing', 'requires_action', 'paid', 'failed', 'cancelled', 'refunded'));
+
+COMMENT ON COLUMN public.lease_payments.status IS 'requires_action: the bank asked the tenant to confirm an off-session rent charge';
@@ -1,23 +1,25 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { Message } from '@/components/chat-search/types';
 import { SearchGoal } from '@/components/SearchGoalCard';
+import { AgentResultCard, createEmptyGoal, parseSseChunk } from '@/lib/ai/search-agent';
 
 export function useSearchAgent() {
     const [messages, setMessages] = useState<Message[]>([
         { id: 'welcome', from: 'ai', text: 'Hi! I can help you find an apartment. Tell me about what you are looking for (budget, location, etc.)!' }
     ]);
 
-    const [goal, setGoal] = useState<SearchGoal>({
-        budget: { currency: 'HUF' },
-        location: { districts: [] },
-        features: { must_have: [], nice_to_have: [] },
-        occupancy: { type: 'student', count: 1 },
-        status: 'exploring'
-    });
-
+    const [goal, setGoal] = useState<SearchGoal>(createEmptyGoal);
+    const [results, setResults] = useState<AgentResultCard[]>([]);
+    const [totalResults, setTotalResults] = useState(0);
     const [isLoading, setIsLoading] = useState(false);
 
-    const sendMessage = async (text: string) => {
+    // Latest state for the request body without re-creating sendMessage
+    const messagesRef = useRef(messages);
+    messagesRef.current = messages;
+    const goalRef = useRef(goal);
+    goalRef.current = goal;
+
+    const sendMessage = useCallback(async (text: string) => {
         if (!text.trim()) return;
 
         // 1. Add user message immediately
@@ -26,37 +28,87 @@ export function useSearchAgent() {
             from: 'user',
             text
         };
+        const aiMsgId = `${Date.now() + 1}`;
+        const previousMessages = messagesRef.current
+            .filter(msg => msg.id !== 'welcome')
+            .slice(-8)
+            .map(({ from, text }) => ({ from, text }));
+
         setMessages(prev => [...prev, userMsg]);
         setIsLoading(true);
 
+        const appendToReply = (chunk: string, replace = false) => {
+            setMessages(prev => {
+                const existing = prev.find(msg => msg.id === aiMsgId);
+                if (!existing) {
+                    return [...prev, { id: aiMsgId, from: 'ai', text: chunk }];
+                }
+                return prev.map(msg => msg.id === aiMsgId ? { ...msg, text: replace ? chunk : msg.text + chunk } : msg);
+            });
+        };
+
         try {
-            // 2. Call API
+            // 2. Call API, streaming goal, result cards and reply tokens
             const res = await fetch('/api/ai/search-agent', {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
+                headers: {
+                    'Content-Type': 'application/json',
+                    Accept: 'text/event-stream',
+                },
                 body: JSON.stringify({
                     message: text,
-                    previousMessages: messages.slice(-5), // Send last 5 context
-                    currentGoal: goal,
+                    previousMessages,
+                    currentGoal: goalRef.current,
                     sessionToken: localStorage.getItem('search_session_token') || 'demo'
                 })
             });
 
             if (!res.ok) throw new Error('Agent failed');
 
-            const data = await res.json();
-
-            // 3. Update state with AI response
-            if (data.goal) {
-                setGoal(data.goal);
+            // Servers without streaming support answer with plain JSON
+            if (!res.body || !res.headers.get('content-type')?.includes('text/event-stream')) {
+                const data = await res.json();
+                if (data.goal) setGoal(data.goal);
+                if (Array.isArray(data.results)) {
+                    setResults(data.results);
+                    setTotalResults(data.total ?? data.results.length);
+                }
+                appendToReply(data.content, true);
+                return;
             }
 
-            const aiMsg: Message = {
-                id: (Date.now() + 1).toString(),
-                from: 'ai',
-                text: data.content
-            };
-            setMessages(prev => [...prev, aiMsg]);
+            // 3. Update state as events arrive
+            const reader = res.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+
+                const parsed = parseSseChunk(buffer + decoder.decode(value, { stream: true }));
+                buffer = parsed.rest;
+
+                for (const event of parsed.events) {
+                    switch (event.event) {
+                        case 'goal':
+                            setGoal(event.data);
+                            break;
+                        case 'results':
+                            setResults(event.data.results);
+                            setTotalResults(event.data.total);
+                            break;
+                        case 'token':
+                            appendToReply(event.data.text);
+                            break;
+                        case 'done':
+                            appendToReply(event.data.content, true);
+                            break;
+                        case 'error':
+                            throw new Error(event.data.message);
+                    }
+                }
+            }
 
         } catch (err) {
             console.error('Agent error:', err);
@@ -69,13 +121,16 @@ export function useSearchAgent() {
         } finally {
             setIsLoading(false);
         }
-    };
+    }, []);
 
     return {
         messages,
         goal,
+        results,
+        totalResults,
         isLoading,
         sendMessage,
-        setMessages // Exposed for clearing/initialization if needed
+        setMessages, // Exposed for clearing/initialization if needed
+        setResults
     };
 }
@@ -0,0 +1,510 @@
+// Conversational Search Agent - Turns a SearchGoal into a search and explains results
+// Shared by /api/ai/search-agent (server) and useSearchAgent (client stream parsing)
+
+import type { SearchGoal } from '@/components/SearchGoalCard';
+import type { RecommendationReason } from '@/components/ExplainWhy';
+import type { SearchFilters, SearchResult } from '@/services/search-svc';
+import type { JsonSchema } from '@/lib/llm/types';
+import { universities } from '@/lib/university-service';
+
+export interface AgentMessage {
+  from: 'user' | 'ai' | 'system';
+  text: string;
+}
+
+export interface AgentResultCard {
+  id: string;
+  title: string;
+  price: number;
+  district: string;
+  address: string | null;
+  photo: string | null;
+  score: number; // 0-100
+  commuteMinutes: number | null;
+  reasons: RecommendationReason[];
+}
+
+export type AgentStreamEvent =
+  | { event: 'goal'; data: SearchGoal }
+  | { event: 'results'; data: { total: number; results: AgentResultCard[] } }
+  | { event: 'token'; data: { text: string } }
+  | { event: 'done'; data: { content: string } }
+  | { event: 'error'; data: { message: string } };
+
+export const AGENT_RESULT_LIMIT = 5;
+const HISTORY_LIMIT = 8;
+const EUR_TO_HUF = 400; // Budgets entered in EUR are searched in HUF
+
+const ROMAN = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X', 'XI', 'XII', 'XIII',
+  'XIV', 'XV', 'XVI', 'XVII', 'XVIII', 'XIX', 'XX', 'XXI', 'XXII', 'XXIII'];
+
+export function createEmptyGoal(): SearchGoal {
+  return {
+    budget: { currency: 'HUF' },
+    location: { districts: [] },
+    features: { must_have: [], nice_to_have: [] },
+    occupancy: { type: 'student', count: 1 },
+    status: 'exploring',
+  };
+}
+
+/**
+ * Fill missing sections so partial goals from the model or client are safe to use
+ */
+export function normalizeGoal(goal: Partial<SearchGoal> | null | undefined): SearchGoal {
+  const empty = createEmptyGoal();
+  if (!goal || typeof goal !== 'object') return empty;
+
+  const districts = Array.isArray(goal.location?.districts)
+    ? goal.location!.districts.map(Number).filter((d) => Number.isInteger(d) && d >= 1 && d <= 23)
+    : [];
+
+  return {
+    budget: {
+      currency: goal.budget?.currency === 'EUR' ? 'EUR' : 'HUF',
+      ...(typeof goal.budget?.min === 'number' ? { min: goal.budget.min } : {}),
+      ...(typeof goal.budget?.max === 'number' ? { max: goal.budget.max } : {}),
+    },
+    location: {
+      districts: Array.from(new Set(districts)),
+      ...(Array.isArray(goal.location?.poi_proximity) ? { poi_proximity: goal.location!.poi_proximity } : {}),
+    },
+    features: {
+      must_have: Array.isArray(goal.features?.must_have) ? goal.features!.must_have.map(String) : [],
+      nice_to_have: Array.isArray(goal.features?.nice_to_have) ? goal.features!.nice_to_have.map(String) : [],
+    },
+    occupancy: {
+      type: goal.occupancy?.type ?? empty.occupancy.type,
+      count: Math.max(1, Number(goal.occupancy?.count) || 1),
+    },
+    status: goal.status ?? empty.status,
+  };
+}
+
+const FEATURE_PATTERNS: Array<[RegExp, string]> = [
+  [/balcon|erkély/i, 'balcony'],
+  [/terrace/i, 'terrace'],
+  [/washing machine|washer|laundry/i, 'washing machine'],
+  [/dishwasher/i, 'dishwasher'],
+  [/air ?con|\bac\b|a\/c/i, 'air conditioning'],
+  [/wi-?fi|internet/i, 'wifi'],
+  [/parking|garage/i, 'parking'],
+  [/elevator|\blift\b/i, 'elevator'],
+  [/furnished/i, 'furnished'],
+  [/\bpets?\b|\bcat\b|\bdog\b/i, 'pet friendly'],
+  [/\bgym\b/i, 'gym'],
+];
+
+function parseBudget(message: string): { max: number; currency: 'HUF' | 'EUR' } | null {
+  const pattern =
+    /(?:(budget|under|below|max(?:imum)?|up to|less than)\s*(?:of\s*|is\s*)?)?(\d[\d\s.,]*?)\s*(?:(k|e|ezer)\b)?\s*(huf|ft|forint|eur|euros?|€)?(?!\d)/gi;
+
+  for (const [, cue, rawNumber, thousands, unit] of Array.from(message.matchAll(pattern))) {
+    // A bare number is a room count or a district, not a budget
+    if (!cue && !thousands && !unit) continue;
+
+    const isEur = /eur|€/i.test(unit ?? '');
+    let amount = Number(rawNumber.replace(/[\s.,]/g, ''));
+    if (!Number.isFinite(amount) || amount <= 0) continue;
+    if (thousands || (amount < 1000 && !isEur)) amount *= 1000;
+
+    return { max: amount, currency: isEur ? 'EUR' : 'HUF' };
+  }
+  return null;
+}
+
+export function parseDistricts(message: string): number[] {
+  const districts = new Set<number>();
+  const pattern = /\b([IVX]{1,5}|\d{1,2})(?:\.|th|st|nd|rd)?\s*(?:district|kerület|ker\.)|\bdistricts?\s+([IVX]{1,5}|\d{1,2})\b/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(message)) !== null) {
+    const district = districtFromLabel(match[1] ?? match[2]);
+    if (district) districts.add(district);
+  }
+  return Array.from(districts);
+}
+
+/**
+ * Rule-based goal update used when the model is unavailable
+ */
+export function applyMessageToGoal(message: string, currentGoal: SearchGoal): SearchGoal {
+  const goal = normalizeGoal(currentGoal);
+
+  const budget = parseBudget(message);
+  if (budget) {
+    goal.budget.max = budget.max;
+    goal.budget.currency = budget.currency;
+  }
+
+  const districts = parseDistricts(message);
+  if (districts.length > 0) {
+    goal.location.districts = Array.from(new Set([...goal.location.districts, ...districts]));
+  }
+
+  const people = message.match(/(\d+)\s*(?:bed(?:room)?s?|br|rooms|roommates|flatmates|people)\b/i);
+  if (people && Number(people[1]) > 1) {
+    goal.occupancy = { type: 'roommate', count: Number(people[1]) };
+  }
+
+  const features = FEATURE_PATTERNS.filter(([pattern]) => pattern.test(message)).map(([, feature]) => feature);
+  goal.features.must_have = Array.from(new Set([...goal.features.must_have, ...features]));
+
+  const university = findUniversity(message);
+  if (university && !goal.location.poi_proximity?.some((poi) => findUniversity(poi.target)?.id === university.id)) {
+    const minutes = message.match(/(\d{1,3})\s*(?:min|minutes|perc)/i);
+    goal.location.poi_proximity = [
+      ...(goal.location.poi_proximity ?? []),
+      { target: university.shortName, max_minutes: minutes ? Number(minutes[1]) : 30 },
+    ];
+  }
+
+  goal.status = goal.budget.max && (goal.location.districts.length > 0 || goal.location.poi_proximity?.length)
+    ? 'monitoring'
+    : 'refining';
+  return goal;
+}
+
+export function findUniversity(text: string) {
+  const lower = text.toLowerCase();
+  return universities.find((university) =>
+    lower.includes(university.id) ||
+    lower.includes(university.shortName.toLowerCase()) ||
+    lower.includes(university.shortName.split(' ')[0].toLowerCase()) ||
+    lower.includes(university.name.toLowerCase())
+  );
+}
+
+export function districtToRoman(district: number): string {
+  return ROMAN[district - 1] ?? String(district);
+}
+
+function districtFromLabel(label: string): number | null {
+  const trimmed = label.trim().replace(/\.$/, '').toUpperCase();
+  const roman = ROMAN.indexOf(trimmed);
+  if (roman >= 0) return roman + 1;
+  const numeric = Number(trimmed);
+  return Number.isInteger(numeric) && numeric >= 1 && numeric <= 23 ? numeric : null;
+}
+
+/**
+ * Map the agent goal onto hybrid search input. Districts are matched exactly
+ * after the search (search-svc's district filter is a substring match).
+ */
+export function goalToSearchFilters(goal: SearchGoal): { query: string; filters: SearchFilters } {
+  const filters: SearchFilters = { limit: 40, sortBy: 'relevance' };
+  const rate = goal.budget.currency === 'EUR' ? EUR_TO_HUF : 1;
+
+  if (goal.budget.max) {
+    filters.budget = { min: Math.round((goal.budget.min ?? 0) * rate), max: Math.round(goal.budget.max * rate) };
+  }
+
+  if (goal.occupancy.type === 'roommate' && goal.occupancy.count > 1) {
+    filters.rooms = goal.occupancy.count;
+  }
+
+  if (goal.location.districts.length === 1) {
+    filters.district = districtToRoman(goal.location.districts[0]);
+  }
+
+  const poi = goal.location.poi_proximity?.[0];
+  const university = poi ? findUniversity(poi.target) : undefined;
+  if (poi && university) {
+    filters.commuteOrigin = { lat: university.latitude, lng: university.longitude };
+    filters.maxCommuteMinutes = poi.max_minutes || 30;
+    filters.commuteMode = 'transit';
+  }
+
+  const query = [...goal.features.must_have, ...goal.features.nice_to_have, poi?.target]
+    .filter(Boolean)
+    .join(' ');
+
+  return { query, filters };
+}
+
+function hasFeature(result: SearchResult, feature: string): boolean {
+  const needle = feature.toLowerCase().replace(/^amen_/, '').replace(/[_-]/g, ' ').trim();
+  if (!needle) return false;
+  const haystack = [
+    ...result.apartment.amenities.filter(Boolean),
+    result.apartment.title,
+    result.apartment.description ?? '',
+  ].join(' ').toLowerCase().replace(/[_-]/g, ' ');
+  return haystack.includes(needle) || (needle === 'wifi' && haystack.includes('wi fi'));
+}
+
+/**
+ * ExplainWhy reasons for one result against the goal (weights sum to ~1)
+ */
+export function explainResult(result: SearchResult, goal: SearchGoal): RecommendationReason[] {
+  const reasons: RecommendationReason[] = [];
+  const apartment = result.apartment;
+  const rate = goal.budget.currency === 'EUR' ? EUR_TO_HUF : 1;
+
+  if (goal.budget.max) {
+    const max = goal.budget.max * rate;
+    const share = apartment.price / max;
+    reasons.push({
+      factor: 'Budget',
+      weight: share <= 1 ? 0.35 : 0.1,
+      description: share <= 1
+        ? `${apartment.price.toLocaleString('hu-HU')} HUF is ${Math.round((1 - share) * 100)}% under your budget`
+        : `${Math.round((share - 1) * 100)}% over your budget`,
+    });
+  }
+
+  const district = districtFromLabel(apartment.district);
+  if (goal.location.districts.length > 0 && district) {
+    const inDistrict = goal.location.districts.includes(district);
+    reasons.push({
+      factor: 'Location',
+      weight: inDistrict ? 0.25 : 0.05,
+      description: inDistrict ? `In District ${apartment.district}, one of your picks` : `In District ${apartment.district}`,
+    });
+  }
+
+  if (apartment.metrics.commuteMinutes !== null && goal.location.poi_proximity?.length) {
+    reasons.push({
+      factor: 'Commute',
+      weight: 0.25,
+      description: `About ${Math.round(apartment.metrics.commuteMinutes)} min to ${goal.location.poi_proximity[0].target}`,
+    });
+  }
+
+  const wanted = [...goal.features.must_have, ...goal.features.nice_to_have];
+  if (wanted.length > 0) {
+    const matched = wanted.filter((feature) => hasFeature(result, feature));
+    const mustMissing = goal.features.must_have.filter((feature) => !hasFeature(result, feature));
+    reasons.push({
+      factor: 'Features',
+      weight: 0.3 * (matched.length / wanted.length),
+      description: matched.length > 0
+        ? `Has ${matched.join(', ')}${mustMissing.length ? `; missing ${mustMissing.join(', ')}` : ''}`
+        : `Missing ${mustMissing.join(', ') || wanted.join(', ')}`,
+    });
+  }
+
+  if (reasons.length === 0) {
+    result.reasons.slice(0, 2).forEach((reason, index) => {
+      reasons.push({ factor: index === 0 ? 'Match' : 'Also', weight: 0.2, description: reason });
+    });
+  }
+
+  return reasons;
+}
+
+/**
+ * Rank search results for the goal and keep the top cards. Search relevance
+ * counts for half, goal fit (budget, district, features) for the rest.
+ */
+export function rankResultsForGoal(
+  results: SearchResult[],
+  goal: SearchGoal,
+  limit: number = AGENT_RESULT_LIMIT
+): AgentResultCard[] {
+  const topSearchScore = Math.max(...results.map((result) => result.score), 0) || 1;
+
+  return results
+    .filter((result) => {
+      // Must-have districts are strict when set
+      if (goal.location.districts.length === 0) return true;
+      const district = districtFromLabel(result.apartment.district);
+      return district !== null && goal.location.districts.includes(district);
+    })
+    .map((result) => {
+      const reasons = explainResult(result, goal);
+      const fit = reasons.reduce((sum, reason) => sum + reason.weight, 0);
+      const score = Math.round(Math.min(1, 0.5 * (result.score / topSearchScore) + 0.5 * Math.min(1, fit)) * 100);
+      return {
+        id: result.apartment.id,
+        title: result.apartment.title,
+        price: result.apartment.price,
+        district: result.apartment.district,
+        address: result.apartment.address,
+        photo: result.apartment.photos[0] ?? null,
+        score,
+        commuteMinutes: result.apartment.metrics.commuteMinutes,
+        reasons: reasons.sort((a, b) => b.weight - a.weight),
+      };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+function formatHistory(previousMessages: AgentMessage[] | undefined): string {
+  const history = (previousMessages ?? [])
+    .filter((message) => message && typeof message.text === 'string' && message.from !== 'system')
+    .slice(-HISTORY_LIMIT)
+    .map((message) => `${message.from === 'user' ? 'User' : 'Agent'}: ${message.text.slice(0, 500)}`);
+  return history.length > 0 ? history.join('\n') : '(no earlier messages)';
+}
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+// Shape of the goal-update reply; normalizeGoal() cleans up the values
+export const GOAL_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    updated_goal: {
+      type: 'object',
+      properties: {
+        budget: {
+          type: 'object',
+          properties: {
+            min: { type: 'number', nullable: true },
+            max: { type: 'number', nullable: true },
+            currency: { type: 'string', enum: ['HUF', 'EUR'] },
+          },
+          required: ['currency'],
+        },
+        location: {
+          type: 'object',
+          properties: {
+            districts: { type: 'array', items: { type: 'integer', minimum: 1, maximum: 23 } },
+            poi_proximity: {
+              type: 'array',
+              nullable: true,
+              items: {
+                type: 'object',
+                properties: {
+                  target: { type: 'string' },
+                  max_minutes: { type: 'number' },
+                },
+                required: ['target', 'max_minutes'],
+              },
+            },
+          },
+          required: ['districts'],
+        },
+        features: {
+          type: 'object',
+          properties: {
+            must_have: stringList,
+            nice_to_have: stringList,
+          },
+          required: ['must_have', 'nice_to_have'],
+        },
+        occupancy: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: ['student', 'couple', 'roommate'] },
+            count: { type: 'integer', minimum: 1 },
+          },
+          required: ['type', 'count'],
+        },
+        status: { type: 'string', enum: ['exploring', 'refining', 'monitoring'] },
+      },
+      required: ['budget', 'location', 'features', 'occupancy', 'status'],
+    },
+  },
+  required: ['updated_goal'],
+};
+
+export function buildGoalPrompt(message: string, previousMessages: AgentMessage[] | undefined, goal: SearchGoal): string {
+  return `
+You are an expert real estate agent for Student Apartments Budapest.
+Your goal is to help the user find their perfect apartment by building a "Search Profile".
+
+Conversation so far:
+${formatHistory(previousMessages)}
+
+Current Profile State:
+${JSON.stringify(goal, null, 2)}
+
+User's Last Message: "${message}"
+
+INSTRUCTIONS:
+1. Analyze the user's message in the context of the conversation.
+2. Update the "Search Profile" JSON based on new information.
+   - If user says "budget 150k", update budget.max to 150000.
+   - If user says "near ELTE", add to location.poi_proximity.
+   - If user says "balcony", add to features.must_have.
+   - Districts are numbers 1-23 (District VIII = 8).
+   - If user contradicts previous info, update it.
+3. Set status to "refining" while details are still missing, "monitoring" once budget and location are known.
+
+OUTPUT FORMAT (JSON ONLY):
+{
+  "updated_goal": { ...entire goal object... }
+}
+`;
+}
+
+export function buildReplyPrompt(
+  message: string,
+  previousMessages: AgentMessage[] | undefined,
+  goal: SearchGoal,
+  cards: AgentResultCard[],
+  total: number
+): string {
+  const listing = cards.length > 0
+    ? cards.map((card, index) =>
+      `${index + 1}. ${card.title} - ${card.price.toLocaleString('hu-HU')} HUF, District ${card.district}` +
+      ` (${card.reasons.slice(0, 2).map((reason) => reason.description).join('; ')})`
+    ).join('\n')
+    : '(no matching apartments)';
+
+  return `
+You are a friendly apartment search assistant for students in Budapest.
+
+Conversation so far:
+${formatHistory(previousMessages)}
+
+User's Last Message: "${message}"
+
+Search Profile:
+${JSON.stringify(goal)}
+
+Top matches (${total} apartments found in total):
+${listing}
+
+Reply in 2-4 short sentences, plain text, no markdown. Mention the best match by name if there is one,
+then ask for the single most useful missing detail (budget, district, university or must-have feature).
+If nothing matched, suggest which requirement to relax.
+`;
+}
+
+/**
+ * Template reply used when the model cannot stream one
+ */
+export function buildFallbackReply(goal: SearchGoal, cards: AgentResultCard[], total: number): string {
+  const missing = !goal.budget.max
+    ? 'What is your monthly budget?'
+    : goal.location.districts.length === 0 && !goal.location.poi_proximity?.length
+      ? 'Which district or university should I search around?'
+      : 'Any must-have features, like a balcony or washing machine?';
+
+  if (cards.length === 0) {
+    return `I couldn't find apartments matching everything yet. Try a higher budget or fewer must-haves. ${missing}`;
+  }
+  return `I found ${total} apartments; the best match is "${cards[0].title}" for ${cards[0].price.toLocaleString('hu-HU')} HUF. ${missing}`;
+}
+
+export function encodeSseEvent({ event, data }: AgentStreamEvent): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Split buffered SSE text into complete events; returns the unparsed remainder
+ */
+export function parseSseChunk(buffer: string): { events: AgentStreamEvent[]; rest: string } {
+  const events: AgentStreamEvent[] = [];
+  const blocks = buffer.split('\n\n');
+  const rest = blocks.pop() ?? '';
+
+  for (const block of blocks) {
+    let event = 'message';
+    const dataLines: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+    }
+    if (dataLines.length === 0) continue;
+    try {
+      events.push({ event, data: JSON.parse(dataLines.join('\n')) } as AgentStreamEvent);
+    } catch {
+      // Ignore malformed events
+    }
+  }
+
+  return { events, rest };
+}
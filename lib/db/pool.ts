@@ -52,3 +52,33 @@ export async function runQuery<T = any>(text: string, params: any[] = []) {
     throw error;
   }
 }
+
+const INSERT_BATCH_SIZE = 1000;
+
+/**
+ * Multi-row INSERT in batches, for importers writing inside a transaction
+ */
+export async function insertBatched(
+  client: any,
+  table: string,
+  columns: string[],
+  rows: unknown[][],
+  conflict = ''
+): Promise<void> {
+  for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+    const batch = rows.slice(start, start + INSERT_BATCH_SIZE);
+    const params: unknown[] = [];
+    const values = batch.map((row) => {
+      const placeholders = row.map((value) => {
+        params.push(value);
+        return `$${params.length}`;
+      });
+      return `(${placeholders.join(', ')})`;
+    });
+
+    await client.query(
+      `INSERT INTO ${table} (${columns.join(', ')}) VALUES ${values.join(', ')} ${conflict}`,
+      params
+    );
+  }
+}
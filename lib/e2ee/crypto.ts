@@ -0,0 +1,228 @@
+/**
+ * End-to-end encryption primitives for messaging
+ * WebCrypto only, so the same code runs in the browser (where keys are
+ * generated and used) and in Node for tests. The server never sees private
+ * keys, unwrapped conversation keys or plaintext.
+ *
+ * - Each user has an ECDH P-256 key pair; only the public half is uploaded.
+ * - Each conversation key version is a random AES-256-GCM key, wrapped for
+ *   every participant with ECIES (ephemeral ECDH + HKDF + AES-GCM).
+ * - Messages are AES-GCM encrypted with the conversation key; the
+ *   conversation id and key version are bound in as associated data.
+ */
+
+export const ENVELOPE_PREFIX = 'e2ee1';
+
+const WRAP_INFO = 'student-apartments/e2ee/wrap/v1';
+const IV_BYTES = 12;
+
+export interface WrappedKeyPayload {
+  v: 1;
+  epk: { x: string; y: string }; // Ephemeral public key coordinates
+  iv: string;
+  ct: string;
+}
+
+export interface MessageEnvelope {
+  keyVersion: number;
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: Uint8Array<ArrayBuffer>;
+}
+
+function subtle(): SubtleCrypto {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('WebCrypto is not available in this environment');
+  }
+  return globalThis.crypto.subtle;
+}
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return globalThis.crypto.getRandomValues(new Uint8Array(length));
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+export function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// -- User key pairs --------------------------------------------------------------
+
+export async function generateUserKeyPair(): Promise<{ publicKey: JsonWebKey; privateKey: JsonWebKey }> {
+  const pair = (await subtle().generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits'])) as CryptoKeyPair;
+  const [publicKey, privateKey] = await Promise.all([
+    subtle().exportKey('jwk', pair.publicKey),
+    subtle().exportKey('jwk', pair.privateKey),
+  ]);
+  return { publicKey: toPublicJwk(publicKey), privateKey };
+}
+
+/**
+ * Strip a JWK down to the public coordinates, which is all the server stores
+ */
+export function toPublicJwk(jwk: JsonWebKey): JsonWebKey {
+  if (jwk.kty !== 'EC' || jwk.crv !== 'P-256' || !jwk.x || !jwk.y) {
+    throw new Error('Expected a P-256 EC public key');
+  }
+  return { kty: 'EC', crv: 'P-256', x: jwk.x, y: jwk.y };
+}
+
+/**
+ * Short, stable identifier for a public key that users can compare out of band
+ */
+export async function publicKeyFingerprint(jwk: JsonWebKey): Promise<string> {
+  const { x, y } = toPublicJwk(jwk);
+  const digest = new Uint8Array(await subtle().digest('SHA-256', encoder.encode(`${x}.${y}`)));
+  return Array.from(digest.slice(0, 16), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function importPublicKey(jwk: JsonWebKey): Promise<CryptoKey> {
+  return subtle().importKey('jwk', toPublicJwk(jwk), { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+}
+
+function importPrivateKey(jwk: JsonWebKey): Promise<CryptoKey> {
+  return subtle().importKey('jwk', jwk, { name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits']);
+}
+
+async function deriveWrappingKey(privateKey: CryptoKey, publicKey: CryptoKey): Promise<CryptoKey> {
+  const shared = await subtle().deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+  const hkdfKey = await subtle().importKey('raw', shared, 'HKDF', false, ['deriveKey']);
+  return subtle().deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encoder.encode(WRAP_INFO) },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// -- Conversation keys -----------------------------------------------------------
+
+/**
+ * Associated data for a wrapped key, so a wrapped key copied to another
+ * conversation, version or user fails to unwrap
+ */
+export function wrapContext(conversationId: string, keyVersion: number, userId: string): string {
+  return `${conversationId}:${keyVersion}:${userId}`;
+}
+
+export async function generateConversationKey(): Promise<CryptoKey> {
+  return subtle().generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Wrap a conversation key for one recipient; anyone holding the recipient's
+ * public key can do this, only the recipient can unwrap
+ */
+export async function wrapConversationKey(
+  conversationKey: CryptoKey,
+  recipientPublicKey: JsonWebKey,
+  context: string
+): Promise<string> {
+  const ephemeral = (await subtle().generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits'])) as CryptoKeyPair;
+  const wrappingKey = await deriveWrappingKey(ephemeral.privateKey, await importPublicKey(recipientPublicKey));
+  const raw = new Uint8Array(await subtle().exportKey('raw', conversationKey));
+  const iv = randomBytes(IV_BYTES);
+
+  const ciphertext = await subtle().encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(context) },
+    wrappingKey,
+    raw
+  );
+  const epk = await subtle().exportKey('jwk', ephemeral.publicKey);
+
+  const payload: WrappedKeyPayload = {
+    v: 1,
+    epk: { x: epk.x!, y: epk.y! },
+    iv: toBase64(iv),
+    ct: toBase64(new Uint8Array(ciphertext)),
+  };
+  return btoa(JSON.stringify(payload));
+}
+
+export async function unwrapConversationKey(
+  wrappedKey: string,
+  privateKey: JsonWebKey,
+  context: string
+): Promise<CryptoKey> {
+  const payload = JSON.parse(atob(wrappedKey)) as WrappedKeyPayload;
+  if (payload.v !== 1) {
+    throw new Error(`Unsupported wrapped key version ${payload.v}`);
+  }
+
+  const ephemeralPublic = await importPublicKey({ kty: 'EC', crv: 'P-256', ...payload.epk });
+  const wrappingKey = await deriveWrappingKey(await importPrivateKey(privateKey), ephemeralPublic);
+  const raw = await subtle().decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv), additionalData: encoder.encode(context) },
+    wrappingKey,
+    fromBase64(payload.ct)
+  );
+
+  return subtle().importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+// -- Message envelopes -----------------------------------------------------------
+
+function messageContext(conversationId: string, keyVersion: number): Uint8Array<ArrayBuffer> {
+  return encoder.encode(`${conversationId}:${keyVersion}`);
+}
+
+export function isEncryptedEnvelope(content: unknown): content is string {
+  return typeof content === 'string' && content.startsWith(`${ENVELOPE_PREFIX}.`);
+}
+
+/**
+ * Parse `e2ee1.<keyVersion>.<iv>.<ciphertext>`; the key version is readable
+ * without any key so the server can check it against the conversation
+ */
+export function parseEnvelope(content: string): MessageEnvelope | null {
+  const parts = content.split('.');
+  if (parts.length !== 4 || parts[0] !== ENVELOPE_PREFIX) return null;
+
+  const keyVersion = Number(parts[1]);
+  if (!Number.isInteger(keyVersion) || keyVersion < 1) return null;
+
+  try {
+    return { keyVersion, iv: fromBase64(parts[2]), ciphertext: fromBase64(parts[3]) };
+  } catch {
+    return null;
+  }
+}
+
+export async function encryptMessageContent(
+  conversationKey: CryptoKey,
+  plaintext: string,
+  conversationId: string,
+  keyVersion: number
+): Promise<string> {
+  const iv = randomBytes(IV_BYTES);
+  const ciphertext = await subtle().encrypt(
+    { name: 'AES-GCM', iv, additionalData: messageContext(conversationId, keyVersion) },
+    conversationKey,
+    encoder.encode(plaintext)
+  );
+  return [ENVELOPE_PREFIX, keyVersion, toBase64(iv), toBase64(new Uint8Array(ciphertext))].join('.');
+}
+
+export async function decryptMessageContent(
+  conversationKey: CryptoKey,
+  envelope: MessageEnvelope,
+  conversationId: string
+): Promise<string> {
+  const plaintext = await subtle().decrypt(
+    { name: 'AES-GCM', iv: envelope.iv, additionalData: messageContext(conversationId, envelope.keyVersion) },
+    conversationKey,
+    envelope.ciphertext
+  );
+  return decoder.decode(plaintext);
+}
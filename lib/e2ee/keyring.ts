@@ -0,0 +1,266 @@
+/**
+ * Client-side key management for end-to-end encrypted conversations
+ * Keeps the user's private key on the device, unwraps conversation keys on
+ * demand and creates a new key version whenever the server asks for a
+ * rotation (first encrypted message, a participant removed, a participant's
+ * device key replaced).
+ */
+
+import {
+  decryptMessageContent,
+  encryptMessageContent,
+  generateConversationKey,
+  generateUserKeyPair,
+  isEncryptedEnvelope,
+  parseEnvelope,
+  unwrapConversationKey,
+  wrapConversationKey,
+  wrapContext,
+} from './crypto';
+
+export interface UserKeyPair {
+  publicKey: JsonWebKey;
+  privateKey: JsonWebKey;
+}
+
+export interface ConversationKeyBundle {
+  conversationId: string;
+  currentVersion: number; // 0 until the first encrypted message
+  rotationRequired: boolean;
+  participants: Array<{ userId: string; publicKey: JsonWebKey | null }>; // Active participants only
+  wrappedKeys: Array<{ keyVersion: number; wrappedKey: string }>; // Wrapped for the requesting user
+}
+
+/**
+ * Server side of key distribution; stores public keys and wrapped keys only
+ */
+export interface KeyDirectory {
+  publishPublicKey(publicKey: JsonWebKey): Promise<void>;
+  getConversationKeys(conversationId: string): Promise<ConversationKeyBundle>;
+  storeConversationKey(
+    conversationId: string,
+    keyVersion: number,
+    wrappedKeys: Array<{ userId: string; wrappedKey: string }>
+  ): Promise<void>;
+}
+
+export interface PrivateKeyStore {
+  load(userId: string): Promise<UserKeyPair | null>;
+  save(userId: string, keyPair: UserKeyPair): Promise<void>;
+}
+
+export interface MessageCipher {
+  encrypt(conversationId: string, plaintext: string): Promise<string>;
+  decrypt(conversationId: string, content: string): Promise<string>;
+}
+
+/**
+ * Thrown by KeyDirectory.storeConversationKey when another participant
+ * stored that key version first
+ */
+export class KeyVersionConflictError extends Error {
+  constructor(message = 'Conversation key version already exists') {
+    super(message);
+    this.name = 'KeyVersionConflictError';
+  }
+}
+
+export const UNDECRYPTABLE_MESSAGE = '[Encrypted message - not readable on this device]';
+
+export class ConversationKeyring implements MessageCipher {
+  private keyPair: UserKeyPair | null = null;
+  private keys = new Map<string, CryptoKey>(); // `${conversationId}:${version}` -> key
+
+  constructor(
+    private userId: string,
+    private directory: KeyDirectory = httpKeyDirectory,
+    private store: PrivateKeyStore = localKeyStore
+  ) {}
+
+  /**
+   * Load this device's key pair, generating and publishing one on first use
+   */
+  async ensureUserKeys(): Promise<UserKeyPair> {
+    if (this.keyPair) return this.keyPair;
+
+    let keyPair = await this.store.load(this.userId);
+    if (!keyPair) {
+      keyPair = await generateUserKeyPair();
+      await this.store.save(this.userId, keyPair);
+    }
+
+    // Idempotent on the server; re-publishing after a reinstall triggers rotation there
+    await this.directory.publishPublicKey(keyPair.publicKey);
+    this.keyPair = keyPair;
+    return keyPair;
+  }
+
+  /**
+   * Encrypt for the conversation's current key version. Conversations that
+   * have never been encrypted stay plaintext until every participant has
+   * published a key.
+   */
+  async encrypt(conversationId: string, plaintext: string): Promise<string> {
+    await this.ensureUserKeys();
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const bundle = await this.directory.getConversationKeys(conversationId);
+      const needsNewVersion = bundle.currentVersion === 0 || bundle.rotationRequired;
+
+      if (!needsNewVersion) {
+        const key = await this.getKey(conversationId, bundle.currentVersion, bundle);
+        if (!key) {
+          throw new Error('Current conversation key is not available on this device');
+        }
+        return encryptMessageContent(key, plaintext, conversationId, bundle.currentVersion);
+      }
+
+      if (bundle.participants.some((participant) => !participant.publicKey)) {
+        if (bundle.currentVersion === 0) return plaintext;
+        throw new Error('A participant has no encryption key; the conversation key cannot be rotated');
+      }
+
+      try {
+        const keyVersion = bundle.currentVersion + 1;
+        const key = await this.createKeyVersion(conversationId, keyVersion, bundle);
+        return encryptMessageContent(key, plaintext, conversationId, keyVersion);
+      } catch (error) {
+        // Someone else rotated at the same time; use their version instead
+        if (!(error instanceof KeyVersionConflictError)) throw error;
+      }
+    }
+
+    throw new Error('Could not agree on a conversation key version');
+  }
+
+  /**
+   * Decrypt an envelope; plaintext (legacy) content is returned unchanged
+   */
+  async decrypt(conversationId: string, content: string): Promise<string> {
+    if (!isEncryptedEnvelope(content)) return content;
+
+    const envelope = parseEnvelope(content);
+    if (!envelope) return UNDECRYPTABLE_MESSAGE;
+
+    try {
+      await this.ensureUserKeys();
+      const key = await this.getKey(conversationId, envelope.keyVersion);
+      if (!key) return UNDECRYPTABLE_MESSAGE;
+      return await decryptMessageContent(key, envelope, conversationId);
+    } catch (error) {
+      console.warn('Message decryption failed:', error);
+      return UNDECRYPTABLE_MESSAGE;
+    }
+  }
+
+  private async getKey(
+    conversationId: string,
+    keyVersion: number,
+    bundle?: ConversationKeyBundle
+  ): Promise<CryptoKey | null> {
+    const cacheKey = `${conversationId}:${keyVersion}`;
+    const cached = this.keys.get(cacheKey);
+    if (cached) return cached;
+
+    const { wrappedKeys } = bundle ?? (await this.directory.getConversationKeys(conversationId));
+    const wrapped = wrappedKeys.find((entry) => entry.keyVersion === keyVersion);
+    if (!wrapped) return null;
+
+    const keyPair = await this.ensureUserKeys();
+    const key = await unwrapConversationKey(
+      wrapped.wrappedKey,
+      keyPair.privateKey,
+      wrapContext(conversationId, keyVersion, this.userId)
+    );
+    this.keys.set(cacheKey, key);
+    return key;
+  }
+
+  private async createKeyVersion(
+    conversationId: string,
+    keyVersion: number,
+    bundle: ConversationKeyBundle
+  ): Promise<CryptoKey> {
+    const key = await generateConversationKey();
+    const wrappedKeys = await Promise.all(
+      bundle.participants.map(async (participant) => ({
+        userId: participant.userId,
+        wrappedKey: await wrapConversationKey(
+          key,
+          participant.publicKey!,
+          wrapContext(conversationId, keyVersion, participant.userId)
+        ),
+      }))
+    );
+
+    await this.directory.storeConversationKey(conversationId, keyVersion, wrappedKeys);
+    this.keys.set(`${conversationId}:${keyVersion}`, key);
+    return key;
+  }
+}
+
+// -- Browser defaults ------------------------------------------------------------
+
+function getCookie(name: string): string | null {
+  if (typeof document === 'undefined') return null;
+  const value = `; ${document.cookie}`;
+  const parts = value.split(`; ${name}=`);
+  if (parts.length === 2) return parts.pop()?.split(';').shift() ?? null;
+  return null;
+}
+
+async function postKeys(body: Record<string, unknown>): Promise<Response> {
+  return fetch('/api/messages/keys', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-CSRF-Token': getCookie('csrf_token') || '',
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+export const httpKeyDirectory: KeyDirectory = {
+  async publishPublicKey(publicKey) {
+    const response = await postKeys({ action: 'publish_public_key', publicKey });
+    if (!response.ok) {
+      throw new Error(`Failed to publish public key (${response.status})`);
+    }
+  },
+
+  async getConversationKeys(conversationId) {
+    const response = await fetch(`/api/messages/keys?conversationId=${encodeURIComponent(conversationId)}`);
+    if (!response.ok) {
+      throw new Error(`Failed to load conversation keys (${response.status})`);
+    }
+    return (await response.json()).data;
+  },
+
+  async storeConversationKey(conversationId, keyVersion, wrappedKeys) {
+    const response = await postKeys({ action: 'store_conversation_key', conversationId, keyVersion, wrappedKeys });
+    if (response.status === 409) {
+      throw new KeyVersionConflictError();
+    }
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || `Failed to store conversation key (${response.status})`);
+    }
+  },
+};
+
+// The private key never leaves the device; clearing site data means older
+// messages can no longer be read here
+export const localKeyStore: PrivateKeyStore = {
+  async load(userId) {
+    if (typeof localStorage === 'undefined') return null;
+    const stored = localStorage.getItem(`e2ee:keypair:${userId}`);
+    return stored ? (JSON.parse(stored) as UserKeyPair) : null;
+  },
+
+  async save(userId, keyPair) {
+    if (typeof localStorage === 'undefined') {
+      throw new Error('No local storage available for the encryption key');
+    }
+    localStorage.setItem(`e2ee:keypair:${userId}`, JSON.stringify(keyPair));
+  },
+};
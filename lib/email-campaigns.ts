@@ -1,5 +1,5 @@
-import { Resend } from 'resend';
 import { sanitizeHTML } from './sanitize';
+import { JOB_QUEUES, jobQueue, type EmailJobPayload } from '@/services/job-queue-svc';
 
 interface EmailTemplate {
   id: string;
@@ -28,21 +28,14 @@ interface EmailRecipient {
   email: string;
   userId?: string;
   variables: Record<string, any>;
-  status: 'pending' | 'sent' | 'delivered' | 'opened' | 'clicked' | 'bounced' | 'complained';
+  status: 'pending' | 'queued' | 'sent' | 'delivered' | 'opened' | 'clicked' | 'bounced' | 'complained';
 }
 
 class EmailCampaignService {
-  private resend: Resend;
   private templates: Map<string, EmailTemplate> = new Map();
   private campaigns: Map<string, Campaign> = new Map();
 
-  constructor(apiKey?: string) {
-    if (apiKey) {
-      this.resend = new Resend(apiKey);
-    } else {
-      // Mock implementation for build time
-      this.resend = { emails: { send: async () => ({ id: 'mock' }) } } as unknown as Resend;
-    }
+  constructor() {
     this.initializeTemplates();
   }
 
@@ -204,6 +197,8 @@ class EmailCampaignService {
   }
 
   // Email sending
+  // Each recipient becomes an email.send job; the job queue delivers them with
+  // retries, so a cold start mid-campaign no longer drops the rest of the list
   async sendCampaign(campaignId: string, recipients: EmailRecipient[]): Promise<void> {
     const campaign = this.campaigns.get(campaignId);
     if (!campaign) throw new Error('Campaign not found');
@@ -216,14 +211,18 @@ class EmailCampaignService {
     this.campaigns.set(campaignId, campaign);
 
     try {
-      // Send emails in batches to avoid rate limits
-      const batchSize = 50;
-      for (let i = 0; i < recipients.length; i += batchSize) {
-        const batch = recipients.slice(i, i + batchSize);
-        await Promise.all(
-          batch.map(recipient => this.sendEmail(template, recipient))
-        );
-      }
+      await jobQueue.enqueueMany<EmailJobPayload>(
+        JOB_QUEUES.email,
+        'email.send',
+        recipients.map(recipient => ({
+          payload: this.renderEmail(template, recipient),
+          // Bulk mail yields to transactional mail such as search alerts
+          options: { idempotencyKey: `campaign:${campaignId}:${recipient.email}`, priority: -10 },
+        }))
+      );
+      recipients.forEach(recipient => {
+        recipient.status = 'queued';
+      });
 
       campaign.status = 'sent';
       campaign.sentAt = new Date();
@@ -235,7 +234,7 @@ class EmailCampaignService {
     }
   }
 
-  private async sendEmail(template: EmailTemplate, recipient: EmailRecipient): Promise<void> {
+  private renderEmail(template: EmailTemplate, recipient: EmailRecipient): EmailJobPayload {
     // Replace variables in subject and content
     let subject = template.subject;
     let html = template.html;
@@ -253,24 +252,17 @@ class EmailCampaignService {
       if (text) text = text.replace(regex, safeValue);
     });
 
-    try {
-      await this.resend.emails.send({
-        from: 'Student Apartments <noreply@studentapartments.com>',
-        to: recipient.email,
-        subject,
-        html,
-        text,
-        tags: [
-          { name: 'campaign_type', value: template.id },
-          { name: 'user_id', value: recipient.userId || 'anonymous' },
-        ],
-      });
-
-      recipient.status = 'sent';
-    } catch (error) {
-      console.error('Failed to send email to', recipient.email, error);
-      recipient.status = 'bounced';
-    }
+    return {
+      from: 'Student Apartments <noreply@studentapartments.com>',
+      to: recipient.email,
+      subject,
+      html,
+      text,
+      tags: [
+        { name: 'campaign_type', value: template.id },
+        { name: 'user_id', value: recipient.userId || 'anonymous' },
+      ],
+    };
   }
 
   // Analytics and reporting
@@ -352,7 +344,7 @@ class EmailCampaignService {
 }
 
 // Create singleton instance
-export const emailCampaigns = new EmailCampaignService(process.env.RESEND_API_KEY);
+export const emailCampaigns = new EmailCampaignService();
 
 // Export types
 export type { EmailTemplate, Campaign, EmailRecipient };
\ No newline at end of file
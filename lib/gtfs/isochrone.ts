@@ -0,0 +1,84 @@
+/**
+ * Isochrone geometry
+ * A reachable area is described as a set of discs: every point reached within
+ * the budget plus the distance still walkable (or rideable) from it. The discs
+ * are what search filters on; the polygon is only for drawing.
+ */
+
+import { haversineMeters, type GeoPoint } from './stop-index';
+
+export interface ReachDisc extends GeoPoint {
+  elapsedSeconds: number;
+  radiusMeters: number;
+}
+
+export interface IsochronePolygon {
+  type: 'MultiPolygon';
+  coordinates: number[][][][]; // GeoJSON order: [lng, lat]
+}
+
+const EARTH_RADIUS_METERS = 6_371_000;
+const MIN_DISC_METERS = 50;
+
+/**
+ * Approximate a disc as a closed ring of [lng, lat] positions
+ */
+export function circleRing(center: GeoPoint, radiusMeters: number, segments = 24): number[][] {
+  const latRad = (center.lat * Math.PI) / 180;
+  const dLat = (radiusMeters / EARTH_RADIUS_METERS) * (180 / Math.PI);
+  const dLng = dLat / Math.max(Math.cos(latRad), 1e-6);
+
+  const ring: number[][] = [];
+  for (let i = 0; i < segments; i++) {
+    const angle = (2 * Math.PI * i) / segments;
+    ring.push([center.lng + dLng * Math.cos(angle), center.lat + dLat * Math.sin(angle)]);
+  }
+  ring.push(ring[0]);
+  return ring;
+}
+
+/**
+ * Drop tiny discs and discs entirely covered by a larger one so the polygon
+ * and the SQL filter stay small
+ */
+export function pruneDiscs(discs: ReachDisc[], limit = 400): ReachDisc[] {
+  const sorted = discs
+    .filter((disc) => disc.radiusMeters >= MIN_DISC_METERS)
+    .sort((a, b) => b.radiusMeters - a.radiusMeters);
+
+  const kept: ReachDisc[] = [];
+  for (const disc of sorted) {
+    const covered = kept.some(
+      (other) => haversineMeters(other, disc) + disc.radiusMeters <= other.radiusMeters
+    );
+    if (!covered) kept.push(disc);
+    if (kept.length >= limit) break;
+  }
+  return kept;
+}
+
+export function discsToPolygon(discs: ReachDisc[]): IsochronePolygon {
+  return {
+    type: 'MultiPolygon',
+    coordinates: discs.map((disc) => [circleRing(disc, disc.radiusMeters)]),
+  };
+}
+
+/**
+ * Whether a point lies inside the reachable area, with the estimated
+ * minutes to get there through the best disc
+ */
+export function minutesWithinDiscs(
+  point: GeoPoint,
+  discs: ReachDisc[],
+  metersPerMinute: number
+): number | null {
+  let best: number | null = null;
+  for (const disc of discs) {
+    const distance = haversineMeters(disc, point);
+    if (distance > disc.radiusMeters) continue;
+    const minutes = disc.elapsedSeconds / 60 + distance / metersPerMinute;
+    if (best === null || minutes < best) best = minutes;
+  }
+  return best;
+}
@@ -0,0 +1,75 @@
+/**
+ * Process-wide access to the local BKK GTFS timetable
+ * The feed is parsed once per process from GTFS_FEED_PATH (zip or extracted
+ * directory) and shared by the commute services.
+ */
+
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { loadGtfsFeed } from './parser';
+import { RaptorRouter } from './raptor';
+import { GtfsTimetable } from './timetable';
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __gtfsTimetable: GtfsTimetable | null | undefined;
+  // eslint-disable-next-line no-var
+  var __raptorRouter: RaptorRouter | undefined;
+}
+
+const DEFAULT_FEED_PATHS = [
+  join(process.cwd(), 'data', 'gtfs', 'budapest_gtfs.zip'),
+  join(process.cwd(), 'data', 'gtfs'),
+];
+
+export function resolveGtfsFeedPath(): string | null {
+  const candidates = process.env.GTFS_FEED_PATH
+    ? [process.env.GTFS_FEED_PATH, ...DEFAULT_FEED_PATHS]
+    : DEFAULT_FEED_PATHS;
+
+  return candidates.find((candidate) => existsSync(candidate)) ?? null;
+}
+
+/**
+ * Returns the shared timetable, or null when no local feed is available
+ */
+export function getLocalGtfsTimetable(): GtfsTimetable | null {
+  if (global.__gtfsTimetable !== undefined) {
+    return global.__gtfsTimetable;
+  }
+
+  const feedPath = resolveGtfsFeedPath();
+  if (!feedPath) {
+    global.__gtfsTimetable = null;
+    return null;
+  }
+
+  try {
+    global.__gtfsTimetable = new GtfsTimetable(loadGtfsFeed(feedPath));
+  } catch (error) {
+    console.error(`Failed to load GTFS feed from ${feedPath}:`, error);
+    global.__gtfsTimetable = null;
+  }
+
+  return global.__gtfsTimetable;
+}
+
+export function setLocalGtfsTimetable(timetable: GtfsTimetable | null): void {
+  global.__gtfsTimetable = timetable;
+  global.__raptorRouter = undefined;
+}
+
+/**
+ * Returns a router over the shared timetable; route patterns are built once per feed
+ */
+export function getLocalRaptorRouter(): RaptorRouter | null {
+  const timetable = getLocalGtfsTimetable();
+  if (!timetable) {
+    return null;
+  }
+
+  if (!global.__raptorRouter) {
+    global.__raptorRouter = new RaptorRouter(timetable);
+  }
+  return global.__raptorRouter;
+}
@@ -0,0 +1,284 @@
+/**
+ * GTFS static feed parser
+ * Turns the BKK GTFS text files into typed records used by the commute services
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { readZipEntries } from './zip';
+
+export interface GtfsStop {
+  stopId: string;
+  name: string;
+  lat: number;
+  lng: number;
+  locationType: number;
+  parentStation?: string;
+}
+
+export interface GtfsRoute {
+  routeId: string;
+  shortName: string;
+  longName: string;
+  type: number;
+}
+
+export interface GtfsTrip {
+  tripId: string;
+  routeId: string;
+  serviceId: string;
+  headsign?: string;
+  directionId?: number;
+}
+
+export interface GtfsStopTime {
+  tripId: string;
+  stopId: string;
+  sequence: number;
+  arrival: number; // seconds after service-day midnight, may exceed 24h
+  departure: number;
+}
+
+export interface GtfsCalendar {
+  serviceId: string;
+  days: boolean[]; // Monday..Sunday, as in calendar.txt
+  startDate: string; // YYYYMMDD
+  endDate: string;
+}
+
+export interface GtfsCalendarDate {
+  serviceId: string;
+  date: string; // YYYYMMDD
+  exceptionType: 1 | 2; // 1 = service added, 2 = service removed
+}
+
+export interface GtfsFeed {
+  stops: GtfsStop[];
+  routes: GtfsRoute[];
+  trips: GtfsTrip[];
+  stopTimes: GtfsStopTime[];
+  calendar: GtfsCalendar[];
+  calendarDates: GtfsCalendarDate[];
+}
+
+const REQUIRED_FILES = ['stops.txt', 'routes.txt', 'trips.txt', 'stop_times.txt'];
+const OPTIONAL_FILES = ['calendar.txt', 'calendar_dates.txt'];
+
+/**
+ * Iterate over CSV records (RFC 4180: quoted fields, escaped quotes, CRLF).
+ * Records are yielded as header-keyed objects to keep memory flat on large
+ * stop_times.txt files.
+ */
+export function forEachCsvRecord(text: string, onRecord: (record: Record<string, string>) => void): void {
+  let headers: string[] | null = null;
+  let field = '';
+  let row: string[] = [];
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    field = '';
+    if (row.length === 1 && row[0] === '') {
+      row = [];
+      return;
+    }
+    if (!headers) {
+      headers = row.map((header) => header.trim());
+    } else {
+      const record: Record<string, string> = {};
+      headers.forEach((header, index) => {
+        record[header] = (row[index] ?? '').trim();
+      });
+      onRecord(record);
+    }
+    row = [];
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+}
+
+export function parseCsv(text: string): Record<string, string>[] {
+  const records: Record<string, string>[] = [];
+  forEachCsvRecord(text, (record) => records.push(record));
+  return records;
+}
+
+/**
+ * Parse a GTFS time ("HH:MM:SS", hours may be >= 24) into seconds.
+ */
+export function parseGtfsTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+export function formatGtfsTime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return [hours, minutes, secs].map((part) => String(part).padStart(2, '0')).join(':');
+}
+
+/**
+ * Build a feed from the raw text of each GTFS file, keyed by file name
+ */
+export function parseGtfsFiles(files: Map<string, string>): GtfsFeed {
+  for (const required of REQUIRED_FILES) {
+    if (!files.has(required)) {
+      throw new Error(`GTFS feed is missing ${required}`);
+    }
+  }
+
+  const feed: GtfsFeed = {
+    stops: [],
+    routes: [],
+    trips: [],
+    stopTimes: [],
+    calendar: [],
+    calendarDates: [],
+  };
+
+  forEachCsvRecord(files.get('stops.txt')!, (record) => {
+    const lat = parseFloat(record.stop_lat);
+    const lng = parseFloat(record.stop_lon);
+    if (!record.stop_id || Number.isNaN(lat) || Number.isNaN(lng)) return;
+
+    feed.stops.push({
+      stopId: record.stop_id,
+      name: record.stop_name || record.stop_id,
+      lat,
+      lng,
+      locationType: record.location_type ? Number(record.location_type) : 0,
+      parentStation: record.parent_station || undefined,
+    });
+  });
+
+  forEachCsvRecord(files.get('routes.txt')!, (record) => {
+    if (!record.route_id) return;
+    feed.routes.push({
+      routeId: record.route_id,
+      shortName: record.route_short_name || record.route_id,
+      longName: record.route_long_name || '',
+      type: Number(record.route_type || 3),
+    });
+  });
+
+  forEachCsvRecord(files.get('trips.txt')!, (record) => {
+    if (!record.trip_id || !record.route_id) return;
+    feed.trips.push({
+      tripId: record.trip_id,
+      routeId: record.route_id,
+      serviceId: record.service_id,
+      headsign: record.trip_headsign || undefined,
+      directionId: record.direction_id ? Number(record.direction_id) : undefined,
+    });
+  });
+
+  forEachCsvRecord(files.get('stop_times.txt')!, (record) => {
+    // Non-timepoint rows may omit times; they cannot be routed on.
+    const arrival = parseGtfsTime(record.arrival_time || record.departure_time || '');
+    const departure = parseGtfsTime(record.departure_time || record.arrival_time || '');
+    if (!record.trip_id || !record.stop_id || arrival === null || departure === null) return;
+
+    feed.stopTimes.push({
+      tripId: record.trip_id,
+      stopId: record.stop_id,
+      sequence: Number(record.stop_sequence),
+      arrival,
+      departure,
+    });
+  });
+
+  const calendarText = files.get('calendar.txt');
+  if (calendarText) {
+    forEachCsvRecord(calendarText, (record) => {
+      if (!record.service_id) return;
+      feed.calendar.push({
+        serviceId: record.service_id,
+        days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'].map(
+          (day) => record[day] === '1'
+        ),
+        startDate: record.start_date,
+        endDate: record.end_date,
+      });
+    });
+  }
+
+  const calendarDatesText = files.get('calendar_dates.txt');
+  if (calendarDatesText) {
+    forEachCsvRecord(calendarDatesText, (record) => {
+      if (!record.service_id || !record.date) return;
+      feed.calendarDates.push({
+        serviceId: record.service_id,
+        date: record.date,
+        exceptionType: record.exception_type === '2' ? 2 : 1,
+      });
+    });
+  }
+
+  return feed;
+}
+
+export function parseGtfsZip(buffer: Buffer): GtfsFeed {
+  const wanted = new Set([...REQUIRED_FILES, ...OPTIONAL_FILES]);
+  const entries = readZipEntries(buffer, (name) => wanted.has(name));
+  const files = new Map<string, string>();
+  entries.forEach((content, name) => files.set(name, content.toString('utf8')));
+  return parseGtfsFiles(files);
+}
+
+/**
+ * Load a feed from a local GTFS zip or an extracted GTFS directory
+ */
+export function loadGtfsFeed(path: string): GtfsFeed {
+  const localPath = path.startsWith('file://') ? new URL(path).pathname : path;
+
+  if (!existsSync(localPath)) {
+    throw new Error(`GTFS feed not found at ${localPath}`);
+  }
+
+  if (statSync(localPath).isDirectory()) {
+    const files = new Map<string, string>();
+    for (const name of [...REQUIRED_FILES, ...OPTIONAL_FILES]) {
+      const filePath = join(localPath, name);
+      if (existsSync(filePath)) {
+        files.set(name, readFileSync(filePath, 'utf8'));
+      }
+    }
+    return parseGtfsFiles(files);
+  }
+
+  return parseGtfsZip(readFileSync(localPath));
+}
@@ -0,0 +1,471 @@
+/**
+ * RAPTOR public transport router
+ * Round-based earliest-arrival search over the GTFS timetable (Delling et al.,
+ * "Round-Based Public Transit Routing"). Round k finds the best journeys with
+ * k vehicle rides, so the result also tells us how many transfers it takes.
+ *
+ * Trips that run past midnight from the previous service day are not boarded;
+ * late-night searches may therefore miss the tail of the night network.
+ */
+
+import { formatGtfsTime } from './parser';
+import { haversineMeters, type GeoPoint } from './stop-index';
+import { toServiceDay, type GtfsTimetable, type ServiceDay, type TransitStop } from './timetable';
+
+export interface ItineraryPlace extends GeoPoint {
+  name: string;
+  stopId?: string;
+}
+
+interface BaseLeg {
+  from: ItineraryPlace;
+  to: ItineraryPlace;
+  departure: number; // seconds after service-day midnight
+  arrival: number;
+  departureTime: string; // HH:MM:SS in Budapest local time
+  arrivalTime: string;
+}
+
+export interface WalkLeg extends BaseLeg {
+  mode: 'walk';
+  distanceMeters: number;
+}
+
+export interface TransitLeg extends BaseLeg {
+  mode: 'transit';
+  routeId: string;
+  routeName: string;
+  headsign?: string;
+  tripId: string;
+  stopCount: number;
+}
+
+export type ItineraryLeg = WalkLeg | TransitLeg;
+
+export interface TransitItinerary {
+  serviceDate: string; // YYYYMMDD
+  departure: number;
+  arrival: number;
+  departureTime: string;
+  arrivalTime: string;
+  totalMinutes: number;
+  transfers: number;
+  walkingMeters: number;
+  legs: ItineraryLeg[];
+}
+
+export interface RaptorOptions {
+  maxTransfers?: number;
+  maxAccessMeters?: number; // walk to the first / from the last stop
+  maxTransferMeters?: number; // walk between stops when changing vehicles
+  walkingMetersPerMinute?: number;
+  transferSlackSeconds?: number;
+}
+
+interface PatternTrip {
+  tripId: string;
+  serviceId: string;
+  arrivals: number[];
+  departures: number[];
+}
+
+interface RoutePattern {
+  routeId: string;
+  stops: string[];
+  trips: PatternTrip[]; // sorted by departure (FIFO along the pattern)
+}
+
+type Parent =
+  | { type: 'access'; distanceMeters: number }
+  | { type: 'ride'; pattern: number; trip: number; boardPosition: number; alightPosition: number; fromRound: number }
+  | { type: 'walk'; fromStop: string; distanceMeters: number };
+
+interface Label {
+  arrival: number;
+  parent: Parent;
+}
+
+const DEFAULT_OPTIONS: Required<RaptorOptions> = {
+  maxTransfers: 3,
+  maxAccessMeters: 900,
+  maxTransferMeters: 300,
+  walkingMetersPerMinute: 80,
+  transferSlackSeconds: 60,
+};
+
+export class RaptorRouter {
+  private readonly options: Required<RaptorOptions>;
+  private patterns: RoutePattern[] = [];
+  private stopPatterns: Map<string, Array<{ pattern: number; position: number }>> = new Map();
+  private footpaths: Map<string, Array<{ stopId: string; distanceMeters: number }>> = new Map();
+
+  constructor(private readonly timetable: GtfsTimetable, options: RaptorOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.buildPatterns();
+  }
+
+  /**
+   * Earliest-arrival itinerary between two points, or null when transit cannot
+   * reach the destination within the transfer limit
+   */
+  route(origin: GeoPoint, destination: GeoPoint, departAt: Date | ServiceDay): TransitItinerary | null {
+    const day = departAt instanceof Date ? toServiceDay(departAt) : departAt;
+    const start = day.secondsSinceMidnight;
+
+    const egress = new Map(
+      this.timetable.stopIndex
+        .within(destination, this.options.maxAccessMeters)
+        .map((match) => [match.stop.id, match.distanceMeters])
+    );
+    if (!egress.size) return null;
+
+    const rounds = this.runRounds(origin, day, { egress });
+
+    let bestJourney: { round: number; stopId: string; arrival: number } | null = null;
+    rounds.forEach((labels, round) => {
+      if (round === 0) return;
+      labels.forEach((label, stopId) => {
+        const egressMeters = egress.get(stopId);
+        if (egressMeters === undefined) return;
+        const arrival = label.arrival + this.walkSeconds(egressMeters);
+        if (!bestJourney || arrival < bestJourney.arrival) {
+          bestJourney = { round, stopId, arrival };
+        }
+      });
+    });
+
+    const walkOnlyMeters = haversineMeters(origin, destination);
+    const walkOnlyArrival = start + this.walkSeconds(walkOnlyMeters);
+    const journey = bestJourney as { round: number; stopId: string; arrival: number } | null;
+
+    if (!journey || walkOnlyArrival <= journey.arrival) {
+      if (walkOnlyMeters > this.options.maxAccessMeters * 2) return null;
+      return this.buildItinerary(day, [
+        this.walkLeg({ ...origin, name: 'Origin' }, { ...destination, name: 'Destination' }, start, walkOnlyMeters),
+      ]);
+    }
+
+    return this.buildItinerary(day, this.reconstruct(rounds, journey, origin, destination, start));
+  }
+
+  /**
+   * One-to-all search: every stop reachable from the origin within the time
+   * budget, with the seconds elapsed on arrival. Used to build isochrones.
+   */
+  reachableStops(
+    origin: GeoPoint,
+    departAt: Date | ServiceDay,
+    maxSeconds: number
+  ): Array<{ stop: TransitStop; elapsedSeconds: number }> {
+    const day = departAt instanceof Date ? toServiceDay(departAt) : departAt;
+    const start = day.secondsSinceMidnight;
+    const rounds = this.runRounds(origin, day, { maxArrival: start + maxSeconds });
+
+    const earliest = new Map<string, number>();
+    rounds.forEach((labels) => {
+      labels.forEach((label, stopId) => {
+        if (label.arrival < (earliest.get(stopId) ?? Infinity)) {
+          earliest.set(stopId, label.arrival);
+        }
+      });
+    });
+
+    return Array.from(earliest, ([stopId, arrival]) => ({
+      stop: this.timetable.stopIndex.get(stopId)!,
+      elapsedSeconds: arrival - start,
+    })).sort((a, b) => a.elapsedSeconds - b.elapsedSeconds);
+  }
+
+  /**
+   * The RAPTOR rounds. With an egress map, labels that cannot beat the best
+   * known arrival at the destination are pruned; with maxArrival, labels past
+   * the time budget are.
+   */
+  private runRounds(
+    origin: GeoPoint,
+    day: ServiceDay,
+    limits: { egress?: Map<string, number>; maxArrival?: number }
+  ): Array<Map<string, Label>> {
+    const { egress } = limits;
+    const rounds: Array<Map<string, Label>> = [new Map()];
+    const best = new Map<string, number>();
+    let marked = new Set<string>();
+    let bestAtTarget = limits.maxArrival ?? Infinity;
+
+    const improve = (round: number, stopId: string, label: Label): boolean => {
+      if (label.arrival >= (best.get(stopId) ?? Infinity) || label.arrival > bestAtTarget) {
+        return false;
+      }
+      rounds[round].set(stopId, label);
+      best.set(stopId, label.arrival);
+      marked.add(stopId);
+
+      const egressMeters = egress?.get(stopId);
+      if (egressMeters !== undefined) {
+        bestAtTarget = Math.min(bestAtTarget, label.arrival + this.walkSeconds(egressMeters));
+      }
+      return true;
+    };
+
+    for (const { stop, distanceMeters } of this.timetable.stopIndex.within(origin, this.options.maxAccessMeters)) {
+      improve(0, stop.id, {
+        arrival: day.secondsSinceMidnight + this.walkSeconds(distanceMeters),
+        parent: { type: 'access', distanceMeters },
+      });
+    }
+
+    for (let round = 1; round <= this.options.maxTransfers + 1 && marked.size; round++) {
+      rounds.push(new Map());
+
+      // Collect each pattern once, starting from its earliest marked stop.
+      const queue = new Map<number, number>();
+      marked.forEach((stopId) => {
+        for (const { pattern, position } of this.stopPatterns.get(stopId) ?? []) {
+          const queued = queue.get(pattern);
+          if (queued === undefined || position < queued) {
+            queue.set(pattern, position);
+          }
+        }
+      });
+      marked = new Set();
+
+      queue.forEach((startPosition, patternIndex) => {
+        const pattern = this.patterns[patternIndex];
+        let trip = -1;
+        let boardPosition = -1;
+        let boardRound = -1;
+
+        for (let position = startPosition; position < pattern.stops.length; position++) {
+          const stopId = pattern.stops[position];
+
+          if (trip >= 0 && position > boardPosition) {
+            improve(round, stopId, {
+              arrival: pattern.trips[trip].arrivals[position],
+              parent: { type: 'ride', pattern: patternIndex, trip, boardPosition, alightPosition: position, fromRound: boardRound },
+            });
+          }
+
+          const previous = this.latestLabel(rounds, round - 1, stopId);
+          if (!previous) continue;
+
+          const readyAt = previous.label.arrival + (round > 1 ? this.options.transferSlackSeconds : 0);
+          if (trip >= 0 && pattern.trips[trip].departures[position] < readyAt) continue;
+
+          const candidate = this.earliestTrip(pattern, position, readyAt, day);
+          if (candidate >= 0 && (trip < 0 || pattern.trips[candidate].departures[position] < pattern.trips[trip].departures[position])) {
+            trip = candidate;
+            boardPosition = position;
+            boardRound = previous.round;
+          }
+        }
+      });
+
+      // Footpaths: only from stops reached by a ride this round, so walks never chain.
+      const reachedByRide = Array.from(marked);
+      const rideSources = new Set(reachedByRide);
+      for (const stopId of reachedByRide) {
+        const label = rounds[round].get(stopId)!;
+        for (const { stopId: neighbour, distanceMeters } of this.footpathsFrom(stopId)) {
+          if (rideSources.has(neighbour)) continue;
+          improve(round, neighbour, {
+            arrival: label.arrival + this.walkSeconds(distanceMeters),
+            parent: { type: 'walk', fromStop: stopId, distanceMeters },
+          });
+        }
+      }
+    }
+
+    return rounds;
+  }
+
+  private buildPatterns() {
+    const patternIndex = new Map<string, number>();
+
+    this.timetable.forEachTrip((tripId, stopTimes) => {
+      const meta = this.timetable.getTrip(tripId);
+      // Stops missing from stops.txt cannot be shown to the user, so skip them.
+      const served = stopTimes.filter((stopTime) => this.timetable.stopIndex.get(stopTime.stopId));
+      if (!meta || served.length < 2) return;
+
+      const stops = served.map((stopTime) => stopTime.stopId);
+      const key = `${meta.routeId}|${stops.join('>')}`;
+      let index = patternIndex.get(key);
+      if (index === undefined) {
+        index = this.patterns.length;
+        patternIndex.set(key, index);
+        this.patterns.push({ routeId: meta.routeId, stops, trips: [] });
+      }
+
+      this.patterns[index].trips.push({
+        tripId,
+        serviceId: meta.serviceId,
+        arrivals: served.map((stopTime) => stopTime.arrival),
+        departures: served.map((stopTime) => stopTime.departure),
+      });
+    });
+
+    this.patterns.forEach((pattern, index) => {
+      pattern.trips.sort((a, b) => a.departures[0] - b.departures[0]);
+      pattern.stops.forEach((stopId, position) => {
+        // The last stop of a pattern can be alighted at but never boarded from.
+        if (position === pattern.stops.length - 1) return;
+        const list = this.stopPatterns.get(stopId) ?? [];
+        list.push({ pattern: index, position });
+        this.stopPatterns.set(stopId, list);
+      });
+    });
+  }
+
+  private earliestTrip(pattern: RoutePattern, position: number, readyAt: number, day: ServiceDay): number {
+    const { trips } = pattern;
+    let low = 0;
+    let high = trips.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (trips[mid].departures[position] < readyAt) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    for (let index = low; index < trips.length; index++) {
+      if (trips[index].departures[position] >= readyAt && this.timetable.isServiceActive(trips[index].serviceId, day)) {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  private latestLabel(
+    rounds: Array<Map<string, Label>>,
+    upTo: number,
+    stopId: string
+  ): { label: Label; round: number } | null {
+    for (let round = upTo; round >= 0; round--) {
+      const label = rounds[round].get(stopId);
+      if (label) return { label, round };
+    }
+    return null;
+  }
+
+  private footpathsFrom(stopId: string): Array<{ stopId: string; distanceMeters: number }> {
+    const cached = this.footpaths.get(stopId);
+    if (cached) return cached;
+
+    const stop = this.timetable.stopIndex.get(stopId);
+    const paths = stop
+      ? this.timetable.stopIndex
+          .within(stop, this.options.maxTransferMeters)
+          .filter((match) => match.stop.id !== stopId)
+          .map((match) => ({ stopId: match.stop.id, distanceMeters: match.distanceMeters }))
+      : [];
+
+    this.footpaths.set(stopId, paths);
+    return paths;
+  }
+
+  private reconstruct(
+    rounds: Array<Map<string, Label>>,
+    journey: { round: number; stopId: string },
+    origin: GeoPoint,
+    destination: GeoPoint,
+    start: number
+  ): ItineraryLeg[] {
+    const legs: ItineraryLeg[] = [];
+    const lastStop = this.place(journey.stopId);
+    const lastLabel = rounds[journey.round].get(journey.stopId)!;
+    legs.push(
+      this.walkLeg(lastStop, { ...destination, name: 'Destination' }, lastLabel.arrival, haversineMeters(lastStop, destination))
+    );
+
+    let round = journey.round;
+    let stopId = journey.stopId;
+
+    for (;;) {
+      const label = rounds[round].get(stopId)!;
+      const { parent } = label;
+
+      if (parent.type === 'access') {
+        legs.push(this.walkLeg({ ...origin, name: 'Origin' }, this.place(stopId), start, parent.distanceMeters));
+        break;
+      }
+
+      if (parent.type === 'walk') {
+        const fromLabel = rounds[round].get(parent.fromStop)!;
+        legs.push(this.walkLeg(this.place(parent.fromStop), this.place(stopId), fromLabel.arrival, parent.distanceMeters));
+        stopId = parent.fromStop;
+        continue;
+      }
+
+      const pattern = this.patterns[parent.pattern];
+      const trip = pattern.trips[parent.trip];
+      const meta = this.timetable.getTrip(trip.tripId);
+      const boardStop = pattern.stops[parent.boardPosition];
+      const departure = trip.departures[parent.boardPosition];
+
+      legs.push({
+        mode: 'transit',
+        from: this.place(boardStop),
+        to: this.place(stopId),
+        departure,
+        arrival: label.arrival,
+        departureTime: formatGtfsTime(departure),
+        arrivalTime: formatGtfsTime(label.arrival),
+        routeId: pattern.routeId,
+        routeName: this.timetable.routeName(pattern.routeId),
+        headsign: meta?.headsign,
+        tripId: trip.tripId,
+        stopCount: parent.alightPosition - parent.boardPosition,
+      });
+
+      round = parent.fromRound;
+      stopId = boardStop;
+    }
+
+    return legs.reverse().filter((leg) => leg.mode === 'transit' || leg.distanceMeters > 0);
+  }
+
+  private buildItinerary(day: ServiceDay, legs: ItineraryLeg[]): TransitItinerary {
+    const departure = day.secondsSinceMidnight;
+    const arrival = legs[legs.length - 1].arrival;
+    const transitLegs = legs.filter((leg) => leg.mode === 'transit').length;
+
+    return {
+      serviceDate: day.dateKey,
+      departure,
+      arrival,
+      departureTime: formatGtfsTime(departure),
+      arrivalTime: formatGtfsTime(arrival),
+      totalMinutes: Math.round((arrival - departure) / 60),
+      transfers: Math.max(0, transitLegs - 1),
+      walkingMeters: Math.round(
+        legs.reduce((sum, leg) => sum + (leg.mode === 'walk' ? leg.distanceMeters : 0), 0)
+      ),
+      legs,
+    };
+  }
+
+  private walkLeg(from: ItineraryPlace, to: ItineraryPlace, departure: number, distanceMeters: number): WalkLeg {
+    const arrival = departure + this.walkSeconds(distanceMeters);
+    return {
+      mode: 'walk',
+      from,
+      to,
+      departure,
+      arrival,
+      departureTime: formatGtfsTime(departure),
+      arrivalTime: formatGtfsTime(arrival),
+      distanceMeters: Math.round(distanceMeters),
+    };
+  }
+
+  private place(stopId: string): ItineraryPlace {
+    const stop = this.timetable.stopIndex.get(stopId)!;
+    return { name: stop.name, lat: stop.lat, lng: stop.lng, stopId };
+  }
+
+  private walkSeconds(distanceMeters: number): number {
+    return Math.round((distanceMeters / this.options.walkingMetersPerMinute) * 60);
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * GTFS persistence
+ * Stores an imported feed in Postgres so serverless instances without the
+ * zip on disk can still resolve stops and scheduled connections.
+ */
+
+import { getPool, insertBatched, runQuery } from '@/lib/db/pool';
+import type { GtfsFeed } from './parser';
+import type { GtfsTimetable, ScheduledConnection, ServiceDay } from './timetable';
+
+export interface GtfsImportSummary {
+  feedId: string;
+  source: string;
+  stops: number;
+  routes: number;
+  trips: number;
+  stopTimes: number;
+  services: number;
+  validFrom: string | null;
+  validTo: string | null;
+  importedAt: Date;
+}
+
+function serviceValidity(feed: GtfsFeed): { validFrom: string | null; validTo: string | null } {
+  const dates = [
+    ...feed.calendar.flatMap((entry) => [entry.startDate, entry.endDate]),
+    ...feed.calendarDates.map((entry) => entry.date),
+  ].sort();
+
+  const toIsoDate = (value?: string) =>
+    value ? `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}` : null;
+
+  return { validFrom: toIsoDate(dates[0]), validTo: toIsoDate(dates[dates.length - 1]) };
+}
+
+/**
+ * Replace the stored feed with a freshly parsed one in a single transaction
+ */
+export async function persistGtfsFeed(
+  feed: GtfsFeed,
+  timetable: GtfsTimetable,
+  source: string
+): Promise<GtfsImportSummary> {
+  const pool = await getPool();
+  const client = await pool.connect();
+  const { validFrom, validTo } = serviceValidity(feed);
+  const serviceCount = new Set([...feed.calendar, ...feed.calendarDates].map((entry) => entry.serviceId)).size;
+
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      'TRUNCATE public.gtfs_stop_times, public.gtfs_trips, public.gtfs_routes, public.gtfs_calendar, public.gtfs_calendar_dates'
+    );
+    await client.query('DELETE FROM public.transit_stops');
+
+    const parentByStop = new Map(feed.stops.map((stop) => [stop.stopId, stop.parentStation ?? null]));
+    await insertBatched(
+      client,
+      'public.transit_stops',
+      ['id', 'name', 'latitude', 'longitude', 'routes', 'parent_station', 'zone'],
+      timetable.stopIndex
+        .all()
+        .map((stop) => [stop.id, stop.name, stop.lat, stop.lng, stop.routes, parentByStop.get(stop.id), 'Budapest'])
+    );
+
+    await insertBatched(
+      client,
+      'public.gtfs_routes',
+      ['route_id', 'short_name', 'long_name', 'route_type'],
+      feed.routes.map((route) => [route.routeId, route.shortName, route.longName, route.type])
+    );
+
+    await insertBatched(
+      client,
+      'public.gtfs_trips',
+      ['trip_id', 'route_id', 'service_id', 'headsign', 'direction_id'],
+      feed.trips.map((trip) => [trip.tripId, trip.routeId, trip.serviceId, trip.headsign ?? null, trip.directionId ?? null])
+    );
+
+    await insertBatched(
+      client,
+      'public.gtfs_stop_times',
+      ['trip_id', 'stop_sequence', 'stop_id', 'arrival_seconds', 'departure_seconds'],
+      feed.stopTimes.map((stopTime) => [
+        stopTime.tripId,
+        stopTime.sequence,
+        stopTime.stopId,
+        stopTime.arrival,
+        stopTime.departure,
+      ])
+    );
+
+    await insertBatched(
+      client,
+      'public.gtfs_calendar',
+      ['service_id', 'days', 'start_date', 'end_date'],
+      feed.calendar.map((entry) => [entry.serviceId, entry.days, entry.startDate, entry.endDate])
+    );
+
+    await insertBatched(
+      client,
+      'public.gtfs_calendar_dates',
+      ['service_id', 'service_date', 'exception_type'],
+      feed.calendarDates.map((entry) => [entry.serviceId, entry.date, entry.exceptionType]),
+      'ON CONFLICT (service_id, service_date) DO UPDATE SET exception_type = EXCLUDED.exception_type'
+    );
+
+    const { rows } = await client.query(
+      `INSERT INTO public.gtfs_feeds
+         (source, stop_count, route_count, trip_count, stop_time_count, service_count, valid_from, valid_to)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING id, imported_at`,
+      [
+        source,
+        timetable.stopIndex.size,
+        feed.routes.length,
+        feed.trips.length,
+        feed.stopTimes.length,
+        serviceCount,
+        validFrom,
+        validTo,
+      ]
+    );
+
+    await client.query('COMMIT');
+
+    return {
+      feedId: rows[0].id,
+      source,
+      stops: timetable.stopIndex.size,
+      routes: feed.routes.length,
+      trips: feed.trips.length,
+      stopTimes: feed.stopTimes.length,
+      services: serviceCount,
+      validFrom,
+      validTo,
+      importedAt: new Date(rows[0].imported_at),
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Earliest stored single-vehicle connection between two stops for a service day
+ */
+export async function findScheduledConnection(
+  fromStopId: string,
+  toStopId: string,
+  day: ServiceDay
+): Promise<ScheduledConnection | null> {
+  const serviceDate = `${day.dateKey.slice(0, 4)}-${day.dateKey.slice(4, 6)}-${day.dateKey.slice(6, 8)}`;
+
+  const { rows } = await runQuery(
+    `SELECT o.trip_id, t.route_id, COALESCE(r.short_name, t.route_id) AS route_name, t.headsign,
+            o.departure_seconds, d.arrival_seconds, d.stop_sequence - o.stop_sequence AS stop_count
+     FROM public.gtfs_stop_times o
+     JOIN public.gtfs_stop_times d
+       ON d.trip_id = o.trip_id AND d.stop_id = $2 AND d.stop_sequence > o.stop_sequence
+     JOIN public.gtfs_trips t ON t.trip_id = o.trip_id
+     LEFT JOIN public.gtfs_routes r ON r.route_id = t.route_id
+     WHERE o.stop_id = $1
+       AND o.departure_seconds >= $3
+       AND public.gtfs_service_active(t.service_id, $4::date)
+     ORDER BY d.arrival_seconds
+     LIMIT 1`,
+    [fromStopId, toStopId, day.secondsSinceMidnight, serviceDate]
+  );
+
+  if (!rows.length) {
+    return null;
+  }
+
+  const row = rows[0];
+  return {
+    tripId: row.trip_id,
+    routeId: row.route_id,
+    routeName: row.route_name,
+    headsign: row.headsign ?? undefined,
+    fromStopId,
+    toStopId,
+    departure: Number(row.departure_seconds),
+    arrival: Number(row.arrival_seconds),
+    stopCount: Number(row.stop_count),
+  };
+}
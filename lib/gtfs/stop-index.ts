@@ -0,0 +1,110 @@
+/**
+ * Spatial index for transit stops
+ * Buckets stops into a fixed lat/lng grid so nearest-stop lookups only scan
+ * the cells around a point instead of every stop in the feed.
+ */
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface IndexedStop extends GeoPoint {
+  id: string;
+  name: string;
+}
+
+export interface StopMatch<T extends IndexedStop> {
+  stop: T;
+  distanceMeters: number;
+}
+
+// ~550m north-south, ~375m east-west at Budapest's latitude
+const CELL_SIZE_DEGREES = 0.005;
+const METERS_PER_DEGREE_LAT = 111_320;
+
+export function haversineMeters(a: GeoPoint, b: GeoPoint): number {
+  const R = 6_371_000;
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+
+  const sinLat = Math.sin(dLat / 2);
+  const sinLng = Math.sin(dLng / 2);
+  const value = sinLat * sinLat + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * sinLng * sinLng;
+
+  return R * 2 * Math.atan2(Math.sqrt(value), Math.sqrt(1 - value));
+}
+
+export class StopIndex<T extends IndexedStop = IndexedStop> {
+  private cells: Map<string, T[]> = new Map();
+  private byId: Map<string, T> = new Map();
+
+  constructor(stops: T[] = []) {
+    stops.forEach((stop) => this.add(stop));
+  }
+
+  add(stop: T): void {
+    const key = this.cellKey(this.cellOf(stop.lat), this.cellOf(stop.lng));
+    const bucket = this.cells.get(key);
+    if (bucket) {
+      bucket.push(stop);
+    } else {
+      this.cells.set(key, [stop]);
+    }
+    this.byId.set(stop.id, stop);
+  }
+
+  get(id: string): T | undefined {
+    return this.byId.get(id);
+  }
+
+  get size(): number {
+    return this.byId.size;
+  }
+
+  all(): T[] {
+    return Array.from(this.byId.values());
+  }
+
+  /**
+   * All stops within radiusMeters of the point, closest first
+   */
+  within(point: GeoPoint, radiusMeters: number): StopMatch<T>[] {
+    const latCells = Math.ceil(radiusMeters / METERS_PER_DEGREE_LAT / CELL_SIZE_DEGREES);
+    const metersPerDegreeLng = METERS_PER_DEGREE_LAT * Math.max(0.01, Math.cos((point.lat * Math.PI) / 180));
+    const lngCells = Math.ceil(radiusMeters / metersPerDegreeLng / CELL_SIZE_DEGREES);
+
+    const centerLat = this.cellOf(point.lat);
+    const centerLng = this.cellOf(point.lng);
+    const matches: StopMatch<T>[] = [];
+
+    for (let dLat = -latCells; dLat <= latCells; dLat++) {
+      for (let dLng = -lngCells; dLng <= lngCells; dLng++) {
+        const bucket = this.cells.get(this.cellKey(centerLat + dLat, centerLng + dLng));
+        if (!bucket) continue;
+
+        for (const stop of bucket) {
+          const distanceMeters = haversineMeters(point, stop);
+          if (distanceMeters <= radiusMeters) {
+            matches.push({ stop, distanceMeters });
+          }
+        }
+      }
+    }
+
+    return matches.sort((a, b) => a.distanceMeters - b.distanceMeters);
+  }
+
+  nearest(point: GeoPoint, maxDistanceMeters: number): StopMatch<T> | null {
+    return this.within(point, maxDistanceMeters)[0] ?? null;
+  }
+
+  private cellOf(value: number): number {
+    return Math.floor(value / CELL_SIZE_DEGREES);
+  }
+
+  private cellKey(latCell: number, lngCell: number): string {
+    return `${latCell}:${lngCell}`;
+  }
+}
@@ -0,0 +1,289 @@
+/**
+ * In-memory GTFS timetable
+ * Indexes a parsed feed by trip and stop so commute lookups can answer
+ * "which vehicle gets me from A to B after time T on this service day".
+ */
+
+import type { GtfsFeed, GtfsRoute, GtfsStopTime } from './parser';
+import { StopIndex, type IndexedStop } from './stop-index';
+
+export interface TransitStop extends IndexedStop {
+  routes: string[]; // route short names serving the stop
+}
+
+export interface ScheduledConnection {
+  tripId: string;
+  routeId: string;
+  routeName: string;
+  headsign?: string;
+  fromStopId: string;
+  toStopId: string;
+  departure: number; // seconds after service-day midnight
+  arrival: number;
+  stopCount: number;
+}
+
+export interface ServiceDay {
+  dateKey: string; // YYYYMMDD
+  weekday: number; // 0 = Monday .. 6 = Sunday, matching calendar.txt columns
+  secondsSinceMidnight: number;
+}
+
+export const GTFS_TIME_ZONE = 'Europe/Budapest';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/**
+ * Resolve a JS date to the BKK service day it falls on (local Budapest time)
+ */
+export function toServiceDay(date: Date): ServiceDay {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: GTFS_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    weekday: 'short',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((part) => part.type === type)?.value ?? '';
+
+  return {
+    dateKey: `${get('year')}${get('month')}${get('day')}`,
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+    secondsSinceMidnight: Number(get('hour')) * 3600 + Number(get('minute')) * 60 + Number(get('second')),
+  };
+}
+
+export class GtfsTimetable {
+  readonly stopIndex: StopIndex<TransitStop>;
+  readonly routes: Map<string, GtfsRoute>;
+
+  private tripStopTimes: Map<string, GtfsStopTime[]> = new Map();
+  private stopDepartures: Map<string, Array<{ tripId: string; position: number }>> = new Map();
+  private tripMeta: Map<string, { routeId: string; serviceId: string; headsign?: string }> = new Map();
+  private weeklyService: Map<string, { days: boolean[]; startDate: string; endDate: string }> = new Map();
+  private serviceExceptions: Map<string, Map<string, 1 | 2>> = new Map();
+
+  constructor(feed: GtfsFeed) {
+    this.routes = new Map(feed.routes.map((route) => [route.routeId, route]));
+
+    feed.trips.forEach((trip) => {
+      this.tripMeta.set(trip.tripId, {
+        routeId: trip.routeId,
+        serviceId: trip.serviceId,
+        headsign: trip.headsign,
+      });
+    });
+
+    feed.calendar.forEach((entry) => {
+      this.weeklyService.set(entry.serviceId, entry);
+    });
+
+    feed.calendarDates.forEach((entry) => {
+      const exceptions = this.serviceExceptions.get(entry.serviceId) ?? new Map<string, 1 | 2>();
+      exceptions.set(entry.date, entry.exceptionType);
+      this.serviceExceptions.set(entry.serviceId, exceptions);
+    });
+
+    feed.stopTimes.forEach((stopTime) => {
+      const list = this.tripStopTimes.get(stopTime.tripId);
+      if (list) {
+        list.push(stopTime);
+      } else {
+        this.tripStopTimes.set(stopTime.tripId, [stopTime]);
+      }
+    });
+
+    const stopRoutes = new Map<string, Set<string>>();
+    this.tripStopTimes.forEach((stopTimes, tripId) => {
+      stopTimes.sort((a, b) => a.sequence - b.sequence);
+      const routeName = this.routeName(this.tripMeta.get(tripId)?.routeId);
+
+      stopTimes.forEach((stopTime, position) => {
+        const departures = this.stopDepartures.get(stopTime.stopId);
+        if (departures) {
+          departures.push({ tripId, position });
+        } else {
+          this.stopDepartures.set(stopTime.stopId, [{ tripId, position }]);
+        }
+
+        if (routeName) {
+          const names = stopRoutes.get(stopTime.stopId) ?? new Set<string>();
+          names.add(routeName);
+          stopRoutes.set(stopTime.stopId, names);
+        }
+      });
+    });
+
+    // Stations (location_type 1) have no departures of their own; only
+    // boarding points are useful for routing.
+    this.stopIndex = new StopIndex(
+      feed.stops
+        .filter((stop) => stop.locationType === 0 && this.stopDepartures.has(stop.stopId))
+        .map((stop) => ({
+          id: stop.stopId,
+          name: stop.name,
+          lat: stop.lat,
+          lng: stop.lng,
+          routes: Array.from(stopRoutes.get(stop.stopId) ?? []),
+        }))
+    );
+  }
+
+  get tripCount(): number {
+    return this.tripStopTimes.size;
+  }
+
+  forEachTrip(callback: (tripId: string, stopTimes: GtfsStopTime[]) => void): void {
+    this.tripStopTimes.forEach((stopTimes, tripId) => callback(tripId, stopTimes));
+  }
+
+  getTripStopTimes(tripId: string): GtfsStopTime[] {
+    return this.tripStopTimes.get(tripId) ?? [];
+  }
+
+  getTrip(tripId: string) {
+    return this.tripMeta.get(tripId);
+  }
+
+  getStopDepartures(stopId: string): Array<{ tripId: string; position: number }> {
+    return this.stopDepartures.get(stopId) ?? [];
+  }
+
+  routeName(routeId: string | undefined): string {
+    if (!routeId) return '';
+    return this.routes.get(routeId)?.shortName ?? routeId;
+  }
+
+  /**
+   * Whether a service_id runs on the given service day, honouring
+   * calendar_dates.txt additions and removals
+   */
+  isServiceActive(serviceId: string, day: Pick<ServiceDay, 'dateKey' | 'weekday'>): boolean {
+    const exception = this.serviceExceptions.get(serviceId)?.get(day.dateKey);
+    if (exception === 1) return true;
+    if (exception === 2) return false;
+
+    const weekly = this.weeklyService.get(serviceId);
+    if (!weekly) return false;
+
+    return (
+      weekly.days[day.weekday] === true &&
+      day.dateKey >= weekly.startDate &&
+      day.dateKey <= weekly.endDate
+    );
+  }
+
+  /**
+   * Earliest single-vehicle connection between two stops leaving at or after departAfter
+   */
+  findDirectConnection(
+    fromStopId: string,
+    toStopId: string,
+    day: ServiceDay,
+    departAfter: number = day.secondsSinceMidnight
+  ): ScheduledConnection | null {
+    let best: ScheduledConnection | null = null;
+
+    for (const { tripId, position } of this.getStopDepartures(fromStopId)) {
+      const stopTimes = this.tripStopTimes.get(tripId)!;
+      const boarding = stopTimes[position];
+      if (boarding.departure < departAfter) continue;
+
+      const meta = this.tripMeta.get(tripId);
+      if (!meta || !this.isServiceActive(meta.serviceId, day)) continue;
+
+      for (let i = position + 1; i < stopTimes.length; i++) {
+        if (stopTimes[i].stopId !== toStopId) continue;
+
+        if (!best || stopTimes[i].arrival < best.arrival) {
+          best = {
+            tripId,
+            routeId: meta.routeId,
+            routeName: this.routeName(meta.routeId),
+            headsign: meta.headsign,
+            fromStopId,
+            toStopId,
+            departure: boarding.departure,
+            arrival: stopTimes[i].arrival,
+            stopCount: i - position,
+          };
+        }
+        break;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Average departures per hour from a stop in a window, used as a reliability signal
+   */
+  departuresPerHour(stopId: string, day: ServiceDay, fromSeconds: number, windowSeconds = 3600): number {
+    let count = 0;
+    for (const { tripId, position } of this.getStopDepartures(stopId)) {
+      const departure = this.tripStopTimes.get(tripId)![position].departure;
+      if (departure < fromSeconds || departure >= fromSeconds + windowSeconds) continue;
+      const meta = this.tripMeta.get(tripId);
+      if (meta && this.isServiceActive(meta.serviceId, day)) count++;
+    }
+    return (count * 3600) / windowSeconds;
+  }
+}
+
+const WEEKDAY_ALIASES: Record<string, number> = {
+  mon: 0, monday: 0, tue: 1, tuesday: 1, wed: 2, wednesday: 2, thu: 3, thursday: 3,
+  fri: 4, friday: 4, sat: 5, saturday: 5, sun: 6, sunday: 6,
+};
+
+function budapestOffsetMinutes(at: Date): number {
+  const zone = new Intl.DateTimeFormat('en-US', { timeZone: GTFS_TIME_ZONE, timeZoneName: 'shortOffset' })
+    .formatToParts(at)
+    .find((part) => part.type === 'timeZoneName')?.value ?? 'GMT+1';
+  const match = /GMT([+-]\d{1,2})(?::(\d{2}))?/.exec(zone);
+  if (!match) return 60;
+  const hours = Number(match[1]);
+  return hours * 60 + Math.sign(hours) * Number(match[2] ?? 0);
+}
+
+/**
+ * Parse a departure time as accepted by the commute APIs:
+ * an ISO timestamp, "HH:MM" (next occurrence, Budapest time) or
+ * "<weekday> HH:MM" such as "mon 08:15" (next such weekday).
+ */
+export function parseDepartAt(value: string, now: Date = new Date()): Date | null {
+  const trimmed = value.trim().toLowerCase();
+
+  const clock = /^(?:([a-z]+)[\s@]+)?(\d{1,2}):(\d{2})$/.exec(trimmed);
+  if (!clock) {
+    const parsed = new Date(value);
+    return Number.isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  const [, dayName, hourText, minuteText] = clock;
+  const hours = Number(hourText);
+  const minutes = Number(minuteText);
+  if (hours > 23 || minutes > 59) return null;
+
+  const targetWeekday = dayName === undefined ? undefined : WEEKDAY_ALIASES[dayName];
+  if (dayName !== undefined && targetWeekday === undefined) return null;
+
+  const today = toServiceDay(now);
+  const targetSeconds = hours * 3600 + minutes * 60;
+  let daysAhead =
+    targetWeekday === undefined ? 0 : (targetWeekday - today.weekday + 7) % 7;
+  if (daysAhead === 0 && targetSeconds < today.secondsSinceMidnight) {
+    daysAhead = targetWeekday === undefined ? 1 : 7;
+  }
+
+  const year = Number(today.dateKey.slice(0, 4));
+  const month = Number(today.dateKey.slice(4, 6)) - 1;
+  const day = Number(today.dateKey.slice(6, 8)) + daysAhead;
+  const asUtc = Date.UTC(year, month, day, hours, minutes);
+
+  return new Date(asUtc - budapestOffsetMinutes(new Date(asUtc)) * 60_000);
+}
@@ -0,0 +1,91 @@
+/**
+ * Minimal ZIP archive reader for GTFS feeds
+ * Reads the central directory and inflates entries with node's zlib, so feed
+ * ingestion works in serverless runtimes without native unzip dependencies.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // The EOCD record is 22 bytes plus an optional comment of up to 64 KiB.
+  const minOffset = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let offset = buffer.length - 22; offset >= minOffset; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error('Invalid zip archive: end of central directory not found');
+}
+
+function baseName(path: string): string {
+  const parts = path.split('/');
+  return parts[parts.length - 1];
+}
+
+/**
+ * Extract entries from a zip archive.
+ * Entry names are flattened to their base name because many published GTFS
+ * feeds wrap the text files in a top-level folder.
+ */
+export function readZipEntries(
+  buffer: Buffer,
+  include: (name: string) => boolean = () => true
+): Map<string, Buffer> {
+  const eocd = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  const centralDirectoryOffset = buffer.readUInt32LE(eocd + 16);
+
+  if (centralDirectoryOffset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries = new Map<string, Buffer>();
+  let cursor = centralDirectoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(cursor) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Invalid zip archive: corrupt central directory');
+    }
+
+    const method = buffer.readUInt16LE(cursor + 10);
+    const compressedSize = buffer.readUInt32LE(cursor + 20);
+    const nameLength = buffer.readUInt16LE(cursor + 28);
+    const extraLength = buffer.readUInt16LE(cursor + 30);
+    const commentLength = buffer.readUInt16LE(cursor + 32);
+    const localHeaderOffset = buffer.readUInt32LE(cursor + 42);
+    const name = buffer.toString('utf8', cursor + 46, cursor + 46 + nameLength);
+
+    cursor += 46 + nameLength + extraLength + commentLength;
+
+    const fileName = baseName(name);
+    if (!fileName || name.endsWith('/') || !include(fileName)) {
+      continue;
+    }
+
+    if (buffer.readUInt32LE(localHeaderOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Invalid zip archive: missing local header for ${name}`);
+    }
+
+    const localNameLength = buffer.readUInt16LE(localHeaderOffset + 26);
+    const localExtraLength = buffer.readUInt16LE(localHeaderOffset + 28);
+    const dataStart = localHeaderOffset + 30 + localNameLength + localExtraLength;
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) {
+      entries.set(fileName, Buffer.from(data));
+    } else if (method === METHOD_DEFLATE) {
+      entries.set(fileName, inflateRawSync(data));
+    } else {
+      throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+    }
+  }
+
+  return entries;
+}
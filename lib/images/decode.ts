@@ -0,0 +1,33 @@
+/**
+ * Format sniffing and helpers shared by photo hashing and quality analysis
+ */
+
+import { decodeJpeg, isJpeg } from './jpeg';
+import { decodePng, isPng } from './png';
+import { ImageDecodeError, type DecodedImage } from './types';
+import { decodeWebp, isWebp } from './webp';
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp';
+
+export function detectImageFormat(buffer: Uint8Array): ImageFormat | null {
+  if (isJpeg(buffer)) return 'jpeg';
+  if (isPng(buffer)) return 'png';
+  if (isWebp(buffer)) return 'webp';
+  return null;
+}
+
+/**
+ * Decode a JPEG, PNG or WebP buffer to RGBA pixels
+ */
+export function decodeImage(buffer: Uint8Array): DecodedImage {
+  switch (detectImageFormat(buffer)) {
+    case 'jpeg':
+      return decodeJpeg(buffer);
+    case 'png':
+      return decodePng(buffer);
+    case 'webp':
+      return decodeWebp(buffer);
+    default:
+      throw new ImageDecodeError('Unsupported image format');
+  }
+}
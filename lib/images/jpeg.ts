@@ -0,0 +1,657 @@
+/**
+ * Baseline and progressive JPEG decoder (Huffman-coded, 8-bit)
+ * Pure TypeScript so photo hashing and analysis run in serverless functions
+ * without native modules. Arithmetic-coded and lossless JPEGs are rejected.
+ */
+
+import { ImageDecodeError, type DecodedImage } from './types';
+
+const ZIGZAG = new Int32Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+]);
+
+// IDCT basis: COSINES[u * 8 + x] = C(u) / 2 * cos((2x + 1) u π / 16)
+const COSINES = (() => {
+  const table = new Float32Array(64);
+  for (let u = 0; u < 8; u++) {
+    const scale = u === 0 ? Math.SQRT1_2 / 2 : 0.5;
+    for (let x = 0; x < 8; x++) {
+      table[u * 8 + x] = scale * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+  }
+  return table;
+})();
+
+interface HuffmanTable {
+  maxCode: Int32Array; // per code length 1..16, -1 when no codes
+  valueOffset: Int32Array;
+  values: Uint8Array;
+}
+
+interface FrameComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  blocksPerLineForMcu: number;
+  blocksPerColumnForMcu: number;
+  coefficients: Int16Array; // natural order, 64 per block
+  dcTable?: HuffmanTable;
+  acTable?: HuffmanTable;
+  pred: number;
+}
+
+interface Frame {
+  progressive: boolean;
+  width: number;
+  height: number;
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  components: FrameComponent[];
+}
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(18).fill(-1);
+  const valueOffset = new Int32Array(18);
+  let code = 0;
+  let index = 0;
+
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1];
+    if (count) {
+      valueOffset[length] = index - code;
+      code += count;
+      index += count;
+      maxCode[length] = code - 1;
+    }
+    code <<= 1;
+  }
+  maxCode[17] = 0x7fffffff; // sentinel: malformed streams terminate
+
+  return { maxCode, valueOffset, values };
+}
+
+class BitReader {
+  private bits = 0;
+  private bitCount = 0;
+  eobrun = 0;
+
+  constructor(private readonly data: Uint8Array, public position: number) {}
+
+  readBit(): number {
+    if (this.bitCount === 0) {
+      this.fill();
+    }
+    this.bitCount--;
+    return (this.bits >> this.bitCount) & 1;
+  }
+
+  receive(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = (value << 1) | this.readBit();
+    }
+    return value;
+  }
+
+  receiveExtend(length: number): number {
+    if (length === 0) return 0;
+    if (length === 1) return this.readBit() ? 1 : -1;
+    const value = this.receive(length);
+    return value >= 1 << (length - 1) ? value : value + (-1 << length) + 1;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = 0;
+    for (let length = 1; length <= 16; length++) {
+      code = (code << 1) | this.readBit();
+      if (code <= table.maxCode[length]) {
+        return table.values[code + table.valueOffset[length]] ?? 0;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Skip to just after the next RSTn marker and reset bit state
+   */
+  restart(): void {
+    this.bits = 0;
+    this.bitCount = 0;
+    this.eobrun = 0;
+    const { data } = this;
+    while (this.position < data.length - 1) {
+      if (data[this.position] === 0xff && data[this.position + 1] >= 0xd0 && data[this.position + 1] <= 0xd7) {
+        this.position += 2;
+        return;
+      }
+      this.position++;
+    }
+  }
+
+  /**
+   * Position of the next non-RST marker after the scan
+   */
+  nextMarker(): number {
+    const { data } = this;
+    let position = this.position;
+    while (position < data.length - 1) {
+      const next = data[position + 1];
+      if (data[position] === 0xff && next !== 0 && next !== 0xff && (next < 0xd0 || next > 0xd7)) {
+        return position;
+      }
+      position++;
+    }
+    return data.length;
+  }
+
+  private fill(): void {
+    const { data } = this;
+    this.bitCount = 8;
+    if (this.position >= data.length) {
+      this.bits = 0; // truncated file: pad with zeros
+      return;
+    }
+
+    const byte = data[this.position];
+    if (byte === 0xff) {
+      const next = data[this.position + 1];
+      if (next === 0) {
+        this.position += 2;
+        this.bits = 0xff;
+        return;
+      }
+      // A marker inside the entropy data: feed zeros until the scan ends
+      this.bits = 0;
+      return;
+    }
+
+    this.position++;
+    this.bits = byte;
+  }
+}
+
+type BlockDecoder = (reader: BitReader, component: FrameComponent, offset: number) => void;
+
+function decodeBaseline(dcOnly: boolean): BlockDecoder {
+  return (reader, component, offset) => {
+    const { coefficients } = component;
+    const t = reader.decode(component.dcTable!);
+    component.pred += t === 0 ? 0 : reader.receiveExtend(t);
+    coefficients[offset] = component.pred;
+    if (dcOnly) return;
+
+    let k = 1;
+    while (k < 64) {
+      const rs = reader.decode(component.acTable!);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) break;
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      coefficients[offset + ZIGZAG[k]] = reader.receiveExtend(s);
+      k++;
+    }
+  };
+}
+
+function decodeDcFirst(al: number): BlockDecoder {
+  return (reader, component, offset) => {
+    const t = reader.decode(component.dcTable!);
+    component.pred += t === 0 ? 0 : reader.receiveExtend(t);
+    component.coefficients[offset] = component.pred * (1 << al);
+  };
+}
+
+function decodeDcRefine(al: number): BlockDecoder {
+  return (reader, component, offset) => {
+    if (reader.readBit()) {
+      component.coefficients[offset] |= 1 << al;
+    }
+  };
+}
+
+function decodeAcFirst(ss: number, se: number, al: number): BlockDecoder {
+  return (reader, component, offset) => {
+    if (reader.eobrun > 0) {
+      reader.eobrun--;
+      return;
+    }
+
+    let k = ss;
+    while (k <= se) {
+      const rs = reader.decode(component.acTable!);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) {
+          reader.eobrun = (1 << r) - 1 + (r ? reader.receive(r) : 0);
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      component.coefficients[offset + ZIGZAG[k]] = reader.receiveExtend(s) * (1 << al);
+      k++;
+    }
+  };
+}
+
+function decodeAcRefine(ss: number, se: number, al: number): BlockDecoder {
+  const p1 = 1 << al;
+  const m1 = -1 << al;
+
+  return (reader, component, offset) => {
+    const { coefficients } = component;
+    const refine = (index: number) => {
+      if (reader.readBit() && (coefficients[index] & p1) === 0) {
+        coefficients[index] += coefficients[index] >= 0 ? p1 : m1;
+      }
+    };
+
+    let k = ss;
+    if (reader.eobrun <= 0) {
+      for (; k <= se; k++) {
+        const rs = reader.decode(component.acTable!);
+        let r = rs >> 4;
+        let value = 0;
+        if (rs & 15) {
+          value = reader.readBit() ? p1 : m1;
+        } else if (r !== 15) {
+          reader.eobrun = (1 << r) + (r ? reader.receive(r) : 0);
+          break;
+        }
+
+        while (k <= se) {
+          const index = offset + ZIGZAG[k];
+          if (coefficients[index] !== 0) {
+            refine(index);
+          } else {
+            if (r === 0) break;
+            r--;
+          }
+          k++;
+        }
+
+        if (value && k <= se) {
+          coefficients[offset + ZIGZAG[k]] = value;
+        }
+      }
+    }
+
+    if (reader.eobrun > 0) {
+      for (; k <= se; k++) {
+        const index = offset + ZIGZAG[k];
+        if (coefficients[index] !== 0) refine(index);
+      }
+      reader.eobrun--;
+    }
+  };
+}
+
+function decodeScan(
+  data: Uint8Array,
+  position: number,
+  frame: Frame,
+  components: FrameComponent[],
+  restartInterval: number,
+  decodeBlock: BlockDecoder
+): number {
+  const reader = new BitReader(data, position);
+  components.forEach((component) => {
+    component.pred = 0;
+  });
+
+  const blockOffset = (component: FrameComponent, row: number, col: number) =>
+    (row * component.blocksPerLineForMcu + col) * 64;
+
+  let mcu = 0;
+  if (components.length === 1) {
+    // Non-interleaved scans cover only the component's own blocks
+    const [component] = components;
+    const total = component.blocksPerLine * component.blocksPerColumn;
+    for (let n = 0; n < total; n++) {
+      if (restartInterval && mcu > 0 && mcu % restartInterval === 0) {
+        reader.restart();
+        component.pred = 0;
+      }
+      const row = Math.floor(n / component.blocksPerLine);
+      const col = n % component.blocksPerLine;
+      decodeBlock(reader, component, blockOffset(component, row, col));
+      mcu++;
+    }
+    return reader.nextMarker();
+  }
+
+  const total = frame.mcusPerLine * frame.mcusPerColumn;
+  for (let n = 0; n < total; n++) {
+    if (restartInterval && mcu > 0 && mcu % restartInterval === 0) {
+      reader.restart();
+      components.forEach((component) => {
+        component.pred = 0;
+      });
+    }
+    const mcuRow = Math.floor(n / frame.mcusPerLine);
+    const mcuCol = n % frame.mcusPerLine;
+    for (const component of components) {
+      for (let v = 0; v < component.v; v++) {
+        for (let h = 0; h < component.h; h++) {
+          const row = mcuRow * component.v + v;
+          const col = mcuCol * component.h + h;
+          decodeBlock(reader, component, blockOffset(component, row, col));
+        }
+      }
+    }
+    mcu++;
+  }
+  return reader.nextMarker();
+}
+
+/**
+ * Dequantise and inverse-DCT every block into an 8-bit sample plane
+ */
+function buildComponentPlane(component: FrameComponent, quant: Int32Array): Uint8Array {
+  const width = component.blocksPerLineForMcu * 8;
+  const plane = new Uint8Array(width * component.blocksPerColumnForMcu * 8);
+  const block = new Float32Array(64);
+  const temp = new Float32Array(64);
+
+  for (let row = 0; row < component.blocksPerColumnForMcu; row++) {
+    for (let col = 0; col < component.blocksPerLineForMcu; col++) {
+      const offset = (row * component.blocksPerLineForMcu + col) * 64;
+      for (let i = 0; i < 64; i++) {
+        block[i] = component.coefficients[offset + i] * quant[i];
+      }
+
+      // Rows: temp[v][x] = Σu block[v][u] · cos(u, x)
+      for (let v = 0; v < 8; v++) {
+        for (let x = 0; x < 8; x++) {
+          let sum = 0;
+          for (let u = 0; u < 8; u++) sum += block[v * 8 + u] * COSINES[u * 8 + x];
+          temp[v * 8 + x] = sum;
+        }
+      }
+
+      // Columns, level shift and clamp
+      for (let x = 0; x < 8; x++) {
+        for (let y = 0; y < 8; y++) {
+          let sum = 0;
+          for (let v = 0; v < 8; v++) sum += temp[v * 8 + x] * COSINES[v * 8 + y];
+          const sample = Math.round(sum + 128);
+          plane[(row * 8 + y) * width + col * 8 + x] = sample < 0 ? 0 : sample > 255 ? 255 : sample;
+        }
+      }
+    }
+  }
+
+  return plane;
+}
+
+function clampByte(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+}
+
+export function isJpeg(buffer: Uint8Array): boolean {
+  return buffer.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff;
+}
+
+export function decodeJpeg(buffer: Uint8Array): DecodedImage {
+  if (!isJpeg(buffer)) {
+    throw new ImageDecodeError('Not a JPEG file');
+  }
+
+  const quantTables: Int32Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let frame: Frame | null = null;
+  let restartInterval = 0;
+  let adobeTransform: number | null = null;
+  let jfif = false;
+  let position = 2;
+
+  const readUint16 = (at: number) => (buffer[at] << 8) | buffer[at + 1];
+
+  while (position < buffer.length - 1) {
+    if (buffer[position] !== 0xff) {
+      position++;
+      continue;
+    }
+    const marker = buffer[position + 1];
+    position += 2;
+
+    if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0xff || marker === 0x01) {
+      if (marker === 0xff) position--;
+      continue;
+    }
+    if (marker === 0xd9) break; // EOI
+
+    const length = readUint16(position);
+    const segmentStart = position + 2;
+    const segmentEnd = position + length;
+
+    switch (marker) {
+      case 0xe0: // APP0
+        jfif = buffer[segmentStart] === 0x4a && buffer[segmentStart + 1] === 0x46 && buffer[segmentStart + 2] === 0x49;
+        break;
+
+      case 0xee: // APP14
+        if (String.fromCharCode(...buffer.subarray(segmentStart, segmentStart + 5)) === 'Adobe') {
+          adobeTransform = buffer[segmentStart + 11];
+        }
+        break;
+
+      case 0xdb: { // DQT
+        let at = segmentStart;
+        while (at < segmentEnd) {
+          const precision = buffer[at] >> 4;
+          const id = buffer[at] & 15;
+          at++;
+          const table = new Int32Array(64);
+          for (let k = 0; k < 64; k++) {
+            table[ZIGZAG[k]] = precision ? readUint16(at + k * 2) : buffer[at + k];
+          }
+          at += precision ? 128 : 64;
+          quantTables[id] = table;
+        }
+        break;
+      }
+
+      case 0xc0: // SOF0 baseline
+      case 0xc1: // SOF1 extended sequential
+      case 0xc2: { // SOF2 progressive
+        if (buffer[segmentStart] !== 8) {
+          throw new ImageDecodeError('Only 8-bit JPEG samples are supported');
+        }
+        const height = readUint16(segmentStart + 1);
+        const width = readUint16(segmentStart + 3);
+        const count = buffer[segmentStart + 5];
+        if (!width || !height) {
+          throw new ImageDecodeError('JPEG without explicit dimensions is not supported');
+        }
+
+        const components: FrameComponent[] = [];
+        for (let i = 0; i < count; i++) {
+          const at = segmentStart + 6 + i * 3;
+          components.push({
+            id: buffer[at],
+            h: Math.max(1, buffer[at + 1] >> 4),
+            v: Math.max(1, buffer[at + 1] & 15),
+            quantTable: buffer[at + 2],
+            blocksPerLine: 0,
+            blocksPerColumn: 0,
+            blocksPerLineForMcu: 0,
+            blocksPerColumnForMcu: 0,
+            coefficients: new Int16Array(0),
+            pred: 0,
+          });
+        }
+
+        const maxH = Math.max(...components.map((component) => component.h));
+        const maxV = Math.max(...components.map((component) => component.v));
+        const mcusPerLine = Math.ceil(width / (8 * maxH));
+        const mcusPerColumn = Math.ceil(height / (8 * maxV));
+
+        components.forEach((component) => {
+          component.blocksPerLine = Math.ceil(Math.ceil((width * component.h) / maxH) / 8);
+          component.blocksPerColumn = Math.ceil(Math.ceil((height * component.v) / maxV) / 8);
+          component.blocksPerLineForMcu = mcusPerLine * component.h;
+          component.blocksPerColumnForMcu = mcusPerColumn * component.v;
+          component.coefficients = new Int16Array(
+            component.blocksPerLineForMcu * component.blocksPerColumnForMcu * 64
+          );
+        });
+
+        frame = { progressive: marker === 0xc2, width, height, maxH, maxV, mcusPerLine, mcusPerColumn, components };
+        break;
+      }
+
+      case 0xc3: case 0xc5: case 0xc6: case 0xc7:
+      case 0xc9: case 0xca: case 0xcb: case 0xcd: case 0xce: case 0xcf:
+        throw new ImageDecodeError('Lossless and arithmetic-coded JPEGs are not supported');
+
+      case 0xc4: { // DHT
+        let at = segmentStart;
+        while (at < segmentEnd) {
+          const tableClass = buffer[at] >> 4;
+          const id = buffer[at] & 15;
+          const counts = buffer.subarray(at + 1, at + 17);
+          const total = counts.reduce((sum, count) => sum + count, 0);
+          const values = buffer.slice(at + 17, at + 17 + total);
+          (tableClass === 0 ? dcTables : acTables)[id] = buildHuffmanTable(counts, values);
+          at += 17 + total;
+        }
+        break;
+      }
+
+      case 0xdd: // DRI
+        restartInterval = readUint16(segmentStart);
+        break;
+
+      case 0xda: { // SOS
+        if (!frame) {
+          throw new ImageDecodeError('JPEG scan before frame header');
+        }
+        const count = buffer[segmentStart];
+        const scanComponents: FrameComponent[] = [];
+        for (let i = 0; i < count; i++) {
+          const at = segmentStart + 1 + i * 2;
+          const component = frame.components.find((candidate) => candidate.id === buffer[at]);
+          if (!component) {
+            throw new ImageDecodeError('JPEG scan references an unknown component');
+          }
+          component.dcTable = dcTables[buffer[at + 1] >> 4];
+          component.acTable = acTables[buffer[at + 1] & 15];
+          scanComponents.push(component);
+        }
+
+        const params = segmentStart + 1 + count * 2;
+        const ss = buffer[params];
+        const se = buffer[params + 1];
+        const ah = buffer[params + 2] >> 4;
+        const al = buffer[params + 2] & 15;
+
+        let decodeBlock: BlockDecoder;
+        if (!frame.progressive) {
+          decodeBlock = decodeBaseline(false);
+        } else if (ss === 0) {
+          decodeBlock = ah === 0 ? decodeDcFirst(al) : decodeDcRefine(al);
+        } else {
+          decodeBlock = ah === 0 ? decodeAcFirst(ss, se, al) : decodeAcRefine(ss, se, al);
+        }
+
+        position = decodeScan(buffer, segmentEnd, frame, scanComponents, restartInterval, decodeBlock);
+        continue;
+      }
+
+      default:
+        break; // APPn, COM and other segments carry nothing we need
+    }
+
+    position = segmentEnd;
+  }
+
+  if (!frame) {
+    throw new ImageDecodeError('JPEG has no frame header');
+  }
+
+  return toRgba(frame, quantTables, adobeTransform, jfif);
+}
+
+function toRgba(frame: Frame, quantTables: Int32Array[], adobeTransform: number | null, jfif: boolean): DecodedImage {
+  const { width, height, components, maxH, maxV } = frame;
+  const planes = components.map((component) =>
+    buildComponentPlane(component, quantTables[component.quantTable] ?? new Int32Array(64).fill(1))
+  );
+  const data = new Uint8Array(width * height * 4);
+
+  const xIndex = components.map((component) => {
+    const map = new Int32Array(width);
+    for (let x = 0; x < width; x++) map[x] = Math.floor((x * component.h) / maxH);
+    return map;
+  });
+
+  const isRgb =
+    components.length === 3 &&
+    (adobeTransform === 0 ||
+      (!jfif && adobeTransform === null && components[0].id === 0x52 && components[1].id === 0x47 && components[2].id === 0x42));
+
+  const samples = new Float32Array(4);
+  for (let y = 0; y < height; y++) {
+    const rowOffsets = components.map(
+      (component) => Math.floor((y * component.v) / maxV) * component.blocksPerLineForMcu * 8
+    );
+
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < components.length; c++) {
+        samples[c] = planes[c][rowOffsets[c] + xIndex[c][x]];
+      }
+
+      const out = (y * width + x) * 4;
+      if (components.length === 1) {
+        data[out] = data[out + 1] = data[out + 2] = samples[0];
+      } else if (isRgb) {
+        data[out] = samples[0];
+        data[out + 1] = samples[1];
+        data[out + 2] = samples[2];
+      } else {
+        let r = samples[0];
+        let g = samples[1];
+        let b = samples[2];
+        if (components.length === 3 || adobeTransform === 2) {
+          const luma = samples[0];
+          const cb = samples[1] - 128;
+          const cr = samples[2] - 128;
+          r = clampByte(luma + 1.402 * cr);
+          g = clampByte(luma - 0.344136 * cb - 0.714136 * cr);
+          b = clampByte(luma + 1.772 * cb);
+        }
+        if (components.length === 4) {
+          // Adobe CMYK is stored inverted, so the samples are already 255 - C etc.
+          const k = samples[3];
+          r = (r * k) / 255;
+          g = (g * k) / 255;
+          b = (b * k) / 255;
+        }
+        data[out] = clampByte(r);
+        data[out + 1] = clampByte(g);
+        data[out + 2] = clampByte(b);
+      }
+      data[out + 3] = 255;
+    }
+  }
+
+  return { width, height, data };
+}
@@ -0,0 +1,175 @@
+/**
+ * Perceptual image hashes for duplicate photo detection
+ * pHash (DCT), aHash (mean) and dHash (gradient), all 64-bit. Hashes survive
+ * re-encoding, resizing and mild colour edits; compare them with hammingDistance.
+ */
+
+import { decodeImage } from './decode';
+import type { DecodedImage } from './types';
+
+export interface ImageHashes {
+  width: number;
+  height: number;
+  pHash: bigint;
+  aHash: bigint;
+  dHash: bigint;
+}
+
+const DCT_SIZE = 32;
+const HASH_SIZE = 8;
+
+// Hamming distance at or below which two pHashes are treated as the same photo
+export const PHASH_MATCH_DISTANCE = 10;
+
+/**
+ * Luma plane with transparent pixels composited over white
+ */
+export function toGrayscale(image: DecodedImage): Float64Array {
+  const gray = new Float64Array(image.width * image.height);
+  for (let i = 0; i < gray.length; i++) {
+    const alpha = image.data[i * 4 + 3] / 255;
+    const luma = 0.299 * image.data[i * 4] + 0.587 * image.data[i * 4 + 1] + 0.114 * image.data[i * 4 + 2];
+    gray[i] = luma * alpha + 255 * (1 - alpha);
+  }
+  return gray;
+}
+
+/**
+ * Box-filter resize: every target pixel averages the source area it covers
+ */
+export function resize(gray: Float64Array, width: number, height: number, targetWidth: number, targetHeight: number): Float64Array {
+  const out = new Float64Array(targetWidth * targetHeight);
+  const scaleX = width / targetWidth;
+  const scaleY = height / targetHeight;
+
+  for (let ty = 0; ty < targetHeight; ty++) {
+    const y0 = ty * scaleY;
+    const y1 = y0 + scaleY;
+    for (let tx = 0; tx < targetWidth; tx++) {
+      const x0 = tx * scaleX;
+      const x1 = x0 + scaleX;
+      let sum = 0;
+      let area = 0;
+      for (let y = Math.floor(y0); y < Math.min(height, Math.ceil(y1)); y++) {
+        const coverY = Math.min(y + 1, y1) - Math.max(y, y0);
+        for (let x = Math.floor(x0); x < Math.min(width, Math.ceil(x1)); x++) {
+          const weight = coverY * (Math.min(x + 1, x1) - Math.max(x, x0));
+          sum += gray[y * width + x] * weight;
+          area += weight;
+        }
+      }
+      out[ty * targetWidth + tx] = area > 0 ? sum / area : 0;
+    }
+  }
+  return out;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function bitsToHash(bits: boolean[]): bigint {
+  let hash = BigInt(0);
+  for (const bit of bits) {
+    hash = (hash << BigInt(1)) | (bit ? BigInt(1) : BigInt(0));
+  }
+  return hash;
+}
+
+/**
+ * pHash: 32x32 grayscale, 2D DCT-II, low-frequency 8x8 block compared to its
+ * median (the DC term is left out of the median so overall brightness does not
+ * dominate)
+ */
+function computePhashFromGray(gray: Float64Array, width: number, height: number): bigint {
+  const pixels = resize(gray, width, height, DCT_SIZE, DCT_SIZE);
+
+  const cosines = new Float64Array(HASH_SIZE * DCT_SIZE);
+  for (let u = 0; u < HASH_SIZE; u++) {
+    for (let x = 0; x < DCT_SIZE; x++) {
+      cosines[u * DCT_SIZE + x] = Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE));
+    }
+  }
+
+  // Rows first, then columns, only for the frequencies we keep
+  const rows = new Float64Array(DCT_SIZE * HASH_SIZE);
+  for (let y = 0; y < DCT_SIZE; y++) {
+    for (let u = 0; u < HASH_SIZE; u++) {
+      let sum = 0;
+      for (let x = 0; x < DCT_SIZE; x++) sum += pixels[y * DCT_SIZE + x] * cosines[u * DCT_SIZE + x];
+      rows[y * HASH_SIZE + u] = sum;
+    }
+  }
+  const coefficients: number[] = [];
+  for (let v = 0; v < HASH_SIZE; v++) {
+    for (let u = 0; u < HASH_SIZE; u++) {
+      let sum = 0;
+      for (let y = 0; y < DCT_SIZE; y++) sum += rows[y * HASH_SIZE + u] * cosines[v * DCT_SIZE + y];
+      coefficients.push(sum);
+    }
+  }
+
+  const threshold = median(coefficients.slice(1));
+  return bitsToHash(coefficients.map((value) => value > threshold));
+}
+
+function computeAhashFromGray(gray: Float64Array, width: number, height: number): bigint {
+  const pixels = Array.from(resize(gray, width, height, HASH_SIZE, HASH_SIZE));
+  const mean = pixels.reduce((sum, value) => sum + value, 0) / pixels.length;
+  return bitsToHash(pixels.map((value) => value > mean));
+}
+
+function computeDhashFromGray(gray: Float64Array, width: number, height: number): bigint {
+  const pixels = resize(gray, width, height, HASH_SIZE + 1, HASH_SIZE);
+  const bits: boolean[] = [];
+  for (let y = 0; y < HASH_SIZE; y++) {
+    for (let x = 0; x < HASH_SIZE; x++) {
+      bits.push(pixels[y * (HASH_SIZE + 1) + x + 1] > pixels[y * (HASH_SIZE + 1) + x]);
+    }
+  }
+  return bitsToHash(bits);
+}
+
+export function computeImageHashesFromPixels(image: DecodedImage): ImageHashes {
+  const gray = toGrayscale(image);
+  return {
+    width: image.width,
+    height: image.height,
+    pHash: computePhashFromGray(gray, image.width, image.height),
+    aHash: computeAhashFromGray(gray, image.width, image.height),
+    dHash: computeDhashFromGray(gray, image.width, image.height),
+  };
+}
+
+/**
+ * Decode a JPEG, PNG or WebP buffer and hash it
+ */
+export function computeImageHashes(buffer: Uint8Array): ImageHashes {
+  return computeImageHashesFromPixels(decodeImage(buffer));
+}
+
+export function hammingDistance(hash1: bigint, hash2: bigint): number {
+  let diff = BigInt.asUintN(64, hash1 ^ hash2);
+  let distance = 0;
+  while (diff > BigInt(0)) {
+    diff &= diff - BigInt(1);
+    distance++;
+  }
+  return distance;
+}
+
+/**
+ * Postgres bigint is signed: store the hash bits as a signed 64-bit value
+ */
+export function hashToSigned(hash: bigint): string {
+  return BigInt.asIntN(64, hash).toString();
+}
+
+/**
+ * Read a hash back from a bigint column (pg returns int8 as a string)
+ */
+export function hashFromColumn(value: string | number | bigint): bigint {
+  return BigInt.asUintN(64, BigInt(value));
+}
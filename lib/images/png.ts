@@ -0,0 +1,231 @@
+/**
+ * PNG decoder covering every standard colour type, bit depth and Adam7 interlacing
+ */
+
+import { inflateSync } from 'zlib';
+import { ImageDecodeError, type DecodedImage } from './types';
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Adam7 passes: [xStart, yStart, xStep, yStep]
+const ADAM7 = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlace: number;
+}
+
+export function isPng(buffer: Uint8Array): boolean {
+  return buffer.length > 8 && SIGNATURE.every((byte, index) => buffer[index] === byte);
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Reverse the per-scanline filters of one (sub)image in place
+ */
+function unfilter(data: Uint8Array, offset: number, width: number, height: number, header: PngHeader): Uint8Array[] {
+  const bitsPerPixel = CHANNELS[header.colorType] * header.bitDepth;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const rows: Uint8Array[] = [];
+  let previous = new Uint8Array(stride);
+
+  for (let y = 0; y < height; y++) {
+    const start = offset + y * (stride + 1);
+    if (start + stride >= data.length) {
+      throw new ImageDecodeError('PNG image data is truncated');
+    }
+    const filter = data[start];
+    const row = data.slice(start + 1, start + 1 + stride);
+
+    for (let i = 0; i < stride; i++) {
+      const left = i >= bpp ? row[i - bpp] : 0;
+      const up = previous[i];
+      const upLeft = i >= bpp ? previous[i - bpp] : 0;
+      switch (filter) {
+        case 0: break;
+        case 1: row[i] = (row[i] + left) & 0xff; break;
+        case 2: row[i] = (row[i] + up) & 0xff; break;
+        case 3: row[i] = (row[i] + ((left + up) >> 1)) & 0xff; break;
+        case 4: row[i] = (row[i] + paeth(left, up, upLeft)) & 0xff; break;
+        default: throw new ImageDecodeError(`Unknown PNG filter type ${filter}`);
+      }
+    }
+
+    rows.push(row);
+    previous = row;
+  }
+
+  return rows;
+}
+
+export function decodePng(buffer: Uint8Array): DecodedImage {
+  if (!isPng(buffer)) {
+    throw new ImageDecodeError('Not a PNG file');
+  }
+
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  let header: PngHeader | null = null;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+  let position = 8;
+
+  while (position + 8 <= buffer.length) {
+    const length = view.getUint32(position);
+    const type = String.fromCharCode(...buffer.subarray(position + 4, position + 8));
+    const chunkStart = position + 8;
+    const chunk = buffer.subarray(chunkStart, chunkStart + length);
+    position += 12 + length;
+
+    if (type === 'IHDR') {
+      header = {
+        width: view.getUint32(chunkStart),
+        height: view.getUint32(chunkStart + 4),
+        bitDepth: chunk[8],
+        colorType: chunk[9],
+        interlace: chunk[12],
+      };
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (!header || !header.width || !header.height || CHANNELS[header.colorType] === undefined) {
+    throw new ImageDecodeError('PNG header is missing or invalid');
+  }
+  if (header.colorType === 3 && !palette) {
+    throw new ImageDecodeError('Palette PNG without PLTE chunk');
+  }
+
+  let inflated: Uint8Array;
+  try {
+    inflated = inflateSync(Buffer.concat(idat));
+  } catch (error) {
+    throw new ImageDecodeError(`PNG image data is corrupt: ${(error as Error).message}`);
+  }
+
+  const { width, height, bitDepth, colorType } = header;
+  const channels = CHANNELS[colorType];
+  const maxValue = (1 << bitDepth) - 1;
+  const out = new Uint8Array(width * height * 4);
+
+  // Samples scaled to 8 bits; 16-bit samples keep their high byte
+  const sampleAt = (row: Uint8Array, index: number): number => {
+    if (bitDepth === 8) return row[index];
+    if (bitDepth === 16) return row[index * 2];
+    const bitOffset = index * bitDepth;
+    const raw = (row[bitOffset >> 3] >> (8 - bitDepth - (bitOffset & 7))) & maxValue;
+    return colorType === 3 ? raw : Math.round((raw * 255) / maxValue);
+  };
+  const rawSampleAt = (row: Uint8Array, index: number): number => {
+    if (bitDepth === 16) return (row[index * 2] << 8) | row[index * 2 + 1];
+    if (bitDepth === 8) return row[index];
+    const bitOffset = index * bitDepth;
+    return (row[bitOffset >> 3] >> (8 - bitDepth - (bitOffset & 7))) & maxValue;
+  };
+
+  const transparentKey =
+    transparency && (colorType === 0 || colorType === 2)
+      ? Array.from({ length: colorType === 0 ? 1 : 3 }, (_, i) => (transparency![i * 2] << 8) | transparency![i * 2 + 1])
+      : null;
+
+  const writePixel = (row: Uint8Array, column: number, x: number, y: number) => {
+    const target = (y * width + x) * 4;
+    const base = column * channels;
+
+    switch (colorType) {
+      case 0: {
+        const gray = sampleAt(row, base);
+        out[target] = out[target + 1] = out[target + 2] = gray;
+        out[target + 3] = transparentKey && rawSampleAt(row, base) === transparentKey[0] ? 0 : 255;
+        break;
+      }
+      case 2:
+        out[target] = sampleAt(row, base);
+        out[target + 1] = sampleAt(row, base + 1);
+        out[target + 2] = sampleAt(row, base + 2);
+        out[target + 3] =
+          transparentKey &&
+          rawSampleAt(row, base) === transparentKey[0] &&
+          rawSampleAt(row, base + 1) === transparentKey[1] &&
+          rawSampleAt(row, base + 2) === transparentKey[2]
+            ? 0
+            : 255;
+        break;
+      case 3: {
+        const index = sampleAt(row, base);
+        out[target] = palette![index * 3] ?? 0;
+        out[target + 1] = palette![index * 3 + 1] ?? 0;
+        out[target + 2] = palette![index * 3 + 2] ?? 0;
+        out[target + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+        break;
+      }
+      case 4: {
+        const gray = sampleAt(row, base);
+        out[target] = out[target + 1] = out[target + 2] = gray;
+        out[target + 3] = sampleAt(row, base + 1);
+        break;
+      }
+      case 6:
+        out[target] = sampleAt(row, base);
+        out[target + 1] = sampleAt(row, base + 1);
+        out[target + 2] = sampleAt(row, base + 2);
+        out[target + 3] = sampleAt(row, base + 3);
+        break;
+    }
+  };
+
+  if (header.interlace === 0) {
+    const rows = unfilter(inflated, 0, width, height, header);
+    rows.forEach((row, y) => {
+      for (let x = 0; x < width; x++) writePixel(row, x, x, y);
+    });
+    return { width, height, data: out };
+  }
+
+  let offset = 0;
+  const bitsPerPixel = channels * bitDepth;
+  for (const [xStart, yStart, xStep, yStep] of ADAM7) {
+    const passWidth = Math.ceil((width - xStart) / xStep);
+    const passHeight = Math.ceil((height - yStart) / yStep);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+
+    const rows = unfilter(inflated, offset, passWidth, passHeight, header);
+    rows.forEach((row, passY) => {
+      for (let passX = 0; passX < passWidth; passX++) {
+        writePixel(row, passX, xStart + passX * xStep, yStart + passY * yStep);
+      }
+    });
+    offset += passHeight * (Math.ceil((passWidth * bitsPerPixel) / 8) + 1);
+  }
+
+  return { width, height, data: out };
+}
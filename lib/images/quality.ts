@@ -0,0 +1,183 @@
+/**
+ * Photo quality metrics for listing uploads
+ * Exposure, contrast, blur (variance of the Laplacian), resolution and
+ * orientation from decoded pixels, combined into a 0-1 quality score that
+ * drives upload warnings, cover photo selection and the listing media score.
+ */
+
+import { decodeImage } from './decode';
+import { resize, toGrayscale } from './phash';
+import type { DecodedImage } from './types';
+
+export type ImageOrientation = 'landscape' | 'portrait' | 'square';
+
+export type ImageQualityIssue = 'too_dark' | 'too_bright' | 'low_contrast' | 'blurry' | 'low_resolution';
+
+export interface ImageQualityReport {
+  width: number;
+  height: number;
+  orientation: ImageOrientation;
+  brightness: number; // mean luma, 0-1
+  contrast: number; // luma standard deviation, 0-1
+  sharpness: number; // 0-1, from the Laplacian variance
+  laplacianVariance: number;
+  score: number; // 0-1
+  issues: ImageQualityIssue[];
+  warnings: string[];
+}
+
+export interface CoverCandidate {
+  id: string;
+  qualityScore: number | null;
+  width: number | null;
+  height: number | null;
+}
+
+// Metrics are measured on a copy scaled to this long side so blur and noise
+// are judged the same way for phone photos and camera exports
+const ANALYSIS_SIZE = 512;
+
+const DARK_BRIGHTNESS = 0.25;
+const BRIGHT_BRIGHTNESS = 0.85;
+const LOW_CONTRAST_STDDEV = 25;
+const BLUR_VARIANCE = 60;
+const SHARPNESS_REFERENCE = 150;
+const MIN_SHORT_SIDE = 600;
+const TARGET_PIXELS = 1280 * 720;
+
+export const ISSUE_WARNINGS: Record<ImageQualityIssue, string> = {
+  too_dark: 'Photo is too dark',
+  too_bright: 'Photo is overexposed',
+  low_contrast: 'Photo looks washed out (low contrast)',
+  blurry: 'Image is blurry',
+  low_resolution: 'Image resolution is low; upload at least 1280x720',
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+export function imageOrientation(width: number, height: number): ImageOrientation {
+  const ratio = width / Math.max(1, height);
+  if (ratio > 1.1) return 'landscape';
+  if (ratio < 0.9) return 'portrait';
+  return 'square';
+}
+
+/**
+ * Variance of the 4-neighbour Laplacian; low values mean few sharp edges
+ */
+function laplacianVariance(gray: Float64Array, width: number, height: number): number {
+  if (width < 3 || height < 3) return 0;
+
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+export function analyzeImageQuality(image: DecodedImage): ImageQualityReport {
+  const { width, height } = image;
+  let gray = toGrayscale(image);
+  let sampleWidth = width;
+  let sampleHeight = height;
+
+  const longSide = Math.max(width, height);
+  if (longSide > ANALYSIS_SIZE) {
+    sampleWidth = Math.max(1, Math.round((width / longSide) * ANALYSIS_SIZE));
+    sampleHeight = Math.max(1, Math.round((height / longSide) * ANALYSIS_SIZE));
+    gray = resize(gray, width, height, sampleWidth, sampleHeight);
+  }
+
+  let sum = 0;
+  let sumSquares = 0;
+  for (const value of gray) {
+    sum += value;
+    sumSquares += value * value;
+  }
+  const mean = sum / gray.length;
+  const stdDev = Math.sqrt(Math.max(0, sumSquares / gray.length - mean * mean));
+  const variance = laplacianVariance(gray, sampleWidth, sampleHeight);
+
+  const brightness = mean / 255;
+  const sharpness = variance / (variance + SHARPNESS_REFERENCE);
+
+  const issues: ImageQualityIssue[] = [];
+  if (brightness < DARK_BRIGHTNESS) issues.push('too_dark');
+  if (brightness > BRIGHT_BRIGHTNESS) issues.push('too_bright');
+  if (stdDev < LOW_CONTRAST_STDDEV) issues.push('low_contrast');
+  if (variance < BLUR_VARIANCE) issues.push('blurry');
+  if (Math.min(width, height) < MIN_SHORT_SIDE) issues.push('low_resolution');
+
+  // Exposure is fine anywhere in the middle of the range and falls off towards the ends
+  const exposureScore = clamp01(1 - Math.max(0, Math.abs(brightness - 0.5) - 0.15) / 0.35);
+  const contrastScore = clamp01(stdDev / 50);
+  const resolutionScore = clamp01((width * height) / TARGET_PIXELS);
+  const score = 0.3 * sharpness + 0.25 * exposureScore + 0.2 * contrastScore + 0.25 * resolutionScore;
+
+  return {
+    width,
+    height,
+    orientation: imageOrientation(width, height),
+    brightness: round3(brightness),
+    contrast: round3(clamp01(stdDev / 127.5)),
+    sharpness: round3(sharpness),
+    laplacianVariance: Math.round(variance * 10) / 10,
+    score: round3(score),
+    issues,
+    warnings: issues.map((issue) => ISSUE_WARNINGS[issue]),
+  };
+}
+
+/**
+ * Decode a JPEG, PNG or WebP buffer and analyze it
+ */
+export function analyzeImageQualityFromBuffer(buffer: Uint8Array): ImageQualityReport {
+  return analyzeImageQuality(decodeImage(buffer));
+}
+
+/**
+ * How well a photo works as the listing cover: quality, with landscape
+ * preferred since cards and galleries crop to a wide frame
+ */
+export function coverScore(candidate: Omit<CoverCandidate, 'id'>): number {
+  const quality = candidate.qualityScore ?? 0;
+  if (!candidate.width || !candidate.height) return quality * 0.9;
+
+  const orientation = imageOrientation(candidate.width, candidate.height);
+  const factor = orientation === 'landscape' ? 1 : orientation === 'square' ? 0.9 : 0.75;
+  return quality * factor;
+}
+
+export function pickCoverImage(candidates: CoverCandidate[]): CoverCandidate | null {
+  let best: CoverCandidate | null = null;
+  for (const candidate of candidates) {
+    if (candidate.qualityScore === null) continue;
+    if (!best || coverScore(candidate) > coverScore(best)) best = candidate;
+  }
+  return best;
+}
+
+/**
+ * Listing-level media score (apartments.media_quality_score): the cover, the
+ * best few photos and whether there are enough of them
+ */
+export function listingMediaScore(qualityScores: number[], coverQuality?: number | null): number {
+  if (qualityScores.length === 0) return 0;
+
+  const top = [...qualityScores].sort((a, b) => b - a).slice(0, 5);
+  const topMean = top.reduce((sum, value) => sum + value, 0) / top.length;
+  const cover = coverQuality ?? top[0];
+  const coverage = Math.min(1, qualityScores.length / 5);
+
+  return round3(clamp01(0.4 * cover + 0.4 * topMean + 0.2 * coverage));
+}
@@ -0,0 +1,16 @@
+/**
+ * Shared types for the pure-TypeScript image decoders
+ */
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  data: Uint8Array; // RGBA, 4 bytes per pixel, row-major
+}
+
+export class ImageDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageDecodeError';
+  }
+}
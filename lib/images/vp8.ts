@@ -0,0 +1,1201 @@
+/**
+ * WebP lossy (VP8 key frame) decoder, following RFC 6386
+ * Reconstructs YUV 4:2:0 planes with the in-loop filter applied, then
+ * converts to RGBA with bilinear chroma upsampling.
+ */
+
+import { ImageDecodeError } from './types';
+
+const NUM_TYPES = 4;
+const NUM_BANDS = 8;
+const NUM_CONTEXTS = 3;
+const NUM_PROBAS = 11;
+
+// Intra modes: 16x16 luma and chroma modes share values with their 4x4 counterparts
+const DC_PRED = 0;
+const TM_PRED = 1;
+const V_PRED = 2;
+const H_PRED = 3;
+const B_LD_PRED = 4;
+const B_RD_PRED = 5;
+const B_VR_PRED = 6;
+const B_VL_PRED = 7;
+const B_HD_PRED = 8;
+const B_HU_PRED = 9;
+
+const BMODE_TREE = [
+  -DC_PRED, 2,
+  -TM_PRED, 4,
+  -V_PRED, 6,
+  8, 12,
+  -H_PRED, 10,
+  -B_RD_PRED, -B_VR_PRED,
+  -B_LD_PRED, 14,
+  -B_VL_PRED, 16,
+  -B_HD_PRED, -B_HU_PRED,
+];
+
+const ZIGZAG = [0, 1, 4, 8, 5, 2, 3, 6, 9, 12, 13, 10, 7, 11, 14, 15];
+const BANDS = [0, 1, 2, 3, 6, 4, 5, 6, 6, 6, 6, 6, 6, 6, 6, 7, 0];
+
+const CAT3 = [173, 148, 140];
+const CAT4 = [176, 155, 140, 135];
+const CAT5 = [180, 157, 141, 134, 130];
+const CAT6 = [254, 254, 243, 230, 196, 177, 153, 140, 133, 130, 129];
+const CAT_TABLES = [CAT3, CAT4, CAT5, CAT6];
+
+const DC_TABLE = [
+  4, 5, 6, 7, 8, 9, 10, 10, 11, 12, 13, 14, 15, 16, 17, 17,
+  18, 19, 20, 20, 21, 21, 22, 22, 23, 23, 24, 25, 25, 26, 27, 28,
+  29, 30, 31, 32, 33, 34, 35, 36, 37, 37, 38, 39, 40, 41, 42, 43,
+  44, 45, 46, 46, 47, 48, 49, 50, 51, 52, 53, 54, 55, 56, 57, 58,
+  59, 60, 61, 62, 63, 64, 65, 66, 67, 68, 69, 70, 71, 72, 73, 74,
+  75, 76, 76, 77, 78, 79, 80, 81, 82, 83, 84, 85, 86, 87, 88, 89,
+  91, 93, 95, 96, 98, 100, 101, 102, 104, 106, 108, 110, 112, 114, 116, 118,
+  122, 124, 126, 128, 130, 132, 134, 136, 138, 140, 143, 145, 148, 151, 154, 157,
+];
+
+const AC_TABLE = [
+  4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19,
+  20, 21, 22, 23, 24, 25, 26, 27, 28, 29, 30, 31, 32, 33, 34, 35,
+  36, 37, 38, 39, 40, 41, 42, 43, 44, 45, 46, 47, 48, 49, 50, 51,
+  52, 53, 54, 55, 56, 57, 58, 60, 62, 64, 66, 68, 70, 72, 74, 76,
+  78, 80, 82, 84, 86, 88, 90, 92, 94, 96, 98, 100, 102, 104, 106, 108,
+  110, 112, 114, 116, 119, 122, 125, 128, 131, 134, 137, 140, 143, 146, 149, 152,
+  155, 158, 161, 164, 167, 170, 173, 177, 181, 185, 189, 193, 197, 201, 205, 209,
+  213, 217, 221, 225, 229, 234, 239, 245, 249, 254, 259, 264, 269, 274, 279, 284,
+];
+
+// Key frame sub-block mode probabilities, indexed [above][left]
+const BMODE_PROBS: number[][][] = [
+  [
+    [231, 120, 48, 89, 115, 113, 120, 152, 112],
+    [152, 179, 64, 126, 170, 118, 46, 70, 95],
+    [175, 69, 143, 80, 85, 82, 72, 155, 103],
+    [56, 58, 10, 171, 218, 189, 17, 13, 152],
+    [144, 71, 10, 38, 171, 213, 144, 34, 26],
+    [114, 26, 17, 163, 44, 195, 21, 10, 173],
+    [121, 24, 80, 195, 26, 62, 44, 64, 85],
+    [170, 46, 55, 19, 136, 160, 33, 206, 71],
+    [63, 20, 8, 114, 114, 208, 12, 9, 226],
+    [81, 40, 11, 96, 182, 84, 29, 16, 36],
+  ],
+  [
+    [134, 183, 89, 137, 98, 101, 106, 165, 148],
+    [72, 187, 100, 130, 157, 111, 32, 75, 80],
+    [66, 102, 167, 99, 74, 62, 40, 234, 128],
+    [41, 53, 9, 178, 241, 141, 26, 8, 107],
+    [104, 79, 12, 27, 217, 255, 87, 17, 7],
+    [74, 43, 26, 146, 73, 166, 49, 23, 157],
+    [65, 38, 105, 160, 51, 52, 31, 115, 128],
+    [87, 68, 71, 44, 114, 51, 15, 186, 23],
+    [47, 41, 14, 110, 182, 183, 21, 17, 194],
+    [66, 45, 25, 102, 197, 189, 23, 18, 22],
+  ],
+  [
+    [88, 88, 147, 150, 42, 46, 45, 196, 205],
+    [43, 97, 183, 117, 85, 38, 35, 179, 61],
+    [39, 53, 200, 87, 26, 21, 43, 232, 171],
+    [56, 34, 51, 104, 114, 102, 29, 93, 77],
+    [107, 54, 32, 26, 51, 1, 81, 43, 31],
+    [39, 28, 85, 171, 58, 165, 90, 98, 64],
+    [34, 22, 116, 206, 23, 34, 43, 166, 73],
+    [68, 25, 106, 22, 64, 171, 36, 225, 114],
+    [34, 19, 21, 102, 132, 188, 16, 76, 124],
+    [62, 18, 78, 95, 85, 57, 50, 48, 51],
+  ],
+  [
+    [193, 101, 35, 159, 215, 111, 89, 46, 111],
+    [60, 148, 31, 172, 219, 228, 21, 18, 111],
+    [112, 113, 77, 85, 179, 255, 38, 120, 114],
+    [40, 42, 1, 196, 245, 209, 10, 25, 109],
+    [100, 80, 8, 43, 154, 1, 51, 26, 71],
+    [88, 43, 29, 140, 166, 213, 37, 43, 154],
+    [61, 63, 30, 155, 67, 45, 68, 1, 209],
+    [142, 78, 78, 16, 255, 128, 34, 197, 171],
+    [41, 40, 5, 102, 211, 183, 4, 1, 221],
+    [51, 50, 17, 168, 209, 192, 23, 25, 82],
+  ],
+  [
+    [125, 98, 42, 88, 104, 85, 117, 175, 82],
+    [95, 84, 53, 89, 128, 100, 113, 101, 45],
+    [75, 79, 123, 47, 51, 128, 81, 171, 1],
+    [57, 17, 5, 71, 102, 57, 53, 41, 49],
+    [115, 21, 2, 10, 102, 255, 166, 23, 6],
+    [38, 33, 13, 121, 57, 73, 26, 1, 85],
+    [41, 10, 67, 138, 77, 110, 90, 47, 114],
+    [101, 29, 16, 10, 85, 128, 101, 196, 26],
+    [57, 18, 10, 102, 102, 213, 34, 20, 43],
+    [117, 20, 15, 36, 163, 128, 68, 1, 26],
+  ],
+  [
+    [138, 31, 36, 171, 27, 166, 38, 44, 229],
+    [67, 87, 58, 169, 82, 115, 26, 59, 179],
+    [63, 59, 90, 180, 59, 166, 93, 73, 154],
+    [40, 40, 21, 116, 143, 209, 34, 39, 175],
+    [57, 46, 22, 24, 128, 1, 54, 17, 37],
+    [47, 15, 16, 183, 34, 223, 49, 45, 183],
+    [46, 17, 33, 183, 6, 98, 15, 32, 183],
+    [65, 32, 73, 115, 28, 128, 23, 128, 205],
+    [40, 3, 9, 115, 51, 192, 18, 6, 223],
+    [87, 37, 9, 115, 59, 77, 64, 21, 47],
+  ],
+  [
+    [104, 55, 44, 218, 9, 54, 53, 130, 226],
+    [64, 90, 70, 205, 40, 41, 23, 26, 57],
+    [54, 57, 112, 184, 5, 41, 38, 166, 213],
+    [30, 34, 26, 133, 152, 116, 10, 32, 134],
+    [75, 32, 12, 51, 192, 255, 160, 43, 51],
+    [39, 19, 53, 221, 26, 114, 32, 73, 255],
+    [31, 9, 65, 234, 2, 15, 1, 118, 73],
+    [88, 31, 35, 67, 102, 85, 55, 186, 85],
+    [56, 21, 23, 111, 59, 205, 45, 37, 192],
+    [55, 38, 70, 124, 73, 102, 1, 34, 98],
+  ],
+  [
+    [102, 61, 71, 37, 34, 53, 31, 243, 192],
+    [69, 60, 71, 38, 73, 119, 28, 222, 37],
+    [68, 45, 128, 34, 1, 47, 11, 245, 171],
+    [62, 17, 19, 70, 146, 85, 55, 62, 70],
+    [75, 15, 9, 9, 64, 255, 184, 119, 16],
+    [37, 43, 37, 154, 100, 163, 85, 160, 1],
+    [63, 9, 92, 136, 28, 64, 32, 201, 85],
+    [86, 6, 28, 5, 64, 255, 25, 248, 1],
+    [56, 8, 17, 132, 137, 255, 55, 116, 128],
+    [58, 15, 20, 82, 135, 57, 26, 121, 40],
+  ],
+  [
+    [164, 50, 31, 137, 154, 133, 25, 35, 218],
+    [51, 103, 44, 131, 131, 123, 31, 6, 158],
+    [86, 40, 64, 135, 148, 224, 45, 183, 128],
+    [22, 26, 17, 131, 240, 154, 14, 1, 209],
+    [83, 12, 13, 54, 192, 255, 68, 47, 28],
+    [45, 16, 21, 91, 64, 222, 7, 1, 197],
+    [56, 21, 39, 155, 60, 138, 23, 102, 213],
+    [85, 26, 85, 85, 128, 128, 32, 146, 171],
+    [18, 11, 7, 63, 144, 171, 4, 4, 246],
+    [35, 27, 10, 146, 174, 171, 12, 26, 128],
+  ],
+  [
+    [190, 80, 35, 99, 180, 80, 126, 54, 45],
+    [85, 126, 47, 87, 176, 51, 41, 20, 32],
+    [101, 75, 128, 139, 118, 146, 116, 128, 85],
+    [56, 41, 15, 176, 236, 85, 37, 9, 62],
+    [146, 36, 19, 30, 171, 255, 97, 27, 20],
+    [71, 30, 17, 119, 118, 255, 17, 18, 138],
+    [101, 38, 60, 138, 55, 70, 43, 26, 142],
+    [138, 45, 61, 62, 219, 1, 81, 188, 64],
+    [32, 41, 20, 117, 151, 142, 20, 21, 163],
+    [112, 19, 12, 61, 195, 128, 48, 4, 24],
+  ],
+];
+
+// Default token probabilities [type][band][context][node]
+const COEFF_PROBS: number[][][][] = [
+  [
+    [[128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128], [128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128], [128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128]],
+    [[253, 136, 254, 255, 228, 219, 128, 128, 128, 128, 128], [189, 129, 242, 255, 227, 213, 255, 219, 128, 128, 128], [106, 126, 227, 252, 214, 209, 255, 255, 128, 128, 128]],
+    [[1, 98, 248, 255, 236, 226, 255, 255, 128, 128, 128], [181, 133, 238, 254, 221, 234, 255, 154, 128, 128, 128], [78, 134, 202, 247, 198, 180, 255, 219, 128, 128, 128]],
+    [[1, 185, 249, 255, 243, 255, 128, 128, 128, 128, 128], [184, 150, 247, 255, 236, 224, 128, 128, 128, 128, 128], [77, 110, 216, 255, 236, 230, 128, 128, 128, 128, 128]],
+    [[1, 101, 251, 255, 241, 255, 128, 128, 128, 128, 128], [170, 139, 241, 252, 236, 209, 255, 255, 128, 128, 128], [37, 116, 196, 243, 228, 255, 255, 255, 128, 128, 128]],
+    [[1, 204, 254, 255, 245, 255, 128, 128, 128, 128, 128], [207, 160, 250, 255, 238, 128, 128, 128, 128, 128, 128], [102, 103, 231, 255, 211, 171, 128, 128, 128, 128, 128]],
+    [[1, 152, 252, 255, 240, 255, 128, 128, 128, 128, 128], [177, 135, 243, 255, 234, 225, 128, 128, 128, 128, 128], [80, 129, 211, 255, 194, 224, 128, 128, 128, 128, 128]],
+    [[1, 1, 255, 128, 128, 128, 128, 128, 128, 128, 128], [246, 1, 255, 128, 128, 128, 128, 128, 128, 128, 128], [255, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128]],
+  ],
+  [
+    [[198, 35, 237, 223, 193, 187, 162, 160, 145, 155, 62], [131, 45, 198, 221, 172, 176, 220, 157, 252, 221, 1], [68, 47, 146, 208, 149, 167, 221, 162, 255, 223, 128]],
+    [[1, 149, 241, 255, 221, 224, 255, 255, 128, 128, 128], [184, 141, 234, 253, 222, 220, 255, 199, 128, 128, 128], [81, 99, 181, 242, 176, 190, 249, 202, 255, 255, 128]],
+    [[1, 129, 232, 253, 214, 197, 242, 196, 255, 255, 128], [99, 121, 210, 250, 201, 198, 255, 202, 128, 128, 128], [23, 91, 163, 242, 170, 187, 247, 210, 255, 255, 128]],
+    [[1, 200, 246, 255, 234, 255, 128, 128, 128, 128, 128], [109, 178, 241, 255, 231, 245, 255, 255, 128, 128, 128], [44, 130, 201, 253, 205, 192, 255, 255, 128, 128, 128]],
+    [[1, 132, 239, 251, 219, 209, 255, 165, 128, 128, 128], [94, 136, 225, 251, 218, 190, 255, 255, 128, 128, 128], [22, 100, 174, 245, 186, 161, 255, 199, 128, 128, 128]],
+    [[1, 182, 249, 255, 232, 235, 128, 128, 128, 128, 128], [124, 143, 241, 255, 227, 234, 128, 128, 128, 128, 128], [35, 77, 181, 251, 193, 211, 255, 205, 128, 128, 128]],
+    [[1, 157, 247, 255, 236, 231, 255, 255, 128, 128, 128], [121, 141, 235, 255, 225, 227, 255, 255, 128, 128, 128], [45, 99, 188, 251, 195, 217, 255, 224, 128, 128, 128]],
+    [[1, 1, 251, 255, 213, 255, 128, 128, 128, 128, 128], [203, 1, 248, 255, 255, 128, 128, 128, 128, 128, 128], [137, 1, 177, 255, 224, 255, 128, 128, 128, 128, 128]],
+  ],
+  [
+    [[253, 9, 248, 251, 207, 208, 255, 192, 128, 128, 128], [175, 13, 224, 243, 193, 185, 249, 198, 255, 255, 128], [73, 17, 171, 221, 161, 179, 236, 167, 255, 234, 128]],
+    [[1, 95, 247, 253, 212, 183, 255, 255, 128, 128, 128], [239, 90, 244, 250, 211, 209, 255, 255, 128, 128, 128], [155, 77, 195, 248, 188, 195, 255, 255, 128, 128, 128]],
+    [[1, 24, 239, 251, 218, 219, 255, 205, 128, 128, 128], [201, 51, 219, 255, 196, 186, 128, 128, 128, 128, 128], [69, 46, 190, 239, 201, 218, 255, 228, 128, 128, 128]],
+    [[1, 191, 251, 255, 255, 128, 128, 128, 128, 128, 128], [223, 165, 249, 255, 213, 255, 128, 128, 128, 128, 128], [141, 124, 248, 255, 255, 128, 128, 128, 128, 128, 128]],
+    [[1, 16, 248, 255, 255, 128, 128, 128, 128, 128, 128], [190, 36, 230, 255, 236, 255, 128, 128, 128, 128, 128], [149, 1, 255, 128, 128, 128, 128, 128, 128, 128, 128]],
+    [[1, 226, 255, 128, 128, 128, 128, 128, 128, 128, 128], [247, 192, 255, 128, 128, 128, 128, 128, 128, 128, 128], [240, 128, 255, 128, 128, 128, 128, 128, 128, 128, 128]],
+    [[1, 134, 252, 255, 255, 128, 128, 128, 128, 128, 128], [213, 62, 250, 255, 255, 128, 128, 128, 128, 128, 128], [55, 93, 255, 128, 128, 128, 128, 128, 128, 128, 128]],
+    [[128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128], [128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128], [128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128]],
+  ],
+  [
+    [[202, 24, 213, 235, 186, 191, 220, 160, 240, 175, 255], [126, 38, 182, 232, 169, 184, 228, 174, 255, 187, 128], [61, 46, 138, 219, 151, 178, 240, 170, 255, 216, 128]],
+    [[1, 112, 230, 250, 199, 191, 247, 159, 255, 255, 128], [166, 109, 228, 252, 211, 215, 255, 174, 128, 128, 128], [39, 77, 162, 232, 172, 180, 245, 178, 255, 255, 128]],
+    [[1, 52, 220, 246, 198, 199, 249, 220, 255, 255, 128], [124, 74, 191, 243, 183, 193, 250, 221, 255, 255, 128], [24, 71, 130, 219, 154, 170, 243, 182, 255, 255, 128]],
+    [[1, 182, 225, 249, 219, 240, 255, 224, 128, 128, 128], [149, 150, 226, 252, 216, 205, 255, 171, 128, 128, 128], [28, 108, 170, 242, 183, 194, 254, 223, 255, 255, 128]],
+    [[1, 81, 230, 252, 204, 203, 255, 192, 128, 128, 128], [123, 102, 209, 247, 188, 196, 255, 233, 128, 128, 128], [20, 95, 153, 243, 164, 173, 255, 203, 128, 128, 128]],
+    [[1, 222, 248, 255, 216, 213, 128, 128, 128, 128, 128], [168, 175, 246, 252, 235, 205, 255, 255, 128, 128, 128], [47, 116, 215, 255, 211, 212, 255, 255, 128, 128, 128]],
+    [[1, 121, 236, 253, 212, 214, 255, 255, 128, 128, 128], [141, 84, 213, 252, 201, 202, 255, 219, 128, 128, 128], [42, 80, 160, 240, 162, 185, 255, 205, 128, 128, 128]],
+    [[1, 1, 255, 128, 128, 128, 128, 128, 128, 128, 128], [244, 1, 255, 128, 128, 128, 128, 128, 128, 128, 128], [238, 1, 255, 128, 128, 128, 128, 128, 128, 128, 128]],
+  ],
+];
+
+// Probability that each token probability is updated in the frame header
+const COEFF_UPDATE_PROBS: number[][][][] = [
+  [
+    [[255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[176, 246, 255, 255, 255, 255, 255, 255, 255, 255, 255], [223, 241, 252, 255, 255, 255, 255, 255, 255, 255, 255], [249, 253, 253, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 244, 252, 255, 255, 255, 255, 255, 255, 255, 255], [234, 254, 254, 255, 255, 255, 255, 255, 255, 255, 255], [253, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 246, 254, 255, 255, 255, 255, 255, 255, 255, 255], [239, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255], [254, 255, 254, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 248, 254, 255, 255, 255, 255, 255, 255, 255, 255], [251, 255, 254, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255], [251, 254, 254, 255, 255, 255, 255, 255, 255, 255, 255], [254, 255, 254, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 254, 253, 255, 254, 255, 255, 255, 255, 255, 255], [250, 255, 254, 255, 254, 255, 255, 255, 255, 255, 255], [254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255]],
+  ],
+  [
+    [[217, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [225, 252, 241, 253, 255, 255, 254, 255, 255, 255, 255], [234, 250, 241, 250, 253, 255, 253, 254, 255, 255, 255]],
+    [[255, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255], [223, 254, 254, 255, 255, 255, 255, 255, 255, 255, 255], [238, 253, 254, 254, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 248, 254, 255, 255, 255, 255, 255, 255, 255, 255], [249, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 253, 255, 255, 255, 255, 255, 255, 255, 255, 255], [247, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255], [252, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 254, 254, 255, 255, 255, 255, 255, 255, 255, 255], [253, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 254, 253, 255, 255, 255, 255, 255, 255, 255, 255], [250, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255]],
+  ],
+  [
+    [[186, 251, 250, 255, 255, 255, 255, 255, 255, 255, 255], [234, 251, 244, 254, 255, 255, 255, 255, 255, 255, 255], [251, 251, 243, 253, 254, 255, 254, 255, 255, 255, 255]],
+    [[255, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255], [236, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255], [251, 253, 253, 254, 254, 255, 255, 255, 255, 255, 255]],
+    [[255, 254, 254, 255, 255, 255, 255, 255, 255, 255, 255], [254, 254, 254, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255], [254, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255], [254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255]],
+  ],
+  [
+    [[248, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [250, 254, 252, 254, 255, 255, 255, 255, 255, 255, 255], [248, 254, 249, 253, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 253, 253, 255, 255, 255, 255, 255, 255, 255, 255], [246, 253, 253, 255, 255, 255, 255, 255, 255, 255, 255], [252, 254, 251, 254, 254, 255, 255, 255, 255, 255, 255]],
+    [[255, 254, 252, 255, 255, 255, 255, 255, 255, 255, 255], [248, 254, 253, 255, 255, 255, 255, 255, 255, 255, 255], [253, 255, 254, 254, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 251, 254, 255, 255, 255, 255, 255, 255, 255, 255], [245, 251, 254, 255, 255, 255, 255, 255, 255, 255, 255], [253, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 251, 253, 255, 255, 255, 255, 255, 255, 255, 255], [252, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255], [255, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 252, 255, 255, 255, 255, 255, 255, 255, 255, 255], [249, 255, 254, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 254, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 255, 253, 255, 255, 255, 255, 255, 255, 255, 255], [250, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255]],
+    [[255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255], [255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255]],
+  ],
+];
+
+/**
+ * Boolean entropy decoder (RFC 6386 section 7)
+ */
+class BoolDecoder {
+  private value: number;
+  private range = 255;
+  private bitCount = 0;
+  private position: number;
+
+  constructor(private readonly data: Uint8Array, start: number, private readonly end: number) {
+    this.position = start;
+    this.value = (this.nextByte() << 8) | this.nextByte();
+  }
+
+  private nextByte(): number {
+    return this.position < this.end ? this.data[this.position++] : 0;
+  }
+
+  readBool(probability: number): number {
+    const split = 1 + (((this.range - 1) * probability) >> 8);
+    const bigSplit = split << 8;
+    let bit: number;
+    if (this.value >= bigSplit) {
+      bit = 1;
+      this.range -= split;
+      this.value -= bigSplit;
+    } else {
+      bit = 0;
+      this.range = split;
+    }
+    while (this.range < 128) {
+      this.value <<= 1;
+      this.range <<= 1;
+      if (++this.bitCount === 8) {
+        this.bitCount = 0;
+        this.value |= this.nextByte();
+      }
+    }
+    return bit;
+  }
+
+  readLiteral(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      value = (value << 1) | this.readBool(128);
+    }
+    return value;
+  }
+
+  readSigned(bits: number): number {
+    const value = this.readLiteral(bits);
+    return this.readBool(128) ? -value : value;
+  }
+
+  readOptionalSigned(bits: number): number {
+    return this.readBool(128) ? this.readSigned(bits) : 0;
+  }
+}
+
+interface QuantMatrix {
+  y1: [number, number];
+  y2: [number, number];
+  uv: [number, number];
+}
+
+interface FilterInfo {
+  limit: number;
+  innerLevel: number;
+  hevThreshold: number;
+}
+
+interface MacroblockInfo {
+  isI4x4: boolean;
+  segment: number;
+  hasCoefficients: boolean;
+}
+
+// Work buffer: stride 32, one border row above, one border column to the left
+const BPS = 32;
+const Y_OFFSET = BPS + 8;
+const U_OFFSET = Y_OFFSET + BPS * 16 + BPS;
+const V_OFFSET = U_OFFSET + 16;
+
+function clip8(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : value;
+}
+
+function avg2(a: number, b: number): number {
+  return (a + b + 1) >> 1;
+}
+
+function avg3(a: number, b: number, c: number): number {
+  return (a + 2 * b + c + 2) >> 2;
+}
+
+function mul1(a: number): number {
+  return ((a * 20091) >> 16) + a;
+}
+
+function mul2(a: number): number {
+  return (a * 35468) >> 16;
+}
+
+/**
+ * Inverse DCT of one 4x4 block, added onto the prediction in place
+ */
+function inverseTransform(coeffs: Int16Array, offset: number, dst: Uint8Array, dstOffset: number): void {
+  const tmp = new Int32Array(16);
+  for (let i = 0; i < 4; i++) {
+    const in0 = coeffs[offset + i];
+    const in4 = coeffs[offset + 4 + i];
+    const in8 = coeffs[offset + 8 + i];
+    const in12 = coeffs[offset + 12 + i];
+    const a = in0 + in8;
+    const b = in0 - in8;
+    const c = mul2(in4) - mul1(in12);
+    const d = mul1(in4) + mul2(in12);
+    tmp[i * 4] = a + d;
+    tmp[i * 4 + 1] = b + c;
+    tmp[i * 4 + 2] = b - c;
+    tmp[i * 4 + 3] = a - d;
+  }
+  for (let i = 0; i < 4; i++) {
+    const dc = tmp[i] + 4;
+    const a = dc + tmp[8 + i];
+    const b = dc - tmp[8 + i];
+    const c = mul2(tmp[4 + i]) - mul1(tmp[12 + i]);
+    const d = mul1(tmp[4 + i]) + mul2(tmp[12 + i]);
+    const row = dstOffset + i * BPS;
+    dst[row] = clip8(dst[row] + ((a + d) >> 3));
+    dst[row + 1] = clip8(dst[row + 1] + ((b + c) >> 3));
+    dst[row + 2] = clip8(dst[row + 2] + ((b - c) >> 3));
+    dst[row + 3] = clip8(dst[row + 3] + ((a - d) >> 3));
+  }
+}
+
+/**
+ * Inverse Walsh-Hadamard transform of the luma DC block into each sub-block's DC
+ */
+function inverseWht(input: Int16Array, coeffs: Int16Array): void {
+  const tmp = new Int32Array(16);
+  for (let i = 0; i < 4; i++) {
+    const a0 = input[i] + input[12 + i];
+    const a1 = input[4 + i] + input[8 + i];
+    const a2 = input[4 + i] - input[8 + i];
+    const a3 = input[i] - input[12 + i];
+    tmp[i] = a0 + a1;
+    tmp[8 + i] = a0 - a1;
+    tmp[4 + i] = a3 + a2;
+    tmp[12 + i] = a3 - a2;
+  }
+  for (let i = 0; i < 4; i++) {
+    const dc = tmp[i * 4] + 3;
+    const a0 = dc + tmp[i * 4 + 3];
+    const a1 = tmp[i * 4 + 1] + tmp[i * 4 + 2];
+    const a2 = tmp[i * 4 + 1] - tmp[i * 4 + 2];
+    const a3 = dc - tmp[i * 4 + 3];
+    coeffs[(i * 4) * 16] = (a0 + a1) >> 3;
+    coeffs[(i * 4 + 1) * 16] = (a3 + a2) >> 3;
+    coeffs[(i * 4 + 2) * 16] = (a0 - a1) >> 3;
+    coeffs[(i * 4 + 3) * 16] = (a3 - a2) >> 3;
+  }
+}
+
+/**
+ * Whole-block prediction for 16x16 luma (size 16) or 8x8 chroma (size 8)
+ */
+function predictBlock(buf: Uint8Array, offset: number, size: number, mode: number, hasTop: boolean, hasLeft: boolean): void {
+  const top = offset - BPS;
+  switch (mode) {
+    case DC_PRED: {
+      const shift = size === 16 ? 4 : 3;
+      let sum = 0;
+      let dc = 128;
+      if (hasTop && hasLeft) {
+        for (let i = 0; i < size; i++) sum += buf[top + i] + buf[offset + i * BPS - 1];
+        dc = (sum + size) >> (shift + 1);
+      } else if (hasTop) {
+        for (let i = 0; i < size; i++) sum += buf[top + i];
+        dc = (sum + (size >> 1)) >> shift;
+      } else if (hasLeft) {
+        for (let i = 0; i < size; i++) sum += buf[offset + i * BPS - 1];
+        dc = (sum + (size >> 1)) >> shift;
+      }
+      for (let y = 0; y < size; y++) buf.fill(dc, offset + y * BPS, offset + y * BPS + size);
+      break;
+    }
+    case V_PRED:
+      for (let y = 0; y < size; y++) buf.copyWithin(offset + y * BPS, top, top + size);
+      break;
+    case H_PRED:
+      for (let y = 0; y < size; y++) {
+        buf.fill(buf[offset + y * BPS - 1], offset + y * BPS, offset + y * BPS + size);
+      }
+      break;
+    case TM_PRED:
+      trueMotion(buf, offset, size);
+      break;
+  }
+}
+
+function trueMotion(buf: Uint8Array, offset: number, size: number): void {
+  const top = offset - BPS;
+  const topLeft = buf[top - 1];
+  for (let y = 0; y < size; y++) {
+    const left = buf[offset + y * BPS - 1];
+    for (let x = 0; x < size; x++) {
+      buf[offset + y * BPS + x] = clip8(left + buf[top + x] - topLeft);
+    }
+  }
+}
+
+/**
+ * 4x4 sub-block prediction (RFC 6386 section 12.3)
+ */
+function predictSubblock(buf: Uint8Array, offset: number, mode: number): void {
+  const at = (x: number, y: number) => offset + x + y * BPS;
+  const set = (value: number, ...positions: Array<[number, number]>) => {
+    for (const [x, y] of positions) buf[at(x, y)] = value;
+  };
+  const top = (i: number) => buf[offset - BPS + i];
+  const left = (i: number) => buf[offset - 1 + i * BPS];
+  const X = buf[offset - BPS - 1];
+
+  switch (mode) {
+    case DC_PRED: {
+      let dc = 4;
+      for (let i = 0; i < 4; i++) dc += top(i) + left(i);
+      dc >>= 3;
+      for (let y = 0; y < 4; y++) buf.fill(dc, at(0, y), at(4, y));
+      break;
+    }
+    case TM_PRED:
+      trueMotion(buf, offset, 4);
+      break;
+    case V_PRED: {
+      const values = [avg3(X, top(0), top(1)), avg3(top(0), top(1), top(2)), avg3(top(1), top(2), top(3)), avg3(top(2), top(3), top(4))];
+      for (let y = 0; y < 4; y++) buf.set(values, at(0, y));
+      break;
+    }
+    case H_PRED: {
+      const [I, J, K, L] = [left(0), left(1), left(2), left(3)];
+      const values = [avg3(X, I, J), avg3(I, J, K), avg3(J, K, L), avg3(K, L, L)];
+      for (let y = 0; y < 4; y++) buf.fill(values[y], at(0, y), at(4, y));
+      break;
+    }
+    case B_RD_PRED: {
+      const [I, J, K, L] = [left(0), left(1), left(2), left(3)];
+      const [A, B, C, D] = [top(0), top(1), top(2), top(3)];
+      set(avg3(J, K, L), [0, 3]);
+      set(avg3(I, J, K), [1, 3], [0, 2]);
+      set(avg3(X, I, J), [2, 3], [1, 2], [0, 1]);
+      set(avg3(A, X, I), [3, 3], [2, 2], [1, 1], [0, 0]);
+      set(avg3(B, A, X), [3, 2], [2, 1], [1, 0]);
+      set(avg3(C, B, A), [3, 1], [2, 0]);
+      set(avg3(D, C, B), [3, 0]);
+      break;
+    }
+    case B_LD_PRED: {
+      const [A, B, C, D, E, F, G, H] = [0, 1, 2, 3, 4, 5, 6, 7].map(top);
+      set(avg3(A, B, C), [0, 0]);
+      set(avg3(B, C, D), [1, 0], [0, 1]);
+      set(avg3(C, D, E), [2, 0], [1, 1], [0, 2]);
+      set(avg3(D, E, F), [3, 0], [2, 1], [1, 2], [0, 3]);
+      set(avg3(E, F, G), [3, 1], [2, 2], [1, 3]);
+      set(avg3(F, G, H), [3, 2], [2, 3]);
+      set(avg3(G, H, H), [3, 3]);
+      break;
+    }
+    case B_VR_PRED: {
+      const [I, J, K] = [left(0), left(1), left(2)];
+      const [A, B, C, D] = [top(0), top(1), top(2), top(3)];
+      set(avg2(X, A), [0, 0], [1, 2]);
+      set(avg2(A, B), [1, 0], [2, 2]);
+      set(avg2(B, C), [2, 0], [3, 2]);
+      set(avg2(C, D), [3, 0]);
+      set(avg3(K, J, I), [0, 3]);
+      set(avg3(J, I, X), [0, 2]);
+      set(avg3(I, X, A), [0, 1], [1, 3]);
+      set(avg3(X, A, B), [1, 1], [2, 3]);
+      set(avg3(A, B, C), [2, 1], [3, 3]);
+      set(avg3(B, C, D), [3, 1]);
+      break;
+    }
+    case B_VL_PRED: {
+      const [A, B, C, D, E, F, G, H] = [0, 1, 2, 3, 4, 5, 6, 7].map(top);
+      set(avg2(A, B), [0, 0]);
+      set(avg2(B, C), [1, 0], [0, 2]);
+      set(avg2(C, D), [2, 0], [1, 2]);
+      set(avg2(D, E), [3, 0], [2, 2]);
+      set(avg3(A, B, C), [0, 1]);
+      set(avg3(B, C, D), [1, 1], [0, 3]);
+      set(avg3(C, D, E), [2, 1], [1, 3]);
+      set(avg3(D, E, F), [3, 1], [2, 3]);
+      set(avg3(E, F, G), [3, 2]);
+      set(avg3(F, G, H), [3, 3]);
+      break;
+    }
+    case B_HD_PRED: {
+      const [I, J, K, L] = [left(0), left(1), left(2), left(3)];
+      const [A, B, C] = [top(0), top(1), top(2)];
+      set(avg2(I, X), [0, 0], [2, 1]);
+      set(avg2(J, I), [0, 1], [2, 2]);
+      set(avg2(K, J), [0, 2], [2, 3]);
+      set(avg2(L, K), [0, 3]);
+      set(avg3(A, B, C), [3, 0]);
+      set(avg3(X, A, B), [2, 0]);
+      set(avg3(I, X, A), [1, 0], [3, 1]);
+      set(avg3(J, I, X), [1, 1], [3, 2]);
+      set(avg3(K, J, I), [1, 2], [3, 3]);
+      set(avg3(L, K, J), [1, 3]);
+      break;
+    }
+    case B_HU_PRED: {
+      const [I, J, K, L] = [left(0), left(1), left(2), left(3)];
+      set(avg2(I, J), [0, 0]);
+      set(avg2(J, K), [2, 0], [0, 1]);
+      set(avg2(K, L), [2, 1], [0, 2]);
+      set(avg3(I, J, K), [1, 0]);
+      set(avg3(J, K, L), [3, 0], [1, 1]);
+      set(avg3(K, L, L), [3, 1], [1, 2]);
+      set(L, [3, 2], [2, 2], [0, 3], [1, 3], [2, 3], [3, 3]);
+      break;
+    }
+  }
+}
+
+// Loop filter primitives (RFC 6386 section 15)
+
+function sclip1(value: number): number {
+  return value < -128 ? -128 : value > 127 ? 127 : value;
+}
+
+function sclip2(value: number): number {
+  return value < -16 ? -16 : value > 15 ? 15 : value;
+}
+
+function needsFilter(p: Uint8Array, i: number, step: number, threshold: number): boolean {
+  return 4 * Math.abs(p[i - step] - p[i]) + Math.abs(p[i - 2 * step] - p[i + step]) <= threshold;
+}
+
+function needsFilter2(p: Uint8Array, i: number, step: number, threshold: number, interior: number): boolean {
+  const p3 = p[i - 4 * step], p2 = p[i - 3 * step], p1 = p[i - 2 * step], p0 = p[i - step];
+  const q0 = p[i], q1 = p[i + step], q2 = p[i + 2 * step], q3 = p[i + 3 * step];
+  if (4 * Math.abs(p0 - q0) + Math.abs(p1 - q1) > threshold) return false;
+  return Math.abs(p3 - p2) <= interior && Math.abs(p2 - p1) <= interior &&
+    Math.abs(p1 - p0) <= interior && Math.abs(q3 - q2) <= interior &&
+    Math.abs(q2 - q1) <= interior && Math.abs(q1 - q0) <= interior;
+}
+
+function highEdgeVariance(p: Uint8Array, i: number, step: number, threshold: number): boolean {
+  return Math.abs(p[i - 2 * step] - p[i - step]) > threshold || Math.abs(p[i + step] - p[i]) > threshold;
+}
+
+function filter2(p: Uint8Array, i: number, step: number): void {
+  const p1 = p[i - 2 * step], p0 = p[i - step], q0 = p[i], q1 = p[i + step];
+  const a = 3 * (q0 - p0) + sclip1(p1 - q1);
+  const a1 = sclip2((a + 4) >> 3);
+  const a2 = sclip2((a + 3) >> 3);
+  p[i - step] = clip8(p0 + a2);
+  p[i] = clip8(q0 - a1);
+}
+
+function filter4(p: Uint8Array, i: number, step: number): void {
+  const p1 = p[i - 2 * step], p0 = p[i - step], q0 = p[i], q1 = p[i + step];
+  const a = 3 * (q0 - p0);
+  const a1 = sclip2((a + 4) >> 3);
+  const a2 = sclip2((a + 3) >> 3);
+  const a3 = (a1 + 1) >> 1;
+  p[i - 2 * step] = clip8(p1 + a3);
+  p[i - step] = clip8(p0 + a2);
+  p[i] = clip8(q0 - a1);
+  p[i + step] = clip8(q1 - a3);
+}
+
+function filter6(p: Uint8Array, i: number, step: number): void {
+  const p2 = p[i - 3 * step], p1 = p[i - 2 * step], p0 = p[i - step];
+  const q0 = p[i], q1 = p[i + step], q2 = p[i + 2 * step];
+  const a = sclip1(3 * (q0 - p0) + sclip1(p1 - q1));
+  const a1 = (27 * a + 63) >> 7;
+  const a2 = (18 * a + 63) >> 7;
+  const a3 = (9 * a + 63) >> 7;
+  p[i - 3 * step] = clip8(p2 + a3);
+  p[i - 2 * step] = clip8(p1 + a2);
+  p[i - step] = clip8(p0 + a1);
+  p[i] = clip8(q0 - a1);
+  p[i + step] = clip8(q1 - a2);
+  p[i + 2 * step] = clip8(q2 - a3);
+}
+
+/**
+ * Filter `size` pixels along one edge. `step` crosses the edge, `advance` moves along it.
+ */
+function filterEdge(
+  p: Uint8Array, start: number, step: number, advance: number, size: number,
+  limit: number, interior: number, hevThreshold: number, macroblockEdge: boolean
+): void {
+  const threshold = 2 * limit + 1;
+  for (let k = 0, i = start; k < size; k++, i += advance) {
+    if (!needsFilter2(p, i, step, threshold, interior)) continue;
+    if (highEdgeVariance(p, i, step, hevThreshold)) {
+      filter2(p, i, step);
+    } else if (macroblockEdge) {
+      filter6(p, i, step);
+    } else {
+      filter4(p, i, step);
+    }
+  }
+}
+
+function simpleFilterEdge(p: Uint8Array, start: number, step: number, advance: number, limit: number): void {
+  const threshold = 2 * limit + 1;
+  for (let k = 0, i = start; k < 16; k++, i += advance) {
+    if (needsFilter(p, i, step, threshold)) filter2(p, i, step);
+  }
+}
+
+interface Planes {
+  y: Uint8Array;
+  u: Uint8Array;
+  v: Uint8Array;
+  yStride: number;
+  uvStride: number;
+}
+
+/**
+ * Decode a VP8 chunk payload (key frames only) to RGBA
+ */
+export function decodeVp8(data: Uint8Array): { width: number; height: number; data: Uint8Array } {
+  if (data.length < 10) {
+    throw new ImageDecodeError('WebP lossy data is truncated');
+  }
+  const frameTag = data[0] | (data[1] << 8) | (data[2] << 16);
+  if (frameTag & 1) {
+    throw new ImageDecodeError('WebP lossy frame is not a key frame');
+  }
+  const firstPartitionSize = frameTag >> 5;
+  if (data[3] !== 0x9d || data[4] !== 0x01 || data[5] !== 0x2a) {
+    throw new ImageDecodeError('Invalid WebP lossy start code');
+  }
+  const width = (data[6] | (data[7] << 8)) & 0x3fff;
+  const height = (data[8] | (data[9] << 8)) & 0x3fff;
+  if (!width || !height) {
+    throw new ImageDecodeError('WebP lossy frame has zero dimensions');
+  }
+
+  const firstPartitionEnd = 10 + firstPartitionSize;
+  if (firstPartitionEnd > data.length) {
+    throw new ImageDecodeError('WebP lossy data is truncated');
+  }
+  const br = new BoolDecoder(data, 10, firstPartitionEnd);
+  br.readBool(128); // color space
+  br.readBool(128); // clamping type
+
+  // Segmentation
+  const useSegments = br.readBool(128) === 1;
+  let updateSegmentMap = false;
+  let absoluteDeltas = false;
+  const segmentQuant = [0, 0, 0, 0];
+  const segmentFilter = [0, 0, 0, 0];
+  const segmentProbs = [255, 255, 255];
+  if (useSegments) {
+    updateSegmentMap = br.readBool(128) === 1;
+    if (br.readBool(128)) {
+      absoluteDeltas = br.readBool(128) === 1;
+      for (let s = 0; s < 4; s++) segmentQuant[s] = br.readOptionalSigned(7);
+      for (let s = 0; s < 4; s++) segmentFilter[s] = br.readOptionalSigned(6);
+    }
+    if (updateSegmentMap) {
+      for (let i = 0; i < 3; i++) segmentProbs[i] = br.readBool(128) ? br.readLiteral(8) : 255;
+    }
+  }
+
+  // Loop filter header
+  const simpleFilter = br.readBool(128) === 1;
+  const filterLevel = br.readLiteral(6);
+  const sharpness = br.readLiteral(3);
+  const useLfDelta = br.readBool(128) === 1;
+  const refLfDelta = [0, 0, 0, 0];
+  const modeLfDelta = [0, 0, 0, 0];
+  if (useLfDelta && br.readBool(128)) {
+    for (let i = 0; i < 4; i++) if (br.readBool(128)) refLfDelta[i] = br.readSigned(6);
+    for (let i = 0; i < 4; i++) if (br.readBool(128)) modeLfDelta[i] = br.readSigned(6);
+  }
+
+  // Token partitions
+  const partitionCount = 1 << br.readLiteral(2);
+  const partitions: BoolDecoder[] = [];
+  {
+    const sizesStart = firstPartitionEnd;
+    let partitionStart = sizesStart + 3 * (partitionCount - 1);
+    if (partitionStart > data.length) {
+      throw new ImageDecodeError('WebP lossy partitions are truncated');
+    }
+    for (let p = 0; p < partitionCount; p++) {
+      let partitionEnd = data.length;
+      if (p < partitionCount - 1) {
+        const sizeOffset = sizesStart + 3 * p;
+        partitionEnd = Math.min(data.length, partitionStart + (data[sizeOffset] | (data[sizeOffset + 1] << 8) | (data[sizeOffset + 2] << 16)));
+      }
+      partitions.push(new BoolDecoder(data, partitionStart, partitionEnd));
+      partitionStart = partitionEnd;
+    }
+  }
+
+  // Quantizers
+  const baseQ = br.readLiteral(7);
+  const dqY1Dc = br.readOptionalSigned(4);
+  const dqY2Dc = br.readOptionalSigned(4);
+  const dqY2Ac = br.readOptionalSigned(4);
+  const dqUvDc = br.readOptionalSigned(4);
+  const dqUvAc = br.readOptionalSigned(4);
+  const clip = (value: number, max: number) => (value < 0 ? 0 : value > max ? max : value);
+  const quant: QuantMatrix[] = [];
+  for (let s = 0; s < 4; s++) {
+    let q = baseQ;
+    if (useSegments) {
+      q = segmentQuant[s] + (absoluteDeltas ? 0 : baseQ);
+    }
+    quant.push({
+      y1: [DC_TABLE[clip(q + dqY1Dc, 127)], AC_TABLE[clip(q, 127)]],
+      y2: [DC_TABLE[clip(q + dqY2Dc, 127)] * 2, Math.max(8, (AC_TABLE[clip(q + dqY2Ac, 127)] * 101581) >> 16)],
+      uv: [DC_TABLE[clip(q + dqUvDc, 117)], AC_TABLE[clip(q + dqUvAc, 127)]],
+    });
+  }
+
+  br.readBool(128); // refresh entropy probabilities; irrelevant for a single frame
+
+  const coeffProbs = COEFF_PROBS.map((bands) => bands.map((contexts) => contexts.map((probs) => probs.slice())));
+  for (let t = 0; t < NUM_TYPES; t++) {
+    for (let b = 0; b < NUM_BANDS; b++) {
+      for (let c = 0; c < NUM_CONTEXTS; c++) {
+        for (let p = 0; p < NUM_PROBAS; p++) {
+          if (br.readBool(COEFF_UPDATE_PROBS[t][b][c][p])) {
+            coeffProbs[t][b][c][p] = br.readLiteral(8);
+          }
+        }
+      }
+    }
+  }
+  const useSkipProb = br.readBool(128) === 1;
+  const skipProb = useSkipProb ? br.readLiteral(8) : 0;
+
+  // Filter strengths per segment and per (i16, i4x4)
+  const filterType = filterLevel === 0 ? 0 : simpleFilter ? 1 : 2;
+  const filterInfo: FilterInfo[][] = [];
+  for (let s = 0; s < 4; s++) {
+    let baseLevel = filterLevel;
+    if (useSegments) {
+      baseLevel = segmentFilter[s] + (absoluteDeltas ? 0 : filterLevel);
+    }
+    const perMode: FilterInfo[] = [];
+    for (let i4x4 = 0; i4x4 <= 1; i4x4++) {
+      let level = baseLevel;
+      if (useLfDelta) {
+        level += refLfDelta[0];
+        if (i4x4) level += modeLfDelta[0];
+      }
+      level = clip(level, 63);
+      if (level > 0) {
+        let innerLevel = level;
+        if (sharpness > 0) {
+          innerLevel >>= sharpness > 4 ? 2 : 1;
+          if (innerLevel > 9 - sharpness) innerLevel = 9 - sharpness;
+        }
+        if (innerLevel < 1) innerLevel = 1;
+        perMode.push({
+          limit: 2 * level + innerLevel,
+          innerLevel,
+          hevThreshold: level >= 40 ? 2 : level >= 15 ? 1 : 0,
+        });
+      } else {
+        perMode.push({ limit: 0, innerLevel: 0, hevThreshold: 0 });
+      }
+    }
+    filterInfo.push(perMode);
+  }
+
+  const mbWidth = (width + 15) >> 4;
+  const mbHeight = (height + 15) >> 4;
+  const planes: Planes = {
+    y: new Uint8Array(mbWidth * 16 * mbHeight * 16),
+    u: new Uint8Array(mbWidth * 8 * mbHeight * 8),
+    v: new Uint8Array(mbWidth * 8 * mbHeight * 8),
+    yStride: mbWidth * 16,
+    uvStride: mbWidth * 8,
+  };
+
+  // Per-column context carried between macroblock rows
+  const intraTop = new Uint8Array(mbWidth * 4);
+  const nzTop = new Uint8Array(mbWidth * 9); // 4 luma, 2 u, 2 v, 1 luma DC
+  const yTop = new Uint8Array(mbWidth * 16).fill(127);
+  const uTop = new Uint8Array(mbWidth * 8).fill(127);
+  const vTop = new Uint8Array(mbWidth * 8).fill(127);
+  const macroblocks: MacroblockInfo[] = new Array(mbWidth * mbHeight);
+
+  const buf = new Uint8Array(BPS * 17 + BPS * 9);
+  const coeffs = new Int16Array(384);
+  const dcCoeffs = new Int16Array(16);
+  const intraLeft = new Uint8Array(4);
+  const nzLeft = new Uint8Array(9);
+  const subModes = new Uint8Array(16);
+
+  const readCoefficients = (
+    tr: BoolDecoder, type: number, ctx: number, dq: [number, number], first: number, out: Int16Array, outOffset: number
+  ): number => {
+    const bands = coeffProbs[type];
+    let p = bands[BANDS[first]][ctx];
+    let n = first;
+    while (n < 16) {
+      if (!tr.readBool(p[0])) return n; // end of block
+      while (!tr.readBool(p[1])) {
+        p = bands[BANDS[++n]][0];
+        if (n === 16) return 16;
+      }
+      let value: number;
+      let nextCtx: number;
+      if (!tr.readBool(p[2])) {
+        value = 1;
+        nextCtx = 1;
+      } else {
+        if (!tr.readBool(p[3])) {
+          value = !tr.readBool(p[4]) ? 2 : 3 + tr.readBool(p[5]);
+        } else if (!tr.readBool(p[6])) {
+          value = !tr.readBool(p[7]) ? 5 + tr.readBool(159) : 7 + 2 * tr.readBool(165) + tr.readBool(145);
+        } else {
+          const bit1 = tr.readBool(p[8]);
+          const bit0 = tr.readBool(p[9 + bit1]);
+          const cat = 2 * bit1 + bit0;
+          value = 0;
+          for (const prob of CAT_TABLES[cat]) value = value + value + tr.readBool(prob);
+          value += 3 + (8 << cat);
+        }
+        nextCtx = 2;
+      }
+      const signed = tr.readBool(128) ? -value : value;
+      out[outOffset + ZIGZAG[n]] = signed * dq[n > 0 ? 1 : 0];
+      n++;
+      p = bands[BANDS[n]][nextCtx];
+    }
+    return 16;
+  };
+
+  for (let mbY = 0; mbY < mbHeight; mbY++) {
+    intraLeft.fill(DC_PRED);
+    nzLeft.fill(0);
+    const tokens = partitions[mbY & (partitionCount - 1)];
+
+    for (let mbX = 0; mbX < mbWidth; mbX++) {
+      // Macroblock header from the first partition
+      let segment = 0;
+      if (updateSegmentMap) {
+        segment = !br.readBool(segmentProbs[0]) ? br.readBool(segmentProbs[1]) : 2 + br.readBool(segmentProbs[2]);
+      }
+      const skip = useSkipProb ? br.readBool(skipProb) === 1 : false;
+      const isI4x4 = !br.readBool(145);
+      let yMode = DC_PRED;
+      if (!isI4x4) {
+        yMode = br.readBool(156) ? (br.readBool(128) ? TM_PRED : H_PRED) : (br.readBool(163) ? V_PRED : DC_PRED);
+        intraTop.fill(yMode, mbX * 4, mbX * 4 + 4);
+        intraLeft.fill(yMode);
+      } else {
+        for (let y = 0; y < 4; y++) {
+          for (let x = 0; x < 4; x++) {
+            const probs = BMODE_PROBS[intraTop[mbX * 4 + x]][intraLeft[y]];
+            let i = 0;
+            do {
+              i = BMODE_TREE[i + br.readBool(probs[i >> 1])];
+            } while (i > 0);
+            const mode = -i;
+            subModes[y * 4 + x] = mode;
+            intraTop[mbX * 4 + x] = mode;
+            intraLeft[y] = mode;
+          }
+        }
+      }
+      const uvMode = !br.readBool(142) ? DC_PRED : !br.readBool(114) ? V_PRED : br.readBool(183) ? TM_PRED : H_PRED;
+
+      // Residual coefficients from the token partition
+      coeffs.fill(0);
+      let hasCoefficients = false;
+      const q = quant[segment];
+      const nz = mbX * 9;
+      if (!skip) {
+        let firstCoeff = 0;
+        let yType = 3;
+        if (!isI4x4) {
+          dcCoeffs.fill(0);
+          const ctx = nzTop[nz + 8] + nzLeft[8];
+          const count = readCoefficients(tokens, 1, ctx, q.y2, 0, dcCoeffs, 0);
+          nzTop[nz + 8] = nzLeft[8] = count > 0 ? 1 : 0;
+          inverseWht(dcCoeffs, coeffs);
+          if (count > 0) hasCoefficients = true;
+          firstCoeff = 1;
+          yType = 0;
+        }
+        for (let y = 0; y < 4; y++) {
+          for (let x = 0; x < 4; x++) {
+            const ctx = nzTop[nz + x] + nzLeft[y];
+            const count = readCoefficients(tokens, yType, ctx, q.y1, firstCoeff, coeffs, (y * 4 + x) * 16);
+            const flag = count > firstCoeff ? 1 : 0;
+            nzTop[nz + x] = nzLeft[y] = flag;
+            if (flag) hasCoefficients = true;
+          }
+        }
+        for (let plane = 0; plane < 2; plane++) {
+          for (let y = 0; y < 2; y++) {
+            for (let x = 0; x < 2; x++) {
+              const ctx = nzTop[nz + 4 + plane * 2 + x] + nzLeft[4 + plane * 2 + y];
+              const count = readCoefficients(tokens, 2, ctx, q.uv, 0, coeffs, 256 + plane * 64 + (y * 2 + x) * 16);
+              const flag = count > 0 ? 1 : 0;
+              nzTop[nz + 4 + plane * 2 + x] = nzLeft[4 + plane * 2 + y] = flag;
+              if (flag) hasCoefficients = true;
+            }
+          }
+        }
+      } else {
+        nzTop.fill(0, nz, nz + 8);
+        nzLeft.fill(0, 0, 8);
+        if (!isI4x4) {
+          nzTop[nz + 8] = nzLeft[8] = 0;
+        }
+      }
+      macroblocks[mbY * mbWidth + mbX] = { isI4x4, segment, hasCoefficients };
+
+      // Set up prediction borders in the work buffer
+      if (mbX > 0) {
+        for (let j = -1; j < 16; j++) buf[Y_OFFSET + j * BPS - 1] = buf[Y_OFFSET + j * BPS + 15];
+        for (let j = -1; j < 8; j++) {
+          buf[U_OFFSET + j * BPS - 1] = buf[U_OFFSET + j * BPS + 7];
+          buf[V_OFFSET + j * BPS - 1] = buf[V_OFFSET + j * BPS + 7];
+        }
+      } else {
+        for (let j = 0; j < 16; j++) buf[Y_OFFSET + j * BPS - 1] = 129;
+        for (let j = 0; j < 8; j++) {
+          buf[U_OFFSET + j * BPS - 1] = 129;
+          buf[V_OFFSET + j * BPS - 1] = 129;
+        }
+        const corner = mbY > 0 ? 129 : 127;
+        buf[Y_OFFSET - BPS - 1] = buf[U_OFFSET - BPS - 1] = buf[V_OFFSET - BPS - 1] = corner;
+      }
+      buf.set(yTop.subarray(mbX * 16, mbX * 16 + 16), Y_OFFSET - BPS);
+      buf.set(uTop.subarray(mbX * 8, mbX * 8 + 8), U_OFFSET - BPS);
+      buf.set(vTop.subarray(mbX * 8, mbX * 8 + 8), V_OFFSET - BPS);
+
+      // Luma
+      if (isI4x4) {
+        const topRight = Y_OFFSET - BPS + 16;
+        if (mbY === 0) {
+          buf.fill(127, topRight, topRight + 4);
+        } else if (mbX >= mbWidth - 1) {
+          buf.fill(yTop[mbX * 16 + 15], topRight, topRight + 4);
+        } else {
+          buf.set(yTop.subarray((mbX + 1) * 16, (mbX + 1) * 16 + 4), topRight);
+        }
+        for (let r = 1; r < 4; r++) {
+          buf.copyWithin(topRight + r * 4 * BPS, topRight, topRight + 4);
+        }
+        for (let n = 0; n < 16; n++) {
+          const offset = Y_OFFSET + (n >> 2) * 4 * BPS + (n & 3) * 4;
+          predictSubblock(buf, offset, subModes[n]);
+          inverseTransform(coeffs, n * 16, buf, offset);
+        }
+      } else {
+        predictBlock(buf, Y_OFFSET, 16, yMode, mbY > 0, mbX > 0);
+        for (let n = 0; n < 16; n++) {
+          inverseTransform(coeffs, n * 16, buf, Y_OFFSET + (n >> 2) * 4 * BPS + (n & 3) * 4);
+        }
+      }
+
+      // Chroma
+      predictBlock(buf, U_OFFSET, 8, uvMode, mbY > 0, mbX > 0);
+      predictBlock(buf, V_OFFSET, 8, uvMode, mbY > 0, mbX > 0);
+      for (let n = 0; n < 4; n++) {
+        const offset = (n >> 1) * 4 * BPS + (n & 1) * 4;
+        inverseTransform(coeffs, 256 + n * 16, buf, U_OFFSET + offset);
+        inverseTransform(coeffs, 320 + n * 16, buf, V_OFFSET + offset);
+      }
+
+      // Keep the unfiltered bottom row for the next macroblock row
+      yTop.set(buf.subarray(Y_OFFSET + 15 * BPS, Y_OFFSET + 15 * BPS + 16), mbX * 16);
+      uTop.set(buf.subarray(U_OFFSET + 7 * BPS, U_OFFSET + 7 * BPS + 8), mbX * 8);
+      vTop.set(buf.subarray(V_OFFSET + 7 * BPS, V_OFFSET + 7 * BPS + 8), mbX * 8);
+
+      for (let j = 0; j < 16; j++) {
+        planes.y.set(buf.subarray(Y_OFFSET + j * BPS, Y_OFFSET + j * BPS + 16), (mbY * 16 + j) * planes.yStride + mbX * 16);
+      }
+      for (let j = 0; j < 8; j++) {
+        const target = (mbY * 8 + j) * planes.uvStride + mbX * 8;
+        planes.u.set(buf.subarray(U_OFFSET + j * BPS, U_OFFSET + j * BPS + 8), target);
+        planes.v.set(buf.subarray(V_OFFSET + j * BPS, V_OFFSET + j * BPS + 8), target);
+      }
+    }
+  }
+
+  if (filterType > 0) {
+    applyLoopFilter(planes, macroblocks, mbWidth, mbHeight, filterType === 1, filterInfo);
+  }
+
+  return { width, height, data: yuvToRgba(planes, width, height) };
+}
+
+function applyLoopFilter(
+  planes: Planes, macroblocks: MacroblockInfo[], mbWidth: number, mbHeight: number,
+  simple: boolean, filterInfo: FilterInfo[][]
+): void {
+  const { y, u, v, yStride, uvStride } = planes;
+
+  for (let mbY = 0; mbY < mbHeight; mbY++) {
+    for (let mbX = 0; mbX < mbWidth; mbX++) {
+      const mb = macroblocks[mbY * mbWidth + mbX];
+      const info = filterInfo[mb.segment][mb.isI4x4 ? 1 : 0];
+      if (info.limit === 0) continue;
+      const inner = mb.isI4x4 || mb.hasCoefficients;
+      const yOrigin = mbY * 16 * yStride + mbX * 16;
+      const uvOrigin = mbY * 8 * uvStride + mbX * 8;
+      const { limit, innerLevel, hevThreshold } = info;
+
+      if (simple) {
+        if (mbX > 0) simpleFilterEdge(y, yOrigin, 1, yStride, limit + 4);
+        if (inner) {
+          for (let k = 4; k < 16; k += 4) simpleFilterEdge(y, yOrigin + k, 1, yStride, limit);
+        }
+        if (mbY > 0) simpleFilterEdge(y, yOrigin, yStride, 1, limit + 4);
+        if (inner) {
+          for (let k = 4; k < 16; k += 4) simpleFilterEdge(y, yOrigin + k * yStride, yStride, 1, limit);
+        }
+        continue;
+      }
+
+      if (mbX > 0) {
+        filterEdge(y, yOrigin, 1, yStride, 16, limit + 4, innerLevel, hevThreshold, true);
+        filterEdge(u, uvOrigin, 1, uvStride, 8, limit + 4, innerLevel, hevThreshold, true);
+        filterEdge(v, uvOrigin, 1, uvStride, 8, limit + 4, innerLevel, hevThreshold, true);
+      }
+      if (inner) {
+        for (let k = 4; k < 16; k += 4) filterEdge(y, yOrigin + k, 1, yStride, 16, limit, innerLevel, hevThreshold, false);
+        filterEdge(u, uvOrigin + 4, 1, uvStride, 8, limit, innerLevel, hevThreshold, false);
+        filterEdge(v, uvOrigin + 4, 1, uvStride, 8, limit, innerLevel, hevThreshold, false);
+      }
+      if (mbY > 0) {
+        filterEdge(y, yOrigin, yStride, 1, 16, limit + 4, innerLevel, hevThreshold, true);
+        filterEdge(u, uvOrigin, uvStride, 1, 8, limit + 4, innerLevel, hevThreshold, true);
+        filterEdge(v, uvOrigin, uvStride, 1, 8, limit + 4, innerLevel, hevThreshold, true);
+      }
+      if (inner) {
+        for (let k = 4; k < 16; k += 4) filterEdge(y, yOrigin + k * yStride, yStride, 1, 16, limit, innerLevel, hevThreshold, false);
+        filterEdge(u, uvOrigin + 4 * uvStride, uvStride, 1, 8, limit, innerLevel, hevThreshold, false);
+        filterEdge(v, uvOrigin + 4 * uvStride, uvStride, 1, 8, limit, innerLevel, hevThreshold, false);
+      }
+    }
+  }
+}
+
+// BT.601 limited-range conversion in 14-bit fixed point
+function yuvToRgb(y: number, u: number, v: number, out: Uint8Array, offset: number): void {
+  const yy = (y * 19077) >> 8;
+  out[offset] = clipFixed(yy + ((v * 26149) >> 8) - 14234);
+  out[offset + 1] = clipFixed(yy - ((u * 6419) >> 8) - ((v * 13320) >> 8) + 8708);
+  out[offset + 2] = clipFixed(yy + ((u * 33050) >> 8) - 17685);
+  out[offset + 3] = 255;
+}
+
+function clipFixed(value: number): number {
+  return value < 0 ? 0 : value > 16383 ? 255 : value >> 6;
+}
+
+/**
+ * Convert to RGBA, interpolating chroma between neighbouring samples with
+ * 9:3:3:1 weights exactly as libwebp's default "fancy" upsampler does
+ */
+function yuvToRgba(planes: Planes, width: number, height: number): Uint8Array {
+  const out = new Uint8Array(width * height * 4);
+  const { y: lumaPlane, u, v, yStride, uvStride } = planes;
+  const lastChromaRow = ((height + 1) >> 1) - 1;
+
+  const emit = (row: number, x: number, cu: number, cv: number) => {
+    yuvToRgb(lumaPlane[row * yStride + x], cu, cv, out, (row * width + x) * 4);
+  };
+
+  // Output rows `topRow` and `bottomRow` (-1 when absent) lie between chroma rows `above` and `below`
+  const upsamplePair = (topRow: number, bottomRow: number, above: number, below: number) => {
+    const a = above * uvStride;
+    const b = below * uvStride;
+    let tlU = u[a], tlV = v[a];
+    let lU = u[b], lV = v[b];
+    emit(topRow, 0, (3 * tlU + lU + 2) >> 2, (3 * tlV + lV + 2) >> 2);
+    if (bottomRow >= 0) emit(bottomRow, 0, (3 * lU + tlU + 2) >> 2, (3 * lV + tlV + 2) >> 2);
+
+    const lastPair = (width - 1) >> 1;
+    for (let x = 1; x <= lastPair; x++) {
+      const tU = u[a + x], tV = v[a + x];
+      const cU = u[b + x], cV = v[b + x];
+      const avgU = tlU + tU + lU + cU + 8;
+      const avgV = tlV + tV + lV + cV + 8;
+      const diag12U = (avgU + 2 * (tU + lU)) >> 3;
+      const diag12V = (avgV + 2 * (tV + lV)) >> 3;
+      const diag03U = (avgU + 2 * (tlU + cU)) >> 3;
+      const diag03V = (avgV + 2 * (tlV + cV)) >> 3;
+      emit(topRow, 2 * x - 1, (diag12U + tlU) >> 1, (diag12V + tlV) >> 1);
+      emit(topRow, 2 * x, (diag03U + tU) >> 1, (diag03V + tV) >> 1);
+      if (bottomRow >= 0) {
+        emit(bottomRow, 2 * x - 1, (diag03U + lU) >> 1, (diag03V + lV) >> 1);
+        emit(bottomRow, 2 * x, (diag12U + cU) >> 1, (diag12V + cV) >> 1);
+      }
+      tlU = tU; tlV = tV;
+      lU = cU; lV = cV;
+    }
+    if (!(width & 1)) {
+      emit(topRow, width - 1, (3 * tlU + lU + 2) >> 2, (3 * tlV + lV + 2) >> 2);
+      if (bottomRow >= 0) emit(bottomRow, width - 1, (3 * lU + tlU + 2) >> 2, (3 * lV + tlV + 2) >> 2);
+    }
+  };
+
+  upsamplePair(0, -1, 0, 0);
+  for (let k = 1; 2 * k - 1 < height; k++) {
+    const bottomRow = 2 * k < height ? 2 * k : -1;
+    upsamplePair(2 * k - 1, bottomRow, k - 1, Math.min(k, lastChromaRow));
+  }
+  return out;
+}
@@ -0,0 +1,520 @@
+/**
+ * WebP lossless (VP8L) bitstream decoder
+ * Also decodes the headerless VP8L streams used for compressed ALPH chunks.
+ */
+
+import { ImageDecodeError } from './types';
+
+const NUM_LITERAL_CODES = 256;
+const NUM_LENGTH_CODES = 24;
+const NUM_DISTANCE_CODES = 40;
+const CODE_LENGTH_CODES = 19;
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+// Short backward distances: 0xYX with y = row offset and x = 8 - column offset
+const DISTANCE_MAP = [
+  0x18, 0x07, 0x17, 0x19, 0x28, 0x06, 0x27, 0x29, 0x16, 0x1a,
+  0x26, 0x2a, 0x38, 0x05, 0x37, 0x39, 0x15, 0x1b, 0x36, 0x3a,
+  0x25, 0x2b, 0x48, 0x04, 0x47, 0x49, 0x14, 0x1c, 0x35, 0x3b,
+  0x46, 0x4a, 0x24, 0x2c, 0x58, 0x45, 0x4b, 0x34, 0x3c, 0x03,
+  0x57, 0x59, 0x13, 0x1d, 0x56, 0x5a, 0x23, 0x2d, 0x44, 0x4c,
+  0x55, 0x5b, 0x33, 0x3d, 0x68, 0x02, 0x67, 0x69, 0x12, 0x1e,
+  0x66, 0x6a, 0x22, 0x2e, 0x54, 0x5c, 0x43, 0x4d, 0x65, 0x6b,
+  0x32, 0x3e, 0x78, 0x01, 0x77, 0x79, 0x53, 0x5d, 0x11, 0x1f,
+  0x64, 0x6c, 0x42, 0x4e, 0x76, 0x7a, 0x21, 0x2f, 0x75, 0x7b,
+  0x31, 0x3f, 0x63, 0x6d, 0x52, 0x5e, 0x00, 0x74, 0x7c, 0x41,
+  0x4f, 0x10, 0x20, 0x62, 0x6e, 0x30, 0x73, 0x7d, 0x51, 0x5f,
+  0x40, 0x72, 0x7e, 0x61, 0x6f, 0x50, 0x71, 0x7f, 0x60, 0x70,
+];
+
+enum TransformType {
+  Predictor = 0,
+  CrossColor = 1,
+  SubtractGreen = 2,
+  ColorIndexing = 3,
+}
+
+interface Transform {
+  type: TransformType;
+  bits: number;
+  xsize: number; // image width the transform applies to
+  data: Uint32Array;
+}
+
+/**
+ * Canonical prefix code; single-symbol codes decode without reading bits
+ */
+class PrefixCode {
+  private readonly single: number;
+  private readonly maxCode = new Int32Array(16).fill(-1);
+  private readonly offset = new Int32Array(16);
+  private readonly symbols: Uint16Array;
+
+  constructor(lengths: Uint8Array) {
+    const used: number[] = [];
+    lengths.forEach((length, symbol) => {
+      if (length) used.push(symbol);
+    });
+    this.single = used.length <= 1 ? used[0] ?? 0 : -1;
+
+    const counts = new Int32Array(16);
+    lengths.forEach((length) => {
+      if (length) counts[length]++;
+    });
+
+    const symbols: number[] = [];
+    for (let length = 1; length < 16; length++) {
+      lengths.forEach((symbolLength, symbol) => {
+        if (symbolLength === length) symbols.push(symbol);
+      });
+    }
+    this.symbols = Uint16Array.from(symbols);
+
+    let code = 0;
+    let index = 0;
+    for (let length = 1; length < 16; length++) {
+      code <<= 1;
+      if (counts[length]) {
+        this.offset[length] = index - code;
+        code += counts[length];
+        index += counts[length];
+        this.maxCode[length] = code - 1;
+      }
+    }
+    if (this.single < 0 && code > 1 << 15) {
+      throw new ImageDecodeError('Invalid WebP prefix code');
+    }
+  }
+
+  read(reader: BitReader): number {
+    if (this.single >= 0) return this.single;
+    let code = 0;
+    for (let length = 1; length < 16; length++) {
+      code = (code << 1) | reader.readBits(1);
+      if (code <= this.maxCode[length]) {
+        return this.symbols[code + this.offset[length]];
+      }
+    }
+    throw new ImageDecodeError('Invalid WebP prefix code in image data');
+  }
+}
+
+class BitReader {
+  private position: number;
+  private bitOffset = 0;
+
+  constructor(private readonly data: Uint8Array, start: number) {
+    this.position = start;
+  }
+
+  readBits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      if (this.position >= this.data.length) {
+        throw new ImageDecodeError('WebP lossless data is truncated');
+      }
+      const bit = (this.data[this.position] >> this.bitOffset) & 1;
+      value |= bit << i;
+      if (++this.bitOffset === 8) {
+        this.bitOffset = 0;
+        this.position++;
+      }
+    }
+    return value >>> 0;
+  }
+}
+
+type CodeGroup = [PrefixCode, PrefixCode, PrefixCode, PrefixCode, PrefixCode]; // green, red, blue, alpha, distance
+
+function readCodeLengths(reader: BitReader, codeLengthCode: PrefixCode, alphabetSize: number): Uint8Array {
+  const lengths = new Uint8Array(alphabetSize);
+  let maxSymbol = alphabetSize;
+  if (reader.readBits(1)) {
+    const lengthBits = 2 + 2 * reader.readBits(3);
+    maxSymbol = 2 + reader.readBits(lengthBits);
+    if (maxSymbol > alphabetSize) {
+      throw new ImageDecodeError('Invalid WebP code length count');
+    }
+  }
+
+  let previous = 8;
+  let symbol = 0;
+  while (symbol < alphabetSize) {
+    if (maxSymbol-- === 0) break;
+    const code = codeLengthCode.read(reader);
+    if (code < 16) {
+      lengths[symbol++] = code;
+      if (code) previous = code;
+      continue;
+    }
+
+    const repeatBits = code === 16 ? 2 : code === 17 ? 3 : 7;
+    const repeat = (code === 18 ? 11 : 3) + reader.readBits(repeatBits);
+    if (symbol + repeat > alphabetSize) {
+      throw new ImageDecodeError('Invalid WebP code length repeat');
+    }
+    lengths.fill(code === 16 ? previous : 0, symbol, symbol + repeat);
+    symbol += repeat;
+  }
+  return lengths;
+}
+
+function readPrefixCode(reader: BitReader, alphabetSize: number): PrefixCode {
+  const lengths = new Uint8Array(alphabetSize);
+
+  if (reader.readBits(1)) {
+    // Simple code: one or two symbols
+    const count = reader.readBits(1) + 1;
+    const first = reader.readBits(reader.readBits(1) ? 8 : 1);
+    lengths[first] = 1;
+    if (count === 2) {
+      lengths[reader.readBits(8)] = 1;
+    }
+    return new PrefixCode(lengths);
+  }
+
+  const codeLengthLengths = new Uint8Array(CODE_LENGTH_CODES);
+  const count = 4 + reader.readBits(4);
+  for (let i = 0; i < count; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.readBits(3);
+  }
+  return new PrefixCode(readCodeLengths(reader, new PrefixCode(codeLengthLengths), alphabetSize));
+}
+
+function readCodeGroup(reader: BitReader, cacheBits: number): CodeGroup {
+  return [
+    readPrefixCode(reader, NUM_LITERAL_CODES + NUM_LENGTH_CODES + (cacheBits ? 1 << cacheBits : 0)),
+    readPrefixCode(reader, NUM_LITERAL_CODES),
+    readPrefixCode(reader, NUM_LITERAL_CODES),
+    readPrefixCode(reader, NUM_LITERAL_CODES),
+    readPrefixCode(reader, NUM_DISTANCE_CODES),
+  ];
+}
+
+function prefixValue(reader: BitReader, prefix: number): number {
+  if (prefix < 4) return prefix + 1;
+  const extraBits = (prefix - 2) >> 1;
+  const offset = (2 + (prefix & 1)) << extraBits;
+  return offset + reader.readBits(extraBits) + 1;
+}
+
+function subsampledSize(size: number, bits: number): number {
+  return (size + (1 << bits) - 1) >> bits;
+}
+
+/**
+ * Decode an entropy-coded ARGB image. Only the main image may use meta
+ * prefix codes; transform data and palettes are plain sub-images.
+ */
+function decodeImageData(reader: BitReader, width: number, height: number, isMain: boolean): Uint32Array {
+  let cacheBits = 0;
+  if (reader.readBits(1)) {
+    cacheBits = reader.readBits(4);
+    if (cacheBits < 1 || cacheBits > 11) {
+      throw new ImageDecodeError('Invalid WebP color cache size');
+    }
+  }
+
+  let groups: CodeGroup[];
+  let metaBits = 0;
+  let metaImage: Uint32Array | null = null;
+  let metaWidth = 0;
+  if (isMain && reader.readBits(1)) {
+    metaBits = reader.readBits(3) + 2;
+    metaWidth = subsampledSize(width, metaBits);
+    metaImage = decodeImageData(reader, metaWidth, subsampledSize(height, metaBits), false);
+    let groupCount = 0;
+    for (let i = 0; i < metaImage.length; i++) {
+      metaImage[i] = (metaImage[i] >> 8) & 0xffff;
+      groupCount = Math.max(groupCount, metaImage[i] + 1);
+    }
+    groups = Array.from({ length: groupCount }, () => readCodeGroup(reader, cacheBits));
+  } else {
+    groups = [readCodeGroup(reader, cacheBits)];
+  }
+
+  const cache = cacheBits ? new Uint32Array(1 << cacheBits) : null;
+  const cacheShift = 32 - cacheBits;
+  const pixels = new Uint32Array(width * height);
+  const total = width * height;
+  let lastCached = 0;
+
+  const groupAt = (position: number): CodeGroup => {
+    if (!metaImage) return groups[0];
+    const x = position % width;
+    const y = (position - x) / width;
+    return groups[metaImage[(y >> metaBits) * metaWidth + (x >> metaBits)]];
+  };
+
+  const flushCache = (upTo: number) => {
+    if (!cache) return;
+    for (; lastCached < upTo; lastCached++) {
+      const argb = pixels[lastCached];
+      cache[Math.imul(argb, 0x1e35a7bd) >>> cacheShift] = argb;
+    }
+  };
+
+  let position = 0;
+  while (position < total) {
+    const group = groupAt(position);
+    const symbol = group[0].read(reader);
+
+    if (symbol < NUM_LITERAL_CODES) {
+      const red = group[1].read(reader);
+      const blue = group[2].read(reader);
+      const alpha = group[3].read(reader);
+      pixels[position++] = ((alpha << 24) | (red << 16) | (symbol << 8) | blue) >>> 0;
+    } else if (symbol < NUM_LITERAL_CODES + NUM_LENGTH_CODES) {
+      const length = prefixValue(reader, symbol - NUM_LITERAL_CODES);
+      const distanceSymbol = group[4].read(reader);
+      const code = prefixValue(reader, distanceSymbol);
+
+      let distance: number;
+      if (code > 120) {
+        distance = code - 120;
+      } else {
+        const mapped = DISTANCE_MAP[code - 1];
+        distance = Math.max(1, (mapped >> 4) * width + 8 - (mapped & 0xf));
+      }
+      if (distance > position || position + length > total) {
+        throw new ImageDecodeError('Invalid WebP backward reference');
+      }
+      for (let i = 0; i < length; i++, position++) {
+        pixels[position] = pixels[position - distance];
+      }
+    } else {
+      if (!cache) {
+        throw new ImageDecodeError('WebP color cache symbol without a cache');
+      }
+      flushCache(position);
+      pixels[position++] = cache[symbol - NUM_LITERAL_CODES - NUM_LENGTH_CODES];
+    }
+    flushCache(position);
+  }
+
+  return pixels;
+}
+
+function average2(a: number, b: number): number {
+  return (((((a ^ b) & 0xfefefefe) >>> 1) + (a & b)) >>> 0);
+}
+
+function channel(value: number, shift: number): number {
+  return (value >>> shift) & 0xff;
+}
+
+function clamp255(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : value;
+}
+
+function select(left: number, top: number, topLeft: number): number {
+  let leftDistance = 0;
+  let topDistance = 0;
+  for (let shift = 0; shift < 32; shift += 8) {
+    leftDistance += Math.abs(channel(top, shift) - channel(topLeft, shift));
+    topDistance += Math.abs(channel(left, shift) - channel(topLeft, shift));
+  }
+  return leftDistance < topDistance ? left : top;
+}
+
+function clampAddSubtractFull(a: number, b: number, c: number): number {
+  let result = 0;
+  for (let shift = 0; shift < 32; shift += 8) {
+    result |= clamp255(channel(a, shift) + channel(b, shift) - channel(c, shift)) << shift;
+  }
+  return result >>> 0;
+}
+
+function clampAddSubtractHalf(a: number, b: number): number {
+  let result = 0;
+  for (let shift = 0; shift < 32; shift += 8) {
+    const ca = channel(a, shift);
+    result |= clamp255(ca + Math.trunc((ca - channel(b, shift)) / 2)) << shift;
+  }
+  return result >>> 0;
+}
+
+function predict(mode: number, left: number, top: number, topRight: number, topLeft: number): number {
+  switch (mode) {
+    case 0: return 0xff000000;
+    case 1: return left;
+    case 2: return top;
+    case 3: return topRight;
+    case 4: return topLeft;
+    case 5: return average2(average2(left, topRight), top);
+    case 6: return average2(left, topLeft);
+    case 7: return average2(left, top);
+    case 8: return average2(topLeft, top);
+    case 9: return average2(top, topRight);
+    case 10: return average2(average2(left, topLeft), average2(top, topRight));
+    case 11: return select(left, top, topLeft);
+    case 12: return clampAddSubtractFull(left, top, topLeft);
+    case 13: return clampAddSubtractHalf(average2(left, top), topLeft);
+    default: return 0xff000000; // modes 14 and 15 behave like black
+  }
+}
+
+function addPixels(a: number, b: number): number {
+  const alphaGreen = (a & 0xff00ff00) + (b & 0xff00ff00);
+  const redBlue = (a & 0x00ff00ff) + (b & 0x00ff00ff);
+  return ((alphaGreen & 0xff00ff00) | (redBlue & 0x00ff00ff)) >>> 0;
+}
+
+function colorTransformDelta(transform: number, color: number): number {
+  return ((transform << 24) >> 24) * ((color << 24) >> 24) >> 5;
+}
+
+function inverseTransform(transform: Transform, pixels: Uint32Array, height: number): Uint32Array {
+  const width = transform.xsize;
+
+  switch (transform.type) {
+    case TransformType.SubtractGreen:
+      for (let i = 0; i < pixels.length; i++) {
+        const argb = pixels[i];
+        const green = (argb >> 8) & 0xff;
+        const redBlue = ((argb & 0x00ff00ff) + ((green << 16) | green)) & 0x00ff00ff;
+        pixels[i] = ((argb & 0xff00ff00) | redBlue) >>> 0;
+      }
+      return pixels;
+
+    case TransformType.Predictor: {
+      const blocksPerRow = subsampledSize(width, transform.bits);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const i = y * width + x;
+          let prediction: number;
+          if (y === 0) {
+            prediction = x === 0 ? 0xff000000 : pixels[i - 1];
+          } else if (x === 0) {
+            prediction = pixels[i - width];
+          } else {
+            const mode = (transform.data[(y >> transform.bits) * blocksPerRow + (x >> transform.bits)] >> 8) & 0xf;
+            prediction = predict(mode, pixels[i - 1], pixels[i - width], pixels[i - width + 1], pixels[i - width - 1]);
+          }
+          pixels[i] = addPixels(pixels[i], prediction);
+        }
+      }
+      return pixels;
+    }
+
+    case TransformType.CrossColor: {
+      const blocksPerRow = subsampledSize(width, transform.bits);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const i = y * width + x;
+          const multipliers = transform.data[(y >> transform.bits) * blocksPerRow + (x >> transform.bits)];
+          const greenToRed = multipliers & 0xff;
+          const greenToBlue = (multipliers >> 8) & 0xff;
+          const redToBlue = (multipliers >> 16) & 0xff;
+
+          const argb = pixels[i];
+          const green = (argb >> 8) & 0xff;
+          let red = (argb >> 16) & 0xff;
+          let blue = argb & 0xff;
+          red = (red + colorTransformDelta(greenToRed, green)) & 0xff;
+          blue = (blue + colorTransformDelta(greenToBlue, green)) & 0xff;
+          blue = (blue + colorTransformDelta(redToBlue, red)) & 0xff;
+          pixels[i] = ((argb & 0xff00ff00) | (red << 16) | blue) >>> 0;
+        }
+      }
+      return pixels;
+    }
+
+    case TransformType.ColorIndexing: {
+      const palette = transform.data;
+      const bitsPerPixel = 8 >> transform.bits;
+      const packedWidth = subsampledSize(width, transform.bits);
+      const mask = (1 << bitsPerPixel) - 1;
+      const out = new Uint32Array(width * height);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const packed = (pixels[y * packedWidth + (x >> transform.bits)] >> 8) & 0xff;
+          const shift = (x & ((1 << transform.bits) - 1)) * bitsPerPixel;
+          const index = (packed >> shift) & mask;
+          out[y * width + x] = index < palette.length ? palette[index] : 0;
+        }
+      }
+      return out;
+    }
+  }
+}
+
+/**
+ * Decode a VP8L image stream (after the 5-byte header) of known dimensions to ARGB pixels
+ */
+export function decodeVp8lStream(data: Uint8Array, start: number, width: number, height: number): Uint32Array {
+  const reader = new BitReader(data, start);
+  const transforms: Transform[] = [];
+  const seen = new Set<TransformType>();
+  let xsize = width;
+
+  while (reader.readBits(1)) {
+    const type = reader.readBits(2) as TransformType;
+    if (seen.has(type)) {
+      throw new ImageDecodeError('WebP transform used twice');
+    }
+    seen.add(type);
+
+    switch (type) {
+      case TransformType.Predictor:
+      case TransformType.CrossColor: {
+        const bits = reader.readBits(3) + 2;
+        const data = decodeImageData(reader, subsampledSize(xsize, bits), subsampledSize(height, bits), false);
+        transforms.push({ type, bits, xsize, data });
+        break;
+      }
+      case TransformType.SubtractGreen:
+        transforms.push({ type, bits: 0, xsize, data: new Uint32Array(0) });
+        break;
+      case TransformType.ColorIndexing: {
+        const size = reader.readBits(8) + 1;
+        const bits = size > 16 ? 0 : size > 4 ? 1 : size > 2 ? 2 : 3;
+        const palette = decodeImageData(reader, size, 1, false);
+        for (let i = 1; i < palette.length; i++) {
+          palette[i] = addPixels(palette[i], palette[i - 1]);
+        }
+        transforms.push({ type, bits, xsize, data: palette });
+        xsize = subsampledSize(xsize, bits);
+        break;
+      }
+    }
+  }
+
+  let pixels = decodeImageData(reader, xsize, height, true);
+  for (let i = transforms.length - 1; i >= 0; i--) {
+    pixels = inverseTransform(transforms[i], pixels, height);
+  }
+  return pixels;
+}
+
+export function readVp8lHeader(data: Uint8Array): { width: number; height: number; hasAlpha: boolean } {
+  if (data[0] !== 0x2f) {
+    throw new ImageDecodeError('Invalid WebP lossless signature');
+  }
+  const bits = (data[1] | (data[2] << 8) | (data[3] << 16) | (data[4] << 24)) >>> 0;
+  if (bits >>> 29 !== 0) {
+    throw new ImageDecodeError('Unsupported WebP lossless version');
+  }
+  return {
+    width: (bits & 0x3fff) + 1,
+    height: ((bits >>> 14) & 0x3fff) + 1,
+    hasAlpha: ((bits >>> 28) & 1) === 1,
+  };
+}
+
+/**
+ * Decode a complete VP8L chunk payload to RGBA
+ */
+export function decodeVp8l(data: Uint8Array): { width: number; height: number; data: Uint8Array } {
+  const { width, height } = readVp8lHeader(data);
+  const argb = decodeVp8lStream(data, 5, width, height);
+  const rgba = new Uint8Array(width * height * 4);
+  for (let i = 0; i < argb.length; i++) {
+    const pixel = argb[i];
+    rgba[i * 4] = (pixel >>> 16) & 0xff;
+    rgba[i * 4 + 1] = (pixel >>> 8) & 0xff;
+    rgba[i * 4 + 2] = pixel & 0xff;
+    rgba[i * 4 + 3] = pixel >>> 24;
+  }
+  return { width, height, data: rgba };
+}
@@ -0,0 +1,115 @@
+/**
+ * WebP container: simple lossy (VP8), lossless (VP8L) and extended (VP8X)
+ * files with an optional ALPH chunk. Animations are not supported.
+ */
+
+import { ImageDecodeError, type DecodedImage } from './types';
+import { decodeVp8 } from './vp8';
+import { decodeVp8l, decodeVp8lStream } from './vp8l';
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+}
+
+export function isWebp(buffer: Uint8Array): boolean {
+  return (
+    buffer.length > 12 &&
+    String.fromCharCode(...buffer.subarray(0, 4)) === 'RIFF' &&
+    String.fromCharCode(...buffer.subarray(8, 12)) === 'WEBP'
+  );
+}
+
+function readChunks(buffer: Uint8Array): Chunk[] {
+  const chunks: Chunk[] = [];
+  let position = 12;
+  while (position + 8 <= buffer.length) {
+    const type = String.fromCharCode(...buffer.subarray(position, position + 4));
+    const size =
+      (buffer[position + 4] | (buffer[position + 5] << 8) | (buffer[position + 6] << 16) | (buffer[position + 7] << 24)) >>> 0;
+    const start = position + 8;
+    if (start + size > buffer.length) {
+      throw new ImageDecodeError(`WebP ${type.trim()} chunk is truncated`);
+    }
+    chunks.push({ type, data: buffer.subarray(start, start + size) });
+    position = start + size + (size & 1);
+  }
+  return chunks;
+}
+
+/**
+ * Decode an ALPH chunk into an 8-bit alpha plane
+ */
+function decodeAlpha(chunk: Uint8Array, width: number, height: number): Uint8Array {
+  const compression = chunk[0] & 0x03;
+  const filter = (chunk[0] >> 2) & 0x03;
+  let alpha: Uint8Array;
+
+  if (compression === 0) {
+    if (chunk.length - 1 < width * height) {
+      throw new ImageDecodeError('WebP alpha data is truncated');
+    }
+    alpha = chunk.slice(1, 1 + width * height);
+  } else if (compression === 1) {
+    const argb = decodeVp8lStream(chunk, 1, width, height);
+    alpha = new Uint8Array(width * height);
+    for (let i = 0; i < argb.length; i++) alpha[i] = (argb[i] >> 8) & 0xff;
+  } else {
+    throw new ImageDecodeError('Unsupported WebP alpha compression');
+  }
+
+  if (filter === 0) return alpha;
+
+  // Undo horizontal (1), vertical (2) or gradient (3) prediction
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      let prediction: number;
+      if (y === 0) {
+        prediction = x === 0 ? 0 : alpha[i - 1];
+      } else if (x === 0) {
+        prediction = alpha[i - width];
+      } else if (filter === 1) {
+        prediction = alpha[i - 1];
+      } else if (filter === 2) {
+        prediction = alpha[i - width];
+      } else {
+        const gradient = alpha[i - 1] + alpha[i - width] - alpha[i - width - 1];
+        prediction = gradient < 0 ? 0 : gradient > 255 ? 255 : gradient;
+      }
+      alpha[i] = (alpha[i] + prediction) & 0xff;
+    }
+  }
+  return alpha;
+}
+
+export function decodeWebp(buffer: Uint8Array): DecodedImage {
+  if (!isWebp(buffer)) {
+    throw new ImageDecodeError('Not a WebP file');
+  }
+
+  const chunks = readChunks(buffer);
+  const find = (type: string) => chunks.find((chunk) => chunk.type === type);
+
+  if (find('ANIM') || find('ANMF')) {
+    throw new ImageDecodeError('Animated WebP is not supported');
+  }
+
+  const lossless = find('VP8L');
+  if (lossless) {
+    return decodeVp8l(lossless.data);
+  }
+
+  const lossy = find('VP8 ');
+  if (!lossy) {
+    throw new ImageDecodeError('WebP file has no image data');
+  }
+  const image = decodeVp8(lossy.data);
+
+  const alphaChunk = find('ALPH');
+  if (alphaChunk) {
+    const alpha = decodeAlpha(alphaChunk.data, image.width, image.height);
+    for (let i = 0; i < alpha.length; i++) image.data[i * 4 + 3] = alpha[i];
+  }
+  return image;
+}
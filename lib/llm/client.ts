@@ -9,14 +9,28 @@ interface OllamaRequest {
   model: string;
   prompt: string;
   stream?: boolean;
+  /** 'json' or a JSON schema for structured output */
+  format?: 'json' | Record<string, unknown>;
+  /** Base64 images for multimodal models */
+  images?: string[];
   options?: {
     temperature?: number;
     top_p?: number;
     max_tokens?: number;
+    num_predict?: number;
   };
 }
 
-interface OllamaResponse {
+export interface OllamaCompletionOptions {
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  format?: OllamaRequest['format'];
+  images?: string[];
+  signal?: AbortSignal;
+}
+
+export interface OllamaResponse {
   model: string;
   created_at: string;
   response: string;
@@ -34,39 +48,94 @@ export class OllamaClient {
 
   constructor(
     baseUrl: string = process.env.OLLAMA_API_URL || 'http://localhost:11434',
-    model: string = 'llama3.2:1b'
+    model: string = process.env.OLLAMA_MODEL || 'llama3.2:1b'
   ) {
     this.baseUrl = baseUrl;
     this.model = model;
   }
 
+  get modelName(): string {
+    return this.model;
+  }
+
+  private buildRequest(prompt: string, stream: boolean, options?: OllamaCompletionOptions): OllamaRequest {
+    return {
+      model: this.model,
+      prompt,
+      stream,
+      ...(options?.format && { format: options.format }),
+      ...(options?.images?.length && { images: options.images }),
+      options: {
+        temperature: options?.temperature ?? 0.7,
+        top_p: options?.top_p ?? 0.9,
+        max_tokens: options?.max_tokens ?? 512,
+        num_predict: options?.max_tokens ?? 512,
+      },
+    };
+  }
+
+  /**
+   * Generate a completion, returning the raw response with token counts
+   */
+  async complete(prompt: string, options?: OllamaCompletionOptions): Promise<OllamaResponse> {
+    const response = await fetch(`${this.baseUrl}/api/generate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(this.buildRequest(prompt, false, options)),
+      signal: options?.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Stream a completion; each yielded chunk is one NDJSON line from Ollama
+   */
+  async *completeStream(prompt: string, options?: OllamaCompletionOptions): AsyncGenerator<OllamaResponse> {
+    const response = await fetch(`${this.baseUrl}/api/generate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(this.buildRequest(prompt, true, options)),
+      signal: options?.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line) as OllamaResponse;
+      }
+    }
+
+    if (buffer.trim()) yield JSON.parse(buffer) as OllamaResponse;
+  }
+
   /**
    * Generate text completion from Ollama
    */
   async generate(prompt: string, options?: OllamaRequest['options']): Promise<string> {
     try {
-      const response = await fetch(`${this.baseUrl}/api/generate`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: this.model,
-          prompt,
-          stream: false,
-          options: {
-            temperature: options?.temperature ?? 0.7,
-            top_p: options?.top_p ?? 0.9,
-            max_tokens: options?.max_tokens ?? 512,
-          },
-        } as OllamaRequest),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.statusText}`);
-      }
-
-      const data: OllamaResponse = await response.json();
+      const data = await this.complete(prompt, options);
       return data.response;
     } catch (error) {
       console.error('Ollama generation error:', error);
@@ -0,0 +1,317 @@
+// FILE: lib/llm/provider.ts
+
+/**
+ * LLM service: one entry point for every model call.
+ * Wraps the configured provider (Gemini, Ollama or fixtures) with timeouts,
+ * retries, JSON schema validation, token accounting and a circuit breaker.
+ */
+
+import { CircuitBreaker, getGeminiCircuitBreaker } from '@/lib/circuit-breaker';
+import { estimateTokens, extractJson, toUsage, validateJsonSchema } from './schema';
+import { FixtureProvider } from './providers/fixture';
+import { GeminiProvider } from './providers/gemini';
+import { OllamaProvider } from './providers/ollama';
+import {
+  JsonSchema,
+  LLMCallOptions,
+  LLMError,
+  LLMProvider,
+  LLMProviderName,
+  LLMUsageStats,
+  TokenUsage,
+} from './types';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const STREAM_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 250;
+
+export interface LLMResponse {
+  text: string;
+  model: string;
+  provider: LLMProviderName;
+  usage: TokenUsage;
+}
+
+interface Deadline {
+  signal: AbortSignal;
+  timedOut(): boolean;
+  dispose(): void;
+}
+
+/**
+ * Abort signal that fires on timeout or when the caller's signal aborts
+ */
+function createDeadline(timeoutMs: number, parent?: AbortSignal): Deadline {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  const onAbort = () => controller.abort();
+  if (parent?.aborted) {
+    controller.abort();
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    dispose() {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+function toLLMError(error: unknown, deadline?: Deadline, parent?: AbortSignal): LLMError {
+  if (error instanceof LLMError) return error;
+  if (deadline?.timedOut()) return new LLMError('LLM request timed out', 'timeout', true);
+  if (parent?.aborted) return new LLMError('LLM request aborted', 'aborted');
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (message.startsWith('[CircuitBreaker] OPEN')) {
+    return new LLMError(message, 'circuit_open');
+  }
+  // Network-level failures (DNS, connection reset) are worth another try
+  return new LLMError(message, 'unavailable', true);
+}
+
+function emptyUsage(): LLMUsageStats {
+  return {
+    requests: 0,
+    failures: 0,
+    retries: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    byFeature: {},
+  };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class LLMService {
+  private usage: LLMUsageStats = emptyUsage();
+
+  constructor(
+    private provider: LLMProvider,
+    private breaker: CircuitBreaker | null = null
+  ) {}
+
+  get providerName(): LLMProviderName {
+    return this.provider.name;
+  }
+
+  getCircuitBreaker(): CircuitBreaker | null {
+    return this.breaker;
+  }
+
+  /**
+   * Generate text, retrying timeouts, rate limits and server errors
+   */
+  async generate(prompt: string, options: LLMCallOptions & { schema?: JsonSchema } = {}): Promise<LLMResponse> {
+    const retries = options.retries ?? DEFAULT_RETRIES;
+
+    const run = async () => {
+      for (let attempt = 0; ; attempt++) {
+        const deadline = createDeadline(options.timeoutMs ?? DEFAULT_TIMEOUT_MS, options.signal);
+        try {
+          return await this.provider.generate(prompt, {
+            temperature: options.temperature,
+            maxOutputTokens: options.maxOutputTokens,
+            schema: options.schema,
+            attachments: options.attachments,
+            signal: deadline.signal,
+          });
+        } catch (error) {
+          const llmError = toLLMError(error, deadline, options.signal);
+          if (!llmError.retryable || attempt >= retries) throw llmError;
+          this.usage.retries++;
+          await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt);
+        } finally {
+          deadline.dispose();
+        }
+      }
+    };
+
+    try {
+      // The breaker sees one outcome per logical request, not per attempt
+      const response = await (this.breaker ? this.breaker.execute(run) : run());
+      this.record(options.feature, response.usage);
+      return { ...response, provider: this.provider.name };
+    } catch (error) {
+      this.usage.failures++;
+      throw toLLMError(error, undefined, options.signal);
+    }
+  }
+
+  async generateText(prompt: string, options: LLMCallOptions = {}): Promise<string> {
+    const { text } = await this.generate(prompt, options);
+    return text;
+  }
+
+  /**
+   * Generate JSON constrained to a schema. Providers enforce the schema where
+   * they can; the reply is validated here and re-requested with the
+   * violations when it doesn't conform.
+   */
+  async generateJSON<T>(prompt: string, schema: JsonSchema, options: LLMCallOptions = {}): Promise<T> {
+    const retries = options.retries ?? DEFAULT_RETRIES;
+    const basePrompt = `${prompt}\n\nRespond ONLY with valid JSON matching this schema:\n${JSON.stringify(schema)}`;
+    let feedback = '';
+
+    for (let attempt = 0; ; attempt++) {
+      const { text } = await this.generate(`${basePrompt}${feedback}`, { ...options, schema });
+
+      let errors: string[];
+      let value: unknown;
+      try {
+        value = extractJson(text);
+        errors = validateJsonSchema(value, schema);
+      } catch (error) {
+        errors = [error instanceof Error ? error.message : 'Invalid JSON'];
+      }
+
+      if (errors.length === 0) {
+        return value as T;
+      }
+
+      if (attempt >= retries) {
+        this.usage.failures++;
+        throw new LLMError(`Response does not match schema: ${errors.slice(0, 5).join('; ')}`, 'invalid_response');
+      }
+
+      this.usage.retries++;
+      feedback = `\n\nYour previous reply was invalid (${errors.slice(0, 5).join('; ')}). Return corrected JSON only.`;
+    }
+  }
+
+  /**
+   * Stream text chunks as they are generated. Streams are not retried since
+   * the caller may already have forwarded tokens.
+   */
+  async *streamText(prompt: string, options: LLMCallOptions = {}): AsyncGenerator<string> {
+    const deadline = createDeadline(options.timeoutMs ?? STREAM_TIMEOUT_MS, options.signal);
+    const request = {
+      temperature: options.temperature,
+      maxOutputTokens: options.maxOutputTokens,
+      attachments: options.attachments,
+      signal: deadline.signal,
+    };
+
+    let usage: TokenUsage | undefined;
+    let text = '';
+
+    try {
+      const iterator = this.provider.stream(prompt, request)[Symbol.asyncIterator]();
+      // The breaker sees the connection and first chunk only
+      let next = await (this.breaker ? this.breaker.execute(() => iterator.next()) : iterator.next());
+
+      while (!next.done) {
+        if (next.value.usage) usage = next.value.usage;
+        if (next.value.text) {
+          text += next.value.text;
+          yield next.value.text;
+        }
+        next = await iterator.next();
+      }
+
+      this.record(options.feature, usage ?? toUsage(estimateTokens(prompt), estimateTokens(text)));
+    } catch (error) {
+      this.usage.failures++;
+      throw toLLMError(error, deadline, options.signal);
+    } finally {
+      deadline.dispose();
+    }
+  }
+
+  healthCheck(): Promise<boolean> {
+    return this.provider.healthCheck();
+  }
+
+  getUsage(): LLMUsageStats {
+    return {
+      ...this.usage,
+      byFeature: Object.fromEntries(
+        Object.entries(this.usage.byFeature).map(([feature, stats]) => [feature, { ...stats }])
+      ),
+    };
+  }
+
+  resetUsage(): void {
+    this.usage = emptyUsage();
+  }
+
+  getStatus() {
+    return {
+      provider: this.provider.name,
+      circuitBreaker: this.breaker?.getStatus() ?? null,
+      usage: this.getUsage(),
+    };
+  }
+
+  private record(feature: string = 'default', usage: TokenUsage): void {
+    this.usage.requests++;
+    this.usage.promptTokens += usage.promptTokens;
+    this.usage.completionTokens += usage.completionTokens;
+    this.usage.totalTokens += usage.totalTokens;
+
+    const stats = this.usage.byFeature[feature] ?? { requests: 0, ...toUsage(0, 0) };
+    stats.requests++;
+    stats.promptTokens += usage.promptTokens;
+    stats.completionTokens += usage.completionTokens;
+    stats.totalTokens += usage.totalTokens;
+    this.usage.byFeature[feature] = stats;
+  }
+}
+
+/**
+ * Provider from LLM_PROVIDER (gemini | ollama | fixture).
+ * Tests default to fixtures so they never reach a model.
+ */
+export function resolveProviderName(): LLMProviderName {
+  const configured = process.env.LLM_PROVIDER?.toLowerCase();
+  if (configured === 'gemini' || configured === 'ollama' || configured === 'fixture') {
+    return configured;
+  }
+  return process.env.NODE_ENV === 'test' ? 'fixture' : 'gemini';
+}
+
+export function createLLMService(name: LLMProviderName = resolveProviderName()): LLMService {
+  switch (name) {
+    case 'ollama':
+      return new LLMService(
+        new OllamaProvider(),
+        new CircuitBreaker({ failureThreshold: 3, cooldownMs: 30000 })
+      );
+    case 'fixture':
+      return new LLMService(new FixtureProvider());
+    case 'gemini':
+    default:
+      return new LLMService(new GeminiProvider(), getGeminiCircuitBreaker());
+  }
+}
+
+// Singleton instance
+let llmService: LLMService | null = null;
+
+export function getLLM(): LLMService {
+  if (!llmService) {
+    llmService = createLLMService();
+  }
+  return llmService;
+}
+
+/**
+ * Swap the provider (tests, offline dev tooling). Pass null to go back to
+ * the configured provider.
+ */
+export function setLLMProvider(provider: LLMProvider | null, breaker: CircuitBreaker | null = null): LLMService {
+  llmService = provider ? new LLMService(provider, breaker) : createLLMService();
+  return llmService;
+}
@@ -0,0 +1,87 @@
+// FILE: lib/llm/providers/fixture.ts
+
+/**
+ * Deterministic fixture provider for tests and offline development.
+ * Answers from registered prompt fixtures and never touches the network.
+ */
+
+import { estimateTokens, toUsage } from '../schema';
+import {
+  LLMError,
+  LLMProvider,
+  ProviderRequest,
+  ProviderResponse,
+  ProviderStreamChunk,
+} from '../types';
+
+export interface LLMFixture {
+  /** Substring or pattern the prompt must contain */
+  match: string | RegExp;
+  /** Reply text; objects are serialized as JSON */
+  response: string | object;
+}
+
+export const FIXTURE_DEFAULT_REPLY = 'This is an offline fixture response. Connect a model to get real answers.';
+
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture' as const;
+  private fixtures: LLMFixture[];
+
+  /** Prompts seen so far, for assertions in tests */
+  readonly calls: string[] = [];
+
+  constructor(fixtures: LLMFixture[] = []) {
+    this.fixtures = [...fixtures];
+  }
+
+  addFixture(fixture: LLMFixture): this {
+    this.fixtures.push(fixture);
+    return this;
+  }
+
+  clear(): void {
+    this.fixtures = [];
+    this.calls.length = 0;
+  }
+
+  private resolve(prompt: string, request: ProviderRequest): string {
+    this.calls.push(prompt);
+
+    const fixture = this.fixtures.find(({ match }) =>
+      typeof match === 'string' ? prompt.includes(match) : match.test(prompt)
+    );
+
+    if (fixture) {
+      return typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response);
+    }
+
+    // Structured callers have their own fallbacks; let them run
+    if (request.schema) {
+      throw new LLMError('No fixture matches prompt', 'no_fixture');
+    }
+
+    return FIXTURE_DEFAULT_REPLY;
+  }
+
+  async generate(prompt: string, request: ProviderRequest): Promise<ProviderResponse> {
+    const text = this.resolve(prompt, request);
+    return {
+      text,
+      model: 'fixture',
+      usage: toUsage(estimateTokens(prompt), estimateTokens(text)),
+    };
+  }
+
+  async *stream(prompt: string, request: ProviderRequest): AsyncGenerator<ProviderStreamChunk> {
+    const text = this.resolve(prompt, request);
+
+    for (const word of text.match(/\S+\s*/g) ?? []) {
+      yield { text: word };
+    }
+    yield { usage: toUsage(estimateTokens(prompt), estimateTokens(text)) };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+}
@@ -0,0 +1,174 @@
+// FILE: lib/llm/providers/gemini.ts
+
+/**
+ * Gemini provider (REST API, no SDK)
+ * Fails over across models on quota and server errors
+ */
+
+import { toGeminiSchema, toUsage } from '../schema';
+import {
+  LLMError,
+  LLMProvider,
+  ProviderRequest,
+  ProviderResponse,
+  ProviderStreamChunk,
+  TokenUsage,
+} from '../types';
+
+const API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+// Models in order of preference
+const DEFAULT_MODELS = ['gemini-2.0-flash', 'gemini-2.5-flash', 'gemini-2.0-flash-lite'];
+
+function readUsage(data: any): TokenUsage | undefined {
+  const usage = data?.usageMetadata;
+  if (!usage) return undefined;
+  return toUsage(usage.promptTokenCount ?? 0, usage.candidatesTokenCount ?? 0);
+}
+
+function readText(data: any): string {
+  const parts: Array<{ text?: string }> = data?.candidates?.[0]?.content?.parts ?? [];
+  return parts.map(part => part.text ?? '').join('');
+}
+
+async function toHttpError(model: string, response: Response): Promise<LLMError> {
+  const errorText = (await response.text().catch(() => '')).substring(0, 200);
+  const message = `${model}: ${response.status} - ${errorText}`;
+
+  if (response.status === 429) return new LLMError(message, 'rate_limited', true);
+  if (response.status >= 500) return new LLMError(message, 'unavailable', true);
+  return new LLMError(message, 'invalid_response');
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  private models: string[];
+
+  constructor(models: string[] = DEFAULT_MODELS) {
+    this.models = models;
+  }
+
+  private getApiKey(): string {
+    const key = process.env.GOOGLE_AI_API_KEY || process.env.GOOGLE_GEMINI_API_KEY || '';
+    if (!key) {
+      throw new LLMError('GOOGLE_AI_API_KEY or GOOGLE_GEMINI_API_KEY is not set', 'unavailable');
+    }
+    return key;
+  }
+
+  private buildBody(prompt: string, request: ProviderRequest) {
+    return JSON.stringify({
+      contents: [{
+        parts: [
+          { text: prompt },
+          ...(request.attachments ?? []).map(({ mimeType, data }) => ({ inlineData: { mimeType, data } })),
+        ]
+      }],
+      generationConfig: {
+        temperature: request.temperature ?? 0.7,
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: request.maxOutputTokens ?? 8192,
+        ...(request.schema && {
+          responseMimeType: 'application/json',
+          responseSchema: toGeminiSchema(request.schema),
+        }),
+      }
+    });
+  }
+
+  async generate(prompt: string, request: ProviderRequest): Promise<ProviderResponse> {
+    const apiKey = this.getApiKey();
+    let lastError: unknown = null;
+
+    for (const model of this.models) {
+      try {
+        const response = await fetch(`${API_URL}/${model}:generateContent?key=${apiKey}`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: this.buildBody(prompt, request),
+          signal: request.signal,
+        });
+
+        if (!response.ok) {
+          throw await toHttpError(model, response);
+        }
+
+        const data = await response.json();
+        const text = readText(data);
+        if (!text) {
+          throw new LLMError(`No text in response from ${model}`, 'invalid_response', true);
+        }
+
+        return { text, model, usage: readUsage(data) ?? toUsage(0, 0) };
+      } catch (error) {
+        // Caller gave up; don't burn quota on the remaining models
+        if (request.signal?.aborted) throw error;
+        // Only quota and server problems are worth another model
+        if (error instanceof LLMError && !error.retryable) throw error;
+        console.warn(`⚠️ Gemini model ${model} failed, trying next model:`, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError instanceof Error
+      ? lastError
+      : new LLMError('Failed to generate AI response with any model', 'unavailable', true);
+  }
+
+  async *stream(prompt: string, request: ProviderRequest): AsyncGenerator<ProviderStreamChunk> {
+    const apiKey = this.getApiKey();
+    const model = this.models[0];
+
+    const response = await fetch(`${API_URL}/${model}:streamGenerateContent?alt=sse&key=${apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: this.buildBody(prompt, request),
+      signal: request.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw await toHttpError(model, response);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        let data: any;
+        try {
+          data = JSON.parse(line.slice(5).trim());
+        } catch {
+          continue; // Partial or keep-alive line
+        }
+        const text = readText(data);
+        // Usage metadata is cumulative; the last chunk carries the totals
+        yield { text: text || undefined, usage: readUsage(data) };
+      }
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await fetch(`${API_URL}?key=${this.getApiKey()}`, {
+        signal: AbortSignal.timeout(5000),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+}
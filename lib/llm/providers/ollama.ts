@@ -0,0 +1,72 @@
+// FILE: lib/llm/providers/ollama.ts
+
+/**
+ * Ollama provider backed by the local OllamaClient
+ */
+
+import { OllamaClient, ollamaClient } from '../client';
+import { estimateTokens, toUsage } from '../schema';
+import {
+  LLMError,
+  LLMProvider,
+  ProviderRequest,
+  ProviderResponse,
+  ProviderStreamChunk,
+} from '../types';
+
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama' as const;
+  private client: OllamaClient;
+
+  constructor(client: OllamaClient = ollamaClient) {
+    this.client = client;
+  }
+
+  async generate(prompt: string, request: ProviderRequest): Promise<ProviderResponse> {
+    let data;
+    try {
+      data = await this.client.complete(prompt, {
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens,
+        format: request.schema ? { ...request.schema } : undefined,
+        images: request.attachments?.map(attachment => attachment.data),
+        signal: request.signal,
+      });
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      throw new LLMError(`Ollama request failed: ${error instanceof Error ? error.message : error}`, 'unavailable', true);
+    }
+
+    if (!data.response) {
+      throw new LLMError('Empty response from Ollama', 'invalid_response', true);
+    }
+
+    return {
+      text: data.response,
+      model: data.model,
+      usage: toUsage(
+        data.prompt_eval_count ?? estimateTokens(prompt),
+        data.eval_count ?? estimateTokens(data.response)
+      ),
+    };
+  }
+
+  async *stream(prompt: string, request: ProviderRequest): AsyncGenerator<ProviderStreamChunk> {
+    for await (const chunk of this.client.completeStream(prompt, {
+      temperature: request.temperature,
+      max_tokens: request.maxOutputTokens,
+      images: request.attachments?.map(attachment => attachment.data),
+      signal: request.signal,
+    })) {
+      yield {
+        text: chunk.response || undefined,
+        // Only the final chunk carries eval counts
+        usage: chunk.done ? toUsage(chunk.prompt_eval_count ?? 0, chunk.eval_count ?? 0) : undefined,
+      };
+    }
+  }
+
+  healthCheck(): Promise<boolean> {
+    return this.client.healthCheck();
+  }
+}
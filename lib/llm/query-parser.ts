@@ -1,9 +1,36 @@
 // FILE: lib/llm/query-parser.ts
 
-import { ollamaClient } from './client';
+import { getLLM } from './provider';
 import { buildQueryUnderstandingPrompt } from './prompts';
+import { JsonSchema } from './types';
 import { SearchQuery } from '@/types/search';
 
+const SEARCH_QUERY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    bedrooms: { type: 'integer', nullable: true },
+    bathrooms: { type: 'integer', nullable: true },
+    priceRange: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        min: { type: 'number', nullable: true },
+        max: { type: 'number', nullable: true },
+      },
+    },
+    location: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        district: { type: 'integer', nullable: true },
+        near: { type: 'string', nullable: true },
+      },
+    },
+    requirements: { type: 'array', nullable: true, items: { type: 'string' } },
+    priorities: { type: 'array', nullable: true, items: { type: 'string' } },
+  },
+};
+
 /**
  * Parse natural language query into structured SearchQuery
  */
@@ -11,14 +38,18 @@ export async function parseSearchQuery(rawQuery: string): Promise<SearchQuery> {
   try {
     const prompt = buildQueryUnderstandingPrompt(rawQuery);
     
-    const structured = await ollamaClient.generateJSON<Partial<SearchQuery>>(prompt, {
+    const structured = await getLLM().generateJSON<Partial<SearchQuery>>(prompt, SEARCH_QUERY_SCHEMA, {
+      feature: 'query-parser',
       temperature: 0.3,
-      max_tokens: 512,
+      maxOutputTokens: 512,
     });
 
+    // Drop the nulls the schema allows so optional fields stay undefined
+    const cleaned = JSON.parse(JSON.stringify(structured, (_key, value) => value ?? undefined));
+
     return {
       rawQuery,
-      ...structured,
+      ...cleaned,
     };
   } catch (error) {
     console.error('Query parsing error:', error);
@@ -0,0 +1,120 @@
+// FILE: lib/llm/schema.ts
+
+import { JsonSchema, TokenUsage } from './types';
+
+/**
+ * Validate a parsed value against a JSON schema.
+ * Returns a list of violations (empty when the value conforms).
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  if (value === null || value === undefined) {
+    return schema.nullable ? [] : [`${path} is required`];
+  }
+
+  const errors: string[] = [];
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return [`${path} should be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+        if (record[key] !== undefined) {
+          errors.push(...validateJsonSchema(record[key], propertySchema, `${path}.${key}`));
+        }
+      }
+      break;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [`${path} should be an array`];
+      }
+      if (schema.items) {
+        value.forEach((item, index) => {
+          errors.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`));
+        });
+      }
+      break;
+    }
+    case 'string':
+      if (typeof value !== 'string') return [`${path} should be a string`];
+      break;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || Number.isNaN(value)) return [`${path} should be a number`];
+      if (schema.type === 'integer' && !Number.isInteger(value)) errors.push(`${path} should be an integer`);
+      if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} should be >= ${schema.minimum}`);
+      if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} should be <= ${schema.maximum}`);
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') return [`${path} should be a boolean`];
+      break;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${path} should be one of ${schema.enum.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Pull the JSON payload out of a model response
+ * (handles markdown fences and chatter around the object)
+ */
+export function extractJson(text: string): unknown {
+  const cleaned = text.replace(/```(?:json)?\s*|```/g, '').trim();
+
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    const match = cleaned.match(/\{[\s\S]*\}|\[[\s\S]*\]/);
+    if (!match) {
+      throw new Error('No JSON found in response');
+    }
+    return JSON.parse(match[0]);
+  }
+}
+
+/**
+ * Convert to the OpenAPI-style schema Gemini expects in generationConfig.responseSchema
+ */
+export function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+  const converted: Record<string, unknown> = { type: schema.type.toUpperCase() };
+
+  if (schema.description) converted.description = schema.description;
+  if (schema.nullable) converted.nullable = true;
+  if (schema.enum) {
+    converted.enum = schema.enum.map(String);
+    // Gemini only supports enums on strings
+    if (schema.type !== 'string') delete converted.enum;
+  }
+  if (schema.minimum !== undefined) converted.minimum = schema.minimum;
+  if (schema.maximum !== undefined) converted.maximum = schema.maximum;
+  if (schema.items) converted.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+    if (schema.required?.length) converted.required = schema.required;
+  }
+
+  return converted;
+}
+
+/**
+ * Rough token estimate (~4 characters per token) for backends that don't report usage
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function toUsage(promptTokens: number, completionTokens: number): TokenUsage {
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
@@ -0,0 +1,111 @@
+// FILE: lib/llm/types.ts
+
+/**
+ * Shared types for the pluggable LLM provider layer
+ */
+
+export type LLMProviderName = 'gemini' | 'ollama' | 'fixture';
+
+/**
+ * The JSON Schema subset understood by every provider
+ * (Gemini response schemas and Ollama structured outputs both accept it)
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+  nullable?: boolean;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Inline file (e.g. a scanned document) sent alongside the prompt
+ */
+export interface LLMAttachment {
+  mimeType: string;
+  /** Base64-encoded content */
+  data: string;
+}
+
+/**
+ * Options passed through to a provider for a single attempt
+ */
+export interface ProviderRequest {
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** Constrain the output to this schema where the backend supports it */
+  schema?: JsonSchema;
+  attachments?: LLMAttachment[];
+  signal?: AbortSignal;
+}
+
+export interface ProviderResponse {
+  text: string;
+  model: string;
+  usage: TokenUsage;
+}
+
+export interface ProviderStreamChunk {
+  text?: string;
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  generate(prompt: string, request: ProviderRequest): Promise<ProviderResponse>;
+  stream(prompt: string, request: ProviderRequest): AsyncGenerator<ProviderStreamChunk>;
+  healthCheck(): Promise<boolean>;
+}
+
+/**
+ * Options for a call through the LLM service
+ */
+export interface LLMCallOptions {
+  /** Label used for token accounting, e.g. 'search-agent.reply' */
+  feature?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** Per-attempt timeout (default 15s) */
+  timeoutMs?: number;
+  /** Extra attempts after a retryable failure (default 2) */
+  retries?: number;
+  attachments?: LLMAttachment[];
+  signal?: AbortSignal;
+}
+
+export interface LLMUsageStats extends TokenUsage {
+  requests: number;
+  failures: number;
+  retries: number;
+  byFeature: Record<string, TokenUsage & { requests: number }>;
+}
+
+export type LLMErrorCode =
+  | 'timeout'
+  | 'aborted'
+  | 'rate_limited'
+  | 'unavailable'
+  | 'circuit_open'
+  | 'invalid_response'
+  | 'no_fixture';
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public readonly code: LLMErrorCode,
+    public readonly retryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
@@ -4,6 +4,8 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { parseEnvelope } from '@/lib/e2ee/crypto';
+import type { MessageCipher } from '@/lib/e2ee/keyring';
 
 // Create Supabase client - wrap in try-catch for test environments
 let supabase: SupabaseClient;
@@ -31,6 +33,7 @@ export interface Message {
   created_at: string;
   read_at?: string;
   message_type: 'text' | 'image' | 'system';
+  key_version?: number | null; // Set when content was stored end-to-end encrypted
 }
 
 export interface Conversation {
@@ -197,7 +200,9 @@ export async function checkMessagePermissions(
 }
 
 /**
- * Send a message in a conversation
+ * Send a message in a conversation. With a cipher (the sender's
+ * ConversationKeyring) the content is sanitized and masked, then encrypted,
+ * so only ciphertext reaches the database.
  */
 export async function sendMessage(
   messageData: {
@@ -206,7 +211,8 @@ export async function sendMessage(
     conversationId: string;
     messageType?: 'text' | 'image' | 'system';
   },
-  supabaseClient?: SupabaseClient
+  supabaseClient?: SupabaseClient,
+  cipher?: MessageCipher
 ): Promise<{ success: boolean; message?: Message; error?: string }> {
   const client = supabaseClient || getSupabaseClient();
 
@@ -229,14 +235,20 @@ export async function sendMessage(
     // Mask contact information
     const maskedContent = maskContactInfo(sanitizedContent);
 
+    // Encrypt last: the server cannot mask or sanitize ciphertext
+    const storedContent = cipher
+      ? await cipher.encrypt(messageData.conversationId, maskedContent)
+      : maskedContent;
+
     // Insert message
     const { data: message, error } = await client
       .from('messages')
       .insert({
-        content: maskedContent,
+        content: storedContent,
         sender_id: messageData.senderId,
         conversation_id: messageData.conversationId,
         message_type: messageData.messageType || 'text',
+        key_version: parseEnvelope(storedContent)?.keyVersion ?? null,
       })
       .select()
       .single();
@@ -245,6 +257,11 @@ export async function sendMessage(
       return { success: false, error: error.message };
     }
 
+    // Hand the caller back what they wrote, not the envelope
+    if (cipher) {
+      message.content = maskedContent;
+    }
+
     // Update conversation's updated_at timestamp
     await client
       .from('conversations')
@@ -258,12 +275,48 @@ export async function sendMessage(
 }
 
 /**
- * Get conversation with messages
+ * Send a message through /api/messages, which checks the key version.
+ * Content is sent as given (callers mask text, not image markers) and
+ * encrypted with the cipher; a 409 means the conversation key was rotated
+ * meanwhile, so it is encrypted once more with the new version.
+ * Resolves with the stored message carrying the plaintext.
+ */
+export async function postMessage(
+  messageData: { conversationId: string; receiverId: string; content: string },
+  cipher: MessageCipher,
+  fetcher: typeof fetch = fetch
+): Promise<Message> {
+  const post = async () =>
+    fetcher('/api/messages', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...messageData,
+        content: await cipher.encrypt(messageData.conversationId, messageData.content),
+      }),
+    });
+
+  let response = await post();
+  if (response.status === 409) {
+    response = await post();
+  }
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to send message');
+  }
+
+  return { ...data.message, conversation_id: messageData.conversationId, content: messageData.content };
+}
+
+/**
+ * Get conversation with messages, decrypted when a cipher is given
  */
 export async function getConversation(
   conversationId: string,
   userId: string,
-  supabaseClient = supabase
+  supabaseClient = supabase,
+  cipher?: MessageCipher
 ): Promise<{ success: boolean; conversation?: Conversation; error?: string }> {
   try {
     // Check permissions
@@ -283,7 +336,8 @@ export async function getConversation(
           sender_id,
           created_at,
           read_at,
-          message_type
+          message_type,
+          key_version
         )
       `)
       .eq('id', conversationId)
@@ -294,6 +348,15 @@ export async function getConversation(
       return { success: false, error: error.message };
     }
 
+    if (cipher && conversation?.messages) {
+      conversation.messages = await Promise.all(
+        conversation.messages.map(async (message: Message) => ({
+          ...message,
+          content: await cipher.decrypt(conversationId, message.content),
+        }))
+      );
+    }
+
     return { success: true, conversation };
   } catch (error) {
     return { success: false, error: 'Failed to get conversation' };
@@ -0,0 +1,218 @@
+/**
+ * OpenStreetMap extract parser
+ * Reads an Overpass JSON response (`out center;`) or an osmium GeoJSON export
+ * and keeps the elements that map to a POI category used for location scoring.
+ */
+
+import { readFileSync } from 'fs';
+
+export type PoiCategory =
+  | 'restaurants'
+  | 'cafes'
+  | 'grocery'
+  | 'shopping'
+  | 'gyms'
+  | 'parks'
+  | 'schools'
+  | 'hospitals'
+  | 'pharmacies'
+  | 'banks'
+  | 'transit';
+
+export type TransitMode = 'bus' | 'subway' | 'train' | 'tram';
+
+export interface OsmPoi {
+  osmId: string; // "<element type>/<id>"
+  name: string | null;
+  category: PoiCategory;
+  subcategory: string; // OSM tag value, or the transit mode for transit stops
+  lat: number;
+  lng: number;
+  tags: Record<string, string>;
+}
+
+export interface OsmParseResult {
+  pois: OsmPoi[];
+  skipped: number; // Elements without coordinates or a scoring category
+}
+
+export const POI_CATEGORIES: PoiCategory[] = [
+  'restaurants',
+  'cafes',
+  'grocery',
+  'shopping',
+  'gyms',
+  'parks',
+  'schools',
+  'hospitals',
+  'pharmacies',
+  'banks',
+  'transit',
+];
+
+const AMENITY_CATEGORIES: Record<string, PoiCategory> = {
+  restaurant: 'restaurants',
+  fast_food: 'restaurants',
+  food_court: 'restaurants',
+  cafe: 'cafes',
+  school: 'schools',
+  university: 'schools',
+  college: 'schools',
+  hospital: 'hospitals',
+  clinic: 'hospitals',
+  doctors: 'hospitals',
+  pharmacy: 'pharmacies',
+  bank: 'banks',
+  atm: 'banks',
+};
+
+const GROCERY_SHOPS = new Set(['supermarket', 'convenience', 'greengrocer', 'bakery', 'butcher', 'deli']);
+
+const LEISURE_CATEGORIES: Record<string, PoiCategory> = {
+  fitness_centre: 'gyms',
+  sports_centre: 'gyms',
+  park: 'parks',
+  garden: 'parks',
+  playground: 'parks',
+};
+
+/**
+ * Transit mode of a stop or station, or null when the tags are not a
+ * passenger stop
+ */
+export function transitMode(tags: Record<string, string>): TransitMode | null {
+  if (tags.station === 'subway' || tags.subway === 'yes' || tags.railway === 'subway_entrance') return 'subway';
+  if (tags.railway === 'tram_stop' || (tags.public_transport === 'stop_position' && tags.tram === 'yes')) return 'tram';
+  if (tags.railway === 'station' || tags.railway === 'halt') {
+    return tags.station === 'light_rail' ? 'tram' : 'train';
+  }
+  if (tags.highway === 'bus_stop' || tags.amenity === 'bus_station') return 'bus';
+  if (tags.public_transport === 'platform') {
+    if (tags.tram === 'yes') return 'tram';
+    if (tags.bus === 'yes' || tags.trolleybus === 'yes') return 'bus';
+  }
+  return null;
+}
+
+/**
+ * Scoring category for a tagged element; shops not in the grocery list count
+ * as shopping
+ */
+export function classifyOsmTags(tags: Record<string, string>): { category: PoiCategory; subcategory: string } | null {
+  const mode = transitMode(tags);
+  if (mode) return { category: 'transit', subcategory: mode };
+
+  if (tags.amenity && AMENITY_CATEGORIES[tags.amenity]) {
+    return { category: AMENITY_CATEGORIES[tags.amenity], subcategory: tags.amenity };
+  }
+  if (tags.shop) {
+    return { category: GROCERY_SHOPS.has(tags.shop) ? 'grocery' : 'shopping', subcategory: tags.shop };
+  }
+  if (tags.leisure && LEISURE_CATEGORIES[tags.leisure]) {
+    return { category: LEISURE_CATEGORIES[tags.leisure], subcategory: tags.leisure };
+  }
+  return null;
+}
+
+function toPoi(
+  osmId: string,
+  lat: unknown,
+  lng: unknown,
+  tags: Record<string, string> | undefined
+): OsmPoi | null {
+  if (!tags || typeof lat !== 'number' || typeof lng !== 'number') return null;
+  const classified = classifyOsmTags(tags);
+  if (!classified) return null;
+
+  return {
+    osmId,
+    name: tags.name ?? null,
+    ...classified,
+    lat,
+    lng,
+    tags,
+  };
+}
+
+function parseOverpassElements(elements: any[]): OsmParseResult {
+  const pois: OsmPoi[] = [];
+  let skipped = 0;
+
+  for (const element of elements) {
+    // Ways and relations only carry coordinates when queried with `out center`
+    const lat = element.lat ?? element.center?.lat;
+    const lng = element.lon ?? element.center?.lon;
+    const poi = toPoi(`${element.type}/${element.id}`, lat, lng, element.tags);
+    if (poi) pois.push(poi);
+    else skipped++;
+  }
+
+  return { pois, skipped };
+}
+
+// Average of the outer ring, close enough for parks and building footprints
+function featureCentre(geometry: any): [number, number] | null {
+  if (!geometry) return null;
+  if (geometry.type === 'Point') return geometry.coordinates;
+
+  const ring: number[][] | undefined =
+    geometry.type === 'Polygon'
+      ? geometry.coordinates[0]
+      : geometry.type === 'MultiPolygon'
+        ? geometry.coordinates[0]?.[0]
+        : geometry.type === 'LineString'
+          ? geometry.coordinates
+          : undefined;
+  if (!ring?.length) return null;
+
+  // Closed rings repeat the first point at the end
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  const points = ring.length > 1 && first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring;
+
+  const sum = points.reduce((acc, [lng, lat]) => [acc[0] + lng, acc[1] + lat], [0, 0]);
+  return [sum[0] / points.length, sum[1] / points.length];
+}
+
+function parseGeoJsonFeatures(features: any[]): OsmParseResult {
+  const pois: OsmPoi[] = [];
+  let skipped = 0;
+
+  for (const feature of features) {
+    const centre = featureCentre(feature.geometry);
+    const { '@type': type, '@id': id, ...tags } = feature.properties ?? {};
+    const osmId = type && id ? `${type}/${id}` : String(feature.id ?? '');
+    const poi = osmId && centre ? toPoi(osmId, centre[1], centre[0], tags) : null;
+    if (poi) pois.push(poi);
+    else skipped++;
+  }
+
+  return { pois, skipped };
+}
+
+/**
+ * Parse an extract already loaded as JSON. Duplicate ids keep the first
+ * occurrence so overlapping Overpass queries can be concatenated.
+ */
+export function parseOsmExtract(data: any): OsmParseResult {
+  let result: OsmParseResult;
+  if (Array.isArray(data?.elements)) {
+    result = parseOverpassElements(data.elements);
+  } else if (data?.type === 'FeatureCollection' && Array.isArray(data.features)) {
+    result = parseGeoJsonFeatures(data.features);
+  } else {
+    throw new Error('Unsupported OSM extract: expected Overpass JSON or a GeoJSON FeatureCollection');
+  }
+
+  const seen = new Set<string>();
+  const pois = result.pois.filter((poi) => {
+    if (seen.has(poi.osmId)) return false;
+    seen.add(poi.osmId);
+    return true;
+  });
+
+  return { pois, skipped: result.skipped + result.pois.length - pois.length };
+}
+
+export function parseOsmFile(path: string): OsmParseResult {
+  return parseOsmExtract(JSON.parse(readFileSync(path, 'utf8')));
+}
@@ -0,0 +1,144 @@
+/**
+ * OSM POI persistence
+ * Stores the imported extract in a PostGIS table and answers the radius
+ * queries used by location scoring and the neighborhood card.
+ */
+
+import { getPool, insertBatched, runQuery } from '@/lib/db/pool';
+import { POI_CATEGORIES, type OsmPoi, type PoiCategory } from './parser';
+
+export interface OsmImportSummary {
+  importId: string;
+  source: string;
+  pois: number;
+  skipped: number;
+  byCategory: Record<PoiCategory, number>;
+  importedAt: Date;
+}
+
+export interface NearbyPoi {
+  osmId: string;
+  name: string | null;
+  category: PoiCategory;
+  subcategory: string;
+  distance: number; // meters
+}
+
+export type PoiCounts = Record<PoiCategory, number>;
+
+export function emptyPoiCounts(): PoiCounts {
+  return Object.fromEntries(POI_CATEGORIES.map((category) => [category, 0])) as PoiCounts;
+}
+
+/**
+ * Replace the stored POIs with a freshly parsed extract in a single transaction
+ */
+export async function persistOsmPois(pois: OsmPoi[], skipped: number, source: string): Promise<OsmImportSummary> {
+  const pool = await getPool();
+  const client = await pool.connect();
+
+  const byCategory = emptyPoiCounts();
+  for (const poi of pois) byCategory[poi.category]++;
+
+  try {
+    await client.query('BEGIN');
+
+    const { rows } = await client.query(
+      `INSERT INTO public.osm_imports (source, poi_count, category_counts, skipped_count)
+       VALUES ($1, $2, $3::jsonb, $4)
+       RETURNING id, imported_at`,
+      [source, pois.length, JSON.stringify(byCategory), skipped]
+    );
+    const importId = rows[0].id;
+
+    await client.query('DELETE FROM public.osm_pois');
+    await insertBatched(
+      client,
+      'public.osm_pois',
+      ['osm_id', 'name', 'category', 'subcategory', 'tags', 'geom', 'import_id'],
+      pois.map((poi) => [
+        poi.osmId,
+        poi.name,
+        poi.category,
+        poi.subcategory,
+        JSON.stringify(poi.tags),
+        `SRID=4326;POINT(${poi.lng} ${poi.lat})`,
+        importId,
+      ])
+    );
+
+    await client.query('COMMIT');
+
+    return {
+      importId,
+      source,
+      pois: pois.length,
+      skipped,
+      byCategory,
+      importedAt: new Date(rows[0].imported_at),
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Whether any extract has been imported; without one, callers fall back to
+ * remote APIs rather than reporting an empty neighborhood
+ */
+export async function hasOsmData(): Promise<boolean> {
+  const { rows } = await runQuery(`SELECT EXISTS (SELECT 1 FROM public.osm_pois) AS present`);
+  return Boolean(rows[0]?.present);
+}
+
+/**
+ * POIs within `radius` meters, nearest first
+ */
+export async function findNearbyPois(
+  lat: number,
+  lng: number,
+  radius: number,
+  options: { categories?: PoiCategory[]; limit?: number } = {}
+): Promise<NearbyPoi[]> {
+  const { rows } = await runQuery(
+    `WITH origin AS (SELECT ST_SetSRID(ST_MakePoint($2, $1), 4326)::geography AS point)
+     SELECT p.osm_id, p.name, p.category, p.subcategory,
+            ST_Distance(p.geom::geography, origin.point) AS distance
+     FROM public.osm_pois p, origin
+     WHERE ST_DWithin(p.geom::geography, origin.point, $3)
+       AND ($4::text[] IS NULL OR p.category = ANY($4::text[]))
+     ORDER BY distance
+     LIMIT $5`,
+    [lat, lng, radius, options.categories ?? null, options.limit ?? 200]
+  );
+
+  return rows.map((row) => ({
+    osmId: row.osm_id,
+    name: row.name,
+    category: row.category,
+    subcategory: row.subcategory,
+    distance: Math.round(Number(row.distance)),
+  }));
+}
+
+/**
+ * Number of POIs per category within `radius` meters
+ */
+export async function countNearbyPois(lat: number, lng: number, radius: number): Promise<PoiCounts> {
+  const { rows } = await runQuery(
+    `SELECT category, COUNT(*) AS count
+     FROM public.osm_pois
+     WHERE ST_DWithin(geom::geography, ST_SetSRID(ST_MakePoint($2, $1), 4326)::geography, $3)
+     GROUP BY category`,
+    [lat, lng, radius]
+  );
+
+  const counts = emptyPoiCounts();
+  for (const row of rows) {
+    if (row.category in counts) counts[row.category as PoiCategory] = Number(row.count);
+  }
+  return counts;
+}
@@ -0,0 +1,225 @@
+// FILE: lib/pdf/index.ts
+
+/**
+ * Minimal PDF writer for generated documents. Text, table rows and rules on
+ * A4 pages with automatic page breaks, using the built-in Helvetica fonts
+ * so no font files are embedded. Text is encoded as WinAnsi; characters
+ * outside it are transliterated (ő -> ö, ű -> ü) or replaced.
+ */
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+// Average Helvetica glyph widths (em); good enough for wrapping
+const CHAR_WIDTH = { regular: 0.5, bold: 0.55 };
+
+const TRANSLITERATIONS: Record<string, string> = {
+  'ő': 'ö',
+  'Ő': 'Ö',
+  'ű': 'ü',
+  'Ű': 'Ü',
+  '–': '-',
+  '—': '-',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '…': '...',
+  '→': '->',
+  '³': '3',
+};
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  indent?: number;
+  /** Gray level 0 (black) to 1 (white) */
+  gray?: number;
+}
+
+export interface PdfDocumentInfo {
+  title: string;
+  author?: string;
+  createdAt?: Date;
+}
+
+/**
+ * Latin-1 text safe for a WinAnsi literal string
+ */
+export function toWinAnsi(text: string): string {
+  return Array.from(text.normalize('NFC'))
+    .map((char) => {
+      if (TRANSLITERATIONS[char]) return TRANSLITERATIONS[char];
+      const code = char.charCodeAt(0);
+      if (char === '\n' || char === '\t') return ' ';
+      return code >= 0x20 && code <= 0xff && !(code >= 0x7f && code < 0xa0) ? char : '?';
+    })
+    .join('');
+}
+
+function escapeLiteral(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+function pdfDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+/**
+ * Split text into lines that fit `width` points at the given font size
+ */
+export function wrapText(text: string, width: number, size: number, bold = false): string[] {
+  const maxChars = Math.max(1, Math.floor(width / (size * (bold ? CHAR_WIDTH.bold : CHAR_WIDTH.regular))));
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      // Words longer than a line are hard-broken
+      for (let start = 0; start < word.length; start += maxChars) {
+        const piece = word.slice(start, start + maxChars);
+        if (!line) {
+          line = piece;
+        } else if (line.length + 1 + piece.length <= maxChars) {
+          line += ` ${piece}`;
+        } else {
+          lines.push(line);
+          line = piece;
+        }
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private y = 0;
+
+  constructor(private info: PdfDocumentInfo) {
+    this.addPage();
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y - height < MARGIN) {
+      this.addPage();
+    }
+  }
+
+  private drawText(text: string, x: number, y: number, options: PdfTextOptions): void {
+    const size = options.size ?? 10;
+    const font = options.bold ? 'F2' : 'F1';
+    const gray = options.gray ?? 0;
+    this.ops.push(
+      `BT ${gray.toFixed(2)} g /${font} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapeLiteral(toWinAnsi(text))}) Tj ET`
+    );
+  }
+
+  text(text: string, options: PdfTextOptions = {}): this {
+    const size = options.size ?? 10;
+    const indent = options.indent ?? 0;
+    const lineHeight = size * 1.35;
+    for (const line of wrapText(toWinAnsi(text), CONTENT_WIDTH - indent, size, options.bold)) {
+      this.ensureSpace(lineHeight);
+      this.y -= lineHeight;
+      this.drawText(line, MARGIN + indent, this.y, options);
+    }
+    return this;
+  }
+
+  heading(text: string, size = 14): this {
+    this.space(size * 0.5);
+    return this.text(text, { size, bold: true });
+  }
+
+  space(points = 6): this {
+    this.y -= points;
+    return this;
+  }
+
+  rule(): this {
+    this.ensureSpace(8);
+    this.y -= 4;
+    this.ops.push(`0.75 G 0.5 w ${MARGIN} ${this.y.toFixed(2)} m ${(PAGE_WIDTH - MARGIN).toFixed(2)} ${this.y.toFixed(2)} l S`);
+    this.y -= 4;
+    return this;
+  }
+
+  /**
+   * One table row; `widths` are fractions of the content width. Cells wrap
+   * and the row is as tall as its tallest cell.
+   */
+  row(cells: string[], widths: number[], options: PdfTextOptions = {}): this {
+    const size = options.size ?? 9;
+    const lineHeight = size * 1.35;
+    const columns = cells.map((cell, index) =>
+      wrapText(toWinAnsi(cell), widths[index] * CONTENT_WIDTH - 6, size, options.bold)
+    );
+    const height = Math.max(...columns.map((lines) => lines.length)) * lineHeight;
+    this.ensureSpace(height + 2);
+
+    let x = MARGIN;
+    columns.forEach((lines, index) => {
+      lines.forEach((line, lineIndex) => this.drawText(line, x, this.y - (lineIndex + 1) * lineHeight, { ...options, size }));
+      x += widths[index] * CONTENT_WIDTH;
+    });
+    this.y -= height + 2;
+    return this;
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const pageCount = this.pages.length;
+    const firstPageId = 5;
+    const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    this.pages.forEach((ops, index) => {
+      const footer = `BT 0.45 g /F1 8 Tf ${MARGIN} 30 Td (${escapeLiteral(toWinAnsi(`${this.info.title} - page ${index + 1} of ${pageCount}`))}) Tj ET`;
+      const stream = [...ops, footer].join('\n');
+      objects[pageIds[index]] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+      objects[pageIds[index] + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+    });
+
+    const infoId = objects.length;
+    objects[infoId] =
+      `<< /Title (${escapeLiteral(toWinAnsi(this.info.title))})` +
+      (this.info.author ? ` /Author (${escapeLiteral(toWinAnsi(this.info.author))})` : '') +
+      ` /CreationDate (${pdfDate(this.info.createdAt ?? new Date())}) >>`;
+
+    let body = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(body, 'latin1');
+      body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(body, 'latin1');
+    body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      body += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    body += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(body, 'latin1');
+  }
+}
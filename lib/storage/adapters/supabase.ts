@@ -0,0 +1,79 @@
+// FILE: lib/storage/adapters/supabase.ts
+
+/**
+ * Supabase Storage adapter for a private bucket
+ */
+
+import { createHash } from 'crypto';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { PutOptions, StorageAdapter, StorageError, StoredObject, assertValidKey } from '../types';
+
+export class SupabaseStorageAdapter implements StorageAdapter {
+  readonly name = 'supabase' as const;
+  private client: SupabaseClient | null;
+
+  constructor(
+    private bucket: string,
+    client?: SupabaseClient
+  ) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL || process.env.SUPABASE_URL;
+    const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    this.client = client ?? (url && serviceKey
+      ? createClient(url, serviceKey, { auth: { persistSession: false } })
+      : null);
+  }
+
+  private getClient(): SupabaseClient {
+    if (!this.client) {
+      throw new StorageError('Supabase storage is not configured (SUPABASE_SERVICE_ROLE_KEY)', 'unavailable');
+    }
+    return this.client;
+  }
+
+  async put(key: string, body: Uint8Array, options: PutOptions): Promise<StoredObject> {
+    assertValidKey(key);
+    const { error } = await this.getClient().storage
+      .from(this.bucket)
+      .upload(key, body, { contentType: options.contentType, upsert: false });
+
+    if (error) {
+      throw new StorageError(`Upload to ${this.bucket} failed: ${error.message}`, 'upload_failed');
+    }
+
+    return {
+      key,
+      size: body.byteLength,
+      contentType: options.contentType,
+      sha256: createHash('sha256').update(body).digest('hex'),
+    };
+  }
+
+  async get(key: string): Promise<Buffer> {
+    assertValidKey(key);
+    const { data, error } = await this.getClient().storage.from(this.bucket).download(key);
+    if (error || !data) {
+      throw new StorageError(`Object ${key} not found`, 'not_found');
+    }
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    if (!keys.length) return;
+    keys.forEach(assertValidKey);
+    const { error } = await this.getClient().storage.from(this.bucket).remove(keys);
+    if (error) {
+      throw new StorageError(`Removing from ${this.bucket} failed: ${error.message}`, 'unavailable');
+    }
+  }
+
+  async signedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    assertValidKey(key);
+    const { data, error } = await this.getClient().storage
+      .from(this.bucket)
+      .createSignedUrl(key, expiresInSeconds);
+    if (error || !data?.signedUrl) {
+      throw new StorageError(`Could not sign ${key}: ${error?.message ?? 'no URL returned'}`, 'not_found');
+    }
+    return data.signedUrl;
+  }
+}
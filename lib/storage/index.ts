@@ -0,0 +1,62 @@
+// FILE: lib/storage/index.ts
+
+/**
+ * Document storage: private objects behind a pluggable adapter.
+ * Supabase Storage in deployed environments, the local filesystem in
+ * development. Callers keep storage keys, never URLs; reviewers get
+ * short-lived signed URLs.
+ */
+
+import path from 'path';
+import { LocalStorageAdapter } from './adapters/local';
+import { SupabaseStorageAdapter } from './adapters/supabase';
+import type { StorageAdapter, StorageDriverName } from './types';
+
+export * from './types';
+
+export const DEFAULT_DOCUMENT_BUCKET = 'verification-documents';
+
+/**
+ * Driver from STORAGE_DRIVER (supabase | local). Without it, development
+ * falls back to the filesystem when no service role key is set.
+ */
+export function resolveStorageDriver(): StorageDriverName {
+  const configured = process.env.STORAGE_DRIVER?.toLowerCase();
+  if (configured === 'supabase' || configured === 'local') {
+    return configured;
+  }
+  return process.env.NODE_ENV !== 'production' && !process.env.SUPABASE_SERVICE_ROLE_KEY ? 'local' : 'supabase';
+}
+
+export function createStorageAdapter(
+  name: StorageDriverName = resolveStorageDriver(),
+  bucket: string = process.env.VERIFICATION_BUCKET || DEFAULT_DOCUMENT_BUCKET
+): StorageAdapter {
+  switch (name) {
+    case 'local':
+      return new LocalStorageAdapter(
+        path.resolve(process.env.LOCAL_STORAGE_DIR || '.storage', bucket),
+        process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+      );
+    case 'supabase':
+    default:
+      return new SupabaseStorageAdapter(bucket);
+  }
+}
+
+let documentStorage: StorageAdapter | null = null;
+
+export function getDocumentStorage(): StorageAdapter {
+  if (!documentStorage) {
+    documentStorage = createStorageAdapter();
+  }
+  return documentStorage;
+}
+
+/**
+ * Swap the adapter (tests, scripts). Pass null to go back to the configured one.
+ */
+export function setDocumentStorage(adapter: StorageAdapter | null): StorageAdapter {
+  documentStorage = adapter ?? createStorageAdapter();
+  return documentStorage;
+}
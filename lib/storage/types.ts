@@ -0,0 +1,59 @@
+// FILE: lib/storage/types.ts
+
+/**
+ * Object storage contracts shared by the storage adapters
+ */
+
+export type StorageDriverName = 'supabase' | 'local';
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  contentType: string;
+  sha256: string;
+}
+
+export interface PutOptions {
+  contentType: string;
+}
+
+/**
+ * A private bucket. Objects are addressed by key and only ever handed out
+ * through short-lived signed URLs.
+ */
+export interface StorageAdapter {
+  readonly name: StorageDriverName;
+  put(key: string, body: Uint8Array, options: PutOptions): Promise<StoredObject>;
+  get(key: string): Promise<Buffer>;
+  remove(keys: string[]): Promise<void>;
+  signedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
+
+export type StorageErrorCode = 'not_found' | 'invalid_key' | 'unavailable' | 'upload_failed';
+
+export class StorageError extends Error {
+  constructor(
+    message: string,
+    public code: StorageErrorCode
+  ) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+/**
+ * Keys are relative, slash-separated paths without `..` segments, so they
+ * map safely onto a bucket or a directory
+ */
+export function assertValidKey(key: string): void {
+  if (
+    !key ||
+    key.length > 512 ||
+    key.startsWith('/') ||
+    key.includes('\\') ||
+    key.split('/').some((segment) => segment === '' || segment === '.' || segment === '..') ||
+    !/^[A-Za-z0-9._\-/]+$/.test(key)
+  ) {
+    throw new StorageError(`Invalid storage key: ${key}`, 'invalid_key');
+  }
+}
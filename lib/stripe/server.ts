@@ -25,7 +25,37 @@ export const STRIPE_CONFIG = {
   paymentMethodTypes: ['card'],
 };
 
+/**
+ * Stripe amounts for HUF are in fillér (two decimals)
+ */
+export function toStripeAmount(huf: number): number {
+  return Math.round(huf * 100);
+}
+
+export function fromStripeAmount(amount: number): number {
+  return Math.round(amount / 100);
+}
+
 export function isStripeConfigured(): boolean {
   const key = process.env.STRIPE_SECRET_KEY;
   return key !== undefined && key !== '' && !key.includes('EXAMPLE');
 }
+
+/**
+ * Platform events are signed with STRIPE_WEBHOOK_SECRET; events from owners'
+ * Connect accounts (payouts) arrive on the Connect endpoint with its own secret
+ */
+export function constructWebhookEvent(stripe: Stripe, body: string, signature: string): Stripe.Event {
+  const secrets = [process.env.STRIPE_WEBHOOK_SECRET, process.env.STRIPE_CONNECT_WEBHOOK_SECRET].filter(
+    (secret): secret is string => Boolean(secret)
+  );
+  let lastError: unknown = new Error('No webhook secret configured');
+  for (const secret of secrets) {
+    try {
+      return stripe.webhooks.constructEvent(body, signature, secret);
+    } catch (err) {
+      lastError = err;
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,295 @@
+/**
+ * Content classifiers for trust & safety
+ * Each classifier looks at one kind of evidence and returns labelled signals
+ * with a confidence; the pipeline combines them into a decision. Everything
+ * here is synchronous and dependency-free so it also runs in the browser
+ * (e.g. on decrypted messages, which the server cannot read).
+ */
+
+import {
+  ABUSIVE_TERMS,
+  IMPERSONATED_BRANDS,
+  OFF_PLATFORM_CHANNELS,
+  SCAM_CUES,
+  SPAM_TERMS,
+  SUSPICIOUS_TLDS,
+  TRUSTED_DOMAINS,
+  URL_SHORTENERS,
+} from './lexicons';
+
+export type ModerationLabel =
+  | 'payment_outside_platform'
+  | 'deposit_scam'
+  | 'contact_info'
+  | 'suspicious_url'
+  | 'spam'
+  | 'abusive';
+
+export const MODERATION_LABELS: ModerationLabel[] = [
+  'payment_outside_platform',
+  'deposit_scam',
+  'contact_info',
+  'suspicious_url',
+  'spam',
+  'abusive',
+];
+
+export type ModerationContentType = 'message' | 'listing' | 'review';
+
+export interface ModerationInput {
+  text: string;
+  contentType: ModerationContentType;
+}
+
+export interface ClassifierSignal {
+  label: ModerationLabel;
+  confidence: number; // 0-1
+  reason: string;
+  classifier: string;
+  /** Matched snippets, kept short for reviewers */
+  evidence?: string[];
+}
+
+export interface ContentClassifier {
+  readonly name: string;
+  classify(input: ModerationInput, prior: ClassifierSignal[]): ClassifierSignal[] | Promise<ClassifierSignal[]>;
+}
+
+/**
+ * Lowercase, strip accents and collapse whitespace so lexicons match
+ * "Kaució", "kaucio" and "KAUCIÓ" alike
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function termsPattern(terms: string[]): RegExp {
+  const alternatives = terms.map((term) => escapeRegex(normalizeText(term)));
+  return new RegExp(`\\b(${alternatives.join('|')})\\b`, 'g');
+}
+
+function snippets(text: string, pattern: RegExp, limit: number = 3): string[] {
+  const matches = text.match(new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`));
+  return Array.from(new Set(matches ?? [])).slice(0, limit).map((match) => match.slice(0, 80));
+}
+
+/**
+ * Independent evidence combined as P(any) = 1 - Π(1 - p)
+ */
+export function noisyOr(confidences: number[]): number {
+  return 1 - confidences.reduce((remaining, confidence) => remaining * (1 - Math.min(Math.max(confidence, 0), 1)), 1);
+}
+
+// -- Contact information ---------------------------------------------------------
+
+// Bank account numbers look like phone numbers; the scam classifier handles them
+const ACCOUNT_NUMBER = /\b[a-z]{2}\d{2}(?:[ -]?\d{4}){4,7}\b|\b\d{8}-\d{8}(?:-\d{8})?\b/g;
+const HU_PHONE = /(?:\+|00)?36[\s\-/()]*(?:1|20|21|30|31|50|70)[\s\-/)]*\d{3}[\s-]*\d{3,4}\b|\b06[\s\-/()]*(?:1|20|21|30|31|50|70)[\s\-/)]*\d{3}[\s-]*\d{3,4}\b/;
+const INTL_PHONE = /(?:\+|00)\d{1,3}[\s-]?\d{1,4}[\s-]?\d{2,4}[\s-]?\d{2,4}/;
+const EMAIL = /\b[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}\b/;
+// "nev kukac gmail pont com", "name (at) gmail (dot) com"
+const OBFUSCATED_EMAIL = /\b[a-z0-9._-]+\s*(?:\(at\)|\[at\]|\sat\s|kukac|@)\s*[a-z0-9-]+\s*(?:\(dot\)|\[dot\]|\sdot\s|pont|\.)\s*(?:com|hu|net|org|eu)\b/;
+const OFF_PLATFORM = termsPattern(OFF_PLATFORM_CHANNELS);
+
+export const contactInfoClassifier: ContentClassifier = {
+  name: 'contact_info',
+  classify({ text }) {
+    const normalized = normalizeText(text);
+    const signals: ClassifierSignal[] = [];
+
+    const withoutAccounts = normalized.replace(ACCOUNT_NUMBER, ' ');
+    const phone = withoutAccounts.match(HU_PHONE) ?? withoutAccounts.match(INTL_PHONE);
+    if (phone) {
+      signals.push({ label: 'contact_info', confidence: 0.9, reason: 'Shares a phone number', classifier: this.name, evidence: [phone[0]] });
+    }
+
+    const email = normalized.match(EMAIL) ?? normalized.match(OBFUSCATED_EMAIL);
+    if (email) {
+      signals.push({ label: 'contact_info', confidence: 0.9, reason: 'Shares an email address', classifier: this.name, evidence: [email[0]] });
+    }
+
+    const channels = snippets(normalized, OFF_PLATFORM);
+    if (channels.length) {
+      signals.push({
+        label: 'contact_info',
+        confidence: 0.6,
+        reason: 'Asks to continue on another messaging app',
+        classifier: this.name,
+        evidence: channels,
+      });
+    }
+
+    return signals;
+  },
+};
+
+// -- Keyword lexicons ------------------------------------------------------------
+
+const LEXICONS: Array<{ label: ModerationLabel; pattern: RegExp; confidence: number; reason: string }> = [
+  {
+    label: 'abusive',
+    pattern: termsPattern([...ABUSIVE_TERMS.hu, ...ABUSIVE_TERMS.en]),
+    confidence: 0.8,
+    reason: 'Contains abusive language',
+  },
+  {
+    label: 'spam',
+    pattern: termsPattern([...SPAM_TERMS.hu, ...SPAM_TERMS.en]),
+    confidence: 0.5,
+    reason: 'Contains spam phrases',
+  },
+];
+
+export const lexiconClassifier: ContentClassifier = {
+  name: 'lexicon',
+  classify({ text }) {
+    const normalized = normalizeText(text);
+    const signals: ClassifierSignal[] = [];
+
+    for (const lexicon of LEXICONS) {
+      const found = snippets(normalized, lexicon.pattern);
+      if (found.length) {
+        // A second distinct term makes it much less likely to be incidental
+        signals.push({
+          label: lexicon.label,
+          confidence: noisyOr(found.map(() => lexicon.confidence)),
+          reason: lexicon.reason,
+          classifier: this.name,
+          evidence: found,
+        });
+      }
+    }
+
+    return signals;
+  },
+};
+
+// -- Rental scam patterns --------------------------------------------------------
+
+const COMPILED_CUES = SCAM_CUES.map((cue) => ({ ...cue, regex: new RegExp(cue.pattern) }));
+
+export const scamPatternClassifier: ContentClassifier = {
+  name: 'scam_patterns',
+  classify({ text }) {
+    const normalized = normalizeText(text);
+    const matched = COMPILED_CUES.filter((cue) => cue.regex.test(normalized));
+    const signals: ClassifierSignal[] = [];
+
+    for (const label of new Set(matched.map((cue) => cue.label))) {
+      const cues = matched.filter((cue) => cue.label === label);
+      signals.push({
+        label,
+        confidence: noisyOr(cues.map((cue) => cue.weight)),
+        reason: cues.map((cue) => cue.reason).join('; '),
+        classifier: this.name,
+        evidence: cues.flatMap((cue) => snippets(normalized, cue.regex, 1)),
+      });
+    }
+
+    return signals;
+  },
+};
+
+// -- URL reputation --------------------------------------------------------------
+
+// Scheme or www links, plus bare domains on common endings ("airbnb-deposit.com")
+const URL_PATTERN =
+  /\b(?:https?:\/\/|www\.)[^\s<>"']+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|hu|net|org|eu|info|io|co|me|ly|xyz|top|click|icu|site|online|shop)\b(?:\/[^\s<>"']*)?/gi;
+
+export interface UrlReputationOptions {
+  /** Hosts that are never flagged (the site's own domain, universities) */
+  trustedDomains?: string[];
+  /** Hosts known to be used in scams; always flagged with high confidence */
+  blockedDomains?: string[];
+}
+
+function hostMatches(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+export function extractUrls(text: string): string[] {
+  return Array.from(new Set(text.match(URL_PATTERN) ?? [])).map((url) => url.replace(/[),.;!?]+$/, ''));
+}
+
+function parseHost(url: string): string | null {
+  try {
+    return new URL(/^https?:\/\//i.test(url) ? url : `http://${url}`).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Score a single URL; returns the strongest finding or null when it looks fine
+ */
+export function assessUrl(url: string, options: UrlReputationOptions = {}): { confidence: number; reason: string } | null {
+  const host = parseHost(url);
+  if (!host) return { confidence: 0.4, reason: 'Malformed link' };
+
+  const trusted = [...TRUSTED_DOMAINS, ...(options.trustedDomains ?? [])];
+  if (trusted.some((domain) => hostMatches(host, domain))) return null;
+
+  if (options.blockedDomains?.some((domain) => hostMatches(host, domain))) {
+    return { confidence: 0.95, reason: `Link to a known scam domain (${host})` };
+  }
+
+  for (const [brand, domains] of Object.entries(IMPERSONATED_BRANDS)) {
+    if (host.replace(/[^a-z0-9]/g, '').includes(brand) && !domains.some((domain) => hostMatches(host, domain))) {
+      return { confidence: 0.85, reason: `Lookalike ${brand} domain (${host})` };
+    }
+  }
+
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(host)) {
+    return { confidence: 0.7, reason: 'Link to a bare IP address' };
+  }
+  if (host.split('.').some((part) => part.startsWith('xn--'))) {
+    return { confidence: 0.6, reason: `Internationalized domain that may imitate another (${host})` };
+  }
+  if (URL_SHORTENERS.some((domain) => hostMatches(host, domain))) {
+    return { confidence: 0.5, reason: 'Shortened link hides its destination' };
+  }
+  if (SUSPICIOUS_TLDS.includes(host.split('.').pop() ?? '')) {
+    return { confidence: 0.35, reason: `Link on a frequently abused domain ending (${host})` };
+  }
+  return null;
+}
+
+export function createUrlReputationClassifier(options: UrlReputationOptions = {}): ContentClassifier {
+  return {
+    name: 'url_reputation',
+    classify({ text }) {
+      const findings = extractUrls(text)
+        .map((url) => ({ url, finding: assessUrl(url, options) }))
+        .filter((entry): entry is { url: string; finding: { confidence: number; reason: string } } => entry.finding !== null);
+
+      if (!findings.length) return [];
+
+      findings.sort((a, b) => b.finding.confidence - a.finding.confidence);
+      return [
+        {
+          label: 'suspicious_url',
+          confidence: noisyOr(findings.map(({ finding }) => finding.confidence)),
+          reason: findings.map(({ finding }) => finding.reason).join('; '),
+          classifier: 'url_reputation',
+          evidence: findings.slice(0, 3).map(({ url }) => url.slice(0, 80)),
+        },
+      ];
+    },
+  };
+}
+
+/**
+ * Classifiers that need no network access, in the order they run
+ */
+export function ruleClassifiers(urlOptions: UrlReputationOptions = {}): ContentClassifier[] {
+  return [contactInfoClassifier, lexiconClassifier, scamPatternClassifier, createUrlReputationClassifier(urlOptions)];
+}
@@ -0,0 +1,263 @@
+/**
+ * Labelled trust & safety samples
+ * Paraphrased from Budapest support tickets and ordinary conversations, in
+ * Hungarian and English. Used to evaluate the classifier pipeline
+ * (`npm run moderation:eval`) and in tests; add a sample whenever a scam
+ * slips through or a legitimate message gets flagged.
+ */
+
+import type { LabelledSample } from './pipeline';
+
+export const LABELLED_SAMPLES: LabelledSample[] = [
+  // -- Deposit scams -------------------------------------------------------------
+  {
+    id: 'deposit-abroad-keys-en',
+    language: 'en',
+    contentType: 'message',
+    text: "Hello, I'm currently abroad for work so I can't show you the flat. Send the deposit of 300,000 HUF and I will send you the keys by post.",
+    labels: ['deposit_scam'],
+    decision: 'block',
+  },
+  {
+    id: 'deposit-abroad-keys-hu',
+    language: 'hu',
+    contentType: 'message',
+    text: 'Jó napot! Jelenleg külföldön dolgozom, ezért a kulcsokat postán küldöm, miután a kauciót átutalta.',
+    labels: ['deposit_scam'],
+    decision: 'block',
+  },
+  {
+    id: 'deposit-before-viewing-hu',
+    language: 'hu',
+    contentType: 'message',
+    text: 'Sokan érdeklődnek a lakás iránt, aki előbb utal, azé. A foglalót megtekintés előtt kérem, utána tudom mutatni.',
+    labels: ['deposit_scam'],
+    decision: 'block',
+  },
+  {
+    id: 'deposit-before-viewing-en',
+    language: 'en',
+    contentType: 'message',
+    text: 'Many other students are interested. Pay the holding fee today to reserve it, before the viewing, otherwise I give it to someone else.',
+    labels: ['deposit_scam'],
+    decision: 'block',
+  },
+  {
+    id: 'fake-escrow-en',
+    language: 'en',
+    contentType: 'message',
+    text: 'Airbnb will hold the deposit until you receive the keys, it is 100% safe. I live in London so I cannot meet.',
+    labels: ['deposit_scam'],
+    decision: 'block',
+  },
+  {
+    id: 'deposit-latatlanban-listing-hu',
+    language: 'hu',
+    contentType: 'listing',
+    text: 'Felújított 2 szobás lakás a VIII. kerületben. Látatlanban is kiadom, a kulcsokat futárral küldöm az előleg után, mert nem vagyok Magyarországon.',
+    labels: ['deposit_scam'],
+    decision: 'block',
+  },
+  {
+    id: 'passport-request-en',
+    language: 'en',
+    contentType: 'message',
+    text: 'Before we continue please send me a copy of your passport and the deposit, I am working abroad right now.',
+    labels: ['deposit_scam'],
+    decision: 'review',
+  },
+
+  // -- Payment outside the platform ----------------------------------------------
+  {
+    id: 'western-union-en',
+    language: 'en',
+    contentType: 'message',
+    text: 'Please pay the first month via Western Union to my brother, it is faster than the website.',
+    labels: ['payment_outside_platform'],
+    decision: 'review',
+  },
+  {
+    id: 'western-union-deposit-en',
+    language: 'en',
+    contentType: 'message',
+    text: "Send the deposit by MoneyGram and don't pay through the site, they take a big fee.",
+    labels: ['payment_outside_platform'],
+    decision: 'block',
+  },
+  {
+    id: 'crypto-hu',
+    language: 'hu',
+    contentType: 'message',
+    text: 'A bérleti díjat bitcoinban vagy USDT-ben kérem, a platformon kívül, így nincs jutalék.',
+    labels: ['payment_outside_platform'],
+    decision: 'block',
+  },
+  {
+    id: 'iban-transfer-hu',
+    language: 'hu',
+    contentType: 'message',
+    text: 'Utald át közvetlenül nekem erre a számlaszámra: HU42 1177 3016 1111 1018 0000 0000, és már küldöm is a szerződést.',
+    labels: ['payment_outside_platform'],
+    decision: 'review',
+  },
+  {
+    id: 'gift-card-en',
+    language: 'en',
+    contentType: 'message',
+    text: 'You can also pay the reservation with Amazon gift cards, just send me the codes.',
+    labels: ['payment_outside_platform'],
+    decision: 'review',
+  },
+
+  // -- Suspicious links ----------------------------------------------------------
+  {
+    id: 'lookalike-airbnb-en',
+    language: 'en',
+    contentType: 'message',
+    text: 'Book securely here: https://airbnb-secure-payments.com/room/8812 and the money stays protected.',
+    labels: ['suspicious_url'],
+    decision: 'review',
+  },
+  {
+    id: 'lookalike-booking-deposit-en',
+    language: 'en',
+    contentType: 'message',
+    text: 'Pay the deposit at booking-guarantee.xyz/pay, the platform will hold the deposit until you move in.',
+    labels: ['suspicious_url', 'deposit_scam'],
+    decision: 'block',
+  },
+  {
+    id: 'shortener-hu',
+    language: 'hu',
+    contentType: 'message',
+    text: 'Itt tudod kifizetni a foglalót: bit.ly/3xLakas',
+    labels: ['suspicious_url'],
+    decision: 'review',
+  },
+  {
+    id: 'ip-link-en',
+    language: 'en',
+    contentType: 'listing',
+    text: 'More photos and payment details at http://185.22.14.7/flat. Cozy studio close to Corvinus.',
+    labels: ['suspicious_url'],
+    decision: 'review',
+  },
+
+  // -- Contact info --------------------------------------------------------------
+  {
+    id: 'phone-listing-hu',
+    language: 'hu',
+    contentType: 'listing',
+    text: 'Csendes albérlet az ELTE közelében. Érdeklődni: +36 30 123 4567',
+    labels: ['contact_info'],
+    decision: 'review',
+  },
+  {
+    id: 'whatsapp-message-en',
+    language: 'en',
+    contentType: 'message',
+    text: 'Write me on WhatsApp, I answer faster there: 06 70 555 1234',
+    labels: ['contact_info'],
+    decision: 'allow',
+  },
+  {
+    id: 'obfuscated-email-hu',
+    language: 'hu',
+    contentType: 'review',
+    text: 'A tulaj nagyon segítőkész, írjatok neki: kovacs.janos kukac gmail pont com',
+    labels: ['contact_info'],
+    decision: 'review',
+  },
+
+  // -- Abuse and spam ------------------------------------------------------------
+  {
+    id: 'abusive-hu',
+    language: 'hu',
+    contentType: 'message',
+    text: 'Te hülye picsa, bazdmeg, még egyszer ne írj nekem!',
+    labels: ['abusive'],
+    decision: 'block',
+  },
+  {
+    id: 'abusive-review-en',
+    language: 'en',
+    contentType: 'review',
+    text: 'The landlord is an asshole who never fixed the heating.',
+    labels: ['abusive'],
+    decision: 'review',
+  },
+  {
+    id: 'spam-en',
+    language: 'en',
+    contentType: 'review',
+    text: 'Work from home and earn money fast! Click here for guaranteed returns on crypto investment.',
+    labels: ['spam'],
+    decision: 'block',
+  },
+
+  // -- Benign ----------------------------------------------------------------------
+  {
+    id: 'benign-viewing-en',
+    language: 'en',
+    contentType: 'message',
+    text: 'Hi! Is the apartment still available? Could I come for a viewing on Friday afternoon?',
+    labels: [],
+    decision: 'allow',
+  },
+  {
+    id: 'benign-deposit-contract-hu',
+    language: 'hu',
+    contentType: 'message',
+    text: 'A kauciót a szerződés aláírásakor kérem, a megtekintés után tudunk találkozni az irodában.',
+    labels: [],
+    decision: 'allow',
+  },
+  {
+    id: 'benign-deposit-en',
+    language: 'en',
+    contentType: 'message',
+    text: 'The deposit is two months of rent, paid when we sign the contract. Utilities are around 25,000 HUF.',
+    labels: [],
+    decision: 'allow',
+  },
+  {
+    id: 'benign-listing-hu',
+    language: 'hu',
+    contentType: 'listing',
+    text: 'Világos, bútorozott 45 nm-es lakás a IX. kerületben, a Corvinus Egyetemtől 5 percre. Kaució: 2 havi bérleti díj. Közös költség benne van.',
+    labels: [],
+    decision: 'allow',
+  },
+  {
+    id: 'benign-transit-link-hu',
+    language: 'hu',
+    contentType: 'listing',
+    text: 'A 4-es és 6-os villamos a ház előtt áll meg, menetrend: https://bkk.hu/menetrendek',
+    labels: [],
+    decision: 'allow',
+  },
+  {
+    id: 'benign-review-en',
+    language: 'en',
+    contentType: 'review',
+    text: 'Great location near BME, the owner returned my deposit on time and fixed the washing machine within a day.',
+    labels: [],
+    decision: 'allow',
+  },
+  {
+    id: 'benign-utalas-hu',
+    language: 'hu',
+    contentType: 'message',
+    text: 'Köszönöm, a bérleti díjat minden hónap 5-ig a platformon keresztül fizetem.',
+    labels: [],
+    decision: 'allow',
+  },
+  {
+    id: 'benign-abroad-student-en',
+    language: 'en',
+    contentType: 'message',
+    text: "I'm currently abroad for my Erasmus semester, could we do a video viewing next week?",
+    labels: [],
+    decision: 'allow',
+  },
+];
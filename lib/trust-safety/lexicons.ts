@@ -0,0 +1,164 @@
+/**
+ * Hungarian and English keyword lexicons for content moderation
+ * Terms are written naturally (with accents); classifiers normalize both the
+ * terms and the content, so "előleg", "eloleg" and "ELŐLEG" all match.
+ * Patterns are regex sources matched against the normalized text.
+ */
+
+import type { ModerationLabel } from './classifiers';
+
+export interface ScamCue {
+  id: string;
+  label: ModerationLabel;
+  /** Regex source over normalized (lowercase, accent-free) text */
+  pattern: string;
+  weight: number;
+  reason: string;
+}
+
+export const ABUSIVE_TERMS: Record<'hu' | 'en', string[]> = {
+  hu: ['kurva', 'geci', 'bazdmeg', 'baszd meg', 'picsa', 'faszfej', 'köcsög', 'hülye picsa', 'anyád', 'rohadj meg', 'dögölj meg'],
+  en: ['fuck you', 'bitch', 'asshole', 'retard', 'cunt', 'kill yourself', 'piece of shit', 'motherfucker'],
+};
+
+export const SPAM_TERMS: Record<'hu' | 'en', string[]> = {
+  hu: ['kattints ide', 'ingyen pénz', 'pénzkeresés otthonról', 'gyors meggazdagodás', 'befektetési lehetőség', 'kripto befektetés', 'nyereményjáték', 'akciós ajánlat csak ma'],
+  en: ['buy now', 'limited time offer', 'free money', 'click here', 'work from home', 'earn money fast', 'crypto investment', 'guaranteed returns', 'make money online'],
+};
+
+/**
+ * Rental scam cues seen in Budapest support tickets. Each cue is weak on its
+ * own; the classifier combines the matches per label, so "deposit" alone is
+ * harmless but "deposit before viewing, I'm abroad, keys by post" is not.
+ */
+export const SCAM_CUES: ScamCue[] = [
+  // Payment outside the platform
+  {
+    id: 'money_transfer_service',
+    label: 'payment_outside_platform',
+    pattern: '\\b(western union|moneygram|ria money|remitly|worldremit)\\b',
+    weight: 0.8,
+    reason: 'Asks for payment through a money transfer service',
+  },
+  {
+    id: 'crypto_or_gift_card',
+    label: 'payment_outside_platform',
+    pattern: '\\b(bitcoin|btc|usdt|tether|crypto ?wallet|kripto ?(valuta|tarca)?|gift ?cards?|ajandekkartya)\\b',
+    weight: 0.8,
+    reason: 'Asks for payment in crypto or gift cards',
+  },
+  {
+    id: 'pay_outside_site',
+    label: 'payment_outside_platform',
+    pattern:
+      "\\b(pay|send|transfer)\\b.{0,40}\\b(outside|off|not through|instead of)\\b.{0,20}\\b(the )?(site|platform|app|website)\\b|\\bdon'?t (pay|book) (through|via|on) (the )?(site|platform|app|website)\\b|\\b(ne )?(a )?(platformon|oldalon) kivul\\b|\\bne (az oldalon|a platformon) (keresztul )?(fizess|foglalj|utalj)",
+    weight: 0.75,
+    reason: 'Asks to pay outside the platform',
+  },
+  {
+    id: 'direct_transfer',
+    label: 'payment_outside_platform',
+    pattern:
+      '\\b(wire transfer|bank transfer|transfer the money|send the money|paypal friends|friends and family|revolut me|wise transfer)\\b|\\b(utald at|kozvetlenul nekem|szamlaszamomra|szamlaszamra|(at)?utal(d|j|jon|ja|ta|tad|tak|as|assal|ast|ni))\\b',
+    weight: 0.35,
+    reason: 'Asks for a direct money transfer',
+  },
+  {
+    id: 'iban_in_text',
+    label: 'payment_outside_platform',
+    pattern: '\\bhu\\d{2}[ -]?(\\d{4}[ -]?){5,6}\\b|\\b\\d{8}-\\d{8}(-\\d{8})?\\b',
+    weight: 0.45,
+    reason: 'Contains a bank account number',
+  },
+
+  // Deposit scams
+  {
+    id: 'deposit_mention',
+    label: 'deposit_scam',
+    pattern: '\\b(deposit|reservation fee|holding fee|kaucio|kauciot|foglalo|foglalot|eloleg|eloleget|letet|letetet)\\b',
+    weight: 0.15,
+    reason: 'Mentions a deposit',
+  },
+  {
+    id: 'before_viewing',
+    label: 'deposit_scam',
+    pattern:
+      "\\b(before (the )?(viewing|you see|seeing|visit)|without (a )?(viewing|seeing)|no viewing|can'?t show (you )?the (flat|apartment)|megtekintes (elott|nelkul)|latatlanban|mielott megnezned|megnezes nelkul)",
+    weight: 0.6,
+    reason: 'Wants payment before or without a viewing',
+  },
+  {
+    id: 'owner_abroad',
+    label: 'deposit_scam',
+    pattern:
+      "\\b((i'?m|i am) (currently |now )?(abroad|out of the country|overseas|working abroad)|i (live|work) (abroad|in (the )?(uk|london|germany|usa|spain))|kulfoldon (vagyok|elek|dolgozom)|jelenleg kulfoldon|nem vagyok magyarorszagon)",
+    weight: 0.45,
+    reason: 'Owner claims to be abroad',
+  },
+  {
+    id: 'keys_by_post',
+    label: 'deposit_scam',
+    pattern:
+      '\\b((send|post|mail|courier|ship)(ing)? (you )?the keys|keys (will be |are )?(sent|posted|mailed|delivered)|kulcso(ka)?t (postan|futarral|elkuldom|elkuldjuk|postazom)|postan kuldom a kulcs)',
+    weight: 0.6,
+    reason: 'Offers to send the keys by post',
+  },
+  {
+    id: 'fake_escrow',
+    label: 'deposit_scam',
+    pattern:
+      '\\b(airbnb|booking\\.com|paypal|the platform) (will )?(hold|keeps?|guarantees?)( the)? (money|deposit|payment)|\\b(airbnb|booking) (garancia|letet)',
+    weight: 0.6,
+    reason: 'Claims a third party will hold the deposit',
+  },
+  {
+    id: 'pressure',
+    label: 'deposit_scam',
+    pattern:
+      '\\b(many (other )?(people|students) (are )?interested|first (come|to pay)|pay (today|now) to (reserve|secure)|only today|today only|sok(an)? (erdeklod|jelentkez)|aki elobb utal|meg ma (utald|fizesd)|surgos)',
+    weight: 0.3,
+    reason: 'Pressures to pay quickly',
+  },
+  {
+    id: 'id_document_request',
+    label: 'deposit_scam',
+    pattern: '\\b(send|scan|photo of) (me )?(a copy of )?your (passport|id card|id)\\b|\\b(szemelyi|utlevel)(ed|edet|et|rol)? (fenykep|masolat|kuldd)',
+    weight: 0.35,
+    reason: 'Asks for identity documents before any agreement',
+  },
+];
+
+/**
+ * Messaging apps scammers move conversations to, away from our moderation
+ */
+export const OFF_PLATFORM_CHANNELS = ['whatsapp', 'telegram', 'viber', 'signal', 'wechat', 'kik', 'line app'];
+
+export const URL_SHORTENERS = ['bit.ly', 'tinyurl.com', 't.ly', 'goo.gl', 'rb.gy', 'is.gd', 'cutt.ly', 'ow.ly', 'shorturl.at', 'tiny.cc'];
+
+export const SUSPICIOUS_TLDS = ['xyz', 'top', 'click', 'zip', 'mov', 'loan', 'work', 'gq', 'tk', 'ml', 'cf', 'ga', 'icu', 'cyou', 'rest'];
+
+/**
+ * Brands scammers imitate with lookalike domains, and their real domains
+ */
+export const IMPERSONATED_BRANDS: Record<string, string[]> = {
+  airbnb: ['airbnb.com', 'airbnb.hu'],
+  booking: ['booking.com'],
+  paypal: ['paypal.com', 'paypal.me'],
+  revolut: ['revolut.com', 'revolut.me'],
+  otpbank: ['otpbank.hu'],
+  ingatlan: ['ingatlan.com'],
+};
+
+export const TRUSTED_DOMAINS = [
+  'google.com',
+  'maps.google.com',
+  'maps.app.goo.gl',
+  'openstreetmap.org',
+  'bkk.hu',
+  'elte.hu',
+  'bme.hu',
+  'corvinus.hu',
+  'semmelweis.hu',
+  'ingatlan.com',
+  'youtube.com',
+];
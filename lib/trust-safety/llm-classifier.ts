@@ -0,0 +1,85 @@
+/**
+ * LLM fallback classifier
+ * Asked only when the rule classifiers are unsure. Server-side: it goes
+ * through the LLM provider layer, so it is kept out of classifiers.ts which
+ * also ships to the browser.
+ */
+
+import { getLLM, LLMService } from '@/lib/llm/provider';
+import type { JsonSchema } from '@/lib/llm/types';
+import { ClassifierSignal, ContentClassifier, MODERATION_LABELS, ModerationLabel } from './classifiers';
+
+const MAX_CONTENT_CHARS = 4000;
+
+interface LLMModerationReply {
+  labels: Array<{ label: ModerationLabel; confidence: number; reason: string }>;
+}
+
+const MODERATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    labels: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          label: { type: 'string', enum: MODERATION_LABELS },
+          confidence: { type: 'number', minimum: 0, maximum: 1 },
+          reason: { type: 'string' },
+        },
+        required: ['label', 'confidence', 'reason'],
+      },
+    },
+  },
+  required: ['labels'],
+};
+
+export function buildModerationPrompt(text: string, contentType: string, prior: ClassifierSignal[]): string {
+  const findings = prior.length
+    ? prior.map((signal) => `- ${signal.label} (${signal.confidence.toFixed(2)}): ${signal.reason}`).join('\n')
+    : '- none';
+
+  return `You review content on a student apartment rental platform in Budapest for trust & safety.
+Content may be in Hungarian or English.
+
+Labels:
+- payment_outside_platform: asks to pay or book outside the platform (transfers, Western Union, crypto, gift cards)
+- deposit_scam: deposit or rent demanded before a viewing, owner "abroad", keys sent by post, fake escrow, pressure to pay fast
+- contact_info: shares phone numbers, emails or moves the conversation to another app
+- suspicious_url: links to lookalike, shortened or unknown payment/booking sites
+- spam: advertising, unrelated offers, repeated promotional text
+- abusive: insults, harassment, threats, hate speech
+
+Ordinary rental talk (rent, deposit paid at contract signing, viewing times, utilities) is not a violation.
+Return only labels that apply, each with a confidence between 0 and 1 and a one-sentence reason in English.
+Return {"labels": []} for acceptable content.
+
+Automatic rule findings (may be wrong):
+${findings}
+
+Content type: ${contentType}
+Content:
+"""
+${text.slice(0, MAX_CONTENT_CHARS)}
+"""`;
+}
+
+export function createLLMClassifier(llm: () => LLMService = getLLM): ContentClassifier {
+  return {
+    name: 'llm',
+    async classify({ text, contentType }, prior) {
+      const reply = await llm().generateJSON<LLMModerationReply>(
+        buildModerationPrompt(text, contentType, prior),
+        MODERATION_SCHEMA,
+        { feature: 'trust-safety.classify', temperature: 0, maxOutputTokens: 400, retries: 1 }
+      );
+
+      return reply.labels.map((entry) => ({
+        label: entry.label,
+        confidence: entry.confidence,
+        reason: entry.reason,
+        classifier: 'llm',
+      }));
+    },
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * Trust & safety classifier pipeline
+ * Runs the classifiers in order, combines their signals per label and maps
+ * the result to allow / review / block. An optional fallback classifier
+ * (the LLM) only runs when the rules are unsure, to keep cost and latency
+ * off the common case.
+ */
+
+import {
+  ClassifierSignal,
+  ContentClassifier,
+  MODERATION_LABELS,
+  ModerationContentType,
+  ModerationInput,
+  ModerationLabel,
+  noisyOr,
+  ruleClassifiers,
+} from './classifiers';
+
+export type ModerationDecision = 'allow' | 'review' | 'block';
+
+export interface LabelScore {
+  label: ModerationLabel;
+  confidence: number;
+  reasons: string[];
+}
+
+export interface ModerationResult {
+  decision: ModerationDecision;
+  /** Confidence of the strongest label, 0 when nothing was found */
+  confidence: number;
+  labels: LabelScore[];
+  signals: ClassifierSignal[];
+  classifiers: string[];
+  fallbackUsed: boolean;
+}
+
+/**
+ * Per-label thresholds; a label without `block` never blocks on its own
+ */
+export type ModerationPolicy = Record<ModerationLabel, { review: number; block?: number }>;
+
+export const DEFAULT_POLICY: ModerationPolicy = {
+  payment_outside_platform: { review: 0.5, block: 0.85 },
+  deposit_scam: { review: 0.5, block: 0.75 },
+  suspicious_url: { review: 0.5, block: 0.9 },
+  abusive: { review: 0.5, block: 0.9 },
+  spam: { review: 0.6, block: 0.85 },
+  contact_info: { review: 0.85 },
+};
+
+// Contact details in chat are masked before display, so they are labelled but
+// not queued; in listings and reviews they go to review
+const POLICY_OVERRIDES: Partial<Record<ModerationContentType, Partial<ModerationPolicy>>> = {
+  message: { contact_info: { review: 1.01 } },
+};
+
+export function policyFor(contentType: ModerationContentType, policy: ModerationPolicy = DEFAULT_POLICY): ModerationPolicy {
+  return { ...policy, ...POLICY_OVERRIDES[contentType] };
+}
+
+export interface PipelineOptions {
+  /** Run after the rules when the strongest label falls in `fallbackBand` */
+  fallback?: ContentClassifier;
+  fallbackBand?: [number, number];
+  policy?: ModerationPolicy;
+}
+
+export class ModerationPipeline {
+  private fallbackBand: [number, number];
+  private policy: ModerationPolicy;
+
+  constructor(
+    private classifiers: ContentClassifier[] = ruleClassifiers(),
+    private options: PipelineOptions = {}
+  ) {
+    this.fallbackBand = options.fallbackBand ?? [0.3, 0.85];
+    this.policy = options.policy ?? DEFAULT_POLICY;
+  }
+
+  async classify(input: ModerationInput, { fallback = true }: { fallback?: boolean } = {}): Promise<ModerationResult> {
+    const signals: ClassifierSignal[] = [];
+    const ran: string[] = [];
+
+    for (const classifier of this.classifiers) {
+      signals.push(...(await classifier.classify(input, signals)));
+      ran.push(classifier.name);
+    }
+
+    let fallbackUsed = false;
+    const [low, high] = this.fallbackBand;
+    const strongest = combineSignals(signals)[0]?.confidence ?? 0;
+
+    if (fallback && this.options.fallback && strongest >= low && strongest < high) {
+      try {
+        signals.push(...(await this.options.fallback.classify(input, signals)));
+        ran.push(this.options.fallback.name);
+        fallbackUsed = true;
+      } catch {
+        // The rules' verdict stands when the fallback is unavailable
+      }
+    }
+
+    const labels = combineSignals(signals);
+    return {
+      decision: decide(labels, policyFor(input.contentType, this.policy)),
+      confidence: labels[0]?.confidence ?? 0,
+      labels,
+      signals,
+      classifiers: ran,
+      fallbackUsed,
+    };
+  }
+}
+
+/**
+ * Merge signals per label, strongest first
+ */
+export function combineSignals(signals: ClassifierSignal[]): LabelScore[] {
+  return MODERATION_LABELS.map((label) => {
+    const matching = signals.filter((signal) => signal.label === label);
+    return {
+      label,
+      confidence: Math.round(noisyOr(matching.map((signal) => signal.confidence)) * 1000) / 1000,
+      reasons: Array.from(new Set(matching.map((signal) => signal.reason))),
+    };
+  })
+    .filter((score) => score.confidence > 0)
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+// Two of these at review level is a scam pattern in itself, e.g. a deposit
+// request that links to a lookalike booking site
+const CORROBORATING_LABELS: ModerationLabel[] = ['payment_outside_platform', 'deposit_scam', 'suspicious_url'];
+
+export function decide(labels: LabelScore[], policy: ModerationPolicy = DEFAULT_POLICY): ModerationDecision {
+  let decision: ModerationDecision = 'allow';
+  let corroborating = 0;
+
+  for (const { label, confidence } of labels) {
+    const thresholds = policy[label];
+    if (thresholds.block !== undefined && confidence >= thresholds.block) return 'block';
+    if (confidence >= thresholds.review) {
+      decision = 'review';
+      if (CORROBORATING_LABELS.includes(label)) corroborating++;
+    }
+  }
+
+  return corroborating >= 2 ? 'block' : decision;
+}
+
+/**
+ * Human-readable reasons, e.g. for the `issues` list of reviewContent
+ */
+export function describeResult(result: ModerationResult): string[] {
+  return result.labels.map(({ label, confidence, reasons }) => `${label} (${Math.round(confidence * 100)}%): ${reasons.join('; ')}`);
+}
+
+// -- Evaluation ------------------------------------------------------------------
+
+export interface LabelledSample {
+  id: string;
+  text: string;
+  contentType: ModerationContentType;
+  language: 'hu' | 'en';
+  /** Labels a reviewer assigned; empty for benign content */
+  labels: ModerationLabel[];
+  decision: ModerationDecision;
+}
+
+export interface LabelMetrics {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+}
+
+export interface EvaluationReport {
+  total: number;
+  decisionAccuracy: number;
+  /** Benign samples that would have been blocked */
+  falseBlocks: number;
+  /** Labelled scams (payment or deposit) that were allowed */
+  missedScams: number;
+  perLabel: Record<ModerationLabel, LabelMetrics>;
+  mistakes: Array<{ id: string; expected: ModerationDecision; actual: ModerationDecision; labels: ModerationLabel[] }>;
+}
+
+/**
+ * Run the pipeline over a labelled set. A label counts as predicted when it
+ * reaches its base review threshold, whatever the content type's decision.
+ */
+export async function evaluatePipeline(
+  pipeline: ModerationPipeline,
+  samples: LabelledSample[],
+  policy: ModerationPolicy = DEFAULT_POLICY
+): Promise<EvaluationReport> {
+  const counts = Object.fromEntries(
+    MODERATION_LABELS.map((label) => [label, { truePositives: 0, falsePositives: 0, falseNegatives: 0 }])
+  ) as Record<ModerationLabel, Omit<LabelMetrics, 'precision' | 'recall'>>;
+
+  let correct = 0;
+  let falseBlocks = 0;
+  let missedScams = 0;
+  const mistakes: EvaluationReport['mistakes'] = [];
+
+  for (const sample of samples) {
+    const result = await pipeline.classify({ text: sample.text, contentType: sample.contentType });
+    const predicted = new Set(
+      result.labels.filter(({ label, confidence }) => confidence >= policy[label].review).map(({ label }) => label)
+    );
+    const expected = new Set(sample.labels);
+
+    for (const label of MODERATION_LABELS) {
+      if (predicted.has(label) && expected.has(label)) counts[label].truePositives++;
+      else if (predicted.has(label)) counts[label].falsePositives++;
+      else if (expected.has(label)) counts[label].falseNegatives++;
+    }
+
+    if (result.decision === sample.decision) {
+      correct++;
+    } else {
+      mistakes.push({ id: sample.id, expected: sample.decision, actual: result.decision, labels: [...predicted] });
+    }
+    if (sample.decision === 'allow' && result.decision === 'block') falseBlocks++;
+    if (
+      result.decision === 'allow' &&
+      sample.labels.some((label) => label === 'payment_outside_platform' || label === 'deposit_scam')
+    ) {
+      missedScams++;
+    }
+  }
+
+  const perLabel = Object.fromEntries(
+    MODERATION_LABELS.map((label) => {
+      const { truePositives, falsePositives, falseNegatives } = counts[label];
+      return [
+        label,
+        {
+          truePositives,
+          falsePositives,
+          falseNegatives,
+          precision: truePositives + falsePositives ? truePositives / (truePositives + falsePositives) : 1,
+          recall: truePositives + falseNegatives ? truePositives / (truePositives + falseNegatives) : 1,
+        },
+      ];
+    })
+  ) as Record<ModerationLabel, LabelMetrics>;
+
+  return {
+    total: samples.length,
+    decisionAccuracy: samples.length ? correct / samples.length : 1,
+    falseBlocks,
+    missedScams,
+    perLabel,
+    mistakes,
+  };
+}
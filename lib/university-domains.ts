@@ -0,0 +1,325 @@
+/**
+ * Hungarian university email domains
+ * Registry used to confirm student status by email. Each entry lists the
+ * root domains a university mails from and the faculty or student-mail
+ * subdomains we know by name; campuses in university-service.ts point back
+ * at an entry through `domainId`. Any subdomain of a root domain is
+ * accepted; named subdomains only add the faculty to the match.
+ *
+ * When a university changes its mail domains, update its entry here and add
+ * the old domain to `legacyDomains` while addresses on it still receive mail.
+ */
+
+import { getCampusesByDomainId } from './university-service';
+
+export interface UniversityDomainEntry {
+    id: string;
+    name: string;
+    shortName: string;
+    city: string;
+    domains: string[];
+    legacyDomains?: string[];
+    faculties?: Record<string, string>; // subdomain -> faculty / mail system
+    studentIdPattern?: RegExp; // defaults to the Neptun code
+}
+
+export interface UniversityEmailMatch {
+    universityId: string;
+    universityName: string;
+    shortName: string;
+    domain: string;
+    faculty: string | null;
+    campusIds: string[]; // ids in lib/university-service.ts
+    legacy: boolean;
+}
+
+// Neptun code: six letters or digits, starting with a letter
+export const NEPTUN_CODE_PATTERN = /^[A-Z][A-Z0-9]{5}$/;
+
+export const UNIVERSITY_DOMAINS: UniversityDomainEntry[] = [
+    {
+        id: 'elte',
+        name: 'Eötvös Loránd University',
+        shortName: 'ELTE',
+        city: 'Budapest',
+        domains: ['elte.hu'],
+        faculties: {
+            'student.elte.hu': 'Student mail',
+            'inf.elte.hu': 'Faculty of Informatics',
+            'ttk.elte.hu': 'Faculty of Science',
+            'btk.elte.hu': 'Faculty of Humanities',
+            'ajk.elte.hu': 'Faculty of Law',
+            'ppk.elte.hu': 'Faculty of Education and Psychology',
+            'tok.elte.hu': 'Faculty of Primary and Pre-School Education',
+            'tatk.elte.hu': 'Faculty of Social Sciences',
+            'barczi.elte.hu': 'Bárczi Gusztáv Faculty of Special Needs Education',
+            'gtk.elte.hu': 'Faculty of Economics',
+        },
+    },
+    {
+        id: 'bme',
+        name: 'Budapest University of Technology and Economics',
+        shortName: 'BME',
+        city: 'Budapest',
+        domains: ['bme.hu'],
+        faculties: {
+            'edu.bme.hu': 'Student mail',
+            'vik.bme.hu': 'Faculty of Electrical Engineering and Informatics',
+            'gpk.bme.hu': 'Faculty of Mechanical Engineering',
+            'epk.bme.hu': 'Faculty of Civil Engineering',
+            'arch.bme.hu': 'Faculty of Architecture',
+            'ch.bme.hu': 'Faculty of Chemical Technology and Biotechnology',
+            'kjk.bme.hu': 'Faculty of Transportation Engineering and Vehicle Engineering',
+            'ttk.bme.hu': 'Faculty of Natural Sciences',
+            'gtk.bme.hu': 'Faculty of Economic and Social Sciences',
+        },
+    },
+    {
+        id: 'corvinus',
+        name: 'Corvinus University of Budapest',
+        shortName: 'Corvinus',
+        city: 'Budapest',
+        domains: ['uni-corvinus.hu'],
+        legacyDomains: ['corvinus.hu'],
+        faculties: {
+            'stud.uni-corvinus.hu': 'Student mail',
+        },
+    },
+    {
+        id: 'semmelweis',
+        name: 'Semmelweis University',
+        shortName: 'SE',
+        city: 'Budapest',
+        domains: ['semmelweis.hu'],
+        legacyDomains: ['semmelweis-univ.hu', 'sote.hu'],
+        faculties: {
+            'stud.semmelweis.hu': 'Student mail',
+            'med.semmelweis.hu': 'Faculty of Medicine',
+            'dent.semmelweis.hu': 'Faculty of Dentistry',
+            'pharma.semmelweis.hu': 'Faculty of Pharmacy',
+            'etk.semmelweis.hu': 'Faculty of Health Sciences',
+        },
+    },
+    {
+        id: 'bge',
+        name: 'Budapest Business University',
+        shortName: 'BGE',
+        city: 'Budapest',
+        domains: ['uni-bge.hu'],
+        legacyDomains: ['bgf.hu'],
+        faculties: {
+            'stud.uni-bge.hu': 'Student mail',
+            'kkk.uni-bge.hu': 'Faculty of International Management and Business',
+            'pszk.uni-bge.hu': 'Faculty of Finance and Accountancy',
+            'kvifk.uni-bge.hu': 'Faculty of Commerce, Hospitality and Tourism',
+        },
+    },
+    {
+        id: 'ppke',
+        name: 'Pázmány Péter Catholic University',
+        shortName: 'PPKE',
+        city: 'Budapest',
+        domains: ['ppke.hu'],
+        faculties: {
+            'hallgato.ppke.hu': 'Student mail',
+            'itk.ppke.hu': 'Faculty of Information Technology and Bionics',
+            'btk.ppke.hu': 'Faculty of Humanities and Social Sciences',
+            'jak.ppke.hu': 'Faculty of Law and Political Sciences',
+        },
+    },
+    {
+        id: 'obuda',
+        name: 'Óbuda University',
+        shortName: 'OE',
+        city: 'Budapest',
+        domains: ['uni-obuda.hu'],
+        faculties: {
+            'stud.uni-obuda.hu': 'Student mail',
+            'nik.uni-obuda.hu': 'John von Neumann Faculty of Informatics',
+            'bgk.uni-obuda.hu': 'Bánki Donát Faculty of Mechanical and Safety Engineering',
+            'kvk.uni-obuda.hu': 'Kandó Kálmán Faculty of Electrical Engineering',
+        },
+    },
+    {
+        id: 'nke',
+        name: 'Ludovika University of Public Service',
+        shortName: 'NKE',
+        city: 'Budapest',
+        domains: ['uni-nke.hu'],
+        faculties: {
+            'stud.uni-nke.hu': 'Student mail',
+        },
+    },
+    {
+        id: 'kre',
+        name: 'Károli Gáspár University of the Reformed Church',
+        shortName: 'KRE',
+        city: 'Budapest',
+        domains: ['kre.hu'],
+        faculties: {
+            'student.kre.hu': 'Student mail',
+        },
+    },
+    {
+        id: 'mate',
+        name: 'Hungarian University of Agriculture and Life Sciences',
+        shortName: 'MATE',
+        city: 'Gödöllő',
+        domains: ['uni-mate.hu'],
+        legacyDomains: ['szie.hu'],
+        faculties: {
+            'stud.uni-mate.hu': 'Student mail',
+        },
+    },
+    {
+        id: 'metu',
+        name: 'Budapest Metropolitan University',
+        shortName: 'METU',
+        city: 'Budapest',
+        domains: ['metropolitan.hu'],
+        faculties: {
+            'student.metropolitan.hu': 'Student mail',
+        },
+    },
+    {
+        id: 'mome',
+        name: 'Moholy-Nagy University of Art and Design',
+        shortName: 'MOME',
+        city: 'Budapest',
+        domains: ['mome.hu'],
+    },
+    {
+        id: 'lfze',
+        name: 'Liszt Ferenc Academy of Music',
+        shortName: 'LFZE',
+        city: 'Budapest',
+        domains: ['lfze.hu'],
+    },
+    {
+        id: 'szte',
+        name: 'University of Szeged',
+        shortName: 'SZTE',
+        city: 'Szeged',
+        domains: ['u-szeged.hu'],
+        faculties: {
+            'stud.u-szeged.hu': 'Student mail',
+            'inf.u-szeged.hu': 'Institute of Informatics',
+            'med.u-szeged.hu': 'Albert Szent-Györgyi Medical School',
+        },
+    },
+    {
+        id: 'unideb',
+        name: 'University of Debrecen',
+        shortName: 'DE',
+        city: 'Debrecen',
+        domains: ['unideb.hu'],
+        faculties: {
+            'mailbox.unideb.hu': 'Student mail',
+            'inf.unideb.hu': 'Faculty of Informatics',
+            'med.unideb.hu': 'Faculty of Medicine',
+        },
+    },
+    {
+        id: 'pte',
+        name: 'University of Pécs',
+        shortName: 'PTE',
+        city: 'Pécs',
+        domains: ['pte.hu'],
+        faculties: {
+            'gamma.ttk.pte.hu': 'Student mail (Faculty of Sciences)',
+            'aok.pte.hu': 'Medical School',
+            'ktk.pte.hu': 'Faculty of Business and Economics',
+        },
+    },
+    {
+        id: 'uni-miskolc',
+        name: 'University of Miskolc',
+        shortName: 'ME',
+        city: 'Miskolc',
+        domains: ['uni-miskolc.hu'],
+        faculties: {
+            'student.uni-miskolc.hu': 'Student mail',
+        },
+    },
+    {
+        id: 'sze',
+        name: 'Széchenyi István University',
+        shortName: 'SZE',
+        city: 'Győr',
+        domains: ['sze.hu'],
+        faculties: {
+            'hallgato.sze.hu': 'Student mail',
+        },
+    },
+];
+
+export function emailDomain(email: string): string | null {
+    const at = email.trim().lastIndexOf('@');
+    if (at <= 0 || at === email.trim().length - 1) {
+        return null;
+    }
+    const domain = email.trim().slice(at + 1).toLowerCase().replace(/\.$/, '');
+    return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain) ? domain : null;
+}
+
+function coversDomain(root: string, domain: string): boolean {
+    return domain === root || domain.endsWith(`.${root}`);
+}
+
+/**
+ * Look up the university an email address belongs to. Returns null for
+ * addresses outside the registry, including lookalikes such as
+ * `elte.hu.example.com` or `notelte.hu`.
+ */
+export function matchUniversityEmail(email: string): UniversityEmailMatch | null {
+    const domain = emailDomain(email);
+    if (!domain) {
+        return null;
+    }
+
+    for (const entry of UNIVERSITY_DOMAINS) {
+        const current = entry.domains.some((root) => coversDomain(root, domain));
+        const legacy = !current && (entry.legacyDomains ?? []).some((root) => coversDomain(root, domain));
+        if (!current && !legacy) {
+            continue;
+        }
+
+        // The longest named subdomain wins, so gamma.ttk.pte.hu beats ttk.pte.hu
+        const faculty = Object.entries(entry.faculties ?? {})
+            .filter(([subdomain]) => coversDomain(subdomain, domain))
+            .sort(([a], [b]) => b.length - a.length)[0];
+
+        return {
+            universityId: entry.id,
+            universityName: entry.name,
+            shortName: entry.shortName,
+            domain,
+            faculty: faculty ? faculty[1] : null,
+            campusIds: getCampusesByDomainId(entry.id).map((campus) => campus.id),
+            legacy,
+        };
+    }
+
+    return null;
+}
+
+export function getUniversityDomainEntry(universityId: string): UniversityDomainEntry | undefined {
+    return UNIVERSITY_DOMAINS.find((entry) => entry.id === universityId);
+}
+
+/**
+ * Student ID format for a university; accepts the id, short name or name
+ * users type in, e.g. "ELTE" or "elte". Unknown universities fall back to
+ * the Neptun format every Hungarian university uses.
+ */
+export function isValidStudentId(studentId: string, university: string): boolean {
+    const key = university.trim().toLowerCase();
+    const entry = UNIVERSITY_DOMAINS.find(
+        (candidate) =>
+            candidate.id === key ||
+            candidate.shortName.toLowerCase() === key ||
+            candidate.name.toLowerCase() === key
+    );
+    const pattern = entry?.studentIdPattern ?? NEPTUN_CODE_PATTERN;
+    return pattern.test(studentId.trim().toUpperCase());
+}
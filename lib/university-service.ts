@@ -6,6 +6,7 @@ export interface University {
     latitude: number;
     longitude: number;
     address: string;
+    domainId: string; // entry in lib/university-domains.ts, for email verification
 }
 
 export const universities: University[] = [
@@ -15,7 +16,8 @@ export const universities: University[] = [
         shortName: 'BME',
         latitude: 47.481121,
         longitude: 19.055375,
-        address: 'Műegyetem rkp. 3, 1111'
+        address: 'Műegyetem rkp. 3, 1111',
+        domainId: 'bme'
     },
     {
         id: 'elte-btk',
@@ -23,7 +25,8 @@ export const universities: University[] = [
         shortName: 'ELTE BTK',
         latitude: 47.493979,
         longitude: 19.060136,
-        address: 'Múzeum krt. 4, 1088'
+        address: 'Múzeum krt. 4, 1088',
+        domainId: 'elte'
     },
     {
         id: 'elte-ttk',
@@ -31,7 +34,8 @@ export const universities: University[] = [
         shortName: 'ELTE TTK',
         latitude: 47.473449,
         longitude: 19.062402,
-        address: 'Pázmány Péter stny. 1/A, 1117'
+        address: 'Pázmány Péter stny. 1/A, 1117',
+        domainId: 'elte'
     },
     {
         id: 'corvinus',
@@ -39,7 +43,8 @@ export const universities: University[] = [
         shortName: 'Corvinus',
         latitude: 47.486202,
         longitude: 19.058316,
-        address: 'Fővám tér 8, 1093'
+        address: 'Fővám tér 8, 1093',
+        domainId: 'corvinus'
     },
     {
         id: 'semmelweis',
@@ -47,7 +52,8 @@ export const universities: University[] = [
         shortName: 'Semmelweis',
         latitude: 47.486450,
         longitude: 19.066060,
-        address: 'Üllői út 26, 1085'
+        address: 'Üllői út 26, 1085',
+        domainId: 'semmelweis'
     },
     {
         id: 'bge',
@@ -55,7 +61,8 @@ export const universities: University[] = [
         shortName: 'BGE',
         latitude: 47.505708,
         longitude: 19.113063,
-        address: 'Buzogány u. 10-12, 1149'
+        address: 'Buzogány u. 10-12, 1149',
+        domainId: 'bge'
     }
 ];
 
@@ -67,6 +74,14 @@ export function getUniversityById(id: string): University | undefined {
     return universities.find(u => u.id === id);
 }
 
+/**
+ * Campuses of a university in the email domain registry, e.g. both ELTE
+ * faculties for 'elte'
+ */
+export function getCampusesByDomainId(domainId: string): University[] {
+    return universities.filter(u => u.domainId === domainId);
+}
+
 /**
  * Calculates the distance between two points in meters using the Haversine formula.
  */
@@ -19,12 +19,12 @@ export const apartmentSchema = z.object({
 
 export type ApartmentInput = z.infer<typeof apartmentSchema>;
 
-// Booking validation schema
+// Lease request validation schema; the term is checked against the listing
 export const bookingSchema = z.object({
   apartmentId: z.string().uuid(),
-  userId: z.string().min(1),
-  moveInDate: z.string().datetime(),
-  leaseMonths: z.number().int().min(1).max(36),
+  moveInDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD'),
+  termMonths: z.number().int().min(1).max(36),
+  notes: z.string().max(2000).optional(),
 });
 
 export type BookingInput = z.infer<typeof bookingSchema>;
@@ -3,12 +3,13 @@
  * 
  * Sends events to registered webhook endpoints with:
  * - Signature verification
- * - Automatic retries with exponential backoff
+ * - Durable delivery jobs, retried with exponential backoff by the job queue
  * - Delivery tracking
  */
 
 import { createClient } from '@/utils/supabaseClient';
 import crypto from 'crypto';
+import { jobQueue, PermanentJobError } from '@/services/job-queue-svc';
 
 export interface WebhookEvent {
     event: string;
@@ -33,10 +34,11 @@ export interface WebhookEndpoint {
 
 export class WebhookDispatcher {
     /**
-     * Dispatch event to all registered webhooks
+     * Queue a delivery job for every webhook subscribed to the event
      */
     async dispatch(tenantId: string, event: WebhookEvent): Promise<void> {
         const supabase = createClient();
+        const eventId = event.id ?? crypto.randomUUID();
 
         // Get all webhook endpoints subscribed to this event
         const { data: webhooks } = await supabase
@@ -50,22 +52,32 @@ export class WebhookDispatcher {
             return;
         }
 
-        // Dispatch to all endpoints in parallel
-        await Promise.allSettled(
-            webhooks.map((webhook: any) => this.sendWebhook(webhook, event))
+        await Promise.all(
+            webhooks.map((webhook: WebhookEndpoint) =>
+                jobQueue.enqueue('webhooks', 'webhook.deliver', { webhookId: webhook.id, event: { ...event, id: eventId } }, {
+                    idempotencyKey: `${eventId}:${webhook.id}`,
+                    maxAttempts: webhook.retry_config?.max_attempts || 3,
+                })
+            )
         );
     }
 
     /**
-     * Send webhook to a single endpoint with retry logic
+     * Send one delivery attempt to an endpoint. Throws on failure so the job
+     * queue schedules the next attempt.
      */
-    private async sendWebhook(
-        webhook: WebhookEndpoint,
-        event: WebhookEvent,
-        attempt: number = 1
-    ): Promise<void> {
+    async deliver(webhookId: string, event: WebhookEvent, attempt: number = 1): Promise<{ deliveryId: string; status: number }> {
         const supabase = createClient();
-        const maxAttempts = webhook.retry_config?.max_attempts || 3;
+
+        const { data: webhook } = await supabase
+            .from('webhook_endpoints')
+            .select('*')
+            .eq('id', webhookId)
+            .single();
+
+        if (!webhook || !webhook.enabled) {
+            throw new PermanentJobError(`Webhook ${webhookId} no longer exists or is disabled`);
+        }
 
         // Generate signature for verification
         const signature = this.generateSignature(event, webhook.secret);
@@ -83,8 +95,9 @@ export class WebhookDispatcher {
             .select()
             .single();
 
+        let response: Response;
         try {
-            const response = await fetch(webhook.url, {
+            response = await fetch(webhook.url, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
@@ -97,27 +110,6 @@ export class WebhookDispatcher {
                 body: JSON.stringify(event),
                 signal: AbortSignal.timeout(10000), // 10 second timeout
             });
-
-            const responseBody = await response.text();
-
-            // Update delivery record
-            await supabase
-                .from('webhook_deliveries')
-                .update({
-                    status: response.ok ? 'success' : 'failed',
-                    response_code: response.status,
-                    response_body: responseBody.slice(0, 1000), // Limit size
-                    delivered_at: new Date().toISOString(),
-                })
-                .eq('id', delivery!.id);
-
-            // Retry if failed and haven't exceeded max attempts
-            if (!response.ok && attempt < maxAttempts) {
-                const delay = this.getRetryDelay(attempt, webhook.retry_config?.backoff || 'exponential');
-                setTimeout(() => {
-                    this.sendWebhook(webhook, event, attempt + 1);
-                }, delay);
-            }
         } catch (error) {
             // Update delivery record with error
             await supabase
@@ -128,15 +120,27 @@ export class WebhookDispatcher {
                     delivered_at: new Date().toISOString(),
                 })
                 .eq('id', delivery!.id);
+            throw error;
+        }
+
+        const responseBody = await response.text();
+
+        // Update delivery record
+        await supabase
+            .from('webhook_deliveries')
+            .update({
+                status: response.ok ? 'success' : 'failed',
+                response_code: response.status,
+                response_body: responseBody.slice(0, 1000), // Limit size
+                delivered_at: new Date().toISOString(),
+            })
+            .eq('id', delivery!.id);
 
-            // Retry on network errors
-            if (attempt < maxAttempts) {
-                const delay = this.getRetryDelay(attempt, webhook.retry_config?.backoff || 'exponential');
-                setTimeout(() => {
-                    this.sendWebhook(webhook, event, attempt + 1);
-                }, delay);
-            }
+        if (!response.ok) {
+            throw new Error(`Webhook endpoint responded with ${response.status}`);
         }
+
+        return { deliveryId: delivery!.id, status: response.status };
     }
 
     /**
@@ -150,17 +154,6 @@ export class WebhookDispatcher {
             .digest('hex');
     }
 
-    /**
-     * Calculate retry delay with backoff
-     */
-    private getRetryDelay(attempt: number, strategy: 'linear' | 'exponential'): number {
-        if (strategy === 'exponential') {
-            return Math.min(1000 * Math.pow(2, attempt - 1), 30000); // Max 30 seconds
-        } else {
-            return 1000 * attempt; // Linear: 1s, 2s, 3s...
-        }
-    }
-
     /**
      * Verify webhook signature (for incoming webhooks from external services)
      */
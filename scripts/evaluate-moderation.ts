@@ -0,0 +1,42 @@
+import dotenv from 'dotenv';
+import path from 'path';
+
+// Load environment variables before the LLM provider reads its configuration
+dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
+
+/**
+ * Evaluate the trust & safety pipeline against the labelled samples.
+ *   npm run moderation:eval            rules only (offline, deterministic)
+ *   npm run moderation:eval -- --llm   with the LLM fallback for unsure cases
+ * Exits non-zero when a benign sample is blocked or a scam is allowed.
+ */
+async function evaluateModeration() {
+    const useLLM = process.argv.includes('--llm');
+
+    const { ruleClassifiers } = await import('../lib/trust-safety/classifiers');
+    const { ModerationPipeline, evaluatePipeline } = await import('../lib/trust-safety/pipeline');
+    const { LABELLED_SAMPLES } = await import('../lib/trust-safety/labelled-samples');
+    const { createLLMClassifier } = await import('../lib/trust-safety/llm-classifier');
+
+    const pipeline = new ModerationPipeline(ruleClassifiers(), useLLM ? { fallback: createLLMClassifier() } : {});
+    const report = await evaluatePipeline(pipeline, LABELLED_SAMPLES);
+
+    console.log(`Moderation evaluation (${useLLM ? 'rules + LLM fallback' : 'rules only'}), ${report.total} samples`);
+    console.log(`  Decision accuracy: ${(report.decisionAccuracy * 100).toFixed(1)}%`);
+    console.log(`  False blocks:      ${report.falseBlocks}`);
+    console.log(`  Missed scams:      ${report.missedScams}`);
+    console.log('  Label                      precision  recall');
+    for (const [label, metrics] of Object.entries(report.perLabel)) {
+        console.log(`  ${label.padEnd(26)} ${metrics.precision.toFixed(2).padStart(9)}  ${metrics.recall.toFixed(2).padStart(6)}`);
+    }
+    for (const mistake of report.mistakes) {
+        console.log(`  ✗ ${mistake.id}: expected ${mistake.expected}, got ${mistake.actual} [${mistake.labels.join(', ')}]`);
+    }
+
+    process.exit(report.falseBlocks || report.missedScams ? 1 : 0);
+}
+
+evaluateModeration().catch((error) => {
+    console.error('Moderation evaluation failed:', error);
+    process.exit(1);
+});
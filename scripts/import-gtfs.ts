@@ -0,0 +1,32 @@
+import dotenv from 'dotenv';
+import path from 'path';
+
+// Load environment variables before the services read DATABASE_URL
+dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
+
+async function importGtfs() {
+    const feedPath = process.argv[2] || process.env.GTFS_FEED_PATH;
+
+    if (!feedPath) {
+        console.error('Usage: npm run gtfs:import -- <path to BKK GTFS zip or directory>');
+        process.exit(1);
+    }
+
+    const { commuteAndPricingService } = await import('../services/commute-and-pricing-svc');
+
+    console.log(`Importing GTFS feed from ${feedPath}...`);
+    const summary = await commuteAndPricingService.integrateGTFSData(path.resolve(feedPath));
+
+    console.log('GTFS import complete:');
+    console.log(`  Stops:      ${summary.stops}`);
+    console.log(`  Routes:     ${summary.routes}`);
+    console.log(`  Trips:      ${summary.trips}`);
+    console.log(`  Stop times: ${summary.stopTimes}`);
+    console.log(`  Valid:      ${summary.validFrom ?? '?'} → ${summary.validTo ?? '?'}`);
+    process.exit(0);
+}
+
+importGtfs().catch((error) => {
+    console.error('GTFS import failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,43 @@
+import dotenv from 'dotenv';
+import path from 'path';
+
+// Load environment variables before the repository reads DATABASE_URL
+dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
+
+/**
+ * Produce an extract with either:
+ *   Overpass: [out:json]; area["name"="Budapest"]->.a;
+ *             (nwr(area.a)[amenity]; nwr(area.a)[shop]; nwr(area.a)[leisure];
+ *              nwr(area.a)[highway=bus_stop]; nwr(area.a)[railway]; nwr(area.a)[public_transport]);
+ *             out center;
+ *   osmium:   osmium tags-filter hungary.osm.pbf nwr/amenity,shop,leisure,highway=bus_stop,railway,public_transport -o pois.pbf
+ *             osmium export pois.pbf -o pois.geojson --attributes type,id
+ */
+async function importOsm() {
+    const extractPath = process.argv[2] || process.env.OSM_EXTRACT_PATH;
+
+    if (!extractPath) {
+        console.error('Usage: npm run osm:import -- <path to Overpass JSON or osmium GeoJSON extract>');
+        process.exit(1);
+    }
+
+    const { parseOsmFile } = await import('../lib/osm/parser');
+    const { persistOsmPois } = await import('../lib/osm/repository');
+
+    console.log(`Importing OSM extract from ${extractPath}...`);
+    const { pois, skipped } = parseOsmFile(path.resolve(extractPath));
+    const summary = await persistOsmPois(pois, skipped, path.basename(extractPath));
+
+    console.log('OSM import complete:');
+    console.log(`  POIs:    ${summary.pois}`);
+    console.log(`  Skipped: ${summary.skipped}`);
+    for (const [category, count] of Object.entries(summary.byCategory)) {
+        console.log(`  ${category.padEnd(12)} ${count}`);
+    }
+    process.exit(0);
+}
+
+importOsm().catch((error) => {
+    console.error('OSM import failed:', error);
+    process.exit(1);
+});
@@ -1,37 +1,474 @@
+// Batch Scoring Service - Scores apartments against a user profile
+// Deterministic feature scoring (lib/ai/feature-scorer) with optional LLM
+// blending behind the provider's circuit breaker, bounded concurrency and a
+// per-user score cache (in-process LRU backed by apartment_match_scores)
+
+import { createHash } from 'crypto';
 import { logger } from '@/utils/logger';
+import { runQuery } from '@/lib/db/pool';
+import { LRUCache } from '@/lib/cache/lru';
+import { CircuitBreaker } from '@/lib/circuit-breaker';
+import { getLLM } from '@/lib/llm/provider';
+import { parseAdvancedQuery, type EnhancedSearchQuery } from '@/lib/ai/advanced-parser';
+import { scoreApartmentMatch } from '@/lib/ai/feature-scorer';
+import type { Apartment } from '@/types/apartment';
+
+export interface ScoringProfile {
+  budget?: number;
+  preferences?: string[] | string;
+  location?: string;
+  priorities?: string[];
+  personality?: any;
+}
+
+export interface BatchScoringOptions {
+  userId?: string | null;
+  useLlm?: boolean; // Blend in LLM scores (default: BATCH_SCORING_USE_LLM)
+  concurrency?: number;
+}
+
+export interface ApartmentScoreResult {
+  apartmentId: string;
+  aiScore: number | null; // 0-100
+  reasons: string[];
+  compromises: string[];
+  breakdown: Record<string, number> | null;
+  source: 'features' | 'features+llm' | null;
+  cached: boolean;
+  success: boolean;
+  error?: string;
+}
+
+export interface BatchScoringResult {
+  successful: number;
+  failed: number;
+  results: ApartmentScoreResult[];
+  totalTime: number;
+  circuitBreakerOpen: boolean;
+}
+
+interface CachedScore {
+  profileHash: string;
+  score: number;
+  reasons: string[];
+  compromises: string[];
+  breakdown: Record<string, number>;
+  source: 'features' | 'features+llm';
+  scoredAt: number;
+}
+
+const DEFAULT_CONCURRENCY = 5;
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const LLM_WEIGHT = 0.4; // Share of the final score taken from the LLM when enabled
+// Providers without a breaker (fixtures) always report as closed
+const NO_BREAKER = new CircuitBreaker();
+
+const ROMAN_DISTRICTS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X', 'XI', 'XII', 'XIII',
+  'XIV', 'XV', 'XVI', 'XVII', 'XVIII', 'XIX', 'XX', 'XXI', 'XXII', 'XXIII'];
+
+/**
+ * Run tasks with at most `limit` in flight, keeping result order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
+
+/**
+ * District number from "District VIII", "VIII. kerület", "1085 Budapest" or 8
+ */
+export function parseDistrict(value: unknown): number | undefined {
+  if (typeof value === 'number' && value >= 1 && value <= 23) return value;
+  if (typeof value !== 'string') return undefined;
+
+  const postal = value.match(/\b1(\d{2})\d\b/);
+  if (postal && Number(postal[1]) >= 1 && Number(postal[1]) <= 23) return Number(postal[1]);
+
+  const numeric = value.match(/(?:district|kerület|ker\.)\s*(\d{1,2})\b|\b(\d{1,2})\.\s*(?:district|kerület|ker\.)/i);
+  if (numeric) return parseDistrict(Number(numeric[1] || numeric[2]));
+
+  const roman = value.match(/\b([IVX]{1,5})\.?\s*(?:district|kerület|ker\.)|(?:district)\s+([IVX]{1,5})\b/i);
+  if (roman) {
+    const index = ROMAN_DISTRICTS.indexOf((roman[1] || roman[2]).toUpperCase());
+    if (index >= 0) return index + 1;
+  }
+  return undefined;
+}
 
-export const batchScoringService = {
-  scoreBatch: async (items: any[]) => {
-    logger.info({ count: items.length }, 'Batch scoring started');
-    return items.map(item => ({ ...item, score: Math.random() * 100 }));
-  },
-  scheduleScoring: async () => {
-    logger.info('Scoring scheduled');
-  },
-  processQueue: async () => {
-    logger.info('Processing scoring queue');
-  },
-  scoreApartmentBatch: async (apartments: any[], userProfile: any) => {
+/**
+ * Map the loose apartment shapes used by the API routes onto Apartment
+ */
+export function toScorableApartment(input: any): Apartment {
+  const amenities = [
+    ...(Array.isArray(input.amenities) ? input.amenities : []),
+    ...(Array.isArray(input.features) ? input.features : []),
+  ].filter((item): item is string => typeof item === 'string');
+
+  return {
+    ...input,
+    id: String(input.id),
+    title: input.title || '',
+    description: input.description || '',
+    price_huf: Number(input.price_huf ?? input.price ?? 0),
+    address: input.address || input.location || '',
+    district: input.district ?? parseDistrict(input.address || input.location) ?? 0,
+    latitude: input.latitude ?? 0,
+    longitude: input.longitude ?? 0,
+    bedrooms: Number(input.bedrooms ?? input.rooms ?? 0),
+    bathrooms: Number(input.bathrooms ?? 0),
+    kitchen: Number(input.kitchen ?? 0),
+    balcony: Number(input.balcony ?? (amenities.some((a) => /balcony|erkély/i.test(a)) ? 1 : 0)),
+    amenities,
+    size_sqm: input.size_sqm ?? input.size,
+  };
+}
+
+/**
+ * Preferences arrive as an array, a JSON array string (user_profiles.data) or CSV
+ */
+function parsePreferences(value: ScoringProfile['preferences']): string[] {
+  if (Array.isArray(value)) return value.filter((item) => typeof item === 'string');
+  if (typeof value !== 'string' || !value.trim()) return [];
+  if (value.trim().startsWith('[')) {
+    try {
+      return parsePreferences(JSON.parse(value));
+    } catch {
+      // Fall through to comma separated
+    }
+  }
+  return value.split(',');
+}
+
+/**
+ * Build the structured query the feature scorer expects from a user profile
+ */
+export function profileToQuery(profile: ScoringProfile): EnhancedSearchQuery {
+  const preferences = parsePreferences(profile.preferences);
+
+  const query = parseAdvancedQuery([profile.location, ...preferences].filter(Boolean).join(' '));
+
+  // The text parser reads any number as a price ("District 9"), so only the
+  // explicit budget sets the range
+  query.priceRange = profile.budget && profile.budget > 0
+    ? { min: 0, max: Number(profile.budget) }
+    : undefined;
+
+  const district = parseDistrict(profile.location);
+  if (district && !query.districts?.length) {
+    query.districts = [district];
+  }
+
+  // Amenity keys use the scorer's snake_case names (e.g. "Washing Machine" -> washing_machine)
+  const keys = preferences.map((pref) => pref.trim().toLowerCase().replace(/[\s-]+/g, '_')).filter(Boolean);
+  query.amenityPriorities.important = Array.from(new Set([...query.amenityPriorities.important, ...keys]));
+  for (const priority of profile.priorities || []) {
+    const key = priority.trim().toLowerCase().replace(/[\s-]+/g, '_');
+    if (key && !query.amenityPriorities.essential.includes(key)) {
+      query.amenityPriorities.essential.push(key);
+    }
+  }
+
+  return query;
+}
+
+class BatchScoringService {
+  private memoryCache = new LRUCache<string, CachedScore>(5000);
+  private cacheHits = 0;
+  private persistentHits = 0;
+  private cacheMisses = 0;
+
+  /**
+   * Score apartments for one user profile. Results keep the input order.
+   */
+  async scoreApartmentBatch(
+    apartments: any[],
+    userProfile: ScoringProfile,
+    options: BatchScoringOptions = {}
+  ): Promise<BatchScoringResult> {
     const startTime = Date.now();
-    logger.info({ count: apartments.length }, 'Scoring apartment batch');
-    const scoredApartments = apartments.map(apt => ({
-      ...apt,
-      score: Math.random() * 100,
-      matchReasons: ['Good location', 'Affordable'],
-    }));
-    const totalTime = Date.now() - startTime;
+    const profile = userProfile || {};
+    const profileHash = this.hashProfile(profile);
+    const userId = options.userId || null;
+    const useLlm = options.useLlm ?? process.env.BATCH_SCORING_USE_LLM === 'true';
+    const query = profileToQuery(profile);
+
+    logger.info({ count: apartments.length, userId, useLlm }, 'Scoring apartment batch');
+
+    const cached = await this.loadCachedScores(userId, profileHash, apartments.map((apt) => String(apt.id)));
+    const toPersist: Array<{ apartmentId: string; entry: CachedScore }> = [];
+
+    const results = await mapWithConcurrency(
+      apartments,
+      options.concurrency ?? DEFAULT_CONCURRENCY,
+      async (input): Promise<ApartmentScoreResult> => {
+        const apartmentId = String(input?.id ?? '');
+        const hit = cached.get(apartmentId);
+        if (hit) {
+          return this.toResult(apartmentId, hit, true);
+        }
+
+        try {
+          const entry = await this.scoreOne(input, profile, profileHash, query, useLlm);
+          this.memoryCache.set(this.cacheKey(userId, apartmentId), entry);
+          toPersist.push({ apartmentId, entry });
+          return this.toResult(apartmentId, entry, false);
+        } catch (error: any) {
+          logger.error({ apartmentId, err: error?.message }, 'Apartment scoring failed');
+          return {
+            apartmentId,
+            aiScore: null,
+            reasons: [],
+            compromises: [],
+            breakdown: null,
+            source: null,
+            cached: false,
+            success: false,
+            error: error?.message || 'Scoring failed',
+          };
+        }
+      }
+    );
+
+    await this.persistScores(userId, toPersist);
+
+    const successful = results.filter((result) => result.success).length;
+    return {
+      successful,
+      failed: results.length - successful,
+      results,
+      totalTime: Date.now() - startTime,
+      circuitBreakerOpen: this.isCircuitOpen(),
+    };
+  }
+
+  /**
+   * Score items without a user profile (generic quality ordering)
+   */
+  async scoreBatch(items: any[]) {
+    const { results } = await this.scoreApartmentBatch(items, {});
+    return items.map((item, index) => ({ ...item, score: results[index].aiScore ?? 0 }));
+  }
+
+  getCircuitBreakerStatus() {
+    const status = this.getCircuitBreaker().getStatus();
+    return {
+      isOpen: status.state === 'OPEN',
+      failures: status.failureCount,
+      ...status,
+    };
+  }
+
+  getCacheStats() {
+    const hits = this.cacheHits + this.persistentHits;
+    const total = hits + this.cacheMisses;
     return {
-      successful: scoredApartments.length,
-      failed: 0,
-      results: scoredApartments,
-      totalTime,
-      circuitBreakerOpen: false,
+      hits,
+      memoryHits: this.cacheHits,
+      persistentHits: this.persistentHits,
+      misses: this.cacheMisses,
+      hitRate: total > 0 ? hits / total : 0,
+      size: this.memoryCache.size(),
     };
-  },
-  getCircuitBreakerStatus: () => {
-    return { isOpen: false, failures: 0, state: 'closed' };
-  },
-  getCacheStats: () => {
-    return { hits: 0, misses: 0, size: 0 };
-  },
-};
+  }
+
+  private async scoreOne(
+    input: any,
+    profile: ScoringProfile,
+    profileHash: string,
+    query: EnhancedSearchQuery,
+    useLlm: boolean
+  ): Promise<CachedScore> {
+    if (!input?.id) {
+      throw new Error('Apartment id is required');
+    }
+
+    const apartment = toScorableApartment(input);
+    const match = scoreApartmentMatch(apartment, query);
+
+    const entry: CachedScore = {
+      profileHash,
+      score: match.totalScore,
+      reasons: match.pros.length > 0 ? match.pros : [match.matchReason],
+      compromises: match.cons,
+      breakdown: { ...match.scoreBreakdown },
+      source: 'features',
+      scoredAt: Date.now(),
+    };
+
+    if (useLlm && !this.isCircuitOpen()) {
+      try {
+        const { calculateSuitabilityScore } = await import('@/utils/gemini');
+        // The LLM service records the outcome on its own circuit breaker
+        const llm = await calculateSuitabilityScore(input, profile, profile.personality);
+        if (typeof llm?.score === 'number') {
+          entry.score = Math.round(match.totalScore * (1 - LLM_WEIGHT) + Math.min(100, Math.max(0, llm.score)) * LLM_WEIGHT);
+          entry.reasons = [
+            ...(llm.reasons || []).map((reason) => reason.description).filter(Boolean).slice(0, 3),
+            ...entry.reasons,
+          ].slice(0, 5);
+          entry.compromises = Array.from(new Set([...entry.compromises, ...(llm.compromises || [])])).slice(0, 5);
+          entry.source = 'features+llm';
+        }
+      } catch (error: any) {
+        // Feature score stands on its own when the LLM is unavailable
+        logger.warn({ apartmentId: apartment.id, err: error?.message }, 'LLM scoring skipped');
+      }
+    }
+
+    return entry;
+  }
+
+  private toResult(apartmentId: string, entry: CachedScore, cached: boolean): ApartmentScoreResult {
+    return {
+      apartmentId,
+      aiScore: entry.score,
+      reasons: entry.reasons,
+      compromises: entry.compromises,
+      breakdown: entry.breakdown,
+      source: entry.source,
+      cached,
+      success: true,
+    };
+  }
+
+  /**
+   * Fresh scores for this profile: in-process LRU first, then apartment_match_scores
+   */
+  private async loadCachedScores(
+    userId: string | null,
+    profileHash: string,
+    apartmentIds: string[]
+  ): Promise<Map<string, CachedScore>> {
+    const found = new Map<string, CachedScore>();
+    const missing: string[] = [];
+
+    for (const apartmentId of apartmentIds) {
+      const entry = this.memoryCache.get(this.cacheKey(userId, apartmentId));
+      if (entry && entry.profileHash === profileHash && Date.now() - entry.scoredAt < CACHE_TTL_MS) {
+        found.set(apartmentId, entry);
+        this.cacheHits++;
+      } else {
+        missing.push(apartmentId);
+      }
+    }
+
+    if (userId && missing.length > 0) {
+      try {
+        const { rows } = await runQuery<{
+          apartment_id: string;
+          score: number;
+          reasons: string[];
+          compromises: string[];
+          breakdown: Record<string, number>;
+          source: 'features' | 'features+llm';
+          scored_at: string;
+        }>(
+          `
+          SELECT apartment_id, score, reasons, compromises, breakdown, source, scored_at
+          FROM apartment_match_scores
+          WHERE user_id = $1
+            AND profile_hash = $2
+            AND apartment_id::text = ANY($3::text[])
+            AND scored_at >= NOW() - ($4::int * interval '1 millisecond')
+        `,
+          [userId, profileHash, missing, CACHE_TTL_MS]
+        );
+
+        for (const row of rows) {
+          const entry: CachedScore = {
+            profileHash,
+            score: Number(row.score),
+            reasons: row.reasons || [],
+            compromises: row.compromises || [],
+            breakdown: row.breakdown || {},
+            source: row.source,
+            scoredAt: new Date(row.scored_at).getTime(),
+          };
+          found.set(row.apartment_id, entry);
+          this.memoryCache.set(this.cacheKey(userId, row.apartment_id), entry);
+          this.persistentHits++;
+        }
+      } catch (error: any) {
+        logger.warn({ err: error?.message }, 'Score cache lookup failed');
+      }
+    }
+
+    this.cacheMisses += apartmentIds.length - found.size;
+    return found;
+  }
+
+  private async persistScores(userId: string | null, scores: Array<{ apartmentId: string; entry: CachedScore }>) {
+    if (!userId || scores.length === 0) return;
+
+    try {
+      await runQuery(
+        `
+        INSERT INTO apartment_match_scores
+          (user_id, apartment_id, profile_hash, score, reasons, compromises, breakdown, source, scored_at)
+        SELECT $1, s.apartment_id, $2, s.score, s.reasons, s.compromises, s.breakdown, s.source, now()
+        FROM jsonb_to_recordset($3::jsonb) AS s(
+          apartment_id uuid, score integer, reasons text[], compromises text[], breakdown jsonb, source text
+        )
+        ON CONFLICT (user_id, apartment_id) DO UPDATE SET
+          profile_hash = EXCLUDED.profile_hash,
+          score = EXCLUDED.score,
+          reasons = EXCLUDED.reasons,
+          compromises = EXCLUDED.compromises,
+          breakdown = EXCLUDED.breakdown,
+          source = EXCLUDED.source,
+          scored_at = EXCLUDED.scored_at
+      `,
+        [
+          userId,
+          scores[0].entry.profileHash,
+          JSON.stringify(scores.map(({ apartmentId, entry }) => ({
+            apartment_id: apartmentId,
+            score: entry.score,
+            reasons: entry.reasons,
+            compromises: entry.compromises,
+            breakdown: entry.breakdown,
+            source: entry.source,
+          }))),
+        ]
+      );
+    } catch (error: any) {
+      // Scores are still returned; only the cache write is lost
+      logger.warn({ userId, err: error?.message }, 'Score cache write failed');
+    }
+  }
+
+  private hashProfile(profile: ScoringProfile): string {
+    const { personality, ...rest } = profile;
+    const normalized = JSON.stringify(rest, Object.keys(rest).sort());
+    return createHash('sha256').update(normalized + JSON.stringify(personality ?? null)).digest('hex').slice(0, 16);
+  }
+
+  private cacheKey(userId: string | null, apartmentId: string): string {
+    return `${userId || 'anonymous'}:${apartmentId}`;
+  }
+
+  private getCircuitBreaker(): CircuitBreaker {
+    return getLLM().getCircuitBreaker() ?? NO_BREAKER;
+  }
+
+  /**
+   * Open and still cooling down; once the cooldown passes the next call goes
+   * through execute() so the breaker can move to HALF_OPEN
+   */
+  private isCircuitOpen(): boolean {
+    const status = this.getCircuitBreaker().getStatus();
+    return status.state === 'OPEN' && (status.timeSinceLastFailure ?? Infinity) < status.cooldownMs;
+  }
+}
+
+export const batchScoringService = new BatchScoringService();
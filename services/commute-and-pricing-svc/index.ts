@@ -2,6 +2,13 @@
 // Handles GTFS data, commute calculations, and pricing predictions
 
 import { createClient, createServiceClient } from '@/utils/supabaseClient';
+import { getLocalGtfsTimetable, getLocalRaptorRouter, setLocalGtfsTimetable } from '@/lib/gtfs/local-feed';
+import { loadGtfsFeed } from '@/lib/gtfs/parser';
+import type { TransitLeg } from '@/lib/gtfs/raptor';
+import { persistGtfsFeed, type GtfsImportSummary } from '@/lib/gtfs/repository';
+import { haversineMeters } from '@/lib/gtfs/stop-index';
+import { GtfsTimetable, toServiceDay } from '@/lib/gtfs/timetable';
+import { rentModelService } from '@/services/pricing-svc/model';
 
 export interface CommuteRoute {
   startPoint: { lat: number; lng: number };
@@ -29,6 +36,7 @@ export interface PricingPrediction {
   predictedPrice: number;
   priceDirection: 'up' | 'down' | 'stable';
   confidence: number; // 0-1
+  modelVersion: number;
   factors: {
     demandTrend: number;
     seasonality: number;
@@ -47,62 +55,77 @@ export interface DistrictPricingTrend {
   affordabilityIndex: number; // 0-100, higher = more affordable
 }
 
+// Straight-line speeds for the modes the timetable does not cover
+const MODE_METERS_PER_MINUTE = {
+  walking: 5_000 / 60,
+  cycling: 15_000 / 60,
+  driving: 30_000 / 60,
+};
+
 export class CommuteAndPricingService {
   private gtfsData: Map<string, any> = new Map();
   private pricingCache: Map<string, PricingPrediction> = new Map();
 
+  /**
+   * Transit, walking and (when asked for) cycling or driving routes from an
+   * apartment to a destination. Transit comes from the RAPTOR router over the
+   * local GTFS timetable loaded by integrateGTFSData (or GTFS_FEED_PATH) and
+   * is left out when there is no feed or no connection at that time.
+   */
   async calculateCommute(
+    apartmentId: string,
     apartmentLat: number,
     apartmentLng: number,
     destinationName: string,
     transportMode: 'transit' | 'walking' | 'cycling' | 'driving' = 'transit',
-    destinationCoords?: { lat: number; lng: number }
+    destinationCoords?: { lat: number; lng: number },
+    departAt: Date = new Date()
   ): Promise<CommuteAnalysis> {
     try {
-      // For demo: use mock data or external API
-      // In production: integrate Google Maps Distance Matrix, GTFS data, etc.
+      const startPoint = { lat: apartmentLat, lng: apartmentLng };
+      const endPoint = destinationCoords || { lat: 47.4979, lng: 19.0402 }; // Budapest center default
+      const straightLineMeters = haversineMeters(startPoint, endPoint);
 
       const routes: CommuteRoute[] = [];
 
-      // Transit route (if available)
-      if (transportMode === 'transit' || true) {
-        routes.push({
-          startPoint: { lat: apartmentLat, lng: apartmentLng },
-          endPoint: destinationCoords || { lat: 47.4979, lng: 19.0402 }, // Budapest center default
-          transportMode: 'transit',
-          duration: Math.floor(Math.random() * 30) + 15, // 15-45 min
-          distance: Math.floor(Math.random() * 10) + 5, // 5-15 km
-          frequency: Math.floor(Math.random() * 6) + 2, // 2-8 per hour
-          cost: 430, // Budapest monthly pass
-        });
+      const transitRoute = this.routeTransit(startPoint, endPoint, departAt);
+      if (transitRoute) {
+        routes.push(transitRoute);
       }
 
-      // Walking route
-      if (transportMode === 'walking' || true) {
+      routes.push({
+        startPoint,
+        endPoint,
+        transportMode: 'walking',
+        duration: Math.round(straightLineMeters / MODE_METERS_PER_MINUTE.walking),
+        distance: Math.round(straightLineMeters / 100) / 10,
+      });
+
+      if (transportMode === 'cycling' || transportMode === 'driving') {
         routes.push({
-          startPoint: { lat: apartmentLat, lng: apartmentLng },
-          endPoint: destinationCoords || { lat: 47.4979, lng: 19.0402 },
-          transportMode: 'walking',
-          duration: Math.floor(Math.random() * 90) + 30, // 30-120 min
-          distance: Math.floor(Math.random() * 8) + 3, // 3-11 km
+          startPoint,
+          endPoint,
+          transportMode,
+          duration: Math.round(straightLineMeters / MODE_METERS_PER_MINUTE[transportMode]),
+          distance: Math.round(straightLineMeters / 100) / 10,
         });
       }
 
       // Calculate walkability score based on distance/terrain
-      const walkabilityScore = Math.max(0, 100 - (routes[1]?.distance || 10) * 8);
+      const walkingRoute = routes.find(r => r.transportMode === 'walking')!;
+      const walkabilityScore = Math.max(0, 100 - walkingRoute.distance * 8);
 
       // Calculate transit score
-      const transitRoute = routes.find(r => r.transportMode === 'transit');
       const transitScore = transitRoute ? Math.max(0, 100 - (transitRoute.duration - 15) * 2) : 50;
 
       // Overall accessibility
       const overallAccessibility = (walkabilityScore + transitScore) / 2;
 
       return {
-        apartmentId: `apt-${Math.random().toString(36).substr(2, 9)}`,
+        apartmentId,
         destinationName,
         routes,
-        bestRoute: routes.sort((a, b) => a.duration - b.duration)[0],
+        bestRoute: [...routes].sort((a, b) => a.duration - b.duration)[0],
         walkabilityScore,
         transitScore,
         overallAccessibility,
@@ -113,6 +136,45 @@ export class CommuteAndPricingService {
     }
   }
 
+  /**
+   * Earliest-arrival transit route, with the departures per hour of its first line
+   */
+  private routeTransit(
+    startPoint: { lat: number; lng: number },
+    endPoint: { lat: number; lng: number },
+    departAt: Date
+  ): CommuteRoute | null {
+    const router = getLocalRaptorRouter();
+    const timetable = getLocalGtfsTimetable();
+    if (!router || !timetable) {
+      return null;
+    }
+
+    const itinerary = router.route(startPoint, endPoint, departAt);
+    const rides = itinerary?.legs.filter((leg): leg is TransitLeg => leg.mode === 'transit') ?? [];
+    if (!itinerary || rides.length === 0) {
+      // Walking beats every connection, so the walking route covers it
+      return null;
+    }
+
+    const distanceMeters = itinerary.legs.reduce(
+      (sum, leg) => sum + (leg.mode === 'walk' ? leg.distanceMeters : haversineMeters(leg.from, leg.to)),
+      0
+    );
+
+    return {
+      startPoint,
+      endPoint,
+      transportMode: 'transit',
+      duration: itinerary.totalMinutes,
+      distance: Math.round(distanceMeters / 100) / 10,
+      frequency: rides[0].from.stopId
+        ? timetable.departuresPerHour(rides[0].from.stopId, toServiceDay(departAt), rides[0].departure)
+        : undefined,
+      cost: 430, // Budapest monthly pass
+    };
+  }
+
   async predictApartmentPrice(apartmentId: string): Promise<PricingPrediction> {
     try {
       // Check cache first
@@ -120,39 +182,27 @@ export class CommuteAndPricingService {
         return this.pricingCache.get(apartmentId)!;
       }
 
-      const supabase = createServiceClient();
-
-      // Get current apartment data
-      const { data: apartment } = await supabase
-        .from('apartments')
-        .select('*, profiles:owner_id(created_at)')
-        .eq('id', apartmentId)
-        .single();
+      const listed = await rentModelService.estimateForApartment(apartmentId);
 
-      if (!apartment) {
+      if (!listed) {
         throw new Error(`Apartment ${apartmentId} not found`);
       }
+      if (!listed.estimate) {
+        throw new Error('The rent model has not been trained yet');
+      }
 
-      const currentPrice = apartment.price;
-
-      // Get market comparables
-      const { data: comparables } = await supabase
-        .from('apartments')
-        .select('price')
-        .eq('district', apartment.district)
-        .eq('bedrooms', apartment.bedrooms)
-        .gt('price', currentPrice * 0.8)
-        .lt('price', currentPrice * 1.2);
-
-      const marketAverage = comparables && comparables.length > 0
-        ? comparables.reduce((sum, apt) => sum + apt.price, 0) / comparables.length
-        : currentPrice;
+      const currentPrice = listed.rentHuf;
+      const marketAverage = listed.estimate.estimateHuf; // What the rent model expects for this flat
 
       // Calculate pricing factors
-      const demandTrend = Math.random() * 0.3 - 0.15; // -15% to +15%
+      // Median asking-price change in the district over the last 90 days
+      const demandTrend = (listed.quantiles?.trendPct ?? 0) / 100;
       const seasonality = this.getSeasonalityFactor();
       const marketFactor = (marketAverage - currentPrice) / currentPrice;
-      const competitorFactor = -0.05; // Competitive pressure
+      // Where the listing sits against the district's median asking rent (district_rent_quantiles)
+      const competitorFactor = listed.quantiles
+        ? (listed.quantiles.p50Huf - currentPrice) / currentPrice
+        : 0;
 
       // Weighted prediction
       const factors = {
@@ -164,7 +214,7 @@ export class CommuteAndPricingService {
 
       const priceChange = (demandTrend * 0.3 + seasonality * 0.2 + marketFactor * 0.3 + competitorFactor * 0.2);
       const predictedPrice = currentPrice * (1 + priceChange);
-      const confidence = Math.random() * 0.3 + 0.7; // 0.7-1.0
+      const confidence = listed.estimate.confidence;
 
       const prediction: PricingPrediction = {
         apartmentId,
@@ -172,6 +222,7 @@ export class CommuteAndPricingService {
         predictedPrice: Math.round(predictedPrice),
         priceDirection: priceChange > 0.05 ? 'up' : priceChange < -0.05 ? 'down' : 'stable',
         confidence,
+        modelVersion: listed.estimate.modelVersion,
         factors,
         recommendedPrice: Math.round(predictedPrice * 0.95), // 5% discount for competitiveness
       };
@@ -268,23 +319,41 @@ export class CommuteAndPricingService {
     }
   }
 
-  async integrateGTFSData(feedUrl: string): Promise<void> {
+  /**
+   * Ingest a local BKK GTFS zip (or extracted directory): parse the feed,
+   * build the stop index, persist the timetable and share it in-process.
+   */
+  async integrateGTFSData(feedUrl: string): Promise<GtfsImportSummary> {
     try {
-      // In production: parse GTFS zip from feedUrl, extract stops, routes, schedules
-      // For demo: just log the intention
-      console.log(`GTFS data integration for feed: ${feedUrl}`);
-      console.log('In production, this would:');
-      console.log('1. Download GTFS zip file');
-      console.log('2. Parse stops.txt, routes.txt, stop_times.txt');
-      console.log('3. Index by geographic coordinates');
-      console.log('4. Enable real-time transit accessibility calculations');
+      const feed = loadGtfsFeed(feedUrl);
+      const timetable = new GtfsTimetable(feed);
+
+      if (timetable.stopIndex.size === 0) {
+        throw new Error(`GTFS feed ${feedUrl} contains no routable stops`);
+      }
+
+      const summary = await persistGtfsFeed(feed, timetable, feedUrl);
+      setLocalGtfsTimetable(timetable);
 
       this.gtfsData.set(feedUrl, {
-        loadedAt: new Date(),
+        loadedAt: summary.importedAt,
         status: 'loaded',
+        summary,
       });
+
+      console.log(
+        `GTFS feed ${feedUrl} imported: ${summary.stops} stops, ${summary.routes} routes, ${summary.trips} trips, ${summary.stopTimes} stop times`
+      );
+
+      return summary;
     } catch (error) {
       console.error('GTFS integration error:', error);
+      this.gtfsData.set(feedUrl, {
+        loadedAt: new Date(),
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
     }
   }
 }
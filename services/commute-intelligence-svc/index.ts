@@ -1,8 +1,8 @@
 // Commute Intelligence Service for Student Apartments
 // Integrates BKK GTFS data and provides commute time calculations
 import { createClient } from '@supabase/supabase-js';
-import { readFileSync, existsSync } from 'fs';
-import { join } from 'path';
+import { getLocalGtfsTimetable } from '@/lib/gtfs/local-feed';
+import { toServiceDay, type GtfsTimetable } from '@/lib/gtfs/timetable';
 
 export interface CommuteQuery {
   fromLat: number;
@@ -31,7 +31,8 @@ export interface University {
 
 export class CommuteIntelligenceService {
   private _supabase: any = null;
-  private gtfsData: any = null;
+  private gtfsData: GtfsTimetable | null = null;
+  private gtfsLoadAttempted = false;
   private universities: University[] = [];
 
   private getSupabase(): any {
@@ -49,7 +50,7 @@ export class CommuteIntelligenceService {
   }
 
   private async ensureInitialized() {
-    if (!this.gtfsData) {
+    if (!this.gtfsLoadAttempted) {
       await this.loadGTFSData();
     }
     if (this.universities.length === 0) {
@@ -58,29 +59,15 @@ export class CommuteIntelligenceService {
   }
 
   /**
-   * Load BKK GTFS data from local files
+   * Load the BKK GTFS timetable (GTFS_FEED_PATH or data/gtfs)
    */
   private async loadGTFSData() {
-    try {
-      // In production, this would download fresh GTFS data from BKK
-      // For now, we'll assume GTFS files are stored locally
-      const gtfsPath = join(process.cwd(), 'data', 'gtfs');
-
-      if (existsSync(gtfsPath)) {
-        // Load stops, routes, trips, stop_times, etc.
-        this.gtfsData = {
-          stops: this.parseCSV(join(gtfsPath, 'stops.txt')),
-          routes: this.parseCSV(join(gtfsPath, 'routes.txt')),
-          trips: this.parseCSV(join(gtfsPath, 'trips.txt')),
-          stopTimes: this.parseCSV(join(gtfsPath, 'stop_times.txt')),
-          calendar: this.parseCSV(join(gtfsPath, 'calendar.txt')),
-        };
-        console.log('GTFS data loaded successfully');
-      } else {
-        console.warn('GTFS data not found, using fallback commute calculations');
-      }
-    } catch (error) {
-      console.error('Failed to load GTFS data:', error);
+    this.gtfsLoadAttempted = true;
+    this.gtfsData = getLocalGtfsTimetable();
+    if (this.gtfsData) {
+      console.log(`GTFS data loaded: ${this.gtfsData.stopIndex.size} stops, ${this.gtfsData.tripCount} trips`);
+    } else {
+      console.warn('GTFS data not found, using fallback commute calculations');
     }
   }
 
@@ -102,29 +89,6 @@ export class CommuteIntelligenceService {
     }
   }
 
-  /**
-   * Parse CSV file
-   */
-  private parseCSV(filePath: string): any[] {
-    if (!existsSync(filePath)) return [];
-
-    const csvData = readFileSync(filePath, 'utf8');
-    const lines = csvData.split('\n').filter(line => line.trim());
-    if (lines.length < 2) return [];
-
-    const headers = lines[0].split(',').map(h => h.replace(/"/g, '').trim());
-    const rows = lines.slice(1).map(line => {
-      const values = line.split(',').map(v => v.replace(/"/g, '').trim());
-      const obj: any = {};
-      headers.forEach((header, index) => {
-        obj[header] = values[index] || '';
-      });
-      return obj;
-    });
-
-    return rows;
-  }
-
   /**
    * Calculate commute time between two points
    */
@@ -132,6 +96,10 @@ export class CommuteIntelligenceService {
     const { fromLat, fromLng, toLat, toLng, mode, departureTime } = query;
 
     try {
+      if (mode === 'transit' && !this.gtfsLoadAttempted) {
+        await this.loadGTFSData();
+      }
+
       // For transit mode, use GTFS data if available
       if (mode === 'transit' && this.gtfsData) {
         return this.calculateTransitCommute(fromLat, fromLng, toLat, toLng, departureTime);
@@ -178,8 +146,9 @@ export class CommuteIntelligenceService {
     const walkToStopTime = walkToStopDistance / walkSpeedMps / 60; // minutes
     const walkFromStopTime = walkFromStopDistance / walkSpeedMps / 60; // minutes
 
-    // Find transit routes between stops
-    const transitResult = await this.findTransitRoute(fromStop, toStop, departureTime);
+    // Find transit routes between stops, boarding once we have walked to the stop
+    const boardingTime = new Date((departureTime ?? new Date()).getTime() + walkToStopTime * 60_000);
+    const transitResult = await this.findTransitRoute(fromStop, toStop, boardingTime);
 
     if (!transitResult) {
       throw new Error('No transit route found');
@@ -198,49 +167,44 @@ export class CommuteIntelligenceService {
    * Find nearest transit stop
    */
   private findNearestStop(lat: number, lng: number): any {
-    if (!this.gtfsData?.stops) return null;
-
-    let nearestStop: any = null;
-    let minDistance = Infinity;
-
-    for (const stop of this.gtfsData.stops) {
-      const distance = this.calculateDistance(lat, lng, parseFloat(stop.stop_lat), parseFloat(stop.stop_lon));
-      if (distance < minDistance && distance < 1000) { // Within 1km
-        minDistance = distance;
-        nearestStop = {
-          id: stop.stop_id,
-          name: stop.stop_name,
-          lat: parseFloat(stop.stop_lat),
-          lon: parseFloat(stop.stop_lon),
-        };
-      }
-    }
+    const match = this.gtfsData?.stopIndex.nearest({ lat, lng }, 1000); // Within 1km
+    if (!match) return null;
 
-    return nearestStop;
+    return {
+      id: match.stop.id,
+      name: match.stop.name,
+      lat: match.stop.lat,
+      lon: match.stop.lng,
+    };
   }
 
   /**
-   * Find transit route between two stops
+   * Find the next scheduled direct connection between two stops
    */
   private async findTransitRoute(fromStop: any, toStop: any, departureTime?: Date): Promise<any> {
-    // This is a simplified implementation
-    // In production, this would use proper transit routing algorithms
+    if (!this.gtfsData) return null;
+
+    const day = toServiceDay(departureTime ?? new Date());
+    const connection = this.gtfsData.findDirectConnection(fromStop.id, toStop.id, day);
+    if (!connection) return null;
 
-    // For now, return a mock result
-    const baseDuration = 25; // minutes
-    const variability = Math.random() * 10 - 5; // ±5 minutes
-    const duration = Math.max(5, baseDuration + variability);
+    // Frequent lines are more forgiving of a missed departure.
+    const frequency = this.gtfsData.departuresPerHour(fromStop.id, day, connection.departure);
+    const reliability_score = Math.min(95, Math.round(60 + frequency * 5));
 
     return {
-      duration,
-      distance: 8000, // 8km average
+      duration: (connection.arrival - day.secondsSinceMidnight) / 60,
+      distance: this.calculateDistance(fromStop.lat, fromStop.lon, toStop.lat, toStop.lon),
       route: {
         from: fromStop.name,
         to: toStop.name,
-        transfers: Math.floor(Math.random() * 2),
-        line: 'Mock Transit Line',
+        transfers: 0,
+        line: connection.routeName,
+        headsign: connection.headsign,
+        departure: connection.departure,
+        arrival: connection.arrival,
       },
-      reliability_score: Math.floor(70 + Math.random() * 25), // 70-95%
+      reliability_score,
     };
   }
 
@@ -1,4 +1,10 @@
 import { runQuery } from '@/lib/db/pool';
+import { discsToPolygon, pruneDiscs, type IsochronePolygon, type ReachDisc } from '@/lib/gtfs/isochrone';
+import { getLocalGtfsTimetable, getLocalRaptorRouter } from '@/lib/gtfs/local-feed';
+import type { TransitItinerary } from '@/lib/gtfs/raptor';
+import { findScheduledConnection } from '@/lib/gtfs/repository';
+import { StopIndex } from '@/lib/gtfs/stop-index';
+import { toServiceDay, type ScheduledConnection, type TransitStop } from '@/lib/gtfs/timetable';
 
 export interface Location {
   lat: number;
@@ -24,6 +30,8 @@ export interface CommuteResult {
     lines: string[];
     polyline?: string;
   };
+  itinerary?: TransitItinerary; // timetable-routed journey for transit commutes
+  departAt?: string; // ISO departure time the commute was planned for
   realTime?: boolean;
 }
 
@@ -49,6 +57,18 @@ export interface CommuteCacheEntry {
   expiresAt: Date;
 }
 
+export interface Isochrone {
+  origin: Location;
+  universityId?: string;
+  mode: TravelMode;
+  minutes: number;
+  departAt?: string;
+  metersPerMinute: number; // speed used for the last stretch inside each disc
+  discs: ReachDisc[];
+  polygon: IsochronePolygon;
+  source: 'gtfs' | 'estimate';
+}
+
 type TravelMode = 'walking' | 'bicycling' | 'transit' | 'driving';
 
 const FALLBACK_UNIVERSITIES: University[] = [
@@ -73,11 +93,19 @@ const FALLBACK_UNIVERSITIES: University[] = [
 ];
 
 const TRANSIT_STOP_RADIUS_METERS = 1_200;
+const WALKING_METERS_PER_MINUTE = 80;
+
+// Straight-line speeds matching fallbackCommuteCalculation
+const MODE_METERS_PER_MINUTE: Record<TravelMode, number> = {
+  walking: 5_000 / 60,
+  bicycling: 15_000 / 60,
+  driving: 30_000 / 60,
+  transit: 350,
+};
 
 export class CommuteService {
   private universities: University[] = [];
-  private transitStops: GTFSStop[] = [];
-  private transitStopMap: Map<string, GTFSStop> = new Map();
+  private stopIndex: StopIndex<TransitStop> = new StopIndex();
   private readonly CACHE_TTL = 24 * 60 * 60 * 1000;
   private readonly cache = new Map<string, CommuteCacheEntry>();
   private readonly MAPBOX_ACCESS_TOKEN = process.env.MAPBOX_ACCESS_TOKEN;
@@ -95,6 +123,7 @@ export class CommuteService {
     universityId: string,
     mode: TravelMode = 'transit',
     apartmentId?: string,
+    departAt?: Date,
   ): Promise<CommuteResult | null> {
     await this.ensureUniversities();
     const university = this.universities.find((u) => u.id === universityId);
@@ -102,13 +131,18 @@ export class CommuteService {
       throw new Error(`University ${universityId} not found`);
     }
 
-    const cacheKey = this.generateCacheKey(apartmentLocation, universityId, mode);
-    const cached = await this.getCachedResult(cacheKey, apartmentId, universityId, mode);
+    // A transit journey depends on when you leave, "now" when no departAt is
+    // given, so it is cached per departure minute in memory only and never
+    // persisted; commute_cache holds the time-agnostic walking, cycling and
+    // driving figures.
+    const departure = departAt ?? (mode === 'transit' ? new Date() : undefined);
+    const cacheKey = this.generateCacheKey(apartmentLocation, universityId, mode, departure);
+    const cached = await this.getCachedResult(cacheKey, departure ? undefined : apartmentId, universityId, mode);
     if (cached) {
       return cached.result;
     }
 
-    const result = await this.fetchCommuteTime(apartmentLocation, university.location, mode);
+    const result = await this.fetchCommuteTime(apartmentLocation, university.location, mode, departure);
     if (!result) {
       return null;
     }
@@ -116,7 +150,7 @@ export class CommuteService {
     result.apartmentId = apartmentId ?? result.apartmentId;
     result.universityId = universityId;
     this.setCachedResult(cacheKey, result);
-    if (apartmentId) {
+    if (apartmentId && !departure) {
       await this.persistCache(apartmentId, universityId, mode, result);
     }
 
@@ -126,13 +160,14 @@ export class CommuteService {
   async calculateAllCommutes(
     apartmentLocation: Location,
     apartmentId: string,
+    departAt?: Date,
   ): Promise<CommuteResult[]> {
     await this.ensureUniversities();
     const results: CommuteResult[] = [];
 
     for (const university of this.universities) {
       for (const mode of ['transit', 'walking', 'bicycling'] as TravelMode[]) {
-        const result = await this.calculateCommute(apartmentLocation, university.id, mode, apartmentId);
+        const result = await this.calculateCommute(apartmentLocation, university.id, mode, apartmentId, departAt);
         if (result) {
           results.push(result);
           break;
@@ -157,8 +192,71 @@ export class CommuteService {
     return results;
   }
 
-  private generateCacheKey(location: Location, universityId: string, mode: TravelMode): string {
-    return `${location.lat.toFixed(4)},${location.lng.toFixed(4)}-${universityId}-${mode}`;
+  /**
+   * Area reachable from a university or point within a time budget.
+   * Transit uses the timetable when a local feed is loaded; other modes (and
+   * transit without a feed) are a single straight-line disc.
+   */
+  async computeIsochrone(
+    origin: { universityId?: string; location?: Location },
+    mode: TravelMode = 'transit',
+    minutes: number,
+    departAt: Date = new Date(),
+  ): Promise<Isochrone> {
+    let location = origin.location;
+    if (origin.universityId) {
+      await this.ensureUniversities();
+      const university = this.universities.find((u) => u.id === origin.universityId);
+      if (!university) {
+        throw new Error(`University ${origin.universityId} not found`);
+      }
+      location = university.location;
+    }
+    if (!location) {
+      throw new Error('Isochrone origin requires a universityId or a location');
+    }
+
+    const budgetSeconds = minutes * 60;
+    const router = mode === 'transit' ? getLocalRaptorRouter() : null;
+    let discs: ReachDisc[];
+    let metersPerMinute = MODE_METERS_PER_MINUTE[mode];
+
+    if (router) {
+      metersPerMinute = WALKING_METERS_PER_MINUTE;
+      discs = [{ ...location, elapsedSeconds: 0, radiusMeters: minutes * WALKING_METERS_PER_MINUTE }];
+      for (const { stop, elapsedSeconds } of router.reachableStops(location, departAt, budgetSeconds)) {
+        discs.push({
+          lat: stop.lat,
+          lng: stop.lng,
+          elapsedSeconds,
+          radiusMeters: ((budgetSeconds - elapsedSeconds) / 60) * WALKING_METERS_PER_MINUTE,
+        });
+      }
+      discs = pruneDiscs(discs);
+    } else {
+      discs = [{ ...location, elapsedSeconds: 0, radiusMeters: minutes * metersPerMinute }];
+    }
+
+    return {
+      origin: location,
+      universityId: origin.universityId,
+      mode,
+      minutes,
+      departAt: router ? departAt.toISOString() : undefined,
+      metersPerMinute,
+      discs,
+      polygon: discsToPolygon(discs),
+      source: router ? 'gtfs' : 'estimate',
+    };
+  }
+
+  private generateCacheKey(location: Location, universityId: string, mode: TravelMode, departAt?: Date): string {
+    const key = `${location.lat.toFixed(4)},${location.lng.toFixed(4)}-${universityId}-${mode}`;
+    if (!departAt) {
+      return key;
+    }
+    // Bucket departures to the minute so repeated "9:00 on Monday" lookups hit the cache.
+    return `${key}@${Math.floor(departAt.getTime() / 60_000)}`;
   }
 
   private async getCachedResult(
@@ -238,6 +336,7 @@ export class CommuteService {
     origin: Location,
     destination: Location,
     mode: TravelMode,
+    departAt?: Date,
   ): Promise<CommuteResult | null> {
     try {
       if (mode !== 'transit' && this.MAPBOX_ACCESS_TOKEN) {
@@ -248,7 +347,12 @@ export class CommuteService {
       }
 
       if (mode === 'transit') {
-        const transitResult = await this.fetchGTFSCommute(origin, destination);
+        const routedResult = this.fetchRoutedCommute(origin, destination, departAt ?? new Date());
+        if (routedResult) {
+          return routedResult;
+        }
+
+        const transitResult = await this.fetchGTFSCommute(origin, destination, departAt);
         if (transitResult) {
           return transitResult;
         }
@@ -299,20 +403,90 @@ export class CommuteService {
     }
   }
 
-  private async fetchGTFSCommute(origin: Location, destination: Location): Promise<CommuteResult | null> {
+  /**
+   * Departure-time-aware transit commute from the RAPTOR router over the local feed
+   */
+  private fetchRoutedCommute(origin: Location, destination: Location, departAt: Date): CommuteResult | null {
+    const router = getLocalRaptorRouter();
+    if (!router) {
+      return null;
+    }
+
+    const itinerary = router.route(origin, destination, departAt);
+    if (!itinerary) {
+      return null;
+    }
+
+    const steps = itinerary.legs.map((leg) =>
+      leg.mode === 'walk'
+        ? `Walk ${leg.distanceMeters} m to ${leg.to.name}`
+        : `${leg.departureTime.slice(0, 5)} take ${leg.routeName}${leg.headsign ? ` towards ${leg.headsign}` : ''} from ${leg.from.name} to ${leg.to.name} (${leg.stopCount} stops)`,
+    );
+    const lines = itinerary.legs.flatMap((leg) => (leg.mode === 'transit' ? [leg.routeName] : []));
+
+    return {
+      apartmentId: '',
+      universityId: '',
+      travelTime: itinerary.totalMinutes,
+      distance: Math.round(this.calculateHaversineDistance(origin, destination)),
+      mode: 'transit',
+      route: {
+        steps,
+        transfers: itinerary.transfers,
+        lines,
+      },
+      itinerary,
+      departAt: departAt.toISOString(),
+      realTime: false,
+    };
+  }
+
+  private async fetchGTFSCommute(
+    origin: Location,
+    destination: Location,
+    departAt?: Date,
+  ): Promise<CommuteResult | null> {
     const originStop = await this.findNearestStop(origin);
     const destStop = await this.findNearestStop(destination);
     if (!originStop || !destStop) {
       return null;
     }
 
+    const walkToStop = this.calculateHaversineDistance(origin, originStop.location);
+    const walkFromStop = this.calculateHaversineDistance(destStop.location, destination);
+    const distance = this.calculateHaversineDistance(origin, destination);
+
+    const scheduled = await this.findScheduledTrip(originStop.id, destStop.id, walkToStop, departAt);
+    if (scheduled) {
+      const { connection, departAfter } = scheduled;
+      const walkMinutes = (walkToStop + walkFromStop) / WALKING_METERS_PER_MINUTE;
+      const waitAndRideMinutes = (connection.arrival - departAfter) / 60;
+
+      return {
+        apartmentId: '',
+        universityId: '',
+        travelTime: Math.max(1, Math.round(walkMinutes + waitAndRideMinutes)),
+        distance: Math.round(distance),
+        mode: 'transit',
+        route: {
+          steps: [
+            `Walk to ${originStop.name}`,
+            `Take ${connection.routeName}${connection.headsign ? ` towards ${connection.headsign}` : ''} for ${connection.stopCount} stops`,
+            `Walk from ${destStop.name}`,
+          ],
+          transfers: 0,
+          lines: [connection.routeName],
+        },
+        realTime: false,
+      };
+    }
+
     const trips = await this.findConnectingTrips(originStop.id, destStop.id);
     if (!trips.length) {
       return null;
     }
 
     const bestTrip = trips[0];
-    const distance = this.calculateHaversineDistance(origin, destination);
     const travelTime = this.estimateTransitMinutes(distance, bestTrip.transfers ?? 0);
 
     return {
@@ -332,34 +506,55 @@ export class CommuteService {
         transfers: bestTrip.transfers ?? 0,
         lines: [bestTrip.routeId],
       },
-      realTime: true,
+      realTime: false,
     };
   }
 
-  private async findNearestStop(location: Location): Promise<GTFSStop | null> {
-    await this.ensureTransitStops();
-    if (!this.transitStops.length) {
+  /**
+   * Next scheduled single-vehicle connection from the GTFS timetable, using the
+   * in-process feed when available and the persisted timetable otherwise.
+   */
+  private async findScheduledTrip(
+    originStopId: string,
+    destStopId: string,
+    walkToStopMeters: number,
+    departAt: Date = new Date(),
+  ): Promise<{ connection: ScheduledConnection; departAfter: number } | null> {
+    const day = toServiceDay(departAt);
+    const departAfter = day.secondsSinceMidnight + Math.round((walkToStopMeters / WALKING_METERS_PER_MINUTE) * 60);
+    const query = { ...day, secondsSinceMidnight: departAfter };
+
+    try {
+      const timetable = getLocalGtfsTimetable();
+      const connection = timetable
+        ? timetable.findDirectConnection(originStopId, destStopId, query)
+        : await findScheduledConnection(originStopId, destStopId, query);
+      return connection ? { connection, departAfter } : null;
+    } catch (error) {
+      console.warn('Scheduled GTFS lookup failed', error);
       return null;
     }
+  }
 
-    let nearest: GTFSStop | null = null;
-    let minDistance = Infinity;
-
-    for (const stop of this.transitStops) {
-      const distance = this.calculateHaversineDistance(location, stop.location);
-      if (distance < minDistance) {
-        minDistance = distance;
-        nearest = stop;
-      }
-    }
+  private toGTFSStop(stop: TransitStop): GTFSStop {
+    return {
+      id: stop.id,
+      name: stop.name,
+      location: { lat: stop.lat, lng: stop.lng },
+      routes: stop.routes,
+    };
+  }
 
-    return minDistance <= TRANSIT_STOP_RADIUS_METERS ? nearest : null;
+  private async findNearestStop(location: Location): Promise<GTFSStop | null> {
+    await this.ensureTransitStops();
+    const match = this.stopIndex.nearest(location, TRANSIT_STOP_RADIUS_METERS);
+    return match ? this.toGTFSStop(match.stop) : null;
   }
 
   private async findConnectingTrips(originStopId: string, destStopId: string): Promise<GTFSTrip[]> {
     await this.ensureTransitStops();
-    const origin = this.transitStopMap.get(originStopId);
-    const destination = this.transitStopMap.get(destStopId);
+    const origin = this.stopIndex.get(originStopId);
+    const destination = this.stopIndex.get(destStopId);
     if (!origin || !destination) {
       return [];
     }
@@ -381,7 +576,7 @@ export class CommuteService {
 
     let bestAlternative: { trip: GTFSTrip; score: number } | null = null;
 
-    for (const candidate of this.transitStops) {
+    for (const candidate of this.stopIndex.all()) {
       if (candidate.id === originStopId || candidate.id === destStopId) {
         continue;
       }
@@ -401,8 +596,8 @@ export class CommuteService {
 
         // Prefer intermediate stops that minimise total detour distance.
         const score =
-          this.calculateHaversineDistance(origin.location, candidate.location) +
-          this.calculateHaversineDistance(candidate.location, destination.location);
+          this.calculateHaversineDistance(origin, candidate) +
+          this.calculateHaversineDistance(candidate, destination);
 
         if (!bestAlternative || score < bestAlternative.score) {
           bestAlternative = { trip, score };
@@ -495,18 +690,26 @@ export class CommuteService {
   }
 
   private async bootstrapTransitStops() {
+    const timetable = getLocalGtfsTimetable();
+    if (timetable) {
+      this.stopIndex = timetable.stopIndex;
+      return;
+    }
+
     try {
       const { rows } = await runQuery(
         `SELECT id, name, latitude, longitude, routes FROM public.transit_stops ORDER BY name`,
       );
       if (rows.length) {
-        this.transitStops = rows.map((row: any) => ({
-          id: row.id,
-          name: row.name,
-          location: { lat: Number(row.latitude), lng: Number(row.longitude) },
-          routes: Array.isArray(row.routes) ? row.routes : [],
-        }));
-        this.transitStopMap = new Map(this.transitStops.map((stop) => [stop.id, stop]));
+        this.stopIndex = new StopIndex(
+          rows.map((row: any) => ({
+            id: row.id,
+            name: row.name,
+            lat: Number(row.latitude),
+            lng: Number(row.longitude),
+            routes: Array.isArray(row.routes) ? row.routes : [],
+          })),
+        );
       }
     } catch (error) {
       console.warn('Unable to load transit stops from database', error);
@@ -514,7 +717,7 @@ export class CommuteService {
   }
 
   private async ensureTransitStops() {
-    if (!this.transitStops.length) {
+    if (!this.stopIndex.size) {
       await this.bootstrapTransitStops();
     }
   }
@@ -3,8 +3,12 @@
 
 import { createClient, createServiceClient } from '@/utils/supabaseClient';
 import { GoogleGenerativeAI } from '@google/generative-ai';
-// sharp import removed for Vercel serverless compatibility
-// Image processing disabled - photo hashing will return placeholder
+import {
+  computeImageHashes,
+  hashToSigned,
+  PHASH_MATCH_DISTANCE,
+  type ImageHashes,
+} from '@/lib/images/phash';
 
 export interface DuplicateDetectionResult {
   apartmentId: string;
@@ -33,9 +37,24 @@ export interface DuplicateMatch {
 
 interface PhotoHash {
   imageKey: string;
-  pHash: number;
-  aHash?: number;
-  dHash?: number;
+  pHash: bigint;
+  aHash?: bigint;
+  dHash?: bigint;
+}
+
+interface PhotoHashMatchRow {
+  candidate_id: string;
+  image_key: string;
+  candidate_image_key: string;
+  distance: number;
+  own_photo_count: number;
+  candidate_photo_count: number;
+}
+
+interface PhotoOverlap {
+  matchedPhotos: number; // photos of the listing with a near-identical photo in the candidate
+  comparedPhotos: number; // photos in the smaller of the two listings
+  bestDistance: Map<string, number>; // image key -> closest Hamming distance
 }
 
 interface ApartmentData {
@@ -85,22 +104,31 @@ class EnhancedDuplicateDetectionService {
         throw new Error(`Apartment ${apartmentId} not found`);
       }
 
-      // Get photo hashes for this apartment
-      const { data: photoHashes } = await supabase
-        .from('apartment_photo_hashes')
-        .select('*')
-        .eq('apartment_id', apartmentId);
+      // Listings anywhere that reuse this apartment's photos
+      const photoOverlaps = await this.findPhotoOverlaps(apartmentId);
 
       // Get candidate apartments to compare
       const candidates = await this.getCandidateApartments(apartment, method);
 
+      // Reposted photos usually come with a new address, so photo matches are
+      // compared even when they fall outside the nearby candidates
+      const candidateIds = new Set(candidates.map((candidate) => candidate.id));
+      const missingIds = Array.from(photoOverlaps.keys()).filter((id) => !candidateIds.has(id));
+      if (missingIds.length > 0) {
+        const { data: photoCandidates } = await supabase
+          .from('apartments')
+          .select('id, title, description, address, canonical_address, latitude, longitude, owner_id, image_keys, amenities, created_at')
+          .in('id', missingIds);
+        candidates.push(...((photoCandidates || []) as ApartmentData[]));
+      }
+
       // Score each candidate
       const matches: DuplicateMatch[] = [];
       for (const candidate of candidates) {
         const match = await this.scoreApartmentPair(
           apartment,
           candidate,
-          photoHashes || []
+          photoOverlaps.get(candidate.id)
         );
         if (match && match.totalScore >= 0.4) {
           // Only include matches with score >= 40%
@@ -179,14 +207,14 @@ class EnhancedDuplicateDetectionService {
   private async scoreApartmentPair(
     apt1: ApartmentData,
     apt2: ApartmentData,
-    photoHashes1: PhotoHash[]
+    photoOverlap?: PhotoOverlap
   ): Promise<DuplicateMatch | null> {
     try {
       const breakdown = {
         addressScore: this.scoreAddressSimilarity(apt1, apt2),
         titleScore: this.scoreTitleSimilarity(apt1, apt2),
         geoScore: this.scoreGeographicProximity(apt1, apt2),
-        photoScore: 0, // Would be populated if we have photo hashes for apt2
+        photoScore: this.scorePhotoSimilarity(photoOverlap),
         descriptionScore: await this.scoreDescriptionSimilarity(apt1, apt2),
         amenityScore: this.scoreAmenitySimilarity(apt1, apt2),
         ownerScore: this.scoreOwnerOverlap(apt1, apt2),
@@ -194,10 +222,10 @@ class EnhancedDuplicateDetectionService {
 
       // Weighted average
       const weights = {
-        addressScore: 0.35,
-        titleScore: 0.15,
-        geoScore: 0.25,
-        photoScore: 0.10,
+        addressScore: 0.30,
+        titleScore: 0.10,
+        geoScore: 0.20,
+        photoScore: 0.25,
         descriptionScore: 0.05,
         amenityScore: 0.05,
         ownerScore: 0.05,
@@ -209,6 +237,12 @@ class EnhancedDuplicateDetectionService {
         totalScore += (breakdown[scoreKey] || 0) * weight;
       }
 
+      // The same photos under a different address is the typical scam repost:
+      // strong photo overlap alone is enough for at least a medium-confidence match
+      if (breakdown.photoScore >= 0.6) {
+        totalScore = Math.max(totalScore, 0.5 + 0.3 * breakdown.photoScore);
+      }
+
       if (totalScore < 0.15) {
         return null; // Too low to be meaningful
       }
@@ -227,6 +261,12 @@ class EnhancedDuplicateDetectionService {
       if (breakdown.photoScore > 0.7) {
         evidence.push(`Photo similarity: ${(breakdown.photoScore * 100).toFixed(0)}%`);
       }
+      if (photoOverlap && photoOverlap.matchedPhotos > 0) {
+        evidence.push(
+          `${photoOverlap.matchedPhotos} of ${photoOverlap.comparedPhotos} photos reused` +
+          (breakdown.addressScore < 0.5 ? ' under a different address' : '')
+        );
+      }
       if (breakdown.descriptionScore > 0.7) {
         evidence.push(`Description similarity: ${(breakdown.descriptionScore * 100).toFixed(0)}%`);
       }
@@ -409,29 +449,92 @@ class EnhancedDuplicateDetectionService {
 
   /**
    * Generate perceptual hash for an image (pHash)
-   * DISABLED: sharp not available in Vercel serverless
-   * Returns placeholder hash
+   * Pure TypeScript decode (JPEG, PNG, WebP) so it runs in serverless functions
    */
-  async generatePhash(_imageBuffer: Buffer): Promise<bigint> {
-    // Photo hashing disabled for serverless deployment
-    // Return a placeholder hash
-    return BigInt(0);
+  async generatePhash(imageBuffer: Buffer): Promise<bigint> {
+    return computeImageHashes(imageBuffer).pHash;
   }
 
   /**
-   * Compute Hamming distance between two hashes
-   * Lower distance = more similar
+   * Store the hashes of an uploaded apartment photo so later detection runs
+   * can match it against other listings
    */
-  private hammingDistance(hash1: bigint, hash2: bigint): number {
-    let diff = hash1 ^ hash2;
-    let distance = 0;
+  async storePhotoHashes(apartmentId: string, imageKey: string, hashes: ImageHashes): Promise<PhotoHash | null> {
+    const supabase = createServiceClient();
 
-    while (diff > BigInt(0)) {
-      if ((diff & BigInt(1)) !== BigInt(0)) distance++;
-      diff >>= BigInt(1);
+    const { error } = await supabase
+      .from('apartment_photo_hashes')
+      .upsert({
+        apartment_id: apartmentId,
+        image_key: imageKey,
+        phash: hashToSigned(hashes.pHash),
+        ahash: hashToSigned(hashes.aHash),
+        dhash: hashToSigned(hashes.dHash),
+      }, { onConflict: 'apartment_id,image_key' });
+
+    if (error) {
+      console.error('Error storing photo hashes:', error);
+      return null;
     }
 
-    return distance;
+    return { imageKey, pHash: hashes.pHash, aHash: hashes.aHash, dHash: hashes.dHash };
+  }
+
+  /**
+   * Near-identical photos shared with other apartments, grouped by apartment.
+   * Hamming distances are computed in Postgres (find_photo_hash_matches).
+   */
+  private async findPhotoOverlaps(apartmentId: string): Promise<Map<string, PhotoOverlap>> {
+    const supabase = createClient();
+    const overlaps = new Map<string, PhotoOverlap>();
+
+    const { data, error } = await supabase.rpc('find_photo_hash_matches', {
+      p_apartment_id: apartmentId,
+      p_max_distance: PHASH_MATCH_DISTANCE,
+    });
+
+    if (error) {
+      console.error('Error finding photo matches:', error);
+      return overlaps;
+    }
+
+    for (const row of (data || []) as PhotoHashMatchRow[]) {
+      let overlap = overlaps.get(row.candidate_id);
+      if (!overlap) {
+        overlap = {
+          matchedPhotos: 0,
+          comparedPhotos: Math.max(1, Math.min(row.own_photo_count, row.candidate_photo_count)),
+          bestDistance: new Map(),
+        };
+        overlaps.set(row.candidate_id, overlap);
+      }
+      const previous = overlap.bestDistance.get(row.image_key);
+      if (previous === undefined || row.distance < previous) {
+        overlap.bestDistance.set(row.image_key, row.distance);
+      }
+    }
+
+    overlaps.forEach((overlap) => {
+      overlap.matchedPhotos = Math.min(overlap.bestDistance.size, overlap.comparedPhotos);
+    });
+
+    return overlaps;
+  }
+
+  /**
+   * Score photo similarity (0-1): share of photos reused, each weighted by how
+   * close its best match is (distance 0 counts fully, the match threshold 75%)
+   */
+  private scorePhotoSimilarity(overlap?: PhotoOverlap): number {
+    if (!overlap || overlap.bestDistance.size === 0) return 0;
+
+    const closeness = Array.from(overlap.bestDistance.values())
+      .map((distance) => 1 - distance / (4 * PHASH_MATCH_DISTANCE))
+      .sort((a, b) => b - a)
+      .slice(0, overlap.comparedPhotos);
+
+    const total = closeness.reduce((sum, value) => sum + value, 0);
+    return Math.min(1, total / overlap.comparedPhotos);
   }
 
   /**
@@ -0,0 +1,170 @@
+// Job handlers - one per job type, run by the queue worker
+// A handler resolves when the job is done and throws to have it retried;
+// PermanentJobError skips the remaining attempts.
+
+import { Resend } from 'resend';
+import { webhookDispatcher } from '@/lib/webhook-dispatcher';
+import { notificationService, type NotificationPayload } from '@/services/notify-svc';
+import { DigestError, digestService } from '@/services/notify-svc/digest';
+import { EscrowError, depositEscrowService } from '@/services/payments-svc/escrow';
+import { LeaseError, leaseService } from '@/services/payments-svc/lease';
+import { PriceHistoryError, priceHistoryService } from '@/services/pricing-svc/price-history';
+import { SearchAlertError, savedSearchAlertService } from '@/services/search-svc/saved-search-alerts';
+import { verificationDocumentService } from '@/services/verification-svc/documents';
+import {
+  PermanentJobError,
+  type DepositJobPayload,
+  type DigestJobPayload,
+  type EmailJobPayload,
+  type Job,
+  type LeaseJobPayload,
+  type ListingMatchJobPayload,
+  type PriceDropJobPayload,
+  type RedactionJobPayload,
+  type WebhookJobPayload,
+} from './index';
+
+export type JobHandler = (job: Job<any>) => Promise<unknown>;
+
+const DEFAULT_FROM = 'Student Apartments <noreply@studentapartments.com>';
+
+function getResend() {
+  return process.env.RESEND_API_KEY ? new Resend(process.env.RESEND_API_KEY) : null;
+}
+
+async function sendEmailJob(job: Job<EmailJobPayload>): Promise<{ emailId: string | null }> {
+  const { to, subject, html, text, from, tags } = job.payload;
+  if (!to || !subject || !html) {
+    throw new PermanentJobError('Email job is missing to, subject or html');
+  }
+
+  const resend = getResend();
+  if (!resend) {
+    // Dead-lettered rather than dropped; retry the queue once Resend is configured
+    throw new PermanentJobError('RESEND_API_KEY not configured');
+  }
+
+  // Resend drops repeats of the same key, so a retry after a lost response does not send twice
+  const { data, error } = await resend.emails.send(
+    { from: from ?? DEFAULT_FROM, to, subject, html, text, tags },
+    { idempotencyKey: `job-${job.id}` },
+  );
+  if (error) {
+    if (error.name === 'validation_error' || error.name === 'invalid_from_address') {
+      throw new PermanentJobError(`Resend rejected the email: ${error.message}`);
+    }
+    throw new Error(`Resend error: ${error.message}`);
+  }
+
+  return { emailId: data?.id ?? null };
+}
+
+async function deliverWebhookJob(job: Job<WebhookJobPayload>) {
+  return webhookDispatcher.deliver(job.payload.webhookId, job.payload.event, job.attempts);
+}
+
+async function sendNotificationJob(job: Job<NotificationPayload>) {
+  const results = await notificationService.sendNotification(job.payload);
+  if (results.length > 0 && results.every((result) => !result.success)) {
+    throw new Error(results.map((result) => `${result.channel}: ${result.error}`).join('; '));
+  }
+  return results;
+}
+
+async function sendDigestJob(job: Job<DigestJobPayload>) {
+  if (!job.payload.userId) {
+    throw new PermanentJobError('Digest job is missing userId');
+  }
+  try {
+    return await digestService.send(job.id, job.payload);
+  } catch (error) {
+    if (error instanceof DigestError) {
+      throw new PermanentJobError(error.message);
+    }
+    throw error;
+  }
+}
+
+async function redactDocumentJob(job: Job<RedactionJobPayload>) {
+  if (!job.payload.documentId) {
+    throw new PermanentJobError('Redaction job is missing documentId');
+  }
+  return verificationDocumentService.redact(job.payload.documentId);
+}
+
+// A lease in the wrong state will not fix itself; only an outage is worth retrying
+function leaseJob(run: (payload: LeaseJobPayload) => Promise<unknown>): JobHandler {
+  return async (job: Job<LeaseJobPayload>) => {
+    try {
+      return await run(job.payload);
+    } catch (error) {
+      if (error instanceof LeaseError && error.status !== 503) {
+        throw new PermanentJobError(error.message);
+      }
+      throw error;
+    }
+  };
+}
+
+function depositJob(run: (escrowId: string) => Promise<unknown>): JobHandler {
+  return async (job: Job<DepositJobPayload>) => {
+    if (!job.payload.escrowId) {
+      throw new PermanentJobError('Deposit job is missing escrowId');
+    }
+    try {
+      return await run(job.payload.escrowId);
+    } catch (error) {
+      if (error instanceof EscrowError && error.status !== 503) {
+        throw new PermanentJobError(error.message);
+      }
+      throw error;
+    }
+  };
+}
+
+async function notifyPriceDropJob(job: Job<PriceDropJobPayload>) {
+  if (!job.payload.changeId) {
+    throw new PermanentJobError('Price drop job is missing changeId');
+  }
+  try {
+    return await priceHistoryService.notifyDrop(job.payload.changeId);
+  } catch (error) {
+    if (error instanceof PriceHistoryError) {
+      throw new PermanentJobError(error.message);
+    }
+    throw error;
+  }
+}
+
+async function matchListingJob(job: Job<ListingMatchJobPayload>) {
+  if (!job.payload.apartmentId) {
+    throw new PermanentJobError('Listing match job is missing apartmentId');
+  }
+  try {
+    return await savedSearchAlertService.matchListing(job.payload.apartmentId);
+  } catch (error) {
+    if (error instanceof SearchAlertError) {
+      throw new PermanentJobError(error.message);
+    }
+    throw error;
+  }
+}
+
+export const JOB_HANDLERS: Record<string, JobHandler> = {
+  'email.send': sendEmailJob,
+  'webhook.deliver': deliverWebhookJob,
+  'notification.send': sendNotificationJob,
+  'digest.send': sendDigestJob,
+  'verification.redact': redactDocumentJob,
+  'lease.activate': leaseJob(({ bookingId }) => leaseService.activate(bookingId)),
+  'lease.charge_rent': leaseJob(({ paymentId }) => {
+    if (!paymentId) throw new PermanentJobError('Rent job is missing paymentId');
+    return leaseService.chargeRent(paymentId);
+  }),
+  'lease.end': leaseJob(({ bookingId }) => leaseService.endAtTerm(bookingId)),
+  'deposit.claim_deadline': depositJob((escrowId) => depositEscrowService.closeClaimWindow(escrowId)),
+  'deposit.close_window': depositJob((escrowId) => depositEscrowService.closeDisputeWindow(escrowId)),
+  'deposit.release': depositJob((escrowId) => depositEscrowService.release(escrowId)),
+  'price_drop.notify': notifyPriceDropJob,
+  'saved_search.match': matchListingJob,
+};
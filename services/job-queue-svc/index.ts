@@ -0,0 +1,369 @@
+// Job Queue Service - Durable Postgres-backed background jobs
+// Replaces in-process queues (setInterval/setTimeout) that lose work on
+// serverless cold starts. Jobs are leased with FOR UPDATE SKIP LOCKED, retried
+// with exponential backoff and dead-lettered after their last attempt.
+
+import { randomUUID } from 'crypto';
+import { runQuery } from '@/lib/db/pool';
+import { logger } from '@/utils/logger';
+import type { WebhookEvent } from '@/lib/webhook-dispatcher';
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+export interface Job<TPayload = Record<string, unknown>> {
+  id: string;
+  queue: string;
+  type: string;
+  payload: TPayload;
+  status: JobStatus;
+  priority: number;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
+  idempotencyKey: string | null;
+  lastError: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+export interface EnqueueOptions {
+  idempotencyKey?: string; // A second enqueue with the same key returns the existing job
+  runAt?: Date;
+  delayMs?: number;
+  priority?: number; // Higher runs first
+  maxAttempts?: number;
+}
+
+export interface EnqueueResult<TPayload = Record<string, unknown>> {
+  job: Job<TPayload>;
+  created: boolean;
+}
+
+export interface LeaseOptions {
+  limit?: number;
+  leaseMs?: number;
+  workerId?: string;
+}
+
+export interface QueueStats {
+  queue: string;
+  pending: number;
+  ready: number;
+  running: number;
+  completed: number;
+  dead: number;
+  oldestReadyAt: string | null;
+}
+
+export const JOB_QUEUES = {
+  email: 'email',
+  webhooks: 'webhooks',
+  notifications: 'notifications',
+  digests: 'digests',
+  verification: 'verification',
+  leases: 'leases',
+} as const;
+
+export interface EmailJobPayload {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  from?: string;
+  tags?: Array<{ name: string; value: string }>;
+}
+
+export interface WebhookJobPayload {
+  webhookId: string;
+  event: WebhookEvent;
+}
+
+export interface DigestJobPayload {
+  userId: string;
+  email: string;
+  type: 'saved_searches' | 'price_drops' | 'new_listings' | 'weekly_summary';
+}
+
+export interface RedactionJobPayload {
+  documentId: string;
+}
+
+export interface LeaseJobPayload {
+  bookingId: string;
+  paymentId?: string;
+}
+
+export interface DepositJobPayload {
+  escrowId: string;
+}
+
+export interface PriceDropJobPayload {
+  changeId: string;
+}
+
+export interface ListingMatchJobPayload {
+  apartmentId: string;
+}
+
+/**
+ * Thrown by handlers for failures that retrying cannot fix (bad payload,
+ * deleted recipient); the job is dead-lettered straight away
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+export const DEFAULT_LEASE_MS = 60_000;
+const BASE_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const COMPLETED_RETENTION_DAYS = 14;
+
+/**
+ * Exponential backoff: 30s, 1m, 2m, 4m ... capped at 6h. `jitter` in [0, 1)
+ * spreads retries of jobs that failed together by up to +20%.
+ */
+export function retryDelayMs(attempt: number, jitter = 0): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempt - 1), MAX_RETRY_DELAY_MS);
+  return Math.round(delay * (1 + 0.2 * jitter));
+}
+
+/**
+ * What a failed attempt leads to: another try later, or the dead-letter state
+ */
+export function nextAttemptState(
+  job: Pick<Job, 'attempts' | 'maxAttempts'>,
+  error: unknown,
+  now = new Date(),
+  jitter = 0,
+): { status: 'pending'; runAt: Date } | { status: 'dead' } {
+  if (error instanceof PermanentJobError || job.attempts >= job.maxAttempts) {
+    return { status: 'dead' };
+  }
+  return { status: 'pending', runAt: new Date(now.getTime() + retryDelayMs(job.attempts, jitter)) };
+}
+
+function errorMessage(error: unknown): string {
+  const message = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+  return message.slice(0, 2000);
+}
+
+function mapJob<TPayload = Record<string, unknown>>(row: any): Job<TPayload> {
+  return {
+    id: row.id,
+    queue: row.queue,
+    type: row.type,
+    payload: row.payload ?? {},
+    status: row.status,
+    priority: Number(row.priority),
+    attempts: Number(row.attempts),
+    maxAttempts: Number(row.max_attempts),
+    runAt: new Date(row.run_at),
+    lockedBy: row.locked_by ?? null,
+    lockedUntil: row.locked_until ? new Date(row.locked_until) : null,
+    idempotencyKey: row.idempotency_key ?? null,
+    lastError: row.last_error ?? null,
+    createdAt: new Date(row.created_at),
+    completedAt: row.completed_at ? new Date(row.completed_at) : null,
+  };
+}
+
+export class JobQueueService {
+  async enqueue<TPayload extends object>(
+    queue: string,
+    type: string,
+    payload: TPayload,
+    options: EnqueueOptions = {},
+  ): Promise<EnqueueResult<TPayload>> {
+    const runAt = options.runAt ?? new Date(Date.now() + (options.delayMs ?? 0));
+
+    const inserted = await runQuery(
+      `INSERT INTO public.jobs (queue, type, payload, priority, max_attempts, run_at, idempotency_key)
+       VALUES ($1, $2, $3::jsonb, $4, $5, $6, $7)
+       ON CONFLICT (queue, idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
+       RETURNING *`,
+      [
+        queue,
+        type,
+        JSON.stringify(payload),
+        options.priority ?? 0,
+        options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+        runAt.toISOString(),
+        options.idempotencyKey ?? null,
+      ],
+    );
+
+    if (inserted.rows[0]) {
+      return { job: mapJob<TPayload>(inserted.rows[0]), created: true };
+    }
+
+    const existing = await runQuery(
+      `SELECT * FROM public.jobs WHERE queue = $1 AND idempotency_key = $2`,
+      [queue, options.idempotencyKey],
+    );
+    return { job: mapJob<TPayload>(existing.rows[0]), created: false };
+  }
+
+  async enqueueMany<TPayload extends object>(
+    queue: string,
+    type: string,
+    items: Array<{ payload: TPayload; options?: EnqueueOptions }>,
+  ): Promise<EnqueueResult<TPayload>[]> {
+    const results: EnqueueResult<TPayload>[] = [];
+    for (const item of items) {
+      results.push(await this.enqueue(queue, type, item.payload, item.options));
+    }
+    return results;
+  }
+
+  /**
+   * Claim up to `limit` ready jobs. Each lease counts as an attempt, so a
+   * worker that dies mid-job still uses one up.
+   */
+  async lease(queues: string[], options: LeaseOptions = {}): Promise<Job[]> {
+    const workerId = options.workerId ?? `worker-${randomUUID()}`;
+    const leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+
+    const { rows } = await runQuery(
+      `UPDATE public.jobs j
+       SET status = 'running',
+           attempts = j.attempts + 1,
+           locked_by = $3,
+           locked_until = now() + ($4 || ' milliseconds')::interval,
+           updated_at = now()
+       WHERE j.id IN (
+         SELECT id FROM public.jobs
+         WHERE queue = ANY($1::text[])
+           AND status = 'pending'
+           AND run_at <= now()
+         ORDER BY priority DESC, run_at
+         LIMIT $2
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING j.*`,
+      [queues, options.limit ?? 10, workerId, String(leaseMs)],
+    );
+
+    return rows
+      .map((row) => mapJob(row))
+      .sort((a, b) => b.priority - a.priority || a.runAt.getTime() - b.runAt.getTime());
+  }
+
+  async complete(job: Job, result?: unknown): Promise<void> {
+    await runQuery(
+      `UPDATE public.jobs
+       SET status = 'completed', result = $3::jsonb, locked_by = NULL, locked_until = NULL,
+           completed_at = now(), updated_at = now()
+       WHERE id = $1 AND locked_by = $2`,
+      [job.id, job.lockedBy, result === undefined ? null : JSON.stringify(result)],
+    );
+  }
+
+  async fail(job: Job, error: unknown): Promise<JobStatus> {
+    const next = nextAttemptState(job, error, new Date(), Math.random());
+
+    await runQuery(
+      `UPDATE public.jobs
+       SET status = $3, run_at = COALESCE($4, run_at), last_error = $5,
+           locked_by = NULL, locked_until = NULL, updated_at = now()
+       WHERE id = $1 AND locked_by = $2`,
+      [job.id, job.lockedBy, next.status, next.status === 'pending' ? next.runAt.toISOString() : null, errorMessage(error)],
+    );
+
+    if (next.status === 'dead') {
+      logger.error({ jobId: job.id, queue: job.queue, type: job.type, attempts: job.attempts, err: errorMessage(error) }, 'Job dead-lettered');
+    } else {
+      logger.warn({ jobId: job.id, queue: job.queue, type: job.type, attempts: job.attempts, runAt: next.runAt }, 'Job failed, retry scheduled');
+    }
+    return next.status;
+  }
+
+  /**
+   * Return jobs whose worker lease ran out to the queue, or dead-letter them
+   * when that was their last attempt
+   */
+  async reclaimExpiredLeases(): Promise<{ requeued: number; dead: number }> {
+    const { rows } = await runQuery<{ status: JobStatus }>(
+      `UPDATE public.jobs
+       SET status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'pending' END,
+           last_error = COALESCE(last_error, 'Lease expired before the job finished'),
+           locked_by = NULL, locked_until = NULL, run_at = now(), updated_at = now()
+       WHERE status = 'running' AND locked_until < now()
+       RETURNING status`,
+    );
+
+    return {
+      requeued: rows.filter((row) => row.status === 'pending').length,
+      dead: rows.filter((row) => row.status === 'dead').length,
+    };
+  }
+
+  /**
+   * Put dead-lettered jobs back on the queue with a fresh set of attempts
+   */
+  async retryDead(queue: string, ids?: string[]): Promise<number> {
+    const { rowCount } = await runQuery(
+      `UPDATE public.jobs
+       SET status = 'pending', attempts = 0, run_at = now(), updated_at = now()
+       WHERE queue = $1 AND status = 'dead' AND ($2::uuid[] IS NULL OR id = ANY($2::uuid[]))`,
+      [queue, ids ?? null],
+    );
+    return rowCount;
+  }
+
+  async listDead(queue?: string, limit = 50): Promise<Job[]> {
+    const { rows } = await runQuery(
+      `SELECT * FROM public.jobs
+       WHERE status = 'dead' AND ($1::text IS NULL OR queue = $1)
+       ORDER BY updated_at DESC
+       LIMIT $2`,
+      [queue ?? null, limit],
+    );
+    return rows.map((row) => mapJob(row));
+  }
+
+  async getStats(): Promise<QueueStats[]> {
+    const { rows } = await runQuery(
+      `SELECT queue,
+              COUNT(*) FILTER (WHERE status = 'pending') AS pending,
+              COUNT(*) FILTER (WHERE status = 'pending' AND run_at <= now()) AS ready,
+              COUNT(*) FILTER (WHERE status = 'running') AS running,
+              COUNT(*) FILTER (WHERE status = 'completed') AS completed,
+              COUNT(*) FILTER (WHERE status = 'dead') AS dead,
+              MIN(run_at) FILTER (WHERE status = 'pending' AND run_at <= now()) AS oldest_ready_at
+       FROM public.jobs
+       GROUP BY queue
+       ORDER BY queue`,
+    );
+
+    return rows.map((row) => ({
+      queue: row.queue,
+      pending: Number(row.pending),
+      ready: Number(row.ready),
+      running: Number(row.running),
+      completed: Number(row.completed),
+      dead: Number(row.dead),
+      oldestReadyAt: row.oldest_ready_at ? new Date(row.oldest_ready_at).toISOString() : null,
+    }));
+  }
+
+  /**
+   * Drop completed jobs past retention. Idempotency keys of pruned jobs can
+   * be reused, so keep retention longer than any dedup window callers rely on.
+   */
+  async pruneCompleted(retentionDays = COMPLETED_RETENTION_DAYS): Promise<number> {
+    const { rowCount } = await runQuery(
+      `DELETE FROM public.jobs
+       WHERE status = 'completed' AND completed_at < now() - ($1 || ' days')::interval`,
+      [String(retentionDays)],
+    );
+    return rowCount;
+  }
+}
+
+export const jobQueue = new JobQueueService();
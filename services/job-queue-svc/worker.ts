@@ -0,0 +1,109 @@
+// Job Worker - drains the queue within a time budget
+// Serverless-friendly: a cron route calls drainJobs, which leases small
+// batches until the queue is empty or the budget is spent.
+
+import { randomUUID } from 'crypto';
+import { logger } from '@/utils/logger';
+import { JOB_HANDLERS, type JobHandler } from './handlers';
+import { DEFAULT_LEASE_MS, JOB_QUEUES, PermanentJobError, jobQueue, type Job, type JobQueueService } from './index';
+
+export interface DrainOptions {
+  queues?: string[];
+  maxJobs?: number;
+  timeBudgetMs?: number; // Stop leasing new batches after this
+  batchSize?: number;
+  handlers?: Record<string, JobHandler>;
+  queue?: Pick<JobQueueService, 'lease' | 'complete' | 'fail' | 'reclaimExpiredLeases'>;
+}
+
+export interface DrainReport {
+  workerId: string;
+  processed: number;
+  completed: number;
+  retried: number;
+  dead: number;
+  reclaimed: number;
+  byType: Record<string, { completed: number; failed: number }>;
+  durationMs: number;
+}
+
+const DEFAULT_TIME_BUDGET_MS = 20_000;
+
+async function runWithTimeout<T>(work: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`Job exceeded its ${timeoutMs}ms lease`)), timeoutMs);
+  });
+  try {
+    return await Promise.race([work, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function drainJobs(options: DrainOptions = {}): Promise<DrainReport> {
+  const startTime = Date.now();
+  const workerId = `worker-${randomUUID()}`;
+  const queues = options.queues ?? Object.values(JOB_QUEUES);
+  const maxJobs = options.maxJobs ?? 100;
+  const timeBudgetMs = options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS;
+  const handlers = options.handlers ?? JOB_HANDLERS;
+  const queue = options.queue ?? jobQueue;
+
+  const { requeued, dead: reclaimedDead } = await queue.reclaimExpiredLeases();
+  const report: DrainReport = {
+    workerId,
+    processed: 0,
+    completed: 0,
+    retried: 0,
+    dead: reclaimedDead,
+    reclaimed: requeued + reclaimedDead,
+    byType: {},
+    durationMs: 0,
+  };
+
+  while (report.processed < maxJobs && Date.now() - startTime < timeBudgetMs) {
+    const batch = await queue.lease(queues, {
+      workerId,
+      limit: Math.min(options.batchSize ?? 10, maxJobs - report.processed),
+      leaseMs: DEFAULT_LEASE_MS,
+    });
+    if (batch.length === 0) break;
+
+    for (const job of batch) {
+      await processJob(job, handlers, queue, report);
+    }
+  }
+
+  report.durationMs = Date.now() - startTime;
+  logger.info({ ...report, byType: undefined }, '[JobWorker] Drain finished');
+  return report;
+}
+
+async function processJob(
+  job: Job,
+  handlers: Record<string, JobHandler>,
+  queue: NonNullable<DrainOptions['queue']>,
+  report: DrainReport,
+): Promise<void> {
+  const stats = (report.byType[job.type] ??= { completed: 0, failed: 0 });
+  report.processed++;
+
+  try {
+    const handler = handlers[job.type];
+    if (!handler) {
+      throw new PermanentJobError(`No handler registered for job type "${job.type}"`);
+    }
+
+    // Finish well inside the lease so another worker never picks the job up mid-run
+    const result = await runWithTimeout(handler(job), DEFAULT_LEASE_MS - 5_000);
+    await queue.complete(job, result ?? null);
+    report.completed++;
+    stats.completed++;
+  } catch (error) {
+    stats.failed++;
+    const status = await queue.fail(job, error);
+    if (status === 'dead') report.dead++;
+    else report.retried++;
+  }
+}
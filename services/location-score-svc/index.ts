@@ -1,9 +1,15 @@
 /**
  * Location Score Service
- * Custom walkability/transit scoring using Google Maps APIs
- * Alternative to WalkScore - uses your existing Google Maps API key
+ * Custom walkability/transit scoring from the imported OpenStreetMap POIs
+ * (npm run osm:import), enriched with Google Places when a Maps key is set
+ * Alternative to WalkScore
  */
 
+import { findNearbyPois, hasOsmData } from '@/lib/osm/repository';
+import type { PoiCategory, TransitMode } from '@/lib/osm/parser';
+
+type ScoreSource = 'openstreetmap' | 'google_places';
+
 interface LocationScores {
   walkability: number;      // 0-100
   transit: number;          // 0-100
@@ -12,6 +18,7 @@ interface LocationScores {
   nearbyPlaces: NearbyPlace[];
   transitStops: TransitStop[];
   description: string;
+  sources: ScoreSource[];
 }
 
 interface NearbyPlace {
@@ -19,11 +26,12 @@ interface NearbyPlace {
   type: string;
   distance: number;  // meters
   walkTime: number;  // minutes
+  category?: PoiCategory; // Set for OSM places
 }
 
 interface TransitStop {
   name: string;
-  type: 'bus' | 'subway' | 'train' | 'tram';
+  type: TransitMode;
   distance: number;
 }
 
@@ -44,6 +52,33 @@ const WALKABILITY_PLACES = [
 
 const TRANSIT_TYPES = ['bus_station', 'subway_station', 'train_station', 'transit_station'];
 
+// Amenity groups for OSM categories; Google places are matched by type keywords
+const AMENITY_GROUPS: Partial<Record<PoiCategory, string>> = {
+  grocery: 'essential',
+  pharmacies: 'essential',
+  banks: 'essential',
+  restaurants: 'dining',
+  cafes: 'dining',
+  shopping: 'shopping',
+  gyms: 'fitness',
+  parks: 'fitness',
+};
+
+const MAX_LOCAL_POIS = 200;
+
+// Keep the nearest entry per name, e.g. both platforms of a bus stop
+function dedupeByName<T extends { name: string; distance: number }>(items: T[]): T[] {
+  const seen = new Set<string>();
+  return [...items]
+    .sort((a, b) => a.distance - b.distance)
+    .filter(item => {
+      const key = item.name.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
 export class LocationScoreService {
   private apiKey: string;
   private baseUrl = 'https://maps.googleapis.com/maps/api';
@@ -55,7 +90,7 @@ export class LocationScoreService {
       || process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY 
       || '';
     if (!this.apiKey) {
-      console.warn('Google Maps API key not configured - location scores will use fallback');
+      console.warn('Google Maps API key not configured - location scores will use OSM data only');
     }
   }
 
@@ -67,16 +102,25 @@ export class LocationScoreService {
     lng: number,
     radius: number = 1000 // 1km default
   ): Promise<LocationScores> {
-    if (!this.apiKey) {
-      return this.getFallbackScores();
-    }
-
     try {
-      // Fetch nearby places and transit in parallel
-      const [nearbyPlaces, transitStops] = await Promise.all([
-        this.getNearbyPlaces(lat, lng, radius),
-        this.getNearbyTransit(lat, lng, radius)
-      ]);
+      const local = await this.getLocalPois(lat, lng, radius);
+      const sources: ScoreSource[] = local ? ['openstreetmap'] : [];
+      let nearbyPlaces = local?.nearbyPlaces ?? [];
+      let transitStops = local?.transitStops ?? [];
+
+      if (this.apiKey) {
+        const [googlePlaces, googleTransit] = await Promise.all([
+          this.getNearbyPlaces(lat, lng, radius),
+          this.getNearbyTransit(lat, lng, radius)
+        ]);
+        nearbyPlaces = dedupeByName([...nearbyPlaces, ...googlePlaces]);
+        transitStops = dedupeByName([...transitStops, ...googleTransit]);
+        sources.push('google_places');
+      }
+
+      if (sources.length === 0) {
+        return this.getFallbackScores();
+      }
 
       // Calculate individual scores
       const walkability = this.calculateWalkabilityScore(nearbyPlaces);
@@ -97,7 +141,8 @@ export class LocationScoreService {
         overall,
         nearbyPlaces: nearbyPlaces.slice(0, 10), // Top 10
         transitStops: transitStops.slice(0, 5),   // Top 5
-        description: this.getScoreDescription(overall)
+        description: this.getScoreDescription(overall),
+        sources
       };
     } catch (error) {
       console.error('Location score calculation failed:', error);
@@ -105,6 +150,49 @@ export class LocationScoreService {
     }
   }
 
+  /**
+   * Get nearby places and transit stops from the imported OSM extract.
+   * Returns null when nothing has been imported or the table is unreachable.
+   */
+  private async getLocalPois(
+    lat: number,
+    lng: number,
+    radius: number
+  ): Promise<{ nearbyPlaces: NearbyPlace[]; transitStops: TransitStop[] } | null> {
+    try {
+      const pois = await findNearbyPois(lat, lng, radius, { limit: MAX_LOCAL_POIS });
+      if (pois.length === 0 && !(await hasOsmData())) {
+        return null;
+      }
+
+      const nearbyPlaces: NearbyPlace[] = [];
+      const transitStops: TransitStop[] = [];
+
+      for (const poi of pois) {
+        if (poi.category === 'transit') {
+          if (poi.name) {
+            transitStops.push({ name: poi.name, type: poi.subcategory as TransitMode, distance: poi.distance });
+          }
+          continue;
+        }
+
+        nearbyPlaces.push({
+          name: poi.name ?? poi.subcategory.replace(/_/g, ' '),
+          type: poi.subcategory.replace(/_/g, ' '),
+          distance: poi.distance,
+          walkTime: Math.round(poi.distance / 80),
+          category: poi.category
+        });
+      }
+
+      // Unnamed places stay: a nameless park still counts toward walkability
+      return { nearbyPlaces, transitStops: dedupeByName(transitStops) };
+    } catch (error) {
+      console.warn('Local POI lookup failed:', error);
+      return null;
+    }
+  }
+
   /**
    * Get nearby places using Google Places API
    */
@@ -279,6 +367,12 @@ export class LocationScoreService {
     const foundCategories = new Set<string>();
 
     for (const place of places) {
+      const group = place.category && AMENITY_GROUPS[place.category];
+      if (group) {
+        foundCategories.add(group);
+        continue;
+      }
+
       const placeTypeLower = place.type.toLowerCase();
       
       for (const [category, keywords] of Object.entries(categories)) {
@@ -342,7 +436,8 @@ export class LocationScoreService {
       overall: 50,
       nearbyPlaces: [],
       transitStops: [],
-      description: 'Location score unavailable - API key not configured'
+      description: 'Location score unavailable - no OSM data imported and API key not configured',
+      sources: []
     };
   }
 }
@@ -5,6 +5,14 @@
 
 import { createClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  analyzeImageQualityFromBuffer,
+  coverScore,
+  listingMediaScore,
+  pickCoverImage,
+  type CoverCandidate,
+  type ImageQualityReport,
+} from '@/lib/images/quality';
 
 export interface MediaProcessingOptions {
   maxWidth?: number;
@@ -28,6 +36,15 @@ export interface ProcessedMedia {
   };
 }
 
+export interface ListingMediaRefresh {
+  primaryMediaId: string | null;
+  coverChanged: boolean;
+  mediaQualityScore: number;
+}
+
+// A primary photo scoring below this is replaced by the best-scoring photo
+const MIN_COVER_SCORE = 0.5;
+
 export class MediaPipelineService {
   private _supabase: any = null;
 
@@ -133,19 +150,62 @@ export class MediaPipelineService {
     throw new Error('MediaPipelineService is disabled in serverless environment. Sharp is required.');
   }
 
-  async analyzeImageQuality(file: Buffer): Promise<{
-    brightness: number;
-    contrast: number;
-    sharpness: number;
-    quality_score: number;
-  }> {
-    // Return default values since sharp is not available
-    return {
-      brightness: 128,
-      contrast: 25,
-      sharpness: 25,
-      quality_score: 50,
-    };
+  async analyzeImageQuality(file: Buffer): Promise<ImageQualityReport> {
+    return analyzeImageQualityFromBuffer(file);
+  }
+
+  /**
+   * Pick the cover photo from stored quality scores and update the listing's
+   * media_quality_score. An existing primary photo is kept unless it scores
+   * below MIN_COVER_SCORE, so an owner's choice of a decent cover sticks.
+   */
+  async refreshListingMedia(apartmentId: string): Promise<ListingMediaRefresh> {
+    try {
+      const { data: media, error } = await this.getSupabase()
+        .from('apartment_media')
+        .select('id, quality_score, width, height, is_primary')
+        .eq('apartment_id', apartmentId);
+
+      if (error) throw error;
+
+      const candidates: Array<CoverCandidate & { isPrimary: boolean }> = (media ?? []).map((row: any) => ({
+        id: row.id as string,
+        qualityScore: row.quality_score === null ? null : Number(row.quality_score),
+        width: row.width,
+        height: row.height,
+        isPrimary: Boolean(row.is_primary),
+      }));
+
+      const current = candidates.find((candidate) => candidate.isPrimary) ?? null;
+      const best = pickCoverImage(candidates);
+      let primary = current;
+
+      if (best && best.id !== current?.id && (!current || coverScore(current) < MIN_COVER_SCORE)) {
+        await this.setPrimaryImage(apartmentId, best.id);
+        primary = candidates.find((candidate) => candidate.id === best.id) ?? null;
+      }
+
+      const scores = candidates
+        .map((candidate) => candidate.qualityScore)
+        .filter((score): score is number => score !== null);
+      const mediaQualityScore = listingMediaScore(scores, primary?.qualityScore);
+
+      const { error: updateError } = await this.getSupabase()
+        .from('apartments')
+        .update({ media_quality_score: mediaQualityScore })
+        .eq('id', apartmentId);
+
+      if (updateError) throw updateError;
+
+      return {
+        primaryMediaId: primary?.id ?? null,
+        coverChanged: primary?.id !== current?.id,
+        mediaQualityScore,
+      };
+    } catch (error) {
+      console.error('Refresh listing media error:', error);
+      throw new Error(`Failed to refresh listing media: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 }
 
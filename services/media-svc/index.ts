@@ -4,6 +4,7 @@
 
 import { createHash } from 'crypto';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { analyzeImageQualityFromBuffer, type ImageOrientation } from '@/lib/images/quality';
 
 export interface MediaConfig {
   maxWidth: number;
@@ -32,6 +33,9 @@ export interface MediaAnalysis {
   brightness: number;
   contrast: number;
   sharpness: number;
+  width: number;
+  height: number;
+  orientation: ImageOrientation | null;
   tags: string[];
   warnings: string[];
 }
@@ -107,17 +111,37 @@ export class MediaService {
     return this.saveBuffer(buffer, path);
   }
 
-  async analyzeImage(_buffer: Buffer): Promise<MediaAnalysis> {
-    // Image analysis disabled (requires sharp)
-    return {
-      isValid: true,
-      quality: 0.8,
-      brightness: 0.5,
-      contrast: 0.5,
-      sharpness: 0.5,
-      tags: ['uploaded'],
-      warnings: [],
-    };
+  async analyzeImage(buffer: Buffer): Promise<MediaAnalysis> {
+    try {
+      const report = analyzeImageQualityFromBuffer(buffer);
+      return {
+        isValid: true,
+        quality: report.score,
+        brightness: report.brightness,
+        contrast: report.contrast,
+        sharpness: report.sharpness,
+        width: report.width,
+        height: report.height,
+        orientation: report.orientation,
+        tags: ['uploaded', report.orientation, ...report.issues],
+        warnings: report.warnings,
+      };
+    } catch (error) {
+      // GIF/HEIC and corrupt files are stored as-is but cannot be scored
+      console.warn('Image analysis skipped:', error instanceof Error ? error.message : error);
+      return {
+        isValid: false,
+        quality: 0,
+        brightness: 0,
+        contrast: 0,
+        sharpness: 0,
+        width: 0,
+        height: 0,
+        orientation: null,
+        tags: ['uploaded'],
+        warnings: ['Photo quality could not be checked; use JPEG, PNG or WebP'],
+      };
+    }
   }
 
   private getExtension(filename: string): string {
@@ -1,16 +1,19 @@
 // Messaging System Overhaul Service
-// Real-time chat, contact masking, rate limiting, and encryption
+// Real-time chat, contact masking and rate limiting. Content is end-to-end
+// encrypted by the client (lib/e2ee); this service stores and returns the
+// ciphertext envelope as-is. Keys are handled by ./keys.
 
 import { createClient, createServiceClient } from '@/utils/supabaseClient';
+import { isEncryptedEnvelope, parseEnvelope } from '@/lib/e2ee/crypto';
 import crypto from 'crypto';
 
 export interface Message {
   id: string;
   senderId: string;
   recipientId: string;
-  content: string;
+  content: string; // E2EE envelope, or plaintext in never-encrypted conversations
   isEncrypted: boolean;
-  encryptionKey?: string;
+  keyVersion?: number;
   createdAt: Date;
   readAt?: Date;
   attachments?: string[];
@@ -47,7 +50,6 @@ export interface MessageRateLimit {
 export class MessagingSystemService {
   private MESSAGE_RATE_LIMIT = 10; // messages per hour
   private RATE_LIMIT_WINDOW = 60 * 60 * 1000; // 1 hour in ms
-  private ENCRYPTION_ALGORITHM = 'aes-256-gcm';
   private contactMasks: Map<string, ContactMask> = new Map();
   private messageBuffer: Map<string, Message[]> = new Map();
 
@@ -56,7 +58,6 @@ export class MessagingSystemService {
     recipientId: string,
     content: string,
     options?: {
-      encrypt?: boolean;
       attachments?: string[];
       apartmentId?: string;
     }
@@ -79,17 +80,11 @@ export class MessagingSystemService {
 
       const supabase = createServiceClient();
 
-      // Encrypt content if requested
-      let messageContent = content;
-      let isEncrypted = false;
-      let encryptionKey: string | undefined;
-
-      if (options?.encrypt !== false) {
-        // Default to encryption
-        const encrypted = this.encryptMessage(content);
-        messageContent = encrypted.encryptedContent;
-        encryptionKey = encrypted.key;
-        isEncrypted = true;
+      // Encrypted by the sender's keyring; the version is readable without a key
+      const isEncrypted = isEncryptedEnvelope(content);
+      const keyVersion = isEncrypted ? parseEnvelope(content)?.keyVersion : undefined;
+      if (isEncrypted && !keyVersion) {
+        return { error: 'Malformed encrypted message' };
       }
 
       // Create or get conversation thread
@@ -101,9 +96,9 @@ export class MessagingSystemService {
         id: crypto.randomUUID(),
         senderId,
         recipientId,
-        content: messageContent,
+        content,
         isEncrypted,
-        encryptionKey,
+        keyVersion,
         createdAt: new Date(),
         attachments: options?.attachments,
       };
@@ -113,9 +108,9 @@ export class MessagingSystemService {
         conversation_id: conversationId,
         sender_id: senderId,
         recipient_id: recipientId,
-        content: messageContent,
+        content,
         is_encrypted: isEncrypted,
-        encryption_key: encryptionKey,
+        key_version: keyVersion ?? null,
         created_at: message.createdAt.toISOString(),
         apartment_id: options?.apartmentId,
         attachments: options?.attachments,
@@ -174,8 +169,9 @@ export class MessagingSystemService {
         id: msg.id,
         senderId: msg.sender_id,
         recipientId: msg.recipient_id,
-        content: msg.is_encrypted ? this.decryptMessage(msg.content, msg.encryption_key) : msg.content,
-        isEncrypted: msg.is_encrypted,
+        content: msg.content,
+        isEncrypted: isEncryptedEnvelope(msg.content),
+        keyVersion: msg.key_version ?? undefined,
         createdAt: new Date(msg.created_at),
         readAt: msg.read_at ? new Date(msg.read_at) : undefined,
         attachments: msg.attachments,
@@ -268,49 +264,6 @@ export class MessagingSystemService {
     }
   }
 
-  private encryptMessage(content: string): { encryptedContent: string; key: string } {
-    const key = crypto.randomBytes(32);
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv(this.ENCRYPTION_ALGORITHM, key, iv);
-
-    let encryptedContent = cipher.update(content, 'utf8', 'hex');
-    encryptedContent += cipher.final('hex');
-
-    const authTag = (cipher as crypto.CipherGCM).getAuthTag();
-    const combined = iv.toString('hex') + authTag.toString('hex') + encryptedContent;
-
-    return {
-      encryptedContent: combined,
-      key: key.toString('hex'),
-    };
-  }
-
-  private decryptMessage(encryptedContent: string, keyHex?: string): string {
-    if (!keyHex) {
-      return '[Decryption failed: no key provided]';
-    }
-
-    try {
-      const key = Buffer.from(keyHex, 'hex');
-      const buffer = Buffer.from(encryptedContent, 'hex');
-
-      const iv = buffer.slice(0, 16);
-      const authTag = buffer.slice(16, 32);
-      const encrypted = buffer.slice(32);
-
-      const decipher = crypto.createDecipheriv(this.ENCRYPTION_ALGORITHM, key, iv);
-      (decipher as crypto.DecipherGCM).setAuthTag(authTag);
-
-      let decrypted = decipher.update(encrypted);
-      decrypted = Buffer.concat([decrypted, decipher.final()]);
-
-      return decrypted.toString('utf8');
-    } catch (error) {
-      console.error('Decryption failed:', error);
-      return '[Decryption failed]';
-    }
-  }
-
   private getConversationId(userId1: string, userId2: string): string {
     const sorted = [userId1, userId2].sort();
     return `conv-${sorted[0]}-${sorted[1]}`;
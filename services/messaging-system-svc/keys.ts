@@ -0,0 +1,309 @@
+// Conversation key directory - server side of end-to-end encryption
+// Stores public keys and per-participant wrapped conversation keys, tracks
+// membership and decides when a conversation needs a new key version. It
+// never sees private keys, unwrapped keys or plaintext.
+
+import { getPool, runQuery } from '@/lib/db/pool';
+import { isEncryptedEnvelope, parseEnvelope, publicKeyFingerprint, toPublicJwk } from '@/lib/e2ee/crypto';
+import type { ConversationKeyBundle } from '@/lib/e2ee/keyring';
+import { logger } from '@/utils/logger';
+
+export type ParticipantRole = 'student' | 'owner' | 'member';
+
+export interface ConversationKeyState {
+  keyVersion: number;
+  rotationRequired: boolean;
+}
+
+/**
+ * Key directory failure with the HTTP status the API should answer with
+ */
+export class ConversationKeyError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 403 | 404 | 409
+  ) {
+    super(message);
+    this.name = 'ConversationKeyError';
+  }
+}
+
+/**
+ * Check a new key version against the conversation: it must be the next
+ * version and be wrapped for exactly the active participants, so a removed
+ * participant never receives it
+ */
+export function validateKeyDistribution(
+  state: ConversationKeyState,
+  activeParticipantIds: string[],
+  keyVersion: number,
+  wrappedForUserIds: string[]
+): ConversationKeyError | null {
+  if (keyVersion <= state.keyVersion) {
+    return new ConversationKeyError(`Key version ${keyVersion} already exists`, 409);
+  }
+  if (keyVersion !== state.keyVersion + 1) {
+    return new ConversationKeyError(`Expected key version ${state.keyVersion + 1}`, 400);
+  }
+
+  const expected = new Set(activeParticipantIds);
+  const provided = new Set(wrappedForUserIds);
+  if (provided.size !== wrappedForUserIds.length) {
+    return new ConversationKeyError('Duplicate participant in wrapped keys', 400);
+  }
+
+  const missing = activeParticipantIds.filter((id) => !provided.has(id));
+  const unexpected = wrappedForUserIds.filter((id) => !expected.has(id));
+  if (missing.length || unexpected.length) {
+    return new ConversationKeyError('Wrapped keys must cover exactly the active participants', 400);
+  }
+
+  return null;
+}
+
+/**
+ * Decide whether message content may be stored. Returns the key version of an
+ * encrypted message, or null for plaintext in a never-encrypted conversation.
+ */
+export function checkMessageContent(state: ConversationKeyState, content: string): number | null {
+  if (!isEncryptedEnvelope(content)) {
+    if (state.keyVersion > 0) {
+      throw new ConversationKeyError('This conversation is end-to-end encrypted; plaintext is not accepted', 400);
+    }
+    return null;
+  }
+
+  const envelope = parseEnvelope(content);
+  if (!envelope) {
+    throw new ConversationKeyError('Malformed encrypted message', 400);
+  }
+  if (state.rotationRequired || envelope.keyVersion !== state.keyVersion) {
+    // The sender's keyring refetches the bundle and rotates or catches up
+    throw new ConversationKeyError('Conversation key is out of date', 409);
+  }
+  return envelope.keyVersion;
+}
+
+export class ConversationKeyService {
+  /**
+   * Store the user's current public key. A changed key (new device, cleared
+   * storage) means existing wrapped keys are unreadable for them, so their
+   * encrypted conversations get a new key version on the next message.
+   */
+  async publishPublicKey(userId: string, jwk: JsonWebKey): Promise<{ fingerprint: string; changed: boolean }> {
+    let publicKey: JsonWebKey;
+    try {
+      publicKey = toPublicJwk(jwk);
+    } catch (error: any) {
+      throw new ConversationKeyError(error.message, 400);
+    }
+    const fingerprint = await publicKeyFingerprint(publicKey);
+
+    const { rows } = await runQuery<{ fingerprint: string }>(
+      `SELECT fingerprint FROM public.user_public_keys WHERE user_id = $1`,
+      [userId]
+    );
+    const previous = rows[0]?.fingerprint;
+    if (previous === fingerprint) {
+      return { fingerprint, changed: false };
+    }
+
+    await runQuery(
+      `INSERT INTO public.user_public_keys (user_id, public_key, fingerprint)
+       VALUES ($1, $2::jsonb, $3)
+       ON CONFLICT (user_id) DO UPDATE
+         SET public_key = EXCLUDED.public_key, fingerprint = EXCLUDED.fingerprint, updated_at = now()`,
+      [userId, JSON.stringify(publicKey), fingerprint]
+    );
+
+    if (previous) {
+      const { rowCount } = await runQuery(
+        `UPDATE public.conversations c
+         SET key_rotation_required = true, updated_at = now()
+         FROM public.conversation_participants p
+         WHERE p.conversation_id = c.id AND p.user_id = $1 AND p.removed_at IS NULL AND c.key_version > 0`,
+        [userId]
+      );
+      logger.info({ userId, conversations: rowCount }, 'Public key replaced; conversation keys marked for rotation');
+    }
+
+    return { fingerprint, changed: true };
+  }
+
+  async getKeyState(conversationId: string): Promise<ConversationKeyState> {
+    const { rows } = await runQuery(
+      `SELECT key_version, key_rotation_required FROM public.conversations WHERE id = $1`,
+      [conversationId]
+    );
+    if (!rows[0]) {
+      throw new ConversationKeyError('Conversation not found', 404);
+    }
+    return { keyVersion: Number(rows[0].key_version), rotationRequired: Boolean(rows[0].key_rotation_required) };
+  }
+
+  /**
+   * Everything a participant's keyring needs: the current version, who to
+   * wrap the next version for, and their own wrapped keys
+   */
+  async getConversationKeys(userId: string, conversationId: string): Promise<ConversationKeyBundle> {
+    await this.assertParticipant(userId, conversationId);
+    const state = await this.getKeyState(conversationId);
+
+    const [participants, wrappedKeys] = await Promise.all([
+      runQuery(
+        `SELECT p.user_id, k.public_key
+         FROM public.conversation_participants p
+         LEFT JOIN public.user_public_keys k ON k.user_id = p.user_id
+         WHERE p.conversation_id = $1 AND p.removed_at IS NULL
+         ORDER BY p.added_at`,
+        [conversationId]
+      ),
+      runQuery(
+        `SELECT key_version, wrapped_key FROM public.conversation_keys
+         WHERE conversation_id = $1 AND user_id = $2
+         ORDER BY key_version`,
+        [conversationId, userId]
+      ),
+    ]);
+
+    return {
+      conversationId,
+      currentVersion: state.keyVersion,
+      rotationRequired: state.rotationRequired,
+      participants: participants.rows.map((row) => ({ userId: row.user_id, publicKey: row.public_key ?? null })),
+      wrappedKeys: wrappedKeys.rows.map((row) => ({ keyVersion: Number(row.key_version), wrappedKey: row.wrapped_key })),
+    };
+  }
+
+  /**
+   * Store a new key version wrapped for every active participant and make it
+   * current. Concurrent rotations race on the row lock; the loser gets a 409.
+   */
+  async storeConversationKey(
+    userId: string,
+    conversationId: string,
+    keyVersion: number,
+    wrappedKeys: Array<{ userId: string; wrappedKey: string }>
+  ): Promise<ConversationKeyState> {
+    const pool = await getPool();
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const { rows } = await client.query(
+        `SELECT key_version, key_rotation_required FROM public.conversations WHERE id = $1 FOR UPDATE`,
+        [conversationId]
+      );
+      if (!rows[0]) {
+        throw new ConversationKeyError('Conversation not found', 404);
+      }
+
+      const participants = await client.query(
+        `SELECT user_id FROM public.conversation_participants WHERE conversation_id = $1 AND removed_at IS NULL`,
+        [conversationId]
+      );
+      const activeIds: string[] = participants.rows.map((row: any) => row.user_id);
+      if (!activeIds.includes(userId)) {
+        throw new ConversationKeyError('Not a participant in this conversation', 403);
+      }
+
+      const state = { keyVersion: Number(rows[0].key_version), rotationRequired: Boolean(rows[0].key_rotation_required) };
+      const invalid = validateKeyDistribution(state, activeIds, keyVersion, wrappedKeys.map((entry) => entry.userId));
+      if (invalid) throw invalid;
+
+      for (const entry of wrappedKeys) {
+        await client.query(
+          `INSERT INTO public.conversation_keys (conversation_id, key_version, user_id, wrapped_key, created_by)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [conversationId, keyVersion, entry.userId, entry.wrappedKey, userId]
+        );
+      }
+
+      await client.query(
+        `UPDATE public.conversations
+         SET key_version = $2, key_rotation_required = false, updated_at = now()
+         WHERE id = $1`,
+        [conversationId, keyVersion]
+      );
+
+      await client.query('COMMIT');
+      return { keyVersion, rotationRequired: false };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Add a member (e.g. a co-tenant). They can read messages from the next key
+   * version on, not the history before they joined.
+   */
+  async addParticipant(actorId: string, conversationId: string, userId: string): Promise<void> {
+    const role = await this.assertParticipant(actorId, conversationId);
+    if (role === 'member') {
+      throw new ConversationKeyError('Only the student or owner can add participants', 403);
+    }
+
+    await runQuery(
+      `INSERT INTO public.conversation_participants (conversation_id, user_id, role, added_by)
+       VALUES ($1, $2, 'member', $3)
+       ON CONFLICT (conversation_id, user_id) DO UPDATE
+         SET removed_at = NULL, added_by = EXCLUDED.added_by, added_at = now()
+         WHERE public.conversation_participants.removed_at IS NOT NULL`,
+      [conversationId, userId, actorId]
+    );
+    await this.requireRotation(conversationId);
+  }
+
+  /**
+   * Remove a member, or let a member leave. Their wrapped keys for earlier
+   * versions stay (they saw those messages); the next message uses a key they
+   * never receive.
+   */
+  async removeParticipant(actorId: string, conversationId: string, userId: string): Promise<void> {
+    const actorRole = await this.assertParticipant(actorId, conversationId);
+    if (actorId !== userId && actorRole === 'member') {
+      throw new ConversationKeyError('Only the student or owner can remove participants', 403);
+    }
+
+    const { rows } = await runQuery(
+      `UPDATE public.conversation_participants
+       SET removed_at = now()
+       WHERE conversation_id = $1 AND user_id = $2 AND removed_at IS NULL AND role = 'member'
+       RETURNING user_id`,
+      [conversationId, userId]
+    );
+    if (!rows[0]) {
+      throw new ConversationKeyError('Participant not found or cannot be removed', 404);
+    }
+
+    await this.requireRotation(conversationId);
+    logger.info({ conversationId, removedUserId: userId, actorId }, 'Participant removed; conversation key marked for rotation');
+  }
+
+  private async requireRotation(conversationId: string): Promise<void> {
+    // A never-encrypted conversation gets its first key with the current members anyway
+    await runQuery(
+      `UPDATE public.conversations SET key_rotation_required = true, updated_at = now()
+       WHERE id = $1 AND key_version > 0`,
+      [conversationId]
+    );
+  }
+
+  private async assertParticipant(userId: string, conversationId: string): Promise<ParticipantRole> {
+    const { rows } = await runQuery<{ role: ParticipantRole }>(
+      `SELECT role FROM public.conversation_participants
+       WHERE conversation_id = $1 AND user_id = $2 AND removed_at IS NULL`,
+      [conversationId, userId]
+    );
+    if (!rows[0]) {
+      throw new ConversationKeyError('Not a participant in this conversation', 403);
+    }
+    return rows[0].role;
+  }
+}
+
+export const conversationKeyService = new ConversationKeyService();
@@ -0,0 +1,744 @@
+// Digest composer - the personalised digest behind digest.send jobs
+// Gathers what changed for a user since their last digest (new saved-search
+// matches, price drops on favourites, unread messages, upcoming viewings and
+// market stats for their districts), ranks the listings with the
+// personalization service, renders HTML and plain text in the user's locale
+// and queues the email. Each send has a digest_sends row whose id the open
+// pixel and the signed click redirects count against.
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createTranslator } from 'next-intl';
+import { runQuery } from '@/lib/db/pool';
+import { escapeHtml } from '@/lib/validation/sanitizer';
+import { JOB_QUEUES, jobQueue, type DigestJobPayload, type EmailJobPayload } from '@/services/job-queue-svc';
+import { personalizationService } from '@/services/personalization-svc';
+import { districtNumber } from '@/services/pricing-svc/model';
+import type { UserPreferences } from '@/services/ranking-svc';
+import en from '@/messages/en.json';
+import hu from '@/messages/hu.json';
+
+export type DigestType = DigestJobPayload['type'];
+export type DigestLocale = 'en' | 'hu';
+export type DigestBlockKind = 'upcoming_viewings' | 'unread_messages' | 'price_drops' | 'new_matches' | 'market_stats';
+
+export const DIGEST_LOCALES: DigestLocale[] = ['en', 'hu'];
+export const MAX_BLOCK_ITEMS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MESSAGES = { en, hu };
+
+/** Blocks each digest type may contain */
+export const DIGEST_TYPE_BLOCKS: Record<DigestType, DigestBlockKind[]> = {
+  weekly_summary: ['upcoming_viewings', 'unread_messages', 'price_drops', 'new_matches', 'market_stats'],
+  saved_searches: ['new_matches'],
+  price_drops: ['price_drops'],
+  new_listings: ['new_matches', 'market_stats'],
+};
+
+/** digest_preferences categories that switch a block on; viewings and messages are always in */
+const BLOCK_CATEGORIES: Partial<Record<DigestBlockKind, string[]>> = {
+  new_matches: ['saved_searches', 'new_listings'],
+  price_drops: ['price_drops'],
+  market_stats: ['nearby_updates', 'new_listings'],
+};
+
+export interface DigestSearch {
+  minPrice: number | null;
+  maxPrice: number | null;
+  bedrooms: number | null;
+  districts: number[];
+  furnished: boolean;
+}
+
+export interface DigestRecipient {
+  userId: string;
+  email: string;
+  locale: DigestLocale;
+  categories: string[];
+  lastSentAt: Date | null;
+  searches: DigestSearch[];
+}
+
+export interface DigestListing {
+  apartmentId: string;
+  title: string;
+  district: number | null;
+  priceHuf: number;
+  bedrooms: number;
+  furnished: boolean;
+}
+
+export interface DigestMatch extends DigestListing {
+  searchName: string;
+  matchedAt: Date;
+}
+
+export interface DigestPriceDrop extends DigestListing {
+  oldPriceHuf: number;
+  changedAt: Date;
+}
+
+export interface DigestThread {
+  conversationId: string;
+  apartmentTitle: string;
+  unread: number;
+  lastMessageAt: Date;
+}
+
+export interface DigestViewing {
+  bookingId: string;
+  apartmentId: string;
+  apartmentTitle: string;
+  startsAt: Date;
+}
+
+export interface DigestMarketStat {
+  district: number;
+  medianHuf: number;
+  trend: 'up' | 'down' | 'stable';
+  trendPct: number;
+  listings: number;
+  newListings: number;
+}
+
+export type DigestBlock =
+  | { kind: 'upcoming_viewings'; score: number; items: DigestViewing[] }
+  | { kind: 'unread_messages'; score: number; items: DigestThread[] }
+  | { kind: 'price_drops'; score: number; items: DigestPriceDrop[] }
+  | { kind: 'new_matches'; score: number; items: DigestMatch[] }
+  | { kind: 'market_stats'; score: number; items: DigestMarketStat[] };
+
+export interface ComposedDigest {
+  type: DigestType;
+  locale: DigestLocale;
+  since: Date;
+  blocks: DigestBlock[];
+  /** Listings mentioned across all blocks */
+  apartmentCount: number;
+}
+
+export interface RenderedDigest {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface DigestSendResult {
+  sendId: string | null;
+  status: 'sent' | 'skipped';
+  blocks: DigestBlockKind[];
+  apartmentCount: number;
+}
+
+/**
+ * Digest failure with the HTTP status the API should answer with
+ */
+export class DigestError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 404
+  ) {
+    super(message);
+    this.name = 'DigestError';
+  }
+}
+
+/**
+ * What the user's saved searches say about them, in the ranking service's terms
+ */
+export function preferencesFromSearches(searches: DigestSearch[]): UserPreferences {
+  const maxPrices = searches.map((search) => search.maxPrice).filter((price): price is number => price !== null);
+  const minPrices = searches.map((search) => search.minPrice).filter((price): price is number => price !== null);
+  const bedrooms = searches.map((search) => search.bedrooms).filter((count): count is number => count !== null);
+  const districts = Array.from(new Set(searches.flatMap((search) => search.districts)));
+
+  return {
+    budget_min: minPrices.length ? Math.min(...minPrices) : undefined,
+    budget_max: maxPrices.length ? Math.max(...maxPrices) : undefined,
+    preferred_bedrooms: bedrooms.length ? Math.min(...bedrooms) : undefined,
+    preferred_districts: districts.length ? districts.map(districtLabel) : undefined,
+    must_have_furnished: searches.length > 0 && searches.every((search) => search.furnished),
+  };
+}
+
+// The ranking service matches districts by substring; the prefix keeps "1." out of "11."
+function districtLabel(district: number): string {
+  return `Budapest ${district}. kerület`;
+}
+
+export function blocksFor(type: DigestType, categories: string[]): DigestBlockKind[] {
+  return DIGEST_TYPE_BLOCKS[type].filter((kind) => {
+    const required = BLOCK_CATEGORIES[kind];
+    return !required || required.some((category) => categories.includes(category));
+  });
+}
+
+/**
+ * Order blocks for the email: a viewing in the next two days and unanswered
+ * messages need action, listing blocks follow their best-ranked listing
+ * (favourites first on a tie, the user picked them), market stats close
+ */
+export function orderBlocks(blocks: DigestBlock[], now: Date): DigestBlock[] {
+  const scored = blocks.map((block) => {
+    switch (block.kind) {
+      case 'upcoming_viewings':
+        return { ...block, score: block.items.some((v) => v.startsAt.getTime() - now.getTime() < 2 * DAY_MS) ? 2 : 1.2 };
+      case 'unread_messages':
+        return { ...block, score: 1.1 };
+      case 'market_stats':
+        return { ...block, score: 0 };
+      case 'price_drops':
+        return { ...block, score: block.score + 0.05 };
+      default:
+        return block;
+    }
+  });
+  return scored.sort((a, b) => b.score - a.score);
+}
+
+export function signDigestLink(sendId: string, target: string, secret: string): string {
+  return createHmac('sha256', secret).update(`${sendId}\n${target}`).digest('base64url');
+}
+
+/**
+ * Check a tracking link's signature; false when tampered with
+ */
+export function verifyDigestLink(sendId: string, target: string, signature: string, secret: string): boolean {
+  const expected = Buffer.from(signDigestLink(sendId, target, secret));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Null when DIGEST_TRACKING_SECRET is unset: digests then go out without
+ * tracking, since links signed with a known fallback could be forged
+ */
+export function digestTrackingSecret(): string | null {
+  return process.env.DIGEST_TRACKING_SECRET || null;
+}
+
+/**
+ * Whether a link stays on the app: relative, or on the app URL's origin
+ */
+export function isAppLink(url: string, appUrl: string): boolean {
+  const base = appUrl || 'http://app.invalid';
+  try {
+    return new URL(url, base).origin === new URL(base).origin;
+  } catch {
+    return false;
+  }
+}
+
+export interface DigestLinks {
+  /** Wraps an app URL in the click redirect */
+  click(url: string): string;
+  /** Null when tracking is disabled */
+  openPixel: string | null;
+  dashboard: string;
+  settings: string;
+  apartment(apartmentId: string): string;
+  conversation(conversationId: string): string;
+}
+
+/**
+ * Links for one send; without a secret the app links are used as they are
+ */
+export function trackingLinks(sendId: string, appUrl: string, secret: string | null): DigestLinks {
+  const base = `${appUrl}/api/digests/${sendId}`;
+  return {
+    click: (url) =>
+      secret ? `${base}/click?url=${encodeURIComponent(url)}&sig=${signDigestLink(sendId, url, secret)}` : url,
+    openPixel: secret ? `${base}/open?sig=${signDigestLink(sendId, 'open', secret)}` : null,
+    dashboard: `${appUrl}/dashboard`,
+    settings: `${appUrl}/dashboard/settings`,
+    apartment: (apartmentId) => `${appUrl}/apartments/${apartmentId}`,
+    conversation: (conversationId) => `${appUrl}/dashboard/messages?conversation=${conversationId}`,
+  };
+}
+
+/**
+ * HTML and plain text of a composed digest in its locale
+ */
+export function renderDigest(digest: ComposedDigest, links: DigestLinks): RenderedDigest {
+  const t = createTranslator({ locale: digest.locale, messages: MESSAGES[digest.locale], namespace: 'Digest' });
+  const intlLocale = digest.locale === 'hu' ? 'hu-HU' : 'en-GB';
+  const huf = (value: number) => `${value.toLocaleString(intlLocale)} Ft`;
+  const date = (value: Date, withTime = false) =>
+    value.toLocaleString(intlLocale, {
+      timeZone: 'Europe/Budapest',
+      dateStyle: 'medium',
+      ...(withTime ? { timeStyle: 'short' as const } : {}),
+    });
+
+  const sections = digest.blocks.map((block) => {
+    const shown = block.items.slice(0, MAX_BLOCK_ITEMS);
+    let lines: Array<{ text: string; url: string | null }>;
+    switch (block.kind) {
+      case 'upcoming_viewings':
+        lines = (shown as DigestViewing[]).map((v) => ({
+          text: t('upcoming_viewings_item', { title: v.apartmentTitle, date: date(v.startsAt, true) }),
+          url: links.apartment(v.apartmentId),
+        }));
+        break;
+      case 'unread_messages':
+        lines = (shown as DigestThread[]).map((thread) => ({
+          text: t('unread_messages_item', { count: thread.unread, title: thread.apartmentTitle }),
+          url: links.conversation(thread.conversationId),
+        }));
+        break;
+      case 'price_drops':
+        lines = (shown as DigestPriceDrop[]).map((drop) => ({
+          text: t('price_drops_item', {
+            title: drop.title,
+            oldPrice: huf(drop.oldPriceHuf),
+            newPrice: huf(drop.priceHuf),
+            percent: Math.round(((drop.oldPriceHuf - drop.priceHuf) / drop.oldPriceHuf) * 100),
+          }),
+          url: links.apartment(drop.apartmentId),
+        }));
+        break;
+      case 'new_matches':
+        lines = (shown as DigestMatch[]).map((match) => ({
+          text: t('new_matches_item', {
+            title: match.title,
+            price: huf(match.priceHuf),
+            bedrooms: match.bedrooms,
+            search: match.searchName,
+          }),
+          url: links.apartment(match.apartmentId),
+        }));
+        break;
+      case 'market_stats':
+        lines = (shown as DigestMarketStat[]).map((stat) => ({
+          text: t('market_stats_item', {
+            district: stat.district,
+            median: huf(stat.medianHuf),
+            trend: t(`trend_${stat.trend}`, { pct: Math.abs(stat.trendPct) }),
+            listings: stat.listings,
+            newListings: stat.newListings,
+          }),
+          url: null,
+        }));
+        break;
+    }
+    const more = block.items.length - shown.length;
+    return { title: t(`${block.kind}_title`), lines, more: more > 0 ? t('more', { count: more }) : null };
+  });
+
+  const itemCount = digest.blocks.reduce((sum, block) => sum + block.items.length, 0);
+  const subject = t('subject', { count: itemCount });
+  const heading = t('heading', { since: date(digest.since) });
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; color: #1f2937;">
+      <h1 style="color: #2563eb; font-size: 22px;">${escapeHtml(heading)}</h1>
+      ${sections
+        .map(
+          (section) => `
+      <h2 style="font-size: 17px; margin-top: 24px;">${escapeHtml(section.title)}</h2>
+      <ul style="padding-left: 18px;">
+        ${section.lines
+          .map((line) =>
+            line.url
+              ? `<li><a href="${escapeHtml(links.click(line.url))}" style="color: #2563eb;">${escapeHtml(line.text)}</a></li>`
+              : `<li>${escapeHtml(line.text)}</li>`
+          )
+          .join('\n        ')}
+      </ul>${section.more ? `\n      <p style="color: #6b7280;">${escapeHtml(section.more)}</p>` : ''}`
+        )
+        .join('')}
+      <p style="margin-top: 24px;"><a href="${escapeHtml(links.click(links.dashboard))}" style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">${escapeHtml(t('open_dashboard'))}</a></p>
+      <p style="font-size: 12px; color: #6b7280;">${escapeHtml(t('footer'))} <a href="${escapeHtml(links.click(links.settings))}">${escapeHtml(t('manage'))}</a></p>
+      ${links.openPixel ? `<img src="${escapeHtml(links.openPixel)}" width="1" height="1" alt="" style="display: none;" />` : ''}
+    </div>
+  `;
+
+  const text = [
+    heading,
+    ...sections.flatMap((section) => [
+      '',
+      section.title,
+      ...section.lines.map((line) => `- ${line.text}${line.url ? `\n  ${line.url}` : ''}`),
+      ...(section.more ? [section.more] : []),
+    ]),
+    '',
+    `${t('open_dashboard')}: ${links.dashboard}`,
+    `${t('manage')}: ${links.settings}`,
+  ].join('\n');
+
+  return { subject, html, text };
+}
+
+export interface DigestRepository {
+  findRecipient(userId: string): Promise<DigestRecipient | null>;
+  newMatches(userId: string, since: Date): Promise<DigestMatch[]>;
+  priceDropsOnFavorites(userId: string, since: Date): Promise<DigestPriceDrop[]>;
+  unreadThreads(userId: string): Promise<DigestThread[]>;
+  upcomingViewings(userId: string, from: Date, until: Date): Promise<DigestViewing[]>;
+  /** Districts of the user's saved searches and favourites */
+  userDistricts(userId: string): Promise<number[]>;
+  marketStats(districts: number[], since: Date): Promise<DigestMarketStat[]>;
+  /** The send row of a job, created on first call */
+  startSend(jobId: string, userId: string, type: DigestType, locale: DigestLocale): Promise<string>;
+  finishSend(
+    sendId: string,
+    result: { status: 'sent' | 'skipped'; subject: string | null; blocks: DigestBlockKind[]; apartmentCount: number }
+  ): Promise<void>;
+  markDigestSent(userId: string, at: Date): Promise<void>;
+  recordOpen(sendId: string): Promise<boolean>;
+  recordClick(sendId: string): Promise<boolean>;
+}
+
+/** Personalization score per apartment id, 0-1 */
+export type DigestRanker = (
+  userId: string,
+  listings: DigestListing[],
+  preferences: UserPreferences
+) => Promise<Map<string, number>>;
+
+export type DigestMailer = (sendId: string, to: string, rendered: RenderedDigest, type: DigestType) => Promise<void>;
+
+export const rankWithPersonalization: DigestRanker = async (userId, listings, preferences) => {
+  if (listings.length === 0) return new Map();
+  const result = await personalizationService.getPersonalizedRecommendations(
+    userId,
+    listings.map((listing) => ({
+      id: listing.apartmentId,
+      price: listing.priceHuf,
+      rooms: listing.bedrooms,
+      bedrooms: listing.bedrooms,
+      district: listing.district ? districtLabel(listing.district) : undefined,
+      furnished: listing.furnished,
+    })),
+    preferences
+  );
+  return new Map(result.recommendations.map((recommendation) => [recommendation.apartment_id, recommendation.ranking.score]));
+};
+
+export const queueDigestEmail: DigestMailer = async (sendId, to, rendered, type) => {
+  await jobQueue.enqueue<EmailJobPayload>(
+    JOB_QUEUES.email,
+    'email.send',
+    {
+      to,
+      subject: rendered.subject,
+      html: rendered.html,
+      text: rendered.text,
+      tags: [{ name: 'digest_type', value: type }],
+    },
+    { idempotencyKey: `digest-email:${sendId}` }
+  );
+};
+
+const toDate = (value: any): Date | null => (value ? new Date(value) : null);
+
+function mapListing(row: any): DigestListing {
+  return {
+    apartmentId: row.apartment_id,
+    title: row.title,
+    district: districtNumber(row.district),
+    priceHuf: Number(row.monthly_rent_huf),
+    bedrooms: Number(row.bedrooms),
+    furnished: Boolean(row.furnished),
+  };
+}
+
+export class PostgresDigestRepository implements DigestRepository {
+  async findRecipient(userId: string): Promise<DigestRecipient | null> {
+    const { rows } = await runQuery(
+      `SELECT p.id, p.email, dp.locale, dp.categories, dp.last_sent_at
+       FROM public.profiles p
+       LEFT JOIN public.digest_preferences dp ON dp.user_id = p.id
+       WHERE p.id = $1`,
+      [userId]
+    );
+    if (!rows[0]?.email) return null;
+
+    const searches = await runQuery(
+      `SELECT min_price, max_price, bedrooms, districts, furnished
+       FROM public.saved_searches
+       WHERE user_id = $1 AND COALESCE(is_active, true)`,
+      [userId]
+    );
+    return {
+      userId,
+      email: rows[0].email,
+      locale: DIGEST_LOCALES.includes(rows[0].locale) ? rows[0].locale : 'en',
+      categories: rows[0].categories ?? ['new_listings', 'saved_searches', 'price_drops'],
+      lastSentAt: toDate(rows[0].last_sent_at),
+      searches: searches.rows.map((row: any) => ({
+        minPrice: row.min_price === null ? null : Number(row.min_price),
+        maxPrice: row.max_price === null ? null : Number(row.max_price),
+        bedrooms: row.bedrooms === null ? null : Number(row.bedrooms),
+        districts: (row.districts ?? []).map(Number),
+        furnished: Boolean(row.furnished),
+      })),
+    };
+  }
+
+  async newMatches(userId: string, since: Date): Promise<DigestMatch[]> {
+    const { rows } = await runQuery(
+      `SELECT m.apartment_id, m.matched_at, s.name AS search_name,
+         a.title, a.district, a.monthly_rent_huf, a.bedrooms, a.furnished
+       FROM public.saved_search_matches m
+       JOIN public.saved_searches s ON s.id = m.saved_search_id
+       JOIN public.apartments a ON a.id = m.apartment_id
+       WHERE m.user_id = $1 AND m.matched_at >= $2 AND m.status <> 'withdrawn' AND a.status = 'published'
+       ORDER BY m.matched_at DESC`,
+      [userId, since]
+    );
+    return rows.map((row: any) => ({ ...mapListing(row), searchName: row.search_name, matchedAt: new Date(row.matched_at) }));
+  }
+
+  async priceDropsOnFavorites(userId: string, since: Date): Promise<DigestPriceDrop[]> {
+    // Several changes in the period collapse into first old price -> current price
+    const { rows } = await runQuery(
+      `SELECT a.id AS apartment_id, a.title, a.district, a.monthly_rent_huf, a.bedrooms, a.furnished,
+         (ARRAY_AGG(h.old_price ORDER BY h.created_at))[1] AS old_price,
+         MAX(h.created_at) AS changed_at
+       FROM public.apartment_favorites f
+       JOIN public.apartments a ON a.id = f.apartment_id AND a.status = 'published'
+       JOIN public.pricing_history h ON h.apartment_id = a.id AND h.created_at >= $2
+       WHERE f.user_id = $1
+       GROUP BY a.id
+       HAVING (ARRAY_AGG(h.old_price ORDER BY h.created_at))[1] > a.monthly_rent_huf`,
+      [userId, since]
+    );
+    return rows.map((row: any) => ({
+      ...mapListing(row),
+      oldPriceHuf: Number(row.old_price),
+      changedAt: new Date(row.changed_at),
+    }));
+  }
+
+  async unreadThreads(userId: string): Promise<DigestThread[]> {
+    const { rows } = await runQuery(
+      `SELECT c.id, a.title, COUNT(*)::int AS unread, MAX(m.created_at) AS last_message_at
+       FROM public.conversations c
+       JOIN public.apartments a ON a.id = c.apartment_id
+       JOIN public.messages m ON m.conversation_id = c.id AND m.sender_id <> $1 AND m.read_at IS NULL
+       WHERE (c.student_id = $1 OR c.owner_id = $1) AND c.status = 'active'
+       GROUP BY c.id, a.title
+       ORDER BY last_message_at DESC`,
+      [userId]
+    );
+    return rows.map((row: any) => ({
+      conversationId: row.id,
+      apartmentTitle: row.title,
+      unread: row.unread,
+      lastMessageAt: new Date(row.last_message_at),
+    }));
+  }
+
+  async upcomingViewings(userId: string, from: Date, until: Date): Promise<DigestViewing[]> {
+    const { rows } = await runQuery(
+      `SELECT b.id, s.apartment_id, a.title, s.start_time
+       FROM public.viewing_bookings b
+       JOIN public.viewing_slots s ON s.id = b.viewing_slot_id AND s.status = 'active'
+       JOIN public.apartments a ON a.id = s.apartment_id
+       WHERE b.student_id = $1 AND b.status = 'confirmed' AND s.start_time BETWEEN $2 AND $3
+       ORDER BY s.start_time`,
+      [userId, from, until]
+    );
+    return rows.map((row: any) => ({
+      bookingId: row.id,
+      apartmentId: row.apartment_id,
+      apartmentTitle: row.title,
+      startsAt: new Date(row.start_time),
+    }));
+  }
+
+  async userDistricts(userId: string): Promise<number[]> {
+    const { rows } = await runQuery(
+      `SELECT unnest(districts)::text AS district FROM public.saved_searches
+       WHERE user_id = $1 AND COALESCE(is_active, true)
+       UNION
+       SELECT a.district FROM public.apartment_favorites f
+       JOIN public.apartments a ON a.id = f.apartment_id
+       WHERE f.user_id = $1`,
+      [userId]
+    );
+    const districts = rows.map((row: any) => districtNumber(row.district)).filter((d: number | null): d is number => d !== null);
+    return Array.from(new Set<number>(districts)).sort((a, b) => a - b);
+  }
+
+  async marketStats(districts: number[], since: Date): Promise<DigestMarketStat[]> {
+    if (districts.length === 0) return [];
+    const [quantiles, published] = await Promise.all([
+      runQuery(
+        `SELECT district, listings, p50_huf, trend, trend_pct
+         FROM public.district_rent_quantiles WHERE district = ANY($1) ORDER BY district`,
+        [districts]
+      ),
+      runQuery(`SELECT district FROM public.apartments WHERE status = 'published' AND published_at >= $1`, [since]),
+    ]);
+    const fresh = new Map<number, number>();
+    for (const row of published.rows) {
+      const district = districtNumber(row.district);
+      if (district !== null) fresh.set(district, (fresh.get(district) ?? 0) + 1);
+    }
+    return quantiles.rows.map((row: any) => ({
+      district: Number(row.district),
+      medianHuf: Number(row.p50_huf),
+      trend: row.trend,
+      trendPct: Number(row.trend_pct),
+      listings: Number(row.listings),
+      newListings: fresh.get(Number(row.district)) ?? 0,
+    }));
+  }
+
+  async startSend(jobId: string, userId: string, type: DigestType, locale: DigestLocale): Promise<string> {
+    const { rows } = await runQuery(
+      `INSERT INTO public.digest_sends (job_id, user_id, type, digest_type, locale, status)
+       VALUES ($1, $2, $3, $4, $5, 'composing')
+       ON CONFLICT (job_id) WHERE job_id IS NOT NULL DO UPDATE SET locale = EXCLUDED.locale
+       RETURNING id`,
+      [jobId, userId, type === 'weekly_summary' ? 'weekly' : 'daily', type, locale]
+    );
+    return rows[0].id;
+  }
+
+  async finishSend(
+    sendId: string,
+    result: { status: 'sent' | 'skipped'; subject: string | null; blocks: DigestBlockKind[]; apartmentCount: number }
+  ): Promise<void> {
+    await runQuery(
+      `UPDATE public.digest_sends
+       SET status = $2, subject = $3, blocks = $4, apartment_count = $5, sent_at = now()
+       WHERE id = $1`,
+      [sendId, result.status, result.subject, result.blocks, result.apartmentCount]
+    );
+  }
+
+  async markDigestSent(userId: string, at: Date): Promise<void> {
+    await runQuery('UPDATE public.digest_preferences SET last_sent_at = $2 WHERE user_id = $1', [userId, at]);
+  }
+
+  async recordOpen(sendId: string): Promise<boolean> {
+    const { rowCount } = await runQuery(
+      `UPDATE public.digest_sends
+       SET open_count = open_count + 1, opened_at = COALESCE(opened_at, now())
+       WHERE id = $1`,
+      [sendId]
+    );
+    return (rowCount ?? 0) > 0;
+  }
+
+  async recordClick(sendId: string): Promise<boolean> {
+    // A click proves the open even when the pixel was blocked
+    const { rowCount } = await runQuery(
+      `UPDATE public.digest_sends
+       SET click_count = click_count + 1, clicked_at = COALESCE(clicked_at, now()),
+           opened_at = COALESCE(opened_at, now())
+       WHERE id = $1`,
+      [sendId]
+    );
+    return (rowCount ?? 0) > 0;
+  }
+}
+
+export class DigestService {
+  constructor(
+    private repository: DigestRepository = new PostgresDigestRepository(),
+    private rank: DigestRanker = rankWithPersonalization,
+    private mail: DigestMailer = queueDigestEmail,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Gather and rank the blocks of one digest; empty blocks are left out
+   */
+  async compose(recipient: DigestRecipient, type: DigestType): Promise<ComposedDigest> {
+    const now = this.now();
+    const period = type === 'weekly_summary' ? 7 * DAY_MS : DAY_MS;
+    const since = recipient.lastSentAt ?? new Date(now.getTime() - period);
+    const kinds = blocksFor(type, recipient.categories);
+    const wants = (kind: DigestBlockKind) => kinds.includes(kind);
+
+    const [matches, drops, threads, viewings, market] = await Promise.all([
+      wants('new_matches') ? this.repository.newMatches(recipient.userId, since) : [],
+      wants('price_drops') ? this.repository.priceDropsOnFavorites(recipient.userId, since) : [],
+      wants('unread_messages') ? this.repository.unreadThreads(recipient.userId) : [],
+      wants('upcoming_viewings') ? this.repository.upcomingViewings(recipient.userId, now, new Date(now.getTime() + 7 * DAY_MS)) : [],
+      wants('market_stats')
+        ? this.repository.userDistricts(recipient.userId).then((districts) => this.repository.marketStats(districts, since))
+        : [],
+    ]);
+
+    const scores = await this.rank(recipient.userId, [...drops, ...matches], preferencesFromSearches(recipient.searches));
+    const score = (listing: DigestListing) => scores.get(listing.apartmentId) ?? 0;
+    const byScore = <T extends DigestListing>(items: T[]) => [...items].sort((a, b) => score(b) - score(a));
+    const best = (items: DigestListing[]) => Math.max(0, ...items.map(score));
+
+    // A favourite that dropped in price is news already; do not list it again as a match
+    const dropped = new Set(drops.map((drop) => drop.apartmentId));
+    const freshMatches = matches.filter((match) => !dropped.has(match.apartmentId));
+
+    const blocks: DigestBlock[] = [
+      { kind: 'upcoming_viewings' as const, score: 0, items: viewings },
+      { kind: 'unread_messages' as const, score: 0, items: threads },
+      { kind: 'price_drops' as const, score: best(drops), items: byScore(drops) },
+      { kind: 'new_matches' as const, score: best(freshMatches), items: byScore(freshMatches) },
+      { kind: 'market_stats' as const, score: 0, items: market },
+    ].filter((block) => block.items.length > 0);
+
+    return {
+      type,
+      locale: recipient.locale,
+      since,
+      blocks: orderBlocks(blocks, now),
+      apartmentCount: new Set([...drops, ...freshMatches].map((listing) => listing.apartmentId)).size,
+    };
+  }
+
+  /**
+   * Compose, render and queue one digest; a digest with nothing in it is recorded as skipped
+   */
+  async send(jobId: string, payload: DigestJobPayload): Promise<DigestSendResult> {
+    const recipient = await this.repository.findRecipient(payload.userId);
+    if (!recipient) {
+      throw new DigestError('Digest recipient not found', 404);
+    }
+
+    const digest = await this.compose(recipient, payload.type);
+    const sendId = await this.repository.startSend(jobId, recipient.userId, payload.type, digest.locale);
+    const blocks = digest.blocks.map((block) => block.kind);
+
+    if (digest.blocks.length === 0) {
+      await this.repository.finishSend(sendId, { status: 'skipped', subject: null, blocks, apartmentCount: 0 });
+      return { sendId, status: 'skipped', blocks, apartmentCount: 0 };
+    }
+
+    const rendered = renderDigest(digest, trackingLinks(sendId, process.env.NEXT_PUBLIC_APP_URL || '', digestTrackingSecret()));
+    await this.mail(sendId, recipient.email, rendered, payload.type);
+    await this.repository.finishSend(sendId, {
+      status: 'sent',
+      subject: rendered.subject,
+      blocks,
+      apartmentCount: digest.apartmentCount,
+    });
+    await this.repository.markDigestSent(recipient.userId, this.now());
+
+    return { sendId, status: 'sent', blocks, apartmentCount: digest.apartmentCount };
+  }
+
+  async recordOpen(sendId: string, signature: string): Promise<boolean> {
+    const secret = digestTrackingSecret();
+    if (!secret || !verifyDigestLink(sendId, 'open', signature, secret)) return false;
+    return this.repository.recordOpen(sendId);
+  }
+
+  /**
+   * Count a click and return where to send the reader; null when the link was
+   * tampered with or leads off the app
+   */
+  async recordClick(sendId: string, url: string, signature: string): Promise<string | null> {
+    const secret = digestTrackingSecret();
+    if (!secret || !verifyDigestLink(sendId, url, signature, secret)) return null;
+    if (!isAppLink(url, process.env.NEXT_PUBLIC_APP_URL || '')) return null;
+    await this.repository.recordClick(sendId);
+    return url;
+  }
+}
+
+export const digestService = new DigestService();
@@ -1,6 +1,8 @@
 // Notification Service - Multi-channel notification system
 // Handles email, push notifications, SMS, and in-app notifications
 
+import { JOB_QUEUES, jobQueue } from '@/services/job-queue-svc';
+
 export interface NotificationTemplate {
   id: string;
   subject: string;
@@ -69,26 +71,36 @@ export class NotificationService {
     return results;
   }
 
+  /**
+   * Queue one notification.send job per payload. The job worker delivers them
+   * with retries; scheduledFor delays the job and urgent/high run first.
+   */
   async sendBulkNotifications(
     payloads: NotificationPayload[],
-    batchSize: number = 50
-  ): Promise<NotificationResult[][]> {
-    const results: NotificationResult[][] = [];
-
-    for (let i = 0; i < payloads.length; i += batchSize) {
-      const batch = payloads.slice(i, i + batchSize);
-      const batchResults = await Promise.all(
-        batch.map(payload => this.sendNotification(payload))
-      );
-      results.push(...batchResults);
-
-      // Rate limiting
-      if (i + batchSize < payloads.length) {
-        await this.delay(1000); // 1 second between batches
-      }
-    }
-
-    return results;
+    options: { idempotencyPrefix?: string } = {}
+  ): Promise<{ queued: number; duplicates: number; jobIds: string[] }> {
+    const priorities = { urgent: 20, high: 10, normal: 0, low: -10 };
+
+    const results = await jobQueue.enqueueMany(
+      JOB_QUEUES.notifications,
+      'notification.send',
+      payloads.map(payload => ({
+        payload,
+        options: {
+          runAt: payload.scheduledFor,
+          priority: priorities[payload.priority],
+          idempotencyKey: options.idempotencyPrefix
+            ? `${options.idempotencyPrefix}:${payload.templateId}:${payload.recipient.userId}`
+            : undefined,
+        },
+      }))
+    );
+
+    return {
+      queued: results.filter(result => result.created).length,
+      duplicates: results.filter(result => !result.created).length,
+      jobIds: results.map(result => result.job.id),
+    };
   }
 
   private async sendToChannel(
@@ -299,6 +311,43 @@ export class NotificationService {
       variables: ['address', 'newPrice', 'oldPrice', 'apartmentUrl'],
     });
 
+    // Saved-search alerts: one listing at once, or the daily/weekly batch
+    this.templates.set('saved_search_match', {
+      id: 'saved_search_match',
+      subject: 'New match for "{{searchName}}": {{title}}',
+      body: `
+        <h2>{{title}}</h2>
+        <p>{{address}} · {{price}} · {{bedrooms}} bedroom(s)</p>
+        <p>It matches your saved search "{{searchName}}". <a href="{{apartmentUrl}}">View apartment</a></p>
+      `,
+      channels: ['email', 'push', 'sms', 'in-app'],
+      variables: ['searchName', 'title', 'address', 'price', 'bedrooms', 'apartmentUrl'],
+    });
+
+    this.templates.set('saved_search_batch', {
+      id: 'saved_search_batch',
+      subject: '{{matchCount}} new apartments match your saved searches',
+      body: `
+        <h2>New matches for your saved searches</h2>
+        {{matchList}}
+        <p><a href="{{searchesUrl}}">Manage your saved searches</a></p>
+      `,
+      channels: ['email', 'push', 'in-app'],
+      variables: ['matchCount', 'matchList', 'searchesUrl'],
+    });
+
+    // Roommate groups
+    this.templates.set('roommate_group_invite', {
+      id: 'roommate_group_invite',
+      subject: '{{inviterName}} invited you to the roommate group "{{groupName}}"',
+      body: `
+        <p>{{inviterName}} would like to search for a flat together with you in "{{groupName}}".</p>
+        <p><a href="{{groupUrl}}">View the group</a></p>
+      `,
+      channels: ['email', 'push', 'in-app'],
+      variables: ['inviterName', 'groupName', 'groupUrl'],
+    });
+
     // Message notifications
     this.templates.set('new_message', {
       id: 'new_message',
@@ -323,10 +372,43 @@ export class NotificationService {
       channels: ['email', 'in-app'],
       variables: ['university', 'verificationUrl'],
     });
-  }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    this.templates.set('verification_decision', {
+      id: 'verification_decision',
+      subject: 'Your {{documentName}} {{outcome}}',
+      body: `
+        <h2>Verification update</h2>
+        <p>Your {{documentName}} {{outcome}}.</p>
+        <p>{{reason}}</p>
+        <p><a href="{{verificationUrl}}">Open verification</a></p>
+      `,
+      channels: ['email', 'in-app'],
+      variables: ['documentName', 'outcome', 'reason', 'verificationUrl'],
+    });
+
+    this.templates.set('deposit_update', {
+      id: 'deposit_update',
+      subject: '{{title}}',
+      body: `
+        <h2>{{title}}</h2>
+        <p>{{message}}</p>
+        <p><a href="{{bookingsUrl}}">View the deposit</a></p>
+      `,
+      channels: ['email', 'in-app'],
+      variables: ['title', 'message', 'bookingsUrl'],
+    });
+
+    this.templates.set('condition_report_update', {
+      id: 'condition_report_update',
+      subject: '{{title}}',
+      body: `
+        <h2>{{title}}</h2>
+        <p>{{message}}</p>
+        <p><a href="{{reportUrl}}">Open the condition report</a></p>
+      `,
+      channels: ['email', 'in-app'],
+      variables: ['title', 'message', 'reportUrl'],
+    });
   }
 }
 
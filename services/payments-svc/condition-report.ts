@@ -0,0 +1,879 @@
+// Condition reports - move-in and move-out inventory of a leased apartment
+// The owner records every room's items with their condition, notes and
+// photos plus the utility meter readings, signs the report and sends it to
+// the tenant. The tenant co-signs exactly what they were shown (the content
+// hash must match) or sends it back with comments. The move-out report
+// starts as a copy of the signed move-in one and is compared against it, so
+// a deposit dispute can point at what changed.
+//
+// draft -> awaiting_tenant (owner signs) -> signed (tenant co-signs)
+// awaiting_tenant -> draft (tenant requests changes)
+
+import { createHash, randomUUID } from 'crypto';
+import { runQuery } from '@/lib/db/pool';
+import { PdfDocument } from '@/lib/pdf';
+import { getDocumentStorage, type StorageAdapter } from '@/lib/storage';
+import { notificationService } from '@/services/notify-svc';
+import { CONTENT_TYPE_EXTENSIONS, MAX_DOCUMENT_BYTES, sniffContentType } from '@/services/verification-svc/documents';
+import type { LeaseStatus } from './lease';
+
+export type ReportKind = 'move_in' | 'move_out';
+export type ReportStatus = 'draft' | 'awaiting_tenant' | 'signed';
+export type ItemCondition = 'new' | 'good' | 'fair' | 'poor' | 'damaged' | 'missing';
+export type MeterType = 'electricity' | 'gas' | 'water_cold' | 'water_hot' | 'heating';
+export type ItemChangeType = 'unchanged' | 'better' | 'worse' | 'missing' | 'added';
+export type ReportEvent = 'submitted' | 'signed' | 'changes_requested';
+
+export const METER_TYPES: MeterType[] = ['electricity', 'gas', 'water_cold', 'water_hot', 'heating'];
+
+export const METER_UNITS: Record<MeterType, string> = {
+  electricity: 'kWh',
+  gas: 'm3',
+  water_cold: 'm3',
+  water_hot: 'm3',
+  heating: 'GJ',
+};
+
+// Higher is worse; a move-out item ranked above its move-in rank got worse
+const CONDITION_RANK: Record<ItemCondition, number> = {
+  new: 0,
+  good: 1,
+  fair: 2,
+  poor: 3,
+  damaged: 4,
+  missing: 5,
+};
+
+// Move-in can be recorded once the lease is agreed; move-out while living there or after
+const KIND_LEASE_STATUSES: Record<ReportKind, LeaseStatus[]> = {
+  move_in: ['accepted', 'signed', 'active'],
+  move_out: ['active', 'ended'],
+};
+
+export const PHOTO_URL_TTL_SECONDS = 10 * 60;
+export const MAX_ROOMS = 30;
+export const MAX_ITEMS_PER_ROOM = 50;
+export const MAX_PHOTOS_PER_ENTRY = 10;
+
+export interface InventoryItem {
+  name: string;
+  condition: ItemCondition;
+  notes: string;
+  photoKeys: string[];
+}
+
+export interface InventoryRoom {
+  name: string;
+  items: InventoryItem[];
+}
+
+export interface MeterReading {
+  meter: MeterType;
+  serial: string | null;
+  /** Null while the owner has not read the meter yet */
+  reading: number | null;
+  photoKeys: string[];
+}
+
+export interface ReportContent {
+  rooms: InventoryRoom[];
+  meterReadings: MeterReading[];
+  generalNotes: string;
+}
+
+export interface ConditionReport extends ReportContent {
+  id: string;
+  bookingId: string;
+  tenantId: string;
+  ownerId: string;
+  kind: ReportKind;
+  status: ReportStatus;
+  tenantComments: string | null;
+  contentHash: string | null;
+  ownerSignature: string | null;
+  ownerSignedAt: Date | null;
+  tenantSignature: string | null;
+  tenantSignedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type NewConditionReport = Pick<ConditionReport, 'bookingId' | 'tenantId' | 'ownerId' | 'kind'> & ReportContent;
+
+export type ConditionReportUpdate = Partial<
+  Pick<
+    ConditionReport,
+    | 'rooms'
+    | 'meterReadings'
+    | 'generalNotes'
+    | 'tenantComments'
+    | 'contentHash'
+    | 'ownerSignature'
+    | 'ownerSignedAt'
+    | 'tenantSignature'
+    | 'tenantSignedAt'
+  >
+>;
+
+/** The lease fields a report needs */
+export interface ReportLease {
+  id: string;
+  tenantId: string;
+  ownerId: string;
+  status: LeaseStatus;
+  apartmentTitle: string;
+  apartmentAddress: string | null;
+  moveInDate: string;
+  moveOutDate: string;
+}
+
+export interface ItemChange {
+  room: string;
+  item: string;
+  moveIn: ItemCondition | null;
+  moveOut: ItemCondition | null;
+  change: ItemChangeType;
+  moveOutNotes: string;
+  moveInPhotoKeys: string[];
+  moveOutPhotoKeys: string[];
+}
+
+export interface MeterUsage {
+  meter: MeterType;
+  unit: string;
+  moveIn: number | null;
+  moveOut: number | null;
+  /** Null when either reading is missing */
+  consumption: number | null;
+}
+
+export interface ReportComparison {
+  items: ItemChange[];
+  meters: MeterUsage[];
+  /** Items that got worse or went missing */
+  worsened: number;
+}
+
+/**
+ * Condition report failure with the HTTP status the API should answer with
+ */
+export class ConditionReportError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 403 | 404 | 409
+  ) {
+    super(message);
+    this.name = 'ConditionReportError';
+  }
+}
+
+export function photoPrefix(bookingId: string): string {
+  return `condition-reports/${bookingId}/`;
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * sha256 of the report content in a fixed key order; what both parties sign
+ */
+export function reportContentHash(report: Pick<ConditionReport, 'bookingId' | 'kind'> & ReportContent): string {
+  const canonical = JSON.stringify({
+    bookingId: report.bookingId,
+    kind: report.kind,
+    rooms: report.rooms.map((room) => ({
+      name: room.name,
+      items: room.items.map((item) => ({
+        name: item.name,
+        condition: item.condition,
+        notes: item.notes,
+        photoKeys: item.photoKeys,
+      })),
+    })),
+    meterReadings: report.meterReadings.map((reading) => ({
+      meter: reading.meter,
+      serial: reading.serial,
+      reading: reading.reading,
+      photoKeys: reading.photoKeys,
+    })),
+    generalNotes: report.generalNotes,
+  });
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * Item by item and meter by meter differences between move-in and move-out.
+ * Rooms and items are matched by name, ignoring case and surrounding spaces.
+ */
+export function compareReports(moveIn: ReportContent, moveOut: ReportContent): ReportComparison {
+  const items: ItemChange[] = [];
+  const moveOutRooms = new Map(moveOut.rooms.map((room) => [normalizeName(room.name), room]));
+
+  for (const room of moveIn.rooms) {
+    const laterRoom = moveOutRooms.get(normalizeName(room.name));
+    const laterItems = new Map((laterRoom?.items ?? []).map((item) => [normalizeName(item.name), item]));
+
+    for (const item of room.items) {
+      const later = laterItems.get(normalizeName(item.name));
+      laterItems.delete(normalizeName(item.name));
+      const delta = later ? CONDITION_RANK[later.condition] - CONDITION_RANK[item.condition] : 0;
+      const gone = !later || (later.condition === 'missing' && delta > 0);
+      items.push({
+        room: room.name,
+        item: item.name,
+        moveIn: item.condition,
+        moveOut: later?.condition ?? null,
+        change: gone ? 'missing' : delta > 0 ? 'worse' : delta < 0 ? 'better' : 'unchanged',
+        moveOutNotes: later?.notes ?? '',
+        moveInPhotoKeys: item.photoKeys,
+        moveOutPhotoKeys: later?.photoKeys ?? [],
+      });
+    }
+
+    for (const added of laterItems.values()) {
+      items.push({
+        room: room.name,
+        item: added.name,
+        moveIn: null,
+        moveOut: added.condition,
+        change: 'added',
+        moveOutNotes: added.notes,
+        moveInPhotoKeys: [],
+        moveOutPhotoKeys: added.photoKeys,
+      });
+    }
+    moveOutRooms.delete(normalizeName(room.name));
+  }
+
+  for (const room of moveOutRooms.values()) {
+    for (const added of room.items) {
+      items.push({
+        room: room.name,
+        item: added.name,
+        moveIn: null,
+        moveOut: added.condition,
+        change: 'added',
+        moveOutNotes: added.notes,
+        moveInPhotoKeys: [],
+        moveOutPhotoKeys: added.photoKeys,
+      });
+    }
+  }
+
+  const meters = METER_TYPES.flatMap((meter): MeterUsage[] => {
+    const first = moveIn.meterReadings.find((reading) => reading.meter === meter);
+    const last = moveOut.meterReadings.find((reading) => reading.meter === meter);
+    if (!first && !last) return [];
+    const start = first?.reading ?? null;
+    const end = last?.reading ?? null;
+    return [
+      {
+        meter,
+        unit: METER_UNITS[meter],
+        moveIn: start,
+        moveOut: end,
+        consumption: start !== null && end !== null ? Math.round((end - start) * 1000) / 1000 : null,
+      },
+    ];
+  });
+
+  return {
+    items,
+    meters,
+    worsened: items.filter((item) => item.change === 'worse' || item.change === 'missing').length,
+  };
+}
+
+/**
+ * Move-out draft: the move-in inventory with the recorded conditions as the
+ * starting point, and empty meter readings
+ */
+export function prefillMoveOut(moveIn: ReportContent): ReportContent {
+  return {
+    rooms: moveIn.rooms.map((room) => ({
+      name: room.name,
+      items: room.items.map((item) => ({ name: item.name, condition: item.condition, notes: '', photoKeys: [] })),
+    })),
+    meterReadings: moveIn.meterReadings.map((reading) => ({
+      meter: reading.meter,
+      serial: reading.serial,
+      reading: null,
+      photoKeys: [],
+    })),
+    generalNotes: '',
+  };
+}
+
+/**
+ * Check report content before it is stored; `complete` also requires every
+ * meter to have a reading, as when the owner signs
+ */
+export function validateReportContent(content: ReportContent, bookingId: string, complete = false): void {
+  if (content.rooms.length > MAX_ROOMS) {
+    throw new ConditionReportError(`A report can have at most ${MAX_ROOMS} rooms`, 400);
+  }
+  const prefix = photoPrefix(bookingId);
+  const photoKeys = [
+    ...content.rooms.flatMap((room) => room.items.flatMap((item) => item.photoKeys)),
+    ...content.meterReadings.flatMap((reading) => reading.photoKeys),
+  ];
+  if (photoKeys.some((key) => !key.startsWith(prefix))) {
+    throw new ConditionReportError('Photos must be uploaded for this lease', 400);
+  }
+
+  const roomNames = new Set<string>();
+  for (const room of content.rooms) {
+    if (roomNames.has(normalizeName(room.name))) {
+      throw new ConditionReportError(`Room "${room.name}" is listed twice`, 400);
+    }
+    roomNames.add(normalizeName(room.name));
+    if (room.items.length > MAX_ITEMS_PER_ROOM) {
+      throw new ConditionReportError(`"${room.name}" can have at most ${MAX_ITEMS_PER_ROOM} items`, 400);
+    }
+    const itemNames = new Set(room.items.map((item) => normalizeName(item.name)));
+    if (itemNames.size !== room.items.length) {
+      throw new ConditionReportError(`"${room.name}" lists an item twice`, 400);
+    }
+  }
+
+  if (new Set(content.meterReadings.map((reading) => reading.meter)).size !== content.meterReadings.length) {
+    throw new ConditionReportError('Each meter can be read only once', 400);
+  }
+  if (complete) {
+    if (content.rooms.every((room) => room.items.length === 0)) {
+      throw new ConditionReportError('Add at least one item before signing', 400);
+    }
+    if (content.meterReadings.some((reading) => reading.reading === null)) {
+      throw new ConditionReportError('Fill in every meter reading before signing', 400);
+    }
+  }
+}
+
+export interface ConditionReportRepository {
+  findLease(bookingId: string): Promise<ReportLease | null>;
+  /** Null when the booking already has a report of this kind */
+  create(report: NewConditionReport): Promise<ConditionReport | null>;
+  find(bookingId: string, kind: ReportKind): Promise<ConditionReport | null>;
+  list(bookingId: string): Promise<ConditionReport[]>;
+  /** Moves the report only while it is in one of `from`; null otherwise */
+  transition(
+    id: string,
+    from: ReportStatus[],
+    to: ReportStatus,
+    update: ConditionReportUpdate
+  ): Promise<ConditionReport | null>;
+}
+
+export type ReportNotifier = (report: ConditionReport, event: ReportEvent) => Promise<void>;
+
+const toDate = (value: any): Date | null => (value ? new Date(value) : null);
+
+function mapReport(row: any): ConditionReport {
+  return {
+    id: row.id,
+    bookingId: row.booking_id,
+    tenantId: row.tenant_id,
+    ownerId: row.owner_id,
+    kind: row.kind,
+    status: row.status,
+    rooms: row.rooms ?? [],
+    meterReadings: row.meter_readings ?? [],
+    generalNotes: row.general_notes ?? '',
+    tenantComments: row.tenant_comments ?? null,
+    contentHash: row.content_hash ?? null,
+    ownerSignature: row.owner_signature ?? null,
+    ownerSignedAt: toDate(row.owner_signed_at),
+    tenantSignature: row.tenant_signature ?? null,
+    tenantSignedAt: toDate(row.tenant_signed_at),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+const REPORT_COLUMNS: Record<keyof ConditionReportUpdate, string> = {
+  rooms: 'rooms',
+  meterReadings: 'meter_readings',
+  generalNotes: 'general_notes',
+  tenantComments: 'tenant_comments',
+  contentHash: 'content_hash',
+  ownerSignature: 'owner_signature',
+  ownerSignedAt: 'owner_signed_at',
+  tenantSignature: 'tenant_signature',
+  tenantSignedAt: 'tenant_signed_at',
+};
+
+// jsonb columns are sent as JSON text
+const JSON_COLUMNS = new Set<keyof ConditionReportUpdate>(['rooms', 'meterReadings']);
+
+export class PostgresConditionReportRepository implements ConditionReportRepository {
+  async findLease(bookingId: string): Promise<ReportLease | null> {
+    const { rows } = await runQuery(
+      `SELECT b.id, b.tenant_id, b.owner_id, b.status, b.move_in_date, b.move_out_date,
+              a.title AS apartment_title, a.address AS apartment_address
+       FROM public.bookings b
+       JOIN public.apartments a ON a.id = b.apartment_id
+       WHERE b.id = $1`,
+      [bookingId]
+    );
+    const row = rows[0];
+    if (!row) return null;
+    return {
+      id: row.id,
+      tenantId: row.tenant_id,
+      ownerId: row.owner_id,
+      status: row.status,
+      apartmentTitle: row.apartment_title,
+      apartmentAddress: row.apartment_address ?? null,
+      moveInDate: String(row.move_in_date).slice(0, 10),
+      moveOutDate: String(row.move_out_date).slice(0, 10),
+    };
+  }
+
+  async create(report: NewConditionReport): Promise<ConditionReport | null> {
+    const { rows } = await runQuery(
+      `INSERT INTO public.condition_reports
+         (booking_id, tenant_id, owner_id, kind, rooms, meter_readings, general_notes)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (booking_id, kind) DO NOTHING
+       RETURNING *`,
+      [
+        report.bookingId,
+        report.tenantId,
+        report.ownerId,
+        report.kind,
+        JSON.stringify(report.rooms),
+        JSON.stringify(report.meterReadings),
+        report.generalNotes,
+      ]
+    );
+    return rows[0] ? mapReport(rows[0]) : null;
+  }
+
+  async find(bookingId: string, kind: ReportKind): Promise<ConditionReport | null> {
+    const { rows } = await runQuery('SELECT * FROM public.condition_reports WHERE booking_id = $1 AND kind = $2', [
+      bookingId,
+      kind,
+    ]);
+    return rows[0] ? mapReport(rows[0]) : null;
+  }
+
+  async list(bookingId: string): Promise<ConditionReport[]> {
+    const { rows } = await runQuery(
+      'SELECT * FROM public.condition_reports WHERE booking_id = $1 ORDER BY created_at',
+      [bookingId]
+    );
+    return rows.map(mapReport);
+  }
+
+  async transition(
+    id: string,
+    from: ReportStatus[],
+    to: ReportStatus,
+    update: ConditionReportUpdate
+  ): Promise<ConditionReport | null> {
+    const entries = Object.entries(update).filter(([, value]) => value !== undefined) as Array<
+      [keyof ConditionReportUpdate, unknown]
+    >;
+    const { rows } = await runQuery(
+      `UPDATE public.condition_reports
+       SET status = $3, updated_at = now()${entries.map(([key], index) => `, ${REPORT_COLUMNS[key]} = $${index + 4}`).join('')}
+       WHERE id = $1 AND status = ANY($2)
+       RETURNING *`,
+      [id, from, to, ...entries.map(([key, value]) => (JSON_COLUMNS.has(key) ? JSON.stringify(value) : value))]
+    );
+    return rows[0] ? mapReport(rows[0]) : null;
+  }
+}
+
+const KIND_LABELS: Record<ReportKind, string> = { move_in: 'move-in', move_out: 'move-out' };
+
+const EVENT_MESSAGES: Record<ReportEvent, { recipient: 'tenant' | 'owner'; title: string; message: string }> = {
+  submitted: {
+    recipient: 'tenant',
+    title: 'Please review and sign the {{kind}} report',
+    message: 'Your landlord recorded the condition of the apartment. Check every room and sign it, or send it back with your comments.',
+  },
+  signed: {
+    recipient: 'owner',
+    title: 'The tenant signed the {{kind}} report',
+    message: 'Both of you have signed the report. You can download it as a PDF at any time.',
+  },
+  changes_requested: {
+    recipient: 'owner',
+    title: 'The tenant asked for changes to the {{kind}} report',
+    message: 'Read the tenant\'s comments, update the report and send it again.',
+  },
+};
+
+export const notifyReportEvent: ReportNotifier = async (report, event) => {
+  const { recipient, title, message } = EVENT_MESSAGES[event];
+  const userId = recipient === 'tenant' ? report.tenantId : report.ownerId;
+  const { rows } = await runQuery('SELECT id, email FROM public.profiles WHERE id = $1', [userId]);
+  if (!rows[0]?.email) return;
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || '';
+
+  await notificationService.sendBulkNotifications(
+    [
+      {
+        templateId: 'condition_report_update',
+        recipient: {
+          userId,
+          email: rows[0].email,
+          preferences: { email: true, push: false, sms: false, inApp: true },
+        },
+        variables: {
+          title: title.replace('{{kind}}', KIND_LABELS[report.kind]),
+          message,
+          reportUrl: `${appUrl}${recipient === 'owner' ? '/owner/bookings' : '/dashboard/bookings'}/${report.bookingId}/condition-report`,
+        },
+        priority: 'normal' as const,
+      },
+    ],
+    { idempotencyPrefix: `condition-report:${report.id}:${event}:${report.updatedAt.getTime()}` }
+  );
+};
+
+export interface ConditionReportView {
+  report: ConditionReport;
+  /** Short-lived URLs for every photo in the report, by storage key */
+  photoUrls: Record<string, string>;
+}
+
+export interface ConditionReportsOverview {
+  lease: ReportLease;
+  /** Null for an admin reviewing a deposit dispute */
+  role: 'tenant' | 'owner' | null;
+  reports: ConditionReportView[];
+  /** Present once the move-out report exists */
+  comparison: ReportComparison | null;
+}
+
+function reportPhotoKeys(report: ReportContent): string[] {
+  return [
+    ...report.rooms.flatMap((room) => room.items.flatMap((item) => item.photoKeys)),
+    ...report.meterReadings.flatMap((reading) => reading.photoKeys),
+  ];
+}
+
+export class ConditionReportService {
+  constructor(
+    private repository: ConditionReportRepository = new PostgresConditionReportRepository(),
+    private notify: ReportNotifier = notifyReportEvent,
+    private storage: () => StorageAdapter = getDocumentStorage,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  private async leaseFor(
+    userId: string,
+    bookingId: string,
+    options: { isAdmin?: boolean } = {}
+  ): Promise<{ lease: ReportLease; role: 'tenant' | 'owner' | null }> {
+    const lease = await this.repository.findLease(bookingId);
+    if (!lease || (!options.isAdmin && lease.tenantId !== userId && lease.ownerId !== userId)) {
+      throw new ConditionReportError('Lease not found', 404);
+    }
+    const role = lease.ownerId === userId ? 'owner' : lease.tenantId === userId ? 'tenant' : null;
+    return { lease, role };
+  }
+
+  private async reportFor(userId: string, bookingId: string, kind: ReportKind) {
+    const { lease, role } = await this.leaseFor(userId, bookingId);
+    const report = await this.repository.find(bookingId, kind);
+    if (!report) {
+      throw new ConditionReportError(`No ${KIND_LABELS[kind]} report has been started`, 404);
+    }
+    return { lease, role, report };
+  }
+
+  private async view(report: ConditionReport): Promise<ConditionReportView> {
+    const storage = this.storage();
+    const keys = reportPhotoKeys(report);
+    const urls = await Promise.all(keys.map((key) => storage.signedUrl(key, PHOTO_URL_TTL_SECONDS)));
+    return { report, photoUrls: Object.fromEntries(keys.map((key, index) => [key, urls[index]])) };
+  }
+
+  /**
+   * Both reports of a lease with their photos, and the comparison once the
+   * move-out report exists
+   */
+  async overview(userId: string, bookingId: string, options: { isAdmin?: boolean } = {}): Promise<ConditionReportsOverview> {
+    const { lease, role } = await this.leaseFor(userId, bookingId, options);
+    const reports = await this.repository.list(bookingId);
+    const moveIn = reports.find((report) => report.kind === 'move_in');
+    const moveOut = reports.find((report) => report.kind === 'move_out');
+
+    return {
+      lease,
+      role,
+      reports: await Promise.all(reports.map((report) => this.view(report))),
+      comparison: moveIn && moveOut ? compareReports(moveIn, moveOut) : null,
+    };
+  }
+
+  /**
+   * The owner starts a report; a move-out report is prefilled from the
+   * signed move-in report when there is one
+   */
+  async create(ownerId: string, bookingId: string, kind: ReportKind): Promise<ConditionReport> {
+    const { lease, role } = await this.leaseFor(ownerId, bookingId);
+    if (role !== 'owner') {
+      throw new ConditionReportError('Only the owner can start a condition report', 403);
+    }
+    if (!KIND_LEASE_STATUSES[kind].includes(lease.status)) {
+      throw new ConditionReportError(`A ${KIND_LABELS[kind]} report cannot be started while the lease is ${lease.status}`, 409);
+    }
+
+    let content: ReportContent = { rooms: [], meterReadings: [], generalNotes: '' };
+    if (kind === 'move_out') {
+      const moveIn = await this.repository.find(bookingId, 'move_in');
+      if (moveIn?.status === 'signed') content = prefillMoveOut(moveIn);
+    }
+
+    const report = await this.repository.create({
+      bookingId,
+      tenantId: lease.tenantId,
+      ownerId: lease.ownerId,
+      kind,
+      ...content,
+    });
+    if (!report) {
+      throw new ConditionReportError(`The ${KIND_LABELS[kind]} report already exists`, 409);
+    }
+    return report;
+  }
+
+  /**
+   * Store a photo of an item or a meter; returns its key
+   */
+  async uploadPhoto(ownerId: string, bookingId: string, body: Uint8Array): Promise<string> {
+    const { role } = await this.leaseFor(ownerId, bookingId);
+    if (role !== 'owner') {
+      throw new ConditionReportError('Only the owner can add photos to a condition report', 403);
+    }
+    if (body.byteLength === 0 || body.byteLength > MAX_DOCUMENT_BYTES) {
+      throw new ConditionReportError('File must be between 1 byte and 10MB', 400);
+    }
+    const contentType = sniffContentType(body);
+    if (!contentType || contentType === 'application/pdf') {
+      throw new ConditionReportError('Photos must be JPEG, PNG or WebP', 400);
+    }
+
+    const key = `${photoPrefix(bookingId)}${randomUUID()}.${CONTENT_TYPE_EXTENSIONS[contentType]}`;
+    return (await this.storage().put(key, body, { contentType })).key;
+  }
+
+  async saveDraft(ownerId: string, bookingId: string, kind: ReportKind, content: ReportContent): Promise<ConditionReport> {
+    const { role, report } = await this.reportFor(ownerId, bookingId, kind);
+    if (role !== 'owner') {
+      throw new ConditionReportError('Only the owner can edit a condition report', 403);
+    }
+    validateReportContent(content, bookingId);
+
+    const saved = await this.repository.transition(report.id, ['draft'], 'draft', content);
+    if (!saved) {
+      throw new ConditionReportError('Only a draft can be edited', 409);
+    }
+    return saved;
+  }
+
+  /**
+   * The owner signs the report and sends it to the tenant to co-sign
+   */
+  async submit(ownerId: string, bookingId: string, kind: ReportKind, signature: string): Promise<ConditionReport> {
+    const { role, report } = await this.reportFor(ownerId, bookingId, kind);
+    if (role !== 'owner') {
+      throw new ConditionReportError('Only the owner can send a condition report', 403);
+    }
+    validateReportContent(report, bookingId, true);
+
+    const submitted = await this.repository.transition(report.id, ['draft'], 'awaiting_tenant', {
+      contentHash: reportContentHash(report),
+      ownerSignature: signature,
+      ownerSignedAt: this.now(),
+    });
+    if (!submitted) {
+      throw new ConditionReportError('The report has already been sent', 409);
+    }
+    await this.notify(submitted, 'submitted');
+    return submitted;
+  }
+
+  /**
+   * The tenant co-signs the version they were shown. A stale hash means the
+   * report changed since it was loaded.
+   */
+  async sign(
+    tenantId: string,
+    bookingId: string,
+    kind: ReportKind,
+    input: { contentHash: string; signature: string; comments?: string }
+  ): Promise<ConditionReport> {
+    const { role, report } = await this.reportFor(tenantId, bookingId, kind);
+    if (role !== 'tenant') {
+      throw new ConditionReportError('Only the tenant can co-sign a condition report', 403);
+    }
+    if (report.status !== 'awaiting_tenant') {
+      throw new ConditionReportError('The report is not waiting for your signature', 409);
+    }
+    if (input.contentHash !== report.contentHash || reportContentHash(report) !== report.contentHash) {
+      throw new ConditionReportError('The report has changed; reload it before signing', 409);
+    }
+
+    const signed = await this.repository.transition(report.id, ['awaiting_tenant'], 'signed', {
+      tenantSignature: input.signature,
+      tenantSignedAt: this.now(),
+      tenantComments: input.comments?.trim() || null,
+    });
+    if (!signed) {
+      throw new ConditionReportError('The report is not waiting for your signature', 409);
+    }
+    await this.notify(signed, 'signed');
+    return signed;
+  }
+
+  /**
+   * The tenant sends the report back to the owner; the owner's signature is
+   * cleared because the content will change
+   */
+  async requestChanges(tenantId: string, bookingId: string, kind: ReportKind, comments: string): Promise<ConditionReport> {
+    const { role, report } = await this.reportFor(tenantId, bookingId, kind);
+    if (role !== 'tenant') {
+      throw new ConditionReportError('Only the tenant can ask for changes', 403);
+    }
+
+    const returned = await this.repository.transition(report.id, ['awaiting_tenant'], 'draft', {
+      tenantComments: comments,
+      contentHash: null,
+      ownerSignature: null,
+      ownerSignedAt: null,
+    });
+    if (!returned) {
+      throw new ConditionReportError('The report is not waiting for your signature', 409);
+    }
+    await this.notify(returned, 'changes_requested');
+    return returned;
+  }
+
+  /**
+   * Printable copy of a report; the move-out PDF includes the comparison
+   * with the move-in report
+   */
+  async pdf(userId: string, bookingId: string, kind: ReportKind, options: { isAdmin?: boolean } = {}): Promise<Buffer> {
+    const { lease } = await this.leaseFor(userId, bookingId, options);
+    const report = await this.repository.find(bookingId, kind);
+    if (!report) {
+      throw new ConditionReportError(`No ${KIND_LABELS[kind]} report has been started`, 404);
+    }
+    const moveIn = kind === 'move_out' ? await this.repository.find(bookingId, 'move_in') : null;
+    return renderConditionReportPdf(report, lease, moveIn ? compareReports(moveIn, report) : null);
+  }
+}
+
+const CONDITION_LABELS: Record<ItemCondition, string> = {
+  new: 'New',
+  good: 'Good',
+  fair: 'Fair',
+  poor: 'Poor',
+  damaged: 'Damaged',
+  missing: 'Missing',
+};
+
+const METER_LABELS: Record<MeterType, string> = {
+  electricity: 'Electricity',
+  gas: 'Gas',
+  water_cold: 'Cold water',
+  water_hot: 'Hot water',
+  heating: 'Heating',
+};
+
+const formatTimestamp = (date: Date | null) => (date ? date.toISOString().replace('T', ' ').slice(0, 16) + ' UTC' : '-');
+
+/**
+ * Text-only PDF of a report. Photos are listed by count; they stay in
+ * private storage and are viewed in the app.
+ */
+export function renderConditionReportPdf(
+  report: ConditionReport,
+  lease: ReportLease,
+  comparison: ReportComparison | null
+): Buffer {
+  const title = `${report.kind === 'move_in' ? 'Move-in' : 'Move-out'} condition report`;
+  const doc = new PdfDocument({ title, createdAt: report.updatedAt });
+
+  doc.heading(title, 18);
+  doc.text(lease.apartmentTitle, { size: 12, bold: true });
+  if (lease.apartmentAddress) doc.text(lease.apartmentAddress);
+  doc.text(`Lease ${lease.moveInDate} to ${lease.moveOutDate} - booking ${lease.id}`, { gray: 0.4 });
+  doc.text(`Status: ${report.status.replace('_', ' ')}`, { gray: 0.4 });
+  doc.rule();
+
+  for (const room of report.rooms) {
+    doc.heading(room.name, 12);
+    doc.row(['Item', 'Condition', 'Notes', 'Photos'], [0.3, 0.15, 0.45, 0.1], { bold: true });
+    for (const item of room.items) {
+      doc.row(
+        [item.name, CONDITION_LABELS[item.condition], item.notes || '-', String(item.photoKeys.length)],
+        [0.3, 0.15, 0.45, 0.1]
+      );
+    }
+  }
+
+  if (report.meterReadings.length > 0) {
+    doc.heading('Meter readings', 12);
+    doc.row(['Meter', 'Serial', 'Reading', 'Photos'], [0.3, 0.3, 0.3, 0.1], { bold: true });
+    for (const reading of report.meterReadings) {
+      doc.row(
+        [
+          METER_LABELS[reading.meter],
+          reading.serial || '-',
+          reading.reading === null ? '-' : `${reading.reading} ${METER_UNITS[reading.meter]}`,
+          String(reading.photoKeys.length),
+        ],
+        [0.3, 0.3, 0.3, 0.1]
+      );
+    }
+  }
+
+  if (report.generalNotes) {
+    doc.heading('Notes', 12);
+    doc.text(report.generalNotes);
+  }
+
+  if (comparison) {
+    doc.heading('Changes since move-in', 12);
+    const changed = comparison.items.filter((item) => item.change !== 'unchanged');
+    if (changed.length === 0) {
+      doc.text('No item changed condition.');
+    }
+    for (const item of changed) {
+      doc.row(
+        [
+          `${item.room}: ${item.item}`,
+          item.moveIn ? CONDITION_LABELS[item.moveIn] : '-',
+          item.moveOut ? CONDITION_LABELS[item.moveOut] : 'Not found',
+          item.change,
+        ],
+        [0.45, 0.2, 0.2, 0.15]
+      );
+    }
+    for (const meter of comparison.meters) {
+      doc.text(
+        `${METER_LABELS[meter.meter]}: ${meter.consumption === null ? 'incomplete readings' : `${meter.consumption} ${meter.unit} used`}`
+      );
+    }
+  }
+
+  doc.rule();
+  doc.heading('Signatures', 12);
+  doc.text(`Owner: ${report.ownerSignature ?? 'not signed'} - ${formatTimestamp(report.ownerSignedAt)}`);
+  doc.text(`Tenant: ${report.tenantSignature ?? 'not signed'} - ${formatTimestamp(report.tenantSignedAt)}`);
+  if (report.tenantComments) {
+    doc.text(`Tenant comments: ${report.tenantComments}`);
+  }
+  if (report.contentHash) {
+    doc.text(`Content hash (SHA-256): ${report.contentHash}`, { size: 8, gray: 0.4 });
+  }
+
+  return doc.toBuffer();
+}
+
+export const conditionReportService = new ConditionReportService();
@@ -0,0 +1,766 @@
+// Deposit escrow - security deposits held on the platform until move-out
+// The deposit part of a lease's first payment is not transferred to the
+// owner; it stays on the platform balance and is tracked in an append-only
+// ledger. When the lease ends the owner has CLAIM_WINDOW_DAYS to claim
+// itemised deductions with photo evidence, otherwise the full deposit goes
+// back. The tenant accepts or disputes a claim within DISPUTE_WINDOW_DAYS
+// (silence accepts it); an admin resolves disputes. The settlement is paid
+// out as a partial Stripe refund to the tenant plus a transfer of the
+// deductions to the owner's Connect account.
+//
+// held -> proposed (owner claims) -> settled (accepted, window closed) -> released
+// proposed -> disputed -> settled (admin); held -> settled (no claim) -> released
+// held -> refunded (first payment refunded before move-in)
+
+import { randomUUID } from 'crypto';
+import type Stripe from 'stripe';
+import { getPool, runQuery } from '@/lib/db/pool';
+import { getStripe, toStripeAmount } from '@/lib/stripe/server';
+import { getDocumentStorage, type StorageAdapter } from '@/lib/storage';
+import { JOB_QUEUES, jobQueue, type DepositJobPayload } from '@/services/job-queue-svc';
+import { notificationService } from '@/services/notify-svc';
+import { CONTENT_TYPE_EXTENSIONS, MAX_DOCUMENT_BYTES, sniffContentType } from '@/services/verification-svc/documents';
+import type { Lease, LeasePayment } from './lease';
+
+export type EscrowStatus = 'held' | 'proposed' | 'disputed' | 'settled' | 'released' | 'refunded';
+export type EscrowEntryType = 'captured' | 'refunded_to_tenant' | 'released_to_owner';
+export type EscrowEvent = 'claim_proposed' | 'claim_disputed' | 'released';
+export type DepositJobType = 'deposit.claim_deadline' | 'deposit.close_window' | 'deposit.release';
+
+export const CLAIM_WINDOW_DAYS = 14;
+export const DISPUTE_WINDOW_DAYS = 7;
+export const EVIDENCE_URL_TTL_SECONDS = 10 * 60;
+export const MAX_DEDUCTION_ITEMS = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DepositEscrow {
+  id: string;
+  bookingId: string;
+  tenantId: string;
+  ownerId: string;
+  amountHuf: number;
+  paymentIntentId: string;
+  stripeAccountId: string;
+  status: EscrowStatus;
+  claimDeadline: Date | null;
+  disputeWindowEndsAt: Date | null;
+  revision: number;
+  deductionHuf: number;
+  disputeReason: string | null;
+  disputeEvidenceKeys: string[];
+  resolvedBy: string | null;
+  resolutionNotes: string | null;
+  settledAt: Date | null;
+  releasedAt: Date | null;
+  createdAt: Date;
+}
+
+export type NewEscrow = Pick<
+  DepositEscrow,
+  'bookingId' | 'tenantId' | 'ownerId' | 'amountHuf' | 'paymentIntentId' | 'stripeAccountId'
+>;
+
+export type EscrowUpdate = Partial<
+  Pick<
+    DepositEscrow,
+    | 'claimDeadline'
+    | 'disputeWindowEndsAt'
+    | 'revision'
+    | 'deductionHuf'
+    | 'disputeReason'
+    | 'disputeEvidenceKeys'
+    | 'resolvedBy'
+    | 'resolutionNotes'
+    | 'settledAt'
+    | 'releasedAt'
+  >
+>;
+
+export interface DepositDeduction {
+  id: string;
+  escrowId: string;
+  description: string;
+  amountHuf: number;
+  evidenceKeys: string[];
+}
+
+export type NewDeduction = Pick<DepositDeduction, 'description' | 'amountHuf' | 'evidenceKeys'>;
+
+export interface EscrowEntry {
+  id: string;
+  escrowId: string;
+  entryType: EscrowEntryType;
+  amountHuf: number;
+  stripeReference: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Escrow failure with the HTTP status the API should answer with
+ */
+export class EscrowError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 403 | 404 | 409 | 503
+  ) {
+    super(message);
+    this.name = 'EscrowError';
+  }
+}
+
+/**
+ * What the platform still holds: captured minus everything paid out
+ */
+export function escrowBalance(entries: Pick<EscrowEntry, 'entryType' | 'amountHuf'>[]): number {
+  return entries.reduce(
+    (balance, entry) => balance + (entry.entryType === 'captured' ? entry.amountHuf : -entry.amountHuf),
+    0
+  );
+}
+
+/**
+ * Split of a settled deposit between the tenant and the owner
+ */
+export function settlementSplit(escrow: Pick<DepositEscrow, 'amountHuf' | 'deductionHuf'>): {
+  tenantRefundHuf: number;
+  ownerPayoutHuf: number;
+} {
+  const ownerPayoutHuf = Math.min(Math.max(escrow.deductionHuf, 0), escrow.amountHuf);
+  return { tenantRefundHuf: escrow.amountHuf - ownerPayoutHuf, ownerPayoutHuf };
+}
+
+export function evidencePrefix(bookingId: string): string {
+  return `deposit-evidence/${bookingId}/`;
+}
+
+/**
+ * Check an itemised claim against the deposit; returns the total deducted
+ */
+export function validateDeductions(items: NewDeduction[], depositHuf: number, bookingId: string): number {
+  if (items.length > MAX_DEDUCTION_ITEMS) {
+    throw new EscrowError(`A claim can have at most ${MAX_DEDUCTION_ITEMS} items`, 400);
+  }
+  for (const item of items) {
+    if (!item.description.trim()) {
+      throw new EscrowError('Every deduction needs a description', 400);
+    }
+    if (!Number.isInteger(item.amountHuf) || item.amountHuf <= 0) {
+      throw new EscrowError('Deduction amounts must be whole forints above zero', 400);
+    }
+    if (item.evidenceKeys.some((key) => !key.startsWith(evidencePrefix(bookingId)))) {
+      throw new EscrowError('Evidence must be uploaded for this lease', 400);
+    }
+  }
+  const total = items.reduce((sum, item) => sum + item.amountHuf, 0);
+  if (total > depositHuf) {
+    throw new EscrowError(`Deductions (${total} HUF) exceed the deposit (${depositHuf} HUF)`, 400);
+  }
+  return total;
+}
+
+export interface EscrowRepository {
+  /** Null when the booking already has an escrow */
+  create(escrow: NewEscrow): Promise<DepositEscrow | null>;
+  findById(id: string): Promise<DepositEscrow | null>;
+  findByBooking(bookingId: string): Promise<DepositEscrow | null>;
+  /** Moves the escrow only while it is in one of `from`; null otherwise */
+  transition(id: string, from: EscrowStatus[], to: EscrowStatus, update: EscrowUpdate): Promise<DepositEscrow | null>;
+  replaceDeductions(escrowId: string, items: NewDeduction[]): Promise<DepositDeduction[]>;
+  listDeductions(escrowId: string): Promise<DepositDeduction[]>;
+  /** Records a movement once per type; false when it already exists */
+  addEntry(escrowId: string, entryType: EscrowEntryType, amountHuf: number, stripeReference: string | null): Promise<boolean>;
+  listEntries(escrowId: string): Promise<EscrowEntry[]>;
+  listByStatus(status: EscrowStatus): Promise<DepositEscrow[]>;
+}
+
+export interface EscrowPaymentGateway {
+  /** Partial refund of the first payment from the platform balance */
+  refundTenant(escrow: DepositEscrow, amountHuf: number): Promise<string>;
+  /** Transfer of the deductions to the owner's Connect account */
+  payOwner(escrow: DepositEscrow, amountHuf: number): Promise<string>;
+}
+
+export type DepositJobScheduler = (
+  type: DepositJobType,
+  payload: DepositJobPayload,
+  runAt: Date,
+  idempotencyKey: string
+) => Promise<void>;
+
+export type EscrowNotifier = (escrow: DepositEscrow, event: EscrowEvent) => Promise<void>;
+
+const toDate = (value: any): Date | null => (value ? new Date(value) : null);
+
+function mapEscrow(row: any): DepositEscrow {
+  return {
+    id: row.id,
+    bookingId: row.booking_id,
+    tenantId: row.tenant_id,
+    ownerId: row.owner_id,
+    amountHuf: Number(row.amount_huf),
+    paymentIntentId: row.payment_intent_id,
+    stripeAccountId: row.stripe_account_id,
+    status: row.status,
+    claimDeadline: toDate(row.claim_deadline),
+    disputeWindowEndsAt: toDate(row.dispute_window_ends_at),
+    revision: Number(row.revision),
+    deductionHuf: Number(row.deduction_huf),
+    disputeReason: row.dispute_reason ?? null,
+    disputeEvidenceKeys: row.dispute_evidence_keys ?? [],
+    resolvedBy: row.resolved_by ?? null,
+    resolutionNotes: row.resolution_notes ?? null,
+    settledAt: toDate(row.settled_at),
+    releasedAt: toDate(row.released_at),
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function mapDeduction(row: any): DepositDeduction {
+  return {
+    id: row.id,
+    escrowId: row.escrow_id,
+    description: row.description,
+    amountHuf: Number(row.amount_huf),
+    evidenceKeys: row.evidence_keys ?? [],
+  };
+}
+
+function mapEntry(row: any): EscrowEntry {
+  return {
+    id: row.id,
+    escrowId: row.escrow_id,
+    entryType: row.entry_type,
+    amountHuf: Number(row.amount_huf),
+    stripeReference: row.stripe_reference ?? null,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+const ESCROW_COLUMNS: Record<keyof EscrowUpdate, string> = {
+  claimDeadline: 'claim_deadline',
+  disputeWindowEndsAt: 'dispute_window_ends_at',
+  revision: 'revision',
+  deductionHuf: 'deduction_huf',
+  disputeReason: 'dispute_reason',
+  disputeEvidenceKeys: 'dispute_evidence_keys',
+  resolvedBy: 'resolved_by',
+  resolutionNotes: 'resolution_notes',
+  settledAt: 'settled_at',
+  releasedAt: 'released_at',
+};
+
+export class PostgresEscrowRepository implements EscrowRepository {
+  async create(escrow: NewEscrow): Promise<DepositEscrow | null> {
+    const { rows } = await runQuery(
+      `INSERT INTO public.deposit_escrows
+         (booking_id, tenant_id, owner_id, amount_huf, payment_intent_id, stripe_account_id)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (booking_id) DO NOTHING
+       RETURNING *`,
+      [escrow.bookingId, escrow.tenantId, escrow.ownerId, escrow.amountHuf, escrow.paymentIntentId, escrow.stripeAccountId]
+    );
+    return rows[0] ? mapEscrow(rows[0]) : null;
+  }
+
+  async findById(id: string): Promise<DepositEscrow | null> {
+    const { rows } = await runQuery('SELECT * FROM public.deposit_escrows WHERE id = $1', [id]);
+    return rows[0] ? mapEscrow(rows[0]) : null;
+  }
+
+  async findByBooking(bookingId: string): Promise<DepositEscrow | null> {
+    const { rows } = await runQuery('SELECT * FROM public.deposit_escrows WHERE booking_id = $1', [bookingId]);
+    return rows[0] ? mapEscrow(rows[0]) : null;
+  }
+
+  async transition(
+    id: string,
+    from: EscrowStatus[],
+    to: EscrowStatus,
+    update: EscrowUpdate
+  ): Promise<DepositEscrow | null> {
+    const entries = Object.entries(update).filter(([, value]) => value !== undefined) as Array<
+      [keyof EscrowUpdate, unknown]
+    >;
+    const { rows } = await runQuery(
+      `UPDATE public.deposit_escrows
+       SET status = $3, updated_at = now()${entries.map(([key], index) => `, ${ESCROW_COLUMNS[key]} = $${index + 4}`).join('')}
+       WHERE id = $1 AND status = ANY($2)
+       RETURNING *`,
+      [id, from, to, ...entries.map(([, value]) => value)]
+    );
+    return rows[0] ? mapEscrow(rows[0]) : null;
+  }
+
+  async replaceDeductions(escrowId: string, items: NewDeduction[]): Promise<DepositDeduction[]> {
+    const pool = await getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM public.deposit_deductions WHERE escrow_id = $1', [escrowId]);
+      for (const item of items) {
+        await client.query(
+          `INSERT INTO public.deposit_deductions (escrow_id, description, amount_huf, evidence_keys)
+           VALUES ($1, $2, $3, $4)`,
+          [escrowId, item.description.trim(), item.amountHuf, item.evidenceKeys]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+    return this.listDeductions(escrowId);
+  }
+
+  async listDeductions(escrowId: string): Promise<DepositDeduction[]> {
+    const { rows } = await runQuery(
+      'SELECT * FROM public.deposit_deductions WHERE escrow_id = $1 ORDER BY created_at, id',
+      [escrowId]
+    );
+    return rows.map(mapDeduction);
+  }
+
+  async addEntry(
+    escrowId: string,
+    entryType: EscrowEntryType,
+    amountHuf: number,
+    stripeReference: string | null
+  ): Promise<boolean> {
+    const { rows } = await runQuery(
+      `INSERT INTO public.deposit_escrow_entries (escrow_id, entry_type, amount_huf, stripe_reference)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (escrow_id, entry_type) DO NOTHING
+       RETURNING id`,
+      [escrowId, entryType, amountHuf, stripeReference]
+    );
+    return rows.length > 0;
+  }
+
+  async listEntries(escrowId: string): Promise<EscrowEntry[]> {
+    const { rows } = await runQuery(
+      'SELECT * FROM public.deposit_escrow_entries WHERE escrow_id = $1 ORDER BY created_at',
+      [escrowId]
+    );
+    return rows.map(mapEntry);
+  }
+
+  async listByStatus(status: EscrowStatus): Promise<DepositEscrow[]> {
+    const { rows } = await runQuery(
+      'SELECT * FROM public.deposit_escrows WHERE status = $1 ORDER BY updated_at LIMIT 100',
+      [status]
+    );
+    return rows.map(mapEscrow);
+  }
+}
+
+function requireStripe(): Stripe {
+  const stripe = getStripe();
+  if (!stripe) {
+    throw new EscrowError('Payments are not configured', 503);
+  }
+  return stripe;
+}
+
+/**
+ * The deposit sits on the platform balance, so the refund must not reverse
+ * the rent transfer and the owner's share is a separate transfer funded by
+ * the original charge
+ */
+export class StripeEscrowGateway implements EscrowPaymentGateway {
+  async refundTenant(escrow: DepositEscrow, amountHuf: number): Promise<string> {
+    const refund = await requireStripe().refunds.create(
+      {
+        payment_intent: escrow.paymentIntentId,
+        amount: toStripeAmount(amountHuf),
+        reason: 'requested_by_customer',
+        metadata: { booking_id: escrow.bookingId, escrow_id: escrow.id, kind: 'deposit_refund' },
+      },
+      { idempotencyKey: `deposit-refund:${escrow.id}` }
+    );
+    return refund.id;
+  }
+
+  async payOwner(escrow: DepositEscrow, amountHuf: number): Promise<string> {
+    const stripe = requireStripe();
+    const intent = await stripe.paymentIntents.retrieve(escrow.paymentIntentId);
+    const chargeId = typeof intent.latest_charge === 'string' ? intent.latest_charge : intent.latest_charge?.id;
+
+    const transfer = await stripe.transfers.create(
+      {
+        amount: toStripeAmount(amountHuf),
+        currency: 'huf',
+        destination: escrow.stripeAccountId,
+        source_transaction: chargeId ?? undefined,
+        transfer_group: `booking:${escrow.bookingId}`,
+        description: 'Deposit deductions',
+        metadata: { booking_id: escrow.bookingId, escrow_id: escrow.id, kind: 'deposit_deductions' },
+      },
+      { idempotencyKey: `deposit-transfer:${escrow.id}` }
+    );
+    return transfer.id;
+  }
+}
+
+export const scheduleDepositJob: DepositJobScheduler = async (type, payload, runAt, idempotencyKey) => {
+  await jobQueue.enqueue(JOB_QUEUES.leases, type, payload, { runAt, idempotencyKey });
+};
+
+const EVENT_MESSAGES: Record<EscrowEvent, { recipients: Array<'tenant' | 'owner'>; title: string; message: string }> = {
+  claim_proposed: {
+    recipients: ['tenant'],
+    title: 'Your landlord claimed deductions from your deposit',
+    message: `Review the itemised claim and its photos. You have ${DISPUTE_WINDOW_DAYS} days to dispute it; after that it counts as accepted.`,
+  },
+  claim_disputed: {
+    recipients: ['owner'],
+    title: 'Your deposit claim was disputed',
+    message: 'The tenant disputed your deductions. Our team will review the evidence from both sides and decide.',
+  },
+  released: {
+    recipients: ['tenant', 'owner'],
+    title: 'The deposit has been settled',
+    message: 'The deposit was paid out. Refunds reach the card within 5-10 business days.',
+  },
+};
+
+export const notifyEscrowEvent: EscrowNotifier = async (escrow, event) => {
+  const { recipients, title, message } = EVENT_MESSAGES[event];
+  const userIds = recipients.map((recipient) => (recipient === 'tenant' ? escrow.tenantId : escrow.ownerId));
+  const { rows } = await runQuery('SELECT id, email FROM public.profiles WHERE id = ANY($1)', [userIds]);
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || '';
+
+  await notificationService.sendBulkNotifications(
+    rows
+      .filter((row: any) => row.email)
+      .map((row: any) => ({
+        templateId: 'deposit_update',
+        recipient: {
+          userId: row.id,
+          email: row.email,
+          preferences: { email: true, push: false, sms: false, inApp: true },
+        },
+        variables: {
+          title,
+          message,
+          bookingsUrl: `${appUrl}${row.id === escrow.ownerId ? '/owner/bookings' : '/dashboard/bookings'}`,
+        },
+        priority: 'high' as const,
+      })),
+    { idempotencyPrefix: `deposit:${escrow.id}:${event}:${escrow.revision}` }
+  );
+};
+
+export interface EscrowView {
+  escrow: DepositEscrow;
+  deductions: Array<DepositDeduction & { evidenceUrls: string[] }>;
+  disputeEvidenceUrls: string[];
+  entries: EscrowEntry[];
+  balanceHuf: number;
+}
+
+export class DepositEscrowService {
+  constructor(
+    private repository: EscrowRepository = new PostgresEscrowRepository(),
+    private gateway: EscrowPaymentGateway = new StripeEscrowGateway(),
+    private schedule: DepositJobScheduler = scheduleDepositJob,
+    private notify: EscrowNotifier = notifyEscrowEvent,
+    private storage: () => StorageAdapter = getDocumentStorage,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * First payment of a lease succeeded: the deposit part is now held
+   */
+  async depositPaid(lease: Lease, payment: LeasePayment): Promise<DepositEscrow | null> {
+    if (payment.depositHuf <= 0 || !payment.paymentIntentId || !lease.stripeAccountId) {
+      return null;
+    }
+    const escrow = await this.repository.create({
+      bookingId: lease.id,
+      tenantId: lease.tenantId,
+      ownerId: lease.ownerId,
+      amountHuf: payment.depositHuf,
+      paymentIntentId: payment.paymentIntentId,
+      stripeAccountId: lease.stripeAccountId,
+    });
+    if (escrow) {
+      await this.repository.addEntry(escrow.id, 'captured', escrow.amountHuf, payment.paymentIntentId);
+    }
+    return escrow;
+  }
+
+  /**
+   * Lease ended (at term or early): open the owner's claim window
+   */
+  async leaseEnded(lease: Lease): Promise<void> {
+    const escrow = await this.repository.findByBooking(lease.id);
+    if (!escrow || escrow.status !== 'held' || escrow.claimDeadline) return;
+
+    const claimDeadline = new Date(this.now().getTime() + CLAIM_WINDOW_DAYS * DAY_MS);
+    const opened = await this.repository.transition(escrow.id, ['held'], 'held', { claimDeadline });
+    if (opened) {
+      await this.schedule('deposit.claim_deadline', { escrowId: escrow.id }, claimDeadline, `deposit-claim:${escrow.id}`);
+    }
+  }
+
+  /**
+   * The whole first payment was refunded before move-in, deposit included
+   */
+  async depositRefunded(bookingId: string): Promise<void> {
+    const escrow = await this.repository.findByBooking(bookingId);
+    if (!escrow) return;
+    const refunded = await this.repository.transition(escrow.id, ['held'], 'refunded', { releasedAt: this.now() });
+    if (refunded) {
+      await this.repository.addEntry(escrow.id, 'refunded_to_tenant', escrow.amountHuf, null);
+    }
+  }
+
+  async getForParty(userId: string, bookingId: string, options: { isAdmin?: boolean } = {}): Promise<EscrowView> {
+    const escrow = await this.repository.findByBooking(bookingId);
+    if (!escrow || (!options.isAdmin && escrow.tenantId !== userId && escrow.ownerId !== userId)) {
+      throw new EscrowError('No deposit is held for this lease', 404);
+    }
+    return this.view(escrow);
+  }
+
+  async getForAdmin(escrowId: string): Promise<EscrowView> {
+    const escrow = await this.repository.findById(escrowId);
+    if (!escrow) {
+      throw new EscrowError('Escrow not found', 404);
+    }
+    return this.view(escrow);
+  }
+
+  async disputeQueue(): Promise<DepositEscrow[]> {
+    return this.repository.listByStatus('disputed');
+  }
+
+  private async view(escrow: DepositEscrow): Promise<EscrowView> {
+    const storage = this.storage();
+    const sign = (keys: string[]) => Promise.all(keys.map((key) => storage.signedUrl(key, EVIDENCE_URL_TTL_SECONDS)));
+    const deductions = await this.repository.listDeductions(escrow.id);
+    const entries = await this.repository.listEntries(escrow.id);
+
+    return {
+      escrow,
+      deductions: await Promise.all(
+        deductions.map(async (deduction) => ({ ...deduction, evidenceUrls: await sign(deduction.evidenceKeys) }))
+      ),
+      disputeEvidenceUrls: await sign(escrow.disputeEvidenceKeys),
+      entries,
+      balanceHuf: escrowBalance(entries),
+    };
+  }
+
+  /**
+   * Store a move-out photo for a claim or a dispute; returns its key
+   */
+  async uploadEvidence(userId: string, bookingId: string, body: Uint8Array): Promise<string> {
+    const escrow = await this.repository.findByBooking(bookingId);
+    if (!escrow || (escrow.tenantId !== userId && escrow.ownerId !== userId)) {
+      throw new EscrowError('No deposit is held for this lease', 404);
+    }
+    if (!['held', 'proposed'].includes(escrow.status)) {
+      throw new EscrowError('The deposit is no longer open for evidence', 409);
+    }
+    if (body.byteLength === 0 || body.byteLength > MAX_DOCUMENT_BYTES) {
+      throw new EscrowError('File must be between 1 byte and 10MB', 400);
+    }
+    const contentType = sniffContentType(body);
+    if (!contentType || contentType === 'application/pdf') {
+      throw new EscrowError('Evidence must be a JPEG, PNG or WebP photo', 400);
+    }
+
+    const key = `${evidencePrefix(bookingId)}${randomUUID()}.${CONTENT_TYPE_EXTENSIONS[contentType]}`;
+    return (await this.storage().put(key, body, { contentType })).key;
+  }
+
+  /**
+   * The owner's itemised claim after the lease ended. Claiming nothing
+   * releases the full deposit straight away; a revised claim restarts the
+   * tenant's dispute window.
+   */
+  async proposeDeductions(ownerId: string, bookingId: string, items: NewDeduction[]): Promise<DepositEscrow> {
+    const escrow = await this.repository.findByBooking(bookingId);
+    if (!escrow || escrow.ownerId !== ownerId) {
+      throw new EscrowError('No deposit is held for this lease', 404);
+    }
+    if (escrow.status === 'held' && !escrow.claimDeadline) {
+      throw new EscrowError('Deductions can be claimed once the lease has ended', 409);
+    }
+    if (escrow.status !== 'held' && escrow.status !== 'proposed') {
+      throw new EscrowError(`The deposit is already ${escrow.status}`, 409);
+    }
+    if (escrow.status === 'held' && escrow.claimDeadline! < this.now()) {
+      throw new EscrowError('The claim window has closed', 409);
+    }
+
+    const total = validateDeductions(items, escrow.amountHuf, bookingId);
+    await this.repository.replaceDeductions(escrow.id, items);
+    if (total === 0) {
+      return this.settle(escrow, ['held', 'proposed'], { deductionHuf: 0 });
+    }
+
+    const revision = escrow.revision + 1;
+    const disputeWindowEndsAt = new Date(this.now().getTime() + DISPUTE_WINDOW_DAYS * DAY_MS);
+    const proposed = await this.repository.transition(escrow.id, ['held', 'proposed'], 'proposed', {
+      deductionHuf: total,
+      disputeWindowEndsAt,
+      revision,
+    });
+    if (!proposed) {
+      throw new EscrowError('The deposit was changed by someone else; reload and try again', 409);
+    }
+    await this.schedule(
+      'deposit.close_window',
+      { escrowId: escrow.id },
+      disputeWindowEndsAt,
+      `deposit-window:${escrow.id}:${revision}`
+    );
+    await this.notify(proposed, 'claim_proposed');
+    return proposed;
+  }
+
+  async acceptClaim(tenantId: string, bookingId: string): Promise<DepositEscrow> {
+    const escrow = await this.proposedForTenant(tenantId, bookingId);
+    return this.settle(escrow, ['proposed'], {});
+  }
+
+  async disputeClaim(
+    tenantId: string,
+    bookingId: string,
+    input: { reason: string; evidenceKeys?: string[] }
+  ): Promise<DepositEscrow> {
+    const escrow = await this.proposedForTenant(tenantId, bookingId);
+    const reason = input.reason.trim();
+    if (!reason) {
+      throw new EscrowError('Explain what you disagree with', 400);
+    }
+    const evidenceKeys = input.evidenceKeys ?? [];
+    if (evidenceKeys.some((key) => !key.startsWith(evidencePrefix(bookingId)))) {
+      throw new EscrowError('Evidence must be uploaded for this lease', 400);
+    }
+
+    const disputed = await this.repository.transition(escrow.id, ['proposed'], 'disputed', {
+      disputeReason: reason,
+      disputeEvidenceKeys: evidenceKeys,
+    });
+    if (!disputed) {
+      throw new EscrowError('The deposit was changed by someone else; reload and try again', 409);
+    }
+    await this.notify(disputed, 'claim_disputed');
+    return disputed;
+  }
+
+  private async proposedForTenant(tenantId: string, bookingId: string): Promise<DepositEscrow> {
+    const escrow = await this.repository.findByBooking(bookingId);
+    if (!escrow || escrow.tenantId !== tenantId) {
+      throw new EscrowError('No deposit is held for this lease', 404);
+    }
+    if (escrow.status !== 'proposed') {
+      throw new EscrowError('There is no open claim on this deposit', 409);
+    }
+    if (escrow.disputeWindowEndsAt && escrow.disputeWindowEndsAt < this.now()) {
+      throw new EscrowError('The dispute window has closed', 409);
+    }
+    return escrow;
+  }
+
+  /**
+   * Admin decision on a disputed claim; the owner can get at most what they claimed
+   */
+  async resolveDispute(
+    adminId: string,
+    escrowId: string,
+    input: { deductionHuf: number; notes: string }
+  ): Promise<DepositEscrow> {
+    const escrow = await this.repository.findById(escrowId);
+    if (!escrow) {
+      throw new EscrowError('Escrow not found', 404);
+    }
+    if (escrow.status !== 'disputed') {
+      throw new EscrowError('Only disputed deposits can be resolved', 409);
+    }
+    if (!Number.isInteger(input.deductionHuf) || input.deductionHuf < 0 || input.deductionHuf > escrow.deductionHuf) {
+      throw new EscrowError(`The deduction must be between 0 and the ${escrow.deductionHuf} HUF claimed`, 400);
+    }
+    if (!input.notes.trim()) {
+      throw new EscrowError('Explain the decision for both parties', 400);
+    }
+    return this.settle(escrow, ['disputed'], {
+      deductionHuf: input.deductionHuf,
+      resolvedBy: adminId,
+      resolutionNotes: input.notes.trim(),
+    });
+  }
+
+  /**
+   * Job: the owner let the claim window pass, so the full deposit goes back
+   */
+  async closeClaimWindow(escrowId: string): Promise<DepositEscrow | null> {
+    const escrow = await this.repository.findById(escrowId);
+    if (!escrow || escrow.status !== 'held' || !escrow.claimDeadline || escrow.claimDeadline > this.now()) {
+      return null;
+    }
+    return this.settle(escrow, ['held'], { deductionHuf: 0 });
+  }
+
+  /**
+   * Job: the tenant did not dispute in time, so the claim stands
+   */
+  async closeDisputeWindow(escrowId: string): Promise<DepositEscrow | null> {
+    const escrow = await this.repository.findById(escrowId);
+    if (
+      !escrow ||
+      escrow.status !== 'proposed' ||
+      !escrow.disputeWindowEndsAt ||
+      escrow.disputeWindowEndsAt > this.now()
+    ) {
+      return null;
+    }
+    return this.settle(escrow, ['proposed'], {});
+  }
+
+  private async settle(escrow: DepositEscrow, from: EscrowStatus[], update: EscrowUpdate): Promise<DepositEscrow> {
+    const settled = await this.repository.transition(escrow.id, from, 'settled', { ...update, settledAt: this.now() });
+    if (!settled) {
+      throw new EscrowError('The deposit was changed by someone else; reload and try again', 409);
+    }
+    await this.schedule('deposit.release', { escrowId: escrow.id }, this.now(), `deposit-release:${escrow.id}`);
+    return settled;
+  }
+
+  /**
+   * Job: pay out a settled deposit. Each leg is recorded in the ledger as it
+   * completes, so a retry after a failure only repeats what is missing.
+   */
+  async release(escrowId: string): Promise<DepositEscrow | null> {
+    const escrow = await this.repository.findById(escrowId);
+    if (!escrow || escrow.status !== 'settled') {
+      return null;
+    }
+
+    const done = new Set((await this.repository.listEntries(escrow.id)).map((entry) => entry.entryType));
+    const { tenantRefundHuf, ownerPayoutHuf } = settlementSplit(escrow);
+
+    if (tenantRefundHuf > 0 && !done.has('refunded_to_tenant')) {
+      const refundId = await this.gateway.refundTenant(escrow, tenantRefundHuf);
+      await this.repository.addEntry(escrow.id, 'refunded_to_tenant', tenantRefundHuf, refundId);
+    }
+    if (ownerPayoutHuf > 0 && !done.has('released_to_owner')) {
+      const transferId = await this.gateway.payOwner(escrow, ownerPayoutHuf);
+      await this.repository.addEntry(escrow.id, 'released_to_owner', ownerPayoutHuf, transferId);
+    }
+
+    const released = await this.repository.transition(escrow.id, ['settled'], 'released', { releasedAt: this.now() });
+    if (released) {
+      await this.notify(released, 'released');
+    }
+    return released;
+  }
+}
+
+export const depositEscrowService = new DepositEscrowService();
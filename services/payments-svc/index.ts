@@ -1,7 +1,12 @@
 // Payments Service for Student Apartments
-// Handles Stripe Connect integration for apartment bookings and payments
+// Handles Stripe Connect integration for apartment bookings and payments.
+// Bookings are leases; the lease model and rent schedule live in lease.ts.
 import Stripe from 'stripe';
 import { createClient } from '@supabase/supabase-js';
+import { leaseService, type Lease } from './lease';
+import { ledgerService } from './ledger';
+import { invoiceService } from './invoice';
+import { fromStripeAmount } from '@/lib/stripe/server';
 
 export interface PaymentIntent {
   id: string;
@@ -15,25 +20,12 @@ export interface PaymentIntent {
 export interface BookingRequest {
   apartmentId: string;
   tenantId: string;
-  checkInDate: Date;
-  checkOutDate: Date;
-  guestCount: number;
-  specialRequests?: string;
+  moveInDate: string; // YYYY-MM-DD
+  termMonths: number;
+  notes?: string;
 }
 
-export interface Booking {
-  id: string;
-  apartmentId: string;
-  tenantId: string;
-  ownerId: string;
-  checkInDate: Date;
-  checkOutDate: Date;
-  totalAmount: number;
-  currency: string;
-  status: 'pending' | 'confirmed' | 'cancelled' | 'completed';
-  paymentIntentId?: string;
-  stripeAccountId?: string;
-}
+export type Booking = Lease;
 
 export class PaymentsService {
   private stripe: Stripe | null = null;
@@ -96,115 +88,12 @@ export class PaymentsService {
   }
 
   /**
-   * Create a booking with payment processing
+   * Request a lease. Nothing is charged until the owner accepts and the
+   * tenant signs; see LeaseService for the rest of the lifecycle.
    */
   async createBooking(bookingRequest: BookingRequest): Promise<Booking> {
-    try {
-      const { apartmentId, tenantId, checkInDate, checkOutDate, guestCount } = bookingRequest;
-
-      // Get apartment details
-      const { data: apartment, error: aptError } = await this.getSupabase()
-        .from('apartments')
-        .select('*, profiles!owner_id(*)')
-        .eq('id', apartmentId)
-        .single();
-
-      if (aptError || !apartment) {
-        throw new Error('Apartment not found');
-      }
-
-      // Check availability
-      const isAvailable = await this.checkAvailability(apartmentId, checkInDate, checkOutDate);
-      if (!isAvailable) {
-        throw new Error('Apartment not available for selected dates');
-      }
-
-      // Calculate total amount
-      const nights = Math.ceil((checkOutDate.getTime() - checkInDate.getTime()) / (1000 * 60 * 60 * 24));
-      const totalAmount = apartment.monthly_rent_huf * (nights / 30); // Prorate monthly rent
-
-      // Get owner's Stripe account
-      const ownerStripeAccount = await this.getOrCreateStripeAccount(apartment.owner_id);
-
-      // Create payment intent
-      const paymentIntent = await this.createPaymentIntent(
-        totalAmount,
-        'huf',
-        {
-          apartmentId,
-          tenantId,
-          checkInDate: checkInDate.toISOString(),
-          checkOutDate: checkOutDate.toISOString(),
-          guestCount: guestCount.toString(),
-        }
-      );
-
-      // Create booking record
-      const { data: booking, error: bookingError } = await this.getSupabase()
-        .from('bookings')
-        .insert({
-          apartment_id: apartmentId,
-          tenant_id: tenantId,
-          owner_id: apartment.owner_id,
-          check_in_date: checkInDate.toISOString(),
-          check_out_date: checkOutDate.toISOString(),
-          guest_count: guestCount,
-          total_amount: totalAmount,
-          currency: 'huf',
-          status: 'pending',
-          payment_intent_id: paymentIntent.id,
-          stripe_account_id: ownerStripeAccount.id,
-          special_requests: bookingRequest.specialRequests,
-        })
-        .select()
-        .single();
-
-      if (bookingError) throw bookingError;
-
-      return {
-        id: booking.id,
-        apartmentId: booking.apartment_id,
-        tenantId: booking.tenant_id,
-        ownerId: booking.owner_id,
-        checkInDate: new Date(booking.check_in_date),
-        checkOutDate: new Date(booking.check_out_date),
-        totalAmount: booking.total_amount,
-        currency: booking.currency,
-        status: booking.status,
-        paymentIntentId: booking.payment_intent_id,
-        stripeAccountId: booking.stripe_account_id,
-      };
-
-    } catch (error) {
-      console.error('Booking creation error:', error);
-      throw new Error(`Failed to create booking: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-
-  /**
-   * Check apartment availability for dates
-   */
-  private async checkAvailability(
-    apartmentId: string,
-    checkInDate: Date,
-    checkOutDate: Date
-  ): Promise<boolean> {
-    try {
-      const { data: conflictingBookings, error } = await this.getSupabase()
-        .from('bookings')
-        .select('id')
-        .eq('apartment_id', apartmentId)
-        .in('status', ['confirmed', 'pending'])
-        .or(`and(check_in_date.lte.${checkOutDate.toISOString()},check_out_date.gte.${checkInDate.toISOString()})`);
-
-      if (error) throw error;
-
-      return !conflictingBookings || conflictingBookings.length === 0;
-
-    } catch (error) {
-      console.error('Availability check error:', error);
-      return false;
-    }
+    const { tenantId, ...request } = bookingRequest;
+    return leaseService.requestLease(tenantId, request);
   }
 
   /**
@@ -294,33 +183,20 @@ export class PaymentsService {
   }
 
   /**
-   * Confirm payment and update booking status
+   * Record a succeeded lease payment. Rent reaches the owner through the
+   * PaymentIntent's transfer_data, so there is no separate transfer.
    */
   async confirmPayment(paymentIntentId: string): Promise<void> {
     try {
-      // Get payment intent from Stripe
       const paymentIntent = await this.getStripe().paymentIntents.retrieve(paymentIntentId);
 
       if (paymentIntent.status === 'succeeded') {
-        // Update booking status
-        const { error } = await this.getSupabase()
-          .from('bookings')
-          .update({ status: 'confirmed' })
-          .eq('payment_intent_id', paymentIntentId);
-
-        if (error) throw error;
-
-        // Create transfer to host
-        await this.createTransfer(paymentIntent);
-
+        await leaseService.recordPaymentSucceeded(
+          paymentIntent.id,
+          typeof paymentIntent.payment_method === 'string' ? paymentIntent.payment_method : paymentIntent.payment_method?.id ?? null
+        );
       } else if (paymentIntent.status === 'canceled') {
-        // Update booking status to cancelled
-        const { error } = await this.getSupabase()
-          .from('bookings')
-          .update({ status: 'cancelled' })
-          .eq('payment_intent_id', paymentIntentId);
-
-        if (error) throw error;
+        await leaseService.recordPaymentFailed(paymentIntent.id, 'Payment canceled');
       }
 
     } catch (error) {
@@ -330,76 +206,31 @@ export class PaymentsService {
   }
 
   /**
-   * Create transfer to host account
+   * Refund the whole first payment of a signed lease before move-in and
+   * cancel it; the escrowed deposit is refunded with it
    */
-  private async createTransfer(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+  async processRefund(bookingId: string): Promise<void> {
     try {
-      // Get booking details
-      const { data: booking, error: bookingError } = await this.getSupabase()
-        .from('bookings')
-        .select('stripe_account_id, total_amount')
-        .eq('payment_intent_id', paymentIntent.id)
-        .single();
-
-      if (bookingError || !booking) {
+      const booking = await leaseService.getLeaseForSystem(bookingId);
+      if (!booking) {
         throw new Error('Booking not found');
       }
 
-      // Calculate platform fee (e.g., 3%)
-      const platformFee = Math.round(booking.total_amount * 0.03 * 100); // Convert to cents
-      const hostAmount = Math.round(booking.total_amount * 100) - platformFee;
-
-      // Create transfer
-      await this.getStripe().transfers.create({
-        amount: hostAmount,
-        currency: 'huf',
-        destination: booking.stripe_account_id,
-        // Note: In newer Stripe API versions, you might need to handle this differently
-        // This assumes the payment intent has an associated charge
-        transfer_group: paymentIntent.id,
-      });
-
-    } catch (error) {
-      console.error('Transfer creation error:', error);
-      // Don't throw here as the booking is already confirmed
-    }
-  }
-
-  /**
-   * Process refund
-   */
-  async processRefund(bookingId: string, amount?: number): Promise<void> {
-    try {
-      // Get booking details
-      const { data: booking, error: bookingError } = await this.getSupabase()
-        .from('bookings')
-        .select('payment_intent_id, total_amount, status')
-        .eq('id', bookingId)
-        .single();
-
-      if (bookingError || !booking) {
-        throw new Error('Booking not found');
+      if (booking.lease.status !== 'signed' || booking.lease.paymentStatus !== 'paid') {
+        throw new Error('Can only refund paid leases that have not started');
       }
 
-      if (booking.status !== 'confirmed') {
-        throw new Error('Can only refund confirmed bookings');
+      const firstPayment = booking.payments.find((payment) => payment.kind === 'first_payment');
+      if (!firstPayment?.paymentIntentId) {
+        throw new Error('No payment to refund');
       }
 
-      // Create refund
-      const refundAmount = amount ? Math.round(amount * 100) : undefined;
-
       await this.getStripe().refunds.create({
-        payment_intent: booking.payment_intent_id,
-        amount: refundAmount,
+        payment_intent: firstPayment.paymentIntentId,
+        reverse_transfer: true,
       });
 
-      // Update booking status
-      const { error: updateError } = await this.getSupabase()
-        .from('bookings')
-        .update({ status: 'cancelled' })
-        .eq('id', bookingId);
-
-      if (updateError) throw updateError;
+      await leaseService.cancelRefunded(bookingId, firstPayment.id);
 
     } catch (error) {
       console.error('Refund processing error:', error);
@@ -412,28 +243,7 @@ export class PaymentsService {
    */
   async getBooking(bookingId: string): Promise<Booking | null> {
     try {
-      const { data: booking, error } = await this.getSupabase()
-        .from('bookings')
-        .select('*')
-        .eq('id', bookingId)
-        .single();
-
-      if (error || !booking) return null;
-
-      return {
-        id: booking.id,
-        apartmentId: booking.apartment_id,
-        tenantId: booking.tenant_id,
-        ownerId: booking.owner_id,
-        checkInDate: new Date(booking.check_in_date),
-        checkOutDate: new Date(booking.check_out_date),
-        totalAmount: booking.total_amount,
-        currency: booking.currency,
-        status: booking.status,
-        paymentIntentId: booking.payment_intent_id,
-        stripeAccountId: booking.stripe_account_id,
-      };
-
+      return (await leaseService.getLeaseForSystem(bookingId))?.lease ?? null;
     } catch (error) {
       console.error('Get booking error:', error);
       return null;
@@ -441,14 +251,69 @@ export class PaymentsService {
   }
 
   /**
-   * Webhook handler for Stripe events
+   * Webhook handler for Stripe events, called by /api/webhooks/stripe for
+   * every verified event: moves the lease payments along and feeds the
+   * ledger and invoices. Notifications stay with the route.
    */
   async handleWebhook(event: Stripe.Event): Promise<void> {
     try {
       switch (event.type) {
         case 'payment_intent.succeeded':
           const paymentIntent = event.data.object as Stripe.PaymentIntent;
-          await this.confirmPayment(paymentIntent.id);
+          await leaseService.recordPaymentSucceeded(
+            paymentIntent.id,
+            typeof paymentIntent.payment_method === 'string' ? paymentIntent.payment_method : paymentIntent.payment_method?.id ?? null
+          );
+          await ledgerService.recordLeaseCharge(paymentIntent.id);
+          await invoiceService.issueForPayment(paymentIntent.id);
+          break;
+
+        case 'payment_intent.payment_failed':
+          const failedIntent = event.data.object as Stripe.PaymentIntent;
+          await leaseService.recordPaymentFailed(
+            failedIntent.id,
+            failedIntent.last_payment_error?.message ?? 'Payment failed',
+            failedIntent.last_payment_error?.code
+          );
+          break;
+
+        case 'payment_intent.canceled':
+          const canceledIntent = event.data.object as Stripe.PaymentIntent;
+          await leaseService.recordPaymentFailed(canceledIntent.id, 'Payment canceled');
+          break;
+
+        case 'charge.refunded':
+          const refundedCharge = event.data.object as Stripe.Charge;
+          await ledgerService.recordRefunds(
+            refundedCharge.id,
+            typeof refundedCharge.transfer === 'string' ? refundedCharge.transfer : refundedCharge.transfer?.id ?? null
+          );
+          break;
+
+        case 'transfer.created':
+          const transfer = event.data.object as Stripe.Transfer;
+          await ledgerService.recordTransfer({
+            transferId: transfer.id,
+            amountHuf: fromStripeAmount(transfer.amount),
+            bookingId: transfer.metadata?.booking_id ?? null,
+            kind: transfer.metadata?.kind ?? null,
+            created: new Date(transfer.created * 1000),
+          });
+          break;
+
+        case 'payout.paid':
+        case 'payout.failed':
+          // Connect events: the payout left the owner's account, not ours
+          const payout = event.data.object as Stripe.Payout;
+          if (event.account) {
+            await ledgerService.recordPayout({
+              payoutId: payout.id,
+              stripeAccountId: event.account,
+              amountHuf: fromStripeAmount(payout.amount),
+              created: new Date(payout.created * 1000),
+              failed: event.type === 'payout.failed',
+            });
+          }
           break;
 
         case 'account.updated':
@@ -0,0 +1,775 @@
+// Invoices - one bilingual (HU/EN) invoice per paid rent payment
+// The owner is the seller and the tenant, a private person, the buyer.
+// Invoices are numbered per owner and calendar year without gaps
+// (PREFIX-YEAR-000001), carry either 27% VAT or the exemption the owner
+// chose, and can be exported as NAV Online Számla 3.0 InvoiceData XML.
+// Submission goes through NavInvoiceGateway; the local stub below checks the
+// XML the way NAV would reject it and stands in until owners connect their
+// NAV technical user.
+
+import { createHash } from 'crypto';
+import { getPool, runQuery } from '@/lib/db/pool';
+import { PdfDocument } from '@/lib/pdf';
+import { getDocumentStorage, type StorageAdapter } from '@/lib/storage';
+import { logger } from '@/lib/logger';
+
+export type VatStatus = 'exempt_tam' | 'exempt_aam' | 'vat_27';
+export type NavStatus = 'not_submitted' | 'submitted' | 'accepted' | 'rejected';
+
+export const VAT_RATE = 0.27;
+
+/** NAV vatExemption case and reason, and how the invoice states it */
+export const VAT_EXEMPTIONS: Record<Exclude<VatStatus, 'vat_27'>, { case: 'TAM' | 'AAM'; reason: string; label: string }> = {
+  exempt_tam: {
+    case: 'TAM',
+    reason: 'Áfa tv. 86. § (1) l) lakóingatlan bérbeadása',
+    label: 'Tárgyi adómentes / VAT exempt supply (residential letting)',
+  },
+  exempt_aam: {
+    case: 'AAM',
+    reason: 'Alanyi adómentes',
+    label: 'Alanyi adómentes / VAT exempt small business',
+  },
+};
+
+export interface InvoiceSettings {
+  ownerId: string;
+  sellerName: string;
+  /** 12345676-1-42 */
+  taxNumber: string;
+  postalCode: string;
+  city: string;
+  streetAddress: string;
+  vatStatus: VatStatus;
+  numberPrefix: string;
+}
+
+export interface InvoiceParty {
+  name: string;
+  taxNumber: string | null;
+  postalCode: string | null;
+  city: string | null;
+  streetAddress: string | null;
+}
+
+export interface InvoiceLine {
+  descriptionHu: string;
+  descriptionEn: string;
+  quantity: number;
+  unitHu: string;
+  netHuf: number;
+  vatHuf: number;
+  grossHuf: number;
+}
+
+export interface Invoice {
+  id: string;
+  ownerId: string;
+  tenantId: string;
+  bookingId: string;
+  leasePaymentId: string;
+  invoiceNumber: string;
+  issueDate: string;
+  deliveryDate: string;
+  periodStart: string;
+  periodEnd: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  lines: InvoiceLine[];
+  vatStatus: VatStatus;
+  netHuf: number;
+  vatHuf: number;
+  grossHuf: number;
+  pdfKey: string | null;
+  navStatus: NavStatus;
+  navTransactionId: string | null;
+  navSubmittedAt: Date | null;
+  navMessages: string[];
+  createdAt: Date;
+}
+
+export type NewInvoice = Omit<
+  Invoice,
+  'id' | 'invoiceNumber' | 'pdfKey' | 'navStatus' | 'navTransactionId' | 'navSubmittedAt' | 'navMessages' | 'createdAt'
+>;
+
+export type InvoiceNavUpdate = Pick<Invoice, 'navStatus' | 'navTransactionId' | 'navSubmittedAt' | 'navMessages'>;
+
+/** A paid lease payment with what the invoice needs about the lease */
+export interface InvoicePayment {
+  id: string;
+  bookingId: string;
+  ownerId: string;
+  tenantId: string;
+  kind: 'first_payment' | 'rent';
+  status: string;
+  periodStart: string;
+  periodEnd: string;
+  rentHuf: number;
+  paidAt: Date | null;
+  apartmentTitle: string;
+  apartmentAddress: string | null;
+  tenantName: string | null;
+}
+
+/**
+ * Invoice failure with the HTTP status the API should answer with
+ */
+export class InvoiceError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 404 | 409
+  ) {
+    super(message);
+    this.name = 'InvoiceError';
+  }
+}
+
+const TAX_NUMBER_PATTERN = /^(\d{8})-([1-5])-(\d{2})$/;
+const CHECK_DIGIT_WEIGHTS = [9, 7, 3, 1, 9, 7, 3];
+
+/**
+ * Hungarian tax number: the eighth digit of the taxpayer id is a weighted
+ * check digit over the first seven
+ */
+export function isValidTaxNumber(taxNumber: string): boolean {
+  const match = TAX_NUMBER_PATTERN.exec(taxNumber);
+  if (!match) return false;
+  const digits = match[1].split('').map(Number);
+  const sum = CHECK_DIGIT_WEIGHTS.reduce((total, weight, index) => total + weight * digits[index], 0);
+  return (10 - (sum % 10)) % 10 === digits[7];
+}
+
+export function formatInvoiceNumber(prefix: string, year: number, sequence: number): string {
+  return `${prefix}-${year}-${String(sequence).padStart(6, '0')}`;
+}
+
+/**
+ * Rent is what the tenant pays, so with VAT it is the gross amount
+ */
+export function invoiceAmounts(grossHuf: number, vatStatus: VatStatus): Pick<InvoiceLine, 'netHuf' | 'vatHuf' | 'grossHuf'> {
+  if (vatStatus !== 'vat_27') {
+    return { netHuf: grossHuf, vatHuf: 0, grossHuf };
+  }
+  const netHuf = Math.round(grossHuf / (1 + VAT_RATE));
+  return { netHuf, vatHuf: grossHuf - netHuf, grossHuf };
+}
+
+/** Calendar date in Budapest, where the invoice is issued */
+export function budapestDate(date: Date): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: 'Europe/Budapest' }).format(date);
+}
+
+/**
+ * The invoice for a paid rent payment, before it is numbered
+ */
+export function buildInvoice(payment: InvoicePayment, settings: InvoiceSettings, issuedAt: Date): NewInvoice {
+  const paidOn = budapestDate(payment.paidAt ?? issuedAt);
+  const period = `${payment.periodStart} - ${payment.periodEnd}`;
+  const line: InvoiceLine = {
+    descriptionHu: `Lakásbérleti díj ${period}, ${payment.apartmentAddress ?? payment.apartmentTitle}`,
+    descriptionEn: `Residential rent ${period}, ${payment.apartmentTitle}`,
+    quantity: 1,
+    unitHu: 'hónap',
+    ...invoiceAmounts(payment.rentHuf, settings.vatStatus),
+  };
+
+  return {
+    ownerId: payment.ownerId,
+    tenantId: payment.tenantId,
+    bookingId: payment.bookingId,
+    leasePaymentId: payment.id,
+    issueDate: budapestDate(issuedAt),
+    deliveryDate: paidOn,
+    periodStart: payment.periodStart,
+    periodEnd: payment.periodEnd,
+    seller: {
+      name: settings.sellerName,
+      taxNumber: settings.taxNumber,
+      postalCode: settings.postalCode,
+      city: settings.city,
+      streetAddress: settings.streetAddress,
+    },
+    buyer: {
+      name: payment.tenantName ?? 'Bérlő / Tenant',
+      taxNumber: null,
+      postalCode: null,
+      city: null,
+      streetAddress: null,
+    },
+    lines: [line],
+    vatStatus: settings.vatStatus,
+    netHuf: line.netHuf,
+    vatHuf: line.vatHuf,
+    grossHuf: line.grossHuf,
+  };
+}
+
+const formatHuf = (huf: number) => `${huf.toLocaleString('hu-HU').replace(/\s/g, ' ')} Ft`;
+
+function vatLabel(vatStatus: VatStatus): string {
+  return vatStatus === 'vat_27' ? '27%' : VAT_EXEMPTIONS[vatStatus].case;
+}
+
+export function renderInvoicePdf(invoice: Invoice): Buffer {
+  const doc = new PdfDocument({
+    title: `Számla ${invoice.invoiceNumber}`,
+    author: invoice.seller.name,
+    createdAt: invoice.createdAt,
+  });
+
+  doc.heading('Számla / Invoice', 20);
+  doc.text(`Sorszám / Number: ${invoice.invoiceNumber}`, { size: 12, bold: true });
+  doc.space(8);
+
+  const party = (heading: string, p: InvoiceParty) =>
+    [
+      heading,
+      p.name,
+      [p.postalCode, p.city, p.streetAddress].filter(Boolean).join(' '),
+      p.taxNumber ? `Adószám / Tax number: ${p.taxNumber}` : 'Magánszemély / Private person',
+    ].filter(Boolean);
+  const sellerLines = party('Eladó / Seller', invoice.seller);
+  const buyerLines = party('Vevő / Buyer', invoice.buyer);
+  for (let i = 0; i < Math.max(sellerLines.length, buyerLines.length); i++) {
+    doc.row([sellerLines[i] ?? '', buyerLines[i] ?? ''], [0.5, 0.5], { bold: i === 0, size: 10 });
+  }
+  doc.rule();
+
+  const dates: Array<[string, string]> = [
+    ['Kiállítás dátuma / Issue date', invoice.issueDate],
+    ['Teljesítés dátuma / Delivery date', invoice.deliveryDate],
+    ['Fizetési határidő / Due date', invoice.deliveryDate],
+    ['Fizetés módja / Payment method', 'Bankkártya (kiegyenlítve) / Card (paid)'],
+    ['Elszámolási időszak / Billing period', `${invoice.periodStart} - ${invoice.periodEnd}`],
+    ['Pénznem / Currency', 'HUF'],
+  ];
+  for (const [label, value] of dates) {
+    doc.row([label, value], [0.45, 0.55], { size: 9 });
+  }
+  doc.space(10);
+
+  const widths = [0.4, 0.08, 0.14, 0.1, 0.14, 0.14];
+  doc.row(['Megnevezés / Description', 'Menny.', 'Nettó / Net', 'ÁFA / VAT', 'ÁFA összeg', 'Bruttó / Gross'], widths, {
+    bold: true,
+    size: 8,
+  });
+  for (const line of invoice.lines) {
+    doc.row(
+      [
+        `${line.descriptionHu} / ${line.descriptionEn}`,
+        `${line.quantity} ${line.unitHu}`,
+        formatHuf(line.netHuf),
+        vatLabel(invoice.vatStatus),
+        formatHuf(line.vatHuf),
+        formatHuf(line.grossHuf),
+      ],
+      widths,
+      { size: 8 }
+    );
+  }
+  doc.rule();
+  doc.row(['Nettó összesen / Net total', formatHuf(invoice.netHuf)], [0.7, 0.3], { size: 10 });
+  doc.row(['ÁFA összesen / VAT total', formatHuf(invoice.vatHuf)], [0.7, 0.3], { size: 10 });
+  doc.row(['Fizetendő / Total due', formatHuf(invoice.grossHuf)], [0.7, 0.3], { size: 12, bold: true });
+
+  if (invoice.vatStatus !== 'vat_27') {
+    doc.space(8);
+    doc.text(VAT_EXEMPTIONS[invoice.vatStatus].label, { size: 9 });
+    doc.text(VAT_EXEMPTIONS[invoice.vatStatus].reason, { size: 9, gray: 0.4 });
+  }
+  doc.space(12);
+  doc.text('A számla elektronikus úton, a Student Apartments rendszerében készült. / Electronic invoice issued through Student Apartments.', {
+    size: 8,
+    gray: 0.4,
+  });
+  return doc.toBuffer();
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const tag = (name: string, value: string | number) => `<${name}>${escapeXml(String(value))}</${name}>`;
+
+function taxNumberXml(element: string, taxNumber: string): string {
+  const [taxpayerId, vatCode, countyCode] = taxNumber.split('-');
+  return `<${element}>${tag('base:taxpayerId', taxpayerId)}${tag('base:vatCode', vatCode)}${tag('base:countyCode', countyCode)}</${element}>`;
+}
+
+function vatRateXml(vatStatus: VatStatus): string {
+  if (vatStatus === 'vat_27') {
+    return tag('vatPercentage', VAT_RATE.toFixed(2));
+  }
+  const exemption = VAT_EXEMPTIONS[vatStatus];
+  return `<vatExemption>${tag('case', exemption.case)}${tag('reason', exemption.reason)}</vatExemption>`;
+}
+
+/**
+ * NAV Online Számla 3.0 InvoiceData for a normal invoice to a private
+ * person (whose name NAV does not accept)
+ */
+export function invoiceNavXml(invoice: Invoice): string {
+  const seller = invoice.seller;
+  const lines = invoice.lines
+    .map(
+      (line, index) =>
+        '<line>' +
+        tag('lineNumber', index + 1) +
+        tag('lineExpressionIndicator', 'true') +
+        tag('lineNatureIndicator', 'SERVICE') +
+        tag('lineDescription', line.descriptionHu) +
+        tag('quantity', line.quantity) +
+        tag('unitOfMeasure', 'OWN') +
+        tag('unitOfMeasureOwn', line.unitHu) +
+        tag('unitPrice', line.netHuf) +
+        tag('unitPriceHUF', line.netHuf) +
+        '<lineAmountsNormal>' +
+        `<lineNetAmountData>${tag('lineNetAmount', line.netHuf)}${tag('lineNetAmountHUF', line.netHuf)}</lineNetAmountData>` +
+        `<lineVatRate>${vatRateXml(invoice.vatStatus)}</lineVatRate>` +
+        `<lineVatData>${tag('lineVatAmount', line.vatHuf)}${tag('lineVatAmountHUF', line.vatHuf)}</lineVatData>` +
+        `<lineGrossAmountData>${tag('lineGrossAmountNormal', line.grossHuf)}${tag('lineGrossAmountNormalHUF', line.grossHuf)}</lineGrossAmountData>` +
+        '</lineAmountsNormal>' +
+        '</line>'
+    )
+    .join('');
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<InvoiceData xmlns="http://schemas.nav.gov.hu/OSA/3.0/data" xmlns:base="http://schemas.nav.gov.hu/OSA/3.0/base">' +
+    tag('invoiceNumber', invoice.invoiceNumber) +
+    tag('invoiceIssueDate', invoice.issueDate) +
+    tag('completenessIndicator', 'false') +
+    '<invoiceMain><invoice>' +
+    '<invoiceHead>' +
+    '<supplierInfo>' +
+    taxNumberXml('supplierTaxNumber', seller.taxNumber ?? '') +
+    tag('supplierName', seller.name) +
+    '<supplierAddress><base:simpleAddress>' +
+    tag('base:countryCode', 'HU') +
+    tag('base:postalCode', seller.postalCode ?? '') +
+    tag('base:city', seller.city ?? '') +
+    tag('base:additionalAddressDetail', seller.streetAddress ?? '') +
+    '</base:simpleAddress></supplierAddress>' +
+    '</supplierInfo>' +
+    `<customerInfo>${tag('customerVatStatus', 'PRIVATE_PERSON')}</customerInfo>` +
+    '<invoiceDetail>' +
+    tag('invoiceCategory', 'NORMAL') +
+    tag('invoiceDeliveryDate', invoice.deliveryDate) +
+    tag('invoiceDeliveryPeriodStart', invoice.periodStart) +
+    tag('invoiceDeliveryPeriodEnd', invoice.periodEnd) +
+    tag('currencyCode', 'HUF') +
+    tag('exchangeRate', 1) +
+    tag('paymentMethod', 'CARD') +
+    tag('paymentDate', invoice.deliveryDate) +
+    tag('invoiceAppearance', 'ELECTRONIC') +
+    '</invoiceDetail>' +
+    '</invoiceHead>' +
+    `<invoiceLines>${tag('mergedItemIndicator', 'false')}${lines}</invoiceLines>` +
+    '<invoiceSummary>' +
+    '<summaryNormal>' +
+    '<summaryByVatRate>' +
+    `<vatRate>${vatRateXml(invoice.vatStatus)}</vatRate>` +
+    `<vatRateNetData>${tag('vatRateNetAmount', invoice.netHuf)}${tag('vatRateNetAmountHUF', invoice.netHuf)}</vatRateNetData>` +
+    `<vatRateVatData>${tag('vatRateVatAmount', invoice.vatHuf)}${tag('vatRateVatAmountHUF', invoice.vatHuf)}</vatRateVatData>` +
+    `<vatRateGrossData>${tag('vatRateGrossAmount', invoice.grossHuf)}${tag('vatRateGrossAmountHUF', invoice.grossHuf)}</vatRateGrossData>` +
+    '</summaryByVatRate>' +
+    tag('invoiceNetAmount', invoice.netHuf) +
+    tag('invoiceNetAmountHUF', invoice.netHuf) +
+    tag('invoiceVatAmount', invoice.vatHuf) +
+    tag('invoiceVatAmountHUF', invoice.vatHuf) +
+    '</summaryNormal>' +
+    `<summaryGrossData>${tag('invoiceGrossAmount', invoice.grossHuf)}${tag('invoiceGrossAmountHUF', invoice.grossHuf)}</summaryGrossData>` +
+    '</invoiceSummary>' +
+    '</invoice></invoiceMain>' +
+    '</InvoiceData>\n'
+  );
+}
+
+export interface NavSubmissionResult {
+  transactionId: string;
+  status: Extract<NavStatus, 'submitted' | 'accepted' | 'rejected'>;
+  messages: string[];
+}
+
+export interface NavInvoiceGateway {
+  submit(invoiceNumber: string, xml: string): Promise<NavSubmissionResult>;
+}
+
+const xmlValue = (xml: string, name: string) => new RegExp(`<${name}>([^<]*)</${name}>`).exec(xml)?.[1] ?? null;
+
+/**
+ * Stand-in for the NAV manageInvoice endpoint: runs the checks NAV answers
+ * with ERROR (tax number, totals, dates) and accepts everything else
+ */
+export class LocalNavStub implements NavInvoiceGateway {
+  async submit(invoiceNumber: string, xml: string): Promise<NavSubmissionResult> {
+    const messages: string[] = [];
+    const taxNumber = [xmlValue(xml, 'base:taxpayerId'), xmlValue(xml, 'base:vatCode'), xmlValue(xml, 'base:countyCode')].join('-');
+    if (!isValidTaxNumber(taxNumber)) {
+      messages.push('INVALID_SUPPLIER_TAX_NUMBER: the supplier tax number is not valid');
+    }
+    if (xmlValue(xml, 'invoiceNumber') !== invoiceNumber) {
+      messages.push('INVOICE_NUMBER_MISMATCH: the invoice number in the data differs from the request');
+    }
+    const net = Number(xmlValue(xml, 'invoiceNetAmountHUF'));
+    const vat = Number(xmlValue(xml, 'invoiceVatAmountHUF'));
+    const gross = Number(xmlValue(xml, 'invoiceGrossAmountHUF'));
+    if (net + vat !== gross) {
+      messages.push('INCORRECT_SUMMARY_CALCULATION: net and VAT do not add up to the gross amount');
+    }
+    const issueDate = xmlValue(xml, 'invoiceIssueDate') ?? '';
+    if ((xmlValue(xml, 'invoiceDeliveryDate') ?? '') > issueDate) {
+      messages.push('INVOICE_DELIVERY_DATE_LATE: the delivery date is after the issue date');
+    }
+
+    const transactionId = `LOCAL${createHash('sha256').update(xml).digest('hex').slice(0, 20).toUpperCase()}`;
+    logger.info({ invoiceNumber, transactionId, messages }, 'Local NAV stub received invoice');
+    return { transactionId, status: messages.length ? 'rejected' : 'accepted', messages };
+  }
+}
+
+export interface InvoiceRepository {
+  findPaymentByIntent(paymentIntentId: string): Promise<InvoicePayment | null>;
+  /** Paid payments with rent that have no invoice yet */
+  findUninvoicedPayments(ownerId: string): Promise<InvoicePayment[]>;
+  findSettings(ownerId: string): Promise<InvoiceSettings | null>;
+  saveSettings(settings: InvoiceSettings): Promise<InvoiceSettings>;
+  /** Numbers and stores the invoice; null when the payment already has one */
+  issue(invoice: NewInvoice, year: number): Promise<Invoice | null>;
+  setPdfKey(id: string, pdfKey: string): Promise<void>;
+  find(id: string): Promise<Invoice | null>;
+  list(filter: { ownerId?: string; tenantId?: string }): Promise<Invoice[]>;
+  updateNav(id: string, update: InvoiceNavUpdate): Promise<Invoice | null>;
+}
+
+const toDateOnly = (value: string | Date) => (value instanceof Date ? value.toISOString() : String(value)).slice(0, 10);
+
+function mapPayment(row: any): InvoicePayment {
+  return {
+    id: row.id,
+    bookingId: row.booking_id,
+    ownerId: row.owner_id,
+    tenantId: row.tenant_id,
+    kind: row.kind,
+    status: row.status,
+    periodStart: toDateOnly(row.period_start),
+    periodEnd: toDateOnly(row.period_end),
+    rentHuf: Number(row.rent_huf),
+    paidAt: row.paid_at ? new Date(row.paid_at) : null,
+    apartmentTitle: row.apartment_title,
+    apartmentAddress: row.apartment_address ?? null,
+    tenantName: row.tenant_name ?? null,
+  };
+}
+
+function mapSettings(row: any): InvoiceSettings {
+  return {
+    ownerId: row.owner_id,
+    sellerName: row.seller_name,
+    taxNumber: row.tax_number,
+    postalCode: row.postal_code,
+    city: row.city,
+    streetAddress: row.street_address,
+    vatStatus: row.vat_status,
+    numberPrefix: row.number_prefix,
+  };
+}
+
+function mapInvoice(row: any): Invoice {
+  return {
+    id: row.id,
+    ownerId: row.owner_id,
+    tenantId: row.tenant_id,
+    bookingId: row.booking_id,
+    leasePaymentId: row.lease_payment_id,
+    invoiceNumber: row.invoice_number,
+    issueDate: toDateOnly(row.issue_date),
+    deliveryDate: toDateOnly(row.delivery_date),
+    periodStart: toDateOnly(row.period_start),
+    periodEnd: toDateOnly(row.period_end),
+    seller: row.seller,
+    buyer: row.buyer,
+    lines: row.lines,
+    vatStatus: row.vat_status,
+    netHuf: Number(row.net_huf),
+    vatHuf: Number(row.vat_huf),
+    grossHuf: Number(row.gross_huf),
+    pdfKey: row.pdf_key ?? null,
+    navStatus: row.nav_status,
+    navTransactionId: row.nav_transaction_id ?? null,
+    navSubmittedAt: row.nav_submitted_at ? new Date(row.nav_submitted_at) : null,
+    navMessages: row.nav_messages ?? [],
+    createdAt: new Date(row.created_at),
+  };
+}
+
+const PAYMENT_SELECT = `
+  SELECT p.id, p.booking_id, p.kind, p.status, p.period_start, p.period_end, p.rent_huf, p.paid_at,
+         b.owner_id, b.tenant_id, a.title AS apartment_title, a.address AS apartment_address,
+         t.full_name AS tenant_name
+  FROM public.lease_payments p
+  JOIN public.bookings b ON b.id = p.booking_id
+  JOIN public.apartments a ON a.id = b.apartment_id
+  LEFT JOIN public.profiles t ON t.id = b.tenant_id`;
+
+export class PostgresInvoiceRepository implements InvoiceRepository {
+  async findPaymentByIntent(paymentIntentId: string): Promise<InvoicePayment | null> {
+    const { rows } = await runQuery(`${PAYMENT_SELECT} WHERE p.payment_intent_id = $1`, [paymentIntentId]);
+    return rows[0] ? mapPayment(rows[0]) : null;
+  }
+
+  async findUninvoicedPayments(ownerId: string): Promise<InvoicePayment[]> {
+    const { rows } = await runQuery(
+      `${PAYMENT_SELECT}
+       WHERE b.owner_id = $1 AND p.status = 'paid' AND p.rent_huf > 0
+         AND NOT EXISTS (SELECT 1 FROM public.invoices i WHERE i.lease_payment_id = p.id)
+       ORDER BY p.paid_at`,
+      [ownerId]
+    );
+    return rows.map(mapPayment);
+  }
+
+  async findSettings(ownerId: string): Promise<InvoiceSettings | null> {
+    const { rows } = await runQuery('SELECT * FROM public.owner_invoice_settings WHERE owner_id = $1', [ownerId]);
+    return rows[0] ? mapSettings(rows[0]) : null;
+  }
+
+  async saveSettings(settings: InvoiceSettings): Promise<InvoiceSettings> {
+    const { rows } = await runQuery(
+      `INSERT INTO public.owner_invoice_settings
+         (owner_id, seller_name, tax_number, postal_code, city, street_address, vat_status, number_prefix)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (owner_id) DO UPDATE SET
+         seller_name = EXCLUDED.seller_name,
+         tax_number = EXCLUDED.tax_number,
+         postal_code = EXCLUDED.postal_code,
+         city = EXCLUDED.city,
+         street_address = EXCLUDED.street_address,
+         vat_status = EXCLUDED.vat_status,
+         number_prefix = EXCLUDED.number_prefix,
+         updated_at = now()
+       RETURNING *`,
+      [
+        settings.ownerId,
+        settings.sellerName,
+        settings.taxNumber,
+        settings.postalCode,
+        settings.city,
+        settings.streetAddress,
+        settings.vatStatus,
+        settings.numberPrefix,
+      ]
+    );
+    return mapSettings(rows[0]);
+  }
+
+  async issue(invoice: NewInvoice, year: number): Promise<Invoice | null> {
+    const pool = await getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      // The settings row is the per-owner sequence; locking it keeps numbers gapless
+      const { rows: settings } = await client.query(
+        'SELECT number_prefix, sequence_year, last_sequence FROM public.owner_invoice_settings WHERE owner_id = $1 FOR UPDATE',
+        [invoice.ownerId]
+      );
+      const { rows: existing } = await client.query('SELECT 1 FROM public.invoices WHERE lease_payment_id = $1', [
+        invoice.leasePaymentId,
+      ]);
+      if (!settings[0] || existing[0]) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const sequence = settings[0].sequence_year === year ? Number(settings[0].last_sequence) + 1 : 1;
+      await client.query(
+        'UPDATE public.owner_invoice_settings SET sequence_year = $2, last_sequence = $3 WHERE owner_id = $1',
+        [invoice.ownerId, year, sequence]
+      );
+      const { rows } = await client.query(
+        `INSERT INTO public.invoices
+           (owner_id, tenant_id, booking_id, lease_payment_id, invoice_number, issue_date, delivery_date,
+            period_start, period_end, seller, buyer, lines, vat_status, net_huf, vat_huf, gross_huf)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+         RETURNING *`,
+        [
+          invoice.ownerId,
+          invoice.tenantId,
+          invoice.bookingId,
+          invoice.leasePaymentId,
+          formatInvoiceNumber(settings[0].number_prefix, year, sequence),
+          invoice.issueDate,
+          invoice.deliveryDate,
+          invoice.periodStart,
+          invoice.periodEnd,
+          JSON.stringify(invoice.seller),
+          JSON.stringify(invoice.buyer),
+          JSON.stringify(invoice.lines),
+          invoice.vatStatus,
+          invoice.netHuf,
+          invoice.vatHuf,
+          invoice.grossHuf,
+        ]
+      );
+      await client.query('COMMIT');
+      return mapInvoice(rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async setPdfKey(id: string, pdfKey: string): Promise<void> {
+    await runQuery('UPDATE public.invoices SET pdf_key = $2 WHERE id = $1', [id, pdfKey]);
+  }
+
+  async find(id: string): Promise<Invoice | null> {
+    const { rows } = await runQuery('SELECT * FROM public.invoices WHERE id = $1', [id]);
+    return rows[0] ? mapInvoice(rows[0]) : null;
+  }
+
+  async list(filter: { ownerId?: string; tenantId?: string }): Promise<Invoice[]> {
+    const column = filter.ownerId ? 'owner_id' : 'tenant_id';
+    const { rows } = await runQuery(
+      `SELECT * FROM public.invoices WHERE ${column} = $1 ORDER BY issue_date DESC, invoice_number DESC`,
+      [filter.ownerId ?? filter.tenantId]
+    );
+    return rows.map(mapInvoice);
+  }
+
+  async updateNav(id: string, update: InvoiceNavUpdate): Promise<Invoice | null> {
+    const { rows } = await runQuery(
+      `UPDATE public.invoices
+       SET nav_status = $2, nav_transaction_id = $3, nav_submitted_at = $4, nav_messages = $5
+       WHERE id = $1
+       RETURNING *`,
+      [id, update.navStatus, update.navTransactionId, update.navSubmittedAt, JSON.stringify(update.navMessages)]
+    );
+    return rows[0] ? mapInvoice(rows[0]) : null;
+  }
+}
+
+export type InvoiceSettingsInput = Omit<InvoiceSettings, 'ownerId'>;
+
+export class InvoiceService {
+  constructor(
+    private repository: InvoiceRepository = new PostgresInvoiceRepository(),
+    private storage: () => StorageAdapter = getDocumentStorage,
+    private nav: NavInvoiceGateway = new LocalNavStub(),
+    private now: () => Date = () => new Date()
+  ) {}
+
+  private async issue(payment: InvoicePayment, settings: InvoiceSettings): Promise<Invoice | null> {
+    if (payment.status !== 'paid' || payment.rentHuf <= 0) return null;
+
+    const issuedAt = this.now();
+    const invoice = await this.repository.issue(
+      buildInvoice(payment, settings, issuedAt),
+      Number(budapestDate(issuedAt).slice(0, 4))
+    );
+    if (!invoice) return null;
+
+    const pdfKey = `invoices/${invoice.ownerId}/${invoice.invoiceNumber}.pdf`;
+    await this.storage().put(pdfKey, renderInvoicePdf(invoice), { contentType: 'application/pdf' });
+    await this.repository.setPdfKey(invoice.id, pdfKey);
+    return { ...invoice, pdfKey };
+  }
+
+  /**
+   * A lease payment succeeded. Without invoicing details the owner cannot
+   * issue invoices yet; they are issued when the owner saves them.
+   */
+  async issueForPayment(paymentIntentId: string): Promise<Invoice | null> {
+    const payment = await this.repository.findPaymentByIntent(paymentIntentId);
+    if (!payment) return null;
+    const settings = await this.repository.findSettings(payment.ownerId);
+    if (!settings) return null;
+    return this.issue(payment, settings);
+  }
+
+  async getSettings(ownerId: string): Promise<InvoiceSettings | null> {
+    return this.repository.findSettings(ownerId);
+  }
+
+  /**
+   * Save the owner's invoicing details and invoice any rent paid before they
+   * existed
+   */
+  async saveSettings(ownerId: string, input: InvoiceSettingsInput): Promise<{ settings: InvoiceSettings; issued: number }> {
+    if (!isValidTaxNumber(input.taxNumber)) {
+      throw new InvoiceError('Enter a valid Hungarian tax number (12345678-1-23)', 400);
+    }
+    const settings = await this.repository.saveSettings({ ...input, ownerId });
+
+    let issued = 0;
+    for (const payment of await this.repository.findUninvoicedPayments(ownerId)) {
+      if (await this.issue(payment, settings)) issued += 1;
+    }
+    return { settings, issued };
+  }
+
+  async list(userId: string): Promise<{ issued: Invoice[]; received: Invoice[] }> {
+    const [issued, received] = await Promise.all([
+      this.repository.list({ ownerId: userId }),
+      this.repository.list({ tenantId: userId }),
+    ]);
+    return { issued, received };
+  }
+
+  /** The invoice if the user is its seller or buyer */
+  async get(userId: string, id: string): Promise<Invoice> {
+    const invoice = await this.repository.find(id);
+    if (!invoice || (invoice.ownerId !== userId && invoice.tenantId !== userId)) {
+      throw new InvoiceError('Invoice not found', 404);
+    }
+    return invoice;
+  }
+
+  /**
+   * The stored PDF; re-rendered from the invoice data if storage lost it
+   */
+  async pdf(userId: string, id: string): Promise<{ invoice: Invoice; pdf: Buffer }> {
+    const invoice = await this.get(userId, id);
+    if (invoice.pdfKey) {
+      try {
+        return { invoice, pdf: await this.storage().get(invoice.pdfKey) };
+      } catch (error) {
+        logger.warn({ error, invoiceId: id }, 'Stored invoice PDF unavailable; rendering again');
+      }
+    }
+    return { invoice, pdf: renderInvoicePdf(invoice) };
+  }
+
+  private async getOwned(ownerId: string, id: string): Promise<Invoice> {
+    const invoice = await this.get(ownerId, id);
+    if (invoice.ownerId !== ownerId) {
+      throw new InvoiceError('Invoice not found', 404);
+    }
+    return invoice;
+  }
+
+  async navXml(ownerId: string, id: string): Promise<{ invoice: Invoice; xml: string }> {
+    const invoice = await this.getOwned(ownerId, id);
+    return { invoice, xml: invoiceNavXml(invoice) };
+  }
+
+  async submitToNav(ownerId: string, id: string): Promise<Invoice> {
+    const invoice = await this.getOwned(ownerId, id);
+    if (invoice.navStatus === 'accepted' || invoice.navStatus === 'submitted') {
+      throw new InvoiceError('This invoice has already been reported to NAV', 409);
+    }
+
+    const result = await this.nav.submit(invoice.invoiceNumber, invoiceNavXml(invoice));
+    const updated = await this.repository.updateNav(invoice.id, {
+      navStatus: result.status,
+      navTransactionId: result.transactionId,
+      navSubmittedAt: this.now(),
+      navMessages: result.messages,
+    });
+    return updated!;
+  }
+}
+
+export const invoiceService = new InvoiceService();
@@ -0,0 +1,1154 @@
+// Lease model - long-term student leases instead of nightly bookings
+// A lease is a move-in date plus a term of whole months. The tenant pays the
+// first month's rent and the deposit when signing; later months are charged
+// off-session to the saved card on the owner's Stripe Connect account, each
+// on a delayed job at its due date.
+//
+// requested -> accepted (owner) -> signed (tenant) -> active (move-in) -> ended
+// requested -> declined; requested | accepted | signed (unpaid) -> cancelled
+//
+// An active lease ends at its term, or early when the owner ends it. The
+// tenant cannot walk out alone: they request termination with a notice date,
+// and the lease ends after that date once the owner accepts.
+//
+// The deposit is not paid to the owner: it is held on the platform in the
+// deposit escrow (./escrow) until the move-out settlement.
+
+import type Stripe from 'stripe';
+import { runQuery } from '@/lib/db/pool';
+import { getStripe, toStripeAmount } from '@/lib/stripe/server';
+import { JOB_QUEUES, jobQueue, type LeaseJobPayload } from '@/services/job-queue-svc';
+import { depositEscrowService } from './escrow';
+
+export type LeaseStatus = 'requested' | 'accepted' | 'signed' | 'active' | 'ended' | 'declined' | 'cancelled';
+export type LeaseAction =
+  | 'accept'
+  | 'decline'
+  | 'sign'
+  | 'cancel'
+  | 'activate'
+  | 'end'
+  | 'request_termination'
+  | 'accept_termination'
+  | 'decline_termination';
+export type LeaseActor = 'tenant' | 'owner' | 'system';
+export type LeasePaymentStatus =
+  | 'scheduled'
+  | 'processing'
+  | 'requires_action'
+  | 'paid'
+  | 'failed'
+  | 'cancelled'
+  | 'refunded';
+export type LeaseJobType = 'lease.activate' | 'lease.charge_rent' | 'lease.end';
+
+// Students sign for a semester to a year unless the listing says otherwise
+export const MIN_LEASE_MONTHS = 5;
+export const MAX_LEASE_MONTHS = 12;
+export const DEFAULT_DEPOSIT_MONTHS = 2;
+export const PLATFORM_FEE_RATE = 0.03;
+export const TERMINATION_NOTICE_DAYS = 30;
+
+export const LEASE_TRANSITIONS: Record<LeaseAction, { from: LeaseStatus[]; to: LeaseStatus; actors: LeaseActor[] }> = {
+  accept: { from: ['requested'], to: 'accepted', actors: ['owner'] },
+  decline: { from: ['requested'], to: 'declined', actors: ['owner'] },
+  sign: { from: ['accepted'], to: 'signed', actors: ['tenant'] },
+  cancel: { from: ['requested', 'accepted', 'signed'], to: 'cancelled', actors: ['tenant', 'owner'] },
+  activate: { from: ['signed'], to: 'active', actors: ['system'] },
+  end: { from: ['active'], to: 'ended', actors: ['owner', 'system'] },
+  // The lease stays active until the agreed last day; the tenant withdraws with decline
+  request_termination: { from: ['active'], to: 'active', actors: ['tenant'] },
+  accept_termination: { from: ['active'], to: 'active', actors: ['owner'] },
+  decline_termination: { from: ['active'], to: 'active', actors: ['tenant', 'owner'] },
+};
+
+export interface LeaseTerms {
+  monthlyRentHuf: number;
+  depositMonths: number;
+  moveInDate: string; // YYYY-MM-DD
+  termMonths: number;
+}
+
+export interface LeaseInstallment {
+  kind: 'first_payment' | 'rent';
+  periodStart: string;
+  periodEnd: string;
+  dueDate: string;
+  rentHuf: number;
+  depositHuf: number;
+  amountHuf: number;
+  platformFeeHuf: number;
+}
+
+export interface LeaseQuote extends LeaseTerms {
+  moveOutDate: string;
+  depositHuf: number;
+  firstPaymentHuf: number;
+  totalRentHuf: number;
+  schedule: LeaseInstallment[];
+}
+
+export interface Lease {
+  id: string;
+  apartmentId: string;
+  tenantId: string;
+  ownerId: string;
+  status: LeaseStatus;
+  moveInDate: string;
+  moveOutDate: string;
+  termMonths: number;
+  monthlyRentHuf: number;
+  depositMonths: number;
+  depositHuf: number;
+  firstPaymentHuf: number;
+  totalRentHuf: number;
+  paymentStatus: 'unpaid' | 'paid' | 'refunded';
+  stripeAccountId: string | null;
+  stripeCustomerId: string | null;
+  stripePaymentMethodId: string | null;
+  notes: string | null;
+  acceptedAt: Date | null;
+  signedAt: Date | null;
+  activatedAt: Date | null;
+  endedAt: Date | null;
+  endReason: string | null;
+  terminationRequestedAt: Date | null;
+  terminationDate: string | null; // Last day the tenant asked for
+  terminationAcceptedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface LeasePayment extends LeaseInstallment {
+  id: string;
+  bookingId: string;
+  status: LeasePaymentStatus;
+  paymentIntentId: string | null;
+  attempts: number;
+  lastError: string | null;
+  paidAt: Date | null;
+}
+
+export interface LeaseApartment {
+  id: string;
+  ownerId: string;
+  title: string;
+  isAvailable: boolean;
+  monthlyRentHuf: number;
+  depositMonths: number | null;
+  leaseMinMonths: number | null;
+  leaseMaxMonths: number | null;
+}
+
+export type NewLease = Omit<
+  Lease,
+  | 'id'
+  | 'status'
+  | 'paymentStatus'
+  | 'stripeAccountId'
+  | 'stripeCustomerId'
+  | 'stripePaymentMethodId'
+  | 'acceptedAt'
+  | 'signedAt'
+  | 'activatedAt'
+  | 'endedAt'
+  | 'endReason'
+  | 'terminationRequestedAt'
+  | 'terminationDate'
+  | 'terminationAcceptedAt'
+  | 'createdAt'
+>;
+
+export type LeaseUpdate = Partial<
+  Pick<
+    Lease,
+    | 'acceptedAt'
+    | 'signedAt'
+    | 'activatedAt'
+    | 'endedAt'
+    | 'endReason'
+    | 'terminationRequestedAt'
+    | 'terminationDate'
+    | 'terminationAcceptedAt'
+    | 'paymentStatus'
+    | 'stripeAccountId'
+    | 'stripeCustomerId'
+    | 'stripePaymentMethodId'
+  >
+>;
+
+export type LeasePaymentUpdate = Partial<Pick<LeasePayment, 'status' | 'paymentIntentId' | 'lastError' | 'paidAt'>> & {
+  incrementAttempts?: boolean;
+};
+
+/**
+ * Lease failure with the HTTP status the API should answer with
+ */
+export class LeaseError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 403 | 404 | 409 | 503
+  ) {
+    super(message);
+    this.name = 'LeaseError';
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function isValidDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && formatDate(new Date(`${value}T00:00:00Z`)) === value;
+}
+
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return formatDate(result);
+}
+
+/**
+ * Same day `months` later, clamped to the end of shorter months
+ * (Jan 31 + 1 month = Feb 28)
+ */
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return formatDate(target);
+}
+
+export function platformFee(rentHuf: number): number {
+  return Math.round(rentHuf * PLATFORM_FEE_RATE);
+}
+
+/**
+ * Check a requested term against the listing's bounds and today's date
+ */
+export function validateLeaseTerms(
+  terms: Pick<LeaseTerms, 'moveInDate' | 'termMonths'>,
+  bounds: { minMonths?: number | null; maxMonths?: number | null; today: string }
+): void {
+  if (!isValidDate(terms.moveInDate)) {
+    throw new LeaseError('Move-in date must be a valid YYYY-MM-DD date', 400);
+  }
+  if (terms.moveInDate < bounds.today) {
+    throw new LeaseError('Move-in date cannot be in the past', 400);
+  }
+  const minMonths = bounds.minMonths ?? MIN_LEASE_MONTHS;
+  const maxMonths = Math.max(bounds.maxMonths ?? MAX_LEASE_MONTHS, minMonths);
+  if (!Number.isInteger(terms.termMonths) || terms.termMonths < minMonths || terms.termMonths > maxMonths) {
+    throw new LeaseError(`Lease term must be between ${minMonths} and ${maxMonths} months`, 400);
+  }
+}
+
+/**
+ * Deposit, first payment and the monthly schedule. Rent is due on the first
+ * day of each lease month; the first month and the deposit are paid at signing.
+ */
+export function quoteLease(terms: LeaseTerms): LeaseQuote {
+  const depositHuf = Math.round(terms.monthlyRentHuf * terms.depositMonths);
+  const schedule: LeaseInstallment[] = [];
+
+  for (let month = 0; month < terms.termMonths; month++) {
+    const periodStart = addMonths(terms.moveInDate, month);
+    const deposit = month === 0 ? depositHuf : 0;
+    schedule.push({
+      kind: month === 0 ? 'first_payment' : 'rent',
+      periodStart,
+      periodEnd: addDays(addMonths(terms.moveInDate, month + 1), -1),
+      dueDate: periodStart,
+      rentHuf: terms.monthlyRentHuf,
+      depositHuf: deposit,
+      amountHuf: terms.monthlyRentHuf + deposit,
+      platformFeeHuf: platformFee(terms.monthlyRentHuf),
+    });
+  }
+
+  return {
+    ...terms,
+    moveOutDate: addDays(addMonths(terms.moveInDate, terms.termMonths), -1),
+    depositHuf,
+    firstPaymentHuf: terms.monthlyRentHuf + depositHuf,
+    totalRentHuf: terms.monthlyRentHuf * terms.termMonths,
+    schedule,
+  };
+}
+
+/**
+ * Status after an action, or a LeaseError when the lease is in the wrong
+ * state or the actor may not take it
+ */
+export function nextLeaseStatus(current: LeaseStatus, action: LeaseAction, actor: LeaseActor): LeaseStatus {
+  const transition = LEASE_TRANSITIONS[action];
+  if (!transition.actors.includes(actor)) {
+    throw new LeaseError(`The ${actor} cannot ${action} a lease`, 403);
+  }
+  if (!transition.from.includes(current)) {
+    throw new LeaseError(`Cannot ${action} a lease that is ${current}`, 409);
+  }
+  return transition.to;
+}
+
+export interface LeaseRepository {
+  getApartment(apartmentId: string): Promise<LeaseApartment | null>;
+  /** Connect account with charges enabled, or null */
+  getOwnerStripeAccount(ownerId: string): Promise<string | null>;
+  getTenantEmail(tenantId: string): Promise<string | null>;
+  countOverlapping(
+    apartmentId: string,
+    moveInDate: string,
+    moveOutDate: string,
+    statuses: LeaseStatus[],
+    excludeId?: string
+  ): Promise<number>;
+  insert(lease: NewLease): Promise<Lease>;
+  findById(id: string): Promise<Lease | null>;
+  /** Moves the lease only while it is in one of `from`; null otherwise */
+  transition(id: string, from: LeaseStatus[], to: LeaseStatus, update: LeaseUpdate): Promise<Lease | null>;
+  update(id: string, update: LeaseUpdate): Promise<void>;
+  /** Inserts the schedule once; returns every payment of the lease */
+  insertPayments(bookingId: string, installments: LeaseInstallment[]): Promise<LeasePayment[]>;
+  listPayments(bookingId: string): Promise<LeasePayment[]>;
+  findPayment(id: string): Promise<LeasePayment | null>;
+  findPaymentByIntent(paymentIntentId: string): Promise<LeasePayment | null>;
+  updatePayment(id: string, update: LeasePaymentUpdate): Promise<void>;
+  /** Cancels unpaid months; with `after`, only those starting after that date */
+  cancelScheduledPayments(bookingId: string, after?: string): Promise<void>;
+}
+
+export interface LeasePaymentGateway {
+  /** PaymentIntent for the first payment that saves the card for later rent */
+  createFirstPayment(
+    lease: Lease,
+    payment: LeasePayment,
+    tenantEmail: string | null
+  ): Promise<{ customerId: string; paymentIntentId: string; clientSecret: string }>;
+  /** Off-session charge of a month's rent to the saved card */
+  chargeRent(lease: Lease, payment: LeasePayment): Promise<{ paymentIntentId: string; status: string }>;
+  /** Client secret for the tenant to confirm a charge their bank held back */
+  resumePayment(paymentIntentId: string): Promise<string>;
+  /** Cancel an open PaymentIntent; false when it has already succeeded */
+  cancelPayment(paymentIntentId: string): Promise<boolean>;
+}
+
+/**
+ * Deposit escrow hooks at the points where the lease moves money or ends
+ */
+export interface LeaseDepositEscrow {
+  depositPaid(lease: Lease, payment: LeasePayment): Promise<unknown>;
+  leaseEnded(lease: Lease): Promise<void>;
+  depositRefunded(bookingId: string): Promise<void>;
+}
+
+export type LeaseJobScheduler = (
+  type: LeaseJobType,
+  payload: LeaseJobPayload,
+  runAt: Date,
+  idempotencyKey: string
+) => Promise<void>;
+
+function toDateOnly(value: string | Date): string {
+  if (typeof value === 'string') return value.slice(0, 10);
+  // pg parses DATE columns as local midnight
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+}
+
+const toDate = (value: any): Date | null => (value ? new Date(value) : null);
+
+function mapLease(row: any): Lease {
+  return {
+    id: row.id,
+    apartmentId: row.apartment_id,
+    tenantId: row.tenant_id,
+    ownerId: row.owner_id,
+    status: row.status,
+    moveInDate: toDateOnly(row.move_in_date),
+    moveOutDate: toDateOnly(row.move_out_date),
+    termMonths: Number(row.lease_months),
+    monthlyRentHuf: Number(row.monthly_rent_huf),
+    depositMonths: Number(row.deposit_months ?? 0),
+    depositHuf: Number(row.security_deposit_huf ?? 0),
+    firstPaymentHuf: Number(row.first_payment_huf ?? 0),
+    totalRentHuf: Number(row.total_rent_huf),
+    paymentStatus: row.payment_status ?? 'unpaid',
+    stripeAccountId: row.stripe_account_id ?? null,
+    stripeCustomerId: row.stripe_customer_id ?? null,
+    stripePaymentMethodId: row.stripe_payment_method_id ?? null,
+    notes: row.notes ?? null,
+    acceptedAt: toDate(row.accepted_at),
+    signedAt: toDate(row.signed_at),
+    activatedAt: toDate(row.activated_at),
+    endedAt: toDate(row.ended_at),
+    endReason: row.end_reason ?? null,
+    terminationRequestedAt: toDate(row.termination_requested_at),
+    terminationDate: row.termination_date ? toDateOnly(row.termination_date) : null,
+    terminationAcceptedAt: toDate(row.termination_accepted_at),
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function mapPayment(row: any): LeasePayment {
+  return {
+    id: row.id,
+    bookingId: row.booking_id,
+    kind: row.kind,
+    periodStart: toDateOnly(row.period_start),
+    periodEnd: toDateOnly(row.period_end),
+    dueDate: toDateOnly(row.due_date),
+    rentHuf: Number(row.rent_huf),
+    depositHuf: Number(row.deposit_huf),
+    amountHuf: Number(row.amount_huf),
+    platformFeeHuf: Number(row.platform_fee_huf),
+    status: row.status,
+    paymentIntentId: row.payment_intent_id ?? null,
+    attempts: Number(row.attempts),
+    lastError: row.last_error ?? null,
+    paidAt: toDate(row.paid_at),
+  };
+}
+
+const LEASE_COLUMNS: Record<keyof LeaseUpdate, string> = {
+  acceptedAt: 'accepted_at',
+  signedAt: 'signed_at',
+  activatedAt: 'activated_at',
+  endedAt: 'ended_at',
+  endReason: 'end_reason',
+  terminationRequestedAt: 'termination_requested_at',
+  terminationDate: 'termination_date',
+  terminationAcceptedAt: 'termination_accepted_at',
+  paymentStatus: 'payment_status',
+  stripeAccountId: 'stripe_account_id',
+  stripeCustomerId: 'stripe_customer_id',
+  stripePaymentMethodId: 'stripe_payment_method_id',
+};
+
+function setClause(update: LeaseUpdate, firstParam: number): { sql: string; values: unknown[] } {
+  const entries = Object.entries(update).filter(([, value]) => value !== undefined) as Array<[keyof LeaseUpdate, unknown]>;
+  return {
+    sql: entries.map(([key], index) => `, ${LEASE_COLUMNS[key]} = $${firstParam + index}`).join(''),
+    values: entries.map(([, value]) => value),
+  };
+}
+
+export class PostgresLeaseRepository implements LeaseRepository {
+  async getApartment(apartmentId: string): Promise<LeaseApartment | null> {
+    const { rows } = await runQuery(
+      `SELECT id, owner_id, title, is_available, monthly_rent_huf, deposit_months, lease_min_months, lease_max_months
+       FROM public.apartments WHERE id = $1`,
+      [apartmentId]
+    );
+    const row = rows[0];
+    if (!row) return null;
+    return {
+      id: row.id,
+      ownerId: row.owner_id,
+      title: row.title,
+      isAvailable: row.is_available !== false,
+      monthlyRentHuf: Number(row.monthly_rent_huf),
+      depositMonths: row.deposit_months === null ? null : Number(row.deposit_months),
+      leaseMinMonths: row.lease_min_months ?? null,
+      leaseMaxMonths: row.lease_max_months ?? null,
+    };
+  }
+
+  async getOwnerStripeAccount(ownerId: string): Promise<string | null> {
+    const { rows } = await runQuery(
+      `SELECT stripe_account_id FROM public.stripe_connect_accounts
+       WHERE user_id = $1 AND charges_enabled
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [ownerId]
+    );
+    return rows[0]?.stripe_account_id ?? null;
+  }
+
+  async getTenantEmail(tenantId: string): Promise<string | null> {
+    const { rows } = await runQuery('SELECT email FROM public.profiles WHERE id = $1', [tenantId]);
+    return rows[0]?.email ?? null;
+  }
+
+  async countOverlapping(
+    apartmentId: string,
+    moveInDate: string,
+    moveOutDate: string,
+    statuses: LeaseStatus[],
+    excludeId?: string
+  ): Promise<number> {
+    const { rows } = await runQuery(
+      `SELECT COUNT(*)::int AS count FROM public.bookings
+       WHERE apartment_id = $1
+         AND status = ANY($2)
+         AND move_in_date <= $4
+         AND COALESCE(move_out_date, move_in_date) >= $3
+         AND ($5::uuid IS NULL OR id <> $5)`,
+      [apartmentId, statuses, moveInDate, moveOutDate, excludeId ?? null]
+    );
+    return Number(rows[0]?.count ?? 0);
+  }
+
+  async insert(lease: NewLease): Promise<Lease> {
+    const { rows } = await runQuery(
+      `INSERT INTO public.bookings
+         (apartment_id, tenant_id, owner_id, status, move_in_date, move_out_date, lease_months,
+          monthly_rent_huf, deposit_months, security_deposit_huf, first_payment_huf, total_rent_huf, notes, payment_status)
+       VALUES ($1, $2, $3, 'requested', $4, $5, $6, $7, $8, $9, $10, $11, $12, 'unpaid')
+       RETURNING *`,
+      [
+        lease.apartmentId,
+        lease.tenantId,
+        lease.ownerId,
+        lease.moveInDate,
+        lease.moveOutDate,
+        lease.termMonths,
+        lease.monthlyRentHuf,
+        lease.depositMonths,
+        lease.depositHuf,
+        lease.firstPaymentHuf,
+        lease.totalRentHuf,
+        lease.notes,
+      ]
+    );
+    return mapLease(rows[0]);
+  }
+
+  async findById(id: string): Promise<Lease | null> {
+    const { rows } = await runQuery('SELECT * FROM public.bookings WHERE id = $1', [id]);
+    return rows[0] ? mapLease(rows[0]) : null;
+  }
+
+  async transition(id: string, from: LeaseStatus[], to: LeaseStatus, update: LeaseUpdate): Promise<Lease | null> {
+    const set = setClause(update, 4);
+    const { rows } = await runQuery(
+      `UPDATE public.bookings
+       SET status = $3, updated_at = now()${set.sql}
+       WHERE id = $1 AND status = ANY($2)
+       RETURNING *`,
+      [id, from, to, ...set.values]
+    );
+    return rows[0] ? mapLease(rows[0]) : null;
+  }
+
+  async update(id: string, update: LeaseUpdate): Promise<void> {
+    const set = setClause(update, 2);
+    if (set.values.length === 0) return;
+    await runQuery(`UPDATE public.bookings SET updated_at = now()${set.sql} WHERE id = $1`, [id, ...set.values]);
+  }
+
+  async insertPayments(bookingId: string, installments: LeaseInstallment[]): Promise<LeasePayment[]> {
+    for (const installment of installments) {
+      await runQuery(
+        `INSERT INTO public.lease_payments
+           (booking_id, kind, period_start, period_end, due_date, rent_huf, deposit_huf, amount_huf, platform_fee_huf)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         ON CONFLICT (booking_id, kind, period_start) DO NOTHING`,
+        [
+          bookingId,
+          installment.kind,
+          installment.periodStart,
+          installment.periodEnd,
+          installment.dueDate,
+          installment.rentHuf,
+          installment.depositHuf,
+          installment.amountHuf,
+          installment.platformFeeHuf,
+        ]
+      );
+    }
+    return this.listPayments(bookingId);
+  }
+
+  async listPayments(bookingId: string): Promise<LeasePayment[]> {
+    const { rows } = await runQuery(
+      'SELECT * FROM public.lease_payments WHERE booking_id = $1 ORDER BY period_start, kind',
+      [bookingId]
+    );
+    return rows.map(mapPayment);
+  }
+
+  async findPayment(id: string): Promise<LeasePayment | null> {
+    const { rows } = await runQuery('SELECT * FROM public.lease_payments WHERE id = $1', [id]);
+    return rows[0] ? mapPayment(rows[0]) : null;
+  }
+
+  async findPaymentByIntent(paymentIntentId: string): Promise<LeasePayment | null> {
+    const { rows } = await runQuery('SELECT * FROM public.lease_payments WHERE payment_intent_id = $1', [
+      paymentIntentId,
+    ]);
+    return rows[0] ? mapPayment(rows[0]) : null;
+  }
+
+  async updatePayment(id: string, update: LeasePaymentUpdate): Promise<void> {
+    await runQuery(
+      `UPDATE public.lease_payments
+       SET status = COALESCE($2, status),
+           payment_intent_id = COALESCE($3, payment_intent_id),
+           last_error = CASE WHEN $4::boolean THEN $5 ELSE last_error END,
+           paid_at = COALESCE($6, paid_at),
+           attempts = attempts + $7,
+           updated_at = now()
+       WHERE id = $1`,
+      [
+        id,
+        update.status ?? null,
+        update.paymentIntentId ?? null,
+        update.lastError !== undefined,
+        update.lastError ?? null,
+        update.paidAt ?? null,
+        update.incrementAttempts ? 1 : 0,
+      ]
+    );
+  }
+
+  async cancelScheduledPayments(bookingId: string, after?: string): Promise<void> {
+    await runQuery(
+      `UPDATE public.lease_payments SET status = 'cancelled', updated_at = now()
+       WHERE booking_id = $1 AND status IN ('scheduled', 'requires_action', 'failed')
+         AND ($2::date IS NULL OR period_start > $2)`,
+      [bookingId, after ?? null]
+    );
+  }
+}
+
+function requireStripe(): Stripe {
+  const stripe = getStripe();
+  if (!stripe) {
+    throw new LeaseError('Payments are not configured', 503);
+  }
+  return stripe;
+}
+
+/**
+ * Destination charges on the owner's Connect account; the platform keeps
+ * its fee on the rent, never on the deposit. The first payment only
+ * transfers the rent, so the deposit stays on the platform in escrow.
+ */
+export class StripeLeaseGateway implements LeasePaymentGateway {
+  async createFirstPayment(lease: Lease, payment: LeasePayment, tenantEmail: string | null) {
+    const stripe = requireStripe();
+
+    // Returning to the payment page reuses the open intent
+    if (payment.paymentIntentId && lease.stripeCustomerId) {
+      const existing = await stripe.paymentIntents.retrieve(payment.paymentIntentId);
+      if (existing.status !== 'canceled' && existing.client_secret) {
+        return {
+          customerId: lease.stripeCustomerId,
+          paymentIntentId: existing.id,
+          clientSecret: existing.client_secret,
+        };
+      }
+    }
+
+    const customerId =
+      lease.stripeCustomerId ??
+      (
+        await stripe.customers.create(
+          { email: tenantEmail ?? undefined, metadata: { tenant_id: lease.tenantId } },
+          { idempotencyKey: `lease-customer:${lease.id}` }
+        )
+      ).id;
+
+    const intent = await stripe.paymentIntents.create(
+      {
+        amount: toStripeAmount(payment.amountHuf),
+        currency: 'huf',
+        customer: customerId,
+        setup_future_usage: 'off_session',
+        automatic_payment_methods: { enabled: true },
+        transfer_data: {
+          destination: lease.stripeAccountId!,
+          amount: toStripeAmount(payment.rentHuf - payment.platformFeeHuf),
+        },
+        transfer_group: `booking:${lease.id}`,
+        description: `First month's rent and deposit (${lease.moveInDate})`,
+        metadata: {
+          booking_id: lease.id,
+          lease_payment_id: payment.id,
+          user_id: lease.tenantId,
+          kind: payment.kind,
+        },
+      },
+      { idempotencyKey: `lease-payment:${payment.id}:${payment.attempts}` }
+    );
+
+    return { customerId, paymentIntentId: intent.id, clientSecret: intent.client_secret! };
+  }
+
+  async chargeRent(lease: Lease, payment: LeasePayment) {
+    const intent = await requireStripe().paymentIntents.create(
+      {
+        amount: toStripeAmount(payment.amountHuf),
+        currency: 'huf',
+        customer: lease.stripeCustomerId!,
+        payment_method: lease.stripePaymentMethodId!,
+        off_session: true,
+        confirm: true,
+        application_fee_amount: toStripeAmount(payment.platformFeeHuf),
+        transfer_data: { destination: lease.stripeAccountId! },
+        description: `Rent ${payment.periodStart} - ${payment.periodEnd}`,
+        metadata: {
+          booking_id: lease.id,
+          lease_payment_id: payment.id,
+          user_id: lease.tenantId,
+          kind: payment.kind,
+        },
+      },
+      { idempotencyKey: `lease-payment:${payment.id}:${payment.attempts}` }
+    );
+    return { paymentIntentId: intent.id, status: intent.status };
+  }
+
+  // An off-session charge that needed authentication is left in
+  // requires_payment_method; the tenant confirms it again with the saved card
+  async resumePayment(paymentIntentId: string) {
+    const intent = await requireStripe().paymentIntents.retrieve(paymentIntentId);
+    if (!['requires_payment_method', 'requires_action'].includes(intent.status) || !intent.client_secret) {
+      throw new LeaseError('This payment no longer needs confirming', 409);
+    }
+    return intent.client_secret;
+  }
+
+  async cancelPayment(paymentIntentId: string) {
+    const stripe = requireStripe();
+    const intent = await stripe.paymentIntents.retrieve(paymentIntentId);
+    if (intent.status === 'succeeded') return false;
+    if (intent.status !== 'canceled') {
+      await stripe.paymentIntents.cancel(paymentIntentId, { cancellation_reason: 'abandoned' });
+    }
+    return true;
+  }
+}
+
+export const scheduleLeaseJob: LeaseJobScheduler = async (type, payload, runAt, idempotencyKey) => {
+  await jobQueue.enqueue(JOB_QUEUES.leases, type, payload, { runAt, idempotencyKey });
+};
+
+// Jobs for a date run at the start of that day (UTC)
+const startOfDay = (date: string) => new Date(`${date}T00:00:00Z`);
+
+const CONFIRM_PAYMENT_MESSAGE = 'Your bank asked you to confirm this payment';
+
+/**
+ * The PaymentIntent of an off-session charge Stripe declined because the bank
+ * wants the cardholder to authenticate (StripeCardError authentication_required)
+ */
+function authenticationRequiredIntent(error: unknown): string | null {
+  const { code, payment_intent } = (error ?? {}) as { code?: string; payment_intent?: { id?: string } };
+  return code === 'authentication_required' && payment_intent?.id ? payment_intent.id : null;
+}
+
+export class LeaseService {
+  constructor(
+    private repository: LeaseRepository = new PostgresLeaseRepository(),
+    private gateway: LeasePaymentGateway = new StripeLeaseGateway(),
+    private schedule: LeaseJobScheduler = scheduleLeaseJob,
+    private now: () => Date = () => new Date(),
+    private escrow: LeaseDepositEscrow = depositEscrowService
+  ) {}
+
+  private today(): string {
+    return formatDate(this.now());
+  }
+
+  async requestLease(
+    tenantId: string,
+    input: { apartmentId: string; moveInDate: string; termMonths: number; notes?: string }
+  ): Promise<Lease> {
+    const apartment = await this.repository.getApartment(input.apartmentId);
+    if (!apartment) {
+      throw new LeaseError('Apartment not found', 404);
+    }
+    if (apartment.ownerId === tenantId) {
+      throw new LeaseError('You cannot rent your own apartment', 400);
+    }
+    if (!apartment.isAvailable) {
+      throw new LeaseError('Apartment is not available', 409);
+    }
+
+    validateLeaseTerms(input, {
+      minMonths: apartment.leaseMinMonths,
+      maxMonths: apartment.leaseMaxMonths,
+      today: this.today(),
+    });
+    const quote = quoteLease({
+      monthlyRentHuf: apartment.monthlyRentHuf,
+      depositMonths: apartment.depositMonths ?? DEFAULT_DEPOSIT_MONTHS,
+      moveInDate: input.moveInDate,
+      termMonths: input.termMonths,
+    });
+
+    const taken = await this.repository.countOverlapping(apartment.id, quote.moveInDate, quote.moveOutDate, [
+      'signed',
+      'active',
+    ]);
+    if (taken > 0) {
+      throw new LeaseError('Apartment is already let for these dates', 409);
+    }
+
+    return this.repository.insert({
+      apartmentId: apartment.id,
+      tenantId,
+      ownerId: apartment.ownerId,
+      moveInDate: quote.moveInDate,
+      moveOutDate: quote.moveOutDate,
+      termMonths: quote.termMonths,
+      monthlyRentHuf: quote.monthlyRentHuf,
+      depositMonths: quote.depositMonths,
+      depositHuf: quote.depositHuf,
+      firstPaymentHuf: quote.firstPaymentHuf,
+      totalRentHuf: quote.totalRentHuf,
+      notes: input.notes?.trim() || null,
+    });
+  }
+
+  async getLease(userId: string, bookingId: string): Promise<{ lease: Lease; payments: LeasePayment[] }> {
+    const lease = await this.repository.findById(bookingId);
+    if (!lease || (lease.tenantId !== userId && lease.ownerId !== userId)) {
+      throw new LeaseError('Booking not found', 404);
+    }
+    return { lease, payments: await this.repository.listPayments(bookingId) };
+  }
+
+  /**
+   * Lease and schedule without an access check, for webhooks and admin tools
+   */
+  async getLeaseForSystem(bookingId: string): Promise<{ lease: Lease; payments: LeasePayment[] } | null> {
+    const lease = await this.repository.findById(bookingId);
+    return lease ? { lease, payments: await this.repository.listPayments(bookingId) } : null;
+  }
+
+  /**
+   * An action by the tenant or owner. Signing also returns the client secret
+   * for the first payment.
+   */
+  async act(
+    userId: string,
+    bookingId: string,
+    action: Exclude<LeaseAction, 'activate'>,
+    input: { reason?: string; terminationDate?: string } = {}
+  ): Promise<{ lease: Lease; clientSecret?: string }> {
+    const lease = await this.repository.findById(bookingId);
+    if (!lease || (lease.tenantId !== userId && lease.ownerId !== userId)) {
+      throw new LeaseError('Booking not found', 404);
+    }
+    const actor: LeaseActor = lease.ownerId === userId ? 'owner' : 'tenant';
+    const to = nextLeaseStatus(lease.status, action, actor);
+    const now = this.now();
+    const reason = input.reason?.trim() || null;
+
+    switch (action) {
+      case 'accept': {
+        const taken = await this.repository.countOverlapping(
+          lease.apartmentId,
+          lease.moveInDate,
+          lease.moveOutDate,
+          ['accepted', 'signed', 'active'],
+          lease.id
+        );
+        if (taken > 0) {
+          throw new LeaseError('Apartment is already let for these dates', 409);
+        }
+        const stripeAccountId = await this.repository.getOwnerStripeAccount(lease.ownerId);
+        if (!stripeAccountId) {
+          throw new LeaseError('Connect a Stripe account that can accept payments before accepting leases', 409);
+        }
+        return { lease: await this.move(lease, to, { acceptedAt: now, stripeAccountId }) };
+      }
+
+      case 'decline':
+        return { lease: await this.move(lease, to, { endReason: reason }) };
+
+      case 'sign': {
+        const payments = await this.repository.insertPayments(lease.id, quoteLease(lease).schedule);
+        const signed = await this.move(lease, to, { signedAt: now });
+        await this.schedule('lease.activate', { bookingId: lease.id }, startOfDay(lease.moveInDate), `lease-activate:${lease.id}`);
+        const clientSecret = await this.startFirstPayment(signed, payments);
+        return { lease: signed, clientSecret };
+      }
+
+      case 'cancel': {
+        if (lease.paymentStatus === 'paid') {
+          throw new LeaseError('A paid lease cannot be cancelled; contact support for a refund', 409);
+        }
+        // A signed lease has an open first-payment intent; close it so it cannot be paid any more
+        const first = (await this.repository.listPayments(lease.id)).find((p) => p.kind === 'first_payment');
+        if (first?.paymentIntentId && ['processing', 'failed'].includes(first.status)) {
+          if (!(await this.gateway.cancelPayment(first.paymentIntentId))) {
+            throw new LeaseError('The first payment has just gone through; reload the lease', 409);
+          }
+          await this.repository.updatePayment(first.id, { status: 'cancelled' });
+        }
+        const cancelled = await this.move(lease, to, { endedAt: now, endReason: reason ?? `Cancelled by ${actor}` });
+        await this.repository.cancelScheduledPayments(lease.id);
+        return { lease: cancelled };
+      }
+
+      case 'end': {
+        const ended = await this.move(lease, to, { endedAt: now, endReason: reason ?? `Ended early by ${actor}` });
+        await this.repository.cancelScheduledPayments(lease.id);
+        await this.escrow.leaseEnded(ended);
+        return { lease: ended };
+      }
+
+      case 'request_termination': {
+        if (lease.terminationRequestedAt) {
+          throw new LeaseError('Early termination has already been requested', 409);
+        }
+        const terminationDate = input.terminationDate ?? '';
+        const earliest = addDays(this.today(), TERMINATION_NOTICE_DAYS);
+        if (!isValidDate(terminationDate) || terminationDate < earliest) {
+          throw new LeaseError(`The last day must be a valid date on or after ${earliest}`, 400);
+        }
+        if (terminationDate >= lease.moveOutDate) {
+          throw new LeaseError('The last day must be before the end of the lease term', 400);
+        }
+        return {
+          lease: await this.move(lease, to, {
+            terminationRequestedAt: now,
+            terminationDate,
+            endReason: reason ?? 'Early termination requested by tenant',
+          }),
+        };
+      }
+
+      case 'accept_termination': {
+        if (!lease.terminationRequestedAt || !lease.terminationDate || lease.terminationAcceptedAt) {
+          throw new LeaseError('There is no open termination request', 409);
+        }
+        // Months starting after the last day are no longer charged; endAtTerm ends the lease after it
+        const accepted = await this.move(lease, to, { terminationAcceptedAt: now });
+        await this.repository.cancelScheduledPayments(lease.id, lease.terminationDate);
+        await this.schedule(
+          'lease.end',
+          { bookingId: lease.id },
+          startOfDay(addDays(lease.terminationDate, 1)),
+          `lease-end-early:${lease.id}`
+        );
+        return { lease: accepted };
+      }
+
+      case 'decline_termination': {
+        if (!lease.terminationRequestedAt || lease.terminationAcceptedAt) {
+          throw new LeaseError('There is no open termination request', 409);
+        }
+        return {
+          lease: await this.move(lease, to, { terminationRequestedAt: null, terminationDate: null, endReason: null }),
+        };
+      }
+    }
+  }
+
+  /**
+   * Client secret for a signed lease's unpaid first payment (returning to pay)
+   */
+  async firstPayment(userId: string, bookingId: string): Promise<{ lease: Lease; clientSecret: string }> {
+    const lease = await this.repository.findById(bookingId);
+    if (!lease || lease.tenantId !== userId) {
+      throw new LeaseError('Booking not found', 404);
+    }
+    if (lease.status !== 'signed' || lease.paymentStatus === 'paid') {
+      throw new LeaseError('Nothing to pay for this lease', 409);
+    }
+    return { lease, clientSecret: await this.startFirstPayment(lease, await this.repository.listPayments(lease.id)) };
+  }
+
+  /**
+   * Client secret for a rent payment the tenant's bank asked them to confirm
+   */
+  async confirmRentPayment(
+    userId: string,
+    bookingId: string,
+    paymentId: string
+  ): Promise<{ payment: LeasePayment; clientSecret: string; paymentMethodId: string | null }> {
+    const lease = await this.repository.findById(bookingId);
+    const payment = await this.repository.findPayment(paymentId);
+    if (!lease || lease.tenantId !== userId || payment?.bookingId !== lease.id) {
+      throw new LeaseError('Payment not found', 404);
+    }
+    if (payment.status !== 'requires_action' || !payment.paymentIntentId) {
+      throw new LeaseError('This payment does not need confirming', 409);
+    }
+    return {
+      payment,
+      clientSecret: await this.gateway.resumePayment(payment.paymentIntentId),
+      paymentMethodId: lease.stripePaymentMethodId,
+    };
+  }
+
+  private async move(lease: Lease, to: LeaseStatus, update: LeaseUpdate): Promise<Lease> {
+    const moved = await this.repository.transition(lease.id, [lease.status], to, update);
+    if (!moved) {
+      throw new LeaseError('Lease was changed by someone else; reload and try again', 409);
+    }
+    return moved;
+  }
+
+  private async startFirstPayment(lease: Lease, payments: LeasePayment[]): Promise<string> {
+    const payment = payments.find((p) => p.kind === 'first_payment');
+    if (!payment) {
+      throw new LeaseError('Lease has no payment schedule', 409);
+    }
+
+    const tenantEmail = await this.repository.getTenantEmail(lease.tenantId);
+    const result = await this.gateway.createFirstPayment(lease, payment, tenantEmail);
+    if (lease.stripeCustomerId !== result.customerId) {
+      await this.repository.update(lease.id, { stripeCustomerId: result.customerId });
+    }
+    await this.repository.updatePayment(payment.id, { status: 'processing', paymentIntentId: result.paymentIntentId });
+    return result.clientSecret;
+  }
+
+  /**
+   * payment_intent.succeeded for a lease payment; safe to receive twice
+   */
+  async recordPaymentSucceeded(paymentIntentId: string, paymentMethodId: string | null): Promise<LeasePayment | null> {
+    const payment = await this.repository.findPaymentByIntent(paymentIntentId);
+    if (!payment || payment.status === 'paid') return payment;
+
+    await this.repository.updatePayment(payment.id, { status: 'paid', paidAt: this.now(), lastError: null });
+    if (payment.kind === 'first_payment') {
+      await this.repository.update(payment.bookingId, {
+        paymentStatus: 'paid',
+        stripePaymentMethodId: paymentMethodId ?? undefined,
+      });
+      const lease = await this.repository.findById(payment.bookingId);
+      if (lease) {
+        await this.escrow.depositPaid(lease, payment);
+      }
+      // Paid on or after the move-in date: the activation job may already have run
+      await this.activate(payment.bookingId);
+    }
+    return { ...payment, status: 'paid' };
+  }
+
+  /**
+   * payment_intent.payment_failed or canceled; `code` is the Stripe decline code
+   */
+  async recordPaymentFailed(paymentIntentId: string, message: string, code?: string): Promise<void> {
+    const payment = await this.repository.findPaymentByIntent(paymentIntentId);
+    // A cancelled lease cancels its open intent, which reports back here
+    if (!payment || ['paid', 'cancelled', 'refunded'].includes(payment.status)) return;
+    if (code === 'authentication_required') {
+      // The off-session rent charge waits for the tenant, as chargeRent left it
+      await this.repository.updatePayment(payment.id, { status: 'requires_action', lastError: CONFIRM_PAYMENT_MESSAGE });
+      return;
+    }
+    await this.repository.updatePayment(payment.id, { status: 'failed', lastError: message });
+  }
+
+  /**
+   * After the first payment was refunded in Stripe: cancel the lease before move-in
+   */
+  async cancelRefunded(bookingId: string, paymentId: string): Promise<void> {
+    await this.repository.updatePayment(paymentId, { status: 'refunded' });
+    await this.repository.update(bookingId, { paymentStatus: 'refunded' });
+    await this.repository.transition(bookingId, ['signed'], 'cancelled', {
+      endedAt: this.now(),
+      endReason: 'Refunded before move-in',
+    });
+    await this.repository.cancelScheduledPayments(bookingId);
+    await this.escrow.depositRefunded(bookingId);
+  }
+
+  /**
+   * Start a signed lease on its move-in date once the first payment is in,
+   * and schedule the monthly rent and the end of the term
+   */
+  async activate(bookingId: string): Promise<Lease | null> {
+    const lease = await this.repository.findById(bookingId);
+    if (!lease || lease.status !== 'signed' || lease.paymentStatus !== 'paid' || lease.moveInDate > this.today()) {
+      return null;
+    }
+
+    const active = await this.repository.transition(lease.id, ['signed'], 'active', { activatedAt: this.now() });
+    if (!active) return null;
+
+    const payments = await this.repository.listPayments(lease.id);
+    for (const payment of payments.filter((p) => p.kind === 'rent' && p.status === 'scheduled')) {
+      await this.schedule(
+        'lease.charge_rent',
+        { bookingId: lease.id, paymentId: payment.id },
+        startOfDay(payment.dueDate),
+        `lease-rent:${payment.id}`
+      );
+    }
+    await this.schedule('lease.end', { bookingId: lease.id }, startOfDay(addDays(lease.moveOutDate, 1)), `lease-end:${lease.id}`);
+    return active;
+  }
+
+  /**
+   * Charge one month's rent. A decline marks the payment failed and rethrows
+   * so the job queue retries with backoff. When the bank wants the tenant to
+   * authenticate, the payment waits in requires_action for the tenant to
+   * confirm it (confirmRentPayment); retrying off-session would not help.
+   */
+  async chargeRent(paymentId: string): Promise<{ charged: boolean }> {
+    const payment = await this.repository.findPayment(paymentId);
+    if (!payment || !['scheduled', 'failed'].includes(payment.status)) {
+      return { charged: false };
+    }
+    const lease = await this.repository.findById(payment.bookingId);
+    if (!lease || lease.status !== 'active') {
+      return { charged: false };
+    }
+    if (!lease.stripeCustomerId || !lease.stripePaymentMethodId || !lease.stripeAccountId) {
+      throw new LeaseError('Lease has no saved payment method', 409);
+    }
+
+    const attempt = { ...payment, attempts: payment.attempts + 1 };
+    await this.repository.updatePayment(payment.id, { incrementAttempts: true });
+    let result: { paymentIntentId: string; status: string };
+    try {
+      result = await this.gateway.chargeRent(lease, attempt);
+    } catch (error) {
+      const heldIntentId = authenticationRequiredIntent(error);
+      if (heldIntentId) {
+        await this.repository.updatePayment(payment.id, {
+          status: 'requires_action',
+          paymentIntentId: heldIntentId,
+          lastError: CONFIRM_PAYMENT_MESSAGE,
+        });
+        return { charged: false };
+      }
+      await this.repository.updatePayment(payment.id, {
+        status: 'failed',
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    const succeeded = result.status === 'succeeded';
+    await this.repository.updatePayment(payment.id, {
+      status: succeeded ? 'paid' : 'processing',
+      paymentIntentId: result.paymentIntentId,
+      paidAt: succeeded ? this.now() : undefined,
+    });
+    return { charged: true };
+  }
+
+  /**
+   * End an active lease after its last day, or after the agreed early one
+   */
+  async endAtTerm(bookingId: string): Promise<Lease | null> {
+    const lease = await this.repository.findById(bookingId);
+    const terminated = Boolean(lease?.terminationAcceptedAt && lease.terminationDate);
+    const lastDay = terminated ? lease!.terminationDate! : lease?.moveOutDate;
+    if (!lease || lease.status !== 'active' || !lastDay || lastDay >= this.today()) {
+      return null;
+    }
+    const ended = await this.repository.transition(lease.id, ['active'], 'ended', {
+      endedAt: this.now(),
+      endReason: terminated ? lease.endReason ?? 'Ended early by agreement' : 'Term completed',
+    });
+    if (ended) {
+      await this.escrow.leaseEnded(ended);
+    }
+    return ended;
+  }
+}
+
+export const leaseService = new LeaseService();
@@ -0,0 +1,1003 @@
+// Ledger - double-entry record of every money movement
+// Stripe webhooks post one balanced journal entry per movement on the
+// platform balance (charge, transfer to the owner, application fee, refund,
+// transfer reversal, deposit payout) and per payout from an owner's Connect
+// account to their bank. Entries are keyed by the Stripe object id, so a
+// redelivered webhook posts nothing twice, and reconciliation can match each
+// Stripe balance transaction to the entry with the same source.
+//
+// Accounts: platform_cash (platform Stripe balance), processing_fees,
+// platform_commission, deposits_held (escrow), adjustments, and per owner:
+// owner_revenue (rent and deposit deductions earned), owner_fees
+// (commission), owner_balance (funds on the Connect account) and
+// owner_payouts (paid out to the bank).
+
+import { randomUUID } from 'crypto';
+import type Stripe from 'stripe';
+import { getPool, runQuery } from '@/lib/db/pool';
+import { PdfDocument } from '@/lib/pdf';
+import { fromStripeAmount, getStripe } from '@/lib/stripe/server';
+
+export type LedgerAccount =
+  | 'platform_cash'
+  | 'processing_fees'
+  | 'platform_commission'
+  | 'deposits_held'
+  | 'adjustments'
+  | 'owner_revenue'
+  | 'owner_fees'
+  | 'owner_balance'
+  | 'owner_payouts';
+
+export type LedgerTransactionType =
+  | 'charge'
+  | 'transfer'
+  | 'application_fee'
+  | 'refund'
+  | 'transfer_reversal'
+  | 'deposit_release'
+  | 'payout'
+  | 'payout_failed'
+  | 'adjustment';
+
+export const OWNER_ACCOUNTS: LedgerAccount[] = ['owner_revenue', 'owner_fees', 'owner_balance', 'owner_payouts'];
+
+export interface LedgerLine {
+  account: LedgerAccount;
+  /** Set exactly for the owner accounts */
+  ownerId: string | null;
+  debitHuf: number;
+  creditHuf: number;
+}
+
+export interface NewLedgerTransaction {
+  transactionType: LedgerTransactionType;
+  source: string;
+  bookingId: string | null;
+  ownerId: string | null;
+  description: string;
+  occurredAt: Date;
+  createdBy?: string | null;
+}
+
+export interface LedgerTransaction extends NewLedgerTransaction {
+  id: string;
+  lines: LedgerLine[];
+}
+
+/** A lease payment as the ledger needs it */
+export interface LedgerPayment {
+  bookingId: string;
+  ownerId: string;
+  kind: 'first_payment' | 'rent';
+  periodStart: string;
+  periodEnd: string;
+  amountHuf: number;
+  rentHuf: number;
+  depositHuf: number;
+  platformFeeHuf: number;
+}
+
+export interface ChargeFacts {
+  chargeId: string;
+  amountHuf: number;
+  stripeFeeHuf: number;
+  transferId: string | null;
+  transferHuf: number;
+  applicationFeeId: string | null;
+  applicationFeeHuf: number;
+  created: Date;
+}
+
+export interface RefundFacts {
+  refundId: string;
+  paymentIntentId: string | null;
+  amountHuf: number;
+  /** metadata.kind set when the refund was created, e.g. deposit_refund */
+  kind: string | null;
+  created: Date;
+}
+
+export interface ReversalFacts {
+  reversalId: string;
+  amountHuf: number;
+  created: Date;
+}
+
+export interface BalanceTransactionFacts {
+  id: string;
+  type: string;
+  source: string | null;
+  netHuf: number;
+  created: Date;
+}
+
+/** One owner-account line with its transaction, for statements and analytics */
+export interface OwnerLedgerLine {
+  transactionId: string;
+  transactionType: LedgerTransactionType;
+  description: string;
+  occurredAt: Date;
+  bookingId: string | null;
+  apartmentId: string | null;
+  apartmentTitle: string | null;
+  account: LedgerAccount;
+  debitHuf: number;
+  creditHuf: number;
+}
+
+/** Net platform_cash movement of one ledger transaction */
+export interface PlatformCashMovement {
+  source: string;
+  transactionType: LedgerTransactionType;
+  netHuf: number;
+  occurredAt: Date;
+}
+
+/**
+ * Ledger failure with the HTTP status the API should answer with
+ */
+export class LedgerError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 404 | 503
+  ) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+const debit = (account: LedgerAccount, amountHuf: number, ownerId: string | null = null): LedgerLine => ({
+  account,
+  ownerId,
+  debitHuf: amountHuf,
+  creditHuf: 0,
+});
+
+const credit = (account: LedgerAccount, amountHuf: number, ownerId: string | null = null): LedgerLine => ({
+  account,
+  ownerId,
+  debitHuf: 0,
+  creditHuf: amountHuf,
+});
+
+/**
+ * Drop zero lines and turn negative amounts into the opposite side
+ */
+function normalizeLines(lines: LedgerLine[]): LedgerLine[] {
+  return lines
+    .map((line) => {
+      const net = line.debitHuf - line.creditHuf;
+      return { ...line, debitHuf: Math.max(net, 0), creditHuf: Math.max(-net, 0) };
+    })
+    .filter((line) => line.debitHuf > 0 || line.creditHuf > 0);
+}
+
+/**
+ * Throws unless the lines are a valid journal entry: debits equal credits
+ * and owner accounts, and only they, name an owner
+ */
+export function assertBalanced(lines: LedgerLine[]): void {
+  if (lines.length < 2) {
+    throw new LedgerError('A ledger transaction needs at least two lines', 400);
+  }
+  for (const line of lines) {
+    if (!Number.isInteger(line.debitHuf) || !Number.isInteger(line.creditHuf)) {
+      throw new LedgerError('Ledger amounts are whole forints', 400);
+    }
+    if (OWNER_ACCOUNTS.includes(line.account) !== (line.ownerId !== null)) {
+      throw new LedgerError(`Account ${line.account} ${line.ownerId ? 'is not' : 'is'} an owner account`, 400);
+    }
+  }
+  const difference = lines.reduce((sum, line) => sum + line.debitHuf - line.creditHuf, 0);
+  if (difference !== 0) {
+    throw new LedgerError(`Debits and credits differ by ${difference} HUF`, 400);
+  }
+}
+
+/**
+ * A lease payment: the tenant's money arrives on the platform balance less
+ * Stripe's fee; the rent is the owner's revenue less commission and the
+ * deposit is held in escrow
+ */
+export function chargeLines(payment: LedgerPayment, amountHuf: number, stripeFeeHuf: number): LedgerLine[] {
+  // Anything Stripe charged beyond rent and deposit (should not happen) stays visible
+  const unexplainedHuf = amountHuf - payment.rentHuf - payment.depositHuf;
+  return normalizeLines([
+    debit('platform_cash', amountHuf),
+    credit('owner_revenue', payment.rentHuf, payment.ownerId),
+    credit('deposits_held', payment.depositHuf),
+    credit('adjustments', unexplainedHuf),
+    debit('owner_fees', payment.platformFeeHuf, payment.ownerId),
+    credit('platform_commission', payment.platformFeeHuf),
+    debit('processing_fees', stripeFeeHuf),
+    credit('platform_cash', stripeFeeHuf),
+  ]);
+}
+
+/** Destination-charge transfer from the platform to the owner's Connect account */
+export function transferLines(ownerId: string, amountHuf: number): LedgerLine[] {
+  return [debit('owner_balance', amountHuf, ownerId), credit('platform_cash', amountHuf)];
+}
+
+/** Commission taken back from the owner's Connect account on a rent charge */
+export function applicationFeeLines(ownerId: string, amountHuf: number): LedgerLine[] {
+  return [debit('platform_cash', amountHuf), credit('owner_balance', amountHuf, ownerId)];
+}
+
+/**
+ * Refund to the tenant. Deposit refunds come out of escrow; a refunded lease
+ * payment reverses the rent first, then the deposit, and the commission in
+ * proportion to the rent reversed.
+ */
+export function refundLines(payment: LedgerPayment | null, refund: Pick<RefundFacts, 'amountHuf' | 'kind'>): LedgerLine[] {
+  if (refund.kind === 'deposit_refund') {
+    return [debit('deposits_held', refund.amountHuf), credit('platform_cash', refund.amountHuf)];
+  }
+  if (!payment) {
+    return [debit('adjustments', refund.amountHuf), credit('platform_cash', refund.amountHuf)];
+  }
+
+  const rentHuf = Math.min(refund.amountHuf, payment.rentHuf);
+  const depositHuf = Math.min(refund.amountHuf - rentHuf, payment.depositHuf);
+  const commissionHuf = payment.rentHuf > 0 ? Math.round((payment.platformFeeHuf * rentHuf) / payment.rentHuf) : 0;
+  return normalizeLines([
+    debit('owner_revenue', rentHuf, payment.ownerId),
+    debit('deposits_held', depositHuf),
+    debit('adjustments', refund.amountHuf - rentHuf - depositHuf),
+    credit('platform_cash', refund.amountHuf),
+    debit('platform_commission', commissionHuf),
+    credit('owner_fees', commissionHuf, payment.ownerId),
+  ]);
+}
+
+/** The owner's share coming back to the platform when a refund reverses the transfer */
+export function transferReversalLines(ownerId: string, amountHuf: number): LedgerLine[] {
+  return [debit('platform_cash', amountHuf), credit('owner_balance', amountHuf, ownerId)];
+}
+
+/** Deposit deductions paid from escrow to the owner's Connect account */
+export function depositReleaseLines(ownerId: string, amountHuf: number): LedgerLine[] {
+  return [
+    debit('deposits_held', amountHuf),
+    credit('owner_revenue', amountHuf, ownerId),
+    debit('owner_balance', amountHuf, ownerId),
+    credit('platform_cash', amountHuf),
+  ];
+}
+
+/** Connect account balance paid out to the owner's bank; a failed payout comes back */
+export function payoutLines(ownerId: string, amountHuf: number, failed = false): LedgerLine[] {
+  const lines = [debit('owner_payouts', amountHuf, ownerId), credit('owner_balance', amountHuf, ownerId)];
+  return failed ? lines.map((line) => ({ ...line, debitHuf: line.creditHuf, creditHuf: line.debitHuf })) : lines;
+}
+
+export interface LedgerRepository {
+  findPaymentByIntent(paymentIntentId: string): Promise<LedgerPayment | null>;
+  findBookingOwner(bookingId: string): Promise<string | null>;
+  findOwnerByStripeAccount(stripeAccountId: string): Promise<string | null>;
+  /** Null when a transaction of this type and source is already posted */
+  post(transaction: NewLedgerTransaction, lines: LedgerLine[]): Promise<LedgerTransaction | null>;
+  ownerLines(ownerId: string, from: Date, to: Date): Promise<OwnerLedgerLine[]>;
+  /** Debits minus credits on an owner account before `before` */
+  ownerBalance(ownerId: string, account: LedgerAccount, before: Date): Promise<number>;
+  platformCashMovements(from: Date, to: Date): Promise<PlatformCashMovement[]>;
+}
+
+export interface LedgerStripeGateway {
+  charge(paymentIntentId: string): Promise<ChargeFacts | null>;
+  /** Succeeded refunds of a charge */
+  refunds(chargeId: string): Promise<RefundFacts[]>;
+  transferReversals(transferId: string): Promise<ReversalFacts[]>;
+  /** Platform balance transactions created in [from, to) */
+  balanceTransactions(from: Date, to: Date): Promise<BalanceTransactionFacts[]>;
+}
+
+const fromUnix = (seconds: number) => new Date(seconds * 1000);
+const idOf = (value: string | { id: string } | null | undefined) => (typeof value === 'string' ? value : value?.id ?? null);
+
+function mapPayment(row: any): LedgerPayment {
+  return {
+    bookingId: row.booking_id,
+    ownerId: row.owner_id,
+    kind: row.kind,
+    periodStart: String(row.period_start).slice(0, 10),
+    periodEnd: String(row.period_end).slice(0, 10),
+    amountHuf: Number(row.amount_huf),
+    rentHuf: Number(row.rent_huf),
+    depositHuf: Number(row.deposit_huf),
+    platformFeeHuf: Number(row.platform_fee_huf),
+  };
+}
+
+export class PostgresLedgerRepository implements LedgerRepository {
+  async findPaymentByIntent(paymentIntentId: string): Promise<LedgerPayment | null> {
+    const { rows } = await runQuery(
+      `SELECT p.*, b.owner_id
+       FROM public.lease_payments p
+       JOIN public.bookings b ON b.id = p.booking_id
+       WHERE p.payment_intent_id = $1`,
+      [paymentIntentId]
+    );
+    return rows[0] ? mapPayment(rows[0]) : null;
+  }
+
+  async findBookingOwner(bookingId: string): Promise<string | null> {
+    const { rows } = await runQuery('SELECT owner_id FROM public.bookings WHERE id = $1', [bookingId]);
+    return rows[0]?.owner_id ?? null;
+  }
+
+  async findOwnerByStripeAccount(stripeAccountId: string): Promise<string | null> {
+    const { rows } = await runQuery(
+      'SELECT user_id FROM public.stripe_connect_accounts WHERE stripe_account_id = $1',
+      [stripeAccountId]
+    );
+    return rows[0]?.user_id ?? null;
+  }
+
+  async post(transaction: NewLedgerTransaction, lines: LedgerLine[]): Promise<LedgerTransaction | null> {
+    const pool = await getPool();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const { rows } = await client.query(
+        `INSERT INTO public.ledger_transactions
+           (transaction_type, source, booking_id, owner_id, description, occurred_at, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (transaction_type, source) DO NOTHING
+         RETURNING id`,
+        [
+          transaction.transactionType,
+          transaction.source,
+          transaction.bookingId,
+          transaction.ownerId,
+          transaction.description,
+          transaction.occurredAt,
+          transaction.createdBy ?? null,
+        ]
+      );
+      if (!rows[0]) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+      for (const line of lines) {
+        await client.query(
+          `INSERT INTO public.ledger_lines (transaction_id, account, owner_id, debit_huf, credit_huf)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [rows[0].id, line.account, line.ownerId, line.debitHuf, line.creditHuf]
+        );
+      }
+      await client.query('COMMIT');
+      return { ...transaction, id: rows[0].id, lines };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async ownerLines(ownerId: string, from: Date, to: Date): Promise<OwnerLedgerLine[]> {
+    const { rows } = await runQuery(
+      `SELECT t.id AS transaction_id, t.transaction_type, t.description, t.occurred_at, t.booking_id,
+              b.apartment_id, a.title AS apartment_title, l.account, l.debit_huf, l.credit_huf
+       FROM public.ledger_lines l
+       JOIN public.ledger_transactions t ON t.id = l.transaction_id
+       LEFT JOIN public.bookings b ON b.id = t.booking_id
+       LEFT JOIN public.apartments a ON a.id = b.apartment_id
+       WHERE l.owner_id = $1 AND t.occurred_at >= $2 AND t.occurred_at < $3
+       ORDER BY t.occurred_at, t.id`,
+      [ownerId, from, to]
+    );
+    return rows.map((row: any) => ({
+      transactionId: row.transaction_id,
+      transactionType: row.transaction_type,
+      description: row.description,
+      occurredAt: new Date(row.occurred_at),
+      bookingId: row.booking_id ?? null,
+      apartmentId: row.apartment_id ?? null,
+      apartmentTitle: row.apartment_title ?? null,
+      account: row.account,
+      debitHuf: Number(row.debit_huf),
+      creditHuf: Number(row.credit_huf),
+    }));
+  }
+
+  async ownerBalance(ownerId: string, account: LedgerAccount, before: Date): Promise<number> {
+    const { rows } = await runQuery(
+      `SELECT COALESCE(SUM(l.debit_huf - l.credit_huf), 0) AS balance
+       FROM public.ledger_lines l
+       JOIN public.ledger_transactions t ON t.id = l.transaction_id
+       WHERE l.owner_id = $1 AND l.account = $2 AND t.occurred_at < $3`,
+      [ownerId, account, before]
+    );
+    return Number(rows[0]?.balance ?? 0);
+  }
+
+  async platformCashMovements(from: Date, to: Date): Promise<PlatformCashMovement[]> {
+    const { rows } = await runQuery(
+      `SELECT t.source, t.transaction_type, t.occurred_at, SUM(l.debit_huf - l.credit_huf) AS net_huf
+       FROM public.ledger_transactions t
+       JOIN public.ledger_lines l ON l.transaction_id = t.id AND l.account = 'platform_cash'
+       WHERE t.occurred_at >= $1 AND t.occurred_at < $2
+       GROUP BY t.id
+       ORDER BY t.occurred_at`,
+      [from, to]
+    );
+    return rows.map((row: any) => ({
+      source: row.source,
+      transactionType: row.transaction_type,
+      netHuf: Number(row.net_huf),
+      occurredAt: new Date(row.occurred_at),
+    }));
+  }
+}
+
+function requireStripe(): Stripe {
+  const stripe = getStripe();
+  if (!stripe) {
+    throw new LedgerError('Payments are not configured', 503);
+  }
+  return stripe;
+}
+
+export class StripeLedgerGateway implements LedgerStripeGateway {
+  async charge(paymentIntentId: string): Promise<ChargeFacts | null> {
+    const stripe = requireStripe();
+    const intent = await stripe.paymentIntents.retrieve(paymentIntentId);
+    const chargeId = idOf(intent.latest_charge);
+    if (!chargeId) return null;
+
+    const charge = await stripe.charges.retrieve(chargeId, { expand: ['balance_transaction', 'transfer'] });
+    const balanceTransaction = charge.balance_transaction as Stripe.BalanceTransaction | null;
+    const transfer = charge.transfer as Stripe.Transfer | null;
+    return {
+      chargeId: charge.id,
+      amountHuf: fromStripeAmount(charge.amount),
+      stripeFeeHuf: fromStripeAmount(balanceTransaction?.fee ?? 0),
+      transferId: transfer?.id ?? null,
+      transferHuf: fromStripeAmount(transfer?.amount ?? 0),
+      applicationFeeId: idOf(charge.application_fee),
+      applicationFeeHuf: fromStripeAmount(charge.application_fee_amount ?? 0),
+      created: fromUnix(charge.created),
+    };
+  }
+
+  async refunds(chargeId: string): Promise<RefundFacts[]> {
+    const refunds = await requireStripe().refunds.list({ charge: chargeId, limit: 100 });
+    return refunds.data
+      .filter((refund) => refund.status === 'succeeded')
+      .map((refund) => ({
+        refundId: refund.id,
+        paymentIntentId: idOf(refund.payment_intent),
+        amountHuf: fromStripeAmount(refund.amount),
+        kind: refund.metadata?.kind ?? null,
+        created: fromUnix(refund.created),
+      }));
+  }
+
+  async transferReversals(transferId: string): Promise<ReversalFacts[]> {
+    const reversals = await requireStripe().transfers.listReversals(transferId, { limit: 100 });
+    return reversals.data.map((reversal) => ({
+      reversalId: reversal.id,
+      amountHuf: fromStripeAmount(reversal.amount),
+      created: fromUnix(reversal.created),
+    }));
+  }
+
+  async balanceTransactions(from: Date, to: Date): Promise<BalanceTransactionFacts[]> {
+    const result: BalanceTransactionFacts[] = [];
+    const list = requireStripe().balanceTransactions.list({
+      created: { gte: Math.floor(from.getTime() / 1000), lt: Math.floor(to.getTime() / 1000) },
+      limit: 100,
+    });
+    for await (const transaction of list) {
+      result.push({
+        id: transaction.id,
+        type: transaction.type,
+        source: idOf(transaction.source as string | { id: string } | null),
+        netHuf: fromStripeAmount(transaction.net),
+        created: fromUnix(transaction.created),
+      });
+    }
+    return result;
+  }
+}
+
+export interface OwnerStatementRow {
+  date: Date;
+  transactionType: LedgerTransactionType;
+  description: string;
+  apartmentTitle: string | null;
+  /** Change in what the owner earned: revenue less commission */
+  earningsHuf: number;
+  /** Change in the funds on the owner's Connect account */
+  balanceChangeHuf: number;
+  paidOutHuf: number;
+}
+
+export interface OwnerStatementSummary {
+  rentHuf: number;
+  depositDeductionsHuf: number;
+  refundsHuf: number;
+  commissionHuf: number;
+  adjustmentsHuf: number;
+  netEarningsHuf: number;
+  paidOutHuf: number;
+  chargeCount: number;
+}
+
+export interface OwnerStatement extends OwnerStatementSummary {
+  ownerId: string;
+  month: string;
+  from: Date;
+  to: Date;
+  openingBalanceHuf: number;
+  closingBalanceHuf: number;
+  rows: OwnerStatementRow[];
+  byApartment: Array<{ apartmentId: string | null; apartmentTitle: string | null; netEarningsHuf: number }>;
+}
+
+const creditNet = (line: OwnerLedgerLine) => line.creditHuf - line.debitHuf;
+const debitNet = (line: OwnerLedgerLine) => line.debitHuf - line.creditHuf;
+
+/**
+ * What an owner earned, paid in commission and was paid out, from their
+ * ledger lines in a period
+ */
+export function summarizeOwnerLines(lines: OwnerLedgerLine[]): OwnerStatementSummary {
+  const summary: OwnerStatementSummary = {
+    rentHuf: 0,
+    depositDeductionsHuf: 0,
+    refundsHuf: 0,
+    commissionHuf: 0,
+    adjustmentsHuf: 0,
+    netEarningsHuf: 0,
+    paidOutHuf: 0,
+    chargeCount: new Set(lines.filter((line) => line.transactionType === 'charge').map((line) => line.transactionId)).size,
+  };
+
+  for (const line of lines) {
+    if (line.account === 'owner_revenue') {
+      const amount = creditNet(line);
+      if (line.transactionType === 'charge') summary.rentHuf += amount;
+      else if (line.transactionType === 'deposit_release') summary.depositDeductionsHuf += amount;
+      else if (line.transactionType === 'refund') summary.refundsHuf -= amount;
+      else summary.adjustmentsHuf += amount;
+      summary.netEarningsHuf += amount;
+    } else if (line.account === 'owner_fees') {
+      summary.commissionHuf += debitNet(line);
+      summary.netEarningsHuf -= debitNet(line);
+    } else if (line.account === 'owner_payouts') {
+      summary.paidOutHuf += debitNet(line);
+    }
+  }
+  return summary;
+}
+
+export function buildOwnerStatement(
+  ownerId: string,
+  month: string,
+  lines: OwnerLedgerLine[],
+  openingBalanceHuf: number
+): OwnerStatement {
+  const { from, to } = monthRange(month);
+  const rows = new Map<string, OwnerStatementRow>();
+  const apartments = new Map<string, OwnerStatement['byApartment'][number]>();
+
+  for (const line of lines) {
+    const row =
+      rows.get(line.transactionId) ??
+      rows
+        .set(line.transactionId, {
+          date: line.occurredAt,
+          transactionType: line.transactionType,
+          description: line.description,
+          apartmentTitle: line.apartmentTitle,
+          earningsHuf: 0,
+          balanceChangeHuf: 0,
+          paidOutHuf: 0,
+        })
+        .get(line.transactionId)!;
+
+    const earnings = line.account === 'owner_revenue' ? creditNet(line) : line.account === 'owner_fees' ? -debitNet(line) : 0;
+    row.earningsHuf += earnings;
+    if (line.account === 'owner_balance') row.balanceChangeHuf += debitNet(line);
+    if (line.account === 'owner_payouts') row.paidOutHuf += debitNet(line);
+
+    if (earnings !== 0) {
+      const key = line.apartmentId ?? '';
+      const apartment = apartments.get(key) ?? { apartmentId: line.apartmentId, apartmentTitle: line.apartmentTitle, netEarningsHuf: 0 };
+      apartment.netEarningsHuf += earnings;
+      apartments.set(key, apartment);
+    }
+  }
+
+  const statementRows = [...rows.values()];
+  return {
+    ownerId,
+    month,
+    from,
+    to,
+    ...summarizeOwnerLines(lines),
+    openingBalanceHuf,
+    closingBalanceHuf: openingBalanceHuf + statementRows.reduce((sum, row) => sum + row.balanceChangeHuf, 0),
+    rows: statementRows,
+    byApartment: [...apartments.values()].sort((a, b) => b.netEarningsHuf - a.netEarningsHuf),
+  };
+}
+
+/**
+ * Calendar month in UTC, e.g. 2027-03
+ */
+export function monthRange(month: string): { from: Date; to: Date } {
+  const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(month);
+  if (!match) {
+    throw new LedgerError('Month must be YYYY-MM', 400);
+  }
+  const year = Number(match[1]);
+  const monthIndex = Number(match[2]) - 1;
+  return { from: new Date(Date.UTC(year, monthIndex, 1)), to: new Date(Date.UTC(year, monthIndex + 1, 1)) };
+}
+
+const TRANSACTION_LABELS: Record<LedgerTransactionType, string> = {
+  charge: 'Payment',
+  transfer: 'Transfer',
+  application_fee: 'Commission',
+  refund: 'Refund',
+  transfer_reversal: 'Transfer reversal',
+  deposit_release: 'Deposit deductions',
+  payout: 'Payout',
+  payout_failed: 'Failed payout',
+  adjustment: 'Adjustment',
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function statementCsv(statement: OwnerStatement): string {
+  const header = ['Date', 'Type', 'Description', 'Apartment', 'Earnings (HUF)', 'Balance change (HUF)', 'Paid out (HUF)'];
+  const rows = statement.rows.map((row) => [
+    row.date.toISOString().slice(0, 10),
+    TRANSACTION_LABELS[row.transactionType],
+    row.description,
+    row.apartmentTitle ?? '',
+    row.earningsHuf,
+    row.balanceChangeHuf,
+    row.paidOutHuf,
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+const formatHuf = (huf: number) => `${huf.toLocaleString('en-US')} HUF`;
+
+export function statementPdf(statement: OwnerStatement, ownerName: string | null): Buffer {
+  const title = `Owner statement ${statement.month}`;
+  const doc = new PdfDocument({ title, createdAt: statement.to });
+
+  doc.heading(title, 18);
+  if (ownerName) doc.text(ownerName, { size: 12, bold: true });
+  doc.text(
+    `${statement.from.toISOString().slice(0, 10)} to ${new Date(statement.to.getTime() - 1).toISOString().slice(0, 10)}`,
+    { gray: 0.4 }
+  );
+  doc.rule();
+
+  const summary: Array<[string, number]> = [
+    ['Rent received', statement.rentHuf],
+    ['Deposit deductions', statement.depositDeductionsHuf],
+    ['Refunds', -statement.refundsHuf],
+    ['Platform commission', -statement.commissionHuf],
+    ['Adjustments', statement.adjustmentsHuf],
+    ['Net earnings', statement.netEarningsHuf],
+    ['Opening balance', statement.openingBalanceHuf],
+    ['Paid out to bank', -statement.paidOutHuf],
+    ['Closing balance', statement.closingBalanceHuf],
+  ];
+  for (const [label, amount] of summary) {
+    const bold = label === 'Net earnings' || label === 'Closing balance';
+    doc.row([label, formatHuf(amount)], [0.6, 0.4], { bold, size: 10 });
+  }
+
+  doc.heading('Transactions', 12);
+  doc.row(['Date', 'Type', 'Description', 'Earnings', 'Balance'], [0.13, 0.17, 0.38, 0.16, 0.16], { bold: true });
+  for (const row of statement.rows) {
+    doc.row(
+      [
+        row.date.toISOString().slice(0, 10),
+        TRANSACTION_LABELS[row.transactionType],
+        row.apartmentTitle ? `${row.description} - ${row.apartmentTitle}` : row.description,
+        formatHuf(row.earningsHuf),
+        formatHuf(row.balanceChangeHuf - row.paidOutHuf),
+      ],
+      [0.13, 0.17, 0.38, 0.16, 0.16]
+    );
+  }
+  if (statement.rows.length === 0) {
+    doc.text('No money movements this month.');
+  }
+
+  doc.space(12);
+  doc.text('Balance is the money on your Stripe account that has not been paid out to your bank yet.', { size: 8, gray: 0.4 });
+  return doc.toBuffer();
+}
+
+export interface ReconciliationReport {
+  from: Date;
+  to: Date;
+  matched: number;
+  stripeNetHuf: number;
+  ledgerNetHuf: number;
+  mismatched: Array<{ source: string; type: string; stripeNetHuf: number; ledgerNetHuf: number }>;
+  missingInLedger: Array<{ balanceTransactionId: string; source: string | null; type: string; netHuf: number; created: Date }>;
+  missingInStripe: PlatformCashMovement[];
+}
+
+// The platform's own payouts to its bank are not owner money and are not posted
+const UNTRACKED_BALANCE_TYPES = new Set(['payout', 'payout_cancel', 'payout_failure']);
+
+/**
+ * Match Stripe balance transactions to ledger entries by source and compare
+ * their effect on the platform balance
+ */
+export function reconcile(
+  from: Date,
+  to: Date,
+  balanceTransactions: BalanceTransactionFacts[],
+  movements: PlatformCashMovement[]
+): ReconciliationReport {
+  const ledgerBySource = new Map<string, PlatformCashMovement[]>();
+  for (const movement of movements) {
+    ledgerBySource.set(movement.source, [...(ledgerBySource.get(movement.source) ?? []), movement]);
+  }
+
+  const report: ReconciliationReport = {
+    from,
+    to,
+    matched: 0,
+    stripeNetHuf: 0,
+    ledgerNetHuf: movements.reduce((sum, movement) => sum + movement.netHuf, 0),
+    mismatched: [],
+    missingInLedger: [],
+    missingInStripe: [],
+  };
+
+  const seen = new Set<string>();
+  for (const transaction of balanceTransactions) {
+    if (UNTRACKED_BALANCE_TYPES.has(transaction.type)) continue;
+    report.stripeNetHuf += transaction.netHuf;
+
+    const entries = transaction.source ? ledgerBySource.get(transaction.source) : undefined;
+    if (!entries) {
+      report.missingInLedger.push({
+        balanceTransactionId: transaction.id,
+        source: transaction.source,
+        type: transaction.type,
+        netHuf: transaction.netHuf,
+        created: transaction.created,
+      });
+      continue;
+    }
+    seen.add(transaction.source!);
+    const ledgerNetHuf = entries.reduce((sum, entry) => sum + entry.netHuf, 0);
+    if (ledgerNetHuf === transaction.netHuf) {
+      report.matched += 1;
+    } else {
+      report.mismatched.push({ source: transaction.source!, type: transaction.type, stripeNetHuf: transaction.netHuf, ledgerNetHuf });
+    }
+  }
+
+  report.missingInStripe = movements.filter((movement) => !seen.has(movement.source) && movement.netHuf !== 0);
+  return report;
+}
+
+export interface AdjustmentInput {
+  description: string;
+  bookingId?: string | null;
+  ownerId?: string | null;
+  occurredAt?: Date;
+  lines: LedgerLine[];
+}
+
+const PAYMENT_DESCRIPTIONS: Record<LedgerPayment['kind'], (payment: LedgerPayment) => string> = {
+  first_payment: (payment) => `First month's rent and deposit (${payment.periodStart})`,
+  rent: (payment) => `Rent ${payment.periodStart} - ${payment.periodEnd}`,
+};
+
+export class LedgerService {
+  constructor(
+    private repository: LedgerRepository = new PostgresLedgerRepository(),
+    private gateway: LedgerStripeGateway = new StripeLedgerGateway(),
+    private now: () => Date = () => new Date()
+  ) {}
+
+  private async post(transaction: NewLedgerTransaction, lines: LedgerLine[]): Promise<LedgerTransaction | null> {
+    assertBalanced(lines);
+    return this.repository.post(transaction, lines);
+  }
+
+  /**
+   * A lease payment succeeded: post the charge and the Stripe fee, the
+   * transfer of the owner's share and, for rent, the commission taken back
+   */
+  async recordLeaseCharge(paymentIntentId: string): Promise<void> {
+    const payment = await this.repository.findPaymentByIntent(paymentIntentId);
+    if (!payment) return;
+    const charge = await this.gateway.charge(paymentIntentId);
+    if (!charge) return;
+
+    const base = { bookingId: payment.bookingId, ownerId: payment.ownerId, occurredAt: charge.created };
+    const description = PAYMENT_DESCRIPTIONS[payment.kind](payment);
+    await this.post(
+      { ...base, transactionType: 'charge', source: charge.chargeId, description },
+      chargeLines(payment, charge.amountHuf, charge.stripeFeeHuf)
+    );
+    if (charge.transferId && charge.transferHuf > 0) {
+      await this.post(
+        { ...base, transactionType: 'transfer', source: charge.transferId, description: `${description}: owner's share` },
+        transferLines(payment.ownerId, charge.transferHuf)
+      );
+    }
+    if (charge.applicationFeeId && charge.applicationFeeHuf > 0) {
+      await this.post(
+        { ...base, transactionType: 'application_fee', source: charge.applicationFeeId, description: `${description}: commission` },
+        applicationFeeLines(payment.ownerId, charge.applicationFeeHuf)
+      );
+    }
+  }
+
+  /**
+   * A charge was (partly) refunded: post every refund and every reversal of
+   * the owner's transfer not posted yet
+   */
+  async recordRefunds(chargeId: string, transferId: string | null): Promise<void> {
+    for (const refund of await this.gateway.refunds(chargeId)) {
+      const payment = refund.paymentIntentId ? await this.repository.findPaymentByIntent(refund.paymentIntentId) : null;
+      await this.post(
+        {
+          transactionType: 'refund',
+          source: refund.refundId,
+          bookingId: payment?.bookingId ?? null,
+          ownerId: refund.kind === 'deposit_refund' ? null : payment?.ownerId ?? null,
+          description: refund.kind === 'deposit_refund' ? 'Deposit refunded to tenant' : 'Refund to tenant',
+          occurredAt: refund.created,
+        },
+        refundLines(payment, refund)
+      );
+
+      if (transferId && payment && refund.kind !== 'deposit_refund') {
+        for (const reversal of await this.gateway.transferReversals(transferId)) {
+          await this.post(
+            {
+              transactionType: 'transfer_reversal',
+              source: reversal.reversalId,
+              bookingId: payment.bookingId,
+              ownerId: payment.ownerId,
+              description: "Owner's share returned for a refund",
+              occurredAt: reversal.created,
+            },
+            transferReversalLines(payment.ownerId, reversal.amountHuf)
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * A transfer was created on the platform. Destination-charge transfers are
+   * posted with their charge; only deposit deductions are posted here.
+   */
+  async recordTransfer(transfer: {
+    transferId: string;
+    amountHuf: number;
+    bookingId: string | null;
+    kind: string | null;
+    created: Date;
+  }): Promise<void> {
+    if (transfer.kind !== 'deposit_deductions' || !transfer.bookingId) return;
+    const ownerId = await this.repository.findBookingOwner(transfer.bookingId);
+    if (!ownerId) return;
+
+    await this.post(
+      {
+        transactionType: 'deposit_release',
+        source: transfer.transferId,
+        bookingId: transfer.bookingId,
+        ownerId,
+        description: 'Deposit deductions paid to owner',
+        occurredAt: transfer.created,
+      },
+      depositReleaseLines(ownerId, transfer.amountHuf)
+    );
+  }
+
+  /**
+   * A payout from an owner's Connect account reached their bank, or failed
+   * after it was posted and came back
+   */
+  async recordPayout(payout: {
+    payoutId: string;
+    stripeAccountId: string;
+    amountHuf: number;
+    created: Date;
+    failed: boolean;
+  }): Promise<void> {
+    const ownerId = await this.repository.findOwnerByStripeAccount(payout.stripeAccountId);
+    if (!ownerId) return;
+
+    await this.post(
+      {
+        transactionType: payout.failed ? 'payout_failed' : 'payout',
+        source: payout.payoutId,
+        bookingId: null,
+        ownerId,
+        description: payout.failed ? 'Payout returned by the bank' : 'Payout to bank account',
+        occurredAt: payout.created,
+      },
+      payoutLines(ownerId, payout.amountHuf, payout.failed)
+    );
+  }
+
+  /**
+   * Manual correction by an admin, e.g. for a Stripe adjustment that
+   * reconciliation reported as missing
+   */
+  async postAdjustment(adminId: string, input: AdjustmentInput): Promise<LedgerTransaction> {
+    const lines = normalizeLines(input.lines);
+    const ownerIds = new Set(lines.map((line) => line.ownerId).filter(Boolean));
+    const posted = await this.post(
+      {
+        transactionType: 'adjustment',
+        source: `adjustment:${randomUUID()}`,
+        bookingId: input.bookingId ?? null,
+        ownerId: input.ownerId ?? (ownerIds.size === 1 ? [...ownerIds][0] : null),
+        description: input.description,
+        occurredAt: input.occurredAt ?? this.now(),
+        createdBy: adminId,
+      },
+      lines
+    );
+    return posted!;
+  }
+
+  async ownerStatement(ownerId: string, month: string): Promise<OwnerStatement> {
+    const { from, to } = monthRange(month);
+    const lines = await this.repository.ownerLines(ownerId, from, to);
+    const openingBalanceHuf = await this.repository.ownerBalance(ownerId, 'owner_balance', from);
+    return buildOwnerStatement(ownerId, month, lines, openingBalanceHuf);
+  }
+
+  /**
+   * Revenue analytics for a period: the statement summary plus net earnings
+   * per apartment
+   */
+  async ownerRevenue(
+    ownerId: string,
+    from: Date,
+    to: Date
+  ): Promise<OwnerStatementSummary & { byApartment: Map<string, number> }> {
+    const lines = await this.repository.ownerLines(ownerId, from, to);
+    const byApartment = new Map<string, number>();
+    for (const line of lines) {
+      if (!line.apartmentId) continue;
+      const earnings = line.account === 'owner_revenue' ? creditNet(line) : line.account === 'owner_fees' ? -debitNet(line) : 0;
+      byApartment.set(line.apartmentId, (byApartment.get(line.apartmentId) ?? 0) + earnings);
+    }
+    return { ...summarizeOwnerLines(lines), byApartment };
+  }
+
+  async reconcile(from: Date, to: Date): Promise<ReconciliationReport> {
+    if (from >= to) {
+      throw new LedgerError('The period must end after it starts', 400);
+    }
+    const [balanceTransactions, movements] = await Promise.all([
+      this.gateway.balanceTransactions(from, to),
+      this.repository.platformCashMovements(from, to),
+    ]);
+    return reconcile(from, to, balanceTransactions, movements);
+  }
+}
+
+export const ledgerService = new LedgerService();
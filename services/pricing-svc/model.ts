@@ -0,0 +1,832 @@
+// Rent Model - hedonic regression of monthly rent on listing features
+// log(rent) is fitted with weighted ridge least squares on our own listings
+// (size, district, bedrooms, floor, elevator, furnishing, heating, transit
+// commute, amenities). Earlier asking prices from pricing_history count as
+// extra observations with a weight that halves every 180 days. Each nightly
+// run validates on a holdout of apartments, publishes a model version unless
+// it predicts worse than the active one, and recomputes district quantiles.
+
+import { getPool, runQuery } from '@/lib/db/pool';
+import { logger } from '@/lib/logger';
+
+export const HEATING_TYPES = ['district', 'gas_central', 'gas_convector', 'electric', 'heat_pump'] as const;
+export type HeatingType = (typeof HEATING_TYPES)[number];
+
+export const DISTRICTS = Array.from({ length: 23 }, (_, i) => i + 1);
+
+export interface RentFeatures {
+  district: number; // 1-23
+  sizeSqm: number;
+  bedrooms: number;
+  floor: number | null;
+  hasElevator: boolean;
+  furnished: boolean;
+  heating: HeatingType | null;
+  commuteMinutes: number | null; // Fastest transit trip to a university
+  amenityCount: number;
+}
+
+/** What callers know about a flat; the rest comes from the model defaults */
+export type RentQuery = Partial<RentFeatures> & { district: number };
+
+export interface RentObservation {
+  apartmentId: string;
+  features: RentFeatures;
+  rentHuf: number;
+  observedAt: Date;
+  current: boolean; // The listing's rent now, not an earlier asking price
+}
+
+export interface PriceChange {
+  district: number;
+  oldPriceHuf: number;
+  newPriceHuf: number;
+}
+
+export interface ModelDefaults {
+  commuteMinutes: number;
+  typicalSizeSqm: Record<string, number>; // By bedrooms, '4' is 4+
+}
+
+export interface DistrictResidual {
+  n: number;
+  sigma: number;
+}
+
+export interface RentModel {
+  version: number;
+  status: 'active' | 'superseded' | 'rejected';
+  coefficients: Record<string, number>;
+  defaults: ModelDefaults;
+  residualSigma: number;
+  districtResiduals: Record<string, DistrictResidual>;
+  observations: number;
+  metrics: Record<string, unknown>;
+  createdAt: Date;
+  activatedAt: Date | null;
+}
+
+export type NewRentModel = Omit<RentModel, 'version' | 'status' | 'createdAt' | 'activatedAt'>;
+
+export interface HoldoutMetrics {
+  apartments: number;
+  mape: number; // Mean absolute percentage error
+  maeHuf: number;
+  r2: number; // On log rent
+}
+
+export interface DistrictQuantiles {
+  district: number;
+  listings: number;
+  p10Huf: number;
+  p25Huf: number;
+  p50Huf: number;
+  p75Huf: number;
+  p90Huf: number;
+  medianPricePerSqmHuf: number | null;
+  trend: 'up' | 'down' | 'stable';
+  trendPct: number;
+  computedAt: Date;
+}
+
+export interface RentEstimate {
+  estimateHuf: number;
+  lowHuf: number; // 80% prediction interval
+  highHuf: number;
+  pricePerSqmHuf: number;
+  confidence: number; // 0-1
+  modelVersion: number;
+  districtObservations: number;
+}
+
+export interface RentTrainingOptions {
+  windowDays?: number;
+  holdoutFraction?: number;
+  minTrainingApartments?: number;
+  minHoldoutApartments?: number;
+  maxMapeIncrease?: number; // Holdout MAPE the candidate may lose against the active model
+  dryRun?: boolean;
+}
+
+export interface RentTrainingReport {
+  status: 'published' | 'rejected' | 'insufficient_data';
+  version: number | null;
+  baselineVersion: number | null;
+  observations: number;
+  holdout: { candidate: HoldoutMetrics | null; baseline: HoldoutMetrics | null };
+  quantilesUpdated: number;
+  reason?: string;
+}
+
+const HALF_LIFE_DAYS = 180;
+const RIDGE_LAMBDA = 1;
+const Z_80 = 1.2816;
+// Observations at which a district's own residual spread outweighs the city-wide one
+const DISTRICT_SHRINKAGE = 10;
+const MIN_QUANTILE_LISTINGS = 3;
+const TREND_WINDOW_DAYS = 90;
+const TREND_THRESHOLD_PCT = 2;
+const MODEL_CACHE_TTL_MS = 10 * 60 * 1000;
+
+const DEFAULT_TRAINING_OPTIONS: Required<RentTrainingOptions> = {
+  windowDays: 730,
+  holdoutFraction: 0.2,
+  minTrainingApartments: 30,
+  minHoldoutApartments: 8,
+  maxMapeIncrease: 0.01,
+  dryRun: false,
+};
+
+const ROMAN = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X', 'XI', 'XII', 'XIII',
+  'XIV', 'XV', 'XVI', 'XVII', 'XVIII', 'XIX', 'XX', 'XXI', 'XXII', 'XXIII'];
+
+/**
+ * Budapest district number from the free-text column ("8", "VIII", "District V", "XI. kerület")
+ */
+export function districtNumber(value: unknown): number | null {
+  const label = String(value ?? '')
+    .toUpperCase()
+    .replace(/DISTRICT|KERÜLET|KER\./g, '')
+    .replace(/\./g, '')
+    .trim();
+  const roman = ROMAN.indexOf(label);
+  if (roman >= 0) return roman + 1;
+  const numeric = Number(label);
+  return Number.isInteger(numeric) && numeric >= 1 && numeric <= 23 ? numeric : null;
+}
+
+function bedroomBucket(bedrooms: number): string {
+  return String(Math.min(4, Math.max(0, Math.round(bedrooms))));
+}
+
+/**
+ * Named regressors of one flat; district and heating are one-hot, so an
+ * unseen district falls back to the city-wide level
+ */
+export function featureVector(features: RentFeatures, defaults: ModelDefaults): Record<string, number> {
+  const x: Record<string, number> = {
+    intercept: 1,
+    log_size: Math.log(Math.max(10, features.sizeSqm)),
+    bedrooms: Math.min(5, Math.max(0, features.bedrooms)),
+    ground_floor: features.floor === 0 ? 1 : 0,
+    upper_floor_no_elevator: (features.floor ?? 0) >= 3 && !features.hasElevator ? 1 : 0,
+    elevator: features.hasElevator ? 1 : 0,
+    furnished: features.furnished ? 1 : 0,
+    commute_10min: (features.commuteMinutes ?? defaults.commuteMinutes) / 10,
+    amenities: features.amenityCount,
+  };
+  for (const district of DISTRICTS) {
+    x[`district_${district}`] = features.district === district ? 1 : 0;
+  }
+  for (const heating of HEATING_TYPES) {
+    x[`heating_${heating}`] = features.heating === heating ? 1 : 0;
+  }
+  return x;
+}
+
+/** Fill what the caller did not know with the model's typical values */
+export function completeFeatures(query: RentQuery, defaults: ModelDefaults): RentFeatures {
+  const bedrooms = query.bedrooms ?? 1;
+  return {
+    district: query.district,
+    bedrooms,
+    sizeSqm: query.sizeSqm ?? defaults.typicalSizeSqm[bedroomBucket(bedrooms)] ?? 50,
+    floor: query.floor ?? null,
+    hasElevator: query.hasElevator ?? false,
+    furnished: query.furnished ?? true,
+    heating: query.heating ?? null,
+    commuteMinutes: query.commuteMinutes ?? null,
+    amenityCount: query.amenityCount ?? 0,
+  };
+}
+
+/**
+ * Weighted ridge regression. Regressors are standardised so one penalty fits
+ * all of them; the intercept is not penalised and constant columns (e.g. a
+ * district with no listings) get a zero coefficient. Coefficients are
+ * returned on the original scale.
+ */
+export function fitRidge(
+  rows: Array<{ x: Record<string, number>; y: number; weight: number }>,
+  lambda: number = RIDGE_LAMBDA,
+): Record<string, number> {
+  if (rows.length === 0) return {};
+  const names = Object.keys(rows[0].x).filter((name) => name !== 'intercept');
+  const totalWeight = rows.reduce((sum, row) => sum + row.weight, 0);
+
+  const means = names.map((name) => rows.reduce((sum, row) => sum + row.weight * row.x[name], 0) / totalWeight);
+  const scales = names.map((name, j) =>
+    Math.sqrt(rows.reduce((sum, row) => sum + row.weight * (row.x[name] - means[j]) ** 2, 0) / totalWeight),
+  );
+  const active = names.map((_, j) => j).filter((j) => scales[j] > 1e-9);
+  const meanY = rows.reduce((sum, row) => sum + row.weight * row.y, 0) / totalWeight;
+
+  // Centred normal equations: the intercept drops out and is recovered from the means
+  const size = active.length;
+  const a = active.map(() => new Array<number>(size).fill(0));
+  const b = new Array<number>(size).fill(0);
+  for (const row of rows) {
+    const z = active.map((j) => (row.x[names[j]] - means[j]) / scales[j]);
+    for (let i = 0; i < size; i++) {
+      if (z[i] === 0) continue;
+      b[i] += row.weight * z[i] * (row.y - meanY);
+      for (let k = 0; k < size; k++) a[i][k] += row.weight * z[i] * z[k];
+    }
+  }
+  for (let i = 0; i < size; i++) a[i][i] += lambda;
+
+  const gamma = solveLinearSystem(a, b);
+  const coefficients: Record<string, number> = { intercept: meanY };
+  names.forEach((name) => (coefficients[name] = 0));
+  active.forEach((j, i) => {
+    coefficients[names[j]] = gamma[i] / scales[j];
+    coefficients.intercept -= (gamma[i] * means[j]) / scales[j];
+  });
+
+  return Object.fromEntries(Object.entries(coefficients).map(([name, value]) => [name, Number(value.toFixed(6))]));
+}
+
+/** Gaussian elimination with partial pivoting; the ridge penalty keeps a positive definite */
+function solveLinearSystem(a: number[][], b: number[]): number[] {
+  const size = b.length;
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < size; row++) {
+      const factor = a[row][col] / a[col][col];
+      if (factor === 0) continue;
+      for (let k = col; k < size; k++) a[row][k] -= factor * a[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const x = new Array<number>(size).fill(0);
+  for (let row = size - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < size; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+function predictLog(coefficients: Record<string, number>, x: Record<string, number>): number {
+  return Object.entries(x).reduce((sum, [name, value]) => sum + (coefficients[name] ?? 0) * value, 0);
+}
+
+/** Linear interpolation between order statistics of an ascending list */
+export function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function median(values: number[]): number {
+  return quantile([...values].sort((a, b) => a - b), 0.5);
+}
+
+/** Weight of an observation by its age: halves every HALF_LIFE_DAYS */
+export function observationWeight(observedAt: Date, now: Date): number {
+  const ageDays = Math.max(0, (now.getTime() - observedAt.getTime()) / 86400000);
+  return Math.pow(0.5, ageDays / HALF_LIFE_DAYS);
+}
+
+export function modelDefaults(observations: RentObservation[]): ModelDefaults {
+  const current = observations.filter((o) => o.current);
+  const commutes = current.map((o) => o.features.commuteMinutes).filter((m): m is number => m !== null);
+  const sizesByBucket = new Map<string, number[]>();
+  for (const o of current) {
+    const bucket = bedroomBucket(o.features.bedrooms);
+    sizesByBucket.set(bucket, [...(sizesByBucket.get(bucket) ?? []), o.features.sizeSqm]);
+  }
+
+  return {
+    commuteMinutes: commutes.length > 0 ? Math.round(median(commutes)) : 30,
+    typicalSizeSqm: Object.fromEntries(
+      [...sizesByBucket].map(([bucket, sizes]) => [bucket, Math.round(median(sizes))]),
+    ),
+  };
+}
+
+/**
+ * Fit the regression and measure the residual spread (log scale) per district
+ */
+export function fitRentModel(observations: RentObservation[], now: Date): NewRentModel {
+  const defaults = modelDefaults(observations);
+  const coefficients = fitRidge(
+    observations.map((o) => ({
+      x: featureVector(o.features, defaults),
+      y: Math.log(o.rentHuf),
+      weight: observationWeight(o.observedAt, now),
+    })),
+  );
+
+  const residuals = new Map<number, number[]>();
+  for (const o of observations.filter((o) => o.current)) {
+    const residual = Math.log(o.rentHuf) - predictLog(coefficients, featureVector(o.features, defaults));
+    residuals.set(o.features.district, [...(residuals.get(o.features.district) ?? []), residual]);
+  }
+  const all = [...residuals.values()].flat();
+  const rms = (values: number[]) => Math.sqrt(values.reduce((sum, r) => sum + r * r, 0) / Math.max(1, values.length));
+
+  return {
+    coefficients,
+    defaults,
+    residualSigma: Number(rms(all).toFixed(5)),
+    districtResiduals: Object.fromEntries(
+      [...residuals].map(([district, values]) => [String(district), { n: values.length, sigma: Number(rms(values).toFixed(5)) }]),
+    ),
+    observations: observations.length,
+    metrics: {},
+  };
+}
+
+/**
+ * Point estimate with an 80% interval. The spread uses the district's own
+ * residuals shrunk towards the city-wide spread; confidence falls with a
+ * wider interval and with fewer listings seen in the district.
+ */
+export function estimateRent(
+  model: Pick<RentModel, 'version' | 'coefficients' | 'defaults' | 'residualSigma' | 'districtResiduals'>,
+  query: RentQuery,
+): RentEstimate {
+  const features = completeFeatures(query, model.defaults);
+  const logEstimate = predictLog(model.coefficients, featureVector(features, model.defaults));
+  const district = model.districtResiduals[String(features.district)] ?? { n: 0, sigma: model.residualSigma };
+  const sigma = Math.sqrt(
+    (district.n * district.sigma ** 2 + DISTRICT_SHRINKAGE * model.residualSigma ** 2) /
+      (district.n + DISTRICT_SHRINKAGE),
+  );
+
+  const estimateHuf = Math.exp(logEstimate);
+  const lowHuf = Math.exp(logEstimate - Z_80 * sigma);
+  const highHuf = Math.exp(logEstimate + Z_80 * sigma);
+  const precision = Math.max(0, 1 - (highHuf - lowHuf) / (2 * estimateHuf));
+  const coverage = (district.n + 1) / (district.n + 6);
+
+  return {
+    estimateHuf: Math.round(estimateHuf / 1000) * 1000,
+    lowHuf: Math.round(lowHuf / 1000) * 1000,
+    highHuf: Math.round(highHuf / 1000) * 1000,
+    pricePerSqmHuf: Math.round(estimateHuf / features.sizeSqm),
+    confidence: Number((precision * coverage).toFixed(2)),
+    modelVersion: model.version,
+    districtObservations: district.n,
+  };
+}
+
+/** Out-of-sample error on the current rents of held-out apartments */
+export function evaluateRentModel(
+  model: Pick<RentModel, 'coefficients' | 'defaults'>,
+  observations: RentObservation[],
+): HoldoutMetrics {
+  const current = observations.filter((o) => o.current);
+  if (current.length === 0) return { apartments: 0, mape: 0, maeHuf: 0, r2: 0 };
+
+  const logs = current.map((o) => Math.log(o.rentHuf));
+  const mean = logs.reduce((sum, y) => sum + y, 0) / logs.length;
+  let absPct = 0;
+  let absHuf = 0;
+  let ssRes = 0;
+  let ssTot = 0;
+  current.forEach((o, i) => {
+    const predicted = predictLog(model.coefficients, featureVector(o.features, model.defaults));
+    absPct += Math.abs(Math.exp(predicted) - o.rentHuf) / o.rentHuf;
+    absHuf += Math.abs(Math.exp(predicted) - o.rentHuf);
+    ssRes += (logs[i] - predicted) ** 2;
+    ssTot += (logs[i] - mean) ** 2;
+  });
+
+  return {
+    apartments: current.length,
+    mape: Number((absPct / current.length).toFixed(4)),
+    maeHuf: Math.round(absHuf / current.length),
+    r2: ssTot > 0 ? Number((1 - ssRes / ssTot).toFixed(4)) : 0,
+  };
+}
+
+function hashKey(key: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0) / 4294967296;
+}
+
+/**
+ * Deterministic split by apartment so a flat's earlier prices never leak into the holdout
+ */
+export function splitHoldout(observations: RentObservation[], holdoutFraction: number) {
+  const train: RentObservation[] = [];
+  const holdout: RentObservation[] = [];
+  for (const observation of observations) {
+    (hashKey(observation.apartmentId) < holdoutFraction ? holdout : train).push(observation);
+  }
+  return { train, holdout };
+}
+
+/**
+ * Asking-rent quantiles of current listings per district, with the median
+ * asking-price change of the last TREND_WINDOW_DAYS as the trend
+ */
+export function districtQuantiles(
+  observations: RentObservation[],
+  changes: PriceChange[],
+  now: Date,
+): DistrictQuantiles[] {
+  const result: DistrictQuantiles[] = [];
+
+  for (const district of DISTRICTS) {
+    const listings = observations.filter((o) => o.current && o.features.district === district);
+    if (listings.length < MIN_QUANTILE_LISTINGS) continue;
+
+    const rents = listings.map((o) => o.rentHuf).sort((a, b) => a - b);
+    const perSqm = listings.map((o) => o.rentHuf / o.features.sizeSqm);
+    const pctChanges = changes
+      .filter((change) => change.district === district && change.oldPriceHuf > 0)
+      .map((change) => ((change.newPriceHuf - change.oldPriceHuf) / change.oldPriceHuf) * 100);
+    const trendPct = pctChanges.length > 0 ? Number(median(pctChanges).toFixed(2)) : 0;
+
+    result.push({
+      district,
+      listings: listings.length,
+      p10Huf: Math.round(quantile(rents, 0.1)),
+      p25Huf: Math.round(quantile(rents, 0.25)),
+      p50Huf: Math.round(quantile(rents, 0.5)),
+      p75Huf: Math.round(quantile(rents, 0.75)),
+      p90Huf: Math.round(quantile(rents, 0.9)),
+      medianPricePerSqmHuf: Math.round(median(perSqm)),
+      trend: trendPct > TREND_THRESHOLD_PCT ? 'up' : trendPct < -TREND_THRESHOLD_PCT ? 'down' : 'stable',
+      trendPct,
+      computedAt: now,
+    });
+  }
+
+  return result;
+}
+
+export interface RentModelRepository {
+  loadObservations(since: Date): Promise<RentObservation[]>;
+  loadPriceChanges(since: Date): Promise<PriceChange[]>;
+  findApartment(apartmentId: string): Promise<{ features: RentFeatures; rentHuf: number } | null>;
+  activeModel(): Promise<RentModel | null>;
+  saveModel(model: NewRentModel, publish: boolean): Promise<number>;
+  saveQuantiles(quantiles: DistrictQuantiles[]): Promise<void>;
+  findQuantiles(district: number): Promise<DistrictQuantiles | null>;
+  listModels(limit: number): Promise<RentModel[]>;
+}
+
+// Listing features shared by the training query and single-apartment lookups
+const LISTING_SELECT = `
+  SELECT
+    a.id,
+    a.district,
+    a.monthly_rent_huf,
+    a.size_sqm,
+    a.bedrooms,
+    COALESCE(a.floor, a.floor_number) AS floor,
+    COALESCE(a.has_elevator, false) AS has_elevator,
+    COALESCE(a.furnished OR a.furnishing = 'furnished', false) AS furnished,
+    a.heating_type,
+    a.status::text AS status,
+    a.updated_at,
+    (SELECT count(*) FROM public.apartment_amenities am WHERE am.apartment_id = a.id) AS amenity_count,
+    (SELECT min(c.travel_minutes) FROM public.commute_cache c
+     WHERE c.apartment_id = a.id AND c.mode = 'transit') AS commute_minutes
+  FROM public.apartments a
+`;
+
+function mapFeatures(row: any): RentFeatures | null {
+  const district = districtNumber(row.district);
+  const sizeSqm = Number(row.size_sqm);
+  if (!district || !(sizeSqm > 0)) return null;
+  return {
+    district,
+    sizeSqm,
+    bedrooms: Number(row.bedrooms ?? 0),
+    floor: row.floor === null ? null : Number(row.floor),
+    hasElevator: Boolean(row.has_elevator),
+    furnished: Boolean(row.furnished),
+    heating: HEATING_TYPES.includes(row.heating_type) ? row.heating_type : null,
+    commuteMinutes: row.commute_minutes === null ? null : Number(row.commute_minutes),
+    amenityCount: Number(row.amenity_count ?? 0),
+  };
+}
+
+function mapModel(row: any): RentModel {
+  return {
+    version: row.version,
+    status: row.status,
+    coefficients: row.coefficients,
+    defaults: row.defaults,
+    residualSigma: Number(row.residual_sigma),
+    districtResiduals: row.district_residuals ?? {},
+    observations: row.observations,
+    metrics: row.metrics ?? {},
+    createdAt: new Date(row.created_at),
+    activatedAt: row.activated_at ? new Date(row.activated_at) : null,
+  };
+}
+
+function mapQuantiles(row: any): DistrictQuantiles {
+  return {
+    district: row.district,
+    listings: row.listings,
+    p10Huf: row.p10_huf,
+    p25Huf: row.p25_huf,
+    p50Huf: row.p50_huf,
+    p75Huf: row.p75_huf,
+    p90Huf: row.p90_huf,
+    medianPricePerSqmHuf: row.median_price_per_sqm_huf,
+    trend: row.trend,
+    trendPct: Number(row.trend_pct),
+    computedAt: new Date(row.computed_at),
+  };
+}
+
+export class PostgresRentModelRepository implements RentModelRepository {
+  /**
+   * Current rents of listed flats, last rents of archived ones and the
+   * asking prices each flat had before a price change
+   */
+  async loadObservations(since: Date): Promise<RentObservation[]> {
+    const { rows } = await runQuery(
+      `
+        WITH listing AS (${LISTING_SELECT}
+          WHERE a.status IN ('published', 'snoozed', 'archived') AND a.monthly_rent_huf > 0
+        )
+        SELECT l.*, l.monthly_rent_huf AS rent_huf,
+          CASE WHEN l.status = 'archived' THEN l.updated_at ELSE now() END AS observed_at,
+          l.status <> 'archived' AS current
+        FROM listing l
+        WHERE l.status <> 'archived' OR l.updated_at >= $1
+        UNION ALL
+        SELECT l.*, h.old_price AS rent_huf, h.created_at AS observed_at, false AS current
+        FROM listing l
+        JOIN public.pricing_history h ON h.apartment_id = l.id
+        WHERE h.old_price > 0 AND h.created_at >= $1
+      `,
+      [since],
+    );
+
+    const observations: RentObservation[] = [];
+    for (const row of rows) {
+      const features = mapFeatures(row);
+      if (!features) continue;
+      observations.push({
+        apartmentId: row.id,
+        features,
+        rentHuf: Number(row.rent_huf),
+        observedAt: new Date(row.observed_at),
+        current: row.current,
+      });
+    }
+    return observations;
+  }
+
+  async loadPriceChanges(since: Date): Promise<PriceChange[]> {
+    const { rows } = await runQuery(
+      `
+        SELECT a.district, h.old_price, h.new_price
+        FROM public.pricing_history h
+        JOIN public.apartments a ON a.id = h.apartment_id
+        WHERE h.created_at >= $1 AND h.old_price > 0
+      `,
+      [since],
+    );
+    return rows.flatMap((row: any) => {
+      const district = districtNumber(row.district);
+      return district ? [{ district, oldPriceHuf: Number(row.old_price), newPriceHuf: Number(row.new_price) }] : [];
+    });
+  }
+
+  async findApartment(apartmentId: string) {
+    const { rows } = await runQuery(`${LISTING_SELECT} WHERE a.id = $1`, [apartmentId]);
+    const features = rows[0] ? mapFeatures(rows[0]) : null;
+    return features ? { features, rentHuf: Number(rows[0].monthly_rent_huf) } : null;
+  }
+
+  async activeModel(): Promise<RentModel | null> {
+    const { rows } = await runQuery(`SELECT * FROM public.rent_model_versions WHERE status = 'active'`);
+    return rows[0] ? mapModel(rows[0]) : null;
+  }
+
+  /**
+   * Store the candidate; a published one replaces the active version atomically
+   */
+  async saveModel(model: NewRentModel, publish: boolean): Promise<number> {
+    const pool = await getPool();
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      if (publish) {
+        await client.query(`UPDATE public.rent_model_versions SET status = 'superseded' WHERE status = 'active'`);
+      }
+      const { rows } = await client.query(
+        `
+          INSERT INTO public.rent_model_versions
+            (status, coefficients, defaults, residual_sigma, district_residuals, observations, metrics, activated_at)
+          VALUES ($1, $2::jsonb, $3::jsonb, $4, $5::jsonb, $6, $7::jsonb, CASE WHEN $1 = 'active' THEN now() END)
+          RETURNING version
+        `,
+        [
+          publish ? 'active' : 'rejected',
+          JSON.stringify(model.coefficients),
+          JSON.stringify(model.defaults),
+          model.residualSigma,
+          JSON.stringify(model.districtResiduals),
+          model.observations,
+          JSON.stringify(model.metrics),
+        ],
+      );
+      await client.query('COMMIT');
+      return rows[0].version;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Replace all district rows so districts that dropped below the minimum disappear
+   */
+  async saveQuantiles(quantiles: DistrictQuantiles[]): Promise<void> {
+    const pool = await getPool();
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM public.district_rent_quantiles');
+      for (const q of quantiles) {
+        await client.query(
+          `
+            INSERT INTO public.district_rent_quantiles
+              (district, listings, p10_huf, p25_huf, p50_huf, p75_huf, p90_huf,
+               median_price_per_sqm_huf, trend, trend_pct, computed_at)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+          `,
+          [
+            q.district,
+            q.listings,
+            q.p10Huf,
+            q.p25Huf,
+            q.p50Huf,
+            q.p75Huf,
+            q.p90Huf,
+            q.medianPricePerSqmHuf,
+            q.trend,
+            q.trendPct,
+            q.computedAt,
+          ],
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findQuantiles(district: number): Promise<DistrictQuantiles | null> {
+    const { rows } = await runQuery('SELECT * FROM public.district_rent_quantiles WHERE district = $1', [district]);
+    return rows[0] ? mapQuantiles(rows[0]) : null;
+  }
+
+  async listModels(limit: number): Promise<RentModel[]> {
+    const { rows } = await runQuery('SELECT * FROM public.rent_model_versions ORDER BY version DESC LIMIT $1', [limit]);
+    return rows.map(mapModel);
+  }
+}
+
+export class RentModelService {
+  private cachedModel: { model: RentModel | null; loadedAt: number } | null = null;
+
+  constructor(
+    private repository: RentModelRepository = new PostgresRentModelRepository(),
+    private now: () => Date = () => new Date(),
+  ) {}
+
+  /**
+   * Fit, validate and (unless rejected or a dry run) publish a model version;
+   * district quantiles are refreshed on every run that is not a dry run
+   */
+  async train(options: RentTrainingOptions = {}): Promise<RentTrainingReport> {
+    const config = { ...DEFAULT_TRAINING_OPTIONS, ...options };
+    const now = this.now();
+    const since = new Date(now.getTime() - config.windowDays * 86400000);
+
+    const [observations, changes, baseline] = await Promise.all([
+      this.repository.loadObservations(since),
+      this.repository.loadPriceChanges(new Date(now.getTime() - TREND_WINDOW_DAYS * 86400000)),
+      this.repository.activeModel(),
+    ]);
+
+    const quantiles = districtQuantiles(observations, changes, now);
+    if (!config.dryRun) {
+      await this.repository.saveQuantiles(quantiles);
+    }
+
+    const { train, holdout } = splitHoldout(observations, config.holdoutFraction);
+    const apartments = (rows: RentObservation[]) => rows.filter((o) => o.current).length;
+    const report: RentTrainingReport = {
+      status: 'insufficient_data',
+      version: null,
+      baselineVersion: baseline?.version ?? null,
+      observations: observations.length,
+      holdout: { candidate: null, baseline: baseline ? evaluateRentModel(baseline, holdout) : null },
+      quantilesUpdated: config.dryRun ? 0 : quantiles.length,
+    };
+
+    if (apartments(train) < config.minTrainingApartments || apartments(holdout) < config.minHoldoutApartments) {
+      report.reason = `Need ${config.minTrainingApartments} training and ${config.minHoldoutApartments} holdout listings, have ${apartments(train)} and ${apartments(holdout)}`;
+      logger.info({ reason: report.reason }, '[RentModel] Skipped');
+      return report;
+    }
+
+    const candidate = fitRentModel(train, now);
+    const candidateMetrics = evaluateRentModel(candidate, holdout);
+    report.holdout.candidate = candidateMetrics;
+
+    // The interval is sized by out-of-sample error, not the in-sample fit
+    candidate.residualSigma = Math.max(candidate.residualSigma, holdoutSigma(candidate, holdout));
+    candidate.metrics = { holdout: report.holdout, baselineVersion: report.baselineVersion };
+
+    const loss = report.holdout.baseline ? candidateMetrics.mape - report.holdout.baseline.mape : 0;
+    report.status = loss <= config.maxMapeIncrease ? 'published' : 'rejected';
+    if (report.status === 'rejected') {
+      report.reason = `Holdout MAPE ${candidateMetrics.mape} is worse than version ${report.baselineVersion} (${report.holdout.baseline?.mape})`;
+    }
+
+    if (!config.dryRun) {
+      report.version = await this.repository.saveModel(candidate, report.status === 'published');
+      this.cachedModel = null;
+    } else if (report.status === 'published') {
+      report.reason = 'Dry run, not published';
+    }
+
+    logger.info(
+      { status: report.status, version: report.version, baselineVersion: report.baselineVersion, holdout: report.holdout },
+      '[RentModel] Finished',
+    );
+    return report;
+  }
+
+  async getActiveModel(): Promise<RentModel | null> {
+    if (this.cachedModel && Date.now() - this.cachedModel.loadedAt < MODEL_CACHE_TTL_MS) {
+      return this.cachedModel.model;
+    }
+    const model = await this.repository.activeModel();
+    this.cachedModel = { model, loadedAt: Date.now() };
+    return model;
+  }
+
+  /** Null until a model has been published */
+  async estimate(query: RentQuery): Promise<RentEstimate | null> {
+    const model = await this.getActiveModel();
+    return model ? estimateRent(model, query) : null;
+  }
+
+  /**
+   * Model estimate for a listed apartment next to its current rent
+   */
+  async estimateForApartment(apartmentId: string) {
+    const apartment = await this.repository.findApartment(apartmentId);
+    if (!apartment) return null;
+
+    const [estimate, quantiles] = await Promise.all([
+      this.estimate(apartment.features),
+      this.repository.findQuantiles(apartment.features.district),
+    ]);
+    return { ...apartment, estimate, quantiles };
+  }
+
+  async districtQuantiles(district: number): Promise<DistrictQuantiles | null> {
+    return this.repository.findQuantiles(district);
+  }
+
+  async listVersions(limit: number = 20): Promise<RentModel[]> {
+    return this.repository.listModels(limit);
+  }
+}
+
+function holdoutSigma(model: NewRentModel, holdout: RentObservation[]): number {
+  const residuals = holdout
+    .filter((o) => o.current)
+    .map((o) => Math.log(o.rentHuf) - predictLog(model.coefficients, featureVector(o.features, model.defaults)));
+  if (residuals.length === 0) return 0;
+  return Number(Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / residuals.length).toFixed(5));
+}
+
+export const rentModelService = new RentModelService();
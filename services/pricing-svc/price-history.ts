@@ -0,0 +1,338 @@
+// Listing price history and price-drop alerts
+// The apartments_price_history trigger writes every change of
+// monthly_rent_huf to pricing_history and, for a drop on a published
+// listing, queues a price_drop.notify job. The job lands here: users who
+// favourited the flat or whose active saved search matches it at the new
+// price get the price_drop template, unless the drop is below their own
+// thresholds from digest_preferences.
+
+import { runQuery } from '@/lib/db/pool';
+import { notificationService } from '@/services/notify-svc';
+import { formatPrice } from '@/utils/formatPrice';
+
+export type PriceDropSource = 'favorite' | 'saved_search';
+export type PriceDropStatus = 'sent' | 'already_notified' | 'not_a_drop' | 'unpublished';
+
+export interface PriceDropThresholds {
+  /** Smallest drop, as a percentage of the old rent, worth an alert */
+  minPercent: number;
+  /** Smallest drop in forints worth an alert */
+  minHuf: number;
+}
+
+export const DEFAULT_PRICE_DROP_THRESHOLDS: PriceDropThresholds = { minPercent: 3, minHuf: 5000 };
+
+export interface PriceHistoryApartment {
+  id: string;
+  ownerId: string | null;
+  title: string;
+  address: string | null;
+  status: string;
+  rentHuf: number;
+  createdAt: Date;
+}
+
+export interface PriceChangeEntry {
+  id: string;
+  apartmentId: string;
+  oldPriceHuf: number | null;
+  newPriceHuf: number;
+  reason: string;
+  changedBy: string;
+  createdAt: Date;
+  notifiedAt: Date | null;
+  notifiedRecipients: number | null;
+}
+
+export interface PriceDropRecipient {
+  userId: string;
+  email: string;
+  source: PriceDropSource;
+  thresholds: PriceDropThresholds;
+}
+
+export interface PriceHistoryPoint {
+  at: Date;
+  priceHuf: number;
+}
+
+export interface PriceHistory {
+  apartmentId: string;
+  currentPriceHuf: number;
+  /** Step series: each point holds until the next one */
+  points: PriceHistoryPoint[];
+  changes: Array<Pick<PriceChangeEntry, 'oldPriceHuf' | 'newPriceHuf' | 'reason' | 'createdAt'>>;
+  lowestHuf: number;
+  highestHuf: number;
+  lastDrop: { fromHuf: number; toHuf: number; percent: number; at: Date } | null;
+}
+
+export interface PriceDropReport {
+  changeId: string;
+  status: PriceDropStatus;
+  recipients: number;
+}
+
+/**
+ * Price history failure with the HTTP status the API should answer with
+ */
+export class PriceHistoryError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 404
+  ) {
+    super(message);
+    this.name = 'PriceHistoryError';
+  }
+}
+
+const roundPercent = (value: number) => Math.round(value * 10) / 10;
+
+export function dropPercent(oldPriceHuf: number, newPriceHuf: number): number {
+  return oldPriceHuf > 0 ? ((oldPriceHuf - newPriceHuf) / oldPriceHuf) * 100 : 0;
+}
+
+/**
+ * Whether a change is a drop that clears both of the user's thresholds
+ */
+export function meetsThreshold(oldPriceHuf: number | null, newPriceHuf: number, thresholds: PriceDropThresholds): boolean {
+  if (oldPriceHuf === null || newPriceHuf >= oldPriceHuf) return false;
+  return oldPriceHuf - newPriceHuf >= thresholds.minHuf && dropPercent(oldPriceHuf, newPriceHuf) >= thresholds.minPercent;
+}
+
+/**
+ * Chart-ready history: the price at listing time followed by every change, oldest first
+ */
+export function buildPriceHistory(apartment: PriceHistoryApartment, changes: PriceChangeEntry[]): PriceHistory {
+  const ordered = [...changes].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const initialPrice = ordered[0]?.oldPriceHuf ?? ordered[0]?.newPriceHuf ?? apartment.rentHuf;
+  const points: PriceHistoryPoint[] = [{ at: apartment.createdAt, priceHuf: initialPrice }];
+  for (const change of ordered) {
+    points.push({ at: change.createdAt, priceHuf: change.newPriceHuf });
+  }
+
+  const prices = points.map((point) => point.priceHuf);
+  const drop = [...ordered].reverse().find((change) => change.oldPriceHuf !== null && change.newPriceHuf < change.oldPriceHuf);
+
+  return {
+    apartmentId: apartment.id,
+    currentPriceHuf: apartment.rentHuf,
+    points,
+    changes: ordered.map(({ oldPriceHuf, newPriceHuf, reason, createdAt }) => ({ oldPriceHuf, newPriceHuf, reason, createdAt })),
+    lowestHuf: Math.min(...prices),
+    highestHuf: Math.max(...prices),
+    lastDrop: drop
+      ? {
+          fromHuf: drop.oldPriceHuf!,
+          toHuf: drop.newPriceHuf,
+          percent: roundPercent(dropPercent(drop.oldPriceHuf!, drop.newPriceHuf)),
+          at: drop.createdAt,
+        }
+      : null,
+  };
+}
+
+export interface PriceHistoryRepository {
+  findApartment(apartmentId: string): Promise<PriceHistoryApartment | null>;
+  /** Oldest first */
+  listChanges(apartmentId: string): Promise<PriceChangeEntry[]>;
+  findChange(changeId: string): Promise<PriceChangeEntry | null>;
+  /** Favouriters and owners of matching saved searches, one row per user, never the owner */
+  dropAudience(apartment: PriceHistoryApartment, newPriceHuf: number): Promise<PriceDropRecipient[]>;
+  /** Stamps the change once; false when another worker already did */
+  markNotified(changeId: string, recipients: number): Promise<boolean>;
+}
+
+export type PriceDropNotifier = (
+  apartment: PriceHistoryApartment,
+  change: PriceChangeEntry,
+  recipients: PriceDropRecipient[]
+) => Promise<void>;
+
+const toDate = (value: any): Date | null => (value ? new Date(value) : null);
+
+function mapApartment(row: any): PriceHistoryApartment {
+  return {
+    id: row.id,
+    ownerId: row.owner_id,
+    title: row.title,
+    address: row.address,
+    status: row.status,
+    rentHuf: Number(row.monthly_rent_huf),
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function mapChange(row: any): PriceChangeEntry {
+  return {
+    id: row.id,
+    apartmentId: row.apartment_id,
+    oldPriceHuf: row.old_price === null ? null : Number(row.old_price),
+    newPriceHuf: Number(row.new_price),
+    reason: row.change_reason,
+    changedBy: row.changed_by,
+    createdAt: new Date(row.created_at),
+    notifiedAt: toDate(row.notified_at),
+    notifiedRecipients: row.notified_recipients,
+  };
+}
+
+function mapRecipient(row: any): PriceDropRecipient {
+  return {
+    userId: row.user_id,
+    email: row.email,
+    source: row.source,
+    thresholds: { minPercent: Number(row.min_percent), minHuf: Number(row.min_huf) },
+  };
+}
+
+export class PostgresPriceHistoryRepository implements PriceHistoryRepository {
+  async findApartment(apartmentId: string): Promise<PriceHistoryApartment | null> {
+    const { rows } = await runQuery(
+      `SELECT id, owner_id, title, address, status, monthly_rent_huf, created_at
+       FROM public.apartments WHERE id = $1`,
+      [apartmentId]
+    );
+    return rows[0] ? mapApartment(rows[0]) : null;
+  }
+
+  async listChanges(apartmentId: string): Promise<PriceChangeEntry[]> {
+    const { rows } = await runQuery(
+      'SELECT * FROM public.pricing_history WHERE apartment_id = $1 ORDER BY created_at',
+      [apartmentId]
+    );
+    return rows.map(mapChange);
+  }
+
+  async findChange(changeId: string): Promise<PriceChangeEntry | null> {
+    const { rows } = await runQuery('SELECT * FROM public.pricing_history WHERE id = $1', [changeId]);
+    return rows[0] ? mapChange(rows[0]) : null;
+  }
+
+  async dropAudience(apartment: PriceHistoryApartment, newPriceHuf: number): Promise<PriceDropRecipient[]> {
+    // A favourite wins over a saved search for the same user; no preferences row means the defaults
+    const { rows } = await runQuery(
+      `SELECT DISTINCT ON (audience.user_id)
+         audience.user_id, audience.source, p.email,
+         COALESCE(dp.price_drop_min_percent, $4) AS min_percent,
+         COALESCE(dp.price_drop_min_huf, $5) AS min_huf
+       FROM (
+         SELECT f.user_id, 'favorite' AS source, 0 AS rank
+         FROM public.apartment_favorites f
+         WHERE f.apartment_id = $1
+         UNION ALL
+         SELECT s.user_id, 'saved_search', 1
+         FROM public.saved_searches s
+         JOIN public.apartments a ON a.id = $1
+         WHERE COALESCE(s.is_active, true) AND COALESCE(s.email_alerts_enabled, true)
+           AND (s.min_price IS NULL OR $3 >= s.min_price)
+           AND (s.max_price IS NULL OR $3 <= s.max_price)
+           AND (s.bedrooms IS NULL OR a.bedrooms >= s.bedrooms)
+           AND (NOT COALESCE(s.furnished, false) OR a.furnished)
+       ) audience
+       JOIN public.profiles p ON p.id = audience.user_id
+       LEFT JOIN public.digest_preferences dp ON dp.user_id = audience.user_id
+       WHERE p.email IS NOT NULL
+         AND audience.user_id IS DISTINCT FROM $2
+         AND (dp.user_id IS NULL OR 'price_drops' = ANY(dp.categories))
+       ORDER BY audience.user_id, audience.rank`,
+      [
+        apartment.id,
+        apartment.ownerId,
+        newPriceHuf,
+        DEFAULT_PRICE_DROP_THRESHOLDS.minPercent,
+        DEFAULT_PRICE_DROP_THRESHOLDS.minHuf,
+      ]
+    );
+    return rows.map(mapRecipient);
+  }
+
+  async markNotified(changeId: string, recipients: number): Promise<boolean> {
+    const { rowCount } = await runQuery(
+      `UPDATE public.pricing_history SET notified_at = now(), notified_recipients = $2
+       WHERE id = $1 AND notified_at IS NULL`,
+      [changeId, recipients]
+    );
+    return (rowCount ?? 0) > 0;
+  }
+}
+
+export const notifyPriceDrop: PriceDropNotifier = async (apartment, change, recipients) => {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || '';
+
+  await notificationService.sendBulkNotifications(
+    recipients.map((recipient) => ({
+      templateId: 'price_drop',
+      recipient: {
+        userId: recipient.userId,
+        email: recipient.email,
+        preferences: { email: true, push: true, sms: false, inApp: true },
+      },
+      variables: {
+        address: apartment.address || apartment.title,
+        newPrice: formatPrice(change.newPriceHuf),
+        oldPrice: formatPrice(change.oldPriceHuf),
+        apartmentUrl: `${appUrl}/apartments/${apartment.id}`,
+      },
+      priority: recipient.source === 'favorite' ? ('high' as const) : ('normal' as const),
+    })),
+    { idempotencyPrefix: `price-drop:${change.id}` }
+  );
+};
+
+export class PriceHistoryService {
+  constructor(
+    private repository: PriceHistoryRepository = new PostgresPriceHistoryRepository(),
+    private notify: PriceDropNotifier = notifyPriceDrop
+  ) {}
+
+  /**
+   * History of a listing; drafts and archived listings only for their owner
+   */
+  async history(apartmentId: string, viewerId: string | null): Promise<PriceHistory> {
+    const apartment = await this.repository.findApartment(apartmentId);
+    if (!apartment || (apartment.status !== 'published' && (!viewerId || viewerId !== apartment.ownerId))) {
+      throw new PriceHistoryError('Apartment not found', 404);
+    }
+    const changes = await this.repository.listChanges(apartmentId);
+    return buildPriceHistory(apartment, changes);
+  }
+
+  /**
+   * Alert the audience of one recorded drop; safe to run more than once
+   */
+  async notifyDrop(changeId: string): Promise<PriceDropReport> {
+    const change = await this.repository.findChange(changeId);
+    if (!change) {
+      throw new PriceHistoryError('Price change not found', 404);
+    }
+    if (change.notifiedAt) {
+      return { changeId, status: 'already_notified', recipients: change.notifiedRecipients ?? 0 };
+    }
+    if (change.oldPriceHuf === null || change.newPriceHuf >= change.oldPriceHuf) {
+      return { changeId, status: 'not_a_drop', recipients: 0 };
+    }
+
+    const apartment = await this.repository.findApartment(change.apartmentId);
+    if (!apartment) {
+      throw new PriceHistoryError('Apartment not found', 404);
+    }
+    // Unpublished since the drop: nobody can view it, so nobody hears about it
+    if (apartment.status !== 'published') {
+      return { changeId, status: 'unpublished', recipients: 0 };
+    }
+
+    const audience = await this.repository.dropAudience(apartment, change.newPriceHuf);
+    const recipients = audience.filter((recipient) =>
+      meetsThreshold(change.oldPriceHuf, change.newPriceHuf, recipient.thresholds)
+    );
+    if (recipients.length > 0) {
+      await this.notify(apartment, change, recipients);
+    }
+    await this.repository.markNotified(changeId, recipients.length);
+
+    return { changeId, status: 'sent', recipients: recipients.length };
+  }
+}
+
+export const priceHistoryService = new PriceHistoryService();
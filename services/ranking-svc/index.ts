@@ -9,6 +9,7 @@ export interface CandidateApartment {
   bathrooms?: number;
   amenities?: string[];
   verified?: boolean;
+  universityVerified?: boolean; // lister confirmed a university email
   mediaScore?: number;
   completenessScore?: number;
   commuteTime?: number | null;
@@ -66,9 +67,36 @@ export interface RankContext {
   userId?: string;
   experimentId?: string;
   variantId?: string;
+  searchSessionId?: string;
   logTopN?: number;
 }
 
+export interface ActiveWeights {
+  version: number | null; // null when serving the built-in defaults
+  weights: RankingWeights;
+}
+
+export const RANKING_COMPONENT_KEYS: Array<keyof RankingWeights> = [
+  'constraint',
+  'preference',
+  'accessibility',
+  'trust',
+  'market',
+  'engagement',
+];
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  constraint: 0.25,
+  preference: 0.2,
+  accessibility: 0.15,
+  trust: 0.15,
+  market: 0.1,
+  engagement: 0.15,
+};
+
+// Other instances pick up newly published weight versions after this long
+const WEIGHT_CACHE_TTL_MS = 5 * 60 * 1000;
+
 const clamp = (value: number, min = 0, max = 1) =>
   Math.min(max, Math.max(min, value));
 
@@ -83,16 +111,9 @@ const addReason = (
 };
 
 class RankingService {
-  private readonly defaultWeights: RankingWeights = {
-    constraint: 0.25,
-    preference: 0.2,
-    accessibility: 0.15,
-    trust: 0.15,
-    market: 0.1,
-    engagement: 0.15,
-  };
+  private readonly defaultWeights: RankingWeights = DEFAULT_RANKING_WEIGHTS;
 
-  private cachedWeights: RankingWeights | null = null;
+  private cachedWeights: (ActiveWeights & { loadedAt: number }) | null = null;
 
   async rankApartments(
     apartments: CandidateApartment[],
@@ -103,14 +124,14 @@ class RankingService {
       return [];
     }
 
-    const weights = await this.getWeights();
+    const { version, weights } = await this.getActiveWeights();
     const ranked = apartments.map((apartment) =>
       this.evaluateCandidate(apartment, preferences, weights),
     );
 
     ranked.sort((a, b) => b.score - a.score);
 
-    await this.logRankingEvents(ranked, context);
+    await this.logRankingEvents(ranked, context, version);
     return ranked;
   }
 
@@ -118,38 +139,43 @@ class RankingService {
     ranked: RankedApartment[],
     context?: RankContext,
   ): Promise<void> {
-    await this.logRankingEvents(ranked, context);
+    const { version } = await this.getActiveWeights();
+    await this.logRankingEvents(ranked, context, version);
   }
 
-  private async getWeights(): Promise<RankingWeights> {
-    if (this.cachedWeights) {
+  /**
+   * The active weight version from ranking_weight_history (defaults when none)
+   */
+  async getActiveWeights(): Promise<ActiveWeights> {
+    if (this.cachedWeights && Date.now() - this.cachedWeights.loadedAt < WEIGHT_CACHE_TTL_MS) {
       return this.cachedWeights;
     }
 
+    let active: ActiveWeights = { version: null, weights: this.defaultWeights };
+
     try {
-      const { rows } = await runQuery(
+      const { rows } = await runQuery<{ version: number; weights: Partial<RankingWeights> }>(
         `
-          SELECT weights
+          SELECT version, weights
           FROM public.ranking_weight_history
-          ORDER BY created_at DESC
+          WHERE status = 'active'
+          ORDER BY activated_at DESC NULLS LAST, created_at DESC
           LIMIT 1
         `,
       );
 
       if (rows?.[0]?.weights) {
-        this.cachedWeights = {
-          ...this.defaultWeights,
-          ...rows[0].weights,
+        active = {
+          version: rows[0].version ?? null,
+          weights: { ...this.defaultWeights, ...rows[0].weights },
         };
-      } else {
-        this.cachedWeights = this.defaultWeights;
       }
     } catch (error) {
       console.warn('Ranking weights fallback to defaults:', error);
-      this.cachedWeights = this.defaultWeights;
     }
 
-    return this.cachedWeights ?? this.defaultWeights;
+    this.cachedWeights = { ...active, loadedAt: Date.now() };
+    return active;
   }
 
   invalidateWeightCache(): void {
@@ -189,7 +215,7 @@ class RankingService {
       tradeOffs,
     );
 
-    const trust = this.scoreTrust(apartment, reasons, reasonCodes);
+    const trust = this.scoreTrust(apartment, reasons, reasonCodes, tradeOffs);
 
     const market = this.scoreMarket(apartment, reasons, reasonCodes, tradeOffs);
 
@@ -362,6 +388,7 @@ class RankingService {
     apartment: CandidateApartment,
     reasons: Set<string>,
     reasonCodes: Set<string>,
+    tradeOffs: Set<string>,
   ): number {
     let score = 0.4;
 
@@ -370,6 +397,11 @@ class RankingService {
       addReason(reasons, reasonCodes, 'Verified owner', 'verified_owner');
     }
 
+    if (apartment.universityVerified) {
+      score += 0.1;
+      addReason(reasons, reasonCodes, 'Listed by a university-verified student', 'university_verified');
+    }
+
     if (typeof apartment.completenessScore === 'number') {
       score += (apartment.completenessScore - 0.5) * 0.3;
       if (apartment.completenessScore > 0.8) {
@@ -391,6 +423,10 @@ class RankingService {
           'High-quality photos',
           'media_quality',
         );
+      } else if (apartment.mediaScore < 0.35) {
+        // media_quality_score from upload analysis: few, dark or blurry photos
+        tradeOffs.add('Few or low-quality photos');
+        reasonCodes.add('media_quality_low');
       }
     }
 
@@ -443,6 +479,7 @@ class RankingService {
   private async logRankingEvents(
     ranked: RankedApartment[],
     context?: RankContext,
+    weightVersion: number | null = null,
   ) {
     const logCount = context?.logTopN ?? Math.min(ranked.length, 5);
     const subset = ranked.slice(0, logCount);
@@ -454,7 +491,7 @@ class RankingService {
     const params: any[] = [];
     const values = subset
       .map((result, idx) => {
-        const baseIndex = idx * 7;
+        const baseIndex = idx * 10;
         params.push(
           context?.userId ?? null,
           result.apartmentId,
@@ -463,9 +500,12 @@ class RankingService {
           result.score,
           JSON.stringify(result.components),
           result.reasons,
+          idx + 1,
+          context?.searchSessionId ?? null,
+          weightVersion,
         );
 
-        return `($${baseIndex + 1}, $${baseIndex + 2}, $${baseIndex + 3}, $${baseIndex + 4}, $${baseIndex + 5}, $${baseIndex + 6}::jsonb, $${baseIndex + 7}::text[])`;
+        return `($${baseIndex + 1}, $${baseIndex + 2}, $${baseIndex + 3}, $${baseIndex + 4}, $${baseIndex + 5}, $${baseIndex + 6}::jsonb, $${baseIndex + 7}::text[], $${baseIndex + 8}, $${baseIndex + 9}, $${baseIndex + 10})`;
       })
       .join(', ');
 
@@ -479,7 +519,10 @@ class RankingService {
             variant_id,
             ranking_score,
             component_scores,
-            reasons
+            reasons,
+            position,
+            search_session_id,
+            weight_version
           ) VALUES ${values}
         `,
         params,
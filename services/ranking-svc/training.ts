@@ -0,0 +1,567 @@
+// Ranking Weight Training - Learning-to-rank for RankingService weights
+// Fits the six component weights from logged impressions (ranking_events)
+// and user feedback (ranking_feedback) with an inverse-propensity weighted
+// pairwise logistic objective, validates on a holdout and publishes versions
+
+import { getPool, runQuery } from '@/lib/db/pool';
+import { logger } from '@/utils/logger';
+import {
+  RANKING_COMPONENT_KEYS,
+  rankingService,
+  type RankingComponents,
+  type RankingWeights,
+} from './index';
+
+export interface Impression {
+  listKey: string; // One rankApartments() call
+  apartmentId: string;
+  position: number; // 1-based
+  components: RankingComponents;
+  relevance: number;
+}
+
+export interface TrainingPair {
+  listKey: string;
+  delta: number[]; // preferred minus other, in RANKING_COMPONENT_KEYS order
+  weight: number;
+}
+
+export interface PairMetrics {
+  pairs: number;
+  pairAccuracy: number; // Propensity-weighted share of pairs ordered correctly
+  loss: number; // Mean weighted logistic loss
+}
+
+export interface FitOptions {
+  prior: RankingWeights;
+  l2?: number; // Pull towards the prior weights
+  learningRate?: number;
+  iterations?: number;
+  minWeight?: number; // Keep every component in play
+}
+
+export interface TrainingOptions {
+  windowDays?: number;
+  holdoutFraction?: number;
+  minTrainingPairs?: number;
+  minHoldoutPairs?: number;
+  minImprovement?: number; // Holdout pair accuracy gain needed to publish
+  propensityEta?: number; // Position bias: P(examined | k) = k^-eta
+  dryRun?: boolean;
+}
+
+export interface TrainingReport {
+  status: 'published' | 'rejected' | 'insufficient_data';
+  version: number | null;
+  baselineVersion: number | null;
+  weights: RankingWeights;
+  baselineWeights: RankingWeights;
+  impressions: number;
+  training: PairMetrics;
+  holdout: { candidate: PairMetrics; baseline: PairMetrics };
+  reason?: string;
+}
+
+export interface WeightVersion {
+  version: number;
+  status: 'active' | 'superseded' | 'rejected' | 'rolled_back';
+  source: string;
+  weights: RankingWeights;
+  metrics: Record<string, unknown>;
+  createdAt: string;
+  activatedAt: string | null;
+}
+
+// Score gap scale: component scores are 0-1 so raw weighted gaps are small
+const SCORE_SCALE = 10;
+const MAX_IPS_WEIGHT = 10;
+const FEEDBACK_WINDOW_DAYS = 7;
+
+const DEFAULT_TRAINING_OPTIONS: Required<TrainingOptions> = {
+  windowDays: 30,
+  holdoutFraction: 0.2,
+  minTrainingPairs: 50,
+  minHoldoutPairs: 20,
+  minImprovement: 0.005,
+  propensityEta: 1,
+  dryRun: false,
+};
+
+/**
+ * Graded relevance of a ranking_feedback type (unlabeled impressions are 0)
+ */
+export function feedbackRelevance(feedbackType: string | null | undefined): number {
+  switch (feedbackType) {
+    case 'contacted':
+      return 3;
+    case 'saved':
+    case 'good':
+      return 2;
+    case 'bad':
+      return -1;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Strongest positive feedback wins; otherwise a 'bad' marks the impression negative
+ */
+export function impressionRelevance(feedbackTypes: string[]): number {
+  const grades = feedbackTypes.map(feedbackRelevance);
+  const best = Math.max(0, ...grades);
+  return best > 0 ? best : Math.min(0, ...grades);
+}
+
+/**
+ * Probability a user examined the result at a position
+ */
+export function examinationPropensity(position: number, eta: number = 1): number {
+  return 1 / Math.pow(Math.max(1, position), eta);
+}
+
+function toVector(components: RankingComponents): number[] {
+  return RANKING_COMPONENT_KEYS.map((key) => components[key]);
+}
+
+// RankingService divides by the weight total, so only proportions matter
+function normalizedVector(weights: RankingWeights): number[] {
+  const vector = toVector(weights);
+  const total = vector.reduce((sum, value) => sum + value, 0);
+  return total > 0 ? vector.map((value) => value / total) : vector.map(() => 1 / vector.length);
+}
+
+function toWeights(vector: number[]): RankingWeights {
+  return Object.fromEntries(
+    RANKING_COMPONENT_KEYS.map((key, index) => [key, Number(vector[index].toFixed(4))]),
+  ) as unknown as RankingWeights;
+}
+
+/**
+ * Preference pairs within each ranked list. A pair (i over j) exists when i
+ * got stronger feedback; it is weighted by the inverse examination
+ * propensity of i so results shown low in the list count for more.
+ */
+export function buildTrainingPairs(impressions: Impression[], eta: number = 1): TrainingPair[] {
+  const lists = new Map<string, Impression[]>();
+  for (const impression of impressions) {
+    const list = lists.get(impression.listKey) ?? [];
+    list.push(impression);
+    lists.set(impression.listKey, list);
+  }
+
+  const pairs: TrainingPair[] = [];
+  for (const [listKey, list] of lists) {
+    for (const preferred of list) {
+      for (const other of list) {
+        if (preferred.relevance <= other.relevance) continue;
+
+        const ips = Math.min(MAX_IPS_WEIGHT, 1 / examinationPropensity(preferred.position, eta));
+        const a = toVector(preferred.components);
+        const b = toVector(other.components);
+        pairs.push({
+          listKey,
+          delta: a.map((value, index) => value - b[index]),
+          weight: ips * (preferred.relevance - other.relevance),
+        });
+      }
+    }
+  }
+
+  return pairs;
+}
+
+function hashKey(key: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0) / 4294967296;
+}
+
+/**
+ * Deterministic split by list so pairs from one ranking never straddle both sets
+ */
+export function splitHoldout(pairs: TrainingPair[], holdoutFraction: number) {
+  const train: TrainingPair[] = [];
+  const holdout: TrainingPair[] = [];
+  for (const pair of pairs) {
+    (hashKey(pair.listKey) < holdoutFraction ? holdout : train).push(pair);
+  }
+  return { train, holdout };
+}
+
+/**
+ * Euclidean projection onto { w : w_i >= minWeight, sum(w) = 1 }
+ */
+export function projectToSimplex(values: number[], minWeight: number = 0): number[] {
+  const budget = 1 - minWeight * values.length;
+  const shifted = values.map((value) => value - minWeight);
+  const sorted = [...shifted].sort((a, b) => b - a);
+
+  let cumulative = 0;
+  let theta = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    cumulative += sorted[i];
+    const candidate = (cumulative - budget) / (i + 1);
+    if (sorted[i] - candidate > 0) {
+      theta = candidate;
+    }
+  }
+
+  return shifted.map((value) => Math.max(value - theta, 0) + minWeight);
+}
+
+function logistic(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+/**
+ * Projected gradient descent on the weighted pairwise logistic loss,
+ * regularized towards the prior weights
+ */
+export function fitPairwiseWeights(pairs: TrainingPair[], options: FitOptions): RankingWeights {
+  const l2 = options.l2 ?? 0.05;
+  const learningRate = options.learningRate ?? 0.05;
+  const iterations = options.iterations ?? 300;
+  const minWeight = options.minWeight ?? 0.02;
+
+  const prior = projectToSimplex(normalizedVector(options.prior), minWeight);
+  let weights = [...prior];
+  const totalWeight = pairs.reduce((sum, pair) => sum + pair.weight, 0);
+
+  if (totalWeight === 0) {
+    return toWeights(weights);
+  }
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const gradient = weights.map((value, index) => 2 * l2 * (value - prior[index]));
+
+    for (const pair of pairs) {
+      const margin = SCORE_SCALE * pair.delta.reduce((sum, value, index) => sum + value * weights[index], 0);
+      const coefficient = (-pair.weight * SCORE_SCALE * logistic(-margin)) / totalWeight;
+      for (let index = 0; index < gradient.length; index++) {
+        gradient[index] += coefficient * pair.delta[index];
+      }
+    }
+
+    weights = projectToSimplex(
+      weights.map((value, index) => value - learningRate * gradient[index]),
+      minWeight,
+    );
+  }
+
+  return toWeights(weights);
+}
+
+export function evaluateWeights(pairs: TrainingPair[], weights: RankingWeights): PairMetrics {
+  const vector = normalizedVector(weights);
+  let totalWeight = 0;
+  let correct = 0;
+  let loss = 0;
+
+  for (const pair of pairs) {
+    const margin = SCORE_SCALE * pair.delta.reduce((sum, value, index) => sum + value * vector[index], 0);
+    totalWeight += pair.weight;
+    if (margin > 0) correct += pair.weight;
+    else if (margin === 0) correct += pair.weight / 2;
+    loss += pair.weight * Math.log1p(Math.exp(-margin));
+  }
+
+  return {
+    pairs: pairs.length,
+    pairAccuracy: totalWeight > 0 ? Number((correct / totalWeight).toFixed(4)) : 0,
+    loss: totalWeight > 0 ? Number((loss / totalWeight).toFixed(4)) : 0,
+  };
+}
+
+function parseComponents(value: unknown): RankingComponents | null {
+  const raw = typeof value === 'string' ? safeJson(value) : value;
+  if (!raw || typeof raw !== 'object') return null;
+
+  const components = {} as RankingComponents;
+  for (const key of RANKING_COMPONENT_KEYS) {
+    const component = Number((raw as Record<string, unknown>)[key]);
+    if (!Number.isFinite(component)) return null;
+    components[key] = component;
+  }
+  return components;
+}
+
+function safeJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+class RankingWeightTrainer {
+  /**
+   * Fit, validate and (unless rejected or a dry run) publish a weight version
+   */
+  async train(options: TrainingOptions = {}): Promise<TrainingReport> {
+    const config = { ...DEFAULT_TRAINING_OPTIONS, ...options };
+    rankingService.invalidateWeightCache();
+    const baseline = await rankingService.getActiveWeights();
+
+    const impressions = await this.loadImpressions(config.windowDays);
+    const pairs = buildTrainingPairs(impressions, config.propensityEta);
+    const { train, holdout } = splitHoldout(pairs, config.holdoutFraction);
+
+    const report: TrainingReport = {
+      status: 'insufficient_data',
+      version: null,
+      baselineVersion: baseline.version,
+      weights: baseline.weights,
+      baselineWeights: baseline.weights,
+      impressions: impressions.length,
+      training: evaluateWeights(train, baseline.weights),
+      holdout: {
+        candidate: evaluateWeights(holdout, baseline.weights),
+        baseline: evaluateWeights(holdout, baseline.weights),
+      },
+    };
+
+    if (train.length < config.minTrainingPairs || holdout.length < config.minHoldoutPairs) {
+      report.reason = `Need ${config.minTrainingPairs} training and ${config.minHoldoutPairs} holdout pairs, have ${train.length} and ${holdout.length}`;
+      logger.info({ reason: report.reason }, '[RankingTraining] Skipped');
+      return report;
+    }
+
+    const weights = fitPairwiseWeights(train, { prior: baseline.weights });
+    report.weights = weights;
+    report.training = evaluateWeights(train, weights);
+    report.holdout.candidate = evaluateWeights(holdout, weights);
+
+    const gain = report.holdout.candidate.pairAccuracy - report.holdout.baseline.pairAccuracy;
+    report.status = gain >= config.minImprovement ? 'published' : 'rejected';
+    if (report.status === 'rejected') {
+      report.reason = `Holdout pair accuracy gain ${gain.toFixed(4)} below ${config.minImprovement}`;
+    }
+
+    if (!config.dryRun) {
+      report.version = await this.recordVersion(weights, report);
+    } else if (report.status === 'published') {
+      report.reason = 'Dry run, not published';
+    }
+
+    logger.info(
+      {
+        status: report.status,
+        version: report.version,
+        baselineVersion: baseline.version,
+        holdout: report.holdout,
+        weights,
+      },
+      '[RankingTraining] Finished',
+    );
+
+    return report;
+  }
+
+  /**
+   * Re-activate an earlier version (default: the one active before the
+   * current). Without one, RankingService falls back to its defaults.
+   */
+  async rollback(targetVersion?: number): Promise<{ activeVersion: number | null }> {
+    const pool = await getPool();
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const current = await client.query(
+        `SELECT version FROM public.ranking_weight_history WHERE status = 'active' FOR UPDATE`,
+      );
+      const currentVersion: number | null = current.rows[0]?.version ?? null;
+
+      const target = targetVersion !== undefined
+        ? await client.query(
+          `SELECT version FROM public.ranking_weight_history
+           WHERE version = $1 AND status IN ('superseded', 'rolled_back', 'active')`,
+          [targetVersion],
+        )
+        : await client.query(
+          `SELECT version FROM public.ranking_weight_history
+           WHERE status = 'superseded' AND ($1::int IS NULL OR version <> $1)
+           ORDER BY activated_at DESC NULLS LAST, created_at DESC
+           LIMIT 1`,
+          [currentVersion],
+        );
+
+      if (targetVersion !== undefined && target.rows.length === 0) {
+        throw new Error(`Weight version ${targetVersion} not found or was never published`);
+      }
+
+      const nextVersion: number | null = target.rows[0]?.version ?? null;
+
+      if (currentVersion !== null && currentVersion !== nextVersion) {
+        await client.query(
+          `UPDATE public.ranking_weight_history SET status = 'rolled_back' WHERE version = $1`,
+          [currentVersion],
+        );
+      }
+      if (nextVersion !== null && nextVersion !== currentVersion) {
+        await client.query(
+          `UPDATE public.ranking_weight_history
+           SET status = 'active', activated_at = now()
+           WHERE version = $1`,
+          [nextVersion],
+        );
+      }
+
+      await client.query('COMMIT');
+      rankingService.invalidateWeightCache();
+      logger.info({ from: currentVersion, to: nextVersion }, '[RankingTraining] Rolled back weights');
+
+      return { activeVersion: nextVersion };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async listVersions(limit: number = 20): Promise<WeightVersion[]> {
+    const { rows } = await runQuery<{
+      version: number;
+      status: WeightVersion['status'];
+      source: string;
+      weights: RankingWeights;
+      metrics: Record<string, unknown>;
+      created_at: string;
+      activated_at: string | null;
+    }>(
+      `
+        SELECT version, status, source, weights, metrics, created_at, activated_at
+        FROM public.ranking_weight_history
+        ORDER BY version DESC
+        LIMIT $1
+      `,
+      [limit],
+    );
+
+    return rows.map((row) => ({
+      version: row.version,
+      status: row.status,
+      source: row.source,
+      weights: row.weights,
+      metrics: row.metrics ?? {},
+      createdAt: row.created_at,
+      activatedAt: row.activated_at,
+    }));
+  }
+
+  /**
+   * Store the candidate; published versions replace the active one atomically
+   */
+  private async recordVersion(weights: RankingWeights, report: TrainingReport): Promise<number> {
+    const pool = await getPool();
+    const client = await pool.connect();
+    const metrics = {
+      impressions: report.impressions,
+      training: report.training,
+      holdout: report.holdout,
+      baselineVersion: report.baselineVersion,
+      reason: report.reason ?? null,
+    };
+
+    try {
+      await client.query('BEGIN');
+
+      if (report.status === 'published') {
+        await client.query(
+          `UPDATE public.ranking_weight_history SET status = 'superseded' WHERE status = 'active'`,
+        );
+      }
+
+      const { rows } = await client.query(
+        `
+          INSERT INTO public.ranking_weight_history (weights, source, status, metrics, activated_at)
+          VALUES ($1::jsonb, 'ltr', $2, $3::jsonb, CASE WHEN $2 = 'active' THEN now() END)
+          RETURNING version
+        `,
+        [
+          JSON.stringify(weights),
+          report.status === 'published' ? 'active' : 'rejected',
+          JSON.stringify(metrics),
+        ],
+      );
+
+      await client.query('COMMIT');
+      rankingService.invalidateWeightCache();
+      return rows[0].version;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Logged impressions with the strongest feedback the user gave the same
+   * apartment within FEEDBACK_WINDOW_DAYS afterwards (same search session
+   * when both sides recorded one)
+   */
+  private async loadImpressions(windowDays: number): Promise<Impression[]> {
+    const { rows } = await runQuery<{
+      user_id: string;
+      apartment_id: string;
+      position: number;
+      component_scores: unknown;
+      created_at: Date | string;
+      feedback_types: string[] | null;
+    }>(
+      `
+        SELECT
+          e.user_id,
+          e.apartment_id,
+          e.position,
+          e.component_scores,
+          e.created_at,
+          fb.feedback_types
+        FROM public.ranking_events e
+        LEFT JOIN LATERAL (
+          SELECT array_agg(f.feedback_type) AS feedback_types
+          FROM public.ranking_feedback f
+          WHERE f.user_id = e.user_id
+            AND f.apartment_id = e.apartment_id
+            AND f.created_at >= e.created_at
+            AND f.created_at < e.created_at + make_interval(days => $2)
+            AND (e.search_session_id IS NULL OR f.search_session_id IS NULL
+              OR f.search_session_id = e.search_session_id)
+        ) fb ON true
+        WHERE e.created_at >= now() - make_interval(days => $1)
+          AND e.user_id IS NOT NULL
+          AND e.position IS NOT NULL
+        ORDER BY e.created_at
+        LIMIT 200000
+      `,
+      [windowDays, FEEDBACK_WINDOW_DAYS],
+    );
+
+    const impressions: Impression[] = [];
+    for (const row of rows) {
+      const components = parseComponents(row.component_scores);
+      if (!components) continue; // Events logged by other features (e.g. feedback modal)
+
+      const createdAt = row.created_at instanceof Date ? row.created_at.toISOString() : String(row.created_at);
+      impressions.push({
+        // Events from one rankApartments() call share the statement timestamp
+        listKey: `${row.user_id}:${createdAt}`,
+        apartmentId: row.apartment_id,
+        position: row.position,
+        components,
+        relevance: impressionRelevance(row.feedback_types ?? []),
+      });
+    }
+
+    return impressions;
+  }
+}
+
+export const rankingWeightTrainer = new RankingWeightTrainer();
@@ -0,0 +1,811 @@
+// Roommate matching and group search
+// A roommate profile is what a flatmate needs to know: budget share,
+// schedule, cleanliness, smoking, pets, languages, districts and the
+// personality traits from the assessment (utils/personality-assessment).
+// Profiles are paired with a 0-100 compatibility score; smoking and pet
+// conflicts are dealbreakers that halve it.
+//
+// Groups of 2-6 students share one SearchGoal (occupancy, the summed budget
+// shares and common districts are filled in from the members), a shortlist
+// the members vote on, and contact an owner together once a majority of the
+// members voted for a listing: the conversation is opened by the member who
+// asks and every other member is added as a participant.
+//
+// invited -> active | declined; invited | active -> left
+
+import { runQuery } from '@/lib/db/pool';
+import { normalizeGoal } from '@/lib/ai/search-agent';
+import type { SearchGoal } from '@/components/SearchGoalCard';
+import { conversationKeyService } from '@/services/messaging-system-svc/keys';
+import { notificationService } from '@/services/notify-svc';
+import { getPersonalityAssessment, type PersonalityTraits } from '@/utils/personality-assessment';
+
+export type RoommateSchedule = 'early_bird' | 'night_owl' | 'flexible';
+export type SmokingHabit = 'non_smoker' | 'outside_only' | 'smoker';
+export type GroupStatus = 'forming' | 'searching' | 'closed';
+export type MemberStatus = 'invited' | 'active' | 'declined' | 'left';
+export type CompatibilityFactor = 'budget' | 'schedule' | 'cleanliness' | 'lifestyle' | 'languages' | 'districts' | 'personality';
+
+export const MIN_GROUP_SIZE = 2;
+export const MAX_GROUP_SIZE = 6;
+export const MAX_MATCHES = 20;
+
+/** Weights of the compatibility factors; a factor neither profile can answer is left out */
+export const COMPATIBILITY_WEIGHTS: Record<CompatibilityFactor, number> = {
+  budget: 0.25,
+  cleanliness: 0.15,
+  schedule: 0.15,
+  personality: 0.2,
+  languages: 0.1,
+  districts: 0.1,
+  lifestyle: 0.05,
+};
+const DEALBREAKER_PENALTY = 0.5;
+
+export interface RoommateProfile {
+  userId: string;
+  budgetMinHuf: number | null;
+  budgetMaxHuf: number;
+  schedule: RoommateSchedule;
+  cleanliness: number; // 1 (relaxed) - 5 (spotless)
+  smoking: SmokingHabit;
+  acceptsSmokers: boolean;
+  hasPets: boolean;
+  acceptsPets: boolean;
+  languages: string[];
+  districts: number[];
+  personality: PersonalityTraits | null;
+  bio: string | null;
+  looking: boolean;
+}
+
+export type RoommateProfileInput = Omit<RoommateProfile, 'userId' | 'personality'> & {
+  personality?: PersonalityTraits | null;
+};
+
+export interface Compatibility {
+  score: number; // 0-100
+  factors: Partial<Record<CompatibilityFactor, number>>; // 0-1 each
+  dealbreakers: string[];
+}
+
+export interface RoommateMatch {
+  profile: RoommateProfile;
+  name: string | null;
+  compatibility: Compatibility;
+}
+
+export interface GroupMember {
+  userId: string;
+  name: string | null;
+  status: MemberStatus;
+  joinedAt: Date | null;
+}
+
+export interface RoommateGroup {
+  id: string;
+  name: string;
+  createdBy: string;
+  maxMembers: number;
+  searchGoal: SearchGoal;
+  status: GroupStatus;
+  members: GroupMember[];
+  createdAt: Date;
+}
+
+export interface ShortlistVote {
+  userId: string;
+  vote: 1 | -1;
+}
+
+export interface ShortlistEntry {
+  apartmentId: string;
+  title: string;
+  priceHuf: number;
+  bedrooms: number;
+  addedBy: string | null;
+  note: string | null;
+  votes: ShortlistVote[];
+  createdAt: Date;
+}
+
+export interface TalliedShortlistEntry extends ShortlistEntry {
+  upvotes: number;
+  downvotes: number;
+  /** More than half of the active members voted for it */
+  agreed: boolean;
+}
+
+export interface GroupListing {
+  id: string;
+  ownerId: string;
+  title: string;
+  status: string;
+}
+
+export interface GroupView {
+  group: RoommateGroup;
+  /** The group's goal with occupancy, budget and districts filled in from its members */
+  searchGoal: SearchGoal;
+  shortlist: TalliedShortlistEntry[];
+}
+
+export interface GroupContact {
+  conversationId: string;
+  participantIds: string[];
+}
+
+/**
+ * Roommate failure with the HTTP status the API should answer with
+ */
+export class RoommateError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 403 | 404 | 409
+  ) {
+    super(message);
+    this.name = 'RoommateError';
+  }
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * How well two personalities share a flat: similar conscientiousness and
+ * extraversion matter most (tidiness, guests, noise), openness a little,
+ * and the less agreeable of the two sets the tone for resolving friction
+ */
+export function personalityCompatibility(a: PersonalityTraits, b: PersonalityTraits): number {
+  const similarity = (x: number, y: number) => 1 - Math.abs(clamp01(x) - clamp01(y));
+  return clamp01(
+    0.35 * similarity(a.conscientiousness, b.conscientiousness) +
+      0.3 * similarity(a.extraversion, b.extraversion) +
+      0.15 * similarity(a.openness, b.openness) +
+      0.2 * Math.min(clamp01(a.agreeableness), clamp01(b.agreeableness))
+  );
+}
+
+function budgetOverlap(a: RoommateProfile, b: RoommateProfile): number {
+  const low = Math.max(a.budgetMinHuf ?? 0, b.budgetMinHuf ?? 0);
+  const high = Math.min(a.budgetMaxHuf, b.budgetMaxHuf);
+  if (high >= low) return 1;
+  // Apart by the gap relative to the smaller budget
+  return clamp01(1 - (low - high) / Math.min(a.budgetMaxHuf, b.budgetMaxHuf));
+}
+
+function scheduleFit(a: RoommateSchedule, b: RoommateSchedule): number {
+  if (a === b) return 1;
+  if (a === 'flexible' || b === 'flexible') return 0.7;
+  return 0;
+}
+
+function smokingConflict(smoker: RoommateProfile, other: RoommateProfile): boolean {
+  return smoker.smoking === 'smoker' && !other.acceptsSmokers;
+}
+
+/**
+ * Compatibility of two roommate profiles, symmetric
+ */
+export function compatibility(a: RoommateProfile, b: RoommateProfile): Compatibility {
+  const dealbreakers: string[] = [];
+  if (smokingConflict(a, b) || smokingConflict(b, a)) dealbreakers.push('smoking');
+  if ((a.hasPets && !b.acceptsPets) || (b.hasPets && !a.acceptsPets)) dealbreakers.push('pets');
+
+  const lower = (languages: string[]) => languages.map((language) => language.toLowerCase());
+  const sharedLanguages = lower(a.languages).filter((language) => lower(b.languages).includes(language));
+  const sharedDistricts = a.districts.filter((district) => b.districts.includes(district));
+  // Outside-only smokers are a mild friction even for people who accept smoking
+  const outsideSmoker = [a, b].some((profile) => profile.smoking === 'outside_only');
+
+  const factors: Partial<Record<CompatibilityFactor, number>> = {
+    budget: budgetOverlap(a, b),
+    schedule: scheduleFit(a.schedule, b.schedule),
+    cleanliness: 1 - Math.abs(a.cleanliness - b.cleanliness) / 4,
+    lifestyle: dealbreakers.length ? 0 : outsideSmoker ? 0.8 : 1,
+  };
+  if (a.languages.length && b.languages.length) factors.languages = sharedLanguages.length ? 1 : 0;
+  // No district preference fits anywhere
+  if (a.districts.length && b.districts.length) factors.districts = sharedDistricts.length ? 1 : 0;
+  if (a.personality && b.personality) factors.personality = personalityCompatibility(a.personality, b.personality);
+
+  const weighed = (Object.keys(factors) as CompatibilityFactor[]).map((factor) => ({
+    weight: COMPATIBILITY_WEIGHTS[factor],
+    value: factors[factor]!,
+  }));
+  const totalWeight = weighed.reduce((sum, { weight }) => sum + weight, 0);
+  const raw = weighed.reduce((sum, { weight, value }) => sum + weight * value, 0) / totalWeight;
+
+  return {
+    score: Math.round(raw * (dealbreakers.length ? DEALBREAKER_PENALTY : 1) * 100),
+    factors,
+    dealbreakers,
+  };
+}
+
+/**
+ * The group's shared SearchGoal: occupancy is the group, and budget and
+ * districts default to the members' summed shares and common districts
+ * unless the group set them
+ */
+export function groupSearchGoal(goal: Partial<SearchGoal> | null, members: RoommateProfile[], memberCount: number): SearchGoal {
+  const normalized = normalizeGoal(goal);
+  const count = Math.max(memberCount, 1);
+
+  const budget = { ...normalized.budget };
+  if (budget.max === undefined && members.length === count && budget.currency === 'HUF') {
+    budget.max = members.reduce((sum, member) => sum + member.budgetMaxHuf, 0);
+    if (members.every((member) => member.budgetMinHuf !== null)) {
+      budget.min = members.reduce((sum, member) => sum + (member.budgetMinHuf ?? 0), 0);
+    }
+  }
+
+  let districts = normalized.location.districts;
+  if (districts.length === 0) {
+    const preferring = members.filter((member) => member.districts.length > 0);
+    districts = preferring.length
+      ? preferring[0].districts.filter((district) => preferring.every((member) => member.districts.includes(district)))
+      : [];
+  }
+
+  return {
+    ...normalized,
+    budget,
+    location: { ...normalized.location, districts },
+    occupancy: { type: count > 1 ? 'roommate' : 'student', count },
+  };
+}
+
+/**
+ * Votes of members who left no longer count; sorted by net votes
+ */
+export function tallyShortlist(entries: ShortlistEntry[], activeMemberIds: string[]): TalliedShortlistEntry[] {
+  return entries
+    .map((entry) => {
+      const votes = entry.votes.filter((vote) => activeMemberIds.includes(vote.userId));
+      const upvotes = votes.filter((vote) => vote.vote === 1).length;
+      const downvotes = votes.length - upvotes;
+      return { ...entry, votes, upvotes, downvotes, agreed: upvotes * 2 > activeMemberIds.length };
+    })
+    .sort((a, b) => b.upvotes - b.downvotes - (a.upvotes - a.downvotes) || a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+const activeMembers = (group: RoommateGroup) => group.members.filter((member) => member.status === 'active');
+
+export interface RoommateRepository {
+  getProfile(userId: string): Promise<RoommateProfile | null>;
+  getProfiles(userIds: string[]): Promise<RoommateProfile[]>;
+  saveProfile(profile: RoommateProfile): Promise<RoommateProfile>;
+  /** Other profiles looking for roommates, with the users' names */
+  listLooking(excludeUserId: string): Promise<Array<{ profile: RoommateProfile; name: string | null }>>;
+  getGroup(groupId: string): Promise<RoommateGroup | null>;
+  listGroups(userId: string): Promise<RoommateGroup[]>;
+  createGroup(group: { name: string; createdBy: string; maxMembers: number; searchGoal: SearchGoal }): Promise<RoommateGroup>;
+  updateGroup(groupId: string, changes: { name?: string; searchGoal?: SearchGoal; status?: GroupStatus }): Promise<void>;
+  setMemberStatus(groupId: string, userId: string, status: MemberStatus, invitedBy?: string): Promise<void>;
+  findListing(apartmentId: string): Promise<GroupListing | null>;
+  listShortlist(groupId: string): Promise<ShortlistEntry[]>;
+  addToShortlist(groupId: string, apartmentId: string, userId: string, note: string | null): Promise<boolean>;
+  removeFromShortlist(groupId: string, apartmentId: string): Promise<void>;
+  vote(groupId: string, apartmentId: string, userId: string, vote: 1 | -1): Promise<void>;
+  /** The group's conversation about a listing, opened by studentId if there is none yet */
+  openGroupConversation(groupId: string, apartmentId: string, studentId: string, ownerId: string): Promise<{ id: string; studentId: string }>;
+  conversationParticipants(conversationId: string): Promise<string[]>;
+}
+
+export type GroupInviteNotifier = (group: RoommateGroup, inviterId: string, inviteeId: string) => Promise<void>;
+export type ConversationMemberAdder = (actorId: string, conversationId: string, userId: string) => Promise<void>;
+export type PersonalityLookup = (userId: string) => Promise<PersonalityTraits | null>;
+
+export const notifyGroupInvite: GroupInviteNotifier = async (group, inviterId, inviteeId) => {
+  const { rows } = await runQuery(
+    `SELECT id, email, full_name FROM public.profiles WHERE id = ANY($1)`,
+    [[inviterId, inviteeId]]
+  );
+  const inviter = rows.find((row: any) => row.id === inviterId);
+  const invitee = rows.find((row: any) => row.id === inviteeId);
+  if (!invitee?.email) return;
+
+  await notificationService.sendBulkNotifications(
+    [
+      {
+        templateId: 'roommate_group_invite',
+        recipient: {
+          userId: inviteeId,
+          email: invitee.email,
+          preferences: { email: true, push: true, sms: false, inApp: true },
+        },
+        variables: {
+          inviterName: inviter?.full_name || 'A student',
+          groupName: group.name,
+          groupUrl: `${process.env.NEXT_PUBLIC_APP_URL || ''}/dashboard/roommates/groups/${group.id}`,
+        },
+        priority: 'normal',
+      },
+    ],
+    { idempotencyPrefix: `roommate-invite:${group.id}` }
+  );
+};
+
+export const addConversationMember: ConversationMemberAdder = (actorId, conversationId, userId) =>
+  conversationKeyService.addParticipant(actorId, conversationId, userId);
+
+export const assessedPersonality: PersonalityLookup = async (userId) =>
+  (await getPersonalityAssessment(userId))?.traits ?? null;
+
+function mapProfile(row: any): RoommateProfile {
+  return {
+    userId: row.user_id,
+    budgetMinHuf: row.budget_min_huf === null ? null : Number(row.budget_min_huf),
+    budgetMaxHuf: Number(row.budget_max_huf),
+    schedule: row.schedule,
+    cleanliness: Number(row.cleanliness),
+    smoking: row.smoking,
+    acceptsSmokers: row.accepts_smokers,
+    hasPets: row.has_pets,
+    acceptsPets: row.accepts_pets,
+    languages: row.languages ?? [],
+    districts: (row.districts ?? []).map(Number),
+    personality: row.personality ?? null,
+    bio: row.bio,
+    looking: row.looking,
+  };
+}
+
+function mapGroup(row: any, members: any[]): RoommateGroup {
+  return {
+    id: row.id,
+    name: row.name,
+    createdBy: row.created_by,
+    maxMembers: Number(row.max_members),
+    searchGoal: normalizeGoal(row.search_goal),
+    status: row.status,
+    createdAt: new Date(row.created_at),
+    members: members
+      .filter((member) => member.group_id === row.id)
+      .map((member) => ({
+        userId: member.user_id,
+        name: member.full_name ?? null,
+        status: member.status,
+        joinedAt: member.joined_at ? new Date(member.joined_at) : null,
+      })),
+  };
+}
+
+export class PostgresRoommateRepository implements RoommateRepository {
+  async getProfile(userId: string): Promise<RoommateProfile | null> {
+    const { rows } = await runQuery('SELECT * FROM public.roommate_profiles WHERE user_id = $1', [userId]);
+    return rows[0] ? mapProfile(rows[0]) : null;
+  }
+
+  async getProfiles(userIds: string[]): Promise<RoommateProfile[]> {
+    if (userIds.length === 0) return [];
+    const { rows } = await runQuery('SELECT * FROM public.roommate_profiles WHERE user_id = ANY($1)', [userIds]);
+    return rows.map(mapProfile);
+  }
+
+  async saveProfile(profile: RoommateProfile): Promise<RoommateProfile> {
+    const { rows } = await runQuery(
+      `INSERT INTO public.roommate_profiles
+         (user_id, budget_min_huf, budget_max_huf, schedule, cleanliness, smoking, accepts_smokers,
+          has_pets, accepts_pets, languages, districts, personality, bio, looking)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+       ON CONFLICT (user_id) DO UPDATE SET
+         budget_min_huf = EXCLUDED.budget_min_huf, budget_max_huf = EXCLUDED.budget_max_huf,
+         schedule = EXCLUDED.schedule, cleanliness = EXCLUDED.cleanliness, smoking = EXCLUDED.smoking,
+         accepts_smokers = EXCLUDED.accepts_smokers, has_pets = EXCLUDED.has_pets,
+         accepts_pets = EXCLUDED.accepts_pets, languages = EXCLUDED.languages,
+         districts = EXCLUDED.districts, personality = EXCLUDED.personality, bio = EXCLUDED.bio,
+         looking = EXCLUDED.looking, updated_at = now()
+       RETURNING *`,
+      [
+        profile.userId,
+        profile.budgetMinHuf,
+        profile.budgetMaxHuf,
+        profile.schedule,
+        profile.cleanliness,
+        profile.smoking,
+        profile.acceptsSmokers,
+        profile.hasPets,
+        profile.acceptsPets,
+        profile.languages,
+        profile.districts,
+        profile.personality ? JSON.stringify(profile.personality) : null,
+        profile.bio,
+        profile.looking,
+      ]
+    );
+    return mapProfile(rows[0]);
+  }
+
+  async listLooking(excludeUserId: string): Promise<Array<{ profile: RoommateProfile; name: string | null }>> {
+    const { rows } = await runQuery(
+      `SELECT r.*, p.full_name
+       FROM public.roommate_profiles r
+       JOIN public.profiles p ON p.id = r.user_id
+       WHERE r.looking AND r.user_id <> $1
+       ORDER BY r.updated_at DESC
+       LIMIT 500`,
+      [excludeUserId]
+    );
+    return rows.map((row: any) => ({ profile: mapProfile(row), name: row.full_name ?? null }));
+  }
+
+  private async membersOf(groupIds: string[]): Promise<any[]> {
+    if (groupIds.length === 0) return [];
+    const { rows } = await runQuery(
+      `SELECT m.group_id, m.user_id, m.status, m.joined_at, p.full_name
+       FROM public.roommate_group_members m
+       LEFT JOIN public.profiles p ON p.id = m.user_id
+       WHERE m.group_id = ANY($1)
+       ORDER BY m.invited_at`,
+      [groupIds]
+    );
+    return rows;
+  }
+
+  async getGroup(groupId: string): Promise<RoommateGroup | null> {
+    const { rows } = await runQuery('SELECT * FROM public.roommate_groups WHERE id = $1', [groupId]);
+    if (!rows[0]) return null;
+    return mapGroup(rows[0], await this.membersOf([groupId]));
+  }
+
+  async listGroups(userId: string): Promise<RoommateGroup[]> {
+    const { rows } = await runQuery(
+      `SELECT g.* FROM public.roommate_groups g
+       JOIN public.roommate_group_members m ON m.group_id = g.id
+       WHERE m.user_id = $1 AND m.status IN ('invited', 'active')
+       ORDER BY g.created_at DESC`,
+      [userId]
+    );
+    const members = await this.membersOf(rows.map((row: any) => row.id));
+    return rows.map((row: any) => mapGroup(row, members));
+  }
+
+  async createGroup(group: { name: string; createdBy: string; maxMembers: number; searchGoal: SearchGoal }): Promise<RoommateGroup> {
+    const { rows } = await runQuery(
+      `WITH created AS (
+         INSERT INTO public.roommate_groups (name, created_by, max_members, search_goal)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *
+       ), creator AS (
+         INSERT INTO public.roommate_group_members (group_id, user_id, status, joined_at)
+         SELECT id, created_by, 'active', now() FROM created
+       )
+       SELECT * FROM created`,
+      [group.name, group.createdBy, group.maxMembers, JSON.stringify(group.searchGoal)]
+    );
+    return (await this.getGroup(rows[0].id))!;
+  }
+
+  async updateGroup(groupId: string, changes: { name?: string; searchGoal?: SearchGoal; status?: GroupStatus }): Promise<void> {
+    await runQuery(
+      `UPDATE public.roommate_groups
+       SET name = COALESCE($2, name), search_goal = COALESCE($3, search_goal),
+           status = COALESCE($4, status), updated_at = now()
+       WHERE id = $1`,
+      [groupId, changes.name ?? null, changes.searchGoal ? JSON.stringify(changes.searchGoal) : null, changes.status ?? null]
+    );
+  }
+
+  async setMemberStatus(groupId: string, userId: string, status: MemberStatus, invitedBy?: string): Promise<void> {
+    await runQuery(
+      `INSERT INTO public.roommate_group_members (group_id, user_id, status, invited_by)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (group_id, user_id) DO UPDATE SET
+         status = EXCLUDED.status,
+         invited_by = COALESCE(EXCLUDED.invited_by, public.roommate_group_members.invited_by),
+         invited_at = CASE WHEN EXCLUDED.status = 'invited' THEN now() ELSE public.roommate_group_members.invited_at END,
+         joined_at = CASE WHEN EXCLUDED.status = 'active' THEN now() ELSE public.roommate_group_members.joined_at END,
+         left_at = CASE WHEN EXCLUDED.status = 'left' THEN now() ELSE NULL END`,
+      [groupId, userId, status, invitedBy ?? null]
+    );
+  }
+
+  async findListing(apartmentId: string): Promise<GroupListing | null> {
+    const { rows } = await runQuery('SELECT id, owner_id, title, status FROM public.apartments WHERE id = $1', [apartmentId]);
+    return rows[0] ? { id: rows[0].id, ownerId: rows[0].owner_id, title: rows[0].title, status: rows[0].status } : null;
+  }
+
+  async listShortlist(groupId: string): Promise<ShortlistEntry[]> {
+    const { rows } = await runQuery(
+      `SELECT s.apartment_id, s.added_by, s.note, s.created_at,
+         a.title, a.monthly_rent_huf, a.bedrooms,
+         COALESCE(
+           JSON_AGG(JSON_BUILD_OBJECT('userId', v.user_id, 'vote', v.vote)) FILTER (WHERE v.user_id IS NOT NULL),
+           '[]'
+         ) AS votes
+       FROM public.roommate_group_shortlist s
+       JOIN public.apartments a ON a.id = s.apartment_id
+       LEFT JOIN public.roommate_group_votes v ON v.group_id = s.group_id AND v.apartment_id = s.apartment_id
+       WHERE s.group_id = $1
+       GROUP BY s.group_id, s.apartment_id, a.id`,
+      [groupId]
+    );
+    return rows.map((row: any) => ({
+      apartmentId: row.apartment_id,
+      title: row.title,
+      priceHuf: Number(row.monthly_rent_huf),
+      bedrooms: Number(row.bedrooms),
+      addedBy: row.added_by,
+      note: row.note,
+      votes: row.votes,
+      createdAt: new Date(row.created_at),
+    }));
+  }
+
+  async addToShortlist(groupId: string, apartmentId: string, userId: string, note: string | null): Promise<boolean> {
+    const { rowCount } = await runQuery(
+      `INSERT INTO public.roommate_group_shortlist (group_id, apartment_id, added_by, note)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (group_id, apartment_id) DO NOTHING`,
+      [groupId, apartmentId, userId, note]
+    );
+    return (rowCount ?? 0) > 0;
+  }
+
+  async removeFromShortlist(groupId: string, apartmentId: string): Promise<void> {
+    await runQuery('DELETE FROM public.roommate_group_shortlist WHERE group_id = $1 AND apartment_id = $2', [groupId, apartmentId]);
+  }
+
+  async vote(groupId: string, apartmentId: string, userId: string, vote: 1 | -1): Promise<void> {
+    await runQuery(
+      `INSERT INTO public.roommate_group_votes (group_id, apartment_id, user_id, vote)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (group_id, apartment_id, user_id) DO UPDATE SET vote = EXCLUDED.vote, voted_at = now()`,
+      [groupId, apartmentId, userId, vote]
+    );
+  }
+
+  async openGroupConversation(
+    groupId: string,
+    apartmentId: string,
+    studentId: string,
+    ownerId: string
+  ): Promise<{ id: string; studentId: string }> {
+    // A member who already talks to the owner brings the group into that thread
+    const { rows } = await runQuery(
+      `SELECT id, student_id FROM public.conversations
+       WHERE apartment_id = $2 AND (roommate_group_id = $1 OR (student_id = $3 AND roommate_group_id IS NULL))
+       ORDER BY (roommate_group_id = $1) DESC NULLS LAST
+       LIMIT 1`,
+      [groupId, apartmentId, studentId]
+    );
+    if (rows[0]) {
+      await runQuery('UPDATE public.conversations SET roommate_group_id = $2 WHERE id = $1', [rows[0].id, groupId]);
+      return { id: rows[0].id, studentId: rows[0].student_id };
+    }
+
+    const created = await runQuery(
+      `INSERT INTO public.conversations (apartment_id, student_id, owner_id, roommate_group_id)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id, student_id`,
+      [apartmentId, studentId, ownerId, groupId]
+    );
+    return { id: created.rows[0].id, studentId: created.rows[0].student_id };
+  }
+
+  async conversationParticipants(conversationId: string): Promise<string[]> {
+    const { rows } = await runQuery(
+      `SELECT user_id FROM public.conversation_participants
+       WHERE conversation_id = $1 AND removed_at IS NULL`,
+      [conversationId]
+    );
+    return rows.map((row: any) => row.user_id);
+  }
+}
+
+export class RoommateService {
+  constructor(
+    private repository: RoommateRepository = new PostgresRoommateRepository(),
+    private notifyInvite: GroupInviteNotifier = notifyGroupInvite,
+    private addMember: ConversationMemberAdder = addConversationMember,
+    private personalityOf: PersonalityLookup = assessedPersonality
+  ) {}
+
+  async getProfile(userId: string): Promise<RoommateProfile | null> {
+    return this.repository.getProfile(userId);
+  }
+
+  /**
+   * Create or update the user's profile; without traits of their own the
+   * personality assessment's are used
+   */
+  async saveProfile(userId: string, input: RoommateProfileInput): Promise<RoommateProfile> {
+    if (input.budgetMinHuf !== null && input.budgetMinHuf > input.budgetMaxHuf) {
+      throw new RoommateError('Minimum budget is above the maximum', 400);
+    }
+    const personality = input.personality ?? (await this.personalityOf(userId));
+    return this.repository.saveProfile({
+      ...input,
+      userId,
+      languages: Array.from(new Set(input.languages.map((language) => language.toLowerCase()))),
+      districts: Array.from(new Set(input.districts)),
+      personality,
+    });
+  }
+
+  /**
+   * The most compatible students looking for roommates
+   */
+  async matches(userId: string, limit = MAX_MATCHES): Promise<RoommateMatch[]> {
+    const own = await this.repository.getProfile(userId);
+    if (!own) {
+      throw new RoommateError('Create a roommate profile first', 404);
+    }
+    const candidates = await this.repository.listLooking(userId);
+    return candidates
+      .map(({ profile, name }) => ({ profile, name, compatibility: compatibility(own, profile) }))
+      .sort((a, b) => b.compatibility.score - a.compatibility.score)
+      .slice(0, limit);
+  }
+
+  async createGroup(userId: string, input: { name: string; maxMembers: number; searchGoal?: Partial<SearchGoal> }): Promise<RoommateGroup> {
+    if (input.maxMembers < MIN_GROUP_SIZE || input.maxMembers > MAX_GROUP_SIZE) {
+      throw new RoommateError(`Groups have ${MIN_GROUP_SIZE} to ${MAX_GROUP_SIZE} members`, 400);
+    }
+    return this.repository.createGroup({
+      name: input.name.trim(),
+      createdBy: userId,
+      maxMembers: input.maxMembers,
+      searchGoal: normalizeGoal(input.searchGoal),
+    });
+  }
+
+  async listGroups(userId: string): Promise<RoommateGroup[]> {
+    return this.repository.listGroups(userId);
+  }
+
+  /**
+   * The group with its effective search goal and tallied shortlist; invitees may look before joining
+   */
+  async getGroup(groupId: string, userId: string): Promise<GroupView> {
+    const group = await this.loadGroup(groupId, userId, ['invited', 'active']);
+    const active = activeMembers(group);
+    const [profiles, shortlist] = await Promise.all([
+      this.repository.getProfiles(active.map((member) => member.userId)),
+      this.repository.listShortlist(groupId),
+    ]);
+    return {
+      group,
+      searchGoal: groupSearchGoal(group.searchGoal, profiles, active.length),
+      shortlist: tallyShortlist(shortlist, active.map((member) => member.userId)),
+    };
+  }
+
+  async updateGroup(
+    groupId: string,
+    userId: string,
+    changes: { name?: string; searchGoal?: Partial<SearchGoal>; status?: GroupStatus }
+  ): Promise<GroupView> {
+    await this.loadGroup(groupId, userId, ['active']);
+    await this.repository.updateGroup(groupId, {
+      name: changes.name?.trim(),
+      searchGoal: changes.searchGoal ? normalizeGoal(changes.searchGoal) : undefined,
+      status: changes.status,
+    });
+    return this.getGroup(groupId, userId);
+  }
+
+  async invite(groupId: string, inviterId: string, inviteeId: string): Promise<void> {
+    const group = await this.loadGroup(groupId, inviterId, ['active']);
+    if (group.status === 'closed') {
+      throw new RoommateError('This group is closed', 409);
+    }
+    const existing = group.members.find((member) => member.userId === inviteeId);
+    if (existing && (existing.status === 'active' || existing.status === 'invited')) {
+      throw new RoommateError('Already a member or invited', 409);
+    }
+    const seats = group.members.filter((member) => member.status === 'active' || member.status === 'invited').length;
+    if (seats >= group.maxMembers) {
+      throw new RoommateError('The group is full', 409);
+    }
+
+    await this.repository.setMemberStatus(groupId, inviteeId, 'invited', inviterId);
+    await this.notifyInvite(group, inviterId, inviteeId);
+  }
+
+  async respond(groupId: string, userId: string, accept: boolean): Promise<GroupView | null> {
+    const group = await this.loadGroup(groupId, userId, ['invited']);
+    if (accept && group.status === 'closed') {
+      throw new RoommateError('This group is closed', 409);
+    }
+    await this.repository.setMemberStatus(groupId, userId, accept ? 'active' : 'declined');
+    return accept ? this.getGroup(groupId, userId) : null;
+  }
+
+  /**
+   * Leave the group (or drop an invitation); the last member out closes it
+   */
+  async leave(groupId: string, userId: string): Promise<void> {
+    const group = await this.loadGroup(groupId, userId, ['invited', 'active']);
+    await this.repository.setMemberStatus(groupId, userId, 'left');
+    if (activeMembers(group).every((member) => member.userId === userId)) {
+      await this.repository.updateGroup(groupId, { status: 'closed' });
+    }
+  }
+
+  async addToShortlist(groupId: string, userId: string, apartmentId: string, note: string | null): Promise<TalliedShortlistEntry[]> {
+    await this.loadGroup(groupId, userId, ['active']);
+    const listing = await this.repository.findListing(apartmentId);
+    if (!listing || listing.status !== 'published') {
+      throw new RoommateError('Listing not found', 404);
+    }
+    if (!(await this.repository.addToShortlist(groupId, apartmentId, userId, note))) {
+      throw new RoommateError('Already on the shortlist', 409);
+    }
+    // Suggesting a flat is a vote for it
+    await this.repository.vote(groupId, apartmentId, userId, 1);
+    return (await this.getGroup(groupId, userId)).shortlist;
+  }
+
+  async vote(groupId: string, userId: string, apartmentId: string, vote: 1 | -1): Promise<TalliedShortlistEntry[]> {
+    await this.loadGroup(groupId, userId, ['active']);
+    await this.findShortlisted(groupId, apartmentId);
+    await this.repository.vote(groupId, apartmentId, userId, vote);
+    return (await this.getGroup(groupId, userId)).shortlist;
+  }
+
+  /**
+   * Only whoever added a listing, or the group's creator, takes it off the shortlist
+   */
+  async removeFromShortlist(groupId: string, userId: string, apartmentId: string): Promise<void> {
+    const group = await this.loadGroup(groupId, userId, ['active']);
+    const entry = await this.findShortlisted(groupId, apartmentId);
+    if (entry.addedBy !== userId && group.createdBy !== userId) {
+      throw new RoommateError('Only whoever added it or the group creator can remove it', 403);
+    }
+    await this.repository.removeFromShortlist(groupId, apartmentId);
+  }
+
+  /**
+   * Open the group's conversation with the owner of a listing the members
+   * agreed on and add every active member to it. The first message is sent
+   * through /api/messages, encrypted by the client like any other.
+   */
+  async contactOwner(groupId: string, userId: string, apartmentId: string): Promise<GroupContact> {
+    const group = await this.loadGroup(groupId, userId, ['active']);
+    const active = activeMembers(group).map((member) => member.userId);
+    const [entry] = tallyShortlist([await this.findShortlisted(groupId, apartmentId)], active);
+    if (!entry.agreed) {
+      throw new RoommateError('More than half of the group has to vote for a listing before contacting the owner', 409);
+    }
+    const listing = await this.repository.findListing(apartmentId);
+    if (!listing || listing.status !== 'published') {
+      throw new RoommateError('Listing not found', 404);
+    }
+
+    const conversation = await this.repository.openGroupConversation(groupId, apartmentId, userId, listing.ownerId);
+    // Every addition rotates the conversation key, so only add who is missing
+    const participants = await this.repository.conversationParticipants(conversation.id);
+    for (const memberId of active.filter((id) => !participants.includes(id))) {
+      await this.addMember(conversation.studentId, conversation.id, memberId);
+    }
+    if (group.status === 'forming') {
+      await this.repository.updateGroup(groupId, { status: 'searching' });
+    }
+
+    return { conversationId: conversation.id, participantIds: [listing.ownerId, ...active] };
+  }
+
+  private async loadGroup(groupId: string, userId: string, statuses: MemberStatus[]): Promise<RoommateGroup> {
+    const group = await this.repository.getGroup(groupId);
+    const member = group?.members.find((candidate) => candidate.userId === userId);
+    if (!group || !member || (member.status !== 'active' && member.status !== 'invited')) {
+      throw new RoommateError('Group not found', 404);
+    }
+    if (!statuses.includes(member.status)) {
+      throw new RoommateError(member.status === 'invited' ? 'Accept the invitation first' : 'No pending invitation', 403);
+    }
+    return group;
+  }
+
+  private async findShortlisted(groupId: string, apartmentId: string): Promise<ShortlistEntry> {
+    const entry = (await this.repository.listShortlist(groupId)).find((item) => item.apartmentId === apartmentId);
+    if (!entry) {
+      throw new RoommateError('Not on the shortlist', 404);
+    }
+    return entry;
+  }
+}
+
+export const roommateService = new RoommateService();
@@ -1,4 +1,6 @@
 import { runQuery } from '@/lib/db/pool';
+import type { ReachDisc } from '@/lib/gtfs/isochrone';
+import { commuteService } from '../commute-svc';
 // Dynamic import for embeddings to avoid build issues
 let embeddingService: any = null;
 
@@ -33,6 +35,15 @@ export interface SearchFilters {
   furnished?: boolean;
   university?: string;
   maxCommute?: number;
+  // Isochrone filter: only apartments reachable from the origin within the budget
+  maxCommuteMinutes?: number;
+  commuteOrigin?: {
+    universityId?: string;
+    lat?: number;
+    lng?: number;
+  };
+  commuteMode?: 'walking' | 'bicycling' | 'transit' | 'driving';
+  departAt?: Date;
   district?: string;
   sortBy?: SortOption;
   limit?: number;
@@ -54,6 +65,7 @@ export interface SearchResult {
     owner: {
       name: string;
       verified: boolean;
+      universityVerified: boolean;
     };
     metrics: {
       mediaQuality: number | null;
@@ -87,6 +99,11 @@ export class SearchServiceImpl {
     const location = filters.location ?? DEFAULT_LOCATION;
     params.push(location.lng, location.lat);
 
+    const reach = await this.resolveCommuteReach(filters);
+    const reachSource = reach
+      ? { from: this.pushReachParams(reach.discs, params), speedIdx: params.push(reach.metersPerMinute) }
+      : null;
+
     sqlParts.push(`
       SELECT
         a.id,
@@ -102,6 +119,10 @@ export class SearchServiceImpl {
         array_agg(COALESCE(am.variants->>'large', am.variants->>'medium', am.file_path)) AS photo_urls,
         po.full_name AS owner_name,
         (po.verification_status = 'verified') AS owner_verified,
+        EXISTS (
+          SELECT 1 FROM public.user_profiles up
+          WHERE up.user_id = a.owner_id AND up.university_verified_at IS NOT NULL
+        ) AS owner_university_verified,
         ST_Distance(
           a.geom::geography,
           ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography
@@ -113,7 +134,11 @@ export class SearchServiceImpl {
          ORDER BY ps.created_at DESC
          LIMIT 1) AS suggested_price,
         a.media_quality_score,
-        a.completeness_score
+        a.completeness_score${reachSource ? `,
+        (SELECT MIN(r.elapsed / 60.0 + ST_Distance(a.geom::geography, ST_SetSRID(ST_MakePoint(r.lng, r.lat), 4326)::geography) / $${reachSource.speedIdx}::float8)
+         FROM ${reachSource.from}
+         WHERE ST_DWithin(a.geom::geography, ST_SetSRID(ST_MakePoint(r.lng, r.lat), 4326)::geography, r.radius)
+        )::float8 AS commute_minutes` : ''}
       FROM public.apartments a
       LEFT JOIN public.apartment_amenities aa ON aa.apartment_id = a.id
       LEFT JOIN public.amenities amen ON amen.id = aa.amenity_id
@@ -147,6 +172,10 @@ export class SearchServiceImpl {
       sqlParts.push(`AND ST_DWithin(a.geom::geography, ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography, $${params.length})`);
     }
 
+    if (reachSource) {
+      sqlParts.push(`AND ${this.buildReachCondition(reachSource.from)}`);
+    }
+
     if (filters.amenities?.length) {
       params.push(filters.amenities);
       sqlParts.push(`
@@ -245,6 +274,11 @@ export class SearchServiceImpl {
       );
     }
 
+    const reach = await this.resolveCommuteReach(filters);
+    if (reach) {
+      conditions.push(this.buildReachCondition(this.pushReachParams(reach.discs, params)));
+    }
+
     if (filters.amenities?.length) {
       params.push(filters.amenities);
       joins.push('JOIN public.apartment_amenities aa ON aa.apartment_id = a.id');
@@ -326,6 +360,10 @@ export class SearchServiceImpl {
         array_agg(COALESCE(am.variants->>'large', am.variants->>'medium', am.file_path)) AS photo_urls,
         po.full_name AS owner_name,
         (po.verification_status = 'verified') AS owner_verified,
+        EXISTS (
+          SELECT 1 FROM public.user_profiles up
+          WHERE up.user_id = a.owner_id AND up.university_verified_at IS NOT NULL
+        ) AS owner_university_verified,
         a.media_quality_score,
         a.completeness_score,
         a.commute_cache
@@ -379,6 +417,10 @@ export class SearchServiceImpl {
         array_agg(COALESCE(am.variants->>'large', am.variants->>'medium', am.file_path)) AS photo_urls,
         po.full_name AS owner_name,
         (po.verification_status = 'verified') AS owner_verified,
+        EXISTS (
+          SELECT 1 FROM public.user_profiles up
+          WHERE up.user_id = a.owner_id AND up.university_verified_at IS NOT NULL
+        ) AS owner_university_verified,
         a.media_quality_score,
         a.completeness_score,
         a.commute_cache,
@@ -460,6 +502,55 @@ export class SearchServiceImpl {
       .slice(0, DEFAULT_LIMIT);
   }
 
+  /**
+   * Reachable area for the isochrone filter, or null when the filter is not set.
+   * The origin defaults to the university filter.
+   */
+  private async resolveCommuteReach(
+    filters: SearchFilters,
+  ): Promise<{ discs: ReachDisc[]; metersPerMinute: number } | null> {
+    if (typeof filters.maxCommuteMinutes !== 'number' || filters.maxCommuteMinutes <= 0) {
+      return null;
+    }
+
+    const origin = filters.commuteOrigin ?? { universityId: filters.university };
+    const hasPoint = typeof origin.lat === 'number' && typeof origin.lng === 'number';
+    if (!origin.universityId && !hasPoint) {
+      return null;
+    }
+
+    const isochrone = await commuteService.computeIsochrone(
+      {
+        universityId: origin.universityId,
+        location: hasPoint ? { lat: origin.lat!, lng: origin.lng! } : undefined,
+      },
+      filters.commuteMode ?? 'transit',
+      filters.maxCommuteMinutes,
+      filters.departAt,
+    );
+    return { discs: isochrone.discs, metersPerMinute: isochrone.metersPerMinute };
+  }
+
+  /**
+   * Push the discs as parallel arrays and return the FROM item that unnests them
+   */
+  private pushReachParams(discs: ReachDisc[], params: any[]): string {
+    const latIdx = params.push(discs.map((disc) => disc.lat));
+    const lngIdx = params.push(discs.map((disc) => disc.lng));
+    const radiusIdx = params.push(discs.map((disc) => disc.radiusMeters));
+    const elapsedIdx = params.push(discs.map((disc) => disc.elapsedSeconds));
+
+    return `unnest($${latIdx}::float8[], $${lngIdx}::float8[], $${radiusIdx}::float8[], $${elapsedIdx}::float8[]) AS r(lat, lng, radius, elapsed)`;
+  }
+
+  private buildReachCondition(from: string): string {
+    return `EXISTS (
+          SELECT 1
+          FROM ${from}
+          WHERE ST_DWithin(a.geom::geography, ST_SetSRID(ST_MakePoint(r.lng, r.lat), 4326)::geography, r.radius)
+        )`;
+  }
+
   private buildSortClause(sortBy?: SortOption, hasLocation = true): string {
     switch (sortBy) {
       case 'price_asc':
@@ -542,6 +633,11 @@ export class SearchServiceImpl {
       reasonCodes.add('verified_owner');
     }
 
+    if (row.owner_university_verified) {
+      reasons.add('Listed by a university-verified student');
+      reasonCodes.add('university_verified');
+    }
+
     if (mediaQuality !== null && mediaQuality > 0.75) {
       reasons.add('High-quality photos');
       reasonCodes.add('high_media_quality');
@@ -590,6 +686,7 @@ export class SearchServiceImpl {
         owner: {
           name: row.owner_name ?? 'Owner',
           verified: ownerVerified,
+          universityVerified: Boolean(row.owner_university_verified),
         },
         metrics: {
           mediaQuality,
@@ -627,6 +724,7 @@ export class SearchServiceImpl {
         owner: {
           name: hit.owner_name || 'Owner',
           verified: Boolean(hit.owner_verified),
+          universityVerified: Boolean(hit.owner_university_verified),
         },
         metrics: {
           mediaQuality: hit.media_quality_score ?? null,
@@ -0,0 +1,486 @@
+// Saved-search alerts, evaluated per listing event
+// The apartments_queue_listing_match trigger queues a saved_search.match job
+// whenever a listing is published or its price, bedrooms, district or
+// furnishing changes. The job asks the saved_searches indexes for the
+// searches whose district list, price range and bedroom minimum admit the
+// listing, records one match per user and listing (the dedupe), and delivers
+// it at once to users on instant alerts. Daily and weekly users get their
+// pending matches from flushBatches, run by the saved-search-alerts cron.
+
+import { runQuery } from '@/lib/db/pool';
+import { escapeHtml } from '@/lib/validation/sanitizer';
+import { notificationService, type NotificationRecipient } from '@/services/notify-svc';
+import { districtNumber } from '@/services/pricing-svc/model';
+import { formatPrice } from '@/utils/formatPrice';
+
+export type AlertFrequency = 'instant' | 'daily' | 'weekly';
+export type AlertChannel = 'email' | 'push' | 'sms' | 'in_app';
+export type MatchStatus = 'pending' | 'sent' | 'withdrawn';
+
+export const ALERT_FREQUENCIES: AlertFrequency[] = ['instant', 'daily', 'weekly'];
+export const ALERT_CHANNELS: AlertChannel[] = ['email', 'push', 'sms', 'in_app'];
+export const DEFAULT_ALERT_CHANNELS: AlertChannel[] = ['email', 'in_app'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const BATCH_INTERVAL_MS: Record<Exclude<AlertFrequency, 'instant'>, number> = {
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS,
+};
+/** Instant matches still pending after this long lost their job; the next batch run sends them */
+export const INSTANT_RETRY_AFTER_MS = HOUR_MS;
+export const MAX_BATCH_LISTINGS = 10;
+
+export interface AlertListing {
+  id: string;
+  ownerId: string | null;
+  title: string;
+  address: string | null;
+  district: number | null;
+  priceHuf: number;
+  bedrooms: number;
+  furnished: boolean;
+  status: string;
+}
+
+export interface SavedSearchCriteria {
+  id: string;
+  userId: string;
+  name: string;
+  /** Empty means any district */
+  districts: number[];
+  minPrice: number | null;
+  maxPrice: number | null;
+  /** Minimum number of bedrooms */
+  bedrooms: number | null;
+  /** Only furnished flats */
+  furnished: boolean;
+}
+
+export interface AlertSubscriber {
+  userId: string;
+  email: string;
+  phone: string | null;
+  frequency: AlertFrequency;
+  channels: AlertChannel[];
+  lastBatchAt: Date | null;
+}
+
+export interface CandidateSearch extends SavedSearchCriteria {
+  subscriber: AlertSubscriber;
+}
+
+export interface SavedSearchMatch {
+  id: string;
+  userId: string;
+  savedSearchId: string;
+  apartmentId: string;
+  priceHuf: number;
+  status: MatchStatus;
+  matchedAt: Date;
+  sentAt: Date | null;
+}
+
+export type NewMatch = Pick<SavedSearchMatch, 'userId' | 'savedSearchId' | 'priceHuf'>;
+
+export interface PendingMatch {
+  match: SavedSearchMatch;
+  searchName: string;
+  /** The listing as it is now, not as it was when it matched */
+  listing: AlertListing;
+  subscriber: AlertSubscriber;
+}
+
+export interface MatchReport {
+  apartmentId: string;
+  status: 'matched' | 'unpublished';
+  matched: number;
+  delivered: number;
+  queued: number;
+}
+
+export interface BatchReport {
+  users: number;
+  sent: number;
+  withdrawn: number;
+}
+
+/**
+ * Saved-search alert failure with the HTTP status the API should answer with
+ */
+export class SearchAlertError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 404
+  ) {
+    super(message);
+    this.name = 'SearchAlertError';
+  }
+}
+
+/**
+ * A saved search's districts as numbers 1-23; anything else is dropped, and none means any district
+ */
+export function normalizeDistricts(value: unknown): number[] {
+  if (!Array.isArray(value)) return [];
+  return Array.from(new Set(value.map(Number).filter((district) => Number.isInteger(district) && district >= 1 && district <= 23)));
+}
+
+/**
+ * Full check of one listing against one search; the repository's index
+ * lookup may return searches that fail it
+ */
+export function matchesSearch(search: SavedSearchCriteria, listing: AlertListing): boolean {
+  if (search.districts.length > 0 && (listing.district === null || !search.districts.includes(listing.district))) {
+    return false;
+  }
+  if (search.minPrice !== null && listing.priceHuf < search.minPrice) return false;
+  if (search.maxPrice !== null && listing.priceHuf > search.maxPrice) return false;
+  if (search.bedrooms !== null && listing.bedrooms < search.bedrooms) return false;
+  if (search.furnished && !listing.furnished) return false;
+  return true;
+}
+
+/**
+ * Whether a user's pending matches go out on this run, and which of them
+ */
+export function dueMatches(pending: PendingMatch[], now: Date): PendingMatch[] {
+  if (pending.length === 0) return [];
+  const { frequency, lastBatchAt } = pending[0].subscriber;
+  if (frequency === 'instant') {
+    return pending.filter((item) => now.getTime() - item.match.matchedAt.getTime() >= INSTANT_RETRY_AFTER_MS);
+  }
+  // A first batch waits a full interval after the oldest match, like every later one
+  const since = lastBatchAt ?? new Date(Math.min(...pending.map((item) => item.match.matchedAt.getTime())));
+  return now.getTime() - since.getTime() >= BATCH_INTERVAL_MS[frequency] ? pending : [];
+}
+
+export function recipientFor(subscriber: AlertSubscriber): NotificationRecipient {
+  return {
+    userId: subscriber.userId,
+    email: subscriber.email,
+    phone: subscriber.phone ?? undefined,
+    preferences: {
+      email: subscriber.channels.includes('email'),
+      push: subscriber.channels.includes('push'),
+      sms: subscriber.channels.includes('sms'),
+      inApp: subscriber.channels.includes('in_app'),
+    },
+  };
+}
+
+export interface SavedSearchAlertRepository {
+  findListing(apartmentId: string): Promise<AlertListing | null>;
+  /** Searches whose district, price and bedroom ranges admit the listing, never the owner's */
+  candidateSearches(listing: AlertListing): Promise<CandidateSearch[]>;
+  /**
+   * Records the matches a user does not have yet; returns every still-pending
+   * match of these users for the listing, including ones left over from a
+   * failed attempt
+   */
+  recordMatches(apartmentId: string, matches: NewMatch[]): Promise<SavedSearchMatch[]>;
+  listPending(): Promise<PendingMatch[]>;
+  markSent(matchIds: string[], at: Date): Promise<void>;
+  markWithdrawn(matchIds: string[]): Promise<void>;
+  markBatchSent(userId: string, at: Date): Promise<void>;
+}
+
+export type InstantAlertNotifier = (
+  subscriber: AlertSubscriber,
+  listing: AlertListing,
+  match: SavedSearchMatch,
+  searchName: string
+) => Promise<void>;
+
+export type BatchAlertNotifier = (subscriber: AlertSubscriber, items: PendingMatch[]) => Promise<void>;
+
+const toDate = (value: any): Date | null => (value ? new Date(value) : null);
+
+function mapListing(row: any): AlertListing {
+  return {
+    id: row.id,
+    ownerId: row.owner_id,
+    title: row.title,
+    address: row.address,
+    district: districtNumber(row.district),
+    priceHuf: Number(row.monthly_rent_huf),
+    bedrooms: Number(row.bedrooms),
+    furnished: Boolean(row.furnished),
+    status: row.status,
+  };
+}
+
+function mapSubscriber(row: any): AlertSubscriber {
+  return {
+    userId: row.user_id,
+    email: row.email,
+    phone: row.phone,
+    frequency: row.alert_frequency,
+    channels: row.alert_channels,
+    lastBatchAt: toDate(row.last_alert_batch_at),
+  };
+}
+
+function mapCandidate(row: any): CandidateSearch {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    districts: (row.districts ?? []).map(Number),
+    minPrice: row.min_price === null ? null : Number(row.min_price),
+    maxPrice: row.max_price === null ? null : Number(row.max_price),
+    bedrooms: row.bedrooms === null ? null : Number(row.bedrooms),
+    furnished: Boolean(row.furnished),
+    subscriber: mapSubscriber(row),
+  };
+}
+
+function mapMatch(row: any): SavedSearchMatch {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    savedSearchId: row.saved_search_id,
+    apartmentId: row.apartment_id,
+    priceHuf: Number(row.price_huf),
+    status: row.status,
+    matchedAt: new Date(row.matched_at),
+    sentAt: toDate(row.sent_at),
+  };
+}
+
+// No preferences row means instant alerts on the default channels
+const SUBSCRIBER_COLUMNS = `
+  p.email,
+  p.phone,
+  COALESCE(dp.alert_frequency, 'instant') AS alert_frequency,
+  COALESCE(dp.alert_channels, ARRAY['email', 'in_app']) AS alert_channels,
+  dp.last_alert_batch_at`;
+
+export class PostgresSavedSearchAlertRepository implements SavedSearchAlertRepository {
+  async findListing(apartmentId: string): Promise<AlertListing | null> {
+    const { rows } = await runQuery(
+      `SELECT id, owner_id, title, address, district, monthly_rent_huf, bedrooms, furnished, status
+       FROM public.apartments WHERE id = $1`,
+      [apartmentId]
+    );
+    return rows[0] ? mapListing(rows[0]) : null;
+  }
+
+  async candidateSearches(listing: AlertListing): Promise<CandidateSearch[]> {
+    const { rows } = await runQuery(
+      `SELECT s.id, s.user_id, s.name, s.districts, s.min_price, s.max_price, s.bedrooms, s.furnished,
+         ${SUBSCRIBER_COLUMNS}
+       FROM public.saved_searches s
+       JOIN public.profiles p ON p.id = s.user_id
+       LEFT JOIN public.digest_preferences dp ON dp.user_id = s.user_id
+       WHERE COALESCE(s.is_active, true) AND COALESCE(s.email_alerts_enabled, true)
+         AND s.price_range @> $1::integer
+         AND (s.districts = '{}' OR s.districts @> ARRAY[$2::smallint])
+         AND (s.bedrooms IS NULL OR s.bedrooms <= $3)
+         AND s.user_id IS DISTINCT FROM $4
+         AND p.email IS NOT NULL
+       ORDER BY s.created_at`,
+      [listing.priceHuf, listing.district, listing.bedrooms, listing.ownerId]
+    );
+    return rows.map(mapCandidate);
+  }
+
+  async recordMatches(apartmentId: string, matches: NewMatch[]): Promise<SavedSearchMatch[]> {
+    if (matches.length === 0) return [];
+    const userIds = matches.map((match) => match.userId);
+    await runQuery(
+      `INSERT INTO public.saved_search_matches (user_id, saved_search_id, apartment_id, price_huf)
+       SELECT m.user_id, m.saved_search_id, $1, m.price_huf
+       FROM unnest($2::uuid[], $3::uuid[], $4::integer[]) AS m(user_id, saved_search_id, price_huf)
+       ON CONFLICT (user_id, apartment_id) DO NOTHING`,
+      [apartmentId, userIds, matches.map((match) => match.savedSearchId), matches.map((match) => match.priceHuf)]
+    );
+    const { rows } = await runQuery(
+      `SELECT * FROM public.saved_search_matches
+       WHERE apartment_id = $1 AND user_id = ANY($2) AND status = 'pending'`,
+      [apartmentId, userIds]
+    );
+    return rows.map(mapMatch);
+  }
+
+  async listPending(): Promise<PendingMatch[]> {
+    const { rows } = await runQuery(
+      `SELECT m.*, s.name AS search_name,
+         a.owner_id, a.title, a.address, a.district, a.monthly_rent_huf, a.bedrooms, a.furnished, a.status AS listing_status,
+         ${SUBSCRIBER_COLUMNS}
+       FROM public.saved_search_matches m
+       JOIN public.saved_searches s ON s.id = m.saved_search_id
+       JOIN public.apartments a ON a.id = m.apartment_id
+       JOIN public.profiles p ON p.id = m.user_id
+       LEFT JOIN public.digest_preferences dp ON dp.user_id = m.user_id
+       WHERE m.status = 'pending'
+       ORDER BY m.user_id, m.matched_at`
+    );
+    return rows.map((row: any) => ({
+      match: mapMatch(row),
+      searchName: row.search_name,
+      listing: mapListing({ ...row, id: row.apartment_id, status: row.listing_status }),
+      subscriber: mapSubscriber(row),
+    }));
+  }
+
+  async markSent(matchIds: string[], at: Date): Promise<void> {
+    if (matchIds.length === 0) return;
+    await runQuery(
+      `UPDATE public.saved_search_matches SET status = 'sent', sent_at = $2
+       WHERE id = ANY($1) AND status = 'pending'`,
+      [matchIds, at]
+    );
+  }
+
+  async markWithdrawn(matchIds: string[]): Promise<void> {
+    if (matchIds.length === 0) return;
+    await runQuery(
+      `UPDATE public.saved_search_matches SET status = 'withdrawn'
+       WHERE id = ANY($1) AND status = 'pending'`,
+      [matchIds]
+    );
+  }
+
+  async markBatchSent(userId: string, at: Date): Promise<void> {
+    await runQuery('UPDATE public.digest_preferences SET last_alert_batch_at = $2 WHERE user_id = $1', [userId, at]);
+  }
+}
+
+const listingUrl = (listing: AlertListing) => `${process.env.NEXT_PUBLIC_APP_URL || ''}/apartments/${listing.id}`;
+
+export const notifyInstantMatch: InstantAlertNotifier = async (subscriber, listing, match, searchName) => {
+  await notificationService.sendBulkNotifications(
+    [
+      {
+        templateId: 'saved_search_match',
+        recipient: recipientFor(subscriber),
+        variables: {
+          searchName,
+          title: listing.title,
+          address: listing.address || (listing.district ? `District ${listing.district}, Budapest` : 'Budapest'),
+          price: formatPrice(listing.priceHuf),
+          bedrooms: listing.bedrooms,
+          apartmentUrl: listingUrl(listing),
+        },
+        priority: 'high',
+      },
+    ],
+    { idempotencyPrefix: `search-match:${match.id}` }
+  );
+};
+
+export const notifyMatchBatch: BatchAlertNotifier = async (subscriber, items) => {
+  const shown = items.slice(0, MAX_BATCH_LISTINGS);
+  const matchList = shown
+    .map(
+      ({ listing, searchName }) =>
+        `<li><a href="${listingUrl(listing)}">${escapeHtml(listing.title)}</a>: ${formatPrice(listing.priceHuf)}, ` +
+        `${listing.bedrooms} bedroom(s) <small>(${escapeHtml(searchName)})</small></li>`
+    )
+    .join('');
+
+  await notificationService.sendBulkNotifications(
+    [
+      {
+        templateId: 'saved_search_batch',
+        recipient: recipientFor(subscriber),
+        variables: {
+          matchCount: items.length,
+          matchList: `<ul>${matchList}</ul>${items.length > shown.length ? `<p>and ${items.length - shown.length} more</p>` : ''}`,
+          searchesUrl: `${process.env.NEXT_PUBLIC_APP_URL || ''}/dashboard/saved-searches`,
+        },
+        priority: 'normal',
+      },
+    ],
+    { idempotencyPrefix: `search-batch:${items[0].match.id}` }
+  );
+};
+
+export class SavedSearchAlertService {
+  constructor(
+    private repository: SavedSearchAlertRepository = new PostgresSavedSearchAlertRepository(),
+    private notifyInstant: InstantAlertNotifier = notifyInstantMatch,
+    private notifyBatch: BatchAlertNotifier = notifyMatchBatch,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Evaluate one published or changed listing against every saved search
+   */
+  async matchListing(apartmentId: string): Promise<MatchReport> {
+    const listing = await this.repository.findListing(apartmentId);
+    if (!listing) {
+      throw new SearchAlertError('Listing not found', 404);
+    }
+    if (listing.status !== 'published') {
+      return { apartmentId, status: 'unpublished', matched: 0, delivered: 0, queued: 0 };
+    }
+
+    // A user with several matching searches hears about the listing once, via the oldest search
+    const byUser = new Map<string, CandidateSearch>();
+    for (const search of await this.repository.candidateSearches(listing)) {
+      if (search.userId !== listing.ownerId && matchesSearch(search, listing) && !byUser.has(search.userId)) {
+        byUser.set(search.userId, search);
+      }
+    }
+
+    const pending = await this.repository.recordMatches(
+      listing.id,
+      [...byUser.values()].map((search) => ({ userId: search.userId, savedSearchId: search.id, priceHuf: listing.priceHuf }))
+    );
+
+    const instant = pending.filter((match) => byUser.get(match.userId)?.subscriber.frequency === 'instant');
+    for (const match of instant) {
+      const search = byUser.get(match.userId)!;
+      await this.notifyInstant(search.subscriber, listing, match, search.name);
+    }
+    await this.repository.markSent(instant.map((match) => match.id), this.now());
+
+    return {
+      apartmentId,
+      status: 'matched',
+      matched: byUser.size,
+      delivered: instant.length,
+      queued: pending.length - instant.length,
+    };
+  }
+
+  /**
+   * Send the daily and weekly batches that are due, plus instant stragglers
+   */
+  async flushBatches(): Promise<BatchReport> {
+    const now = this.now();
+    const byUser = new Map<string, PendingMatch[]>();
+    for (const item of await this.repository.listPending()) {
+      byUser.set(item.match.userId, [...(byUser.get(item.match.userId) ?? []), item]);
+    }
+
+    const report: BatchReport = { users: 0, sent: 0, withdrawn: 0 };
+    for (const [userId, pending] of byUser) {
+      const due = dueMatches(pending, now);
+      if (due.length === 0) continue;
+
+      // Listings taken down since they matched are not worth a click any more
+      const live = due.filter((item) => item.listing.status === 'published');
+      const gone = due.filter((item) => item.listing.status !== 'published');
+      const subscriber = due[0].subscriber;
+
+      if (live.length > 0) {
+        await this.notifyBatch(subscriber, live);
+        await this.repository.markSent(live.map((item) => item.match.id), now);
+        report.users++;
+        report.sent += live.length;
+      }
+      await this.repository.markWithdrawn(gone.map((item) => item.match.id));
+      report.withdrawn += gone.length;
+      if (subscriber.frequency !== 'instant') {
+        await this.repository.markBatchSent(userId, now);
+      }
+    }
+
+    return report;
+  }
+}
+
+export const savedSearchAlertService = new SavedSearchAlertService();
@@ -2,6 +2,15 @@
 // Monitors suspicious activities and ensures platform security
 
 import { createClient, createServiceClient } from '@/utils/supabaseClient';
+import { ModerationContentType, ModerationInput, ruleClassifiers } from '@/lib/trust-safety/classifiers';
+import { createLLMClassifier } from '@/lib/trust-safety/llm-classifier';
+import {
+  DEFAULT_POLICY,
+  describeResult,
+  ModerationDecision,
+  ModerationPipeline,
+  ModerationResult,
+} from '@/lib/trust-safety/pipeline';
 
 export interface SafetyAlert {
   id: string;
@@ -38,7 +47,34 @@ export interface FraudPattern {
   actions: string[];
 }
 
+export interface ModerationContext {
+  authorId: string;
+  /** Id of the message, listing or review being classified */
+  contentId?: string;
+  apartmentId?: string;
+}
+
+export interface ContentReview {
+  safe: boolean;
+  issues: string[];
+  decision: ModerationDecision;
+  confidence: number;
+  labels: ModerationResult['labels'];
+}
+
+function siteDomains(): string[] {
+  try {
+    return process.env.NEXT_PUBLIC_APP_URL ? [new URL(process.env.NEXT_PUBLIC_APP_URL).hostname] : [];
+  } catch {
+    return [];
+  }
+}
+
 export class TrustSafetyService {
+  private moderationPipeline = new ModerationPipeline(ruleClassifiers({ trustedDomains: siteDomains() }), {
+    fallback: createLLMClassifier(),
+  });
+
   private fraudPatterns: FraudPattern[] = [
     {
       pattern: 'duplicate_listing',
@@ -146,35 +182,43 @@ export class TrustSafetyService {
     return alert;
   }
 
-  async reviewContent(
-    content: string,
-    contentType: 'message' | 'listing' | 'review'
-  ): Promise<{ safe: boolean; issues: string[] }> {
-    const issues: string[] = [];
-
-    // Check for offensive language
-    const offensiveWords = await this.getOffensiveWords();
-    const foundOffensive = offensiveWords.filter(word =>
-      content.toLowerCase().includes(word.toLowerCase())
-    );
-
-    if (foundOffensive.length > 0) {
-      issues.push(`Contains offensive language: ${foundOffensive.join(', ')}`);
+  /**
+   * Classify a message, listing or review. Anything that reaches a review
+   * threshold is recorded in content_moderation; review and block decisions
+   * also go to the moderation queue. Set `fallback: false` on latency-sensitive
+   * paths to skip the LLM.
+   */
+  async classifyContent(
+    input: ModerationInput,
+    context?: ModerationContext,
+    options: { fallback?: boolean } = {}
+  ): Promise<ModerationResult & { moderationId?: string }> {
+    const result = await this.moderationPipeline.classify(input, options);
+
+    if (!context || !this.flaggedLabels(result).length) {
+      return result;
     }
 
-    // Check for spam patterns
-    if (this.isSpam(content)) {
-      issues.push('Detected as potential spam');
+    const moderationId = await this.storeModerationResult(input, context, result);
+    if (result.decision !== 'allow') {
+      await this.queueForReview(input.contentType, context, result, moderationId);
     }
+    return { ...result, moderationId };
+  }
 
-    // Check for contact information sharing (against policy)
-    if (this.containsContactInfo(content)) {
-      issues.push('Contains contact information sharing');
-    }
+  async reviewContent(
+    content: string,
+    contentType: ModerationContentType,
+    context?: ModerationContext
+  ): Promise<ContentReview> {
+    const result = await this.classifyContent({ text: content, contentType }, context);
 
     return {
-      safe: issues.length === 0,
-      issues,
+      safe: result.decision === 'allow',
+      issues: describeResult(result),
+      decision: result.decision,
+      confidence: result.confidence,
+      labels: result.labels,
     };
   }
 
@@ -196,7 +240,7 @@ export class TrustSafetyService {
     }
 
     // Check description quality
-    if (listing.description.length < 50) {
+    if ((listing.description ?? '').length < 50) {
       issues.push('Description too short');
       suggestions.push('Provide detailed description including amenities and location');
     }
@@ -207,6 +251,16 @@ export class TrustSafetyService {
       suggestions.push('Verify pricing is within market range');
     }
 
+    // Scam, contact and link checks on the listing text
+    const contentReview = await this.reviewContent(
+      [listing.title, listing.description].filter(Boolean).join('\n\n'),
+      'listing'
+    );
+    if (!contentReview.safe) {
+      issues.push(...contentReview.issues);
+      suggestions.push('Remove contact details, external payment instructions and links; payments go through the platform');
+    }
+
     // Check for duplicate listings
     const duplicates = await this.findDuplicateListings(apartmentId);
     if (duplicates.length > 0) {
@@ -299,20 +353,6 @@ export class TrustSafetyService {
     return `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  private isSpam(content: string): boolean {
-    // Simple spam detection
-    const spamIndicators = ['buy now', 'limited time', 'urgent', 'free money'];
-    return spamIndicators.some(indicator => content.toLowerCase().includes(indicator));
-  }
-
-  private containsContactInfo(content: string): boolean {
-    // Check for phone numbers, emails, etc.
-    const phoneRegex = /\+\d{1,3}[\s-]?\d{1,4}[\s-]?\d{1,4}[\s-]?\d{1,4}/;
-    const emailRegex = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/;
-
-    return phoneRegex.test(content) || emailRegex.test(content);
-  }
-
   // Database persistence methods - Now with real Supabase integration
   private async storeRiskScore(score: UserRiskScore): Promise<void> {
     const supabase = createServiceClient();
@@ -353,6 +393,85 @@ export class TrustSafetyService {
     }
   }
 
+  private flaggedLabels(result: ModerationResult): string[] {
+    return result.labels
+      .filter(({ label, confidence }) => confidence >= DEFAULT_POLICY[label].review)
+      .map(({ label }) => label);
+  }
+
+  private async storeModerationResult(
+    input: ModerationInput,
+    context: ModerationContext,
+    result: ModerationResult
+  ): Promise<string | undefined> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('content_moderation')
+      .insert({
+        user_id: context.authorId,
+        content_type: input.contentType,
+        content_id: context.contentId ?? context.apartmentId ?? null,
+        content: input.text,
+        moderation_result: {
+          signals: result.signals,
+          classifiers: result.classifiers,
+          fallbackUsed: result.fallbackUsed,
+        },
+        decision: result.decision,
+        labels: this.flaggedLabels(result),
+        confidence: result.confidence,
+        classifiers: result.classifiers,
+        reason: describeResult(result).join('\n'),
+        severity: result.decision === 'block' ? 'high' : result.decision === 'review' ? 'medium' : 'low',
+        status: result.decision === 'allow' ? 'approved' : 'pending',
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Failed to store moderation result:', error);
+      return undefined;
+    }
+    return data.id;
+  }
+
+  private async queueForReview(
+    contentType: ModerationContentType,
+    context: ModerationContext,
+    result: ModerationResult,
+    moderationId?: string
+  ): Promise<void> {
+    const supabase = createServiceClient();
+    const contentId = context.contentId ?? context.apartmentId ?? null;
+    const item = {
+      apartment_id: context.apartmentId ?? null,
+      content_type: contentType,
+      content_id: contentId,
+      content_moderation_id: moderationId ?? null,
+      reason: describeResult(result).join('\n'),
+      severity: result.decision === 'block' ? 'high' : 'medium',
+      labels: this.flaggedLabels(result),
+      confidence: result.confidence,
+    };
+
+    // An edit re-classifies the content; keep one open item per piece of content
+    const { data: existing } = await supabase
+      .from('moderation_queue')
+      .select('id')
+      .eq('content_type', contentType)
+      .eq('content_id', contentId)
+      .eq('status', 'pending')
+      .maybeSingle();
+
+    const { error } = existing
+      ? await supabase.from('moderation_queue').update(item).eq('id', existing.id)
+      : await supabase.from('moderation_queue').insert({ ...item, status: 'pending' });
+
+    if (error) {
+      console.error('Failed to queue content for review:', error);
+    }
+  }
+
   private async restrictUser(userId: string, reason: string): Promise<void> {
     const supabase = createServiceClient();
 
@@ -492,14 +611,6 @@ export class TrustSafetyService {
     return null;
   }
 
-  private async getOffensiveWords(): Promise<string[]> {
-    // Standard offensive word list for content moderation
-    return [
-      'offensive1', 'offensive2', 'spam', 'scam', 'fraud'
-      // In production, this would come from a database
-    ];
-  }
-
   private async getListingDetails(apartmentId: string): Promise<any> {
     const supabase = createClient();
     const { data } = await supabase
@@ -0,0 +1,585 @@
+// Verification documents - storage and the admin review workflow
+// Uploads go to a private bucket through the storage adapter (lib/storage);
+// rows keep the storage key, reviewers get short-lived signed URLs. A
+// reviewer approves, rejects or asks for more information; ID documents are
+// deleted from storage and their extracted data redacted after a retention
+// period, scheduled on the job queue. Every upload, view, decision and
+// redaction is written to audit_logs.
+
+import { randomUUID } from 'crypto';
+import { runQuery } from '@/lib/db/pool';
+import { getDocumentStorage, type StorageAdapter, type StorageDriverName } from '@/lib/storage';
+import { JOB_QUEUES, jobQueue } from '@/services/job-queue-svc';
+import { notificationService } from '@/services/notify-svc';
+
+export type DocumentType =
+  | 'id_card'
+  | 'passport'
+  | 'drivers_license'
+  | 'student_id'
+  | 'address_proof'
+  | 'property_deed'
+  | 'utility_bill'
+  | 'bank_statement';
+
+export type DocumentStatus = 'pending' | 'approved' | 'rejected' | 'more_info_requested';
+
+export type ReviewAction = 'approve' | 'reject' | 'request_more_info';
+
+export const DOCUMENT_TYPES: DocumentType[] = [
+  'id_card',
+  'passport',
+  'drivers_license',
+  'student_id',
+  'address_proof',
+  'property_deed',
+  'utility_bill',
+  'bank_statement',
+];
+
+// Identity documents carry personal data we only keep while it is needed
+export const ID_DOCUMENT_TYPES: DocumentType[] = ['id_card', 'passport', 'drivers_license', 'student_id'];
+
+export const DOCUMENT_LABELS: Record<DocumentType, string> = {
+  id_card: 'ID card',
+  passport: 'passport',
+  drivers_license: "driver's license",
+  student_id: 'student ID',
+  address_proof: 'address proof',
+  property_deed: 'property document',
+  utility_bill: 'utility bill',
+  bank_statement: 'bank statement',
+};
+
+// Days an ID document is kept after the decision: approved ones for
+// disputes, rejected ones for appeals
+export const RETENTION_DAYS: Record<Exclude<DocumentStatus, 'pending'>, number> = {
+  approved: 7,
+  rejected: 30,
+  more_info_requested: 30,
+};
+
+export const REVIEWER_URL_TTL_SECONDS = 5 * 60;
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+export const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+};
+
+export interface VerificationDocument {
+  id: string;
+  userId: string;
+  documentType: DocumentType;
+  status: DocumentStatus;
+  storageDriver: StorageDriverName | null;
+  storageKey: string | null;
+  fileName: string | null;
+  contentType: string | null;
+  sizeBytes: number | null;
+  sha256: string | null;
+  aiAnalysis: Record<string, any> | null;
+  reviewNotes: string | null;
+  decisionReason: string | null;
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  submittedAt: Date;
+  replacesId: string | null;
+  redactAfter: Date | null;
+  redactedAt: Date | null;
+}
+
+export type NewDocument = Pick<
+  VerificationDocument,
+  'userId' | 'documentType' | 'storageDriver' | 'storageKey' | 'fileName' | 'contentType' | 'sizeBytes' | 'sha256' | 'replacesId'
+>;
+
+export interface DocumentDecision {
+  status: Exclude<DocumentStatus, 'pending'>;
+  reviewedBy: string;
+  reviewedAt: Date;
+  reviewNotes: string | null;
+  decisionReason: string | null;
+  redactAfter: Date | null;
+}
+
+export interface AuditEvent {
+  event: string;
+  actorId: string | null;
+  actorRole: 'user' | 'admin' | 'system';
+  documentId: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Review failure with the HTTP status the API should answer with
+ */
+export class DocumentReviewError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 404 | 409
+  ) {
+    super(message);
+    this.name = 'DocumentReviewError';
+  }
+}
+
+export interface DocumentRepository {
+  insert(document: NewDocument, submittedAt: Date): Promise<VerificationDocument>;
+  findById(id: string): Promise<VerificationDocument | null>;
+  /** Newest document of the type waiting on the user, which a new upload answers */
+  findAwaitingInfo(userId: string, documentType: DocumentType): Promise<VerificationDocument | null>;
+  listQueue(status: DocumentStatus, limit: number, offset: number): Promise<VerificationDocument[]>;
+  countByStatus(): Promise<Record<DocumentStatus, number>>;
+  /** Applies the decision only while the document is pending; null otherwise */
+  decide(id: string, decision: DocumentDecision): Promise<VerificationDocument | null>;
+  saveAnalysis(id: string, analysis: Record<string, any>, reviewNotes: string | null): Promise<void>;
+  markRedacted(id: string, redactedAt: Date, analysis: Record<string, any> | null): Promise<void>;
+  applyApproval(document: VerificationDocument): Promise<void>;
+}
+
+export type AuditRecorder = (event: AuditEvent) => Promise<void>;
+export type RedactionScheduler = (document: VerificationDocument) => Promise<void>;
+export type DecisionNotifier = (document: VerificationDocument) => Promise<void>;
+
+/**
+ * Content type from the file's magic bytes; the browser-supplied type is
+ * not trusted
+ */
+export function sniffContentType(bytes: Uint8Array): string | null {
+  const startsWith = (signature: number[], offset = 0) =>
+    signature.every((byte, index) => bytes[offset + index] === byte);
+
+  if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp';
+  if (startsWith([0x25, 0x50, 0x44, 0x46, 0x2d])) return 'application/pdf';
+  return null;
+}
+
+/**
+ * Status a review action moves a document to; only pending documents can be
+ * decided
+ */
+export function nextDocumentStatus(current: DocumentStatus, action: ReviewAction): Exclude<DocumentStatus, 'pending'> {
+  if (current !== 'pending') {
+    throw new DocumentReviewError(`Document is already ${current.replace(/_/g, ' ')}`, 409);
+  }
+  switch (action) {
+    case 'approve':
+      return 'approved';
+    case 'reject':
+      return 'rejected';
+    case 'request_more_info':
+      return 'more_info_requested';
+  }
+}
+
+/**
+ * When an ID document's file and extracted data go; null for documents we
+ * keep (property deeds, bills)
+ */
+export function redactionDate(
+  documentType: DocumentType,
+  status: Exclude<DocumentStatus, 'pending'>,
+  decidedAt: Date
+): Date | null {
+  if (!ID_DOCUMENT_TYPES.includes(documentType)) return null;
+  return new Date(decidedAt.getTime() + RETENTION_DAYS[status] * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Keep the verdict of an AI analysis, drop what it read off the document
+ */
+export function redactAnalysis(analysis: Record<string, any> | null): Record<string, any> | null {
+  if (!analysis) return null;
+  return {
+    isValid: analysis.isValid ?? null,
+    confidence: analysis.confidence ?? null,
+    documentType: analysis.documentType ?? null,
+    redacted: true,
+  };
+}
+
+function mapDocument(row: any): VerificationDocument {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    documentType: row.document_type,
+    status: row.status,
+    storageDriver: row.storage_driver ?? null,
+    storageKey: row.storage_key ?? null,
+    fileName: row.file_name ?? null,
+    contentType: row.content_type ?? null,
+    sizeBytes: row.size_bytes === null || row.size_bytes === undefined ? null : Number(row.size_bytes),
+    sha256: row.sha256 ?? null,
+    aiAnalysis: row.ai_analysis ?? null,
+    reviewNotes: row.review_notes ?? null,
+    decisionReason: row.decision_reason ?? null,
+    reviewedBy: row.reviewed_by ?? null,
+    reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : null,
+    submittedAt: new Date(row.submitted_at),
+    replacesId: row.replaces_id ?? null,
+    redactAfter: row.redact_after ? new Date(row.redact_after) : null,
+    redactedAt: row.redacted_at ? new Date(row.redacted_at) : null,
+  };
+}
+
+export class PostgresDocumentRepository implements DocumentRepository {
+  async insert(document: NewDocument, submittedAt: Date): Promise<VerificationDocument> {
+    const { rows } = await runQuery(
+      `INSERT INTO public.user_verifications
+         (user_id, document_type, status, storage_driver, storage_key, file_name, content_type, size_bytes, sha256, replaces_id, submitted_at)
+       VALUES ($1, $2, 'pending', $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *`,
+      [
+        document.userId,
+        document.documentType,
+        document.storageDriver,
+        document.storageKey,
+        document.fileName,
+        document.contentType,
+        document.sizeBytes,
+        document.sha256,
+        document.replacesId,
+        submittedAt,
+      ]
+    );
+    return mapDocument(rows[0]);
+  }
+
+  async findById(id: string): Promise<VerificationDocument | null> {
+    const { rows } = await runQuery('SELECT * FROM public.user_verifications WHERE id = $1', [id]);
+    return rows[0] ? mapDocument(rows[0]) : null;
+  }
+
+  async findAwaitingInfo(userId: string, documentType: DocumentType): Promise<VerificationDocument | null> {
+    const { rows } = await runQuery(
+      `SELECT * FROM public.user_verifications
+       WHERE user_id = $1 AND document_type = $2 AND status = 'more_info_requested'
+       ORDER BY reviewed_at DESC NULLS LAST
+       LIMIT 1`,
+      [userId, documentType]
+    );
+    return rows[0] ? mapDocument(rows[0]) : null;
+  }
+
+  async listQueue(status: DocumentStatus, limit: number, offset: number): Promise<VerificationDocument[]> {
+    const { rows } = await runQuery(
+      `SELECT * FROM public.user_verifications
+       WHERE status = $1
+       ORDER BY ${status === 'pending' ? 'submitted_at ASC' : 'reviewed_at DESC NULLS LAST'}
+       LIMIT $2 OFFSET $3`,
+      [status, limit, offset]
+    );
+    return rows.map(mapDocument);
+  }
+
+  async countByStatus(): Promise<Record<DocumentStatus, number>> {
+    const { rows } = await runQuery(
+      'SELECT status, COUNT(*)::int AS count FROM public.user_verifications GROUP BY status'
+    );
+    const counts: Record<DocumentStatus, number> = { pending: 0, approved: 0, rejected: 0, more_info_requested: 0 };
+    for (const row of rows) {
+      counts[row.status as DocumentStatus] = Number(row.count);
+    }
+    return counts;
+  }
+
+  async decide(id: string, decision: DocumentDecision): Promise<VerificationDocument | null> {
+    const { rows } = await runQuery(
+      `UPDATE public.user_verifications
+       SET status = $2,
+           reviewed_by = $3,
+           reviewed_at = $4,
+           review_notes = $5,
+           decision_reason = $6,
+           redact_after = $7
+       WHERE id = $1 AND status = 'pending'
+       RETURNING *`,
+      [
+        id,
+        decision.status,
+        decision.reviewedBy,
+        decision.reviewedAt,
+        decision.reviewNotes,
+        decision.decisionReason,
+        decision.redactAfter,
+      ]
+    );
+    return rows[0] ? mapDocument(rows[0]) : null;
+  }
+
+  async saveAnalysis(id: string, analysis: Record<string, any>, reviewNotes: string | null): Promise<void> {
+    await runQuery(
+      'UPDATE public.user_verifications SET ai_analysis = $2, review_notes = COALESCE($3, review_notes) WHERE id = $1',
+      [id, analysis, reviewNotes]
+    );
+  }
+
+  async markRedacted(id: string, redactedAt: Date, analysis: Record<string, any> | null): Promise<void> {
+    await runQuery(
+      `UPDATE public.user_verifications
+       SET storage_key = NULL, document_url = NULL, file_name = NULL, ai_analysis = $3, redacted_at = $2
+       WHERE id = $1`,
+      [id, redactedAt, analysis]
+    );
+  }
+
+  async applyApproval(document: VerificationDocument): Promise<void> {
+    if (['id_card', 'passport', 'drivers_license'].includes(document.documentType)) {
+      await runQuery('UPDATE public.user_profiles SET identity_verified = true WHERE user_id = $1', [document.userId]);
+    }
+  }
+}
+
+export const recordAuditEvent: AuditRecorder = async (event) => {
+  try {
+    await runQuery(
+      `INSERT INTO public.audit_logs (actor_id, actor_role, event, resource_type, resource_id, metadata)
+       VALUES ($1, $2, $3, 'verification_document', $4, $5)`,
+      [event.actorId, event.actorRole, event.event, event.documentId, event.metadata ?? {}]
+    );
+  } catch (error) {
+    // The action already happened; losing the audit row must not undo it
+    console.error('Failed to write verification audit event:', event.event, error);
+  }
+};
+
+/**
+ * Redaction runs as a delayed job so it survives deploys and cold starts
+ */
+export const scheduleRedaction: RedactionScheduler = async (document) => {
+  if (!document.redactAfter) return;
+  await jobQueue.enqueue(
+    JOB_QUEUES.verification,
+    'verification.redact',
+    { documentId: document.id },
+    { runAt: document.redactAfter, idempotencyKey: `verification-redact:${document.id}` }
+  );
+};
+
+export const notifyDecision: DecisionNotifier = async (document) => {
+  const { rows } = await runQuery('SELECT email FROM public.user_profiles WHERE user_id = $1', [document.userId]);
+  const email = rows[0]?.email;
+  if (!email) return;
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || '';
+  const outcome: Record<Exclude<DocumentStatus, 'pending'>, string> = {
+    approved: 'has been approved',
+    rejected: 'could not be accepted',
+    more_info_requested: 'needs more information',
+  };
+
+  await notificationService.sendBulkNotifications(
+    [
+      {
+        templateId: 'verification_decision',
+        recipient: {
+          userId: document.userId,
+          email,
+          preferences: { email: true, push: false, sms: false, inApp: true },
+        },
+        variables: {
+          documentName: DOCUMENT_LABELS[document.documentType],
+          outcome: outcome[document.status as Exclude<DocumentStatus, 'pending'>],
+          reason: document.decisionReason ?? '',
+          verificationUrl: `${appUrl}/verification`,
+        },
+        priority: 'normal',
+      },
+    ],
+    { idempotencyPrefix: `verification-decision:${document.id}:${document.status}` }
+  );
+};
+
+export class VerificationDocumentService {
+  constructor(
+    private repository: DocumentRepository = new PostgresDocumentRepository(),
+    private storage: () => StorageAdapter = getDocumentStorage,
+    private audit: AuditRecorder = recordAuditEvent,
+    private schedule: RedactionScheduler = scheduleRedaction,
+    private notify: DecisionNotifier = notifyDecision,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  async upload(
+    userId: string,
+    input: { documentType: DocumentType; fileName: string; body: Uint8Array }
+  ): Promise<VerificationDocument> {
+    if (!DOCUMENT_TYPES.includes(input.documentType)) {
+      throw new DocumentReviewError('Invalid document type', 400);
+    }
+    if (input.body.byteLength === 0 || input.body.byteLength > MAX_DOCUMENT_BYTES) {
+      throw new DocumentReviewError('File must be between 1 byte and 10MB', 400);
+    }
+    const contentType = sniffContentType(input.body);
+    if (!contentType) {
+      throw new DocumentReviewError('Invalid file type. Only JPEG, PNG, WebP, and PDF are allowed.', 400);
+    }
+
+    const storage = this.storage();
+    const key = `${userId}/${input.documentType}/${randomUUID()}.${CONTENT_TYPE_EXTENSIONS[contentType]}`;
+    const stored = await storage.put(key, input.body, { contentType });
+    const awaitingInfo = await this.repository.findAwaitingInfo(userId, input.documentType);
+
+    let document: VerificationDocument;
+    try {
+      document = await this.repository.insert(
+        {
+          userId,
+          documentType: input.documentType,
+          storageDriver: storage.name,
+          storageKey: stored.key,
+          fileName: input.fileName.slice(0, 255),
+          contentType,
+          sizeBytes: stored.size,
+          sha256: stored.sha256,
+          replacesId: awaitingInfo?.id ?? null,
+        },
+        this.now()
+      );
+    } catch (error) {
+      await storage.remove([stored.key]).catch(() => undefined);
+      throw error;
+    }
+
+    await this.audit({
+      event: 'verification_document.uploaded',
+      actorId: userId,
+      actorRole: 'user',
+      documentId: document.id,
+      metadata: { documentType: document.documentType, sizeBytes: stored.size, replacesId: document.replacesId },
+    });
+    return document;
+  }
+
+  /**
+   * Short-lived URL for the file; every issued URL is audited
+   */
+  async signedUrl(
+    documentId: string,
+    actor: { id: string; role: 'user' | 'admin' | 'system' },
+    expiresInSeconds = REVIEWER_URL_TTL_SECONDS
+  ): Promise<{ document: VerificationDocument; url: string; expiresAt: Date }> {
+    const document = await this.repository.findById(documentId);
+    if (!document || (actor.role === 'user' && document.userId !== actor.id)) {
+      throw new DocumentReviewError('Document not found', 404);
+    }
+    if (!document.storageKey) {
+      throw new DocumentReviewError(document.redactedAt ? 'Document has been redacted' : 'Document has no stored file', 404);
+    }
+
+    const url = await this.storage().signedUrl(document.storageKey, expiresInSeconds);
+    await this.audit({
+      event: 'verification_document.viewed',
+      actorId: actor.id,
+      actorRole: actor.role,
+      documentId,
+      metadata: { expiresInSeconds },
+    });
+    return { document, url, expiresAt: new Date(this.now().getTime() + expiresInSeconds * 1000) };
+  }
+
+  async getFile(documentId: string): Promise<{ document: VerificationDocument; body: Buffer }> {
+    const document = await this.repository.findById(documentId);
+    if (!document?.storageKey) {
+      throw new DocumentReviewError('Document not found', 404);
+    }
+    return { document, body: await this.storage().get(document.storageKey) };
+  }
+
+  async saveAnalysis(documentId: string, analysis: Record<string, any>, reviewNotes: string | null): Promise<void> {
+    await this.repository.saveAnalysis(documentId, analysis, reviewNotes);
+  }
+
+  async reviewQueue(
+    status: DocumentStatus = 'pending',
+    limit = 50,
+    offset = 0
+  ): Promise<{ documents: VerificationDocument[]; counts: Record<DocumentStatus, number> }> {
+    const [documents, counts] = await Promise.all([
+      this.repository.listQueue(status, limit, offset),
+      this.repository.countByStatus(),
+    ]);
+    return { documents, counts };
+  }
+
+  async review(
+    reviewerId: string,
+    documentId: string,
+    action: ReviewAction,
+    input: { notes?: string; reason?: string } = {}
+  ): Promise<VerificationDocument> {
+    const current = await this.repository.findById(documentId);
+    if (!current) {
+      throw new DocumentReviewError('Document not found', 404);
+    }
+    const status = nextDocumentStatus(current.status, action);
+    if (status !== 'approved' && !input.reason?.trim()) {
+      throw new DocumentReviewError('A reason for the user is required', 400);
+    }
+
+    const reviewedAt = this.now();
+    const decided = await this.repository.decide(documentId, {
+      status,
+      reviewedBy: reviewerId,
+      reviewedAt,
+      reviewNotes: input.notes?.trim() || null,
+      decisionReason: input.reason?.trim() || null,
+      redactAfter: redactionDate(current.documentType, status, reviewedAt),
+    });
+    if (!decided) {
+      throw new DocumentReviewError('Document was reviewed by someone else', 409);
+    }
+
+    await this.audit({
+      event: `verification_document.${status}`,
+      actorId: reviewerId,
+      actorRole: 'admin',
+      documentId,
+      metadata: { previousStatus: current.status, reason: decided.decisionReason, redactAfter: decided.redactAfter },
+    });
+
+    if (status === 'approved') {
+      await this.repository.applyApproval(decided);
+    }
+    await this.schedule(decided);
+    await this.notify(decided).catch((error) => {
+      console.error('Failed to notify verification decision:', error);
+    });
+    return decided;
+  }
+
+  /**
+   * Delete an ID document's file and redact what was extracted from it.
+   * Run by the verification.redact job; safe to run twice.
+   */
+  async redact(documentId: string): Promise<{ redacted: boolean }> {
+    const document = await this.repository.findById(documentId);
+    if (!document || document.redactedAt) {
+      return { redacted: false };
+    }
+    if (!document.redactAfter || document.redactAfter.getTime() > this.now().getTime()) {
+      return { redacted: false };
+    }
+
+    if (document.storageKey && document.storageDriver === this.storage().name) {
+      await this.storage().remove([document.storageKey]);
+    }
+    const redactedAt = this.now();
+    await this.repository.markRedacted(documentId, redactedAt, redactAnalysis(document.aiAnalysis));
+    await this.audit({
+      event: 'verification_document.redacted',
+      actorId: null,
+      actorRole: 'system',
+      documentId,
+      metadata: { documentType: document.documentType, status: document.status },
+    });
+    return { redacted: true };
+  }
+}
+
+export const verificationDocumentService = new VerificationDocumentService();
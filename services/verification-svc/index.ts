@@ -1,8 +1,18 @@
 // Verification Service - User and apartment verification system
 // Handles student status, identity, and property verification
 
+import { randomUUID } from 'crypto';
 import { createClient } from '@/utils/supabaseClient';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { analyzeImageQualityFromBuffer, listingMediaScore, type ImageQualityIssue } from '@/lib/images/quality';
+import { getDocumentStorage } from '@/lib/storage';
+import { getLLM } from '@/lib/llm/provider';
+import { LLMError } from '@/lib/llm/types';
+import { isValidStudentId, matchUniversityEmail } from '@/lib/university-domains';
+import { CONTENT_TYPE_EXTENSIONS, sniffContentType } from './documents';
+import { universityEmailVerificationService } from './university-email';
+
+// Below this listing media score the photos go to a reviewer instead
+const MIN_PHOTO_VERIFICATION_SCORE = 0.5;
 
 export interface StudentVerification {
   userId: string;
@@ -12,7 +22,7 @@ export interface StudentVerification {
   status: 'pending' | 'verified' | 'rejected';
   submittedAt: Date;
   verifiedAt?: Date;
-  documents: string[]; // file URLs
+  documents: string[]; // storage keys
   rejectionReason?: string;
 }
 
@@ -39,6 +49,18 @@ export interface ApartmentVerification {
   submittedAt: Date;
   verifiedAt?: Date;
   inspectorNotes?: string;
+  photoAnalysis?: PhotoAnalysis;
+}
+
+export interface PhotoAnalysis {
+  mediaScore: number;
+  photos: Array<{
+    key: string;
+    score: number | null;
+    width?: number;
+    height?: number;
+    issues: Array<ImageQualityIssue | 'unreadable'>;
+  }>;
 }
 
 export interface VerificationResult {
@@ -65,19 +87,6 @@ export interface DocumentAnalysis {
 
 // AI-powered document verification service
 export class AIDocumentVerificationService {
-  private genAI: GoogleGenerativeAI | null = null;
-
-  constructor() {
-    try {
-      const apiKey = process.env.GOOGLE_AI_API_KEY;
-      if (apiKey) {
-        this.genAI = new GoogleGenerativeAI(apiKey);
-      }
-    } catch (error) {
-      console.warn('Google AI not available for document verification');
-    }
-  }
-
   async analyzeDocument(
     documentUrl: string,
     documentType: string,
@@ -87,37 +96,23 @@ export class AIDocumentVerificationService {
       userId: string;
     }
   ): Promise<DocumentAnalysis> {
-    if (!this.genAI) {
-      return {
-        isValid: false,
-        documentType,
-        confidence: 0,
-        extractedData: {},
-        issues: ['AI verification service unavailable'],
-        recommendations: ['Please try again later or contact support'],
-      };
-    }
-
     try {
       // Download document content (assuming it's an image)
       const documentContent = await this.downloadDocument(documentUrl);
 
-      const model = this.genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
-
       const prompt = this.buildAnalysisPrompt(documentType, userContext);
 
-      const result = await model.generateContent([
-        prompt,
-        {
-          inlineData: {
-            mimeType: this.getMimeType(documentUrl),
-            data: documentContent.toString('base64'),
-          },
-        },
-      ]);
-
-      const response = await result.response;
-      const analysis = this.parseAnalysisResponse(response.text());
+      const response = await getLLM().generateText(prompt, {
+        feature: 'document-verification',
+        temperature: 0.2,
+        timeoutMs: 30000,
+        attachments: [{
+          // Signed URLs carry the key in the query string, so trust the bytes first
+          mimeType: sniffContentType(documentContent) ?? this.getMimeType(documentUrl),
+          data: documentContent.toString('base64'),
+        }],
+      });
+      const analysis = this.parseAnalysisResponse(response);
 
       // Cross-validate with user context if provided
       if (userContext) {
@@ -131,6 +126,16 @@ export class AIDocumentVerificationService {
       return analysis;
     } catch (error) {
       console.error('Document analysis error:', error);
+      if (error instanceof LLMError && (error.code === 'unavailable' || error.code === 'circuit_open')) {
+        return {
+          isValid: false,
+          documentType,
+          confidence: 0,
+          extractedData: {},
+          issues: ['AI verification service unavailable'],
+          recommendations: ['Please try again later or contact support'],
+        };
+      }
       return {
         isValid: false,
         documentType,
@@ -286,28 +291,6 @@ Additional context: Expected name is "${userContext.expectedName}". Please verif
 }
 
 export class VerificationService {
-  private universities = [
-    'elte.hu',
-    'bme.hu',
-    'corvinus.hu',
-    'sote.hu',
-    'ppke.hu',
-    // Add more Budapest universities
-  ];
-
-  private genAI: GoogleGenerativeAI | null = null;
-
-  constructor() {
-    try {
-      const apiKey = process.env.GOOGLE_AI_API_KEY;
-      if (apiKey) {
-        this.genAI = new GoogleGenerativeAI(apiKey);
-      }
-    } catch (error) {
-      console.warn('Google AI not available for document verification');
-    }
-  }
-
   async submitStudentVerification(
     userId: string,
     data: {
@@ -318,8 +301,8 @@ export class VerificationService {
     }
   ): Promise<VerificationResult> {
     try {
-      // Validate university email
-      if (!this.isValidUniversityEmail(data.email, data.university)) {
+      // Validate university email against the domain registry
+      if (!matchUniversityEmail(data.email)) {
         return {
           success: false,
           status: 'rejected',
@@ -351,6 +334,7 @@ export class VerificationService {
         status: 'pending',
         message: 'Verification submitted successfully',
         nextSteps: [
+          'Enter the code we sent to your university email, or open the link in it',
           'We will verify your student status within 24-48 hours',
           'You will receive an email confirmation',
           'Check your dashboard for status updates',
@@ -421,25 +405,26 @@ export class VerificationService {
   ): Promise<VerificationResult> {
     try {
       // Upload photos and documents
-      const photoUrls = await this.uploadDocuments(data.photos, `apartments/${apartmentId}/photos`);
-      const documentUrls = await this.uploadDocuments(data.documents, `apartments/${apartmentId}/documents`);
+      const photoKeys = await this.uploadDocuments(data.photos, `apartments/${apartmentId}/photos`);
+      await this.uploadDocuments(data.documents, `apartments/${apartmentId}/documents`);
+
+      // Analyze photos automatically
+      const photoAnalysis = await this.analyzeApartmentPhotos(photoKeys);
 
       const verification: ApartmentVerification = {
         apartmentId,
         ownerId,
         addressVerified: false,
-        photosVerified: false,
+        photosVerified: photoAnalysis.photos.length > 0 && photoAnalysis.mediaScore >= MIN_PHOTO_VERIFICATION_SCORE,
         documentsVerified: false,
         inspectionScheduled: data.scheduleInspection,
         status: 'pending',
         submittedAt: new Date(),
+        photoAnalysis,
       };
 
       await this.storeApartmentVerification(verification);
 
-      // Analyze photos automatically
-      await this.analyzeApartmentPhotos(photoUrls);
-
       return {
         success: true,
         status: 'pending',
@@ -467,62 +452,72 @@ export class VerificationService {
     };
   }
 
-  private isValidUniversityEmail(email: string, university: string): boolean {
-    const domain = email.split('@')[1];
-    return this.universities.some(uni => domain === uni || domain.endsWith(`.${uni}`));
-  }
-
   private async uploadDocuments(files: File[], path: string): Promise<string[]> {
-    const urls: string[] = [];
+    const storage = getDocumentStorage();
+    const keys: string[] = [];
 
     for (const file of files) {
-      // In production, upload to Supabase Storage
-      const url = `https://storage.supabase.co/${path}/${file.name}`;
-      urls.push(url);
+      const body = new Uint8Array(await file.arrayBuffer());
+      const contentType = sniffContentType(body);
+      if (!contentType) {
+        throw new Error(`Unsupported file type: ${file.name}`);
+      }
+      const stored = await storage.put(`${path}/${randomUUID()}.${CONTENT_TYPE_EXTENSIONS[contentType]}`, body, {
+        contentType,
+      });
+      keys.push(stored.key);
     }
 
-    return urls;
+    return keys;
   }
 
   private async performAutomatedChecks(verification: StudentVerification): Promise<void> {
-    // Automated email verification
-    const emailValid = await this.verifyUniversityEmail(verification.email);
-
-    if (!emailValid) {
+    // Check student ID format (Neptun code)
+    if (!isValidStudentId(verification.studentId, verification.university)) {
       await this.updateStudentVerification(verification.userId, {
         status: 'rejected',
-        rejectionReason: 'University email verification failed',
+        rejectionReason: 'Invalid student ID format',
       });
       return;
     }
 
-    // Check student ID format
-    if (!this.isValidStudentId(verification.studentId, verification.university)) {
-      await this.updateStudentVerification(verification.userId, {
-        status: 'rejected',
-        rejectionReason: 'Invalid student ID format',
-      });
-      return;
+    // The student has to confirm the address; send a code unless they already did
+    const emailConfirmed = await this.verifyUniversityEmail(verification.userId, verification.email);
+    if (!emailConfirmed) {
+      try {
+        await universityEmailVerificationService.startChallenge(verification.userId, verification.email);
+      } catch (error) {
+        // A code sent a moment ago is still valid; anything else the student can retry from the page
+        console.error('Failed to send university email code:', error);
+      }
     }
 
     // If all automated checks pass, status remains pending for manual review
   }
 
-  private async analyzeApartmentPhotos(photoUrls: string[]): Promise<void> {
-    // Use AI to analyze apartment photos
-    // Check for quality, authenticity, room count, etc.
-    // This would integrate with computer vision service
-  }
+  private async analyzeApartmentPhotos(photoKeys: string[]): Promise<PhotoAnalysis> {
+    // Exposure, contrast, blur and resolution of each stored photo (lib/images/quality)
+    const storage = getDocumentStorage();
+    const photos: PhotoAnalysis['photos'] = [];
+
+    for (const key of photoKeys) {
+      try {
+        const report = analyzeImageQualityFromBuffer(await storage.get(key));
+        photos.push({ key, score: report.score, width: report.width, height: report.height, issues: report.issues });
+      } catch (error) {
+        console.error('Failed to analyze apartment photo:', key, error);
+        photos.push({ key, score: null, issues: ['unreadable'] });
+      }
+    }
 
-  private async verifyUniversityEmail(email: string): Promise<boolean> {
-    // In production, this would check against university's student database
-    // or use email verification service
-    return email.includes('@elte.hu') || email.includes('@bme.hu') || email.includes('@corvinus.hu');
+    const scores = photos.flatMap((photo) => (photo.score === null ? [] : [photo.score]));
+    return { mediaScore: listingMediaScore(scores), photos };
   }
 
-  private isValidStudentId(studentId: string, university: string): boolean {
-    // Basic format validation - would be more sophisticated per university
-    return studentId.length >= 6 && /^\d+$/.test(studentId);
+  private async verifyUniversityEmail(userId: string, email: string): Promise<boolean> {
+    // Confirmed by code or magic link (see university-email.ts)
+    const status = await universityEmailVerificationService.getStatus(userId);
+    return status.verified && status.email?.toLowerCase() === email.trim().toLowerCase();
   }
 
   // Database operations - Now with real Supabase integration
@@ -645,37 +640,23 @@ export class VerificationService {
       userId: string;
     }
   ): Promise<DocumentAnalysis> {
-    if (!this.genAI) {
-      return {
-        isValid: false,
-        documentType,
-        confidence: 0,
-        extractedData: {},
-        issues: ['AI verification service unavailable'],
-        recommendations: ['Please try again later or contact support'],
-      };
-    }
-
     try {
       // Download document content (assuming it's an image)
       const documentContent = await this.downloadDocument(documentUrl);
 
-      const model = this.genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
-
       const prompt = this.buildAnalysisPrompt(documentType, userContext);
 
-      const result = await model.generateContent([
-        prompt,
-        {
-          inlineData: {
-            mimeType: this.getMimeType(documentUrl),
-            data: documentContent.toString('base64'),
-          },
-        },
-      ]);
-
-      const response = await result.response;
-      const analysis = this.parseAnalysisResponse(response.text());
+      const response = await getLLM().generateText(prompt, {
+        feature: 'document-verification',
+        temperature: 0.2,
+        timeoutMs: 30000,
+        attachments: [{
+          // Signed URLs carry the key in the query string, so trust the bytes first
+          mimeType: sniffContentType(documentContent) ?? this.getMimeType(documentUrl),
+          data: documentContent.toString('base64'),
+        }],
+      });
+      const analysis = this.parseAnalysisResponse(response);
 
       // Cross-validate with user context if provided
       if (userContext) {
@@ -689,6 +670,16 @@ export class VerificationService {
       return analysis;
     } catch (error) {
       console.error('Document analysis error:', error);
+      if (error instanceof LLMError && (error.code === 'unavailable' || error.code === 'circuit_open')) {
+        return {
+          isValid: false,
+          documentType,
+          confidence: 0,
+          extractedData: {},
+          issues: ['AI verification service unavailable'],
+          recommendations: ['Please try again later or contact support'],
+        };
+      }
       return {
         isValid: false,
         documentType,
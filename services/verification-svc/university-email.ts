@@ -0,0 +1,525 @@
+// University email verification - proves a student owns a university address
+// A challenge sends a six-digit code and a magic link to an address from the
+// domain registry (lib/university-domains.ts). Only hashes are stored; a
+// challenge expires, locks after too many wrong codes and is replaced by the
+// next one, and sends are rate limited per user.
+
+import { createHash, randomBytes, randomInt, randomUUID, timingSafeEqual } from 'crypto';
+import { runQuery } from '@/lib/db/pool';
+import { getUniversityDomainEntry, matchUniversityEmail } from '@/lib/university-domains';
+import { JOB_QUEUES, jobQueue, type EmailJobPayload } from '@/services/job-queue-svc';
+
+export const CHALLENGE_TTL_MS = 15 * 60 * 1000;
+export const MAX_CODE_ATTEMPTS = 5;
+export const RESEND_COOLDOWN_MS = 60 * 1000;
+export const MAX_SENDS_PER_DAY = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface UniversityEmailChallenge {
+  id: string;
+  userId: string;
+  email: string;
+  universityId: string;
+  faculty: string | null;
+  codeHash: string;
+  tokenHash: string;
+  attempts: number;
+  maxAttempts: number;
+  expiresAt: Date;
+  consumedAt: Date | null;
+  createdAt: Date;
+}
+
+export type NewChallenge = Omit<UniversityEmailChallenge, 'attempts' | 'consumedAt' | 'createdAt'>;
+
+export interface UniversityEmailStatus {
+  verified: boolean;
+  email: string | null;
+  universityId: string | null;
+  universityName: string | null;
+  faculty: string | null;
+  verifiedAt: Date | null;
+  pendingEmail: string | null; // address of an open challenge
+}
+
+export interface ChallengeStarted {
+  challengeId: string;
+  email: string;
+  universityName: string;
+  faculty: string | null;
+  expiresAt: Date;
+}
+
+export interface UniversityEmailVerified {
+  userId: string;
+  email: string;
+  universityId: string;
+  universityName: string;
+  faculty: string | null;
+  verifiedAt: Date;
+}
+
+export type UniversityVerificationErrorCode =
+  | 'unknown_domain'
+  | 'email_in_use'
+  | 'rate_limited'
+  | 'not_found'
+  | 'expired'
+  | 'locked'
+  | 'invalid_code';
+
+/**
+ * Verification failure with the HTTP status the API should answer with
+ */
+export class UniversityVerificationError extends Error {
+  constructor(
+    message: string,
+    public code: UniversityVerificationErrorCode,
+    public status: 400 | 404 | 409 | 410 | 429,
+    public details: { retryAfterSeconds?: number; attemptsRemaining?: number } = {}
+  ) {
+    super(message);
+    this.name = 'UniversityVerificationError';
+  }
+}
+
+export interface ChallengeStore {
+  /** Challenges created for the user since `since`, newest first */
+  listRecent(userId: string, since: Date): Promise<UniversityEmailChallenge[]>;
+  /** Stores the challenge and closes the user's earlier open ones */
+  create(challenge: NewChallenge, now: Date): Promise<UniversityEmailChallenge>;
+  findById(id: string): Promise<UniversityEmailChallenge | null>;
+  findOpen(userId: string): Promise<UniversityEmailChallenge | null>;
+  /**
+   * Counts an attempt before the guess is checked, so concurrent guesses
+   * can't exceed the limit; the attempt count after the increment, or null
+   * when no attempts are left
+   */
+  reserveAttempt(id: string): Promise<number | null>;
+  /** False when the challenge was already consumed, e.g. by a concurrent request */
+  consume(id: string, now: Date): Promise<boolean>;
+  isEmailVerifiedByOther(email: string, userId: string): Promise<boolean>;
+  markVerified(verified: UniversityEmailVerified): Promise<void>;
+  getProfileStatus(userId: string): Promise<Omit<UniversityEmailStatus, 'universityName' | 'pendingEmail'>>;
+}
+
+export interface ChallengeMessage {
+  challengeId: string;
+  to: string;
+  code: string;
+  link: string;
+  universityName: string;
+  expiresAt: Date;
+}
+
+export type ChallengeMailer = (message: ChallengeMessage) => Promise<void>;
+
+export function generateCode(): string {
+  return String(randomInt(0, 1_000_000)).padStart(6, '0');
+}
+
+export function generateToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Hash a code or token secret; the challenge id salts it so equal codes in
+ * different challenges do not share a hash
+ */
+export function hashSecret(challengeId: string, secret: string): string {
+  return createHash('sha256').update(`${challengeId}:${secret}`).digest('hex');
+}
+
+function secretMatches(challengeId: string, secret: string, expectedHash: string): boolean {
+  const actual = Buffer.from(hashSecret(challengeId, secret), 'hex');
+  const expected = Buffer.from(expectedHash, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Magic link tokens are `<challengeId>.<secret>` so the link works without a
+ * session, e.g. when opened from webmail on another device
+ */
+export function formatMagicToken(challengeId: string, secret: string): string {
+  return `${challengeId}.${secret}`;
+}
+
+export function parseMagicToken(token: string): { challengeId: string; secret: string } | null {
+  const match = /^([0-9a-f-]{36})\.([A-Za-z0-9_-]{20,})$/i.exec(token.trim());
+  return match ? { challengeId: match[1], secret: match[2] } : null;
+}
+
+/**
+ * Whether another code may be sent, given the user's challenges from the
+ * last 24 hours (newest first)
+ */
+export function checkSendAllowed(
+  recent: Array<Pick<UniversityEmailChallenge, 'createdAt'>>,
+  now: Date
+): UniversityVerificationError | null {
+  const lastSent = recent[0]?.createdAt;
+  if (lastSent && now.getTime() - lastSent.getTime() < RESEND_COOLDOWN_MS) {
+    const retryAfterSeconds = Math.ceil((RESEND_COOLDOWN_MS - (now.getTime() - lastSent.getTime())) / 1000);
+    return new UniversityVerificationError('Please wait before requesting another code', 'rate_limited', 429, {
+      retryAfterSeconds,
+    });
+  }
+
+  const today = recent.filter((challenge) => now.getTime() - challenge.createdAt.getTime() < DAY_MS);
+  if (today.length >= MAX_SENDS_PER_DAY) {
+    const oldest = today[today.length - 1].createdAt;
+    const retryAfterSeconds = Math.ceil((DAY_MS - (now.getTime() - oldest.getTime())) / 1000);
+    return new UniversityVerificationError('Too many codes requested today', 'rate_limited', 429, {
+      retryAfterSeconds,
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Whether a challenge can still be answered
+ */
+export function checkChallengeOpen(
+  challenge: UniversityEmailChallenge,
+  now: Date
+): UniversityVerificationError | null {
+  if (challenge.consumedAt) {
+    return new UniversityVerificationError(
+      'This code was already used or replaced by a newer one',
+      'expired',
+      410
+    );
+  }
+  if (challenge.expiresAt.getTime() <= now.getTime()) {
+    return new UniversityVerificationError('This code has expired; request a new one', 'expired', 410);
+  }
+  if (challenge.attempts >= challenge.maxAttempts) {
+    return new UniversityVerificationError('Too many wrong codes; request a new one', 'locked', 429);
+  }
+  return null;
+}
+
+function appUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+}
+
+function mapChallenge(row: any): UniversityEmailChallenge {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    email: row.email,
+    universityId: row.university_id,
+    faculty: row.faculty ?? null,
+    codeHash: row.code_hash,
+    tokenHash: row.token_hash,
+    attempts: Number(row.attempts),
+    maxAttempts: Number(row.max_attempts),
+    expiresAt: new Date(row.expires_at),
+    consumedAt: row.consumed_at ? new Date(row.consumed_at) : null,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+export class PostgresChallengeStore implements ChallengeStore {
+  async listRecent(userId: string, since: Date): Promise<UniversityEmailChallenge[]> {
+    const { rows } = await runQuery(
+      `SELECT * FROM public.university_email_challenges
+       WHERE user_id = $1 AND created_at >= $2
+       ORDER BY created_at DESC`,
+      [userId, since]
+    );
+    return rows.map(mapChallenge);
+  }
+
+  async create(challenge: NewChallenge, now: Date): Promise<UniversityEmailChallenge> {
+    await runQuery(
+      `UPDATE public.university_email_challenges
+       SET consumed_at = $2
+       WHERE user_id = $1 AND consumed_at IS NULL`,
+      [challenge.userId, now]
+    );
+    const { rows } = await runQuery(
+      `INSERT INTO public.university_email_challenges
+         (id, user_id, email, university_id, faculty, code_hash, token_hash, max_attempts, expires_at, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *`,
+      [
+        challenge.id,
+        challenge.userId,
+        challenge.email,
+        challenge.universityId,
+        challenge.faculty,
+        challenge.codeHash,
+        challenge.tokenHash,
+        challenge.maxAttempts,
+        challenge.expiresAt,
+        now,
+      ]
+    );
+    return mapChallenge(rows[0]);
+  }
+
+  async findById(id: string): Promise<UniversityEmailChallenge | null> {
+    const { rows } = await runQuery('SELECT * FROM public.university_email_challenges WHERE id = $1', [id]);
+    return rows[0] ? mapChallenge(rows[0]) : null;
+  }
+
+  async findOpen(userId: string): Promise<UniversityEmailChallenge | null> {
+    const { rows } = await runQuery(
+      `SELECT * FROM public.university_email_challenges
+       WHERE user_id = $1 AND consumed_at IS NULL
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [userId]
+    );
+    return rows[0] ? mapChallenge(rows[0]) : null;
+  }
+
+  async reserveAttempt(id: string): Promise<number | null> {
+    const { rows } = await runQuery(
+      `UPDATE public.university_email_challenges
+       SET attempts = attempts + 1
+       WHERE id = $1 AND attempts < max_attempts
+       RETURNING attempts`,
+      [id]
+    );
+    return rows[0] ? Number(rows[0].attempts) : null;
+  }
+
+  async consume(id: string, now: Date): Promise<boolean> {
+    const { rowCount } = await runQuery(
+      `UPDATE public.university_email_challenges
+       SET consumed_at = $2
+       WHERE id = $1 AND consumed_at IS NULL`,
+      [id, now]
+    );
+    return (rowCount ?? 0) > 0;
+  }
+
+  async isEmailVerifiedByOther(email: string, userId: string): Promise<boolean> {
+    const { rows } = await runQuery(
+      `SELECT 1 FROM public.user_profiles
+       WHERE lower(university_email) = lower($1)
+         AND university_verified_at IS NOT NULL
+         AND user_id <> $2
+       LIMIT 1`,
+      [email, userId]
+    );
+    return rows.length > 0;
+  }
+
+  async markVerified(verified: UniversityEmailVerified): Promise<void> {
+    try {
+      await runQuery(
+        `UPDATE public.user_profiles
+         SET university_email = $2,
+             university_id = $3,
+             university_faculty = $4,
+             university_verified_at = $5,
+             updated_at = now()
+         WHERE user_id = $1`,
+        [verified.userId, verified.email, verified.universityId, verified.faculty, verified.verifiedAt]
+      );
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        throw new UniversityVerificationError(
+          'This university email is already verified on another account',
+          'email_in_use',
+          409
+        );
+      }
+      throw error;
+    }
+  }
+
+  async getProfileStatus(userId: string) {
+    const { rows } = await runQuery(
+      `SELECT university_email, university_id, university_faculty, university_verified_at
+       FROM public.user_profiles
+       WHERE user_id = $1`,
+      [userId]
+    );
+    const row = rows[0];
+    return {
+      verified: Boolean(row?.university_verified_at),
+      email: row?.university_verified_at ? row.university_email : null,
+      universityId: row?.university_verified_at ? row.university_id : null,
+      faculty: row?.university_verified_at ? row.university_faculty ?? null : null,
+      verifiedAt: row?.university_verified_at ? new Date(row.university_verified_at) : null,
+    };
+  }
+}
+
+/**
+ * Queue the challenge email; the idempotency key keeps a retried request
+ * from mailing the same code twice
+ */
+export const queueChallengeEmail: ChallengeMailer = async (message) => {
+  const minutes = Math.round(CHALLENGE_TTL_MS / 60000);
+  await jobQueue.enqueue<EmailJobPayload>(
+    JOB_QUEUES.email,
+    'email.send',
+    {
+      to: message.to,
+      subject: `${message.code} is your Student Apartments verification code`,
+      html: `
+        <p>Use this code to confirm your ${message.universityName} email address:</p>
+        <p style="font-size: 28px; font-weight: bold; letter-spacing: 6px;">${message.code}</p>
+        <p>Or confirm with one click: <a href="${message.link}">verify my university email</a></p>
+        <p>The code and link expire in ${minutes} minutes. If you did not request this, ignore this email.</p>
+      `,
+      text: `Your verification code is ${message.code}. Or open ${message.link}. It expires in ${minutes} minutes.`,
+      tags: [{ name: 'template', value: 'university_email_verification' }],
+    },
+    { idempotencyKey: `university-email:${message.challengeId}`, priority: 20 }
+  );
+};
+
+export class UniversityEmailVerificationService {
+  constructor(
+    private store: ChallengeStore = new PostgresChallengeStore(),
+    private mailer: ChallengeMailer = queueChallengeEmail,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  async startChallenge(userId: string, email: string): Promise<ChallengeStarted> {
+    const normalizedEmail = email.trim().toLowerCase();
+    const match = matchUniversityEmail(normalizedEmail);
+    if (!match) {
+      throw new UniversityVerificationError(
+        'This is not an email domain of a Hungarian university we support',
+        'unknown_domain',
+        400
+      );
+    }
+
+    if (await this.store.isEmailVerifiedByOther(normalizedEmail, userId)) {
+      throw new UniversityVerificationError(
+        'This university email is already verified on another account',
+        'email_in_use',
+        409
+      );
+    }
+
+    const now = this.now();
+    const recent = await this.store.listRecent(userId, new Date(now.getTime() - DAY_MS));
+    const limited = checkSendAllowed(recent, now);
+    if (limited) {
+      throw limited;
+    }
+
+    const id = randomUUID();
+    const code = generateCode();
+    const secret = generateToken();
+    const challenge = await this.store.create(
+      {
+        id,
+        userId,
+        email: normalizedEmail,
+        universityId: match.universityId,
+        faculty: match.faculty,
+        codeHash: hashSecret(id, code),
+        tokenHash: hashSecret(id, secret),
+        maxAttempts: MAX_CODE_ATTEMPTS,
+        expiresAt: new Date(now.getTime() + CHALLENGE_TTL_MS),
+      },
+      now
+    );
+
+    const token = formatMagicToken(id, secret);
+    await this.mailer({
+      challengeId: id,
+      to: normalizedEmail,
+      code,
+      link: `${appUrl()}/api/verification/university?token=${encodeURIComponent(token)}`,
+      universityName: match.universityName,
+      expiresAt: challenge.expiresAt,
+    });
+
+    return {
+      challengeId: id,
+      email: normalizedEmail,
+      universityName: match.universityName,
+      faculty: match.faculty,
+      expiresAt: challenge.expiresAt,
+    };
+  }
+
+  /**
+   * Confirm the user's open challenge with the code from the email
+   */
+  async confirmCode(userId: string, code: string): Promise<UniversityEmailVerified> {
+    const challenge = await this.store.findOpen(userId);
+    if (!challenge) {
+      throw new UniversityVerificationError('No verification code is pending; request a new one', 'not_found', 404);
+    }
+    return this.confirm(challenge, code.replace(/\s/g, ''), 'codeHash');
+  }
+
+  /**
+   * Confirm a challenge from its magic link; no session needed
+   */
+  async confirmToken(token: string): Promise<UniversityEmailVerified> {
+    const parsed = parseMagicToken(token);
+    const challenge = parsed ? await this.store.findById(parsed.challengeId) : null;
+    if (!parsed || !challenge) {
+      throw new UniversityVerificationError('This verification link is not valid', 'not_found', 404);
+    }
+    return this.confirm(challenge, parsed.secret, 'tokenHash');
+  }
+
+  async getStatus(userId: string): Promise<UniversityEmailStatus> {
+    const profile = await this.store.getProfileStatus(userId);
+    const open = profile.verified ? null : await this.store.findOpen(userId);
+    const pending = open && !checkChallengeOpen(open, this.now()) ? open.email : null;
+
+    return {
+      ...profile,
+      universityName: profile.universityId ? getUniversityDomainEntry(profile.universityId)?.name ?? null : null,
+      pendingEmail: pending,
+    };
+  }
+
+  private async confirm(
+    challenge: UniversityEmailChallenge,
+    secret: string,
+    hashField: 'codeHash' | 'tokenHash'
+  ): Promise<UniversityEmailVerified> {
+    const now = this.now();
+    const closed = checkChallengeOpen(challenge, now);
+    if (closed) {
+      throw closed;
+    }
+
+    const attempts = await this.store.reserveAttempt(challenge.id);
+    if (attempts === null) {
+      throw new UniversityVerificationError('Too many wrong codes; request a new one', 'locked', 429);
+    }
+
+    if (!secretMatches(challenge.id, secret, challenge[hashField])) {
+      const attemptsRemaining = Math.max(0, challenge.maxAttempts - attempts);
+      if (attemptsRemaining === 0) {
+        throw new UniversityVerificationError('Too many wrong codes; request a new one', 'locked', 429);
+      }
+      throw new UniversityVerificationError('The code is not correct', 'invalid_code', 400, { attemptsRemaining });
+    }
+
+    if (!(await this.store.consume(challenge.id, now))) {
+      throw new UniversityVerificationError('This code was already used', 'expired', 410);
+    }
+
+    const verified: UniversityEmailVerified = {
+      userId: challenge.userId,
+      email: challenge.email,
+      universityId: challenge.universityId,
+      universityName: getUniversityDomainEntry(challenge.universityId)?.name ?? challenge.universityId,
+      faculty: challenge.faculty,
+      verifiedAt: now,
+    };
+    await this.store.markVerified(verified);
+    return verified;
+  }
+}
+
+export const universityEmailVerificationService = new UniversityEmailVerificationService();
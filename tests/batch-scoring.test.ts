@@ -0,0 +1,101 @@
+/**
+ * Test Suite for batch apartment scoring
+ * Validates profile/apartment normalization and feature-based batch scoring
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  batchScoringService,
+  parseDistrict,
+  profileToQuery,
+  toScorableApartment,
+} from '@/services/batch-scoring-svc';
+
+const APARTMENTS = [
+  {
+    id: '11111111-1111-4111-8111-111111111111',
+    title: 'Bright studio near Corvinus',
+    price: 140000,
+    location: '1093 Budapest, Fővám tér',
+    amenities: ['WiFi', 'Washing Machine'],
+    rooms: 1,
+  },
+  {
+    id: '22222222-2222-4222-8222-222222222222',
+    title: 'Large flat in Újpest',
+    price: 260000,
+    location: 'IV. kerület',
+    amenities: [],
+    rooms: 1,
+  },
+];
+
+describe('Scoring input normalization', () => {
+  it('parses districts from postal codes, numbers and roman numerals', () => {
+    expect(parseDistrict('1093 Budapest')).toBe(9);
+    expect(parseDistrict('District VIII')).toBe(8);
+    expect(parseDistrict('IV. kerület')).toBe(4);
+    expect(parseDistrict('13. kerület')).toBe(13);
+    expect(parseDistrict(11)).toBe(11);
+    expect(parseDistrict('Vienna')).toBeUndefined();
+  });
+
+  it('maps API apartment shapes onto the scorer model', () => {
+    const apartment = toScorableApartment(APARTMENTS[0]);
+    expect(apartment.price_huf).toBe(140000);
+    expect(apartment.bedrooms).toBe(1);
+    expect(apartment.district).toBe(9);
+    expect(apartment.amenities).toEqual(['WiFi', 'Washing Machine']);
+  });
+
+  it('builds a query from budget, location and preferences', () => {
+    const query = profileToQuery({ budget: 150000, location: 'District IX', preferences: '["Washing Machine"]' });
+    expect(query.priceRange).toEqual({ min: 0, max: 150000 });
+    expect(query.districts).toEqual([9]);
+    expect(query.amenityPriorities.important).toContain('washing_machine');
+  });
+
+  it('does not read district numbers as a budget', () => {
+    expect(profileToQuery({ location: 'District 9' }).priceRange).toBeUndefined();
+  });
+});
+
+describe('Batch scoring', () => {
+  it('scores apartments in input order and prefers the better match', async () => {
+    const result = await batchScoringService.scoreApartmentBatch(
+      APARTMENTS,
+      { budget: 150000, location: 'District IX', preferences: ['WiFi', 'Washing Machine'] },
+      { useLlm: false }
+    );
+
+    expect(result.successful).toBe(2);
+    expect(result.failed).toBe(0);
+    expect(result.results.map((r) => r.apartmentId)).toEqual(APARTMENTS.map((a) => a.id));
+    expect(result.results[0].aiScore!).toBeGreaterThan(result.results[1].aiScore!);
+    expect(result.results[0].source).toBe('features');
+    expect(result.results[0].reasons.length).toBeGreaterThan(0);
+  });
+
+  it('serves repeated profiles from the cache and reports failures per apartment', async () => {
+    const profile = { budget: 200000, preferences: ['WiFi'] };
+    await batchScoringService.scoreApartmentBatch(APARTMENTS, profile, { useLlm: false });
+    const before = batchScoringService.getCacheStats();
+
+    const result = await batchScoringService.scoreApartmentBatch(
+      [...APARTMENTS, { title: 'No id' }],
+      profile,
+      { useLlm: false }
+    );
+
+    expect(result.results.slice(0, 2).every((r) => r.cached)).toBe(true);
+    expect(result.results[2].success).toBe(false);
+    expect(result.failed).toBe(1);
+    expect(batchScoringService.getCacheStats().hits - before.hits).toBe(2);
+  });
+
+  it('reports the shared circuit breaker state', () => {
+    const status = batchScoringService.getCircuitBreakerStatus();
+    expect(status.isOpen).toBe(false);
+    expect(status.state).toBe('CLOSED');
+  });
+});
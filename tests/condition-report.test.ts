@@ -0,0 +1,214 @@
+/**
+ * Test Suite for move-in and move-out condition reports
+ * Validates the inventory comparison, the owner and tenant co-signing flow
+ * against the content hash and the PDF export
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { StorageAdapter } from '@/lib/storage';
+import {
+  ConditionReportService,
+  compareReports,
+  prefillMoveOut,
+  reportContentHash,
+  type ConditionReport,
+  type ConditionReportRepository,
+  type ConditionReportUpdate,
+  type NewConditionReport,
+  type ReportContent,
+  type ReportKind,
+  type ReportLease,
+  type ReportStatus,
+} from '@/services/payments-svc/condition-report';
+
+const OWNER = '11111111-1111-4111-8111-111111111111';
+const TENANT = '22222222-2222-4222-8222-222222222222';
+const BOOKING = '44444444-4444-4444-8444-444444444444';
+
+class MemoryReportRepository implements ConditionReportRepository {
+  reports: ConditionReport[] = [];
+  lease: ReportLease = {
+    id: BOOKING,
+    tenantId: TENANT,
+    ownerId: OWNER,
+    status: 'signed',
+    apartmentTitle: 'Sunny studio near ELTE (Ráday utca)',
+    apartmentAddress: 'Ráday utca 12, Budapest',
+    moveInDate: '2027-02-01',
+    moveOutDate: '2027-07-31',
+  };
+
+  async findLease(bookingId: string) {
+    return bookingId === this.lease.id ? { ...this.lease } : null;
+  }
+
+  async create(report: NewConditionReport) {
+    if (this.reports.some((r) => r.bookingId === report.bookingId && r.kind === report.kind)) return null;
+    const stored: ConditionReport = {
+      ...report,
+      id: `report-${this.reports.length + 1}`,
+      status: 'draft',
+      tenantComments: null,
+      contentHash: null,
+      ownerSignature: null,
+      ownerSignedAt: null,
+      tenantSignature: null,
+      tenantSignedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.reports.push(stored);
+    return { ...stored };
+  }
+
+  async find(bookingId: string, kind: ReportKind) {
+    const report = this.reports.find((r) => r.bookingId === bookingId && r.kind === kind);
+    return report ? { ...report } : null;
+  }
+
+  async list(bookingId: string) {
+    return this.reports.filter((r) => r.bookingId === bookingId);
+  }
+
+  async transition(id: string, from: ReportStatus[], to: ReportStatus, update: ConditionReportUpdate) {
+    const report = this.reports.find((r) => r.id === id);
+    if (!report || !from.includes(report.status)) return null;
+    Object.assign(report, update, { status: to, updatedAt: new Date() });
+    return { ...report };
+  }
+}
+
+const memoryStorage: StorageAdapter = {
+  name: 'local',
+  async put(key, body, options) {
+    return { key, size: body.byteLength, contentType: options.contentType, sha256: 'x' };
+  },
+  async get() {
+    return Buffer.alloc(0);
+  },
+  async remove() {},
+  async signedUrl(key) {
+    return `https://storage.test/${key}`;
+  },
+};
+
+const moveIn: ReportContent = {
+  rooms: [
+    {
+      name: 'Kitchen',
+      items: [
+        { name: 'Fridge', condition: 'good', notes: '', photoKeys: [] },
+        { name: 'Kettle', condition: 'new', notes: '', photoKeys: [] },
+      ],
+    },
+    { name: 'Bedroom', items: [{ name: 'Desk', condition: 'fair', notes: 'Scratched top', photoKeys: [] }] },
+  ],
+  meterReadings: [{ meter: 'electricity', serial: 'E-1001', reading: 1200.5, photoKeys: [] }],
+  generalNotes: 'Two keys handed over',
+};
+
+describe('compareReports', () => {
+  it('matches items by name and measures meter consumption', () => {
+    const moveOut = prefillMoveOut(moveIn);
+    moveOut.rooms[0].items = [
+      { name: 'fridge ', condition: 'damaged', notes: 'Door seal torn', photoKeys: [] },
+      { name: 'Microwave', condition: 'good', notes: '', photoKeys: [] },
+    ];
+    moveOut.rooms[1].items[0].condition = 'good';
+    moveOut.meterReadings[0].reading = 2450.5;
+
+    const comparison = compareReports(moveIn, moveOut);
+
+    expect(comparison.items.map((item) => [item.item, item.change])).toEqual([
+      ['Fridge', 'worse'],
+      ['Kettle', 'missing'],
+      ['Microwave', 'added'],
+      ['Desk', 'better'],
+    ]);
+    expect(comparison.worsened).toBe(2);
+    expect(comparison.meters).toEqual([
+      { meter: 'electricity', unit: 'kWh', moveIn: 1200.5, moveOut: 2450.5, consumption: 1250 },
+    ]);
+  });
+});
+
+describe('ConditionReportService', () => {
+  let repository: MemoryReportRepository;
+  let events: string[];
+  let service: ConditionReportService;
+
+  beforeEach(() => {
+    repository = new MemoryReportRepository();
+    events = [];
+    service = new ConditionReportService(
+      repository,
+      async (report, event) => {
+        events.push(`${report.kind}:${event}`);
+      },
+      () => memoryStorage,
+      () => new Date('2027-02-01T10:00:00Z')
+    );
+  });
+
+  it('is signed by the owner and then co-signed by the tenant on the same content', async () => {
+    await service.create(OWNER, BOOKING, 'move_in');
+    await expect(service.create(TENANT, BOOKING, 'move_in')).rejects.toMatchObject({ status: 403 });
+    await service.saveDraft(OWNER, BOOKING, 'move_in', moveIn);
+
+    const submitted = await service.submit(OWNER, BOOKING, 'move_in', 'Kovács Anna');
+    expect(submitted.contentHash).toBe(reportContentHash(submitted));
+    await expect(service.saveDraft(OWNER, BOOKING, 'move_in', moveIn)).rejects.toThrow('Only a draft');
+
+    await expect(
+      service.sign(TENANT, BOOKING, 'move_in', { contentHash: 'a'.repeat(64), signature: 'Nagy Péter' })
+    ).rejects.toThrow('changed');
+    await service.requestChanges(TENANT, BOOKING, 'move_in', 'The desk scratch is missing a photo');
+    expect((await repository.find(BOOKING, 'move_in'))?.ownerSignature).toBeNull();
+
+    const resubmitted = await service.submit(OWNER, BOOKING, 'move_in', 'Kovács Anna');
+    const signed = await service.sign(TENANT, BOOKING, 'move_in', {
+      contentHash: resubmitted.contentHash!,
+      signature: 'Nagy Péter',
+    });
+
+    expect(signed.status).toBe('signed');
+    expect(events).toEqual(['move_in:submitted', 'move_in:changes_requested', 'move_in:submitted', 'move_in:signed']);
+  });
+
+  it('refuses to sign without every meter read and rejects foreign photos', async () => {
+    await service.create(OWNER, BOOKING, 'move_in');
+    const unread = { ...moveIn, meterReadings: [{ ...moveIn.meterReadings[0], reading: null }] };
+    await service.saveDraft(OWNER, BOOKING, 'move_in', unread);
+    await expect(service.submit(OWNER, BOOKING, 'move_in', 'Kovács Anna')).rejects.toThrow('meter reading');
+
+    const foreign = { ...moveIn, rooms: [{ name: 'Hall', items: [{ name: 'Mirror', condition: 'good' as const, notes: '', photoKeys: ['condition-reports/other/a.png'] }] }] };
+    await expect(service.saveDraft(OWNER, BOOKING, 'move_in', foreign)).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('prefills the move-out report and exports it with the comparison as a PDF', async () => {
+    await service.create(OWNER, BOOKING, 'move_in');
+    await service.saveDraft(OWNER, BOOKING, 'move_in', moveIn);
+    const { contentHash } = await service.submit(OWNER, BOOKING, 'move_in', 'Kovács Anna');
+    await service.sign(TENANT, BOOKING, 'move_in', { contentHash: contentHash!, signature: 'Nagy Péter' });
+
+    await expect(service.create(OWNER, BOOKING, 'move_out')).rejects.toMatchObject({ status: 409 });
+    repository.lease.status = 'ended';
+    const moveOut = await service.create(OWNER, BOOKING, 'move_out');
+    expect(moveOut.rooms.map((room) => room.items.map((item) => item.name))).toEqual([['Fridge', 'Kettle'], ['Desk']]);
+    expect(moveOut.meterReadings[0]).toMatchObject({ serial: 'E-1001', reading: null });
+
+    const overview = await service.overview(TENANT, BOOKING);
+    expect(overview.role).toBe('tenant');
+    expect(overview.comparison?.worsened).toBe(0);
+
+    const pdf = await service.pdf(TENANT, BOOKING, 'move_out');
+    const text = pdf.toString('latin1');
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(text).toContain('(Changes since move-in)');
+    expect(text).toContain('Ráday utca 12');
+    await expect(service.pdf('someone-else', BOOKING, 'move_in')).rejects.toMatchObject({ status: 404 });
+  });
+});
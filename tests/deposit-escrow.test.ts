@@ -0,0 +1,273 @@
+/**
+ * Test Suite for the security deposit escrow
+ * Validates the escrow ledger, itemised deduction claims, the claim and
+ * dispute windows, admin resolution and the split payout at move-out
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { StorageAdapter } from '@/lib/storage';
+import {
+  CLAIM_WINDOW_DAYS,
+  DISPUTE_WINDOW_DAYS,
+  DepositEscrowService,
+  EscrowError,
+  escrowBalance,
+  settlementSplit,
+  validateDeductions,
+  type DepositDeduction,
+  type DepositEscrow,
+  type EscrowEntry,
+  type EscrowEntryType,
+  type EscrowPaymentGateway,
+  type EscrowRepository,
+  type EscrowStatus,
+  type EscrowUpdate,
+  type NewDeduction,
+  type NewEscrow,
+} from '@/services/payments-svc/escrow';
+import type { Lease, LeasePayment } from '@/services/payments-svc/lease';
+
+const OWNER = '11111111-1111-4111-8111-111111111111';
+const TENANT = '22222222-2222-4222-8222-222222222222';
+const ADMIN = '33333333-3333-4333-8333-333333333333';
+const BOOKING = '44444444-4444-4444-8444-444444444444';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3, 4]);
+
+class MemoryEscrowRepository implements EscrowRepository {
+  escrows = new Map<string, DepositEscrow>();
+  deductions: DepositDeduction[] = [];
+  entries: EscrowEntry[] = [];
+  private sequence = 0;
+
+  private id() {
+    return `00000000-0000-4000-8000-${String(++this.sequence).padStart(12, '0')}`;
+  }
+
+  async create(escrow: NewEscrow) {
+    if ([...this.escrows.values()].some((e) => e.bookingId === escrow.bookingId)) return null;
+    const stored: DepositEscrow = {
+      ...escrow,
+      id: this.id(),
+      status: 'held',
+      claimDeadline: null,
+      disputeWindowEndsAt: null,
+      revision: 0,
+      deductionHuf: 0,
+      disputeReason: null,
+      disputeEvidenceKeys: [],
+      resolvedBy: null,
+      resolutionNotes: null,
+      settledAt: null,
+      releasedAt: null,
+      createdAt: new Date(),
+    };
+    this.escrows.set(stored.id, stored);
+    return { ...stored };
+  }
+
+  async findById(id: string) {
+    const escrow = this.escrows.get(id);
+    return escrow ? { ...escrow } : null;
+  }
+
+  async findByBooking(bookingId: string) {
+    const escrow = [...this.escrows.values()].find((e) => e.bookingId === bookingId);
+    return escrow ? { ...escrow } : null;
+  }
+
+  async transition(id: string, from: EscrowStatus[], to: EscrowStatus, update: EscrowUpdate) {
+    const escrow = this.escrows.get(id);
+    if (!escrow || !from.includes(escrow.status)) return null;
+    Object.assign(escrow, update, { status: to });
+    return { ...escrow };
+  }
+
+  async replaceDeductions(escrowId: string, items: NewDeduction[]) {
+    this.deductions = this.deductions.filter((d) => d.escrowId !== escrowId);
+    this.deductions.push(...items.map((item) => ({ ...item, id: this.id(), escrowId })));
+    return this.listDeductions(escrowId);
+  }
+
+  async listDeductions(escrowId: string) {
+    return this.deductions.filter((d) => d.escrowId === escrowId);
+  }
+
+  async addEntry(escrowId: string, entryType: EscrowEntryType, amountHuf: number, stripeReference: string | null) {
+    if (this.entries.some((e) => e.escrowId === escrowId && e.entryType === entryType)) return false;
+    this.entries.push({ id: this.id(), escrowId, entryType, amountHuf, stripeReference, createdAt: new Date() });
+    return true;
+  }
+
+  async listEntries(escrowId: string) {
+    return this.entries.filter((e) => e.escrowId === escrowId);
+  }
+
+  async listByStatus(status: EscrowStatus) {
+    return [...this.escrows.values()].filter((e) => e.status === status);
+  }
+}
+
+class FakeGateway implements EscrowPaymentGateway {
+  refunds: number[] = [];
+  transfers: number[] = [];
+  failTransfer = false;
+
+  async refundTenant(_escrow: DepositEscrow, amountHuf: number) {
+    this.refunds.push(amountHuf);
+    return `re_${this.refunds.length}`;
+  }
+
+  async payOwner(_escrow: DepositEscrow, amountHuf: number) {
+    if (this.failTransfer) throw new Error('Insufficient platform balance');
+    this.transfers.push(amountHuf);
+    return `tr_${this.transfers.length}`;
+  }
+}
+
+const memoryStorage: StorageAdapter = {
+  name: 'local',
+  async put(key, body, options) {
+    return { key, size: body.byteLength, contentType: options.contentType, sha256: 'x' };
+  },
+  async get() {
+    return Buffer.alloc(0);
+  },
+  async remove() {},
+  async signedUrl(key) {
+    return `https://storage.test/${key}`;
+  },
+};
+
+const lease = { id: BOOKING, tenantId: TENANT, ownerId: OWNER, stripeAccountId: 'acct_owner' } as Lease;
+const firstPayment = { depositHuf: 300000, paymentIntentId: 'pi_first' } as LeasePayment;
+
+describe('escrow helpers', () => {
+  it('keeps the balance and the payout split consistent', () => {
+    expect(escrowBalance([
+      { entryType: 'captured', amountHuf: 300000 },
+      { entryType: 'refunded_to_tenant', amountHuf: 220000 },
+      { entryType: 'released_to_owner', amountHuf: 80000 },
+    ])).toBe(0);
+    expect(settlementSplit({ amountHuf: 300000, deductionHuf: 80000 })).toEqual({
+      tenantRefundHuf: 220000,
+      ownerPayoutHuf: 80000,
+    });
+  });
+
+  it('rejects claims above the deposit or with evidence from another lease', () => {
+    const item = (amountHuf: number, evidenceKeys: string[] = []) => ({ description: 'Broken chair', amountHuf, evidenceKeys });
+    expect(validateDeductions([item(100000), item(50000)], 300000, BOOKING)).toBe(150000);
+    expect(() => validateDeductions([item(200000), item(150000)], 300000, BOOKING)).toThrow('exceed');
+    expect(() => validateDeductions([item(1000, ['deposit-evidence/other/a.png'])], 300000, BOOKING)).toThrow(EscrowError);
+  });
+});
+
+describe('DepositEscrowService', () => {
+  let repository: MemoryEscrowRepository;
+  let gateway: FakeGateway;
+  let jobs: Array<{ type: string; runAt: Date }>;
+  let events: string[];
+  let now: Date;
+  let service: DepositEscrowService;
+
+  beforeEach(async () => {
+    repository = new MemoryEscrowRepository();
+    gateway = new FakeGateway();
+    jobs = [];
+    events = [];
+    now = new Date('2027-05-01T00:00:00Z');
+    service = new DepositEscrowService(
+      repository,
+      gateway,
+      async (type, _payload, runAt) => {
+        jobs.push({ type, runAt });
+      },
+      async (_escrow, event) => {
+        events.push(event);
+      },
+      () => memoryStorage,
+      () => now
+    );
+    await service.depositPaid(lease, firstPayment);
+  });
+
+  const escrow = async () => (await repository.findByBooking(BOOKING))!;
+
+  it('holds the deposit once and only takes claims after the lease ends', async () => {
+    expect(await service.depositPaid(lease, firstPayment)).toBeNull();
+    expect(repository.entries.map((e) => e.entryType)).toEqual(['captured']);
+
+    const claim = [{ description: 'Stained carpet', amountHuf: 50000, evidenceKeys: [] }];
+    await expect(service.proposeDeductions(OWNER, BOOKING, claim)).rejects.toThrow('once the lease has ended');
+
+    await service.leaseEnded(lease);
+    expect(jobs).toEqual([
+      { type: 'deposit.claim_deadline', runAt: new Date(now.getTime() + CLAIM_WINDOW_DAYS * DAY_MS) },
+    ]);
+  });
+
+  it('pays out an accepted claim as a partial refund plus a transfer', async () => {
+    await service.leaseEnded(lease);
+    const key = await service.uploadEvidence(OWNER, BOOKING, PNG);
+    await service.proposeDeductions(OWNER, BOOKING, [
+      { description: 'Broken oven door', amountHuf: 80000, evidenceKeys: [key] },
+    ]);
+    expect(events).toEqual(['claim_proposed']);
+
+    const view = await service.getForParty(TENANT, BOOKING);
+    expect(view.deductions[0].evidenceUrls).toEqual([`https://storage.test/${key}`]);
+    await expect(service.getForParty(ADMIN, BOOKING)).rejects.toMatchObject({ status: 404 });
+
+    await service.acceptClaim(TENANT, BOOKING);
+    expect(jobs.at(-1)?.type).toBe('deposit.release');
+
+    gateway.failTransfer = true;
+    await expect(service.release((await escrow()).id)).rejects.toThrow('Insufficient');
+    gateway.failTransfer = false;
+    const released = await service.release((await escrow()).id);
+
+    expect(released?.status).toBe('released');
+    expect(gateway.refunds).toEqual([220000]);
+    expect(gateway.transfers).toEqual([80000]);
+    expect(escrowBalance(repository.entries)).toBe(0);
+    expect(events.at(-1)).toBe('released');
+  });
+
+  it('lets an admin cut a disputed claim down', async () => {
+    await service.leaseEnded(lease);
+    await service.proposeDeductions(OWNER, BOOKING, [{ description: 'Repainting', amountHuf: 150000, evidenceKeys: [] }]);
+    await service.disputeClaim(TENANT, BOOKING, { reason: 'Normal wear after a year' });
+
+    const { id } = await escrow();
+    await expect(service.resolveDispute(ADMIN, id, { deductionHuf: 200000, notes: 'x' })).rejects.toMatchObject({ status: 400 });
+    await service.resolveDispute(ADMIN, id, { deductionHuf: 40000, notes: 'Only the hallway was damaged' });
+    await service.release(id);
+
+    expect(gateway.refunds).toEqual([260000]);
+    expect(gateway.transfers).toEqual([40000]);
+  });
+
+  it('settles by default when the windows pass', async () => {
+    await service.leaseEnded(lease);
+    const { id } = await escrow();
+    expect(await service.closeClaimWindow(id)).toBeNull();
+
+    await service.proposeDeductions(OWNER, BOOKING, [{ description: 'Lost keys', amountHuf: 10000, evidenceKeys: [] }]);
+    now = new Date(now.getTime() + (DISPUTE_WINDOW_DAYS + 1) * DAY_MS);
+    await expect(service.disputeClaim(TENANT, BOOKING, { reason: 'Too late' })).rejects.toThrow('closed');
+    expect((await service.closeDisputeWindow(id))?.status).toBe('settled');
+  });
+
+  it('refunds everything when the owner claims nothing', async () => {
+    await service.leaseEnded(lease);
+    now = new Date(now.getTime() + (CLAIM_WINDOW_DAYS + 1) * DAY_MS);
+    const { id } = await escrow();
+    expect((await service.closeClaimWindow(id))?.deductionHuf).toBe(0);
+    await service.release(id);
+    expect(gateway.refunds).toEqual([300000]);
+    expect(gateway.transfers).toEqual([]);
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Test Suite for the digest composer
+ * Validates block selection and ranking, rendering in both locales with
+ * signed tracking links, and the send, skip and open/click recording flow
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET as clickRoute } from '@/app/api/digests/[sendId]/click/route';
+import {
+  DigestService,
+  renderDigest,
+  signDigestLink,
+  trackingLinks,
+  verifyDigestLink,
+  type ComposedDigest,
+  type DigestBlockKind,
+  type DigestMarketStat,
+  type DigestMatch,
+  type DigestPriceDrop,
+  type DigestRecipient,
+  type DigestRepository,
+  type DigestThread,
+  type DigestType,
+  type DigestViewing,
+  type RenderedDigest,
+} from '@/services/notify-svc/digest';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date('2026-10-18T08:00:00Z');
+
+const match = (apartmentId: string, overrides: Partial<DigestMatch> = {}): DigestMatch => ({
+  apartmentId,
+  title: `Flat ${apartmentId}`,
+  district: 9,
+  priceHuf: 180000,
+  bedrooms: 2,
+  furnished: true,
+  searchName: 'Near Corvinus',
+  matchedAt: new Date(NOW.getTime() - 5 * HOUR),
+  ...overrides,
+});
+
+class MemoryDigestRepository implements DigestRepository {
+  recipient: DigestRecipient = {
+    userId: 'student-1',
+    email: 'student-1@example.com',
+    locale: 'en',
+    categories: ['saved_searches', 'price_drops', 'nearby_updates'],
+    lastSentAt: null,
+    searches: [{ minPrice: null, maxPrice: 200000, bedrooms: 2, districts: [9], furnished: true }],
+  };
+  matches: DigestMatch[] = [];
+  drops: DigestPriceDrop[] = [];
+  threads: DigestThread[] = [];
+  viewings: DigestViewing[] = [];
+  stats: DigestMarketStat[] = [];
+  sends = new Map<
+    string,
+    { jobId: string; status: string; subject: string | null; blocks: DigestBlockKind[]; opens: number; clicks: number }
+  >();
+  lastSentAt: Date | null = null;
+  sinceSeen: Date | null = null;
+
+  async findRecipient(userId: string) {
+    return userId === this.recipient.userId ? this.recipient : null;
+  }
+
+  async newMatches(_userId: string, since: Date) {
+    this.sinceSeen = since;
+    return this.matches.filter((m) => m.matchedAt >= since);
+  }
+
+  async priceDropsOnFavorites() {
+    return this.drops;
+  }
+
+  async unreadThreads() {
+    return this.threads;
+  }
+
+  async upcomingViewings(_userId: string, from: Date, until: Date) {
+    return this.viewings.filter((v) => v.startsAt >= from && v.startsAt <= until);
+  }
+
+  async userDistricts() {
+    return [9];
+  }
+
+  async marketStats(districts: number[]) {
+    return this.stats.filter((stat) => districts.includes(stat.district));
+  }
+
+  async startSend(jobId: string) {
+    const existing = Array.from(this.sends.entries()).find(([, send]) => send.jobId === jobId);
+    if (existing) return existing[0];
+    const id = `send-${this.sends.size + 1}`;
+    this.sends.set(id, { jobId, status: 'composing', subject: null, blocks: [], opens: 0, clicks: 0 });
+    return id;
+  }
+
+  async finishSend(sendId: string, result: { status: string; subject: string | null; blocks: DigestBlockKind[] }) {
+    Object.assign(this.sends.get(sendId)!, result);
+  }
+
+  async markDigestSent(_userId: string, at: Date) {
+    this.lastSentAt = at;
+  }
+
+  async recordOpen(sendId: string) {
+    const send = this.sends.get(sendId);
+    if (send) send.opens++;
+    return Boolean(send);
+  }
+
+  async recordClick(sendId: string) {
+    const send = this.sends.get(sendId);
+    if (send) send.clicks++;
+    return Boolean(send);
+  }
+}
+
+describe('DigestService.compose', () => {
+  let repository: MemoryDigestRepository;
+  let service: DigestService;
+
+  beforeEach(() => {
+    repository = new MemoryDigestRepository();
+    const scores = new Map([
+      ['cheap', 0.9],
+      ['pricey', 0.4],
+      ['fav', 0.6],
+    ]);
+    service = new DigestService(repository, async (_userId, listings) => {
+      return new Map(listings.map((listing) => [listing.apartmentId, scores.get(listing.apartmentId) ?? 0]));
+    }, async () => {}, () => NOW);
+  });
+
+  it('ranks listings, puts a viewing tomorrow first and keeps favourites out of the matches', async () => {
+    repository.matches = [match('pricey'), match('cheap'), match('fav')];
+    repository.drops = [{ ...match('fav'), oldPriceHuf: 200000, changedAt: NOW }];
+    repository.threads = [{ conversationId: 'c1', apartmentTitle: 'Flat fav', unread: 2, lastMessageAt: NOW }];
+    repository.viewings = [
+      { bookingId: 'b1', apartmentId: 'fav', apartmentTitle: 'Flat fav', startsAt: new Date(NOW.getTime() + 20 * HOUR) },
+    ];
+    repository.stats = [{ district: 9, medianHuf: 185000, trend: 'up', trendPct: 2.5, listings: 40, newListings: 3 }];
+
+    const digest = await service.compose(repository.recipient, 'weekly_summary');
+    expect(digest.blocks.map((block) => block.kind)).toEqual([
+      'upcoming_viewings',
+      'unread_messages',
+      'new_matches',
+      'price_drops',
+      'market_stats',
+    ]);
+    const matches = digest.blocks.find((block) => block.kind === 'new_matches')!.items as DigestMatch[];
+    expect(matches.map((m) => m.apartmentId)).toEqual(['cheap', 'pricey']);
+    expect(digest.apartmentCount).toBe(3);
+    expect(repository.sinceSeen).toEqual(new Date(NOW.getTime() - 7 * 24 * HOUR));
+  });
+
+  it('only includes the blocks of the digest type that the user opted into', async () => {
+    repository.matches = [match('cheap')];
+    repository.drops = [{ ...match('fav'), oldPriceHuf: 200000, changedAt: NOW }];
+    repository.threads = [{ conversationId: 'c1', apartmentTitle: 'Flat fav', unread: 1, lastMessageAt: NOW }];
+    repository.stats = [{ district: 9, medianHuf: 185000, trend: 'stable', trendPct: 0, listings: 40, newListings: 0 }];
+
+    const kinds = async (type: DigestType) =>
+      (await service.compose(repository.recipient, type)).blocks.map((block) => block.kind);
+
+    expect(await kinds('price_drops')).toEqual(['price_drops']);
+    expect(await kinds('new_listings')).toEqual(['new_matches', 'market_stats']);
+
+    repository.recipient.categories = ['saved_searches'];
+    expect(await kinds('weekly_summary')).toEqual(['unread_messages', 'new_matches']);
+  });
+});
+
+describe('renderDigest', () => {
+  const digest = (locale: 'en' | 'hu'): ComposedDigest => ({
+    type: 'weekly_summary',
+    locale,
+    since: new Date('2026-10-11T08:00:00Z'),
+    apartmentCount: 7,
+    blocks: [
+      {
+        kind: 'price_drops',
+        score: 1,
+        items: [{ ...match('fav', { title: 'Loft <b>by</b> the river', priceHuf: 170000 }), oldPriceHuf: 200000, changedAt: NOW }],
+      },
+      { kind: 'new_matches', score: 0.5, items: Array.from({ length: 7 }, (_, i) => match(`m${i}`)) },
+    ],
+  });
+  const links = trackingLinks('send-1', 'https://app.example', 'secret');
+
+  it('renders the user language with escaped HTML, a plain-text part and signed links', () => {
+    const english: RenderedDigest = renderDigest(digest('en'), links);
+    expect(english.subject).toBe('8 updates on your apartment hunt');
+    expect(english.text).toContain('Price drops on your favourites');
+    expect(english.text).toContain('Loft <b>by</b> the river: 200,000 Ft → 170,000 Ft (−15%)');
+    expect(english.text).toContain('and 2 more');
+    expect(english.html).toContain('Loft &lt;b&gt;by&lt;/b&gt; the river');
+    expect(english.html).toContain(`/api/digests/send-1/open?sig=${signDigestLink('send-1', 'open', 'secret')}`);
+
+    const target = 'https://app.example/apartments/fav';
+    expect(english.html).toContain(
+      `/api/digests/send-1/click?url=${encodeURIComponent(target)}&amp;sig=${signDigestLink('send-1', target, 'secret')}`
+    );
+
+    const hungarian = renderDigest(digest('hu'), links);
+    expect(hungarian.subject).toBe('8 újdonság a lakáskeresésedben');
+    expect(hungarian.text).toContain('Árcsökkenés a kedvenceidnél');
+    expect(hungarian.text).toMatch(/200\s000 Ft → 170\s000 Ft/);
+    expect(hungarian.text).toContain('2 hálószoba („Near Corvinus”)');
+  });
+});
+
+describe('DigestService.send', () => {
+  let repository: MemoryDigestRepository;
+  let sent: Array<{ sendId: string; to: string; subject: string; html: string }>;
+  let service: DigestService;
+
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_APP_URL = 'https://app.example';
+  });
+
+  afterAll(() => {
+    delete process.env.NEXT_PUBLIC_APP_URL;
+  });
+
+  beforeEach(() => {
+    process.env.DIGEST_TRACKING_SECRET = 'digest-secret';
+  });
+
+  afterEach(() => {
+    delete process.env.DIGEST_TRACKING_SECRET;
+  });
+
+  beforeEach(() => {
+    repository = new MemoryDigestRepository();
+    sent = [];
+    service = new DigestService(
+      repository,
+      async () => new Map(),
+      async (sendId, to, rendered) => {
+        sent.push({ sendId, to, subject: rendered.subject, html: rendered.html });
+      },
+      () => NOW
+    );
+  });
+
+  it('skips empty digests, reuses the send row on retry and counts signed opens and clicks only', async () => {
+    expect(await service.send('job-1', { userId: 'student-1', email: '', type: 'saved_searches' })).toMatchObject({
+      status: 'skipped',
+    });
+    expect(sent).toHaveLength(0);
+    expect(repository.lastSentAt).toBeNull();
+
+    repository.matches = [match('cheap')];
+    const first = await service.send('job-2', { userId: 'student-1', email: '', type: 'saved_searches' });
+    const retry = await service.send('job-2', { userId: 'student-1', email: '', type: 'saved_searches' });
+    expect(retry.sendId).toBe(first.sendId);
+    expect(sent.map((email) => email.sendId)).toEqual([first.sendId, first.sendId]);
+    expect(repository.sends.get(first.sendId!)).toMatchObject({ status: 'sent', blocks: ['new_matches'] });
+    expect(repository.lastSentAt).toEqual(NOW);
+
+    const sendId = first.sendId!;
+    const url = 'https://app.example/apartments/cheap';
+    const secret = 'digest-secret';
+    expect(verifyDigestLink(sendId, url, signDigestLink(sendId, url, secret), secret)).toBe(true);
+
+    expect(await service.recordOpen(sendId, signDigestLink(sendId, 'open', secret))).toBe(true);
+    expect(await service.recordClick(sendId, url, signDigestLink(sendId, url, secret))).toBe(url);
+    expect(await service.recordClick(sendId, 'https://evil.example', signDigestLink(sendId, url, secret))).toBeNull();
+    expect(repository.sends.get(sendId)).toMatchObject({ opens: 1, clicks: 1 });
+
+    await expect(service.send('job-3', { userId: 'ghost', email: '', type: 'weekly_summary' })).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+
+  it('only redirects to app links, even when an external link is validly signed', async () => {
+    const secret = 'digest-secret';
+    const external = 'https://evil.example/login';
+    expect(await service.recordClick('send-1', '/dashboard', signDigestLink('send-1', '/dashboard', secret))).toBe('/dashboard');
+    expect(await service.recordClick('send-1', external, signDigestLink('send-1', external, secret))).toBeNull();
+    expect(await service.recordClick('send-1', '//evil.example', signDigestLink('send-1', '//evil.example', secret))).toBeNull();
+
+    const response = await clickRoute(
+      new NextRequest(
+        `https://app.example/api/digests/send-1/click?url=${encodeURIComponent(external)}&sig=${signDigestLink('send-1', external, secret)}`
+      ),
+      { params: { sendId: 'send-1' } }
+    );
+    expect(response.status).toBe(302);
+    expect(response.headers.get('location')).toBe('https://app.example/');
+  });
+
+  it('sends untracked links and accepts no tracking links without DIGEST_TRACKING_SECRET', async () => {
+    delete process.env.DIGEST_TRACKING_SECRET;
+    repository.matches = [match('cheap')];
+
+    const { sendId } = await service.send('job-1', { userId: 'student-1', email: '', type: 'saved_searches' });
+    expect(sent[0].html).toContain('href="https://app.example/apartments/cheap"');
+    expect(sent[0].html).not.toContain('/api/digests/');
+
+    // Links signed with the old public fallback are forgeries now
+    const url = '/dashboard';
+    expect(await service.recordOpen(sendId!, signDigestLink(sendId!, 'open', 'default-digest-secret'))).toBe(false);
+    expect(await service.recordClick(sendId!, url, signDigestLink(sendId!, url, 'default-digest-secret'))).toBeNull();
+    expect(repository.sends.get(sendId!)).toMatchObject({ opens: 0, clicks: 0 });
+  });
+});
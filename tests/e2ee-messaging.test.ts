@@ -0,0 +1,206 @@
+/**
+ * Test Suite for end-to-end encrypted messaging
+ * Validates key wrapping, message envelopes, the client keyring, key
+ * rotation when a participant is removed and inbox replies through the
+ * messages API
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  encryptMessageContent,
+  generateConversationKey,
+  generateUserKeyPair,
+  parseEnvelope,
+  unwrapConversationKey,
+  wrapConversationKey,
+  wrapContext,
+} from '@/lib/e2ee/crypto';
+import {
+  ConversationKeyring,
+  KeyVersionConflictError,
+  UNDECRYPTABLE_MESSAGE,
+  type KeyDirectory,
+  type PrivateKeyStore,
+  type UserKeyPair,
+} from '@/lib/e2ee/keyring';
+import { postMessage } from '@/lib/messaging';
+import { checkMessageContent, validateKeyDistribution } from '@/services/messaging-system-svc/keys';
+
+const CONVERSATION = '5b0c3f0e-8f7e-4a59-9a51-0d2f7e0b1a11';
+
+// In-memory stand-in for /api/messages/keys with the same validation rules
+function memoryDirectory(participantIds: string[]) {
+  const state = {
+    keyVersion: 0,
+    rotationRequired: false,
+    active: new Set(participantIds),
+    publicKeys: new Map<string, JsonWebKey>(),
+    wrapped: new Map<string, Array<{ keyVersion: number; wrappedKey: string }>>(),
+  };
+
+  const forUser = (userId: string): KeyDirectory => ({
+    async publishPublicKey(publicKey) {
+      state.publicKeys.set(userId, publicKey);
+    },
+    async getConversationKeys(conversationId) {
+      return {
+        conversationId,
+        currentVersion: state.keyVersion,
+        rotationRequired: state.rotationRequired,
+        participants: [...state.active].map((id) => ({ userId: id, publicKey: state.publicKeys.get(id) ?? null })),
+        wrappedKeys: state.wrapped.get(userId) ?? [],
+      };
+    },
+    async storeConversationKey(_conversationId, keyVersion, wrappedKeys) {
+      const invalid = validateKeyDistribution(state, [...state.active], keyVersion, wrappedKeys.map((entry) => entry.userId));
+      if (invalid?.status === 409) throw new KeyVersionConflictError();
+      if (invalid) throw invalid;
+      for (const entry of wrappedKeys) {
+        state.wrapped.set(entry.userId, [...(state.wrapped.get(entry.userId) ?? []), { keyVersion, wrappedKey: entry.wrappedKey }]);
+      }
+      state.keyVersion = keyVersion;
+      state.rotationRequired = false;
+    },
+  });
+
+  return { state, forUser };
+}
+
+function memoryStore(): PrivateKeyStore {
+  const pairs = new Map<string, UserKeyPair>();
+  return {
+    async load(userId) {
+      return pairs.get(userId) ?? null;
+    },
+    async save(userId, keyPair) {
+      pairs.set(userId, keyPair);
+    },
+  };
+}
+
+describe('key wrapping and envelopes', () => {
+  it('unwraps only with the recipient key and the same context', async () => {
+    const bob = await generateUserKeyPair();
+    const eve = await generateUserKeyPair();
+    const key = await generateConversationKey();
+    const context = wrapContext(CONVERSATION, 1, 'bob');
+
+    const wrapped = await wrapConversationKey(key, bob.publicKey, context);
+    const envelope = await encryptMessageContent(key, 'Is the flat still available?', CONVERSATION, 1);
+
+    const unwrapped = await unwrapConversationKey(wrapped, bob.privateKey, context);
+    const parsed = parseEnvelope(envelope)!;
+    expect(parsed.keyVersion).toBe(1);
+    expect(envelope).not.toContain('flat');
+
+    const plaintext = new TextDecoder().decode(
+      await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: parsed.iv, additionalData: new TextEncoder().encode(`${CONVERSATION}:1`) },
+        unwrapped,
+        parsed.ciphertext
+      )
+    );
+    expect(plaintext).toBe('Is the flat still available?');
+
+    await expect(unwrapConversationKey(wrapped, eve.privateKey, context)).rejects.toThrow();
+    await expect(unwrapConversationKey(wrapped, bob.privateKey, wrapContext(CONVERSATION, 2, 'bob'))).rejects.toThrow();
+  });
+});
+
+describe('ConversationKeyring', () => {
+  it('encrypts for participants and rotates away from a removed member', async () => {
+    const directory = memoryDirectory(['alice', 'bob', 'carol']);
+    const store = memoryStore();
+    const alice = new ConversationKeyring('alice', directory.forUser('alice'), store);
+    const bob = new ConversationKeyring('bob', directory.forUser('bob'), store);
+    const carol = new ConversationKeyring('carol', directory.forUser('carol'), store);
+    await Promise.all([alice.ensureUserKeys(), bob.ensureUserKeys(), carol.ensureUserKeys()]);
+
+    const first = await alice.encrypt(CONVERSATION, 'Viewing on Friday?');
+    expect(parseEnvelope(first)?.keyVersion).toBe(1);
+    expect(await bob.decrypt(CONVERSATION, first)).toBe('Viewing on Friday?');
+    expect(await carol.decrypt(CONVERSATION, first)).toBe('Viewing on Friday?');
+
+    // Carol leaves; the server marks the conversation for rotation
+    directory.state.active.delete('carol');
+    directory.state.rotationRequired = true;
+
+    const second = await bob.encrypt(CONVERSATION, 'Door code is 4711');
+    expect(parseEnvelope(second)?.keyVersion).toBe(2);
+    expect(await alice.decrypt(CONVERSATION, second)).toBe('Door code is 4711');
+    expect(await carol.decrypt(CONVERSATION, second)).toBe(UNDECRYPTABLE_MESSAGE);
+    expect(await carol.decrypt(CONVERSATION, first)).toBe('Viewing on Friday?');
+  });
+
+  it('stays plaintext until every participant has a key and passes legacy content through', async () => {
+    const directory = memoryDirectory(['alice', 'bob']);
+    const alice = new ConversationKeyring('alice', directory.forUser('alice'), memoryStore());
+
+    expect(await alice.encrypt(CONVERSATION, 'Hello')).toBe('Hello');
+    expect(directory.state.keyVersion).toBe(0);
+    expect(await alice.decrypt(CONVERSATION, 'Legacy plaintext')).toBe('Legacy plaintext');
+  });
+});
+
+describe('postMessage', () => {
+  it('sends an encrypted inbox reply and re-encrypts after a concurrent rotation', async () => {
+    const directory = memoryDirectory(['student', 'owner']);
+    const store = memoryStore();
+    const student = new ConversationKeyring('student', directory.forUser('student'), store);
+    const owner = new ConversationKeyring('owner', directory.forUser('owner'), store);
+    await Promise.all([student.ensureUserKeys(), owner.ensureUserKeys()]);
+    await student.encrypt(CONVERSATION, 'Is the flat still available?');
+
+    // Stand-in for POST /api/messages: the same content check, and the
+    // student's device key changes right before the first attempt lands
+    const stored: string[] = [];
+    const statuses: number[] = [];
+    const fetcher = (async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(String(init.body));
+      if (statuses.length === 0) directory.state.rotationRequired = true;
+      try {
+        checkMessageContent(directory.state, body.content);
+      } catch (error: any) {
+        statuses.push(error.status);
+        return new Response(JSON.stringify({ error: error.message }), { status: error.status });
+      }
+      statuses.push(200);
+      stored.push(body.content);
+      const message = { id: 'm1', content: body.content, sender_id: 'owner', created_at: '2026-10-18T10:00:00Z' };
+      return new Response(JSON.stringify({ message, conversationId: body.conversationId }));
+    }) as typeof fetch;
+
+    const reply = await postMessage(
+      { conversationId: CONVERSATION, receiverId: 'student', content: 'Yes, come on Friday' },
+      owner,
+      fetcher
+    );
+
+    expect(statuses).toEqual([409, 200]);
+    expect(reply).toMatchObject({ id: 'm1', content: 'Yes, come on Friday', conversation_id: CONVERSATION });
+    expect(parseEnvelope(stored[0])?.keyVersion).toBe(2);
+    expect(stored[0]).not.toContain('Friday');
+    expect(await student.decrypt(CONVERSATION, stored[0])).toBe('Yes, come on Friday');
+  });
+});
+
+describe('server-side checks', () => {
+  it('requires the next version wrapped for exactly the active participants', () => {
+    const state = { keyVersion: 1, rotationRequired: true };
+    expect(validateKeyDistribution(state, ['a', 'b'], 2, ['b', 'a'])).toBeNull();
+    expect(validateKeyDistribution(state, ['a', 'b'], 1, ['a', 'b'])?.status).toBe(409);
+    expect(validateKeyDistribution(state, ['a', 'b'], 3, ['a', 'b'])?.status).toBe(400);
+    expect(validateKeyDistribution(state, ['a'], 2, ['a', 'removed'])?.status).toBe(400);
+    expect(validateKeyDistribution(state, ['a', 'b'], 2, ['a'])?.status).toBe(400);
+  });
+
+  it('rejects plaintext in encrypted conversations and stale key versions', () => {
+    expect(checkMessageContent({ keyVersion: 0, rotationRequired: false }, 'hello')).toBeNull();
+    expect(checkMessageContent({ keyVersion: 2, rotationRequired: false }, 'e2ee1.2.AAAA.BBBB')).toBe(2);
+    expect(() => checkMessageContent({ keyVersion: 2, rotationRequired: false }, 'hello')).toThrow('plaintext');
+    expect(() => checkMessageContent({ keyVersion: 2, rotationRequired: false }, 'e2ee1.1.AAAA.BBBB')).toThrow('out of date');
+    expect(() => checkMessageContent({ keyVersion: 2, rotationRequired: true }, 'e2ee1.2.AAAA.BBBB')).toThrow('out of date');
+  });
+});
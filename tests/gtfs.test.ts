@@ -0,0 +1,308 @@
+/**
+ * Test Suite for GTFS ingestion
+ * Validates zip/CSV parsing, the stop index and scheduled connections
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import { parseCsv, parseGtfsFiles, parseGtfsTime, parseGtfsZip, type GtfsFeed } from '@/lib/gtfs/parser';
+import { discsToPolygon, minutesWithinDiscs, pruneDiscs } from '@/lib/gtfs/isochrone';
+import { setLocalGtfsTimetable } from '@/lib/gtfs/local-feed';
+import { RaptorRouter } from '@/lib/gtfs/raptor';
+import { StopIndex } from '@/lib/gtfs/stop-index';
+import { GtfsTimetable, parseDepartAt, toServiceDay } from '@/lib/gtfs/timetable';
+import { CommuteAndPricingService } from '@/services/commute-and-pricing-svc';
+
+const FEED_FILES: Record<string, string> = {
+  'stops.txt': [
+    'stop_id,stop_name,stop_lat,stop_lon,location_type,parent_station',
+    'deak,"Deák Ferenc tér",47.497912,19.055836,0,',
+    'astoria,Astoria,47.495388,19.060819,0,',
+    'kalvin,"Kálvin tér, M3",47.489079,19.061296,0,',
+    'station,Deák station,47.4979,19.0558,1,',
+  ].join('\r\n'),
+  'routes.txt': ['route_id,route_short_name,route_long_name,route_type', 'M3,M3,Metro 3,1', '47,47,Tram 47,0'].join('\n'),
+  'trips.txt': [
+    'route_id,service_id,trip_id,trip_headsign',
+    'M3,weekday,m3_0800,Kőbánya-Kispest',
+    'M3,weekday,m3_0810,Kőbánya-Kispest',
+    '47,weekend,t47_0805,Budafok',
+  ].join('\n'),
+  'stop_times.txt': [
+    'trip_id,arrival_time,departure_time,stop_id,stop_sequence',
+    'm3_0800,08:00:00,08:00:30,deak,1',
+    'm3_0800,08:03:00,08:03:30,kalvin,2',
+    'm3_0810,08:10:00,08:10:30,deak,1',
+    'm3_0810,08:13:00,08:13:30,kalvin,2',
+    't47_0805,08:05:00,08:05:00,deak,1',
+    't47_0805,08:07:00,08:07:00,astoria,2',
+  ].join('\n'),
+  'calendar.txt': [
+    'service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date',
+    'weekday,1,1,1,1,1,0,0,20260101,20261231',
+    'weekend,0,0,0,0,0,1,1,20260101,20261231',
+  ].join('\n'),
+  'calendar_dates.txt': ['service_id,date,exception_type', 'weekday,20261023,2'].join('\n'),
+};
+
+// Builds a deflate-compressed zip with entries nested in a folder, like BKK's feed
+function buildZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const fileName = Buffer.from(`budapest_gtfs/${name}`);
+    const data = deflateRawSync(Buffer.from(content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(fileName.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(content), 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, fileName, data);
+    centrals.push(central, fileName);
+    offset += local.length + fileName.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(centralDirectory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDirectory, eocd]);
+}
+
+function loadFeed(): GtfsFeed {
+  return parseGtfsZip(buildZip(FEED_FILES));
+}
+
+// Thursday 22 October 2026 and Friday 23 October 2026 (a national holiday)
+const THURSDAY = { dateKey: '20261022', weekday: 3, secondsSinceMidnight: 8 * 3600 };
+const HOLIDAY = { dateKey: '20261023', weekday: 4, secondsSinceMidnight: 8 * 3600 };
+
+describe('GTFS Parser', () => {
+  it('should parse quoted CSV fields with commas and escaped quotes', () => {
+    const rows = parseCsv('\ufeffid,name\n1,"Kálvin tér, M3"\n2,"Say ""hi"""\n');
+    expect(rows).toEqual([
+      { id: '1', name: 'Kálvin tér, M3' },
+      { id: '2', name: 'Say "hi"' },
+    ]);
+  });
+
+  it('should parse GTFS times past midnight', () => {
+    expect(parseGtfsTime('08:03:30')).toBe(8 * 3600 + 3 * 60 + 30);
+    expect(parseGtfsTime('25:10:00')).toBe(25 * 3600 + 10 * 60);
+    expect(parseGtfsTime('')).toBeNull();
+  });
+
+  it('should read every feed file from a nested zip', () => {
+    const feed = loadFeed();
+    expect(feed.stops).toHaveLength(4);
+    expect(feed.routes.map((route) => route.shortName)).toEqual(['M3', '47']);
+    expect(feed.trips).toHaveLength(3);
+    expect(feed.stopTimes).toHaveLength(6);
+    expect(feed.calendar[0].days).toEqual([true, true, true, true, true, false, false]);
+    expect(feed.calendarDates[0]).toEqual({ serviceId: 'weekday', date: '20261023', exceptionType: 2 });
+  });
+
+  it('should reject feeds missing required files', () => {
+    const { ['stop_times.txt']: _omitted, ...partial } = FEED_FILES;
+    expect(() => parseGtfsZip(buildZip(partial))).toThrow('stop_times.txt');
+  });
+});
+
+describe('Stop Index', () => {
+  const index = new StopIndex([
+    { id: 'deak', name: 'Deák Ferenc tér', lat: 47.497912, lng: 19.055836 },
+    { id: 'astoria', name: 'Astoria', lat: 47.495388, lng: 19.060819 },
+    { id: 'szell', name: 'Széll Kálmán tér', lat: 47.507064, lng: 19.023119 },
+  ]);
+
+  it('should return the nearest stop within the radius', () => {
+    const match = index.nearest({ lat: 47.4975, lng: 19.0565 }, 500);
+    expect(match?.stop.id).toBe('deak');
+    expect(match?.distanceMeters).toBeLessThan(100);
+  });
+
+  it('should order stops by distance and respect the radius', () => {
+    const matches = index.within({ lat: 47.4965, lng: 19.058 }, 1000);
+    expect(matches.map((match) => match.stop.id)).toEqual(['deak', 'astoria']);
+    expect(index.nearest({ lat: 47.55, lng: 19.2 }, 1000)).toBeNull();
+  });
+});
+
+describe('GTFS Timetable', () => {
+  const timetable = new GtfsTimetable(loadFeed());
+
+  it('should index only boarding stops with the routes serving them', () => {
+    expect(timetable.stopIndex.size).toBe(3);
+    expect(timetable.stopIndex.get('station')).toBeUndefined();
+    expect(timetable.stopIndex.get('deak')?.routes.sort()).toEqual(['47', 'M3']);
+  });
+
+  it('should honour weekly calendars and removed service dates', () => {
+    expect(timetable.isServiceActive('weekday', THURSDAY)).toBe(true);
+    expect(timetable.isServiceActive('weekend', THURSDAY)).toBe(false);
+    expect(timetable.isServiceActive('weekday', HOLIDAY)).toBe(false);
+  });
+
+  it('should find the earliest direct connection after the departure time', () => {
+    const connection = timetable.findDirectConnection('deak', 'kalvin', THURSDAY, 8 * 3600 + 60);
+    expect(connection).toMatchObject({ tripId: 'm3_0810', routeName: 'M3', stopCount: 1 });
+    expect(connection?.arrival).toBe(8 * 3600 + 13 * 60);
+  });
+
+  it('should not board trips whose service is not running that day', () => {
+    expect(timetable.findDirectConnection('deak', 'kalvin', HOLIDAY)).toBeNull();
+    expect(timetable.findDirectConnection('deak', 'astoria', THURSDAY)).toBeNull();
+  });
+});
+
+describe('RAPTOR Router', () => {
+  // M3 Deák → Kálvin, then a short walk to the tram 4 stop towards BME
+  const feed = parseGtfsFiles(
+    new Map([
+      [
+        'stops.txt',
+        [
+          'stop_id,stop_name,stop_lat,stop_lon',
+          'deak,Deák Ferenc tér,47.497912,19.055836',
+          'kalvin_m,Kálvin tér M3,47.489079,19.061296',
+          'kalvin_t,Kálvin tér tram,47.48820,19.06250',
+          'bme,BME,47.48140,19.05560',
+        ].join('\n'),
+      ],
+      ['routes.txt', 'route_id,route_short_name,route_type\nM3,M3,1\nT4,4,0'],
+      ['trips.txt', 'route_id,service_id,trip_id\nM3,daily,m3_a\nM3,daily,m3_b\nT4,daily,t4_a\nT4,daily,t4_b'],
+      [
+        'stop_times.txt',
+        [
+          'trip_id,arrival_time,departure_time,stop_id,stop_sequence',
+          'm3_a,08:00:00,08:00:00,deak,1',
+          'm3_a,08:04:00,08:04:00,kalvin_m,2',
+          'm3_b,08:20:00,08:20:00,deak,1',
+          'm3_b,08:24:00,08:24:00,kalvin_m,2',
+          't4_a,08:05:00,08:05:00,kalvin_t,1',
+          't4_a,08:12:00,08:12:00,bme,2',
+          't4_b,08:10:00,08:10:00,kalvin_t,1',
+          't4_b,08:17:00,08:17:00,bme,2',
+        ].join('\n'),
+      ],
+      ['calendar.txt', 'service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date\ndaily,1,1,1,1,1,1,1,20260101,20261231'],
+    ])
+  );
+  const router = new RaptorRouter(new GtfsTimetable(feed));
+  const origin = { lat: 47.4985, lng: 19.0555 };
+  const destination = { lat: 47.4810, lng: 19.0560 };
+
+  it('should route with a walking transfer and respect transfer slack', () => {
+    const itinerary = router.route(origin, destination, { ...THURSDAY, secondsSinceMidnight: 7 * 3600 + 58 * 60 });
+
+    expect(itinerary).not.toBeNull();
+    expect(itinerary!.transfers).toBe(1);
+    expect(itinerary!.legs.map((leg) => leg.mode)).toEqual(['walk', 'transit', 'walk', 'transit', 'walk']);
+
+    const rides = itinerary!.legs.filter((leg) => leg.mode === 'transit');
+    expect(rides.map((leg) => (leg.mode === 'transit' ? leg.tripId : ''))).toEqual(['m3_a', 't4_b']);
+    expect(itinerary!.arrivalTime.startsWith('08:1')).toBe(true);
+  });
+
+  it('should depend on the departure time', () => {
+    const later = router.route(origin, destination, { ...THURSDAY, secondsSinceMidnight: 8 * 3600 + 10 * 60 });
+    expect(later).toBeNull();
+  });
+
+  it('should prefer walking when it is faster than transit', () => {
+    const itinerary = router.route(origin, { lat: 47.4975, lng: 19.0565 }, THURSDAY);
+    expect(itinerary?.legs).toHaveLength(1);
+    expect(itinerary?.legs[0].mode).toBe('walk');
+  });
+
+  it('should list stops reachable within a time budget', () => {
+    const departAt = { ...THURSDAY, secondsSinceMidnight: 7 * 3600 + 58 * 60 };
+
+    const reached = router.reachableStops(origin, departAt, 20 * 60).map(({ stop }) => stop.id);
+    expect(reached).toEqual(['deak', 'kalvin_m', 'kalvin_t', 'bme']);
+
+    const short = router.reachableStops(origin, departAt, 10 * 60).map(({ stop }) => stop.id);
+    expect(short).not.toContain('bme');
+  });
+
+  it('should build apartment commutes from the shared timetable', async () => {
+    setLocalGtfsTimetable(new GtfsTimetable(feed));
+    const service = new CommuteAndPricingService();
+    const departAt = new Date('2026-10-22T05:58:00Z'); // 07:58 in Budapest
+
+    try {
+      const analysis = await service.calculateCommute('apt-1', origin.lat, origin.lng, 'BME', 'transit', destination, departAt);
+      const transit = analysis.routes.find((route) => route.transportMode === 'transit');
+
+      expect(analysis.apartmentId).toBe('apt-1');
+      expect(transit?.duration).toBe(router.route(origin, destination, departAt)!.totalMinutes);
+      expect(transit?.frequency).toBe(2);
+      expect(analysis.bestRoute).toBe(transit);
+
+      const late = await service.calculateCommute('apt-1', origin.lat, origin.lng, 'BME', 'transit', destination, new Date('2026-10-22T06:10:00Z'));
+      expect(late.routes.map((route) => route.transportMode)).toEqual(['walking']);
+      expect(late.transitScore).toBe(50);
+    } finally {
+      setLocalGtfsTimetable(null);
+    }
+  });
+});
+
+describe('Isochrone Geometry', () => {
+  const discs = [
+    { lat: 47.4979, lng: 19.0402, elapsedSeconds: 0, radiusMeters: 800 },
+    { lat: 47.4980, lng: 19.0403, elapsedSeconds: 300, radiusMeters: 200 },
+    { lat: 47.4814, lng: 19.0556, elapsedSeconds: 900, radiusMeters: 400 },
+  ];
+
+  it('should drop discs covered by a larger one', () => {
+    expect(pruneDiscs(discs)).toHaveLength(2);
+    expect(discsToPolygon(pruneDiscs(discs)).coordinates).toHaveLength(2);
+  });
+
+  it('should estimate minutes through the best disc', () => {
+    expect(minutesWithinDiscs({ lat: 47.4979, lng: 19.0402 }, discs, 80)).toBe(0);
+    expect(minutesWithinDiscs({ lat: 47.4814, lng: 19.0556 }, discs, 80)).toBe(15);
+    expect(minutesWithinDiscs({ lat: 47.5300, lng: 19.1000 }, discs, 80)).toBeNull();
+  });
+});
+
+describe('Departure Time Parsing', () => {
+  // Thursday 22 October 2026, 10:00 in Budapest (UTC+2)
+  const now = new Date('2026-10-22T08:00:00Z');
+
+  it('should accept ISO timestamps', () => {
+    expect(parseDepartAt('2026-10-26T07:00:00Z', now)?.toISOString()).toBe('2026-10-26T07:00:00.000Z');
+  });
+
+  it('should resolve weekday and clock times in Budapest time', () => {
+    const monday = toServiceDay(parseDepartAt('mon 09:00', now)!);
+    expect(monday).toEqual({ dateKey: '20261026', weekday: 0, secondsSinceMidnight: 9 * 3600 });
+
+    const tomorrow = toServiceDay(parseDepartAt('09:00', now)!);
+    expect(tomorrow.dateKey).toBe('20261023');
+  });
+
+  it('should reject malformed values', () => {
+    expect(parseDepartAt('someday 09:00', now)).toBeNull();
+    expect(parseDepartAt('25:00', now)).toBeNull();
+    expect(parseDepartAt('not a date', now)).toBeNull();
+  });
+});
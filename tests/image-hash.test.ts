@@ -0,0 +1,158 @@
+/**
+ * Test Suite for image decoding and perceptual photo hashing
+ * Validates PNG/WebP decoding and that pHash survives re-encoding but
+ * separates different photos
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deflateSync } from 'zlib';
+import { decodeImage, detectImageFormat } from '@/lib/images/decode';
+import {
+  computeImageHashes,
+  computeImageHashesFromPixels,
+  hammingDistance,
+  hashFromColumn,
+  hashToSigned,
+  PHASH_MATCH_DISTANCE,
+} from '@/lib/images/phash';
+import { ImageDecodeError, type DecodedImage } from '@/lib/images/types';
+
+// 32x32 test image, lossless and lossy (q75) encodings of the same pixels
+const LOSSLESS_WEBP =
+  'UklGRogAAABXRUJQVlA4THsAAAAvH8AHEAmAIAb8L1uI6H/qAiAI/+MWIvqfCkWNJEXthPWvavFy9gJ/BG3bxvxRbvt5RFHbNpCfY7Hyx7iDTNoWZ1+nyG3bhtk99R0wqiAIgg/vZx+AgwZgI3BdeP74/plFY9CY55v3/DN/aGgahYa47/vnHlrieRmPHwAA';
+const LOSSY_WEBP =
+  'UklGRuYAAABXRUJQVlA4WAoAAAAQAAAAHwAAHwAAQUxQSBwAAAABmQpE9D9gtG2bQPf/p8dHIiZgHQowwBwDk+8WVlA4IKQAAABQBgCdASogACAAPpFEnkilpCMhMAgAsBIJbC2ACQGEq4B+JOAHaCf/9vb/JfoBdf4DyAqONQUJhfG86AD9qQPHPyhJPxIg15D16nP2B/87Z0OGPRtr92Ff/ntE4lhUzoRNOBOeQ7vSECoxlDmmbQs2hasv6u2bgW6KVdPY19Gkm1TXjPff/Ge7rh27cTKVHYpTCuPSOBL+WclmnhQl31qX8uWAAA==';
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  // CRCs are not checked by the decoder
+  return Buffer.concat([length, Buffer.from(type, 'ascii'), data, Buffer.alloc(4)]);
+}
+
+function encodePng(image: DecodedImage): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(image.width, 0);
+  header.writeUInt32BE(image.height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+
+  const rows = Buffer.alloc((image.width * 4 + 1) * image.height);
+  for (let y = 0; y < image.height; y++) {
+    const rowStart = y * (image.width * 4 + 1);
+    rows[rowStart] = 0; // no filter
+    rows.set(image.data.subarray(y * image.width * 4, (y + 1) * image.width * 4), rowStart + 1);
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(rows)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+// Soft "room photo": a bright window, a dark sofa and a floor gradient
+function drawRoom(width: number, height: number, brightness = 0): DecodedImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const u = x / width;
+      const v = y / height;
+      let value = 90 + 80 * v;
+      if (u > 0.55 && u < 0.85 && v > 0.1 && v < 0.45) value = 235;
+      if (u > 0.1 && u < 0.5 && v > 0.6 && v < 0.85) value = 40;
+      value = Math.max(0, Math.min(255, value + brightness));
+      data.set([value, value * 0.9, value * 0.8, 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+function drawStripes(width: number, height: number): DecodedImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = Math.floor(x / (width / 6)) % 2 === 0 ? 220 : 30;
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+describe('Image decoding', () => {
+  it('round-trips RGBA pixels through PNG', () => {
+    const image = drawRoom(24, 16);
+    const png = encodePng(image);
+
+    expect(detectImageFormat(png)).toBe('png');
+    const decoded = decodeImage(png);
+    expect(decoded.width).toBe(24);
+    expect(decoded.height).toBe(16);
+    expect(Array.from(decoded.data)).toEqual(Array.from(image.data));
+  });
+
+  it('decodes lossless and lossy WebP with alpha', () => {
+    const lossless = decodeImage(Buffer.from(LOSSLESS_WEBP, 'base64'));
+    const lossy = decodeImage(Buffer.from(LOSSY_WEBP, 'base64'));
+
+    expect(lossless.width).toBe(32);
+    expect(lossless.height).toBe(32);
+    expect(Array.from(lossless.data.subarray(0, 8))).toEqual([0, 0, 0, 0, 255, 0, 8, 8]);
+    expect(lossy.width).toBe(32);
+    expect(lossy.height).toBe(32);
+
+    // Same picture, so lossy pixels stay close to the lossless ones
+    let totalError = 0;
+    for (let i = 0; i < lossless.data.length; i++) totalError += Math.abs(lossless.data[i] - lossy.data[i]);
+    expect(totalError / lossless.data.length).toBeLessThan(16);
+  });
+
+  it('rejects unsupported formats', () => {
+    const gif = Buffer.from('GIF89a\x01\x00\x01\x00', 'binary');
+    expect(detectImageFormat(gif)).toBeNull();
+    expect(() => decodeImage(gif)).toThrow(ImageDecodeError);
+  });
+});
+
+describe('Perceptual hashing', () => {
+  it('gives identical images identical hashes', () => {
+    const first = computeImageHashes(encodePng(drawRoom(64, 48)));
+    const second = computeImageHashes(encodePng(drawRoom(64, 48)));
+
+    expect(first.width).toBe(64);
+    expect(first.height).toBe(48);
+    expect(hammingDistance(first.pHash, second.pHash)).toBe(0);
+  });
+
+  it('matches resized and brightened copies', () => {
+    const original = computeImageHashesFromPixels(drawRoom(160, 120));
+    const resized = computeImageHashesFromPixels(drawRoom(80, 60));
+    const brighter = computeImageHashesFromPixels(drawRoom(160, 120, 20));
+
+    expect(hammingDistance(original.pHash, resized.pHash)).toBeLessThanOrEqual(PHASH_MATCH_DISTANCE);
+    expect(hammingDistance(original.pHash, brighter.pHash)).toBeLessThanOrEqual(PHASH_MATCH_DISTANCE);
+  });
+
+  it('matches lossy re-encodes of the same photo', () => {
+    const lossless = computeImageHashes(Buffer.from(LOSSLESS_WEBP, 'base64'));
+    const lossy = computeImageHashes(Buffer.from(LOSSY_WEBP, 'base64'));
+    expect(hammingDistance(lossless.pHash, lossy.pHash)).toBeLessThanOrEqual(PHASH_MATCH_DISTANCE);
+  });
+
+  it('separates different photos', () => {
+    const room = computeImageHashesFromPixels(drawRoom(160, 120));
+    const stripes = computeImageHashesFromPixels(drawStripes(160, 120));
+    expect(hammingDistance(room.pHash, stripes.pHash)).toBeGreaterThan(PHASH_MATCH_DISTANCE * 2);
+  });
+
+  it('round-trips hashes through signed bigint columns', () => {
+    const hash = BigInt('0xfedcba9876543210');
+    const stored = hashToSigned(hash);
+
+    expect(BigInt(stored) < BigInt(0)).toBe(true);
+    expect(hashFromColumn(stored)).toBe(hash);
+    expect(hashFromColumn(BigInt(stored))).toBe(hash);
+    expect(hammingDistance(hash, hashFromColumn(stored))).toBe(0);
+  });
+});
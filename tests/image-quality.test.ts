@@ -0,0 +1,98 @@
+/**
+ * Test Suite for photo quality analysis
+ * Validates exposure, blur and resolution warnings, cover photo selection
+ * and the listing-level media score
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeImageQuality,
+  coverScore,
+  imageOrientation,
+  listingMediaScore,
+  pickCoverImage,
+} from '@/lib/images/quality';
+import type { DecodedImage } from '@/lib/images/types';
+
+// Textured "room": tiles with sharp edges over a mid-grey gradient
+function drawTiles(width: number, height: number, options: { gain?: number; tile?: number } = {}): DecodedImage {
+  const { gain = 1, tile = 16 } = options;
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const checker = (Math.floor(x / tile) + Math.floor(y / tile)) % 2 === 0 ? 60 : -60;
+      const value = Math.max(0, Math.min(255, (120 + (x / width) * 40 + checker) * gain));
+      const i = (y * width + x) * 4;
+      data[i] = value;
+      data[i + 1] = value;
+      data[i + 2] = value;
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+// Smooth gradient with no edges, like an out-of-focus shot
+function drawSmooth(width: number, height: number): DecodedImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = 60 + (x / width) * 140;
+      const i = (y * width + x) * 4;
+      data[i] = value;
+      data[i + 1] = value;
+      data[i + 2] = value;
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+describe('analyzeImageQuality', () => {
+  it('scores a sharp, well-exposed landscape photo without warnings', () => {
+    const report = analyzeImageQuality(drawTiles(1280, 720));
+
+    expect(report.orientation).toBe('landscape');
+    expect(report.issues).toEqual([]);
+    expect(report.brightness).toBeGreaterThan(0.4);
+    expect(report.score).toBeGreaterThan(0.8);
+  });
+
+  it('warns about dark and blurry photos', () => {
+    const dark = analyzeImageQuality(drawTiles(1280, 720, { gain: 0.25 }));
+    expect(dark.issues).toContain('too_dark');
+    expect(dark.warnings).toContain('Photo is too dark');
+
+    const blurry = analyzeImageQuality(drawSmooth(1280, 720));
+    expect(blurry.issues).toContain('blurry');
+    expect(blurry.warnings).toContain('Image is blurry');
+    expect(blurry.score).toBeLessThan(analyzeImageQuality(drawTiles(1280, 720)).score);
+  });
+
+  it('flags small images as low resolution', () => {
+    const report = analyzeImageQuality(drawTiles(320, 240, { tile: 4 }));
+    expect(report.issues).toContain('low_resolution');
+  });
+});
+
+describe('cover selection', () => {
+  it('prefers the best landscape photo and skips unscored ones', () => {
+    expect(imageOrientation(800, 1200)).toBe('portrait');
+
+    const cover = pickCoverImage([
+      { id: 'portrait', qualityScore: 0.9, width: 800, height: 1200 },
+      { id: 'landscape', qualityScore: 0.8, width: 1600, height: 900 },
+      { id: 'gif', qualityScore: null, width: null, height: null },
+    ]);
+
+    expect(cover?.id).toBe('landscape');
+    expect(coverScore({ qualityScore: 0.9, width: 800, height: 1200 })).toBeCloseTo(0.675);
+    expect(pickCoverImage([{ id: 'gif', qualityScore: null, width: null, height: null }])).toBeNull();
+  });
+
+  it('rewards listings with a good cover and enough photos', () => {
+    expect(listingMediaScore([])).toBe(0);
+    expect(listingMediaScore([0.9, 0.85, 0.8, 0.8, 0.75])).toBeGreaterThan(listingMediaScore([0.9]));
+    expect(listingMediaScore([0.9, 0.3], 0.3)).toBeLessThan(listingMediaScore([0.9, 0.3], 0.9));
+  });
+});
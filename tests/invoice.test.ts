@@ -0,0 +1,209 @@
+/**
+ * Test Suite for rent invoices
+ * Validates gapless per-owner numbering, VAT and exemption handling, the
+ * bilingual PDF, the NAV Online Számla XML export and the local NAV stub
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { StorageAdapter } from '@/lib/storage';
+import {
+  InvoiceService,
+  LocalNavStub,
+  formatInvoiceNumber,
+  invoiceAmounts,
+  invoiceNavXml,
+  isValidTaxNumber,
+  type Invoice,
+  type InvoiceNavUpdate,
+  type InvoicePayment,
+  type InvoiceRepository,
+  type InvoiceSettings,
+  type NewInvoice,
+} from '@/services/payments-svc/invoice';
+
+const OWNER = '11111111-1111-4111-8111-111111111111';
+const TENANT = '22222222-2222-4222-8222-222222222222';
+const BOOKING = '44444444-4444-4444-8444-444444444444';
+
+const rentPayment = (id: string, periodStart: string, paidAt: string): InvoicePayment => ({
+  id,
+  bookingId: BOOKING,
+  ownerId: OWNER,
+  tenantId: TENANT,
+  kind: 'rent',
+  status: 'paid',
+  periodStart,
+  periodEnd: periodStart.replace(/-01$/, '-28'),
+  rentHuf: 150000,
+  paidAt: new Date(paidAt),
+  apartmentTitle: 'Sunny studio near ELTE',
+  apartmentAddress: 'Ráday utca 12, Budapest',
+  tenantName: 'Nagy Péter',
+});
+
+class MemoryInvoiceRepository implements InvoiceRepository {
+  invoices: Invoice[] = [];
+  settings: InvoiceSettings | null = null;
+  sequence = { year: 0, last: 0 };
+  payments = new Map<string, InvoicePayment>([
+    ['pi_dec', rentPayment('payment-dec', '2026-12-01', '2026-12-01T08:00:00Z')],
+    ['pi_jan', rentPayment('payment-jan', '2027-01-01', '2027-01-01T08:00:00Z')],
+  ]);
+
+  async findPaymentByIntent(paymentIntentId: string) {
+    return this.payments.get(paymentIntentId) ?? null;
+  }
+
+  async findUninvoicedPayments() {
+    return [...this.payments.values()].filter((p) => !this.invoices.some((i) => i.leasePaymentId === p.id));
+  }
+
+  async findSettings() {
+    return this.settings;
+  }
+
+  async saveSettings(settings: InvoiceSettings) {
+    this.settings = settings;
+    return settings;
+  }
+
+  async issue(invoice: NewInvoice, year: number) {
+    if (!this.settings || this.invoices.some((i) => i.leasePaymentId === invoice.leasePaymentId)) return null;
+    this.sequence = { year, last: this.sequence.year === year ? this.sequence.last + 1 : 1 };
+    const stored: Invoice = {
+      ...invoice,
+      id: `invoice-${this.invoices.length + 1}`,
+      invoiceNumber: formatInvoiceNumber(this.settings.numberPrefix, year, this.sequence.last),
+      pdfKey: null,
+      navStatus: 'not_submitted',
+      navTransactionId: null,
+      navSubmittedAt: null,
+      navMessages: [],
+      createdAt: new Date(),
+    };
+    this.invoices.push(stored);
+    return { ...stored };
+  }
+
+  async setPdfKey(id: string, pdfKey: string) {
+    const invoice = this.invoices.find((i) => i.id === id);
+    if (invoice) invoice.pdfKey = pdfKey;
+  }
+
+  async find(id: string) {
+    return this.invoices.find((i) => i.id === id) ?? null;
+  }
+
+  async list(filter: { ownerId?: string; tenantId?: string }) {
+    return this.invoices.filter((i) => (filter.ownerId ? i.ownerId === filter.ownerId : i.tenantId === filter.tenantId));
+  }
+
+  async updateNav(id: string, update: InvoiceNavUpdate) {
+    const invoice = this.invoices.find((i) => i.id === id);
+    if (!invoice) return null;
+    Object.assign(invoice, update);
+    return { ...invoice };
+  }
+}
+
+const settings = {
+  sellerName: 'Kovács Anna',
+  taxNumber: '12345676-1-42',
+  postalCode: '1092',
+  city: 'Budapest',
+  streetAddress: 'Ráday utca 12.',
+  vatStatus: 'exempt_tam' as const,
+  numberPrefix: 'KA',
+};
+
+describe('invoice amounts and tax numbers', () => {
+  it('validates the tax number check digit and splits VAT out of the rent', () => {
+    expect(isValidTaxNumber('12345676-1-42')).toBe(true);
+    expect(isValidTaxNumber('12345678-1-42')).toBe(false);
+    expect(isValidTaxNumber('12345676-9-42')).toBe(false);
+
+    expect(invoiceAmounts(150000, 'exempt_tam')).toEqual({ netHuf: 150000, vatHuf: 0, grossHuf: 150000 });
+    expect(invoiceAmounts(127000, 'vat_27')).toEqual({ netHuf: 100000, vatHuf: 27000, grossHuf: 127000 });
+  });
+});
+
+describe('InvoiceService', () => {
+  let repository: MemoryInvoiceRepository;
+  let stored: Map<string, Uint8Array>;
+  let service: InvoiceService;
+
+  beforeEach(() => {
+    repository = new MemoryInvoiceRepository();
+    stored = new Map();
+    const storage: StorageAdapter = {
+      name: 'local',
+      async put(key, body, options) {
+        stored.set(key, body);
+        return { key, size: body.byteLength, contentType: options.contentType, sha256: 'x' };
+      },
+      async get(key) {
+        return Buffer.from(stored.get(key)!);
+      },
+      async remove() {},
+      async signedUrl(key) {
+        return `https://storage.test/${key}`;
+      },
+    };
+    service = new InvoiceService(repository, () => storage, new LocalNavStub(), () => new Date('2027-01-01T09:00:00Z'));
+  });
+
+  it('invoices rent paid before the owner saved their details and numbers each payment once', async () => {
+    expect(await service.issueForPayment('pi_dec')).toBeNull();
+
+    const { issued } = await service.saveSettings(OWNER, settings);
+    expect(issued).toBe(2);
+    expect(await service.issueForPayment('pi_jan')).toBeNull();
+    expect(repository.invoices.map((i) => i.invoiceNumber)).toEqual(['KA-2027-000001', 'KA-2027-000002']);
+    expect(repository.invoices[0]).toMatchObject({ issueDate: '2027-01-01', deliveryDate: '2026-12-01', grossHuf: 150000 });
+
+    await expect(service.saveSettings(OWNER, { ...settings, taxNumber: '12345678-1-42' })).rejects.toMatchObject({
+      status: 400,
+    });
+  });
+
+  it('stores a bilingual PDF that the tenant and owner can download', async () => {
+    await service.saveSettings(OWNER, settings);
+    const [invoice] = repository.invoices;
+    expect(invoice.pdfKey).toBe(`invoices/${OWNER}/KA-2027-000001.pdf`);
+
+    const { pdf } = await service.pdf(TENANT, invoice.id);
+    const text = pdf.toString('latin1');
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text).toContain('(Sz\xe1mla / Invoice)');
+    expect(text).toContain('(T\xe1rgyi ad\xf3mentes / VAT exempt supply \\(residential letting\\))');
+    await expect(service.pdf('someone-else', invoice.id)).rejects.toMatchObject({ status: 404 });
+    await expect(service.navXml(TENANT, invoice.id)).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('exports NAV XML and reports it through the local stub once', async () => {
+    await service.saveSettings(OWNER, { ...settings, vatStatus: 'vat_27' });
+    const [invoice] = repository.invoices;
+
+    const { xml } = await service.navXml(OWNER, invoice.id);
+    expect(xml).toContain('<supplierTaxNumber><base:taxpayerId>12345676</base:taxpayerId><base:vatCode>1</base:vatCode><base:countyCode>42</base:countyCode></supplierTaxNumber>');
+    expect(xml).toContain('<customerVatStatus>PRIVATE_PERSON</customerVatStatus>');
+    expect(xml).toContain('<vatPercentage>0.27</vatPercentage>');
+    expect(xml).toContain('<invoiceGrossAmountHUF>150000</invoiceGrossAmountHUF>');
+    expect(xml).not.toContain('Nagy Péter');
+
+    const reported = await service.submitToNav(OWNER, invoice.id);
+    expect(reported.navStatus).toBe('accepted');
+    expect(reported.navTransactionId).toMatch(/^LOCAL[0-9A-F]{20}$/);
+    await expect(service.submitToNav(OWNER, invoice.id)).rejects.toMatchObject({ status: 409 });
+
+    const tampered = invoiceNavXml({ ...invoice, vatHuf: invoice.vatHuf + 1, seller: { ...invoice.seller, taxNumber: '12345678-1-42' } });
+    const result = await new LocalNavStub().submit(invoice.invoiceNumber, tampered);
+    expect(result.status).toBe('rejected');
+    expect(result.messages.map((message) => message.split(':')[0])).toEqual([
+      'INVALID_SUPPLIER_TAX_NUMBER',
+      'INCORRECT_SUMMARY_CALCULATION',
+    ]);
+  });
+});
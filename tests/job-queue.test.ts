@@ -0,0 +1,115 @@
+/**
+ * Test Suite for the durable job queue
+ * Validates retry backoff, dead-lettering and that the worker completes,
+ * retries and dead-letters jobs by handler outcome
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PermanentJobError, nextAttemptState, retryDelayMs, type Job, type JobStatus } from '@/services/job-queue-svc';
+import { drainJobs } from '@/services/job-queue-svc/worker';
+
+function makeJob(id: string, type: string, overrides: Partial<Job> = {}): Job {
+  return {
+    id,
+    queue: 'email',
+    type,
+    payload: {},
+    status: 'pending',
+    priority: 0,
+    attempts: 0,
+    maxAttempts: 3,
+    runAt: new Date(0),
+    lockedBy: null,
+    lockedUntil: null,
+    idempotencyKey: null,
+    lastError: null,
+    createdAt: new Date(0),
+    completedAt: null,
+    ...overrides,
+  };
+}
+
+// In-memory stand-in for the Postgres queue with the same state transitions
+function memoryQueue(jobs: Job[]) {
+  return {
+    jobs,
+    async reclaimExpiredLeases() {
+      return { requeued: 0, dead: 0 };
+    },
+    async lease(_queues: string[], options: { limit?: number; workerId?: string } = {}) {
+      const ready = jobs.filter((job) => job.status === 'pending' && job.runAt.getTime() <= Date.now());
+      return ready.slice(0, options.limit ?? 10).map((job) => {
+        job.status = 'running';
+        job.attempts++;
+        job.lockedBy = options.workerId ?? 'worker';
+        return { ...job };
+      });
+    },
+    async complete(job: Job) {
+      const stored = jobs.find((candidate) => candidate.id === job.id)!;
+      stored.status = 'completed';
+    },
+    async fail(job: Job, error: unknown): Promise<JobStatus> {
+      const stored = jobs.find((candidate) => candidate.id === job.id)!;
+      const next = nextAttemptState(job, error);
+      stored.status = next.status;
+      stored.lastError = error instanceof Error ? error.message : String(error);
+      if (next.status === 'pending') stored.runAt = next.runAt;
+      return next.status;
+    },
+  };
+}
+
+describe('retry policy', () => {
+  it('backs off exponentially with a cap', () => {
+    expect(retryDelayMs(1)).toBe(30_000);
+    expect(retryDelayMs(3)).toBe(120_000);
+    expect(retryDelayMs(30)).toBe(6 * 60 * 60 * 1000);
+    expect(retryDelayMs(1, 0.5)).toBe(33_000);
+  });
+
+  it('dead-letters after the last attempt or on permanent errors', () => {
+    const now = new Date('2026-10-18T12:00:00Z');
+    expect(nextAttemptState({ attempts: 1, maxAttempts: 3 }, new Error('timeout'), now)).toEqual({
+      status: 'pending',
+      runAt: new Date('2026-10-18T12:00:30Z'),
+    });
+    expect(nextAttemptState({ attempts: 3, maxAttempts: 3 }, new Error('timeout'), now)).toEqual({ status: 'dead' });
+    expect(nextAttemptState({ attempts: 1, maxAttempts: 3 }, new PermanentJobError('bad payload'), now)).toEqual({
+      status: 'dead',
+    });
+  });
+});
+
+describe('drainJobs', () => {
+  it('completes, retries and dead-letters jobs by handler outcome', async () => {
+    const queue = memoryQueue([
+      makeJob('ok', 'email.send'),
+      makeJob('flaky', 'email.send', { payload: { fail: true } }),
+      makeJob('bad', 'email.send', { payload: { permanent: true } }),
+      makeJob('unknown', 'fax.send'),
+    ]);
+
+    const report = await drainJobs({
+      queue,
+      handlers: {
+        'email.send': async (job) => {
+          if (job.payload.permanent) throw new PermanentJobError('invalid recipient');
+          if (job.payload.fail) throw new Error('connection reset');
+          return { sent: true };
+        },
+      },
+    });
+
+    const statusOf = (id: string) => queue.jobs.find((job) => job.id === id)!.status;
+    expect(statusOf('ok')).toBe('completed');
+    expect(statusOf('flaky')).toBe('pending');
+    expect(statusOf('bad')).toBe('dead');
+    expect(statusOf('unknown')).toBe('dead');
+
+    expect(report).toMatchObject({ processed: 4, completed: 1, retried: 1, dead: 2 });
+    expect(report.byType['email.send']).toEqual({ completed: 1, failed: 2 });
+    // The retried job waits for its backoff instead of being re-leased in the same drain
+    expect(queue.jobs.find((job) => job.id === 'flaky')!.attempts).toBe(1);
+  });
+});
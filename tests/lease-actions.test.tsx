@@ -0,0 +1,75 @@
+/**
+ * Test Suite for the tenant's lease actions
+ * Validates that a rent payment the bank held back can be confirmed from the
+ * bookings dashboard: the client secret comes from the create-intent endpoint
+ * and the saved card is confirmed with Stripe.js
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+
+const stripe = vi.hoisted(() => {
+  process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY = 'pk_test_lease_actions';
+  return { confirmCardPayment: vi.fn() };
+});
+const refresh = vi.fn();
+
+vi.mock('@stripe/stripe-js', () => ({ loadStripe: async () => stripe }));
+vi.mock('next/navigation', () => ({ useRouter: () => ({ refresh }) }));
+
+import LeaseActions from '@/components/LeaseActions';
+
+const BOOKING = '22222222-2222-4222-8222-222222222222';
+const PAYMENT = '33333333-3333-4333-8333-333333333333';
+
+function renderActive() {
+  render(
+    <LeaseActions
+      bookingId={BOOKING}
+      role="tenant"
+      status="active"
+      paymentStatus="paid"
+      firstPaymentHuf={450000}
+      heldRentPayments={[{ id: PAYMENT, amountHuf: 150000, periodStart: '2026-12-01' }]}
+    />
+  );
+  return screen.getByRole('button', { name: /Confirm rent payment/ });
+}
+
+describe('LeaseActions', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async () =>
+      new Response(JSON.stringify({ clientSecret: 'pi_rent_secret', paymentMethodId: 'pm_saved' }), { status: 200 })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    stripe.confirmCardPayment.mockReset();
+    refresh.mockReset();
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  it('confirms a held rent payment with the saved card', async () => {
+    stripe.confirmCardPayment.mockResolvedValue({ paymentIntent: { status: 'succeeded' } });
+
+    fireEvent.click(renderActive());
+
+    await waitFor(() => expect(refresh).toHaveBeenCalled());
+    expect(fetchMock).toHaveBeenCalledWith('/api/payments/create-intent', expect.objectContaining({ method: 'POST' }));
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ bookingId: BOOKING, paymentId: PAYMENT });
+    expect(stripe.confirmCardPayment).toHaveBeenCalledWith('pi_rent_secret', { payment_method: 'pm_saved' });
+  });
+
+  it('shows why the bank did not confirm it', async () => {
+    stripe.confirmCardPayment.mockResolvedValue({ error: { message: 'Authentication failed.' } });
+
+    fireEvent.click(renderActive());
+
+    expect(await screen.findByText('Authentication failed.')).toBeTruthy();
+    expect(refresh).not.toHaveBeenCalled();
+  });
+});
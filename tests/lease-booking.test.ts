@@ -0,0 +1,448 @@
+/**
+ * Test Suite for the lease booking model
+ * Validates the lease quote, term bounds, the lease state machine and the
+ * flow from request through signing, first payment, monthly rent and term
+ * end, cancellation and early termination by agreement
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  LeaseError,
+  LeaseService,
+  addMonths,
+  nextLeaseStatus,
+  quoteLease,
+  validateLeaseTerms,
+  type Lease,
+  type LeaseApartment,
+  type LeaseInstallment,
+  type LeasePayment,
+  type LeasePaymentGateway,
+  type LeasePaymentUpdate,
+  type LeaseRepository,
+  type LeaseStatus,
+  type LeaseUpdate,
+  type NewLease,
+} from '@/services/payments-svc/lease';
+
+const OWNER = '11111111-1111-4111-8111-111111111111';
+const TENANT = '22222222-2222-4222-8222-222222222222';
+const APARTMENT = '33333333-3333-4333-8333-333333333333';
+
+class MemoryLeaseRepository implements LeaseRepository {
+  leases = new Map<string, Lease>();
+  payments = new Map<string, LeasePayment>();
+  apartment: LeaseApartment = {
+    id: APARTMENT,
+    ownerId: OWNER,
+    title: 'Sunny room near ELTE',
+    isAvailable: true,
+    monthlyRentHuf: 150000,
+    depositMonths: 2,
+    leaseMinMonths: null,
+    leaseMaxMonths: null,
+  };
+  stripeAccount: string | null = 'acct_owner';
+  private sequence = 0;
+
+  private id() {
+    return `00000000-0000-4000-8000-${String(++this.sequence).padStart(12, '0')}`;
+  }
+
+  async getApartment(apartmentId: string) {
+    return apartmentId === this.apartment.id ? this.apartment : null;
+  }
+
+  async getOwnerStripeAccount() {
+    return this.stripeAccount;
+  }
+
+  async getTenantEmail() {
+    return 'tenant@example.com';
+  }
+
+  async countOverlapping(apartmentId: string, moveIn: string, moveOut: string, statuses: LeaseStatus[], excludeId?: string) {
+    return [...this.leases.values()].filter(
+      (l) =>
+        l.apartmentId === apartmentId &&
+        l.id !== excludeId &&
+        statuses.includes(l.status) &&
+        l.moveInDate <= moveOut &&
+        l.moveOutDate >= moveIn
+    ).length;
+  }
+
+  async insert(lease: NewLease) {
+    const stored: Lease = {
+      ...lease,
+      id: this.id(),
+      status: 'requested',
+      paymentStatus: 'unpaid',
+      stripeAccountId: null,
+      stripeCustomerId: null,
+      stripePaymentMethodId: null,
+      acceptedAt: null,
+      signedAt: null,
+      activatedAt: null,
+      endedAt: null,
+      endReason: null,
+      terminationRequestedAt: null,
+      terminationDate: null,
+      terminationAcceptedAt: null,
+      createdAt: new Date(),
+    };
+    this.leases.set(stored.id, stored);
+    return { ...stored };
+  }
+
+  async findById(id: string) {
+    const lease = this.leases.get(id);
+    return lease ? { ...lease } : null;
+  }
+
+  async transition(id: string, from: LeaseStatus[], to: LeaseStatus, update: LeaseUpdate) {
+    const lease = this.leases.get(id);
+    if (!lease || !from.includes(lease.status)) return null;
+    Object.assign(lease, update, { status: to });
+    return { ...lease };
+  }
+
+  async update(id: string, update: LeaseUpdate) {
+    const lease = this.leases.get(id);
+    if (lease) Object.assign(lease, update);
+  }
+
+  async insertPayments(bookingId: string, installments: LeaseInstallment[]) {
+    if (!(await this.listPayments(bookingId)).length) {
+      for (const installment of installments) {
+        const payment: LeasePayment = {
+          ...installment,
+          id: this.id(),
+          bookingId,
+          status: 'scheduled',
+          paymentIntentId: null,
+          attempts: 0,
+          lastError: null,
+          paidAt: null,
+        };
+        this.payments.set(payment.id, payment);
+      }
+    }
+    return this.listPayments(bookingId);
+  }
+
+  async listPayments(bookingId: string) {
+    return [...this.payments.values()].filter((p) => p.bookingId === bookingId).map((p) => ({ ...p }));
+  }
+
+  async findPayment(id: string) {
+    const payment = this.payments.get(id);
+    return payment ? { ...payment } : null;
+  }
+
+  async findPaymentByIntent(paymentIntentId: string) {
+    return [...this.payments.values()].find((p) => p.paymentIntentId === paymentIntentId) ?? null;
+  }
+
+  async updatePayment(id: string, { incrementAttempts, ...update }: LeasePaymentUpdate) {
+    const payment = this.payments.get(id);
+    if (!payment) return;
+    const defined = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined));
+    Object.assign(payment, defined, { attempts: payment.attempts + (incrementAttempts ? 1 : 0) });
+  }
+
+  async cancelScheduledPayments(bookingId: string, after?: string) {
+    for (const payment of this.payments.values()) {
+      if (
+        payment.bookingId === bookingId &&
+        ['scheduled', 'requires_action', 'failed'].includes(payment.status) &&
+        (!after || payment.periodStart > after)
+      ) {
+        payment.status = 'cancelled';
+      }
+    }
+  }
+}
+
+class FakeGateway implements LeasePaymentGateway {
+  declineRent = false;
+  authenticateRent = false;
+  charges: string[] = [];
+  cancelled: string[] = [];
+  succeededIntents = new Set<string>();
+
+  async createFirstPayment(_lease: Lease, payment: LeasePayment) {
+    return { customerId: 'cus_1', paymentIntentId: `pi_${payment.id}`, clientSecret: `pi_${payment.id}_secret` };
+  }
+
+  async chargeRent(_lease: Lease, payment: LeasePayment) {
+    if (this.declineRent) throw new Error('Your card was declined.');
+    this.charges.push(payment.id);
+    if (this.authenticateRent) {
+      // What Stripe throws for an off-session charge the bank wants authenticated
+      throw Object.assign(new Error('This payment requires authentication.'), {
+        type: 'StripeCardError',
+        code: 'authentication_required',
+        payment_intent: { id: `pi_rent_${payment.id}`, status: 'requires_payment_method' },
+      });
+    }
+    return { paymentIntentId: `pi_rent_${payment.id}`, status: 'succeeded' };
+  }
+
+  async resumePayment(paymentIntentId: string) {
+    return `${paymentIntentId}_secret`;
+  }
+
+  async cancelPayment(paymentIntentId: string) {
+    if (this.succeededIntents.has(paymentIntentId)) return false;
+    this.cancelled.push(paymentIntentId);
+    return true;
+  }
+}
+
+describe('quoteLease', () => {
+  it('charges the first month plus deposit at signing and the rest monthly', () => {
+    const quote = quoteLease({ monthlyRentHuf: 150000, depositMonths: 2, moveInDate: '2026-09-01', termMonths: 10 });
+
+    expect(quote.depositHuf).toBe(300000);
+    expect(quote.firstPaymentHuf).toBe(450000);
+    expect(quote.totalRentHuf).toBe(1500000);
+    expect(quote.moveOutDate).toBe('2027-06-30');
+    expect(quote.schedule).toHaveLength(10);
+    expect(quote.schedule[0]).toMatchObject({ kind: 'first_payment', amountHuf: 450000, platformFeeHuf: 4500 });
+    expect(quote.schedule[1]).toMatchObject({
+      kind: 'rent',
+      dueDate: '2026-10-01',
+      periodEnd: '2026-10-31',
+      depositHuf: 0,
+      amountHuf: 150000,
+    });
+  });
+
+  it('clamps month arithmetic to the end of shorter months', () => {
+    expect(addMonths('2027-01-31', 1)).toBe('2027-02-28');
+    expect(addMonths('2028-01-31', 1)).toBe('2028-02-29');
+  });
+});
+
+describe('validateLeaseTerms', () => {
+  it('enforces the listing bounds and defaults to 5 to 12 months', () => {
+    const today = '2026-10-18';
+    expect(() => validateLeaseTerms({ moveInDate: '2026-11-01', termMonths: 5 }, { today })).not.toThrow();
+    expect(() => validateLeaseTerms({ moveInDate: '2026-11-01', termMonths: 4 }, { today })).toThrow(LeaseError);
+    expect(() => validateLeaseTerms({ moveInDate: '2026-11-01', termMonths: 13 }, { today })).toThrow(LeaseError);
+    expect(() => validateLeaseTerms({ moveInDate: '2026-11-01', termMonths: 24 }, { maxMonths: 24, today })).not.toThrow();
+    expect(() => validateLeaseTerms({ moveInDate: '2026-10-01', termMonths: 6 }, { today })).toThrow('past');
+    expect(() => validateLeaseTerms({ moveInDate: '2026-02-30', termMonths: 6 }, { today })).toThrow('valid');
+  });
+});
+
+describe('nextLeaseStatus', () => {
+  it('only lets each party take its own actions from the right state', () => {
+    expect(nextLeaseStatus('requested', 'accept', 'owner')).toBe('accepted');
+    expect(nextLeaseStatus('accepted', 'sign', 'tenant')).toBe('signed');
+    expect(nextLeaseStatus('active', 'end', 'system')).toBe('ended');
+    expect(nextLeaseStatus('active', 'request_termination', 'tenant')).toBe('active');
+    expect(() => nextLeaseStatus('active', 'end', 'tenant')).toThrow(expect.objectContaining({ status: 403 }));
+    expect(() => nextLeaseStatus('active', 'accept_termination', 'tenant')).toThrow(expect.objectContaining({ status: 403 }));
+    expect(() => nextLeaseStatus('requested', 'accept', 'tenant')).toThrow(expect.objectContaining({ status: 403 }));
+    expect(() => nextLeaseStatus('requested', 'sign', 'tenant')).toThrow(expect.objectContaining({ status: 409 }));
+    expect(() => nextLeaseStatus('active', 'cancel', 'owner')).toThrow(expect.objectContaining({ status: 409 }));
+  });
+});
+
+describe('LeaseService', () => {
+  let repository: MemoryLeaseRepository;
+  let gateway: FakeGateway;
+  let jobs: Array<{ type: string; runAt: Date; key: string }>;
+  let escrowEvents: string[];
+  let now: Date;
+  let service: LeaseService;
+
+  beforeEach(() => {
+    repository = new MemoryLeaseRepository();
+    gateway = new FakeGateway();
+    jobs = [];
+    escrowEvents = [];
+    now = new Date('2026-10-18T10:00:00Z');
+    service = new LeaseService(
+      repository,
+      gateway,
+      async (type, _payload, runAt, key) => {
+        jobs.push({ type, runAt, key });
+      },
+      () => now,
+      {
+        depositPaid: async (_lease, payment) => escrowEvents.push(`paid:${payment.depositHuf}`),
+        leaseEnded: async (lease) => void escrowEvents.push(`ended:${lease.status}`),
+        depositRefunded: async () => void escrowEvents.push('refunded'),
+      }
+    );
+  });
+
+  async function signedLease() {
+    const lease = await service.requestLease(TENANT, { apartmentId: APARTMENT, moveInDate: '2026-11-01', termMonths: 6 });
+    await service.act(OWNER, lease.id, 'accept');
+    const { clientSecret } = await service.act(TENANT, lease.id, 'sign');
+    return { lease, clientSecret: clientSecret! };
+  }
+
+  it('runs a lease from request to the end of its term', async () => {
+    const { lease, clientSecret } = await signedLease();
+    expect(clientSecret).toMatch(/_secret$/);
+    expect(jobs.map((j) => j.type)).toEqual(['lease.activate']);
+
+    const first = (await repository.listPayments(lease.id)).find((p) => p.kind === 'first_payment')!;
+    await service.recordPaymentSucceeded(first.paymentIntentId!, 'pm_1');
+    expect((await repository.findById(lease.id))?.status).toBe('signed');
+
+    now = new Date('2026-11-01T00:05:00Z');
+    const active = await service.activate(lease.id);
+    expect(active?.status).toBe('active');
+    const rentJobs = jobs.filter((j) => j.type === 'lease.charge_rent');
+    expect(rentJobs).toHaveLength(5);
+    expect(jobs.at(-1)).toMatchObject({ type: 'lease.end', runAt: new Date('2027-05-01T00:00:00Z') });
+
+    const rent = (await repository.listPayments(lease.id)).filter((p) => p.kind === 'rent');
+    expect(await service.chargeRent(rent[0].id)).toEqual({ charged: true });
+    expect(await service.chargeRent(rent[0].id)).toEqual({ charged: false });
+    expect(gateway.charges).toEqual([rent[0].id]);
+
+    gateway.declineRent = true;
+    await expect(service.chargeRent(rent[1].id)).rejects.toThrow('declined');
+    expect((await repository.findPayment(rent[1].id))).toMatchObject({ status: 'failed', attempts: 1 });
+
+    expect(await service.endAtTerm(lease.id)).toBeNull();
+    now = new Date('2027-05-01T00:00:00Z');
+    expect((await service.endAtTerm(lease.id))?.status).toBe('ended');
+    expect(escrowEvents).toEqual(['paid:300000', 'ended:ended']);
+  });
+
+  it('waits for the tenant to confirm a rent charge their bank held back', async () => {
+    const { lease } = await signedLease();
+    const first = (await repository.listPayments(lease.id)).find((p) => p.kind === 'first_payment')!;
+    await service.recordPaymentSucceeded(first.paymentIntentId!, 'pm_1');
+    now = new Date('2026-11-01T00:05:00Z');
+    await service.activate(lease.id);
+    const rent = (await repository.listPayments(lease.id)).filter((p) => p.kind === 'rent');
+
+    gateway.authenticateRent = true;
+    expect(await service.chargeRent(rent[0].id)).toEqual({ charged: false });
+    expect(await repository.findPayment(rent[0].id)).toMatchObject({
+      status: 'requires_action',
+      paymentIntentId: `pi_rent_${rent[0].id}`,
+    });
+    // The job queue doesn't charge it again behind the tenant's back
+    expect(await service.chargeRent(rent[0].id)).toEqual({ charged: false });
+    expect(gateway.charges).toEqual([rent[0].id]);
+
+    await expect(service.confirmRentPayment(OWNER, lease.id, rent[0].id)).rejects.toMatchObject({ status: 404 });
+    await expect(service.confirmRentPayment(TENANT, lease.id, rent[1].id)).rejects.toMatchObject({ status: 409 });
+    const { clientSecret, paymentMethodId } = await service.confirmRentPayment(TENANT, lease.id, rent[0].id);
+    expect(clientSecret).toBe(`pi_rent_${rent[0].id}_secret`);
+    expect(paymentMethodId).toBe('pm_1');
+
+    // Stripe's payment_failed webhook for the same decline doesn't fail it
+    await service.recordPaymentFailed(`pi_rent_${rent[0].id}`, 'This payment requires authentication.', 'authentication_required');
+    expect((await repository.findPayment(rent[0].id))?.status).toBe('requires_action');
+
+    await service.recordPaymentSucceeded(`pi_rent_${rent[0].id}`, 'pm_1');
+    expect(await repository.findPayment(rent[0].id)).toMatchObject({ status: 'paid', lastError: null });
+  });
+
+  it('requires an owner Connect account and free dates to accept', async () => {
+    const lease = await service.requestLease(TENANT, { apartmentId: APARTMENT, moveInDate: '2026-11-01', termMonths: 6 });
+    repository.stripeAccount = null;
+    await expect(service.act(OWNER, lease.id, 'accept')).rejects.toMatchObject({ status: 409 });
+
+    repository.stripeAccount = 'acct_owner';
+    await signedLease();
+    await expect(service.act(OWNER, lease.id, 'accept')).rejects.toThrow('already let');
+  });
+
+  it('blocks cancelling after the first payment and cancels the schedule otherwise', async () => {
+    const { lease } = await signedLease();
+    const open = (await repository.listPayments(lease.id)).find((p) => p.kind === 'first_payment')!;
+    await service.act(TENANT, lease.id, 'cancel');
+    const statuses = (await repository.listPayments(lease.id)).map((p) => p.status);
+    expect(statuses).toEqual(Array(6).fill('cancelled'));
+    expect(gateway.cancelled).toEqual([open.paymentIntentId]);
+
+    // The canceled webhook for that intent does not reopen the payment
+    await service.recordPaymentFailed(open.paymentIntentId!, 'Payment canceled');
+    expect((await repository.findPayment(open.id))?.status).toBe('cancelled');
+
+    const racing = await signedLease();
+    const racingFirst = (await repository.listPayments(racing.lease.id)).find((p) => p.kind === 'first_payment')!;
+    gateway.succeededIntents.add(racingFirst.paymentIntentId!);
+    await expect(service.act(TENANT, racing.lease.id, 'cancel')).rejects.toThrow('gone through');
+    expect((await repository.findById(racing.lease.id))?.status).toBe('signed');
+    gateway.succeededIntents.clear();
+    await service.act(TENANT, racing.lease.id, 'cancel');
+
+    const paid = await signedLease();
+    const first = (await repository.listPayments(paid.lease.id)).find((p) => p.kind === 'first_payment')!;
+    await service.recordPaymentSucceeded(first.paymentIntentId!, 'pm_1');
+    await expect(service.act(TENANT, paid.lease.id, 'cancel')).rejects.toThrow('paid lease');
+  });
+
+  it('only ends an active lease early when the owner accepts the tenant\'s notice', async () => {
+    const { lease } = await signedLease();
+    const first = (await repository.listPayments(lease.id)).find((p) => p.kind === 'first_payment')!;
+    await service.recordPaymentSucceeded(first.paymentIntentId!, 'pm_1');
+    now = new Date('2026-11-01T00:05:00Z');
+    await service.activate(lease.id);
+
+    await expect(service.act(TENANT, lease.id, 'end')).rejects.toMatchObject({ status: 403 });
+    await expect(
+      service.act(TENANT, lease.id, 'request_termination', { terminationDate: '2026-11-20' })
+    ).rejects.toMatchObject({ status: 400 });
+
+    const requested = await service.act(TENANT, lease.id, 'request_termination', { terminationDate: '2027-01-15' });
+    expect(requested.lease).toMatchObject({ status: 'active', terminationDate: '2027-01-15', terminationAcceptedAt: null });
+    expect((await repository.listPayments(lease.id)).every((p) => p.status !== 'cancelled')).toBe(true);
+    await expect(service.act(TENANT, lease.id, 'accept_termination')).rejects.toMatchObject({ status: 403 });
+
+    await service.act(OWNER, lease.id, 'accept_termination');
+    const rent = (await repository.listPayments(lease.id)).filter((p) => p.kind === 'rent');
+    expect(rent.map((p) => [p.periodStart, p.status])).toEqual([
+      ['2026-12-01', 'scheduled'],
+      ['2027-01-01', 'scheduled'],
+      ['2027-02-01', 'cancelled'],
+      ['2027-03-01', 'cancelled'],
+      ['2027-04-01', 'cancelled'],
+    ]);
+    expect(jobs.at(-1)).toMatchObject({ type: 'lease.end', runAt: new Date('2027-01-16T00:00:00Z') });
+
+    now = new Date('2027-01-15T12:00:00Z');
+    expect(await service.endAtTerm(lease.id)).toBeNull();
+    now = new Date('2027-01-16T00:00:00Z');
+    expect(await service.endAtTerm(lease.id)).toMatchObject({
+      status: 'ended',
+      endReason: 'Early termination requested by tenant',
+    });
+    expect(escrowEvents.at(-1)).toBe('ended:ended');
+  });
+
+  it('lets the owner decline and the tenant withdraw a termination request', async () => {
+    const { lease } = await signedLease();
+    const first = (await repository.listPayments(lease.id)).find((p) => p.kind === 'first_payment')!;
+    await service.recordPaymentSucceeded(first.paymentIntentId!, 'pm_1');
+    now = new Date('2026-11-01T00:05:00Z');
+    await service.activate(lease.id);
+
+    await service.act(TENANT, lease.id, 'request_termination', { terminationDate: '2027-02-28' });
+    await expect(
+      service.act(TENANT, lease.id, 'request_termination', { terminationDate: '2027-03-31' })
+    ).rejects.toMatchObject({ status: 409 });
+    const declined = await service.act(OWNER, lease.id, 'decline_termination');
+    expect(declined.lease).toMatchObject({ terminationRequestedAt: null, terminationDate: null });
+
+    await service.act(TENANT, lease.id, 'request_termination', { terminationDate: '2027-03-31' });
+    await service.act(TENANT, lease.id, 'decline_termination');
+    await expect(service.act(OWNER, lease.id, 'accept_termination')).rejects.toMatchObject({ status: 409 });
+    expect((await repository.findById(lease.id))?.status).toBe('active');
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Test Suite for the double-entry ledger
+ * Validates that every posted movement balances, that redelivered webhooks
+ * post nothing twice, the owner statement totals and the reconciliation
+ * against Stripe balance transactions
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  LedgerService,
+  assertBalanced,
+  chargeLines,
+  refundLines,
+  reconcile,
+  statementCsv,
+  type BalanceTransactionFacts,
+  type ChargeFacts,
+  type LedgerAccount,
+  type LedgerLine,
+  type LedgerPayment,
+  type LedgerRepository,
+  type LedgerStripeGateway,
+  type LedgerTransaction,
+  type NewLedgerTransaction,
+  type RefundFacts,
+  type ReversalFacts,
+} from '@/services/payments-svc/ledger';
+
+const OWNER = '11111111-1111-4111-8111-111111111111';
+const BOOKING = '44444444-4444-4444-8444-444444444444';
+const APARTMENT = '55555555-5555-4555-8555-555555555555';
+
+const firstPayment: LedgerPayment = {
+  bookingId: BOOKING,
+  ownerId: OWNER,
+  kind: 'first_payment',
+  periodStart: '2027-02-01',
+  periodEnd: '2027-02-28',
+  amountHuf: 300000,
+  rentHuf: 150000,
+  depositHuf: 150000,
+  platformFeeHuf: 7500,
+};
+
+class MemoryLedgerRepository implements LedgerRepository {
+  transactions: LedgerTransaction[] = [];
+  payments = new Map<string, LedgerPayment>([['pi_first', firstPayment]]);
+
+  async findPaymentByIntent(paymentIntentId: string) {
+    return this.payments.get(paymentIntentId) ?? null;
+  }
+
+  async findBookingOwner(bookingId: string) {
+    return bookingId === BOOKING ? OWNER : null;
+  }
+
+  async findOwnerByStripeAccount(stripeAccountId: string) {
+    return stripeAccountId === 'acct_owner' ? OWNER : null;
+  }
+
+  async post(transaction: NewLedgerTransaction, lines: LedgerLine[]) {
+    const exists = this.transactions.some(
+      (t) => t.transactionType === transaction.transactionType && t.source === transaction.source
+    );
+    if (exists) return null;
+    const stored = { ...transaction, id: `tx-${this.transactions.length + 1}`, lines };
+    this.transactions.push(stored);
+    return stored;
+  }
+
+  private ownerEntries(ownerId: string) {
+    return this.transactions.flatMap((t) =>
+      t.lines.filter((line) => line.ownerId === ownerId).map((line) => ({ t, line }))
+    );
+  }
+
+  async ownerLines(ownerId: string, from: Date, to: Date) {
+    return this.ownerEntries(ownerId)
+      .filter(({ t }) => t.occurredAt >= from && t.occurredAt < to)
+      .map(({ t, line }) => ({
+        transactionId: t.id,
+        transactionType: t.transactionType,
+        description: t.description,
+        occurredAt: t.occurredAt,
+        bookingId: t.bookingId,
+        apartmentId: t.bookingId ? APARTMENT : null,
+        apartmentTitle: t.bookingId ? 'Sunny studio near ELTE' : null,
+        account: line.account,
+        debitHuf: line.debitHuf,
+        creditHuf: line.creditHuf,
+      }));
+  }
+
+  async ownerBalance(ownerId: string, account: LedgerAccount, before: Date) {
+    return this.ownerEntries(ownerId)
+      .filter(({ t, line }) => line.account === account && t.occurredAt < before)
+      .reduce((sum, { line }) => sum + line.debitHuf - line.creditHuf, 0);
+  }
+
+  async platformCashMovements(from: Date, to: Date) {
+    return this.transactions
+      .filter((t) => t.occurredAt >= from && t.occurredAt < to)
+      .map((t) => ({
+        source: t.source,
+        transactionType: t.transactionType,
+        occurredAt: t.occurredAt,
+        netHuf: t.lines
+          .filter((line) => line.account === 'platform_cash')
+          .reduce((sum, line) => sum + line.debitHuf - line.creditHuf, 0),
+      }));
+  }
+}
+
+class FakeStripe implements LedgerStripeGateway {
+  charges = new Map<string, ChargeFacts>([
+    [
+      'pi_first',
+      {
+        chargeId: 'ch_first',
+        amountHuf: 300000,
+        stripeFeeHuf: 4500,
+        transferId: 'tr_first',
+        transferHuf: 142500,
+        applicationFeeId: null,
+        applicationFeeHuf: 0,
+        created: new Date('2027-01-20T09:00:00Z'),
+      },
+    ],
+  ]);
+  refundList: RefundFacts[] = [];
+  reversals: ReversalFacts[] = [];
+  balance: BalanceTransactionFacts[] = [];
+
+  async charge(paymentIntentId: string) {
+    return this.charges.get(paymentIntentId) ?? null;
+  }
+
+  async refunds() {
+    return this.refundList;
+  }
+
+  async transferReversals() {
+    return this.reversals;
+  }
+
+  async balanceTransactions() {
+    return this.balance;
+  }
+}
+
+describe('ledger line builders', () => {
+  it('balance for charges and for partial refunds of rent and deposit', () => {
+    const charge = chargeLines(firstPayment, 300000, 4500);
+    expect(() => assertBalanced(charge)).not.toThrow();
+    expect(charge).toContainEqual({ account: 'owner_revenue', ownerId: OWNER, debitHuf: 0, creditHuf: 150000 });
+    expect(charge).toContainEqual({ account: 'deposits_held', ownerId: null, debitHuf: 0, creditHuf: 150000 });
+
+    // Refunding 200k reverses all the rent, 50k of the deposit and all the commission
+    const refund = refundLines(firstPayment, { amountHuf: 200000, kind: null });
+    expect(() => assertBalanced(refund)).not.toThrow();
+    expect(refund).toContainEqual({ account: 'owner_revenue', ownerId: OWNER, debitHuf: 150000, creditHuf: 0 });
+    expect(refund).toContainEqual({ account: 'deposits_held', ownerId: null, debitHuf: 50000, creditHuf: 0 });
+    expect(refund).toContainEqual({ account: 'owner_fees', ownerId: OWNER, debitHuf: 0, creditHuf: 7500 });
+
+    expect(() =>
+      assertBalanced([
+        { account: 'platform_cash', ownerId: null, debitHuf: 100, creditHuf: 0 },
+        { account: 'owner_balance', ownerId: null, debitHuf: 0, creditHuf: 100 },
+      ])
+    ).toThrow('is an owner account');
+  });
+});
+
+describe('LedgerService', () => {
+  let repository: MemoryLedgerRepository;
+  let stripe: FakeStripe;
+  let service: LedgerService;
+
+  beforeEach(() => {
+    repository = new MemoryLedgerRepository();
+    stripe = new FakeStripe();
+    service = new LedgerService(repository, stripe, () => new Date('2027-03-01T00:00:00Z'));
+  });
+
+  it('posts each Stripe movement once however often the webhook is delivered', async () => {
+    await service.recordLeaseCharge('pi_first');
+    await service.recordLeaseCharge('pi_first');
+    expect(repository.transactions.map((t) => `${t.transactionType}:${t.source}`)).toEqual([
+      'charge:ch_first',
+      'transfer:tr_first',
+    ]);
+
+    stripe.refundList = [
+      { refundId: 're_1', paymentIntentId: 'pi_first', amountHuf: 300000, kind: null, created: new Date('2027-01-25T00:00:00Z') },
+    ];
+    stripe.reversals = [{ reversalId: 'trr_1', amountHuf: 142500, created: new Date('2027-01-25T00:00:00Z') }];
+    await service.recordRefunds('ch_first', 'tr_first');
+    await service.recordRefunds('ch_first', 'tr_first');
+    await service.recordPayout({ payoutId: 'po_unknown', stripeAccountId: 'acct_other', amountHuf: 1, created: new Date(), failed: false });
+
+    expect(repository.transactions).toHaveLength(4);
+    const balance = await repository.ownerBalance(OWNER, 'owner_balance', new Date('2027-02-01T00:00:00Z'));
+    expect(balance).toBe(0);
+  });
+
+  it('builds the monthly owner statement from the owner lines', async () => {
+    await service.recordLeaseCharge('pi_first');
+    await service.recordTransfer({
+      transferId: 'tr_deductions',
+      amountHuf: 40000,
+      bookingId: BOOKING,
+      kind: 'deposit_deductions',
+      created: new Date('2027-01-28T00:00:00Z'),
+    });
+    await service.recordTransfer({ transferId: 'tr_other', amountHuf: 1, bookingId: BOOKING, kind: null, created: new Date('2027-01-28T00:00:00Z') });
+    await service.recordPayout({
+      payoutId: 'po_1',
+      stripeAccountId: 'acct_owner',
+      amountHuf: 182500,
+      created: new Date('2027-01-30T00:00:00Z'),
+      failed: false,
+    });
+
+    const statement = await service.ownerStatement(OWNER, '2027-01');
+    expect(statement).toMatchObject({
+      rentHuf: 150000,
+      depositDeductionsHuf: 40000,
+      commissionHuf: 7500,
+      netEarningsHuf: 182500,
+      paidOutHuf: 182500,
+      openingBalanceHuf: 0,
+      closingBalanceHuf: 0,
+      chargeCount: 1,
+    });
+    expect(statement.byApartment).toEqual([
+      { apartmentId: APARTMENT, apartmentTitle: 'Sunny studio near ELTE', netEarningsHuf: 182500 },
+    ]);
+    expect(statementCsv(statement).split('\n')[1]).toBe(
+      "2027-01-20,Payment,First month's rent and deposit (2027-02-01),Sunny studio near ELTE,142500,0,0"
+    );
+    await expect(service.ownerStatement(OWNER, '2027-13')).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('reconciles Stripe balance transactions against the ledger by source', async () => {
+    await service.recordLeaseCharge('pi_first');
+    const created = new Date('2027-01-20T09:00:00Z');
+    stripe.balance = [
+      { id: 'txn_1', type: 'charge', source: 'ch_first', netHuf: 295500, created },
+      { id: 'txn_2', type: 'transfer', source: 'tr_first', netHuf: -140000, created },
+      { id: 'txn_3', type: 'adjustment', source: 'du_1', netHuf: -15000, created },
+      { id: 'txn_4', type: 'payout', source: 'po_platform', netHuf: -100000, created },
+    ];
+
+    const report = await service.reconcile(new Date('2027-01-01T00:00:00Z'), new Date('2027-02-01T00:00:00Z'));
+
+    expect(report.matched).toBe(1);
+    expect(report.mismatched).toEqual([{ source: 'tr_first', type: 'transfer', stripeNetHuf: -140000, ledgerNetHuf: -142500 }]);
+    expect(report.missingInLedger.map((item) => item.source)).toEqual(['du_1']);
+    expect(report.missingInStripe).toEqual([]);
+    expect(reconcile(report.from, report.to, [], [{ source: 'ch_x', transactionType: 'charge', netHuf: 5, occurredAt: created }]).missingInStripe).toHaveLength(1);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Test Suite for the LLM provider layer
+ * Validates schema checking, fixture replies, retries, timeouts,
+ * token accounting and circuit breaker integration
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CircuitBreaker } from '@/lib/circuit-breaker';
+import { LLMService, getLLM, resolveProviderName } from '@/lib/llm/provider';
+import { FIXTURE_DEFAULT_REPLY, FixtureProvider } from '@/lib/llm/providers/fixture';
+import { extractJson, toGeminiSchema, validateJsonSchema } from '@/lib/llm/schema';
+import { JsonSchema, LLMError, LLMProvider, ProviderRequest, ProviderResponse } from '@/lib/llm/types';
+
+const scoreSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    score: { type: 'number', minimum: 1, maximum: 100 },
+    reasons: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['score', 'reasons'],
+};
+
+// Provider that fails a set number of times before answering
+function flakyProvider(failures: number, error: () => Error, text = 'ok'): LLMProvider & { attempts: number } {
+  return {
+    name: 'fixture',
+    attempts: 0,
+    async generate(): Promise<ProviderResponse> {
+      this.attempts++;
+      if (this.attempts <= failures) throw error();
+      return { text, model: 'flaky', usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } };
+    },
+    async *stream() {
+      yield { text };
+    },
+    async healthCheck() {
+      return true;
+    },
+  };
+}
+
+describe('JSON schema helpers', () => {
+  it('reports missing, mistyped and out-of-range fields', () => {
+    expect(validateJsonSchema({ score: 80, reasons: ['near ELTE'] }, scoreSchema)).toEqual([]);
+    expect(validateJsonSchema({ score: 150, reasons: 'cheap' }, scoreSchema)).toEqual([
+      '$.score should be <= 100',
+      '$.reasons should be an array',
+    ]);
+    expect(validateJsonSchema({ reasons: [] }, scoreSchema)).toEqual(['$.score is required']);
+  });
+
+  it('extracts JSON wrapped in markdown or chatter', () => {
+    expect(extractJson('```json\n{"score": 70}\n```')).toEqual({ score: 70 });
+    expect(extractJson('Sure! {"score": 70} Hope that helps')).toEqual({ score: 70 });
+    expect(() => extractJson('no json here')).toThrow();
+  });
+
+  it('converts to the Gemini response schema format', () => {
+    const converted = toGeminiSchema(scoreSchema) as any;
+    expect(converted.type).toBe('OBJECT');
+    expect(converted.properties.reasons.items.type).toBe('STRING');
+    expect(converted.required).toEqual(['score', 'reasons']);
+  });
+});
+
+describe('FixtureProvider', () => {
+  it('answers from matching fixtures and records prompts', async () => {
+    const provider = new FixtureProvider([{ match: /district viii/i, response: { score: 88, reasons: ['cheap'] } }]);
+    const llm = new LLMService(provider);
+
+    await expect(llm.generateJSON('Rate this District VIII flat', scoreSchema)).resolves.toEqual({
+      score: 88,
+      reasons: ['cheap'],
+    });
+    await expect(llm.generateText('Say hello')).resolves.toBe(FIXTURE_DEFAULT_REPLY);
+    expect(provider.calls).toHaveLength(2);
+  });
+
+  it('fails structured requests without a fixture so callers fall back', async () => {
+    const llm = new LLMService(new FixtureProvider());
+    await expect(llm.generateJSON('Unknown prompt', scoreSchema)).rejects.toMatchObject({ code: 'no_fixture' });
+  });
+
+  it('streams fixture text word by word', async () => {
+    const llm = new LLMService(new FixtureProvider([{ match: 'greet', response: 'Hello there friend' }]));
+    const chunks: string[] = [];
+    for await (const chunk of llm.streamText('greet me', { feature: 'stream' })) {
+      chunks.push(chunk);
+    }
+    expect(chunks.join('')).toBe('Hello there friend');
+    expect(llm.getUsage().byFeature.stream.requests).toBe(1);
+  });
+
+  it('is the default provider under test', () => {
+    expect(resolveProviderName()).toBe('fixture');
+    expect(getLLM().providerName).toBe('fixture');
+  });
+});
+
+describe('LLMService', () => {
+  it('retries retryable failures and accounts tokens per feature', async () => {
+    const provider = flakyProvider(2, () => new LLMError('quota', 'rate_limited', true));
+    const llm = new LLMService(provider);
+
+    await expect(llm.generateText('hi', { feature: 'chat' })).resolves.toBe('ok');
+    expect(provider.attempts).toBe(3);
+
+    const usage = llm.getUsage();
+    expect(usage.retries).toBe(2);
+    expect(usage.requests).toBe(1);
+    expect(usage.totalTokens).toBe(15);
+    expect(usage.byFeature.chat).toEqual({ requests: 1, promptTokens: 10, completionTokens: 5, totalTokens: 15 });
+  });
+
+  it('does not retry non-retryable failures', async () => {
+    const provider = flakyProvider(1, () => new LLMError('bad request', 'invalid_response'));
+    const llm = new LLMService(provider);
+
+    await expect(llm.generateText('hi')).rejects.toMatchObject({ code: 'invalid_response' });
+    expect(provider.attempts).toBe(1);
+    expect(llm.getUsage().failures).toBe(1);
+  });
+
+  it('times out slow attempts', async () => {
+    const provider: LLMProvider = {
+      name: 'fixture',
+      generate: (_prompt: string, request: ProviderRequest) =>
+        new Promise<ProviderResponse>((_resolve, reject) => {
+          request.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        }),
+      async *stream() {},
+      async healthCheck() {
+        return true;
+      },
+    };
+    const llm = new LLMService(provider);
+
+    await expect(llm.generateText('hi', { timeoutMs: 20, retries: 0 })).rejects.toMatchObject({ code: 'timeout' });
+  });
+
+  it('re-requests JSON that does not match the schema', async () => {
+    const provider = new FixtureProvider([
+      { match: 'previous reply was invalid', response: { score: 75, reasons: ['balcony'] } },
+      { match: 'Rate', response: '{"score": "high"}' },
+    ]);
+    const llm = new LLMService(provider);
+
+    await expect(llm.generateJSON('Rate it', scoreSchema)).resolves.toEqual({ score: 75, reasons: ['balcony'] });
+    expect(provider.calls).toHaveLength(2);
+    expect(provider.calls[1]).toContain('$.score should be a number');
+  });
+
+  it('opens the circuit breaker after repeated failures', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 60000 });
+    const provider = flakyProvider(10, () => new Error('connection reset'));
+    const llm = new LLMService(provider, breaker);
+
+    await expect(llm.generateText('a', { retries: 0 })).rejects.toMatchObject({ code: 'unavailable' });
+    await expect(llm.generateText('b', { retries: 0 })).rejects.toMatchObject({ code: 'unavailable' });
+    await expect(llm.generateText('c', { retries: 0 })).rejects.toMatchObject({ code: 'circuit_open' });
+    expect(provider.attempts).toBe(2);
+  });
+});
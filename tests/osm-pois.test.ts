@@ -0,0 +1,77 @@
+/**
+ * Test Suite for OSM POI import
+ * Validates tag classification and parsing of Overpass and GeoJSON extracts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyOsmTags, parseOsmExtract, transitMode } from '@/lib/osm/parser';
+
+describe('classifyOsmTags', () => {
+  it('maps amenities, shops and leisure to scoring categories', () => {
+    expect(classifyOsmTags({ amenity: 'restaurant' })).toEqual({ category: 'restaurants', subcategory: 'restaurant' });
+    expect(classifyOsmTags({ shop: 'supermarket' })).toEqual({ category: 'grocery', subcategory: 'supermarket' });
+    expect(classifyOsmTags({ shop: 'clothes' })).toEqual({ category: 'shopping', subcategory: 'clothes' });
+    expect(classifyOsmTags({ leisure: 'park' })).toEqual({ category: 'parks', subcategory: 'park' });
+    expect(classifyOsmTags({ amenity: 'bench' })).toBeNull();
+  });
+
+  it('recognises transit stops by mode', () => {
+    expect(transitMode({ highway: 'bus_stop' })).toBe('bus');
+    expect(transitMode({ railway: 'tram_stop' })).toBe('tram');
+    expect(transitMode({ railway: 'station', station: 'subway' })).toBe('subway');
+    expect(transitMode({ railway: 'station' })).toBe('train');
+    expect(transitMode({ public_transport: 'platform', bus: 'yes' })).toBe('bus');
+    expect(transitMode({ railway: 'rail' })).toBeNull();
+  });
+});
+
+describe('parseOsmExtract', () => {
+  it('reads Overpass nodes and ways with centres, skipping the rest', () => {
+    const { pois, skipped } = parseOsmExtract({
+      elements: [
+        { type: 'node', id: 1, lat: 47.4979, lon: 19.0558, tags: { railway: 'station', station: 'subway', name: 'Deák Ferenc tér' } },
+        { type: 'way', id: 2, center: { lat: 47.51, lon: 19.08 }, tags: { leisure: 'park', name: 'Városliget' } },
+        { type: 'way', id: 3, tags: { shop: 'bakery' } },
+        { type: 'node', id: 4, lat: 47.5, lon: 19.06, tags: { amenity: 'bench' } },
+        { type: 'node', id: 1, lat: 47.4979, lon: 19.0558, tags: { railway: 'station', station: 'subway' } },
+      ],
+    });
+
+    expect(pois.map((poi) => [poi.osmId, poi.category, poi.subcategory])).toEqual([
+      ['node/1', 'transit', 'subway'],
+      ['way/2', 'parks', 'park'],
+    ]);
+    expect(pois[1]).toMatchObject({ name: 'Városliget', lat: 47.51, lng: 19.08 });
+    expect(skipped).toBe(3);
+  });
+
+  it('reads osmium GeoJSON exports and centres polygons', () => {
+    const { pois } = parseOsmExtract({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          geometry: { type: 'Point', coordinates: [19.06, 47.49] },
+          properties: { '@type': 'node', '@id': 10, amenity: 'cafe', name: 'Centrál' },
+        },
+        {
+          type: 'Feature',
+          geometry: {
+            type: 'Polygon',
+            coordinates: [[[19.0, 47.0], [19.2, 47.0], [19.2, 47.2], [19.0, 47.2], [19.0, 47.0]]],
+          },
+          properties: { '@type': 'way', '@id': 11, amenity: 'university' },
+        },
+      ],
+    });
+
+    expect(pois[0]).toMatchObject({ osmId: 'node/10', category: 'cafes', name: 'Centrál', tags: { amenity: 'cafe', name: 'Centrál' } });
+    expect(pois[1]).toMatchObject({ osmId: 'way/11', category: 'schools', name: null });
+    expect(pois[1].lat).toBeCloseTo(47.1);
+    expect(pois[1].lng).toBeCloseTo(19.1);
+  });
+
+  it('rejects other formats', () => {
+    expect(() => parseOsmExtract({ version: 0.6 })).toThrow('Unsupported OSM extract');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Test Suite for listing price history
+ * Validates the chart series built from pricing_history, visibility of
+ * unpublished listings, and that price-drop alerts respect each user's
+ * thresholds and go out once per change
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  PriceHistoryError,
+  PriceHistoryService,
+  buildPriceHistory,
+  meetsThreshold,
+  type PriceChangeEntry,
+  type PriceDropRecipient,
+  type PriceHistoryApartment,
+  type PriceHistoryRepository,
+} from '@/services/pricing-svc/price-history';
+
+const LISTED = new Date('2026-06-01T10:00:00Z');
+
+const apartment: PriceHistoryApartment = {
+  id: 'apt-1',
+  ownerId: 'owner-1',
+  title: 'Bright flat near Corvinus',
+  address: 'Ráday utca 12',
+  status: 'published',
+  rentHuf: 180000,
+  createdAt: LISTED,
+};
+
+function change(id: string, oldPriceHuf: number | null, newPriceHuf: number, day: number): PriceChangeEntry {
+  return {
+    id,
+    apartmentId: 'apt-1',
+    oldPriceHuf,
+    newPriceHuf,
+    reason: 'listing_update',
+    changedBy: 'owner-1',
+    createdAt: new Date(LISTED.getTime() + day * 24 * 60 * 60 * 1000),
+    notifiedAt: null,
+    notifiedRecipients: null,
+  };
+}
+
+function recipient(userId: string, minPercent: number, minHuf: number): PriceDropRecipient {
+  return { userId, email: `${userId}@example.com`, source: 'favorite', thresholds: { minPercent, minHuf } };
+}
+
+class MemoryPriceHistoryRepository implements PriceHistoryRepository {
+  apartments = new Map([[apartment.id, { ...apartment }]]);
+  changes: PriceChangeEntry[] = [change('c1', 200000, 210000, 10), change('c2', 210000, 180000, 30)];
+  audience: PriceDropRecipient[] = [];
+
+  async findApartment(apartmentId: string) {
+    return this.apartments.get(apartmentId) ?? null;
+  }
+
+  async listChanges(apartmentId: string) {
+    return this.changes.filter((c) => c.apartmentId === apartmentId);
+  }
+
+  async findChange(changeId: string) {
+    return this.changes.find((c) => c.id === changeId) ?? null;
+  }
+
+  async dropAudience() {
+    return this.audience;
+  }
+
+  async markNotified(changeId: string, recipients: number) {
+    const entry = this.changes.find((c) => c.id === changeId);
+    if (!entry || entry.notifiedAt) return false;
+    entry.notifiedAt = new Date();
+    entry.notifiedRecipients = recipients;
+    return true;
+  }
+}
+
+describe('buildPriceHistory', () => {
+  it('starts at the listing price and steps through every change', () => {
+    const history = buildPriceHistory(apartment, [change('c2', 210000, 180000, 30), change('c1', 200000, 210000, 10)]);
+
+    expect(history.points.map((p) => p.priceHuf)).toEqual([200000, 210000, 180000]);
+    expect(history.points[0].at).toEqual(LISTED);
+    expect(history).toMatchObject({ lowestHuf: 180000, highestHuf: 210000, currentPriceHuf: 180000 });
+    expect(history.lastDrop).toMatchObject({ fromHuf: 210000, toHuf: 180000, percent: 14.3 });
+
+    const unchanged = buildPriceHistory(apartment, []);
+    expect(unchanged.points).toEqual([{ at: LISTED, priceHuf: 180000 }]);
+    expect(unchanged.lastDrop).toBeNull();
+  });
+
+  it('counts only drops that clear both thresholds', () => {
+    expect(meetsThreshold(200000, 190000, { minPercent: 3, minHuf: 5000 })).toBe(true);
+    expect(meetsThreshold(200000, 197000, { minPercent: 1, minHuf: 5000 })).toBe(false);
+    expect(meetsThreshold(200000, 190000, { minPercent: 10, minHuf: 0 })).toBe(false);
+    expect(meetsThreshold(200000, 210000, { minPercent: 0, minHuf: 0 })).toBe(false);
+    expect(meetsThreshold(null, 190000, { minPercent: 0, minHuf: 0 })).toBe(false);
+  });
+});
+
+describe('PriceHistoryService', () => {
+  let repository: MemoryPriceHistoryRepository;
+  let sent: Array<{ changeId: string; userIds: string[] }>;
+  let service: PriceHistoryService;
+
+  beforeEach(() => {
+    repository = new MemoryPriceHistoryRepository();
+    sent = [];
+    service = new PriceHistoryService(repository, async (_apartment, entry, recipients) => {
+      sent.push({ changeId: entry.id, userIds: recipients.map((r) => r.userId) });
+    });
+  });
+
+  it('hides unpublished listings from everyone but the owner', async () => {
+    repository.apartments.get('apt-1')!.status = 'draft';
+
+    await expect(service.history('apt-1', 'student-1')).rejects.toBeInstanceOf(PriceHistoryError);
+    await expect(service.history('apt-1', null)).rejects.toMatchObject({ status: 404 });
+    expect((await service.history('apt-1', 'owner-1')).changes).toHaveLength(2);
+  });
+
+  it('alerts users whose thresholds the drop clears, once per change', async () => {
+    repository.audience = [recipient('eager', 1, 1000), recipient('picky', 20, 1000), recipient('default', 3, 5000)];
+
+    const report = await service.notifyDrop('c2');
+    expect(report).toEqual({ changeId: 'c2', status: 'sent', recipients: 2 });
+    expect(sent).toEqual([{ changeId: 'c2', userIds: ['eager', 'default'] }]);
+
+    expect(await service.notifyDrop('c2')).toMatchObject({ status: 'already_notified', recipients: 2 });
+    expect(await service.notifyDrop('c1')).toMatchObject({ status: 'not_a_drop' });
+    expect(sent).toHaveLength(1);
+  });
+});
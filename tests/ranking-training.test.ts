@@ -0,0 +1,112 @@
+/**
+ * Test Suite for ranking weight training
+ * Validates feedback labels, propensity-weighted pairs, the simplex
+ * projection and that fitted weights beat the baseline on a holdout
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RANKING_WEIGHTS, RANKING_COMPONENT_KEYS, type RankingComponents } from '@/services/ranking-svc';
+import {
+  buildTrainingPairs,
+  evaluateWeights,
+  examinationPropensity,
+  fitPairwiseWeights,
+  impressionRelevance,
+  projectToSimplex,
+  splitHoldout,
+  type Impression,
+} from '@/services/ranking-svc/training';
+
+// Small deterministic PRNG so the synthetic data is stable
+function seededRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function components(values: Partial<RankingComponents> = {}): RankingComponents {
+  return { constraint: 0.5, preference: 0.5, accessibility: 0.5, trust: 0.5, market: 0.5, engagement: 0.5, ...values };
+}
+
+// Users contact the listing that is best on market value and trust
+function syntheticImpressions(lists: number): Impression[] {
+  const random = seededRandom(42);
+  const impressions: Impression[] = [];
+
+  for (let list = 0; list < lists; list++) {
+    const candidates = Array.from({ length: 5 }, (_, index) => {
+      const values = Object.fromEntries(RANKING_COMPONENT_KEYS.map((key) => [key, random()])) as unknown as RankingComponents;
+      return { index, values, utility: values.market * 0.6 + values.trust * 0.4 };
+    });
+    const best = candidates.reduce((top, candidate) => (candidate.utility > top.utility ? candidate : top));
+
+    for (const candidate of candidates) {
+      impressions.push({
+        listKey: `user-${list}`,
+        apartmentId: `apt-${list}-${candidate.index}`,
+        position: candidate.index + 1,
+        components: candidate.values,
+        relevance: candidate === best ? 3 : 0,
+      });
+    }
+  }
+
+  return impressions;
+}
+
+describe('feedback labels', () => {
+  it('keeps the strongest positive feedback and marks bad-only impressions negative', () => {
+    expect(impressionRelevance(['saved', 'contacted'])).toBe(3);
+    expect(impressionRelevance(['bad', 'good'])).toBe(2);
+    expect(impressionRelevance(['bad'])).toBe(-1);
+    expect(impressionRelevance([])).toBe(0);
+  });
+
+  it('discounts lower positions', () => {
+    expect(examinationPropensity(1)).toBe(1);
+    expect(examinationPropensity(4)).toBe(0.25);
+  });
+});
+
+describe('buildTrainingPairs', () => {
+  it('pairs preferred results over others in the same list with inverse-propensity weights', () => {
+    const pairs = buildTrainingPairs([
+      { listKey: 'a', apartmentId: '1', position: 1, components: components({ market: 0.2 }), relevance: 0 },
+      { listKey: 'a', apartmentId: '2', position: 3, components: components({ market: 0.9 }), relevance: 2 },
+      { listKey: 'b', apartmentId: '3', position: 1, components: components(), relevance: 0 },
+    ]);
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].weight).toBe(6); // 1 / (1/3) * (2 - 0)
+    expect(pairs[0].delta[RANKING_COMPONENT_KEYS.indexOf('market')]).toBeCloseTo(0.7);
+  });
+});
+
+describe('projectToSimplex', () => {
+  it('returns non-negative weights that sum to one and respect the floor', () => {
+    const projected = projectToSimplex([0.9, -0.3, 0.4, 0.1, 0, 0.2], 0.02);
+    expect(projected.reduce((sum, value) => sum + value, 0)).toBeCloseTo(1);
+    expect(Math.min(...projected)).toBeGreaterThanOrEqual(0.02 - 1e-9);
+  });
+});
+
+describe('fitPairwiseWeights', () => {
+  it('learns the components users act on and beats the baseline on the holdout', () => {
+    const pairs = buildTrainingPairs(syntheticImpressions(400));
+    const { train, holdout } = splitHoldout(pairs, 0.2);
+
+    expect(holdout.length).toBeGreaterThan(0);
+    expect(new Set(train.map((pair) => pair.listKey)).has(holdout[0].listKey)).toBe(false);
+
+    const weights = fitPairwiseWeights(train, { prior: DEFAULT_RANKING_WEIGHTS });
+    const candidate = evaluateWeights(holdout, weights);
+    const baseline = evaluateWeights(holdout, DEFAULT_RANKING_WEIGHTS);
+
+    expect(weights.market).toBeGreaterThan(DEFAULT_RANKING_WEIGHTS.market);
+    expect(weights.trust).toBeGreaterThan(DEFAULT_RANKING_WEIGHTS.trust);
+    expect(candidate.pairAccuracy).toBeGreaterThan(baseline.pairAccuracy);
+    expect(candidate.loss).toBeLessThan(baseline.loss);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Test Suite for the rent model
+ * Validates the hedonic regression fit, the district quantiles and trend,
+ * and that training publishes versions whose estimates report the model
+ * version and confidence, and that price predictions weigh the listing
+ * against its district
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CommuteAndPricingService } from '@/services/commute-and-pricing-svc';
+import {
+  RentModelService,
+  districtNumber,
+  districtQuantiles,
+  estimateRent,
+  fitRentModel,
+  rentModelService,
+  splitHoldout,
+  type DistrictQuantiles,
+  type NewRentModel,
+  type PriceChange,
+  type RentModel,
+  type RentModelRepository,
+  type RentObservation,
+} from '@/services/pricing-svc/model';
+
+const NOW = new Date('2026-10-18T02:00:00Z');
+const DISTRICT_LEVEL: Record<number, number> = { 5: 0.35, 8: 0, 11: 0.15 };
+
+// log(rent) = 8.4 + 0.9 log(size) + district + 0.1 furnished + 0.05 elevator, with a small deterministic wobble
+function listing(index: number, overrides: Partial<RentObservation> = {}): RentObservation {
+  const district = [5, 8, 11][index % 3];
+  const sizeSqm = 28 + ((index * 7) % 60);
+  const furnished = index % 2 === 0;
+  const hasElevator = index % 5 < 2;
+  const wobble = (((index * 37) % 11) - 5) / 500;
+  const logRent = 8.4 + 0.9 * Math.log(sizeSqm) + DISTRICT_LEVEL[district] + (furnished ? 0.1 : 0) + (hasElevator ? 0.05 : 0) + wobble;
+
+  return {
+    apartmentId: `apartment-${index}`,
+    features: {
+      district,
+      sizeSqm,
+      bedrooms: sizeSqm < 40 ? 1 : 2,
+      floor: 2,
+      hasElevator,
+      furnished,
+      heating: 'district',
+      commuteMinutes: 25,
+      amenityCount: 3,
+    },
+    rentHuf: Math.round(Math.exp(logRent)),
+    observedAt: NOW,
+    current: true,
+    ...overrides,
+  };
+}
+
+class MemoryRentModelRepository implements RentModelRepository {
+  observations: RentObservation[] = Array.from({ length: 90 }, (_, i) => listing(i));
+  changes: PriceChange[] = [];
+  models: RentModel[] = [];
+  quantiles: DistrictQuantiles[] = [];
+
+  async loadObservations() {
+    return this.observations;
+  }
+
+  async loadPriceChanges() {
+    return this.changes;
+  }
+
+  async findApartment(apartmentId: string) {
+    const observation = this.observations.find((o) => o.current && o.apartmentId === apartmentId);
+    return observation ? { features: observation.features, rentHuf: observation.rentHuf } : null;
+  }
+
+  async activeModel() {
+    return this.models.find((m) => m.status === 'active') ?? null;
+  }
+
+  async saveModel(model: NewRentModel, publish: boolean) {
+    if (publish) {
+      this.models.filter((m) => m.status === 'active').forEach((m) => (m.status = 'superseded'));
+    }
+    const version = this.models.length + 1;
+    this.models.push({
+      ...model,
+      version,
+      status: publish ? 'active' : 'rejected',
+      createdAt: NOW,
+      activatedAt: publish ? NOW : null,
+    });
+    return version;
+  }
+
+  async saveQuantiles(quantiles: DistrictQuantiles[]) {
+    this.quantiles = quantiles;
+  }
+
+  async findQuantiles(district: number) {
+    return this.quantiles.find((q) => q.district === district) ?? null;
+  }
+
+  async listModels(limit: number) {
+    return [...this.models].reverse().slice(0, limit);
+  }
+}
+
+describe('rent model fit', () => {
+  it('recovers the hedonic coefficients and prices unseen districts at the city level', () => {
+    const model = fitRentModel(Array.from({ length: 90 }, (_, i) => listing(i)), NOW);
+
+    expect(model.coefficients.log_size).toBeCloseTo(0.9, 1);
+    expect(model.coefficients.furnished).toBeCloseTo(0.1, 1);
+    expect(model.coefficients.district_5 - model.coefficients.district_8).toBeCloseTo(0.35, 1);
+    expect(model.coefficients.district_20).toBe(0);
+    expect(model.residualSigma).toBeLessThan(0.02);
+
+    const estimate = estimateRent({ ...model, version: 1 }, { district: 5, sizeSqm: 50, furnished: true, hasElevator: true });
+    const expected = Math.exp(8.4 + 0.9 * Math.log(50) + 0.35 + 0.1 + 0.05);
+    expect(Math.abs(estimate.estimateHuf - expected) / expected).toBeLessThan(0.03);
+    expect(estimate.lowHuf).toBeLessThan(estimate.estimateHuf);
+    expect(estimate.highHuf).toBeGreaterThan(estimate.estimateHuf);
+
+    // Few observations in a district mean a lower confidence for the same model
+    const unseen = estimateRent({ ...model, version: 1 }, { district: 20, sizeSqm: 50 });
+    expect(unseen.confidence).toBeLessThan(estimate.confidence);
+    expect(unseen.districtObservations).toBe(0);
+
+    expect([districtNumber('District V'), districtNumber('VIII. kerület'), districtNumber('11'), districtNumber('Buda')]).toEqual([
+      5,
+      8,
+      11,
+      null,
+    ]);
+  });
+});
+
+describe('district quantiles', () => {
+  it('uses current listings only and the median recent price change as the trend', () => {
+    const observations = [100000, 120000, 140000, 160000, 180000].map((rentHuf, i) =>
+      listing(i * 3 + 1, { rentHuf }),
+    );
+    observations.push(listing(1, { rentHuf: 999000, current: false }));
+    const changes: PriceChange[] = [
+      { district: 8, oldPriceHuf: 100000, newPriceHuf: 105000 },
+      { district: 8, oldPriceHuf: 100000, newPriceHuf: 110000 },
+      { district: 8, oldPriceHuf: 100000, newPriceHuf: 90000 },
+      { district: 5, oldPriceHuf: 100000, newPriceHuf: 50000 },
+    ];
+
+    const [district8] = districtQuantiles(observations, changes, NOW);
+
+    expect(district8).toMatchObject({
+      district: 8,
+      listings: 5,
+      p10Huf: 108000,
+      p50Huf: 140000,
+      p90Huf: 172000,
+      trend: 'up',
+      trendPct: 5,
+    });
+    expect(districtQuantiles(observations.slice(0, 2), [], NOW)).toEqual([]);
+  });
+});
+
+describe('RentModelService', () => {
+  let repository: MemoryRentModelRepository;
+  let service: RentModelService;
+
+  beforeEach(() => {
+    repository = new MemoryRentModelRepository();
+    service = new RentModelService(repository, () => NOW);
+  });
+
+  it('publishes a version, refreshes quantiles and reports version and confidence', async () => {
+    const first = await service.train();
+    expect(first.status).toBe('published');
+    expect(first.holdout.candidate!.mape).toBeLessThan(0.03);
+    expect(first.quantilesUpdated).toBe(3);
+
+    const second = await service.train();
+    expect(second).toMatchObject({ status: 'published', version: 2, baselineVersion: 1 });
+    expect(repository.models.map((m) => m.status)).toEqual(['superseded', 'active']);
+
+    const listed = await service.estimateForApartment('apartment-4');
+    expect(listed!.estimate).toMatchObject({ modelVersion: 2 });
+    expect(listed!.estimate!.confidence).toBeGreaterThan(0.5);
+    expect(listed!.quantiles!.district).toBe(8);
+  });
+
+  it('keeps the active model when the data is too thin or the candidate is worse', async () => {
+    repository.observations = repository.observations.slice(0, 10);
+    const thin = await service.train();
+    expect(thin.status).toBe('insufficient_data');
+    expect(await service.estimate({ district: 5 })).toBeNull();
+
+    repository.observations = Array.from({ length: 90 }, (_, i) => listing(i));
+    await service.train();
+    // Training rents that no longer follow the features: the candidate loses on the untouched holdout
+    const heldOut = new Set(splitHoldout(repository.observations, 0.2).holdout.map((o) => o.apartmentId));
+    repository.observations = repository.observations.map((o, i) =>
+      heldOut.has(o.apartmentId) ? o : { ...o, rentHuf: 80000 + ((i * 7919) % 200000) },
+    );
+    const worse = await service.train();
+    expect(worse.status).toBe('rejected');
+    expect((await service.getActiveModel())!.version).toBe(1);
+  });
+});
+
+describe('apartment price prediction', () => {
+  const estimate = {
+    estimateHuf: 200_000,
+    lowHuf: 170_000,
+    highHuf: 230_000,
+    pricePerSqmHuf: 5_000,
+    confidence: 0.8,
+    modelVersion: 3,
+    districtObservations: 30,
+  };
+  const quantiles: DistrictQuantiles = {
+    district: 8,
+    listings: 30,
+    p10Huf: 150_000,
+    p25Huf: 165_000,
+    p50Huf: 180_000,
+    p75Huf: 210_000,
+    p90Huf: 240_000,
+    medianPricePerSqmHuf: 4_500,
+    trend: 'stable',
+    trendPct: 0,
+    computedAt: NOW,
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('prices competition against the district median asking rent', async () => {
+    const { features } = listing(1);
+    const estimateForApartment = vi
+      .spyOn(rentModelService, 'estimateForApartment')
+      .mockResolvedValueOnce({ features, rentHuf: 200_000, estimate, quantiles })
+      .mockResolvedValueOnce({ features, rentHuf: 200_000, estimate, quantiles: null });
+    const service = new CommuteAndPricingService();
+
+    const priced = await service.predictApartmentPrice('apartment-1');
+    expect(priced.factors.competitorPricing).toBeCloseTo(-0.1);
+    expect(priced.factors.marketAverage).toBe(0);
+
+    const unquantiled = await service.predictApartmentPrice('apartment-2');
+    expect(unquantiled.factors.competitorPricing).toBe(0);
+    expect(priced.predictedPrice - unquantiled.predictedPrice).toBe(-4_000);
+    expect(estimateForApartment).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Test Suite for roommate matching and group search
+ * Validates compatibility scoring, the group's shared search goal, shortlist
+ * voting and contacting an owner as a group
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  RoommateService,
+  compatibility,
+  groupSearchGoal,
+  tallyShortlist,
+  type GroupListing,
+  type GroupStatus,
+  type MemberStatus,
+  type RoommateGroup,
+  type RoommateProfile,
+  type RoommateRepository,
+  type ShortlistEntry,
+} from '@/services/roommate-svc';
+import type { SearchGoal } from '@/components/SearchGoalCard';
+
+const profile = (userId: string, overrides: Partial<RoommateProfile> = {}): RoommateProfile => ({
+  userId,
+  budgetMinHuf: 90000,
+  budgetMaxHuf: 130000,
+  schedule: 'flexible',
+  cleanliness: 4,
+  smoking: 'non_smoker',
+  acceptsSmokers: false,
+  hasPets: false,
+  acceptsPets: true,
+  languages: ['en', 'hu'],
+  districts: [8, 9],
+  personality: { openness: 0.6, conscientiousness: 0.8, extraversion: 0.4, agreeableness: 0.7, neuroticism: 0.3 },
+  bio: null,
+  looking: true,
+  ...overrides,
+});
+
+class MemoryRoommateRepository implements RoommateRepository {
+  profiles = new Map<string, RoommateProfile>();
+  groups = new Map<string, RoommateGroup>();
+  shortlist: Array<ShortlistEntry & { groupId: string }> = [];
+  listings = new Map<string, GroupListing>([['apt-1', { id: 'apt-1', ownerId: 'owner-1', title: 'Three-bed by Corvin', status: 'published' }]]);
+  conversations: Array<{ id: string; groupId: string; apartmentId: string; studentId: string; participants: string[] }> = [];
+
+  async getProfile(userId: string) {
+    return this.profiles.get(userId) ?? null;
+  }
+
+  async getProfiles(userIds: string[]) {
+    return userIds.map((id) => this.profiles.get(id)).filter((p): p is RoommateProfile => Boolean(p));
+  }
+
+  async saveProfile(saved: RoommateProfile) {
+    this.profiles.set(saved.userId, saved);
+    return saved;
+  }
+
+  async listLooking(excludeUserId: string) {
+    return Array.from(this.profiles.values())
+      .filter((p) => p.looking && p.userId !== excludeUserId)
+      .map((p) => ({ profile: p, name: p.userId }));
+  }
+
+  async getGroup(groupId: string) {
+    const group = this.groups.get(groupId);
+    return group ? { ...group, members: group.members.map((member) => ({ ...member })) } : null;
+  }
+
+  async listGroups(userId: string) {
+    return Array.from(this.groups.values()).filter((g) => g.members.some((m) => m.userId === userId));
+  }
+
+  async createGroup(input: { name: string; createdBy: string; maxMembers: number; searchGoal: SearchGoal }) {
+    const group: RoommateGroup = {
+      ...input,
+      id: `group-${this.groups.size + 1}`,
+      status: 'forming',
+      createdAt: new Date(),
+      members: [{ userId: input.createdBy, name: null, status: 'active', joinedAt: new Date() }],
+    };
+    this.groups.set(group.id, group);
+    return group;
+  }
+
+  async updateGroup(groupId: string, changes: { name?: string; searchGoal?: SearchGoal; status?: GroupStatus }) {
+    const group = this.groups.get(groupId)!;
+    Object.entries(changes).forEach(([key, value]) => value !== undefined && Object.assign(group, { [key]: value }));
+  }
+
+  async setMemberStatus(groupId: string, userId: string, status: MemberStatus) {
+    const group = this.groups.get(groupId)!;
+    const member = group.members.find((m) => m.userId === userId);
+    if (member) member.status = status;
+    else group.members.push({ userId, name: null, status, joinedAt: null });
+  }
+
+  async findListing(apartmentId: string) {
+    return this.listings.get(apartmentId) ?? null;
+  }
+
+  async listShortlist(groupId: string) {
+    return this.shortlist.filter((entry) => entry.groupId === groupId).map((entry) => ({ ...entry, votes: [...entry.votes] }));
+  }
+
+  async addToShortlist(groupId: string, apartmentId: string, userId: string, note: string | null) {
+    if (this.shortlist.some((e) => e.groupId === groupId && e.apartmentId === apartmentId)) return false;
+    this.shortlist.push({
+      groupId,
+      apartmentId,
+      title: this.listings.get(apartmentId)!.title,
+      priceHuf: 360000,
+      bedrooms: 3,
+      addedBy: userId,
+      note,
+      votes: [],
+      createdAt: new Date(),
+    });
+    return true;
+  }
+
+  async removeFromShortlist(groupId: string, apartmentId: string) {
+    this.shortlist = this.shortlist.filter((e) => !(e.groupId === groupId && e.apartmentId === apartmentId));
+  }
+
+  async vote(groupId: string, apartmentId: string, userId: string, vote: 1 | -1) {
+    const entry = this.shortlist.find((e) => e.groupId === groupId && e.apartmentId === apartmentId)!;
+    entry.votes = [...entry.votes.filter((v) => v.userId !== userId), { userId, vote }];
+  }
+
+  async openGroupConversation(groupId: string, apartmentId: string, studentId: string, ownerId: string) {
+    let conversation = this.conversations.find((c) => c.groupId === groupId && c.apartmentId === apartmentId);
+    if (!conversation) {
+      conversation = { id: `conv-${this.conversations.length + 1}`, groupId, apartmentId, studentId, participants: [studentId, ownerId] };
+      this.conversations.push(conversation);
+    }
+    return { id: conversation.id, studentId: conversation.studentId };
+  }
+
+  async conversationParticipants(conversationId: string) {
+    return this.conversations.find((c) => c.id === conversationId)!.participants;
+  }
+}
+
+describe('compatibility', () => {
+  it('scores alike flatmates high, symmetrically, and halves the score on a dealbreaker', () => {
+    const anna = profile('anna');
+    const bence = profile('bence', { schedule: 'early_bird', cleanliness: 5, budgetMaxHuf: 120000 });
+
+    const match = compatibility(anna, bence);
+    expect(match.score).toBe(compatibility(bence, anna).score);
+    expect(match.score).toBeGreaterThan(85);
+    expect(match.dealbreakers).toEqual([]);
+    expect(match.factors).toMatchObject({ budget: 1, schedule: 0.7, languages: 1, districts: 1, personality: expect.any(Number) });
+
+    const smoker = profile('csaba', { smoking: 'smoker', hasPets: true });
+    const clash = compatibility(anna, { ...smoker, acceptsPets: true });
+    expect(clash.dealbreakers).toEqual(['smoking']);
+    expect(clash.score).toBeLessThanOrEqual(compatibility(anna, profile('csaba')).score / 2);
+    expect(compatibility({ ...anna, acceptsPets: false }, smoker).dealbreakers).toEqual(['smoking', 'pets']);
+
+    // Without an assessment the personality factor is left out rather than scored 0
+    const untested = compatibility({ ...anna, personality: null }, bence);
+    expect(untested.factors.personality).toBeUndefined();
+    expect(untested.score).toBeGreaterThan(80);
+
+    // Disjoint budgets fall off with the gap relative to the smaller budget
+    expect(compatibility(anna, profile('dora', { budgetMinHuf: 200000, budgetMaxHuf: 250000 })).factors.budget).toBeCloseTo(
+      1 - 70000 / 130000
+    );
+    expect(compatibility(anna, profile('emil', { budgetMinHuf: 300000, budgetMaxHuf: 350000 })).factors.budget).toBe(0);
+  });
+});
+
+describe('groupSearchGoal and tallyShortlist', () => {
+  it('fills the goal from the members and counts only active members votes', () => {
+    const goal = groupSearchGoal(
+      { features: { must_have: ['washing machine'], nice_to_have: [] } },
+      [profile('anna'), profile('bence', { budgetMinHuf: null, budgetMaxHuf: 150000, districts: [9, 11] })],
+      2
+    );
+    expect(goal.occupancy).toEqual({ type: 'roommate', count: 2 });
+    expect(goal.budget).toEqual({ currency: 'HUF', max: 280000 });
+    expect(goal.location.districts).toEqual([9]);
+    expect(goal.features.must_have).toEqual(['washing machine']);
+
+    // The group's own budget and districts win
+    const own = groupSearchGoal({ budget: { max: 300000, currency: 'HUF' }, location: { districts: [7] } }, [profile('anna')], 1);
+    expect(own.budget.max).toBe(300000);
+    expect(own.location.districts).toEqual([7]);
+    expect(own.occupancy).toEqual({ type: 'student', count: 1 });
+
+    const entry = (apartmentId: string, votes: ShortlistEntry['votes']): ShortlistEntry => ({
+      apartmentId,
+      title: apartmentId,
+      priceHuf: 300000,
+      bedrooms: 3,
+      addedBy: 'anna',
+      note: null,
+      votes,
+      createdAt: new Date('2026-10-01T00:00:00Z'),
+    });
+    const tallied = tallyShortlist(
+      [
+        entry('split', [{ userId: 'anna', vote: 1 }, { userId: 'bence', vote: -1 }]),
+        entry('liked', [{ userId: 'anna', vote: 1 }, { userId: 'bence', vote: 1 }, { userId: 'gone', vote: -1 }]),
+      ],
+      ['anna', 'bence', 'csaba']
+    );
+    expect(tallied.map((t) => [t.apartmentId, t.upvotes, t.downvotes, t.agreed])).toEqual([
+      ['liked', 2, 0, true],
+      ['split', 1, 1, false],
+    ]);
+  });
+});
+
+describe('RoommateService', () => {
+  let repository: MemoryRoommateRepository;
+  let invites: string[];
+  let added: Array<[string, string, string]>;
+  let service: RoommateService;
+
+  beforeEach(() => {
+    repository = new MemoryRoommateRepository();
+    invites = [];
+    added = [];
+    service = new RoommateService(
+      repository,
+      async (_group, _inviterId, inviteeId) => {
+        invites.push(inviteeId);
+      },
+      async (actorId, conversationId, userId) => {
+        added.push([actorId, conversationId, userId]);
+        repository.conversations.find((c) => c.id === conversationId)!.participants.push(userId);
+      },
+      async (userId) => (userId === 'anna' ? profile('anna').personality : null)
+    );
+  });
+
+  it('ranks matches and fills missing traits from the personality assessment', async () => {
+    await expect(service.matches('anna')).rejects.toMatchObject({ status: 404 });
+
+    const { userId: _userId, personality: _personality, ...input } = profile('anna');
+    const saved = await service.saveProfile('anna', { ...input, languages: ['EN', 'en', 'hu'] });
+    expect(saved.personality).toEqual(profile('anna').personality);
+    expect(saved.languages).toEqual(['en', 'hu']);
+
+    repository.profiles.set('bence', profile('bence'));
+    repository.profiles.set('csaba', profile('csaba', { smoking: 'smoker' }));
+    repository.profiles.set('dora', profile('dora', { looking: false }));
+
+    const matches = await service.matches('anna');
+    expect(matches.map((m) => m.profile.userId)).toEqual(['bence', 'csaba']);
+    expect(matches[1].compatibility.dealbreakers).toEqual(['smoking']);
+  });
+
+  it('lets a group invite, shortlist, vote and contact an owner once the majority agrees', async () => {
+    const group = await service.createGroup('anna', { name: 'Corvin crew', maxMembers: 3 });
+    await service.invite(group.id, 'anna', 'bence');
+    await service.invite(group.id, 'anna', 'csaba');
+    expect(invites).toEqual(['bence', 'csaba']);
+    await expect(service.invite(group.id, 'anna', 'dora')).rejects.toMatchObject({ status: 409 });
+    await expect(service.addToShortlist(group.id, 'bence', 'apt-1', null)).rejects.toMatchObject({ status: 403 });
+
+    await service.respond(group.id, 'bence', true);
+    await service.respond(group.id, 'csaba', true);
+
+    const shortlist = await service.addToShortlist(group.id, 'bence', 'apt-1', 'Big kitchen');
+    expect(shortlist[0]).toMatchObject({ upvotes: 1, agreed: false });
+    await expect(service.contactOwner(group.id, 'bence', 'apt-1')).rejects.toMatchObject({ status: 409 });
+
+    expect((await service.vote(group.id, 'csaba', 'apt-1', 1))[0]).toMatchObject({ upvotes: 2, agreed: true });
+    await expect(service.removeFromShortlist(group.id, 'csaba', 'apt-1')).rejects.toMatchObject({ status: 403 });
+
+    const contact = await service.contactOwner(group.id, 'csaba', 'apt-1');
+    expect(contact).toEqual({ conversationId: 'conv-1', participantIds: ['owner-1', 'anna', 'bence', 'csaba'] });
+    expect(added).toEqual([
+      ['csaba', 'conv-1', 'anna'],
+      ['csaba', 'conv-1', 'bence'],
+    ]);
+    expect(repository.groups.get(group.id)!.status).toBe('searching');
+
+    // Asking again reuses the conversation without re-adding (and re-keying) anyone
+    await service.contactOwner(group.id, 'anna', 'apt-1');
+    expect(added).toHaveLength(2);
+
+    await service.leave(group.id, 'bence');
+    const view = await service.getGroup(group.id, 'anna');
+    expect(view.searchGoal.occupancy).toEqual({ type: 'roommate', count: 2 });
+    expect(view.shortlist[0]).toMatchObject({ upvotes: 1, agreed: false });
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Test Suite for event-driven saved-search alerts
+ * Validates matching a listing against saved searches, the per-user dedupe,
+ * instant delivery and the daily/weekly batches
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  SavedSearchAlertService,
+  matchesSearch,
+  normalizeDistricts,
+  type AlertFrequency,
+  type AlertListing,
+  type CandidateSearch,
+  type NewMatch,
+  type PendingMatch,
+  type SavedSearchAlertRepository,
+  type SavedSearchMatch,
+} from '@/services/search-svc/saved-search-alerts';
+
+const HOUR = 60 * 60 * 1000;
+const START = new Date('2026-10-18T08:00:00Z');
+
+const listing = (overrides: Partial<AlertListing> = {}): AlertListing => ({
+  id: 'apt-1',
+  ownerId: 'owner-1',
+  title: 'Sunny two-bed by Kálvin tér',
+  address: 'Lónyay utca 20',
+  district: 9,
+  priceHuf: 190000,
+  bedrooms: 2,
+  furnished: true,
+  status: 'published',
+  ...overrides,
+});
+
+function search(id: string, userId: string, frequency: AlertFrequency, overrides: Partial<CandidateSearch> = {}): CandidateSearch {
+  return {
+    id,
+    userId,
+    name: `Search ${id}`,
+    districts: [],
+    minPrice: null,
+    maxPrice: null,
+    bedrooms: null,
+    furnished: false,
+    subscriber: { userId, email: `${userId}@example.com`, phone: null, frequency, channels: ['email'], lastBatchAt: null },
+    ...overrides,
+  };
+}
+
+class MemoryAlertRepository implements SavedSearchAlertRepository {
+  listings = new Map<string, AlertListing>([['apt-1', listing()]]);
+  searches: CandidateSearch[] = [];
+  matches: SavedSearchMatch[] = [];
+  batchSent = new Map<string, Date>();
+  clock = START;
+
+  async findListing(apartmentId: string) {
+    return this.listings.get(apartmentId) ?? null;
+  }
+
+  // The real index only narrows by district, price and bedrooms; the service re-checks
+  async candidateSearches() {
+    return this.searches;
+  }
+
+  async recordMatches(apartmentId: string, matches: NewMatch[]) {
+    for (const match of matches) {
+      if (!this.matches.some((m) => m.userId === match.userId && m.apartmentId === apartmentId)) {
+        this.matches.push({
+          ...match,
+          id: `match-${this.matches.length + 1}`,
+          apartmentId,
+          status: 'pending',
+          matchedAt: this.clock,
+          sentAt: null,
+        });
+      }
+    }
+    const userIds = matches.map((m) => m.userId);
+    return this.matches.filter((m) => m.apartmentId === apartmentId && userIds.includes(m.userId) && m.status === 'pending');
+  }
+
+  async listPending(): Promise<PendingMatch[]> {
+    return this.matches
+      .filter((m) => m.status === 'pending')
+      .map((match) => {
+        const found = this.searches.find((s) => s.id === match.savedSearchId)!;
+        return {
+          match,
+          searchName: found.name,
+          listing: this.listings.get(match.apartmentId)!,
+          subscriber: { ...found.subscriber, lastBatchAt: this.batchSent.get(match.userId) ?? null },
+        };
+      });
+  }
+
+  async markSent(matchIds: string[], at: Date) {
+    this.matches.filter((m) => matchIds.includes(m.id)).forEach((m) => Object.assign(m, { status: 'sent', sentAt: at }));
+  }
+
+  async markWithdrawn(matchIds: string[]) {
+    this.matches.filter((m) => matchIds.includes(m.id)).forEach((m) => (m.status = 'withdrawn'));
+  }
+
+  async markBatchSent(userId: string, at: Date) {
+    this.batchSent.set(userId, at);
+  }
+}
+
+describe('matchesSearch', () => {
+  it('checks district, price range, bedroom minimum and furnishing', () => {
+    const base = search('s1', 'student-1', 'instant');
+    expect(matchesSearch(base, listing())).toBe(true);
+    expect(matchesSearch({ ...base, districts: [8, 9] }, listing())).toBe(true);
+    expect(matchesSearch({ ...base, districts: [8] }, listing())).toBe(false);
+    expect(matchesSearch({ ...base, districts: [8] }, listing({ district: null }))).toBe(false);
+    expect(matchesSearch({ ...base, minPrice: 150000, maxPrice: 190000 }, listing())).toBe(true);
+    expect(matchesSearch({ ...base, maxPrice: 189999 }, listing())).toBe(false);
+    expect(matchesSearch({ ...base, bedrooms: 3 }, listing())).toBe(false);
+    expect(matchesSearch({ ...base, furnished: true }, listing({ furnished: false }))).toBe(false);
+
+    expect(normalizeDistricts(['9', 8, 8, 0, 24, 'XI', 2.5])).toEqual([9, 8]);
+    expect(normalizeDistricts(undefined)).toEqual([]);
+  });
+});
+
+describe('SavedSearchAlertService', () => {
+  let repository: MemoryAlertRepository;
+  let instant: Array<{ userId: string; searchName: string }>;
+  let batches: Array<{ userId: string; apartmentIds: string[] }>;
+  let now: Date;
+  let service: SavedSearchAlertService;
+
+  beforeEach(() => {
+    repository = new MemoryAlertRepository();
+    instant = [];
+    batches = [];
+    now = START;
+    service = new SavedSearchAlertService(
+      repository,
+      async (subscriber, _listing, _match, searchName) => {
+        instant.push({ userId: subscriber.userId, searchName });
+      },
+      async (subscriber, items) => {
+        batches.push({ userId: subscriber.userId, apartmentIds: items.map((item) => item.listing.id) });
+      },
+      () => now
+    );
+  });
+
+  it('alerts each matching user once, instantly or into their batch, and never the owner', async () => {
+    repository.searches = [
+      search('s1', 'eager', 'instant', { districts: [9] }),
+      search('s2', 'eager', 'instant'),
+      search('s3', 'planner', 'daily', { maxPrice: 200000 }),
+      search('s4', 'too-small', 'instant', { bedrooms: 3 }),
+      search('s5', 'owner-1', 'instant'),
+    ];
+
+    const report = await service.matchListing('apt-1');
+    expect(report).toEqual({ apartmentId: 'apt-1', status: 'matched', matched: 2, delivered: 1, queued: 1 });
+    expect(instant).toEqual([{ userId: 'eager', searchName: 'Search s1' }]);
+
+    // An edit that re-queues the listing does not re-send what the users already have
+    await service.matchListing('apt-1');
+    expect(instant).toHaveLength(1);
+    expect(repository.matches.map((m) => [m.userId, m.status])).toEqual([
+      ['eager', 'sent'],
+      ['planner', 'pending'],
+    ]);
+
+    repository.listings.set('apt-1', listing({ status: 'archived' }));
+    expect(await service.matchListing('apt-1')).toMatchObject({ status: 'unpublished', matched: 0 });
+  });
+
+  it('sends daily batches once due and withdraws listings taken down since', async () => {
+    repository.searches = [search('s1', 'planner', 'daily')];
+    repository.listings.set('apt-2', listing({ id: 'apt-2' }));
+    await service.matchListing('apt-1');
+    await service.matchListing('apt-2');
+
+    now = new Date(START.getTime() + 23 * HOUR);
+    expect(await service.flushBatches()).toEqual({ users: 0, sent: 0, withdrawn: 0 });
+
+    repository.listings.set('apt-2', listing({ id: 'apt-2', status: 'snoozed' }));
+    now = new Date(START.getTime() + 24 * HOUR);
+    expect(await service.flushBatches()).toEqual({ users: 1, sent: 1, withdrawn: 1 });
+    expect(batches).toEqual([{ userId: 'planner', apartmentIds: ['apt-1'] }]);
+
+    // The next batch waits a full day after this one
+    repository.clock = now;
+    repository.listings.set('apt-3', listing({ id: 'apt-3' }));
+    await service.matchListing('apt-3');
+    now = new Date(START.getTime() + 30 * HOUR);
+    expect((await service.flushBatches()).sent).toBe(0);
+    now = new Date(START.getTime() + 48 * HOUR);
+    expect((await service.flushBatches()).sent).toBe(1);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Test Suite for the conversational search agent
+ * Validates goal extraction, goal -> filter mapping, result explanations and SSE framing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyMessageToGoal,
+  createEmptyGoal,
+  encodeSseEvent,
+  goalToSearchFilters,
+  normalizeGoal,
+  parseSseChunk,
+  rankResultsForGoal,
+} from '@/lib/ai/search-agent';
+import type { SearchResult } from '@/services/search-svc';
+
+function result(id: string, overrides: Partial<SearchResult['apartment']> = {}, score = 0.8): SearchResult {
+  return {
+    apartment: {
+      id,
+      title: `Apartment ${id}`,
+      description: null,
+      price: 140000,
+      rooms: 1,
+      location: { lat: 47.49, lng: 19.06 },
+      address: null,
+      district: 'VIII',
+      amenities: [],
+      photos: [],
+      owner: { name: 'Owner', verified: true },
+      metrics: { mediaQuality: null, completeness: null, commuteMinutes: null, suggestedPrice: null },
+      ...overrides,
+    },
+    score,
+    reasons: [],
+    reasonCodes: [],
+    source: 'hybrid',
+  };
+}
+
+describe('Goal extraction', () => {
+  it('reads budget, districts, features and universities from a message', () => {
+    const goal = applyMessageToGoal('2 bedrooms under 150k in District VIII near Corvinus, need a balcony', createEmptyGoal());
+
+    expect(goal.budget).toEqual({ currency: 'HUF', max: 150000 });
+    expect(goal.location.districts).toEqual([8]);
+    expect(goal.location.poi_proximity?.[0].target).toBe('Corvinus');
+    expect(goal.features.must_have).toContain('balcony');
+    expect(goal.occupancy).toEqual({ type: 'roommate', count: 2 });
+    expect(goal.status).toBe('monitoring');
+  });
+
+  it('keeps earlier answers when later messages add details', () => {
+    const first = applyMessageToGoal('budget 120000 huf', createEmptyGoal());
+    const second = applyMessageToGoal('also a washing machine in the IX. kerület', first);
+
+    expect(second.budget.max).toBe(120000);
+    expect(second.location.districts).toEqual([9]);
+    expect(second.features.must_have).toEqual(['washing machine']);
+  });
+
+  it('normalizes partial goals from the model', () => {
+    const goal = normalizeGoal({ budget: { max: 90000 } } as any);
+    expect(goal.location.districts).toEqual([]);
+    expect(goal.features.must_have).toEqual([]);
+    expect(goal.budget.currency).toBe('HUF');
+  });
+});
+
+describe('Goal to search', () => {
+  it('maps the goal onto hybrid search filters', () => {
+    const goal = applyMessageToGoal('max 400 eur near BME within 20 minutes, wifi', createEmptyGoal());
+    const { query, filters } = goalToSearchFilters(goal);
+
+    expect(filters.budget).toEqual({ min: 0, max: 160000 });
+    expect(filters.maxCommuteMinutes).toBe(20);
+    expect(filters.commuteOrigin?.lat).toBeCloseTo(47.48, 1);
+    expect(query).toContain('wifi');
+  });
+
+  it('keeps exact district matches and explains the ranking', () => {
+    const goal = applyMessageToGoal('under 150k in District VIII with a balcony', createEmptyGoal());
+    const cards = rankResultsForGoal([
+      result('a', { amenities: ['Balcony'] }),
+      result('b', { price: 149000 }),
+      result('c', { district: 'XVIII' }, 1),
+    ], goal);
+
+    expect(cards.map((card) => card.id)).toEqual(['a', 'b']);
+    expect(cards[0].reasons.map((reason) => reason.factor)).toEqual(expect.arrayContaining(['Budget', 'Location', 'Features']));
+    expect(cards[0].reasons.find((reason) => reason.factor === 'Features')?.description).toContain('balcony');
+    expect(cards[1].reasons.find((reason) => reason.factor === 'Features')?.description).toContain('Missing balcony');
+  });
+});
+
+describe('SSE framing', () => {
+  it('parses events split across chunks', () => {
+    const text = encodeSseEvent({ event: 'token', data: { text: 'Hello' } }) +
+      encodeSseEvent({ event: 'done', data: { content: 'Hello there' } });
+    const cut = text.length - 10;
+
+    const first = parseSseChunk(text.slice(0, cut));
+    expect(first.events).toEqual([{ event: 'token', data: { text: 'Hello' } }]);
+
+    const second = parseSseChunk(first.rest + text.slice(cut));
+    expect(second.events).toEqual([{ event: 'done', data: { content: 'Hello there' } }]);
+    expect(second.rest).toBe('');
+  });
+});
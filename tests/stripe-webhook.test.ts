@@ -0,0 +1,190 @@
+/**
+ * Test Suite for the Stripe webhook route
+ * Validates that POST /api/webhooks/stripe verifies platform and Connect
+ * signatures and hands every event to PaymentsService, so real payments are
+ * recorded on the lease, posted to the ledger and invoiced
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getStripe } from '@/lib/stripe/server';
+import { leaseService } from '@/services/payments-svc/lease';
+import { ledgerService } from '@/services/payments-svc/ledger';
+import { invoiceService } from '@/services/payments-svc/invoice';
+import { POST } from '@/app/api/webhooks/stripe/route';
+
+const PLATFORM_SECRET = 'whsec_platform_test';
+const CONNECT_SECRET = 'whsec_connect_test';
+
+function event(type: string, object: Record<string, unknown>, account?: string) {
+  return {
+    id: `evt_${type}`,
+    object: 'event',
+    type,
+    account,
+    created: 1792310400,
+    data: { object },
+  };
+}
+
+function signedRequest(payload: object, secret: string): NextRequest {
+  const body = JSON.stringify(payload);
+  const signature = getStripe()!.webhooks.generateTestHeaderString({ payload: body, secret });
+  return new NextRequest('https://app.example/api/webhooks/stripe', {
+    method: 'POST',
+    body,
+    headers: { 'stripe-signature': signature },
+  });
+}
+
+describe('POST /api/webhooks/stripe', () => {
+  let supabaseCalls: string[];
+
+  beforeAll(() => {
+    process.env.STRIPE_SECRET_KEY = 'sk_test_webhook';
+    process.env.STRIPE_WEBHOOK_SECRET = PLATFORM_SECRET;
+    process.env.STRIPE_CONNECT_WEBHOOK_SECRET = CONNECT_SECRET;
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-role-test';
+  });
+
+  beforeEach(() => {
+    supabaseCalls = [];
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+      supabaseCalls.push(`${init?.method ?? 'GET'} ${new URL(String(input)).pathname}`);
+      return new Response('[]', { status: 200, headers: { 'Content-Type': 'application/json' } });
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('records, posts and invoices a succeeded rent payment', async () => {
+    const recordPayment = vi.spyOn(leaseService, 'recordPaymentSucceeded').mockResolvedValue(null);
+    const recordCharge = vi.spyOn(ledgerService, 'recordLeaseCharge').mockResolvedValue();
+    const issueInvoice = vi.spyOn(invoiceService, 'issueForPayment').mockResolvedValue(null);
+
+    const response = await POST(
+      signedRequest(
+        event('payment_intent.succeeded', {
+          id: 'pi_rent',
+          object: 'payment_intent',
+          amount: 18000000,
+          payment_method: 'pm_card',
+          metadata: { kind: 'rent', booking_id: 'lease-1', user_id: 'tenant-1' },
+        }),
+        PLATFORM_SECRET
+      )
+    );
+
+    expect(response.status).toBe(200);
+    expect(recordPayment).toHaveBeenCalledWith('pi_rent', 'pm_card');
+    expect(recordCharge).toHaveBeenCalledWith('pi_rent');
+    expect(issueInvoice).toHaveBeenCalledWith('pi_rent');
+    expect(supabaseCalls).toEqual([
+      'PATCH /rest/v1/payment_transactions',
+      'POST /rest/v1/notifications',
+    ]);
+  });
+
+  it('asks the tenant to confirm a rent charge their bank held back', async () => {
+    const recordFailed = vi.spyOn(leaseService, 'recordPaymentFailed').mockResolvedValue();
+
+    const response = await POST(
+      signedRequest(
+        event('payment_intent.payment_failed', {
+          id: 'pi_rent_3ds',
+          object: 'payment_intent',
+          amount: 18000000,
+          last_payment_error: { code: 'authentication_required', message: 'This payment requires authentication.' },
+          metadata: { kind: 'rent', booking_id: 'lease-1', lease_payment_id: 'payment-2', user_id: 'tenant-1' },
+        }),
+        PLATFORM_SECRET
+      )
+    );
+
+    expect(response.status).toBe(200);
+    expect(recordFailed).toHaveBeenCalledWith('pi_rent_3ds', 'This payment requires authentication.', 'authentication_required');
+    expect(supabaseCalls).toEqual(['POST /rest/v1/notifications']);
+  });
+
+  it('posts refunds and Connect payouts to the ledger', async () => {
+    const recordRefunds = vi.spyOn(ledgerService, 'recordRefunds').mockResolvedValue();
+    const recordPayout = vi.spyOn(ledgerService, 'recordPayout').mockResolvedValue();
+
+    const refunded = await POST(
+      signedRequest(event('charge.refunded', { id: 'ch_1', object: 'charge', transfer: 'tr_1' }), PLATFORM_SECRET)
+    );
+    expect(refunded.status).toBe(200);
+    expect(recordRefunds).toHaveBeenCalledWith('ch_1', 'tr_1');
+
+    const paid = await POST(
+      signedRequest(
+        event('payout.paid', { id: 'po_1', object: 'payout', amount: 5000000, created: 1792310400, metadata: {} }, 'acct_owner'),
+        CONNECT_SECRET
+      )
+    );
+    expect(paid.status).toBe(200);
+    expect(recordPayout).toHaveBeenCalledWith({
+      payoutId: 'po_1',
+      stripeAccountId: 'acct_owner',
+      amountHuf: 50000,
+      created: new Date(1792310400 * 1000),
+      failed: false,
+    });
+  });
+
+  it('notifies the owner of a Connect payout through their Connect account', async () => {
+    vi.spyOn(ledgerService, 'recordPayout').mockResolvedValue();
+    const inserted: unknown[] = [];
+    vi.mocked(globalThis.fetch).mockImplementation(async (input, init) => {
+      const url = new URL(String(input));
+      supabaseCalls.push(`${init?.method ?? 'GET'} ${url.pathname}`);
+      if (url.pathname === '/rest/v1/stripe_connect_accounts' && url.searchParams.get('stripe_account_id') === 'eq.acct_owner') {
+        return new Response(JSON.stringify({ user_id: 'owner-1' }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+      }
+      if (init?.method === 'POST') inserted.push(JSON.parse(String(init.body)));
+      return new Response('[]', { status: 200, headers: { 'Content-Type': 'application/json' } });
+    });
+
+    const response = await POST(
+      signedRequest(
+        event('payout.failed', { id: 'po_2', object: 'payout', amount: 5000000, currency: 'huf', created: 1792310400, metadata: {} }, 'acct_owner'),
+        CONNECT_SECRET
+      )
+    );
+
+    expect(response.status).toBe(200);
+    expect(supabaseCalls).toEqual(['GET /rest/v1/stripe_connect_accounts', 'POST /rest/v1/notifications']);
+    expect(inserted).toEqual([expect.objectContaining({ user_id: 'owner-1', title: 'Payout Failed' })]);
+  });
+
+  it('leaves automatic Connect payouts alone', async () => {
+    vi.spyOn(ledgerService, 'recordPayout').mockResolvedValue();
+    const cancel = vi.spyOn(getStripe()!.payouts, 'cancel');
+
+    const response = await POST(
+      signedRequest(
+        event('payout.created', { id: 'po_auto', object: 'payout', amount: 5000000, currency: 'huf', metadata: {} }, 'acct_owner'),
+        CONNECT_SECRET
+      )
+    );
+
+    expect(response.status).toBe(200);
+    expect(cancel).not.toHaveBeenCalled();
+    expect(supabaseCalls).toEqual([]);
+  });
+
+  it('rejects events signed with an unknown secret', async () => {
+    const issueInvoice = vi.spyOn(invoiceService, 'issueForPayment').mockResolvedValue(null);
+
+    const response = await POST(
+      signedRequest(event('payment_intent.succeeded', { id: 'pi_forged', object: 'payment_intent' }), 'whsec_forged')
+    );
+
+    expect(response.status).toBe(400);
+    expect(issueInvoice).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Test Suite for the trust & safety classifier pipeline
+ * Validates the rule classifiers against the labelled samples, URL
+ * reputation checks and when the LLM fallback is consulted
+ */
+
+import { describe, it, expect } from 'vitest';
+import { LLMService } from '@/lib/llm/provider';
+import { FixtureProvider } from '@/lib/llm/providers/fixture';
+import { assessUrl, ruleClassifiers } from '@/lib/trust-safety/classifiers';
+import { LABELLED_SAMPLES } from '@/lib/trust-safety/labelled-samples';
+import { createLLMClassifier } from '@/lib/trust-safety/llm-classifier';
+import { ModerationPipeline, evaluatePipeline } from '@/lib/trust-safety/pipeline';
+
+describe('rule classifiers on the labelled samples', () => {
+  it('never blocks benign content and never allows a labelled scam', async () => {
+    const report = await evaluatePipeline(new ModerationPipeline(), LABELLED_SAMPLES);
+
+    expect(report.falseBlocks).toBe(0);
+    expect(report.missedScams).toBe(0);
+    expect(report.decisionAccuracy).toBeGreaterThanOrEqual(0.9);
+    expect(report.perLabel.deposit_scam.recall).toBeGreaterThanOrEqual(0.9);
+    expect(report.perLabel.payment_outside_platform.precision).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('matches Hungarian cues with or without accents and explains the decision', async () => {
+    const pipeline = new ModerationPipeline();
+    const accented = await pipeline.classify({
+      text: 'Külföldön vagyok, a kulcsokat postán küldöm a kaució után.',
+      contentType: 'message',
+    });
+    const plain = await pipeline.classify({
+      text: 'kulfoldon vagyok, a kulcsokat postan kuldom a kaucio utan.',
+      contentType: 'message',
+    });
+
+    expect(accented.decision).toBe('block');
+    expect(plain.labels).toEqual(accented.labels);
+    expect(accented.labels[0].label).toBe('deposit_scam');
+    expect(accented.labels[0].reasons[0]).toContain('Owner claims to be abroad');
+  });
+});
+
+describe('URL reputation', () => {
+  it('flags lookalike and hidden links but not trusted domains', () => {
+    expect(assessUrl('https://airbnb-secure-payments.com/pay')?.confidence).toBeGreaterThanOrEqual(0.85);
+    expect(assessUrl('https://www.airbnb.com/rooms/1')).toBeNull();
+    expect(assessUrl('https://bkk.hu/menetrendek')).toBeNull();
+    expect(assessUrl('bit.ly/abc')?.reason).toContain('Shortened');
+    expect(assessUrl('https://rent.example-site.com', { trustedDomains: ['example-site.com'] })).toBeNull();
+    expect(assessUrl('https://flat-deal.com', { blockedDomains: ['flat-deal.com'] })?.confidence).toBe(0.95);
+  });
+});
+
+describe('LLM fallback', () => {
+  function pipelineWith(provider: FixtureProvider) {
+    const llm = new LLMService(provider);
+    return new ModerationPipeline(ruleClassifiers(), { fallback: createLLMClassifier(() => llm) });
+  }
+
+  it('is consulted only when the rules are unsure', async () => {
+    const provider = new FixtureProvider([
+      {
+        match: 'Content type: message',
+        response: { labels: [{ label: 'deposit_scam', confidence: 0.8, reason: 'Deposit demanded by an absent owner' }] },
+      },
+    ]);
+    const pipeline = pipelineWith(provider);
+
+    const benign = await pipeline.classify({ text: 'Could I see the flat on Friday?', contentType: 'message' });
+    expect(benign.fallbackUsed).toBe(false);
+
+    // "Abroad" plus a deposit is only about 0.5 from the rules, so the LLM weighs in
+    const unsure = await pipeline.classify({
+      text: "I'm currently abroad, please send the deposit and I will arrange everything.",
+      contentType: 'message',
+    });
+    expect(unsure.fallbackUsed).toBe(true);
+    expect(unsure.classifiers).toContain('llm');
+    expect(unsure.decision).toBe('block');
+    expect(provider.calls).toHaveLength(1);
+  });
+
+  it('keeps the rules verdict when the model is unavailable', async () => {
+    const pipeline = pipelineWith(new FixtureProvider());
+
+    const result = await pipeline.classify({
+      text: 'Please pay via Western Union, it is faster.',
+      contentType: 'message',
+    });
+
+    expect(result.fallbackUsed).toBe(false);
+    expect(result.decision).toBe('review');
+  });
+});
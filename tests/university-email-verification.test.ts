@@ -0,0 +1,234 @@
+/**
+ * Test Suite for university email verification
+ * Validates the domain registry, one-time codes and magic links, expiry,
+ * attempt limits and the send rate limit
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import { UNIVERSITY_DOMAINS, isValidStudentId, matchUniversityEmail } from '@/lib/university-domains';
+import { getUniversities } from '@/lib/university-service';
+import {
+  CHALLENGE_TTL_MS,
+  MAX_SENDS_PER_DAY,
+  RESEND_COOLDOWN_MS,
+  UniversityEmailVerificationService,
+  type ChallengeMessage,
+  type ChallengeStore,
+  type UniversityEmailChallenge,
+  type UniversityEmailVerified,
+} from '@/services/verification-svc/university-email';
+
+const USER = '11111111-1111-4111-8111-111111111111';
+
+class MemoryChallengeStore implements ChallengeStore {
+  challenges: UniversityEmailChallenge[] = [];
+  verified = new Map<string, UniversityEmailVerified>();
+
+  async listRecent(userId: string, since: Date) {
+    return this.challenges
+      .filter((c) => c.userId === userId && c.createdAt >= since)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async create(challenge: Parameters<ChallengeStore['create']>[0], now: Date) {
+    for (const open of this.challenges.filter((c) => c.userId === challenge.userId && !c.consumedAt)) {
+      open.consumedAt = now;
+    }
+    const stored = { ...challenge, attempts: 0, consumedAt: null, createdAt: now };
+    this.challenges.push(stored);
+    return stored;
+  }
+
+  async findById(id: string) {
+    return this.challenges.find((c) => c.id === id) ?? null;
+  }
+
+  async findOpen(userId: string) {
+    return (await this.listRecent(userId, new Date(0))).find((c) => !c.consumedAt) ?? null;
+  }
+
+  async reserveAttempt(id: string) {
+    const challenge = this.challenges.find((c) => c.id === id)!;
+    if (challenge.attempts >= challenge.maxAttempts) return null;
+    challenge.attempts++;
+    return challenge.attempts;
+  }
+
+  async consume(id: string, now: Date) {
+    const challenge = this.challenges.find((c) => c.id === id);
+    if (!challenge || challenge.consumedAt) return false;
+    challenge.consumedAt = now;
+    return true;
+  }
+
+  async isEmailVerifiedByOther(email: string, userId: string) {
+    return Array.from(this.verified.values()).some((v) => v.email === email && v.userId !== userId);
+  }
+
+  async markVerified(verified: UniversityEmailVerified) {
+    this.verified.set(verified.userId, verified);
+  }
+
+  async getProfileStatus(userId: string) {
+    const verified = this.verified.get(userId);
+    return {
+      verified: Boolean(verified),
+      email: verified?.email ?? null,
+      universityId: verified?.universityId ?? null,
+      faculty: verified?.faculty ?? null,
+      verifiedAt: verified?.verifiedAt ?? null,
+    };
+  }
+}
+
+function setup() {
+  const store = new MemoryChallengeStore();
+  const sent: ChallengeMessage[] = [];
+  const clock = { now: new Date('2026-10-18T10:00:00Z') };
+  const service = new UniversityEmailVerificationService(
+    store,
+    async (message) => {
+      sent.push(message);
+    },
+    () => clock.now
+  );
+  const advance = (ms: number) => {
+    clock.now = new Date(clock.now.getTime() + ms);
+  };
+  return { store, sent, service, advance };
+}
+
+function wrongCode(code: string): string {
+  return code === '000000' ? '111111' : '000000';
+}
+
+function tokenFrom(message: ChallengeMessage): string {
+  return new URL(message.link).searchParams.get('token')!;
+}
+
+describe('university domain registry', () => {
+  it('matches faculty subdomains and legacy domains but not lookalikes', () => {
+    expect(matchUniversityEmail('Kiss.Anna@Student.ELTE.hu')).toMatchObject({
+      universityId: 'elte',
+      faculty: 'Student mail',
+      campusIds: ['elte-btk', 'elte-ttk'],
+    });
+    expect(matchUniversityEmail('abc123@edu.bme.hu')?.universityId).toBe('bme');
+    expect(matchUniversityEmail('someone@inf.elte.hu')?.faculty).toBe('Faculty of Informatics');
+    expect(matchUniversityEmail('old@sote.hu')).toMatchObject({ universityId: 'semmelweis', legacy: true });
+
+    expect(matchUniversityEmail('scam@elte.hu.example.com')).toBeNull();
+    expect(matchUniversityEmail('scam@notelte.hu')).toBeNull();
+    expect(matchUniversityEmail('student@gmail.com')).toBeNull();
+    expect(matchUniversityEmail('not-an-email')).toBeNull();
+  });
+
+  it('covers every campus in university-service', () => {
+    const ids = new Set(UNIVERSITY_DOMAINS.map((entry) => entry.id));
+    for (const campus of getUniversities()) {
+      expect(ids.has(campus.domainId)).toBe(true);
+    }
+  });
+
+  it('accepts Neptun codes as student ids', () => {
+    expect(isValidStudentId('abc12d', 'ELTE')).toBe(true);
+    expect(isValidStudentId('123456', 'bme')).toBe(false);
+    expect(isValidStudentId('ABCDEFG', 'Corvinus')).toBe(false);
+  });
+});
+
+describe('university email challenge', () => {
+  it('verifies with the emailed code and never stores it in plain text', async () => {
+    const { store, sent, service } = setup();
+
+    const started = await service.startChallenge(USER, 'Kiss.Anna@student.elte.hu');
+    expect(started.email).toBe('kiss.anna@student.elte.hu');
+    expect(sent).toHaveLength(1);
+    expect(store.challenges[0].codeHash).not.toContain(sent[0].code);
+
+    await expect(service.confirmCode(USER, wrongCode(sent[0].code))).rejects.toMatchObject({
+      code: 'invalid_code',
+      details: { attemptsRemaining: 4 },
+    });
+
+    const verified = await service.confirmCode(USER, sent[0].code);
+    expect(verified).toMatchObject({ universityId: 'elte', email: 'kiss.anna@student.elte.hu' });
+    expect((await service.getStatus(USER)).universityName).toBe('Eötvös Loránd University');
+
+    await expect(service.confirmCode(USER, sent[0].code)).rejects.toMatchObject({ code: 'not_found' });
+  });
+
+  it('locks after too many wrong codes and expires after the TTL', async () => {
+    const { sent, service, advance } = setup();
+    await service.startChallenge(USER, 'abc123@edu.bme.hu');
+    const wrong = wrongCode(sent[0].code);
+
+    for (let attempt = 0; attempt < 4; attempt++) {
+      await expect(service.confirmCode(USER, wrong)).rejects.toMatchObject({ code: 'invalid_code' });
+    }
+    await expect(service.confirmCode(USER, wrong)).rejects.toMatchObject({ code: 'locked', status: 429 });
+    await expect(service.confirmCode(USER, sent[0].code)).rejects.toMatchObject({ code: 'locked' });
+
+    advance(RESEND_COOLDOWN_MS);
+    await service.startChallenge(USER, 'abc123@edu.bme.hu');
+    advance(CHALLENGE_TTL_MS);
+    await expect(service.confirmCode(USER, sent[1].code)).rejects.toMatchObject({ code: 'expired', status: 410 });
+  });
+
+  it('counts concurrent guesses against the attempt limit', async () => {
+    const { store, sent, service } = setup();
+    await service.startChallenge(USER, 'abc123@edu.bme.hu');
+    const wrong = wrongCode(sent[0].code);
+
+    const results = await Promise.allSettled(Array.from({ length: 20 }, () => service.confirmCode(USER, wrong)));
+    const codes = results.map((result) => (result.status === 'rejected' ? result.reason.code : 'verified'));
+    expect(codes.filter((code) => code === 'invalid_code')).toHaveLength(4);
+    expect(codes.filter((code) => code === 'locked')).toHaveLength(16);
+    expect(store.challenges[0].attempts).toBe(5);
+    await expect(service.confirmCode(USER, sent[0].code)).rejects.toMatchObject({ code: 'locked' });
+  });
+
+  it('accepts the magic link once and only for the newest challenge', async () => {
+    const { sent, service, advance } = setup();
+    await service.startChallenge(USER, 'kovacs@stud.uni-corvinus.hu');
+    advance(RESEND_COOLDOWN_MS);
+    await service.startChallenge(USER, 'kovacs@stud.uni-corvinus.hu');
+
+    await expect(service.confirmToken(tokenFrom(sent[0]))).rejects.toMatchObject({ code: 'expired' });
+    await expect(service.confirmToken('not-a-token')).rejects.toMatchObject({ code: 'not_found' });
+
+    const verified = await service.confirmToken(tokenFrom(sent[1]));
+    expect(verified).toMatchObject({ userId: USER, universityId: 'corvinus' });
+    await expect(service.confirmToken(tokenFrom(sent[1]))).rejects.toMatchObject({ code: 'expired' });
+  });
+
+  it('rate limits sends and rejects unknown or taken addresses', async () => {
+    const { store, service, advance } = setup();
+
+    await expect(service.startChallenge(USER, 'me@gmail.com')).rejects.toMatchObject({ code: 'unknown_domain' });
+
+    await service.startChallenge(USER, 'me@student.elte.hu');
+    await expect(service.startChallenge(USER, 'me@student.elte.hu')).rejects.toMatchObject({
+      code: 'rate_limited',
+      details: { retryAfterSeconds: 60 },
+    });
+    for (let send = 1; send < MAX_SENDS_PER_DAY; send++) {
+      advance(RESEND_COOLDOWN_MS);
+      await service.startChallenge(USER, 'me@student.elte.hu');
+    }
+    advance(RESEND_COOLDOWN_MS);
+    await expect(service.startChallenge(USER, 'me@student.elte.hu')).rejects.toMatchObject({ code: 'rate_limited' });
+
+    store.verified.set('other', {
+      userId: 'other',
+      email: 'taken@edu.bme.hu',
+      universityId: 'bme',
+      universityName: 'BME',
+      faculty: null,
+      verifiedAt: new Date(),
+    });
+    await expect(service.startChallenge(USER, 'Taken@edu.bme.hu')).rejects.toMatchObject({ code: 'email_in_use' });
+  });
+});
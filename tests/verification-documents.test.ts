@@ -0,0 +1,222 @@
+/**
+ * Test Suite for verification document storage and review
+ * Validates signed local URLs, content sniffing, the review state machine,
+ * audit events and redaction of ID documents after a decision
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { LocalStorageAdapter, verifyLocalSignature } from '@/lib/storage/adapters/local';
+import { StorageError } from '@/lib/storage';
+import {
+  DocumentReviewError,
+  RETENTION_DAYS,
+  VerificationDocumentService,
+  nextDocumentStatus,
+  redactionDate,
+  sniffContentType,
+  type AuditEvent,
+  type DocumentDecision,
+  type DocumentRepository,
+  type DocumentStatus,
+  type NewDocument,
+  type VerificationDocument,
+} from '@/services/verification-svc/documents';
+
+const USER = '11111111-1111-4111-8111-111111111111';
+const ADMIN = '22222222-2222-4222-8222-222222222222';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3, 4]);
+
+class MemoryDocumentRepository implements DocumentRepository {
+  documents = new Map<string, VerificationDocument>();
+  approvals: string[] = [];
+  private sequence = 0;
+
+  async insert(document: NewDocument, submittedAt: Date) {
+    const stored: VerificationDocument = {
+      ...document,
+      id: `00000000-0000-4000-8000-${String(++this.sequence).padStart(12, '0')}`,
+      status: 'pending',
+      aiAnalysis: null,
+      reviewNotes: null,
+      decisionReason: null,
+      reviewedBy: null,
+      reviewedAt: null,
+      submittedAt,
+      redactAfter: null,
+      redactedAt: null,
+    };
+    this.documents.set(stored.id, stored);
+    return { ...stored };
+  }
+
+  async findById(id: string) {
+    const document = this.documents.get(id);
+    return document ? { ...document } : null;
+  }
+
+  async findAwaitingInfo(userId: string, documentType: VerificationDocument['documentType']) {
+    return (
+      [...this.documents.values()].find(
+        (d) => d.userId === userId && d.documentType === documentType && d.status === 'more_info_requested'
+      ) ?? null
+    );
+  }
+
+  async listQueue(status: DocumentStatus) {
+    return [...this.documents.values()].filter((d) => d.status === status);
+  }
+
+  async countByStatus() {
+    const counts: Record<DocumentStatus, number> = { pending: 0, approved: 0, rejected: 0, more_info_requested: 0 };
+    for (const document of this.documents.values()) counts[document.status] += 1;
+    return counts;
+  }
+
+  async decide(id: string, decision: DocumentDecision) {
+    const document = this.documents.get(id);
+    if (!document || document.status !== 'pending') return null;
+    Object.assign(document, decision);
+    return { ...document };
+  }
+
+  async saveAnalysis(id: string, analysis: Record<string, any>) {
+    this.documents.get(id)!.aiAnalysis = analysis;
+  }
+
+  async markRedacted(id: string, redactedAt: Date, analysis: Record<string, any> | null) {
+    Object.assign(this.documents.get(id)!, { storageKey: null, fileName: null, aiAnalysis: analysis, redactedAt });
+  }
+
+  async applyApproval(document: VerificationDocument) {
+    this.approvals.push(document.id);
+  }
+}
+
+describe('verification documents', () => {
+  let root: string;
+  let storage: LocalStorageAdapter;
+  let repository: MemoryDocumentRepository;
+  let audit: AuditEvent[];
+  let scheduled: VerificationDocument[];
+  let notified: VerificationDocument[];
+  let now: Date;
+  let service: VerificationDocumentService;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'verification-docs-'));
+    storage = new LocalStorageAdapter(root, 'http://localhost:3000', 'test-secret');
+    repository = new MemoryDocumentRepository();
+    audit = [];
+    scheduled = [];
+    notified = [];
+    now = new Date('2026-10-18T10:00:00Z');
+    service = new VerificationDocumentService(
+      repository,
+      () => storage,
+      async (event) => void audit.push(event),
+      async (document) => void scheduled.push(document),
+      async (document) => void notified.push(document),
+      () => now
+    );
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('signs local URLs that expire and cannot be altered', async () => {
+    const url = new URL(await storage.signedUrl('user/id_card/a.png', 300));
+    const key = url.searchParams.get('key')!;
+    const expires = Number(url.searchParams.get('expires'));
+    const signature = url.searchParams.get('signature')!;
+
+    expect(url.pathname).toBe('/api/storage/local');
+    expect(verifyLocalSignature(key, expires, signature, 'test-secret')).toBe(true);
+    expect(verifyLocalSignature('user/id_card/b.png', expires, signature, 'test-secret')).toBe(false);
+    expect(verifyLocalSignature(key, expires, signature, 'test-secret', (expires + 1) * 1000)).toBe(false);
+    await expect(storage.put('../outside.png', PNG, { contentType: 'image/png' })).rejects.toBeInstanceOf(StorageError);
+  });
+
+  it('stores uploads under a generated key and rejects unknown file types', async () => {
+    expect(sniffContentType(PNG)).toBe('image/png');
+    expect(sniffContentType(new TextEncoder().encode('%PDF-1.7'))).toBe('application/pdf');
+
+    const document = await service.upload(USER, { documentType: 'id_card', fileName: 'id.png', body: PNG });
+    expect(document.storageKey).toMatch(new RegExp(`^${USER}/id_card/[0-9a-f-]+\\.png$`));
+    expect(new Uint8Array(await storage.get(document.storageKey!))).toEqual(PNG);
+    expect(audit.map((event) => event.event)).toEqual(['verification_document.uploaded']);
+
+    await expect(
+      service.upload(USER, { documentType: 'id_card', fileName: 'id.exe', body: new Uint8Array([0x4d, 0x5a, 0, 0]) })
+    ).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('moves pending documents through one decision only', async () => {
+    expect(nextDocumentStatus('pending', 'approve')).toBe('approved');
+    expect(nextDocumentStatus('pending', 'request_more_info')).toBe('more_info_requested');
+    expect(() => nextDocumentStatus('approved', 'reject')).toThrow(DocumentReviewError);
+
+    const document = await service.upload(USER, { documentType: 'passport', fileName: 'p.png', body: PNG });
+    await expect(service.review(ADMIN, document.id, 'reject')).rejects.toMatchObject({ status: 400 });
+
+    const decided = await service.review(ADMIN, document.id, 'approve', { notes: 'matches profile' });
+    expect(decided.status).toBe('approved');
+    expect(decided.redactAfter).toEqual(new Date(now.getTime() + RETENTION_DAYS.approved * DAY_MS));
+    expect(repository.approvals).toEqual([document.id]);
+    expect(scheduled.map((d) => d.id)).toEqual([document.id]);
+    expect(notified.map((d) => d.status)).toEqual(['approved']);
+    expect(audit.at(-1)).toMatchObject({ event: 'verification_document.approved', actorId: ADMIN });
+
+    await expect(service.review(ADMIN, document.id, 'reject', { reason: 'blurry' })).rejects.toMatchObject({
+      status: 409,
+    });
+  });
+
+  it('links a re-upload to the request for more information', async () => {
+    const first = await service.upload(USER, { documentType: 'student_id', fileName: 's.png', body: PNG });
+    await service.review(ADMIN, first.id, 'request_more_info', { reason: 'Back side is missing' });
+
+    const second = await service.upload(USER, { documentType: 'student_id', fileName: 's2.png', body: PNG });
+    expect(second.replacesId).toBe(first.id);
+    expect((await service.reviewQueue()).counts).toMatchObject({ pending: 1, more_info_requested: 1 });
+  });
+
+  it('issues signed URLs only to the owner or a reviewer and audits each one', async () => {
+    const document = await service.upload(USER, { documentType: 'id_card', fileName: 'id.png', body: PNG });
+
+    const { url } = await service.signedUrl(document.id, { id: ADMIN, role: 'admin' });
+    expect(url).toContain('signature=');
+    expect(audit.at(-1)).toMatchObject({ event: 'verification_document.viewed', actorId: ADMIN });
+    await expect(service.signedUrl(document.id, { id: ADMIN, role: 'user' })).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('deletes the file and redacts extracted data once the retention ends', async () => {
+    const document = await service.upload(USER, { documentType: 'id_card', fileName: 'id.png', body: PNG });
+    await service.saveAnalysis(
+      document.id,
+      { isValid: true, confidence: 0.9, documentType: 'id_card', extractedData: { name: 'Kiss Anna', idNumber: '123456AB' } },
+      null
+    );
+    await service.review(ADMIN, document.id, 'reject', { reason: 'Expired document' });
+    const key = document.storageKey!;
+
+    expect(await service.redact(document.id)).toEqual({ redacted: false });
+    now = new Date(now.getTime() + RETENTION_DAYS.rejected * DAY_MS);
+
+    expect(await service.redact(document.id)).toEqual({ redacted: true });
+    const redacted = await repository.findById(document.id);
+    expect(redacted?.storageKey).toBeNull();
+    expect(redacted?.aiAnalysis).toEqual({ isValid: true, confidence: 0.9, documentType: 'id_card', redacted: true });
+    await expect(storage.get(key)).rejects.toMatchObject({ code: 'not_found' });
+    await expect(service.signedUrl(document.id, { id: ADMIN, role: 'admin' })).rejects.toMatchObject({ status: 404 });
+    expect(await service.redact(document.id)).toEqual({ redacted: false });
+
+    expect(redactionDate('property_deed', 'approved', now)).toBeNull();
+  });
+});
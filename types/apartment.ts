@@ -28,4 +28,6 @@ export interface Apartment {
     owner_response_time_hours?: number;
     floor_number?: number;
     deposit_months?: number;
+    lease_min_months?: number;
+    lease_max_months?: number;
 }
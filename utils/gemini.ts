@@ -1,22 +1,15 @@
-// Using REST API directly to avoid SDK compatibility issues
-// Try primary key first, fall back to secondary key if available
-function getApiKey(): string {
-  const key = process.env.GOOGLE_AI_API_KEY || process.env.GOOGLE_GEMINI_API_KEY || '';
-  if (!key) {
-    console.error('❌ GOOGLE_AI_API_KEY or GOOGLE_GEMINI_API_KEY is not set!');
-  }
-  return key;
-}
-
-// Lazy-load API key to ensure env vars are loaded
-const API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+// Gemini helpers for the apartment search flows.
+// Model calls go through the shared LLM service (lib/llm/provider), which picks
+// the configured provider and handles retries, timeouts and the circuit breaker.
+import { getLLM } from '@/lib/llm/provider';
+import { JsonSchema, LLMError } from '@/lib/llm/types';
 
 // Simple in-memory cache for AI scoring results
 const scoringCache = new Map<string, { result: any; timestamp: number }>();
 const CACHE_DURATION = 1000 * 60 * 30; // 30 minutes
 
 // Request deduplication to prevent duplicate parallel requests
-const pendingRequests = new Map<string, Promise<any>>();
+const pendingRequests = new Map<string, Promise<string>>();
 
 // Generate a simple hash for user profile to create cache keys
 function hashUserProfile(userProfile: any): string {
@@ -37,7 +30,47 @@ export const MODELS = {
   PRO: 'gemini-2.5-pro' // Gemini 2.5 Pro
 } as const;
 
-// Generate response from text prompt using REST API with parallel failover
+const storyAnalysisSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    budget: { type: 'number', nullable: true, description: 'Monthly budget in HUF' },
+    location: { type: 'string', nullable: true },
+    roommates: { type: 'string', nullable: true },
+    preferences: { type: 'array', items: { type: 'string' } },
+    priorities: { type: 'array', items: { type: 'string' } },
+    concerns: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['preferences', 'priorities', 'concerns'],
+};
+
+const suitabilitySchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    score: { type: 'number', minimum: 1, maximum: 100 },
+    reasons: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          factor: { type: 'string' },
+          description: { type: 'string' },
+          impact: { type: 'number' },
+        },
+        required: ['factor', 'description', 'impact'],
+      },
+    },
+    compromises: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['score', 'reasons', 'compromises'],
+};
+
+// Replies that never matched the schema get the caller's default;
+// provider outages still propagate so routes can fall back
+function isInvalidResponse(error: unknown): boolean {
+  return error instanceof LLMError && (error.code === 'invalid_response' || error.code === 'no_fixture');
+}
+
+// Generate response from text prompt
 export async function generateTextResponse(prompt: string, context?: string): Promise<string> {
   const fullPrompt = context ? `${context}\n\n${prompt}` : prompt;
 
@@ -50,128 +83,12 @@ export async function generateTextResponse(prompt: string, context?: string): Pr
     return pendingRequests.get(requestHash)!;
   }
 
-  // Try different models in order of preference (using available Gemini models)
-  const modelsToTry = [
-    'gemini-2.0-flash', // Standard Flash 2.0 - stable and fast
-    'gemini-2.5-flash', // Gemini Flash 2.5 (fallback)
-    'gemini-2.0-flash-lite', // Lite version (fallback)
-  ];
-
-  const makeRequest = async (): Promise<string> => {
-    const apiKey = getApiKey();
-    // Try all models in parallel for fastest response (race condition)
-    const parallelAttempts = modelsToTry.slice(0, 2).map(async (modelName) => {
-      try {
-        const url = `${API_URL}/${modelName}:generateContent?key=${apiKey}`;
-
-        console.log(`🤖 Server: Analyzing story with ${modelName}...`);
-        const response = await fetch(url, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            contents: [{
-              parts: [{ text: fullPrompt }]
-            }],
-            generationConfig: {
-              temperature: 0.7,
-              topK: 40,
-              topP: 0.95,
-              maxOutputTokens: 8192,
-            }
-          }),
-          signal: AbortSignal.timeout(15000) // 15 second timeout
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          // Check for quota/rate limit errors
-          if (response.status === 429) {
-            console.log(`⚠️ Quota exceeded for ${modelName}, trying next model...`);
-          } else if (response.status === 403) {
-            console.log(`⚠️ API not enabled or permission denied for ${modelName}`);
-          }
-          throw new Error(`${modelName}: ${response.status} - ${errorText.substring(0, 200)}`);
-        }
-
-        const data = await response.json();
-        const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-
-        if (text) {
-          console.log(`✅ Success with model: ${modelName}`);
-          return text;
-        }
-
-        throw new Error(`No text in response from ${modelName}`);
-      } catch (error) {
-        console.log(`⚠️ Model ${modelName} failed:`, error);
-        throw error;
-      }
-    });
-
-    // Race the parallel attempts - whoever responds first wins
-    try {
-      return await Promise.race(parallelAttempts);
-    } catch (raceError) {
-      console.log('⚠️ Parallel attempts failed, trying sequential fallback...');
-
-      // Sequential fallback with remaining models
-      for (const modelName of modelsToTry.slice(2)) {
-        try {
-          const url = `${API_URL}/${modelName}:generateContent?key=${apiKey}`;
-
-          const response = await fetch(url, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              contents: [{
-                parts: [{ text: fullPrompt }]
-              }],
-              generationConfig: {
-                temperature: 0.7,
-                topK: 40,
-                topP: 0.95,
-                maxOutputTokens: 8192,
-              }
-            }),
-            signal: AbortSignal.timeout(15000) // 15 second timeout
-          });
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            if (response.status >= 500) {
-              console.log(`⚠️ Model ${modelName} server error (${response.status}), continuing...`);
-              continue;
-            } else {
-              console.log(`❌ Model ${modelName} non-retriable error (${response.status})`);
-              continue;
-            }
-          }
-
-          const data = await response.json();
-          const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-
-          if (text) {
-            console.log(`✅ Success with fallback model: ${modelName}`);
-            return text;
-          }
-        } catch (error) {
-          console.log(`⚠️ Error with ${modelName}:`, error);
-          continue;
-        }
-      }
-
-      throw new Error('Failed to generate AI response with any model');
-    }
-  };
-
   // Store pending request and clean up when done
-  const requestPromise = makeRequest().finally(() => {
-    pendingRequests.delete(requestHash);
-  });
+  const requestPromise = getLLM()
+    .generateText(fullPrompt, { feature: 'text' })
+    .finally(() => {
+      pendingRequests.delete(requestHash);
+    });
 
   pendingRequests.set(requestHash, requestPromise);
   return requestPromise;
@@ -199,16 +116,27 @@ Return a JSON object with:
 - priorities: array of what matters most (budget, location, privacy, etc.)
 - concerns: array of concerns (noise, dirt, distance, etc.)
 
-Be specific and extract exact values where possible. Return ONLY valid JSON, no markdown.
+Be specific and extract exact values where possible.
   `;
 
-  const response = await generateTextResponse(prompt);
-
   try {
-    // Remove markdown code blocks if present
-    const cleanResponse = response.replace(/```json\n?|\n?```/g, '').trim();
-    return JSON.parse(cleanResponse);
+    const analysis = await getLLM().generateJSON<{
+      budget?: number | null;
+      location?: string | null;
+      roommates?: string | null;
+      preferences: string[];
+      priorities: string[];
+      concerns: string[];
+    }>(prompt, storyAnalysisSchema, { feature: 'story-analysis', temperature: 0.3 });
+
+    return {
+      ...analysis,
+      budget: analysis.budget ?? undefined,
+      location: analysis.location ?? undefined,
+      roommates: analysis.roommates ?? undefined,
+    };
   } catch (error) {
+    if (!isInvalidResponse(error)) throw error;
     console.error('Failed to parse AI response:', error);
     // Fallback parsing if JSON is malformed
     return {
@@ -240,7 +168,7 @@ Focus on: budget, living situation, location, lifestyle, must-have features.
 Keep them conversational and specific. Return ONLY the questions, one per line.
   `;
 
-  const response = await generateTextResponse(prompt);
+  const response = await getLLM().generateText(prompt, { feature: 'follow-up-questions' });
   return response.split('\n').filter(q => q.trim().endsWith('?')).slice(0, 5);
 }
 
@@ -280,21 +208,18 @@ User Profile:
 - Preferences: ${JSON.stringify(userProfile.preferences)}
 - Priorities: ${JSON.stringify(userProfile.priorities)}
 
-Return JSON with:
-{
-  "score": number (1-100),
-  "reasons": [{"factor": "string", "description": "string", "impact": number}],
-  "compromises": ["string"]
-}
+Return a score (1-100), the reasons behind it (factor, description, impact)
+and the compromises the user would have to make.
 
-Be specific about why this apartment matches or doesn't match. Return ONLY valid JSON.
+Be specific about why this apartment matches or doesn't match.
   `;
 
-  const response = await generateTextResponse(prompt);
-
   try {
-    const cleanResponse = response.replace(/```json\n?|\n?```/g, '').trim();
-    const result = JSON.parse(cleanResponse);
+    const result = await getLLM().generateJSON<{
+      score: number;
+      reasons: Array<{ factor: string; description: string; impact: number }>;
+      compromises: string[];
+    }>(prompt, suitabilitySchema, { feature: 'suitability-score', temperature: 0.3 });
 
     // Cache the result
     scoringCache.set(cacheKey, {
@@ -304,6 +229,7 @@ Be specific about why this apartment matches or doesn't match. Return ONLY valid
 
     return result;
   } catch (error) {
+    if (!isInvalidResponse(error)) throw error;
     console.error('Failed to parse scoring response:', error);
     return {
       score: 50,
@@ -392,5 +318,5 @@ ${JSON.stringify(personalityData || {}, null, 2)}
 Write a 2-3 sentence description that highlights why this apartment might be perfect for them, using their story and preferences. Make it conversational and exciting.
   `;
 
-  return await generateTextResponse(prompt);
+  return await getLLM().generateText(prompt, { feature: 'personalized-description' });
 }
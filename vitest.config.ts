@@ -3,6 +3,10 @@ import { defineConfig } from 'vitest/config';
 import path from 'path';
 
 export default defineConfig({
+  // Components use the automatic JSX runtime (tsconfig keeps JSX for Next)
+  esbuild: {
+    jsx: 'automatic',
+  },
   test: {
     environment: 'jsdom',
     setupFiles: ['./tests/setup.ts'],